@@ -104,6 +104,81 @@ async function getAllLearningData() {
   });
 }
 
+// ════════════════════════════════════════════════════════════════════════════════
+// 🧠 NEURAL ENSEMBLE STATE — Shared with the app's ZikalyzeDB (clientStorage.ts)
+// ════════════════════════════════════════════════════════════════════════════════
+
+const APP_DB_NAME = 'ZikalyzeDB';
+const NEURAL_STORE_NAME = 'neuralState';
+const NEURAL_STATE_SCHEMA_VERSION = 1; // Keep in sync with src/lib/zikalyze-brain/neural-persistence.ts
+const NEURAL_STATE_CHANNEL = 'zikalyze-neural-state';
+
+let appDb = null;
+const neuralChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(NEURAL_STATE_CHANNEL) : null;
+
+// Opens the app DB at whatever version the app created; null until the app has added the store
+async function openAppDB() {
+  if (appDb) return appDb;
+
+  const database = await new Promise((resolve, reject) => {
+    const request = indexedDB.open(APP_DB_NAME);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+
+  if (!database.objectStoreNames.contains(NEURAL_STORE_NAME)) {
+    database.close();
+    return null;
+  }
+
+  // Never block the app from upgrading its schema
+  database.onversionchange = () => {
+    database.close();
+    appDb = null;
+  };
+  appDb = database;
+  return appDb;
+}
+
+async function neuralStoreRequest(mode, operation) {
+  const database = await openAppDB();
+  if (!database) throw new Error('Neural state store not initialised yet');
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([NEURAL_STORE_NAME], mode);
+    const request = operation(transaction.objectStore(NEURAL_STORE_NAME));
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+function announceNeuralUpdate(symbol) {
+  if (neuralChannel) neuralChannel.postMessage({ type: 'neural_state_updated', symbol });
+}
+
+// Migration and validation happen in the app; the worker only refuses versions it can't know about
+async function putNeuralState(record) {
+  if (!record || typeof record.symbol !== 'string' || !record.state || typeof record.state !== 'object') {
+    throw new Error('Invalid neural state record');
+  }
+  if (typeof record.schemaVersion === 'number' && record.schemaVersion > NEURAL_STATE_SCHEMA_VERSION) {
+    throw new Error(`Neural state v${record.schemaVersion} is newer than this worker (v${NEURAL_STATE_SCHEMA_VERSION})`);
+  }
+
+  await neuralStoreRequest('readwrite', store => store.put({
+    symbol: record.symbol,
+    schemaVersion: record.schemaVersion ?? 0,
+    state: record.state,
+    updated_at: new Date().toISOString(),
+  }));
+  announceNeuralUpdate(record.symbol);
+}
+
+async function deleteNeuralState(symbol) {
+  await neuralStoreRequest('readwrite', store => store.delete(symbol));
+  announceNeuralUpdate(symbol);
+}
+
 // ════════════════════════════════════════════════════════════════════════════════
 // 🔮 DECENTRALIZED PRICE FETCHING — Pyth → DIA → Redstone fallback
 // ════════════════════════════════════════════════════════════════════════════════
@@ -426,6 +501,36 @@ self.onmessage = async (event) => {
       }
       break;
       
+    case 'neural_state_get':
+      try {
+        const symbol = data?.symbol;
+        const result = symbol
+          ? await neuralStoreRequest('readonly', store => store.get(symbol))
+          : await neuralStoreRequest('readonly', store => store.getAll());
+        self.postMessage({ type: 'neural_state_response', data: result });
+      } catch (error) {
+        self.postMessage({ type: 'neural_state_error', error: error.message });
+      }
+      break;
+
+    case 'neural_state_put':
+      try {
+        await putNeuralState(data);
+        self.postMessage({ type: 'neural_state_saved', symbol: data.symbol });
+      } catch (error) {
+        self.postMessage({ type: 'neural_state_error', error: error.message });
+      }
+      break;
+
+    case 'neural_state_reset':
+      try {
+        await deleteNeuralState(data?.symbol);
+        self.postMessage({ type: 'neural_state_saved', symbol: data?.symbol });
+      } catch (error) {
+        self.postMessage({ type: 'neural_state_error', error: error.message });
+      }
+      break;
+
     case 'status':
       self.postMessage({
         type: 'status_response',
@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * Zikalyze Headless Backtest Runner
+ *
+ * Replays OHLC CSV files through the client-side AI brain under Node and
+ * prints win rate, expectancy, max drawdown and Sharpe per file. Use it to
+ * compare brain versions against the same data set.
+ *
+ * CSV format: header row with time|timestamp|date, open, high, low, close
+ * and optional volume. Symbol and interval are read from the file name
+ * (e.g. BTC_1h.csv) unless passed explicitly.
+ *
+ * Usage:
+ *   node scripts/backtest.js data/BTC_1h.csv data/ETH_4h.csv
+ *   node scripts/backtest.js --symbol SOL --interval 15m --fee 0.05 sol.csv
+ *   node scripts/backtest.js --json results.json data/*.csv
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+// ANSI color codes for terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  red: '\x1b[31m',
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function parseArgs(argv) {
+  const options = { files: [], fee: undefined, symbol: undefined, interval: undefined, json: undefined, maxHold: undefined, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--symbol') options.symbol = argv[++i];
+    else if (arg === '--interval') options.interval = argv[++i];
+    else if (arg === '--fee') options.fee = Number(argv[++i]);
+    else if (arg === '--max-hold') options.maxHold = Number(argv[++i]);
+    else if (arg === '--json') options.json = argv[++i];
+    else if (arg === '--verbose') options.verbose = true;
+    else options.files.push(arg);
+  }
+  return options;
+}
+
+// BTC_1h.csv / btc-4h.csv / ETHUSDT_15m_2025.csv → { symbol, interval }
+function describeFile(file) {
+  const name = basename(file).replace(/\.csv$/i, '');
+  const [rawSymbol, rawInterval] = name.split(/[_\-\s]+/);
+  const symbol = (rawSymbol || 'BTC').toUpperCase().replace(/(USDT|USDC|USD)$/, '');
+  const interval = /^\d+[mhd]$/i.test(rawInterval || '') ? rawInterval.toLowerCase() : undefined;
+  return { symbol, interval };
+}
+
+const options = parseArgs(process.argv.slice(2));
+
+if (options.files.length === 0) {
+  log('\n❌ No CSV files given', 'red');
+  log('Usage: node scripts/backtest.js [--symbol BTC] [--interval 1h] [--fee 0.1] [--json out.json] file.csv ...\n', 'yellow');
+  process.exit(1);
+}
+
+// Load the TypeScript engine through Vite so the @/ alias and TS resolve exactly as in the app
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  resolve: { alias: { '@': resolve(root, 'src') } },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+let exitCode = 0;
+
+try {
+  const engine = await server.ssrLoadModule('/src/lib/zikalyze-brain/backtest.ts');
+  const reports = [];
+
+  for (const file of options.files) {
+    const described = describeFile(file);
+    const symbol = options.symbol || described.symbol;
+    const candles = engine.parseOHLCCsv(readFileSync(resolve(file), 'utf8'));
+    const interval = options.interval || described.interval || engine.intervalLabel(engine.inferIntervalMs(candles));
+
+    log(`\n${colors.cyan}[${symbol} ${interval}]${colors.reset} ${candles.length} candles from ${basename(file)}`);
+
+    const report = await engine.runBacktest(candles, {
+      symbol,
+      interval,
+      feePercent: options.fee,
+      maxHoldBars: options.maxHold,
+      quiet: !options.verbose,
+    });
+    reports.push(report);
+  }
+
+  log(`\n🧠 Zikalyze AI v${reports[0]?.brainVersion ?? '?'} — backtest summary\n`, 'bright');
+  console.table(reports.map(r => ({
+    symbol: r.symbol,
+    interval: r.interval,
+    bars: r.bars,
+    trades: r.metrics.trades,
+    'win %': r.metrics.winRate,
+    'exp R': r.metrics.expectancyR,
+    'exp %': r.metrics.expectancyPercent,
+    'return %': r.metrics.totalReturnPercent,
+    'max DD %': r.metrics.maxDrawdownPercent,
+    sharpe: r.metrics.sharpe,
+    PF: r.metrics.profitFactor,
+  })));
+
+  if (options.json) {
+    // Equity curves are large — keep trades and metrics only
+    const output = reports.map(({ equityCurve, ...rest }) => rest);
+    writeFileSync(resolve(options.json), JSON.stringify(output, null, 2));
+    log(`\n✅ Results written to ${options.json}`, 'green');
+  }
+} catch (error) {
+  log(`\n❌ Backtest failed: ${error.message}`, 'red');
+  exitCode = 1;
+} finally {
+  await server.close();
+}
+
+process.exit(exitCode);
@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+/**
+ * Zikalyze Headless Checks
+ *
+ * Runs the scripted checks in scripts/checks/ against the TypeScript sources
+ * under Node, the same way the backtest runner loads the brain. Each check
+ * file exports a `title` and a default async function that receives
+ * `{ load, check }`: `load(path)` imports an app module, `check(ok, label)`
+ * records one assertion. Exits with code 1 when any assertion fails.
+ *
+ * Usage:
+ *   node scripts/check.js                 (every check)
+ *   node scripts/check.js calibration     (only scripts/checks/calibration.js)
+ *   node scripts/check.js --verbose       (list passing assertions too)
+ */
+
+import { readdirSync } from 'fs';
+import { resolve, dirname, basename } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { createServer } from 'vite';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const checksDir = resolve(root, 'scripts/checks');
+
+// ANSI color codes for terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  red: '\x1b[31m',
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+const available = readdirSync(checksDir).filter(f => f.endsWith('.js')).map(f => basename(f, '.js')).sort();
+const args = process.argv.slice(2);
+const verbose = args.includes('--verbose');
+const requested = args.filter(arg => arg !== '--verbose');
+const unknown = requested.filter(name => !available.includes(name));
+
+if (unknown.length > 0) {
+  log(`\n❌ Unknown check: ${unknown.join(', ')}`, 'red');
+  log(`Available: ${available.join(', ')}\n`, 'yellow');
+  process.exit(1);
+}
+
+// Load the TypeScript sources through Vite so the @/ alias and TS resolve exactly as in the app
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  resolve: { alias: { '@': resolve(root, 'src') } },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+let passed = 0;
+let failed = 0;
+let exitCode = 0;
+
+try {
+  for (const name of requested.length > 0 ? requested : available) {
+    const checkFile = await import(pathToFileURL(resolve(checksDir, `${name}.js`)).href);
+    log(`\n${colors.cyan}[${name}]${colors.reset} ${checkFile.title ?? ''}`);
+
+    const before = { passed, failed };
+    const check = (ok, label) => {
+      if (ok) {
+        passed++;
+        if (verbose) log(`  ✓ ${label}`, 'green');
+      } else {
+        failed++;
+        log(`  ✗ ${label}`, 'red');
+      }
+    };
+
+    try {
+      await checkFile.default({ load: path => server.ssrLoadModule(path), check });
+    } catch (error) {
+      failed++;
+      log(`  ✗ threw: ${error.message}`, 'red');
+    }
+    log(`  ${passed - before.passed} passed, ${failed - before.failed} failed`, failed > before.failed ? 'red' : 'green');
+  }
+
+  log(`\n${failed === 0 ? '✅' : '❌'} ${passed} passed, ${failed} failed\n`, failed === 0 ? 'bright' : 'red');
+  if (failed > 0) exitCode = 1;
+} catch (error) {
+  log(`\n❌ Checks failed to run: ${error.message}`, 'red');
+  exitCode = 1;
+} finally {
+  await server.close();
+}
+
+process.exit(exitCode);
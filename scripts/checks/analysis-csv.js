@@ -0,0 +1,108 @@
+/**
+ * Analysis CSV export — RFC 4180 quoting and formula neutralising. Every
+ * exported row must parse back to the same cells, whatever the text holds.
+ */
+
+export const title = 'Analysis export CSV quoting';
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF inside quotes
+function parseCSV(text) {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\r' && text[i + 1] === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      i++;
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export default async function ({ load, check }) {
+  const {
+    exportHistoryRecord,
+    buildAnalysisExport,
+    serializeAnalysisCSV,
+    ANALYSIS_CSV_COLUMNS,
+  } = await load('/src/lib/zikalyze-brain/analysis-export.ts');
+
+  const record = (id, insights) => {
+    const exported = exportHistoryRecord({
+      id,
+      symbol: 'btc',
+      price: 64000.5,
+      change_24h: -1.25,
+      analysis_text: 'report',
+      confidence: 72,
+      bias: 'LONG',
+      created_at: '2026-03-18T18:00:00.000Z',
+      was_correct: null,
+    });
+    return { ...exported, snapshot: { ...exported.snapshot, insights } };
+  };
+
+  const cellsOf = (id, insights) => {
+    const doc = buildAnalysisExport([record(id, insights)], 'test', '2026-03-18T19:00:00.000Z');
+    const text = serializeAnalysisCSV(doc);
+    const rows = parseCSV(text);
+    return { text, rows, cell: name => rows[1]?.[ANALYSIS_CSV_COLUMNS.indexOf(name)] };
+  };
+
+  const plain = cellsOf('plain-1', ['RSI oversold']);
+  check(plain.text.endsWith('\r\n') && plain.text.split('\r\n').length === 3, 'rows end with CRLF, header first');
+  check(plain.rows[0].join(',') === ANALYSIS_CSV_COLUMNS.join(','), 'header row lists every column');
+  check(plain.rows[1].length === ANALYSIS_CSV_COLUMNS.length, 'a data row has one cell per column');
+  check(plain.cell('symbol') === 'BTC' && plain.cell('price') === '64000.5' && plain.cell('change_24h') === '-1.25',
+    'plain values are written unquoted');
+  check(plain.cell('raw_confidence') === '' && plain.cell('was_correct') === '', 'null values are empty cells');
+  check(!/"/.test(plain.text), 'nothing is quoted when nothing needs it');
+
+  const cases = [
+    ['comma', ['Support, then resistance'], 'Support, then resistance'],
+    ['double quote', ['Said "buy the dip"'], 'Said "buy the dip"'],
+    ['newline', ['Line one\nLine two'], 'Line one\nLine two'],
+    ['CRLF', ['Line one\r\nLine two'], 'Line one\r\nLine two'],
+    ['joined insights', ['a, b', 'c "d"'], 'a, b | c "d"'],
+    ['formula', ['=HYPERLINK("http://x")'], '\'=HYPERLINK("http://x")'],
+    ['plus formula', ['+1+1'], '\'+1+1'],
+    ['minus formula', ['-2+3'], '\'-2+3'],
+    ['at formula', ['@SUM(A1)'], '\'@SUM(A1)'],
+    ['tab-led formula', ['\t=1+1'], '\'\t=1+1'],
+  ];
+
+  for (const [name, insights, expected] of cases) {
+    const { rows, cell } = cellsOf(`case-${name}`, insights);
+    check(rows.length === 2 && rows[1].length === ANALYSIS_CSV_COLUMNS.length, `${name}: row keeps its column count`);
+    check(cell('insights') === expected, `${name}: cell reads back as written`);
+  }
+
+  const quotedId = cellsOf('id,"with"\nbreaks', []);
+  check(quotedId.cell('id') === 'id,"with"\nbreaks', 'ids are quoted like any other text');
+  check(quotedId.cell('insights') === '', 'empty insights are an empty cell');
+}
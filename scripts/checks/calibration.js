@@ -0,0 +1,78 @@
+/**
+ * Calibration monotonicity — a higher raw confidence must never map to a
+ * lower calibrated hit rate, for Platt and isotonic fits alike.
+ */
+
+export const title = 'Confidence calibration stays monotone';
+
+// Deterministic PRNG so every run grades the same synthetic calls
+function mulberry32(seed) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// `hitRate(confidence)` is the true probability a call at that confidence was right
+function samples(count, seed, hitRate) {
+  const random = mulberry32(seed);
+  return Array.from({ length: count }, () => {
+    const confidence = Math.round(30 + random() * 65);
+    return { symbol: 'BTC', confidence, correct: random() < hitRate(confidence) };
+  });
+}
+
+function isMonotone(model, calibrateProbability) {
+  let previous = -Infinity;
+  for (let confidence = 0; confidence <= 100; confidence++) {
+    const p = calibrateProbability(model, confidence);
+    if (p < previous - 1e-12) return false;
+    previous = p;
+  }
+  return true;
+}
+
+export default async function ({ load, check }) {
+  const {
+    fitCalibrationModel,
+    calibrateProbability,
+    MIN_CALIBRATION_SAMPLES,
+    ISOTONIC_MIN_SAMPLES,
+  } = await load('/src/lib/zikalyze-brain/calibration.ts');
+  const now = Date.UTC(2025, 0, 1);
+
+  check(fitCalibrationModel(samples(MIN_CALIBRATION_SAMPLES - 1, 1, () => 0.5), 'global', now) === null,
+    'too few graded calls leave the raw confidence alone');
+
+  const cases = [
+    ['honest', c => c / 100],
+    ['overconfident', c => 0.3 + c / 400],
+    ['inverted', c => 1 - c / 100],
+    ['flat', () => 0.55],
+    ['always right', () => 1],
+    ['always wrong', () => 0],
+  ];
+
+  for (const [name, hitRate] of cases) {
+    for (const [count, method] of [[MIN_CALIBRATION_SAMPLES + 10, 'platt'], [ISOTONIC_MIN_SAMPLES + 140, 'isotonic']]) {
+      for (const seed of [7, 42, 1337]) {
+        const model = fitCalibrationModel(samples(count, seed, hitRate), 'global', now);
+        const label = `${method} fit on ${name} calls (seed ${seed})`;
+        check(model?.method === method, `${label} uses ${method}`);
+        if (!model) continue;
+        check(isMonotone(model, calibrateProbability), `${label} is non-decreasing`);
+        check([0, 50, 100].every(c => {
+          const p = calibrateProbability(model, c);
+          return p >= 0.01 && p <= 0.99;
+        }), `${label} stays within 1–99%`);
+      }
+    }
+  }
+
+  // A model fitted on honest calls should actually rise, not just stay flat
+  const honest = fitCalibrationModel(samples(ISOTONIC_MIN_SAMPLES + 340, 99, c => c / 100), 'global', now);
+  check(calibrateProbability(honest, 90) - calibrateProbability(honest, 40) > 0.2,
+    'isotonic fit on honest calls separates 40% from 90% confidence');
+}
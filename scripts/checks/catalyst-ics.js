@@ -0,0 +1,79 @@
+/**
+ * ICS import — line unfolding, escapes and DTSTART forms (UTC, all-day,
+ * floating and TZID) in the catalyst calendar's iCalendar parser.
+ */
+
+export const title = 'Catalyst calendar ICS import';
+
+const calendar = (...lines) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+const vevent = (...lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+
+export default async function ({ load, check }) {
+  const { parseICS } = await load('/src/lib/zikalyze-brain/catalyst-calendar.ts');
+  const now = Date.UTC(2026, 0, 1);
+  const only = text => {
+    const result = parseICS(text, now);
+    return result.events.length === 1 ? result.events[0] : null;
+  };
+
+  // ── Unfolding ──
+  const folded = only(calendar(...vevent(
+    'UID:fold-1',
+    'SUMMARY:Ethereum Pectra',
+    '  mainnet upgrade',
+    'DTSTART;VALUE=DATE:20260318',
+    'DESCRIPTION:First line\\nsecond',
+    '\t line continues',
+  )));
+  check(folded?.title === 'Ethereum Pectra mainnet upgrade', 'a CRLF + space continuation joins the SUMMARY');
+  check(folded?.description === 'First line\nsecond line continues', 'a CRLF + tab continuation joins the DESCRIPTION');
+
+  const lf = only(['BEGIN:VCALENDAR', ...vevent('SUMMARY:Bitcoin', '  halving', 'DTSTART:20280415'), 'END:VCALENDAR'].join('\n'));
+  check(lf?.title === 'Bitcoin halving', 'bare LF line endings unfold too');
+
+  // ── Escapes ──
+  const escaped = only(calendar(...vevent(
+    'SUMMARY:CPI\\, core\\; headline',
+    'DTSTART;VALUE=DATE:20260311',
+    'DESCRIPTION:Path C:\\\\new\\nnext',
+  )));
+  check(escaped?.title === 'CPI, core; headline', 'escaped comma and semicolon are unescaped');
+  check(escaped?.description === 'Path C:\\new\nnext', 'an escaped backslash before "n" stays a backslash');
+
+  // ── DTSTART forms ──
+  const utc = only(calendar(...vevent('SUMMARY:FOMC', 'DTSTART:20260318T180000Z')));
+  check(utc?.date === '2026-03-18' && utc?.time === '18:00', 'UTC DTSTART keeps date and HH:MM');
+
+  const lateUtc = only(calendar(...vevent('SUMMARY:Late', 'DTSTART:20260318T233000Z')));
+  check(lateUtc?.date === '2026-03-18' && lateUtc?.time === '23:30', 'UTC DTSTART does not shift by the local time zone');
+
+  const allDay = only(calendar(...vevent('SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20261225')));
+  check(allDay?.date === '2026-12-25' && allDay?.time === undefined, 'all-day DTSTART has no time');
+
+  const tzid = only(calendar(...vevent('SUMMARY:NY close', 'DTSTART;TZID=America/New_York:20260318T200000')));
+  check(tzid?.date === '2026-03-18' && tzid?.time === undefined, 'TZID DTSTART keeps the wall-clock day and drops the time');
+
+  const quotedTzid = only(calendar(...vevent('SUMMARY:Quoted zone', 'DTSTART;TZID="GMT+01:00":20260318T200000')));
+  check(quotedTzid?.date === '2026-03-18', 'a quoted TZID containing ":" does not split the property early');
+
+  const floating = only(calendar(...vevent('SUMMARY:Floating', 'DTSTART:20260318T090000')));
+  check(floating?.date === '2026-03-18' && floating?.time === undefined, 'floating DTSTART keeps the day only');
+
+  // ── Errors ──
+  const notIcs = parseICS('hello', now);
+  check(notIcs.events.length === 0 && notIcs.errors[0]?.includes('VCALENDAR'), 'text without BEGIN:VCALENDAR is rejected');
+
+  const broken = parseICS(calendar(...vevent('SUMMARY:No start'), ...vevent('SUMMARY:Bad', 'DTSTART:2026-03-18')), now);
+  check(broken.events.length === 0 && broken.skipped === 2, 'events with a missing or unreadable DTSTART are skipped');
+
+  const recurring = parseICS(calendar(...vevent('SUMMARY:Weekly', 'DTSTART:20260105T140000Z', 'RRULE:FREQ=WEEKLY')), now);
+  check(recurring.events.length === 1 && recurring.errors.some(e => e.includes('recurrence')), 'RRULE imports the first occurrence with a warning');
+
+  // ── Ids ──
+  const again = only(calendar(...vevent(
+    'UID:fold-1',
+    'SUMMARY:Ethereum Pectra mainnet upgrade',
+    'DTSTART;VALUE=DATE:20260318',
+  )));
+  check(again?.id === folded?.id, 'the same UID yields the same id on re-import');
+}
@@ -0,0 +1,128 @@
+/**
+ * Order book sync — sequence checks on the local book, and the store's
+ * snapshot/diff resync when the stream skips updates or drops, driven by a
+ * scripted venue and socket instead of a live exchange.
+ */
+
+export const title = 'Order book gap and resync handling';
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+async function until(predicate, timeoutMs = 10000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (predicate()) return true;
+    await wait(25);
+  }
+  return false;
+}
+
+const diff = (firstUpdateId, finalUpdateId, bids = [], asks = []) => ({ firstUpdateId, finalUpdateId, bids, asks });
+
+function checkBook({ createLocalOrderBook, applyDepthUpdate }, check) {
+  const fresh = () => createLocalOrderBook({ lastUpdateId: 100, bids: [[99, 1], [98, 2]], asks: [[101, 1], [102, 2]] });
+
+  let book = fresh();
+  check(applyDepthUpdate(book, diff(90, 100)) === 'stale', 'a diff ending at the snapshot is stale');
+  check(applyDepthUpdate(book, diff(105, 106)) === 'gap', 'a first diff starting after snapshot + 1 is a gap');
+  check(applyDepthUpdate(book, diff(98, 103, [[99, 3]])) === 'applied' && book.bids.get(99) === 3,
+    'the first diff may straddle snapshot + 1');
+  check(applyDepthUpdate(book, diff(103, 104)) === 'gap', 'once bridged, an overlapping diff is a gap');
+  check(applyDepthUpdate(book, diff(105, 105)) === 'gap', 'once bridged, a skipped id is a gap');
+  check(book.lastUpdateId === 103, 'gaps leave the book untouched');
+  check(applyDepthUpdate(book, diff(104, 110, [[98, 0]], [[100.5, 4]])) === 'applied', 'a contiguous diff applies');
+  check(!book.bids.has(98) && book.asks.get(100.5) === 4, 'size 0 removes a level, a new price adds one');
+  check(applyDepthUpdate(book, diff(111, 111, [[Number.NaN, 1]])) === 'applied' && !book.bids.has(Number.NaN),
+    'unreadable levels are skipped');
+
+  book = fresh();
+  check(applyDepthUpdate(book, diff(101, 101)) === 'applied', 'a first diff starting exactly at snapshot + 1 bridges');
+}
+
+async function checkStore({ registerDepthVenue, subscribeOrderBook }, check) {
+  // Scripted socket: the check opens it, sends messages and closes it
+  const sockets = [];
+  const previousWebSocket = globalThis.WebSocket;
+  globalThis.WebSocket = class {
+    constructor(url) {
+      this.url = url;
+      this.closed = false;
+      sockets.push(this);
+    }
+    close() {
+      this.closed = true;
+    }
+  };
+
+  const snapshots = [];
+  let snapshotCalls = 0;
+  registerDepthVenue({
+    id: 'scripted',
+    name: 'Scripted',
+    supports: symbol => symbol === 'CHECKBOOK',
+    streamUrl: symbol => `wss://scripted/${symbol}`,
+    parse: data => data,
+    fetchSnapshot: async () => {
+      snapshotCalls++;
+      const next = snapshots.shift();
+      if (!next) throw new Error('no snapshot scripted');
+      return next;
+    },
+  });
+
+  const views = [];
+  const unsubscribe = subscribeOrderBook('checkbook', view => views.push(view));
+  const latest = () => views[views.length - 1];
+  const send = (socket, update) => socket.onmessage({ data: JSON.stringify(update) });
+
+  try {
+    check(sockets.length === 1 && latest().status === 'connecting', 'subscribing opens the stream');
+
+    // Initial sync: diffs buffered while the snapshot loads replay on top of it
+    const first = sockets[0];
+    send(first, diff(95, 99));
+    send(first, diff(100, 102, [[99, 5]]));
+    snapshots.push({ lastUpdateId: 100, bids: [[99, 1], [98.5, 2]], asks: [[101, 1], [101.5, 2]] });
+    first.onopen();
+    send(first, diff(103, 104, [], [[100.8, 3]]));
+    check(await until(() => latest().status === 'live'), 'the buffered diffs bridge the snapshot and the book goes live');
+    check(latest().bids[0]?.[0] === 99 && latest().bids[0]?.[1] === 5, 'a straddling buffered diff is applied over the snapshot');
+    check(await until(() => latest().asks[0]?.[0] === 100.8), 'diffs after the snapshot keep applying');
+    check(latest().metrics?.bestBid === 99 && latest().metrics?.bestAsk === 100.8, 'metrics follow the book');
+
+    // Gap: the book is dropped and resynced from a fresh snapshot
+    const callsBeforeGap = snapshotCalls;
+    send(first, diff(110, 111));
+    check(latest().status === 'syncing', 'a sequence gap drops the book to syncing');
+    send(first, diff(112, 113, [[99.2, 1]]));
+    // The first snapshot is too old for the buffered 112; the store must ask again
+    snapshots.push({ lastUpdateId: 105, bids: [[99, 1]], asks: [[101, 1]] });
+    snapshots.push({ lastUpdateId: 111, bids: [[99, 1]], asks: [[101, 1]] });
+    check(await until(() => latest().status === 'live', 15000), 'the book resyncs and goes live again');
+    check(snapshotCalls - callsBeforeGap === 2, 'a snapshot older than the buffered diffs is refetched');
+    check(latest().bids[0]?.[0] === 99.2, 'diffs buffered during the resync are replayed');
+
+    // Disconnect: reconnect with a new stream and a new snapshot
+    first.onclose();
+    check(latest().status === 'reconnecting', 'a dropped stream reports reconnecting');
+    check(await until(() => sockets.length === 2), 'the store reconnects on its own');
+    const second = sockets[1];
+    send(second, diff(200, 201, [[99.4, 1]]));
+    snapshots.push({ lastUpdateId: 200, bids: [[99, 1]], asks: [[101, 1]] });
+    second.onopen();
+    check(await until(() => latest().status === 'live', 15000), 'the reconnected stream syncs from a new snapshot');
+    check(latest().bids[0]?.[0] === 99.4, 'the old book is not reused after reconnecting');
+    send(first, diff(202, 203, [[99.9, 1]]));
+    await wait(600);
+    check(latest().bids[0]?.[0] === 99.4, 'messages from the closed stream are ignored');
+  } finally {
+    unsubscribe();
+    check(sockets[sockets.length - 1].closed, 'unsubscribing closes the stream');
+    globalThis.WebSocket = previousWebSocket;
+  }
+}
+
+export default async function ({ load, check }) {
+  checkBook(await load('/src/lib/order-book/book.ts'), check);
+  await checkStore(await load('/src/lib/order-book/store.ts'), check);
+}
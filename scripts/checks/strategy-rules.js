@@ -0,0 +1,95 @@
+/**
+ * Strategy rule language — the documented syntax compiles, and every class of
+ * mistake fails with a message that says what and where.
+ */
+
+export const title = 'Strategy rule language errors';
+
+// Rule, expected message fragment, expected column (1-based) when the error has one
+const ERRORS = [
+  ['', 'Rule is empty'],
+  ['   ', 'Rule is empty'],
+  ['RSI(1h) <', 'Rule ends too early'],
+  ['RSI(1h) < 30 AND', 'Rule ends too early'],
+  ['(RSI(1h) < 30', 'Expected ")"', 14],
+  ['RSI(1h < 30', 'Expected ")"', 8],
+  ['RSI(2h) < 30', 'Timeframe must be one of', 5],
+  ['price(1h) > 1', 'price does not take a timeframe', 1],
+  ['foo > 1', 'Unknown metric "foo"', 1],
+  ['foo(1h) > 1', 'Unknown metric "foo"', 1],
+  ['RSI(1h) < 30 RSI(4h) < 30', 'join conditions with AND/OR', 14],
+  ['AND price > 1', '"AND" needs a condition before it', 1],
+  ['above 3', '"ABOVE" needs a value before it', 1],
+  ['price above', 'Rule ends too early'],
+  ['price > 1.2.3', 'Bad number "1.2.3"', 9],
+  ['bias == "LONG', 'Unclosed quote', 9],
+  ['price # 3', 'Unexpected "#"', 7],
+  ['a&b > 1', 'Unknown metric "a&b"', 1],
+  ['price > 1 & price < 2', 'Unexpected "&"', 11],
+  ['price', 'Rule must be a condition'],
+  ['price + 1', 'Rule must be a condition'],
+  ['trend(4h) > BULLISH', 'needs numbers — use == or !=', 1],
+  ['trend(4h) == SIDEWAYS', 'trend is one of BULLISH, BEARISH, NEUTRAL', 14],
+  ['price == BULLISH', 'Unknown metric "BULLISH"', 10],
+  ['price == bias', 'Cannot compare number with string'],
+  ['price + trend(4h) > 1', 'needs numbers on both sides'],
+  ['NOT price', 'NOT needs a condition'],
+  ['price AND RSI(1h) < 30', 'AND needs a condition on its left'],
+  ['-trend(4h) == 1', '"-" needs a number'],
+];
+
+const VALID = [
+  'RSI(1h) < 30 AND price above EMA21(4h) AND Fear&Greed < 25',
+  'fear&greed below 30',
+  'fg>1&&price>0',
+  'trend(4h) == BULLISH OR NOT (rsi(15m) >= 70)',
+  'fundingExtreme == CROWDED_LONG OR liqLongs1h > 5000000',
+  'bias == "LONG" and confidence > 60',
+  '(price - ema21) / ema21 * 100 > 2',
+  'higherHighs(1d) && !lowerLows(1d)',
+];
+
+export default async function ({ load, check }) {
+  const { compileStrategyRule, validateStrategyRule, evaluateStrategyRule } =
+    await load('/src/lib/zikalyze-brain/strategy-rules.ts');
+
+  for (const rule of VALID) {
+    const error = validateStrategyRule(rule);
+    check(error === null, `compiles: ${rule}${error ? ` (got: ${error})` : ''}`);
+  }
+
+  for (const [rule, fragment, column] of ERRORS) {
+    const error = validateStrategyRule(rule);
+    check(typeof error === 'string' && error.includes(fragment),
+      `${JSON.stringify(rule)} fails with "${fragment}"${error && !error.includes(fragment) ? ` (got: ${error})` : ''}`);
+    if (column) {
+      check(error?.endsWith(`(at column ${column})`), `${JSON.stringify(rule)} points at column ${column}${error ? ` (got: ${error})` : ''}`);
+    }
+  }
+
+  // A rule that failed to compile never matches and reports its error
+  const ctx = {
+    symbol: 'BTC',
+    price: 100,
+    change24h: 1,
+    volume: null,
+    fearGreed: 20,
+    chart: null,
+    multiTimeframe: null,
+    verdict: null,
+    derivatives: null,
+  };
+  const broken = evaluateStrategyRule('foo > 1', ctx);
+  check(broken.matched === false && broken.error?.includes('Unknown metric'), 'a broken rule evaluates to an error, never a match');
+
+  // Missing data is unknown, not false — and not an error
+  const missing = evaluateStrategyRule('RSI(1h) < 30 AND Fear&Greed < 25', ctx);
+  check(missing.error === null && missing.matched === false && missing.missing.length === 1, 'an unloaded value is reported as missing');
+  const shortCircuit = evaluateStrategyRule('RSI(1h) < 30 OR Fear&Greed < 25', ctx);
+  check(shortCircuit.matched === true, 'OR matches on the known side while the other is still loading');
+
+  check(compileStrategyRule('price above 50').root !== null && evaluateStrategyRule('price above 50', ctx).matched,
+    'ABOVE reads as >');
+  check(!evaluateStrategyRule('price below 50', ctx).matched, 'BELOW reads as <');
+  check(evaluateStrategyRule('price / 0 > 1', ctx).matched === false, 'division by zero is unknown rather than Infinity');
+}
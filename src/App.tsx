@@ -29,6 +29,8 @@ const Analytics = lazy(() => import("./pages/Analytics"));
 const Analyzer = lazy(() => import("./pages/Analyzer"));
 const Settings = lazy(() => import("./pages/Settings"));
 const Alerts = lazy(() => import("./pages/Alerts"));
+const Calendar = lazy(() => import("./pages/Calendar"));
+const Screener = lazy(() => import("./pages/Screener"));
 const Install = lazy(() => import("./pages/Install"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
@@ -98,6 +100,8 @@ const App = () => (
                   <Route path="/dashboard/analytics" element={<ProtectedRoute><SessionTracker><ErrorBoundary componentName="Analytics"><Analytics /></ErrorBoundary></SessionTracker></ProtectedRoute>} />
                   <Route path="/dashboard/analyzer" element={<ProtectedRoute><SessionTracker><ErrorBoundary componentName="Analyzer"><Analyzer /></ErrorBoundary></SessionTracker></ProtectedRoute>} />
                   <Route path="/dashboard/alerts" element={<ProtectedRoute><SessionTracker><ErrorBoundary componentName="Alerts"><Alerts /></ErrorBoundary></SessionTracker></ProtectedRoute>} />
+                  <Route path="/dashboard/screener" element={<ProtectedRoute><SessionTracker><ErrorBoundary componentName="Screener"><Screener /></ErrorBoundary></SessionTracker></ProtectedRoute>} />
+                  <Route path="/dashboard/calendar" element={<ProtectedRoute><SessionTracker><ErrorBoundary componentName="Calendar"><Calendar /></ErrorBoundary></SessionTracker></ProtectedRoute>} />
                   <Route path="/dashboard/settings" element={<ProtectedRoute><SessionTracker><ErrorBoundary componentName="Settings"><Settings /></ErrorBoundary></SessionTracker></ProtectedRoute>} />
                   <Route path="/install" element={<Install />} />
                   {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
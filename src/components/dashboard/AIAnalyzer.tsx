@@ -9,14 +9,32 @@ import { useAnalysisCache } from "@/hooks/useAnalysisCache";
 import { useOnChainData } from "@/hooks/useOnChainData";
 import { useChartTrendData } from "@/hooks/useChartTrendData";
 import { useMultiTimeframeData, Timeframe } from "@/hooks/useMultiTimeframeData";
+import { useOrderBookDepth } from "@/hooks/useOrderBookDepth";
+import { getDepthMetrics } from "@/lib/order-book";
+import { useDerivatives } from "@/hooks/useDerivatives";
+import { getDerivativesMetrics } from "@/lib/derivatives";
 import { useAILearning } from "@/hooks/useAILearning";
+import { useConfidenceCalibration } from "@/hooks/useConfidenceCalibration";
+import { useOutcomeGrader } from "@/hooks/useOutcomeGrader";
+import { useStrategyRules } from "@/hooks/useStrategyRules";
 import { useGlobalPriceWebSocket } from "@/hooks/useGlobalPriceWebSocket";
 import { useVWAPPrices } from "@/hooks/useVWAPPrices";
-import { runClientSideAnalysis, AnalysisResult } from "@/lib/zikalyze-brain";
-import { MultiTimeframeInput, TimeframeAnalysisInput } from "@/lib/zikalyze-brain/types";
+import { AnalysisResult, BRAIN_VERSION, buildAnalysisExport, estimateFearGreed, exportAnalysisResult, exportHistoryRecord, gradingPlanFor, reportDirection, snapshotAnalysis, summarizeInputs } from "@/lib/zikalyze-brain";
+import { isAbortError } from "@/lib/zikalyze-brain/rpc";
+import { analyzeInBrain } from "@/lib/brainClient";
+import { AnalysisInput, MultiTimeframeInput, StrategyRuleContext, TimeframeAnalysisInput } from "@/lib/zikalyze-brain/types";
+import { getOHLCData } from "@/lib/clientStorage";
 import { format } from "date-fns";
 import { Progress } from "@/components/ui/progress";
 import AISummaryCard from "./AISummaryCard";
+import TradePlanCard from "./TradePlanCard";
+import AttributionWaterfall from "./AttributionWaterfall";
+import SmartMoneyCard from "./SmartMoneyCard";
+import ReliabilityDiagram from "./ReliabilityDiagram";
+import OutcomeBadges from "./OutcomeBadges";
+import AnalysisExportMenu from "./AnalysisExportMenu";
+import StrategyRulesCard from "./StrategyRulesCard";
+import { useSettings } from "@/hooks/useSettings";
 import { LivePriceLarge } from "./LivePrice";
 import { PriceChange } from "./PriceChange";
 import { VWAPIndicator } from "./VWAPIndicator";
@@ -42,7 +60,7 @@ interface AIAnalyzerProps {
   marketCap?: number;
 }
 
-// Analysis runs 100% client-side via runClientSideAnalysis - no edge function needed
+// Analysis runs 100% client-side in the brain worker (analyzeInBrain) - no edge function needed
 const CHARS_PER_FRAME = 12; // Much faster rendering
 const FRAME_INTERVAL = 8; // 120fps smooth
 const STREAMING_INTERVAL = 5000; // Re-process every 5 seconds when streaming (reduced from 2s)
@@ -59,7 +77,9 @@ const buildMultiTimeframeInput = (multiTfData: any): MultiTimeframeInput | undef
       support: tf.support, resistance: tf.resistance,
       volumeTrend: tf.volumeTrend, higherHighs: tf.higherHighs,
       higherLows: tf.higherLows, lowerHighs: tf.lowerHighs,
-      lowerLows: tf.lowerLows, isLive: tf.isLive
+      lowerLows: tf.lowerLows, isLive: tf.isLive,
+      indicators: tf.indicators,
+      candles: tf.candles
     };
   };
   
@@ -74,6 +94,7 @@ const buildMultiTimeframeInput = (multiTfData: any): MultiTimeframeInput | undef
 
 const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap }: AIAnalyzerProps) => {
   const { t, i18n } = useTranslation();
+  const { settings } = useSettings();
   const [displayedText, setDisplayedText] = useState("");
   const [fullAnalysis, setFullAnalysis] = useState("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -93,6 +114,10 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
   const streamingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const priceHistoryRef = useRef<{ price: number; timestamp: number }[]>([]);
   const backgroundStreamingRef = useRef(false);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const analysisInputRef = useRef<AnalysisInput | null>(null); // Inputs behind analysisResult, for exports
+  const learningControllerRef = useRef<AbortController | null>(null);
+  const learningInFlightRef = useRef(false);
   
   const charIndexRef = useRef(0);
   const animationFrameRef = useRef<number | null>(null);
@@ -115,6 +140,12 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
   
   // 📈 Multi-timeframe analysis (15m, 1h, 4h, 1d)
   const multiTfData = useMultiTimeframeData(crypto);
+
+  // 📚 Live order book — kept in sync while the analyzer is open, read at analysis time
+  useOrderBookDepth(crypto);
+
+  // 📉 Perpetual funding, OI and liquidations — feeds the brain and the strategy rules
+  const { metrics: derivativesMetrics, isLive: derivativesLive } = useDerivatives(crypto);
   
   // Real-time on-chain data with whale tracking
   const { metrics: onChainMetrics, streamStatus } = useOnChainData(
@@ -148,8 +179,23 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
   }, [isWebSocketLive, onChainMetrics, streamStatus]);
   
   const isRealTimeData = isWebSocketLive;
+
+  // 🧩 User strategy rules — re-evaluated whenever price, chart or timeframe data refresh
+  const ruleContext = useMemo<StrategyRuleContext>(() => ({
+    symbol: crypto.toUpperCase(),
+    price: currentPrice,
+    change24h: currentChange,
+    volume: currentVolume || null,
+    // Same price-action estimate the sentiment panel shows
+    fearGreed: estimateFearGreed(currentChange).value,
+    chart: chartTrendData ?? null,
+    multiTimeframe: buildMultiTimeframeInput(multiTfData) ?? null,
+    verdict: analysisResult ? { bias: analysisResult.bias, confidence: analysisResult.confidence } : null,
+    derivatives: derivativesLive ? derivativesMetrics : null
+  }), [crypto, currentPrice, currentChange, currentVolume, chartTrendData, multiTfData, analysisResult, derivativesLive, derivativesMetrics]);
+  const strategyRules = useStrategyRules(crypto, ruleContext);
   
-  const { history, learningStats, loading: historyLoading, saveAnalysis, submitFeedback, deleteAnalysis, clearAllHistory } = useAnalysisHistory(crypto);
+  const { history, learningStats, loading: historyLoading, saveAnalysis, submitFeedback, deleteAnalysis, clearAllHistory, loadFullHistory, refreshHistory, refreshStats } = useAnalysisHistory(crypto);
   const [feedbackLoading, setFeedbackLoading] = useState<string | null>(null);
 
   // Persistent AI Learning Hook
@@ -165,6 +211,17 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
     getConfidenceModifier
   } = useAILearning(crypto);
 
+  // Confidence calibration fitted on graded calls
+  const calibration = useConfidenceCalibration(crypto);
+
+  // Grade past calls against the archived price path; fresh labels refit calibration
+  const refreshCalibration = calibration.refresh;
+  useOutcomeGrader(settings.outcomeHorizons, () => {
+    refreshHistory();
+    refreshStats();
+    refreshCalibration();
+  });
+
   // Offline cache support
   const { 
     cachedAnalysis, 
@@ -237,6 +294,9 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
   }, [fullAnalysis, scrollToBottom]);
 
   const runAnalysis = useCallback(async () => {
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
     setIsAnalyzing(true);
     setHasAnalyzed(false);
     setDisplayedText("");
@@ -246,10 +306,6 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
     setFeedbackSubmitted(false);
     charIndexRef.current = 0;
 
-    const stepInterval = setInterval(() => {
-      setProcessingStep(prev => prev < processingSteps.length - 1 ? prev + 1 : prev);
-    }, 600);
-
     try {
       // 🧠 CLIENT-SIDE ANALYSIS — Using real-time WebSocket price data
       const analysisPrice = currentPrice;
@@ -298,7 +354,13 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
         hashRate: onChainMetrics.hashRate,
         blockHeight: onChainMetrics.blockHeight,
         difficulty: onChainMetrics.difficulty,
-        source: onChainMetrics.source
+        source: onChainMetrics.source,
+        // Holder behaviour above is inferred from the address trend and whale flow
+        provenance: {
+          ...onChainMetrics.provenance,
+          longTermHolders: onChainMetrics.provenance.activeAddresses,
+          shortTermHolders: onChainMetrics.provenance.whaleActivity
+        }
       } : undefined;
 
       // Sentiment data - not available without liveData hook, pass undefined
@@ -307,8 +369,12 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
       // Build multi-timeframe input (reusable helper)
       const adaptedMultiTfData = buildMultiTimeframeInput(multiTfData);
 
+      // Archived 1h candles give scenario probabilities their touch/break history
+      setProcessingStep(1);
+      const archivedHourly = await getOHLCData(crypto.toUpperCase(), "1h").catch(() => undefined);
+
       // Run analysis entirely client-side with real-time data status
-      const result = runClientSideAnalysis({
+      const input: AnalysisInput = {
         crypto,
         price: analysisPrice,
         change: analysisChange,
@@ -327,24 +393,37 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
           lowerHighs: chartTrendData.lowerHighs, lowerLows: chartTrendData.lowerLows,
           ema9: chartTrendData.ema9, ema21: chartTrendData.ema21, rsi: chartTrendData.rsi,
           volumeTrend: chartTrendData.volumeTrend, priceVelocity: chartTrendData.priceVelocity,
-          isLive: chartTrendData.isLive, source: chartTrendData.source
+          isLive: chartTrendData.isLive, source: chartTrendData.source,
+          indicators: chartTrendData.indicators
         } : undefined,
-        multiTimeframeData: adaptedMultiTfData
+        multiTimeframeData: adaptedMultiTfData,
+        riskSettings: settings.risk,
+        priceTimestamp: wsPrice?.price ? wsPrice.timestamp : undefined,
+        excludeDerivedInputs: settings.excludeDerivedInputs,
+        calibration: calibration.model ?? undefined,
+        hourlyCandles: archivedHourly?.candles,
+        orderBook: getDepthMetrics(crypto) ?? undefined,
+        derivatives: getDerivativesMetrics(crypto) ?? undefined
+      };
+      const result = await analyzeInBrain(input, {
+        signal: controller.signal,
+        // The brain's structure/bias steps are "analyzing", plan and report are "generating"
+        onProgress: (progress) => setProcessingStep(progress.step === "plan" || progress.step === "report" ? 3 : 2)
       });
 
-      clearInterval(stepInterval);
       setProcessingStep(processingSteps.length - 1);
       markFreshData();
 
       // Store result for summary card and typewriter effect
       setAnalysisResult(result);
+      analysisInputRef.current = input;
       setFullAnalysis(result.analysis);
       setHasAnalyzed(true);
 
       // Cache and save - get the record ID for feedback
       if (result.analysis.length > 100) {
         cacheAnalysis(result.analysis, analysisPrice, analysisChange);
-        const savedId = await saveAnalysis(result.analysis, analysisPrice, analysisChange, result.confidence, result.bias);
+        const savedId = await saveAnalysis(result.analysis, analysisPrice, analysisChange, result.confidence, result.bias, result.calibration?.rawConfidence, gradingPlanFor(result, analysisPrice), snapshotAnalysis(result, analysisPrice, summarizeInputs(input)));
         if (savedId) {
           setCurrentAnalysisId(savedId);
         }
@@ -352,6 +431,8 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
 
       // Silent completion - no toast notification
     } catch (error) {
+      // Superseded by a newer run, a symbol switch or unmount
+      if (isAbortError(error)) return;
       console.error("Analysis error:", error);
       
       // On error, try to use cached analysis as fallback
@@ -366,17 +447,20 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
         toast.error("Failed to generate analysis. Please try again.");
       }
     } finally {
-      clearInterval(stepInterval);
-      setIsAnalyzing(false);
+      if (analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+        setIsAnalyzing(false);
+      }
     }
-  }, [crypto, currentPrice, currentChange, currentHigh, currentLow, currentVolume, marketCap, currentLanguage, saveAnalysis, useCachedAnalysis, getCacheAge, cacheAnalysis, markFreshData, onChainMetrics, chartTrendData, multiTfData, isRealTimeData, actualDataSource]);
+  }, [crypto, currentPrice, currentChange, currentHigh, currentLow, currentVolume, marketCap, currentLanguage, saveAnalysis, useCachedAnalysis, getCacheAge, cacheAnalysis, markFreshData, onChainMetrics, chartTrendData, multiTfData, isRealTimeData, actualDataSource, settings.risk, settings.excludeDerivedInputs, wsPrice, calibration.model]);
 
   // ═══════════════════════════════════════════════════════════════════════════
   // 🧠 BACKGROUND AI LEARNING — Silent, always-on data collection & adaptation
   // ═══════════════════════════════════════════════════════════════════════════
   
-  const processBackgroundLearning = useCallback(() => {
-    if (!backgroundStreamingRef.current) return;
+  const processBackgroundLearning = useCallback(async () => {
+    // Skip the tick while the previous cycle is still in the brain
+    if (!backgroundStreamingRef.current || learningInFlightRef.current) return;
     
     const now = Date.now();
     
@@ -429,36 +513,61 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
       hashRate: onChainMetrics.hashRate,
       blockHeight: onChainMetrics.blockHeight,
       difficulty: onChainMetrics.difficulty,
-      source: onChainMetrics.source
+      source: onChainMetrics.source,
+      provenance: {
+        ...onChainMetrics.provenance,
+        longTermHolders: onChainMetrics.provenance.activeAddresses,
+        shortTermHolders: onChainMetrics.provenance.whaleActivity
+      }
     } : undefined;
 
     // Use the helper function to build multi-timeframe input
     const adaptedMultiTfData = buildMultiTimeframeInput(multiTfData);
     
     // Run brain analysis to learn from current data
-    const result = runClientSideAnalysis({
-      crypto,
-      price: currentPrice,
-      change: currentChange,
-      high24h: currentHigh,
-      low24h: currentLow,
-      volume: currentVolume,
-      marketCap,
-      language: currentLanguage,
-      isLiveData: true,
-      dataSource: `LEARNING (${streamUpdateCount + 1} samples)`,
-      onChainData: adaptedOnChainData,
-      sentimentData: undefined,
-      chartTrendData: chartTrendData ? {
-        candles: chartTrendData.candles, trend24h: chartTrendData.trend24h, trendStrength: chartTrendData.trendStrength,
-        higherHighs: chartTrendData.higherHighs, higherLows: chartTrendData.higherLows,
-        lowerHighs: chartTrendData.lowerHighs, lowerLows: chartTrendData.lowerLows,
-        ema9: chartTrendData.ema9, ema21: chartTrendData.ema21, rsi: chartTrendData.rsi,
-        volumeTrend: chartTrendData.volumeTrend, priceVelocity: chartTrendData.priceVelocity,
-        isLive: chartTrendData.isLive, source: chartTrendData.source
-      } : undefined,
-      multiTimeframeData: adaptedMultiTfData
-    });
+    const controller = new AbortController();
+    learningControllerRef.current = controller;
+    learningInFlightRef.current = true;
+    let result: AnalysisResult;
+    try {
+      result = await analyzeInBrain({
+        crypto,
+        price: currentPrice,
+        change: currentChange,
+        high24h: currentHigh,
+        low24h: currentLow,
+        volume: currentVolume,
+        marketCap,
+        language: currentLanguage,
+        isLiveData: true,
+        dataSource: `LEARNING (${streamUpdateCount + 1} samples)`,
+        onChainData: adaptedOnChainData,
+        sentimentData: undefined,
+        chartTrendData: chartTrendData ? {
+          candles: chartTrendData.candles, trend24h: chartTrendData.trend24h, trendStrength: chartTrendData.trendStrength,
+          higherHighs: chartTrendData.higherHighs, higherLows: chartTrendData.higherLows,
+          lowerHighs: chartTrendData.lowerHighs, lowerLows: chartTrendData.lowerLows,
+          ema9: chartTrendData.ema9, ema21: chartTrendData.ema21, rsi: chartTrendData.rsi,
+          volumeTrend: chartTrendData.volumeTrend, priceVelocity: chartTrendData.priceVelocity,
+          isLive: chartTrendData.isLive, source: chartTrendData.source,
+          indicators: chartTrendData.indicators
+        } : undefined,
+        multiTimeframeData: adaptedMultiTfData,
+        riskSettings: settings.risk,
+        priceTimestamp: wsPrice?.price ? wsPrice.timestamp : undefined,
+        excludeDerivedInputs: settings.excludeDerivedInputs,
+        calibration: calibration.model ?? undefined,
+        orderBook: getDepthMetrics(crypto) ?? undefined,
+        derivatives: getDerivativesMetrics(crypto) ?? undefined
+      }, { signal: controller.signal });
+    } catch (error) {
+      if (!isAbortError(error)) console.warn('[AI Learning] Brain cycle failed:', error);
+      return;
+    } finally {
+      learningInFlightRef.current = false;
+      if (learningControllerRef.current === controller) learningControllerRef.current = null;
+    }
+    if (!backgroundStreamingRef.current) return;
     
     // Update learned patterns using persistent hook (AI adaptation)
     const biasChanged = learnedPatterns.lastBias !== result.bias;
@@ -492,7 +601,7 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
       }
       return newCount;
     });
-  }, [crypto, currentPrice, currentChange, currentHigh, currentLow, currentVolume, marketCap, currentLanguage, onChainMetrics, chartTrendData, multiTfData]);
+  }, [crypto, currentPrice, currentChange, currentHigh, currentLow, currentVolume, marketCap, currentLanguage, onChainMetrics, chartTrendData, multiTfData, settings.risk, settings.excludeDerivedInputs, wsPrice, calibration.model]);
 
   // Auto-start background learning on mount (stable ref to avoid re-triggering)
   const processBackgroundLearningRef = useRef(processBackgroundLearning);
@@ -520,13 +629,19 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
         clearInterval(streamingIntervalRef.current);
         streamingIntervalRef.current = null;
       }
+      learningControllerRef.current?.abort();
       backgroundStreamingRef.current = false;
     };
   }, [isWebSocketLive]);
 
+  // Drop a running analysis when the analyzer unmounts
+  useEffect(() => () => analysisControllerRef.current?.abort(), []);
+
   // Restart learning and reset state when crypto changes
   useEffect(() => {
-    // Reset analysis state for new crypto
+    // Reset analysis state for new crypto; in-flight runs belong to the old one
+    analysisControllerRef.current?.abort();
+    learningControllerRef.current?.abort();
     setDisplayedText("");
     setFullAnalysis("");
     setHasAnalyzed(false);
@@ -534,6 +649,7 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
     setFeedbackSubmitted(false);
     setSelectedHistory(null);
     setAnalysisResult(null);
+    analysisInputRef.current = null;
     charIndexRef.current = 0;
     
     if (backgroundStreamingRef.current) {
@@ -574,6 +690,7 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
     if (success) {
       // Record outcome to persistent AI learning
       await recordOutcome(wasCorrect, learnedPatterns.lastBias);
+      await calibration.refresh();
       toast.success(wasCorrect ? "Thanks! AI will remember this success 🎯" : "Thanks! AI will learn from this mistake.");
     } else {
       toast.error("Failed to submit feedback");
@@ -583,6 +700,20 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
 
   const sentiment = currentChange >= 0 ? "bullish" : "bearish";
 
+  // The analysis on screen: a history entry when one is selected, otherwise the latest run
+  const getCurrentExport = () => {
+    if (selectedHistory) return buildAnalysisExport([exportHistoryRecord(selectedHistory)], BRAIN_VERSION);
+    if (!analysisResult || !analysisInputRef.current) return null;
+    return buildAnalysisExport([exportAnalysisResult(analysisResult, analysisInputRef.current, currentAnalysisId)], BRAIN_VERSION);
+  };
+
+  const getHistoryExport = async () => {
+    const records = await loadFullHistory();
+    return buildAnalysisExport(records.map(exportHistoryRecord), BRAIN_VERSION);
+  };
+
+  const exportFilename = (scope: string) => `zikalyze-${crypto.toUpperCase()}-${scope}-${format(new Date(), "yyyy-MM-dd-HHmm")}`;
+
   const handleCopy = async () => {
     if (!fullAnalysis) return;
     try {
@@ -715,6 +846,7 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
                 confidence={vwapData.confidence}
                 sourcesUsed={vwapData.sourcesUsed}
                 outliersFiltered={vwapData.outliersFiltered}
+                breakdown={vwapData.breakdown}
                 compact
               />
             )}
@@ -731,6 +863,38 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
             successProbability={Math.min(88, 40 + Math.round(analysisResult.confidence * 0.3) + (analysisResult.precisionEntry.timing === 'NOW' ? 12 : 5))}
             crypto={crypto}
             isVisible={true}
+            tradePlan={analysisResult.tradePlan}
+          />
+        )}
+
+        {/* User strategy rules, checked against the same live data as the verdict */}
+        <StrategyRulesCard
+          crypto={crypto}
+          statuses={strategyRules.statuses}
+          onCreate={strategyRules.createRule}
+          onUpdate={strategyRules.updateRule}
+          onDelete={strategyRules.removeRule}
+        />
+
+        {/* Structured trade plan — entry range, stop, TP1-3 and position size */}
+        {analysisResult?.tradePlan && hasAnalyzed && (
+          <TradePlanCard plan={analysisResult.tradePlan} crypto={crypto} riskSettings={settings.risk} />
+        )}
+
+        {/* Institutional vs retail read, with where each input came from */}
+        {analysisResult && hasAnalyzed && (
+          <SmartMoneyCard
+            institutionalVsRetail={analysisResult.institutionalVsRetail}
+            provenance={analysisResult.provenance}
+          />
+        )}
+
+        {/* Verdict attribution — every factor and confidence step behind the call */}
+        {analysisResult?.attribution && hasAnalyzed && (
+          <AttributionWaterfall
+            attribution={analysisResult.attribution}
+            bias={analysisResult.bias}
+            confidence={analysisResult.confidence}
           />
         )}
 
@@ -809,38 +973,48 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
           </div>
         )}
 
+        {/* Reliability Diagram — predicted confidence vs observed hit rate */}
+        {calibration.totalSamples > 0 && !isUsingCache && (
+          <ReliabilityDiagram calibration={calibration} crypto={crypto} />
+        )}
+
         {/* History Dropdown */}
         {showHistory && (
           <div className="mb-4 p-3 rounded-xl bg-secondary/50 border border-border/50 max-h-48 overflow-y-auto animate-fade-in">
             <div className="flex items-center justify-between mb-2">
               <span className="text-xs font-medium text-muted-foreground">Previous Analyses</span>
-              {(selectedHistory || hasAnalyzed || history.length > 0) && (
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="ghost" size="sm" className="h-6 text-xs text-destructive hover:text-destructive hover:bg-destructive/10">
-                      <Trash2 className="h-3 w-3 mr-1" />
-                      Clear All
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Clear all analysis history?</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        This will permanently delete all {history.length} saved {history.length === 1 ? 'analysis' : 'analyses'} for {crypto.toUpperCase()}. This action cannot be undone.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction 
-                        onClick={handleClearAnalysis}
-                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                      >
+              <div className="flex items-center gap-1">
+                {history.length > 0 && (
+                  <AnalysisExportMenu label="Export" filename={exportFilename("history")} getDocument={getHistoryExport} />
+                )}
+                {(selectedHistory || hasAnalyzed || history.length > 0) && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-6 text-xs text-destructive hover:text-destructive hover:bg-destructive/10">
+                        <Trash2 className="h-3 w-3 mr-1" />
                         Clear All
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
-              )}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Clear all analysis history?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This will permanently delete all {history.length} saved {history.length === 1 ? 'analysis' : 'analyses'} for {crypto.toUpperCase()}. This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction 
+                          onClick={handleClearAnalysis}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Clear All
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
             </div>
             {historyLoading ? (
               <div className="text-center py-2 text-muted-foreground text-sm">Loading...</div>
@@ -875,6 +1049,7 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
                             )}>
                               {record.was_correct ? <ThumbsUp className="h-3 w-3" /> : <ThumbsDown className="h-3 w-3" />}
                               {record.was_correct ? "Correct" : "Incorrect"}
+                              {record.feedback_source === "auto" && " • graded"}
                             </span>
                           )}
                         </div>
@@ -895,12 +1070,15 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
                           Confidence: {record.confidence}% {record.bias && `• ${record.bias}`}
                         </div>
                       )}
+                      <OutcomeBadges outcomes={record.outcomes} />
                     </button>
                     
                     {/* Feedback Buttons */}
-                    {record.was_correct === null && (
+                    {(record.was_correct === null || record.feedback_source === "auto") && (
                       <div className="mt-2 flex items-center gap-2 pt-2 border-t border-border/50">
-                        <span className="text-xs text-muted-foreground mr-2">Was this prediction correct?</span>
+                        <span className="text-xs text-muted-foreground mr-2">
+                          {record.was_correct === null ? "Was this prediction correct?" : "Disagree with the grade?"}
+                        </span>
                         <Button
                           size="sm"
                           variant="ghost"
@@ -987,14 +1165,23 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
         {/* Analysis Output */}
         <div className="relative">
           {hasAnalyzed && fullAnalysis && (
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleCopy}
-              className="absolute top-2 right-2 z-10 h-8 w-8 bg-secondary/80 hover:bg-secondary"
-            >
-              {copied ? <Check className="h-4 w-4 text-success" /> : <Copy className="h-4 w-4" />}
-            </Button>
+            <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+              {(selectedHistory || analysisResult) && !isAnalyzing && (
+                <AnalysisExportMenu
+                  filename={exportFilename("analysis")}
+                  getDocument={getCurrentExport}
+                  className="bg-secondary/80 hover:bg-secondary"
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleCopy}
+                className="h-8 w-8 bg-secondary/80 hover:bg-secondary"
+              >
+                {copied ? <Check className="h-4 w-4 text-success" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
           )}
         <div ref={scrollContainerRef} className="min-h-[180px] max-h-[350px] overflow-y-auto p-4 rounded-xl bg-background/50 border border-border/50 scroll-smooth">
           {/* Selected History Indicator */}
@@ -1036,7 +1223,10 @@ const AIAnalyzer = ({ crypto, price, change, high24h, low24h, volume, marketCap
               ))}
             </div>
           ) : (
-            <div className="whitespace-pre-line text-sm text-foreground leading-relaxed font-mono">
+            <div
+              dir={analysisResult?.direction ?? reportDirection(currentLanguage)}
+              className="whitespace-pre-line text-sm text-foreground leading-relaxed font-mono [unicode-bidi:plaintext]"
+            >
               {displayedText}
               {(isAnalyzing || charIndexRef.current < fullAnalysis.length) && (
                 <span className="animate-pulse text-primary">▌</span>
@@ -1,5 +1,6 @@
 import { cn } from "@/lib/utils";
 import { TrendingUp, TrendingDown, Minus, Target, AlertTriangle, CheckCircle, Clock } from "lucide-react";
+import { TradePlan } from "@/lib/zikalyze-brain/types";
 
 interface AISummaryCardProps {
   bias: 'LONG' | 'SHORT' | 'NEUTRAL';
@@ -9,6 +10,7 @@ interface AISummaryCardProps {
   successProbability?: number;
   crypto: string;
   isVisible: boolean;
+  tradePlan?: TradePlan | null;
 }
 
 const AISummaryCard = ({ 
@@ -18,10 +20,14 @@ const AISummaryCard = ({
   timing, 
   successProbability = 50,
   crypto,
-  isVisible 
+  isVisible,
+  tradePlan
 }: AISummaryCardProps) => {
   if (!isVisible) return null;
 
+  const formatLevel = (value: number) => `$${value.toFixed(tradePlan?.decimals ?? 2)}`;
+  const planZone = tradePlan ? `${formatLevel(tradePlan.entry.low)} – ${formatLevel(tradePlan.entry.high)}` : entryZone;
+
   const getBiasConfig = () => {
     switch (bias) {
       case 'LONG':
@@ -152,7 +158,7 @@ const AISummaryCard = ({
             <Target className="h-4 w-4 text-primary" />
           </div>
           <div className="text-sm font-semibold text-foreground leading-tight max-w-full truncate px-1">
-            {entryZone}
+            {planZone}
           </div>
           <span className="text-[10px] text-muted-foreground uppercase tracking-wide">
             Entry Zone
@@ -160,6 +166,24 @@ const AISummaryCard = ({
         </div>
       </div>
 
+      {/* Stop / first target / R:R from the structured plan */}
+      {tradePlan && (
+        <div className="mt-3 grid grid-cols-3 gap-4 text-center text-xs">
+          <div>
+            <div className="font-semibold text-destructive">{formatLevel(tradePlan.stopLoss)}</div>
+            <span className="text-[10px] text-muted-foreground uppercase tracking-wide">Stop</span>
+          </div>
+          <div>
+            <div className="font-semibold text-success">{formatLevel(tradePlan.takeProfits[0].price)}</div>
+            <span className="text-[10px] text-muted-foreground uppercase tracking-wide">TP1</span>
+          </div>
+          <div>
+            <div className="font-semibold text-foreground">1 : {tradePlan.takeProfits[0].rewardRisk.toFixed(1)}</div>
+            <span className="text-[10px] text-muted-foreground uppercase tracking-wide">R:R (TP1)</span>
+          </div>
+        </div>
+      )}
+
       {/* Success Probability Footer */}
       {successProbability > 0 && (
         <div className="mt-3 pt-3 border-t border-border/50">
@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from "react";
+import { ComposedChart, Line, Scatter, Cell, XAxis, YAxis, ResponsiveContainer, Tooltip, CartesianGrid } from "recharts";
+import { format, formatDistanceStrict } from "date-fns";
+import { GitCompare } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAnalysisHistory, AnalysisRecord } from "@/hooks/useAnalysisHistory";
+import { diffAnalyses, legacySnapshot } from "@/lib/zikalyze-brain";
+import { AlignmentTimeframe, AnalysisDiff, AnalysisSnapshot } from "@/lib/zikalyze-brain/types";
+import { cn } from "@/lib/utils";
+
+interface AnalysisComparisonProps {
+  crypto: string;
+}
+
+interface TimelinePoint {
+  time: number;
+  price: number;
+  confidence: number;
+  bias: AnalysisSnapshot["bias"];
+}
+
+const TIMELINE_LIMIT = 200;
+
+const TIMEFRAMES: { key: AlignmentTimeframe; label: string }[] = [
+  { key: "weekly", label: "W" },
+  { key: "daily", label: "D" },
+  { key: "h4", label: "4H" },
+  { key: "h1", label: "1H" },
+  { key: "m15", label: "15M" },
+];
+
+const BIAS_COLOR: Record<AnalysisSnapshot["bias"], string> = {
+  LONG: "hsl(142, 76%, 36%)",
+  SHORT: "hsl(0, 84%, 60%)",
+  NEUTRAL: "hsl(215, 20%, 55%)",
+};
+
+const BIAS_TEXT: Record<AnalysisSnapshot["bias"], string> = {
+  LONG: "text-success",
+  SHORT: "text-destructive",
+  NEUTRAL: "text-muted-foreground",
+};
+
+const TREND_TEXT: Record<string, string> = {
+  BULLISH: "text-success",
+  BEARISH: "text-destructive",
+  NEUTRAL: "text-muted-foreground",
+};
+
+const snapshotOf = (record: AnalysisRecord): AnalysisSnapshot => record.snapshot ?? legacySnapshot(record);
+
+const formatPrice = (value: number) =>
+  `$${value.toLocaleString("en-US", { maximumFractionDigits: value >= 100 ? 2 : value >= 1 ? 4 : 6 })}`;
+
+const signed = (value: number, digits = 0, suffix = "") => `${value >= 0 ? "+" : ""}${value.toFixed(digits)}${suffix}`;
+
+const SnapshotColumn = ({ title, snapshot, diff, side }: { title: string; snapshot: AnalysisSnapshot; diff: AnalysisDiff; side: "before" | "after" }) => {
+  const changedLevels = new Map(diff.levels.map((l) => [l.key, l]));
+  const changedTimeframes = new Set(diff.timeframes.map((t) => t.timeframe));
+  const changedInsights = new Set(side === "after" ? diff.insightsAdded : diff.insightsRemoved);
+
+  return (
+    <div className="space-y-3 rounded-xl bg-secondary/50 p-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-xs text-muted-foreground">{title}</span>
+        <span className="text-xs text-muted-foreground">{format(new Date(snapshot.timestamp), "d MMM HH:mm")}</span>
+      </div>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className={cn("text-lg font-bold", BIAS_TEXT[snapshot.bias], diff.biasFlip && "underline decoration-warning")}>
+          {snapshot.bias} {snapshot.confidence.toFixed(0)}%
+        </span>
+        <span className="text-sm text-foreground">{formatPrice(snapshot.price)}</span>
+      </div>
+
+      {snapshot.timeframes && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {TIMEFRAMES.map(({ key, label }) => (
+            <span
+              key={key}
+              className={cn(
+                "rounded px-1.5 py-0.5",
+                TREND_TEXT[snapshot.timeframes.trends[key]],
+                changedTimeframes.has(key) ? "bg-warning/15" : "bg-background/40"
+              )}
+              title={snapshot.timeframes.trends[key]}
+            >
+              {label} {snapshot.timeframes.trends[key] === "BULLISH" ? "▲" : snapshot.timeframes.trends[key] === "BEARISH" ? "▼" : "■"}
+            </span>
+          ))}
+          <span className="text-muted-foreground">Confluence {snapshot.timeframes.confluence}%</span>
+        </div>
+      )}
+
+      {snapshot.levels.length > 0 && (
+        <div className="space-y-1 text-xs">
+          {snapshot.levels.map((level) => {
+            const change = changedLevels.get(level.key);
+            return (
+              <div key={level.key} className={cn("flex justify-between gap-2", change && "text-warning")}>
+                <span className={change ? undefined : "text-muted-foreground"}>{level.label}</span>
+                <span>
+                  {formatPrice(level.price)}
+                  {side === "after" && change?.changePercent != null && ` (${signed(change.changePercent, 2, "%")})`}
+                  {change && change[side === "after" ? "before" : "after"] === null && (side === "after" ? " (new)" : " (dropped)")}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {snapshot.insights.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {snapshot.insights.map((insight) => (
+            <li
+              key={insight}
+              className={cn(
+                changedInsights.has(insight) ? (side === "after" ? "text-success" : "text-destructive line-through") : "text-muted-foreground"
+              )}
+            >
+              {insight}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Side-by-side diff of two saved analyses plus a bias/confidence timeline over price
+const AnalysisComparison = ({ crypto }: AnalysisComparisonProps) => {
+  const { history } = useAnalysisHistory(crypto, TIMELINE_LIMIT);
+  const [laterId, setLaterId] = useState<string | null>(null);
+  const [earlierId, setEarlierId] = useState<string | null>(null);
+
+  // Default to the two most recent analyses; keep the user's picks while they exist
+  useEffect(() => {
+    if (history.length < 2) return;
+    setLaterId((id) => (id && history.some((r) => r.id === id) ? id : history[0].id));
+    setEarlierId((id) => (id && history.some((r) => r.id === id) ? id : history[1].id));
+  }, [history]);
+
+  const timeline = useMemo<TimelinePoint[]>(
+    () =>
+      history
+        .filter((r) => r.confidence !== null)
+        .map((r) => ({ time: new Date(r.created_at).getTime(), price: r.price, confidence: r.confidence, bias: snapshotOf(r).bias }))
+        .sort((a, b) => a.time - b.time),
+    [history]
+  );
+
+  const comparison = useMemo(() => {
+    const a = history.find((r) => r.id === earlierId);
+    const b = history.find((r) => r.id === laterId);
+    if (!a || !b || a.id === b.id) return null;
+    // Whatever was picked where, diff from the earlier one to the later one
+    const [before, after] = new Date(a.created_at) <= new Date(b.created_at) ? [a, b] : [b, a];
+    const beforeSnapshot = snapshotOf(before);
+    const afterSnapshot = snapshotOf(after);
+    return { before: beforeSnapshot, after: afterSnapshot, diff: diffAnalyses(beforeSnapshot, afterSnapshot) };
+  }, [history, earlierId, laterId]);
+
+  const recordLabel = (r: AnalysisRecord) =>
+    `${format(new Date(r.created_at), "d MMM HH:mm")} • ${snapshotOf(r).bias} ${r.confidence ?? "–"}%`;
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Analysis Comparison</h3>
+        </div>
+        <span className="text-xs text-muted-foreground">{history.length} saved {crypto.toUpperCase()} analyses</span>
+      </div>
+
+      {history.length < 2 ? (
+        <p className="text-sm text-muted-foreground">
+          Run at least two analyses of {crypto.toUpperCase()} to compare them and see the verdict over time.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={timeline} margin={{ top: 4, right: 0, bottom: 4, left: -16 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(222, 47%, 18%)" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tick={{ fontSize: 10, fill: "hsl(215, 20%, 65%)" }}
+                  tickFormatter={(v: number) => format(new Date(v), "d MMM")}
+                />
+                <YAxis
+                  yAxisId="confidence"
+                  domain={[0, 100]}
+                  ticks={[0, 25, 50, 75, 100]}
+                  tick={{ fontSize: 10, fill: "hsl(215, 20%, 65%)" }}
+                  tickFormatter={(v: number) => `${v}%`}
+                />
+                <YAxis
+                  yAxisId="price"
+                  orientation="right"
+                  domain={["auto", "auto"]}
+                  tick={{ fontSize: 10, fill: "hsl(215, 20%, 65%)" }}
+                  tickFormatter={(v: number) => formatPrice(v)}
+                  width={72}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(222, 47%, 8%)",
+                    border: "1px solid hsl(222, 47%, 18%)",
+                    borderRadius: "8px",
+                    color: "hsl(210, 40%, 98%)",
+                    fontSize: "11px",
+                  }}
+                  labelFormatter={(v: number) => format(new Date(v), "d MMM yyyy HH:mm")}
+                  formatter={(value: number, name: string, entry: { payload?: TimelinePoint }) =>
+                    name === "price" ? [formatPrice(value), "Price"] : [`${value}% ${entry.payload?.bias ?? ""}`, "Verdict"]
+                  }
+                />
+                <Line
+                  yAxisId="price"
+                  dataKey="price"
+                  type="monotone"
+                  stroke="hsl(217, 91%, 60%)"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Scatter yAxisId="confidence" dataKey="confidence" isAnimationActive={false}>
+                  {timeline.map((point) => (
+                    <Cell key={point.time} fill={BIAS_COLOR[point.bias]} />
+                  ))}
+                </Scatter>
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            <span><span className="text-primary">—</span> Price</span>
+            <span><span className="text-success">●</span> Long</span>
+            <span><span className="text-destructive">●</span> Short</span>
+            <span><span className="text-muted-foreground">●</span> Neutral</span>
+            <span>• dot height = confidence</span>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            <Select value={earlierId ?? undefined} onValueChange={setEarlierId}>
+              <SelectTrigger><SelectValue placeholder="Earlier analysis" /></SelectTrigger>
+              <SelectContent>
+                {history.map((r) => (
+                  <SelectItem key={r.id} value={r.id}>{recordLabel(r)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={laterId ?? undefined} onValueChange={setLaterId}>
+              <SelectTrigger><SelectValue placeholder="Later analysis" /></SelectTrigger>
+              <SelectContent>
+                {history.map((r) => (
+                  <SelectItem key={r.id} value={r.id}>{recordLabel(r)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {comparison ? (
+            <>
+              <div className="rounded-xl border border-border p-3 text-sm">
+                <div className="font-medium text-foreground">{comparison.diff.summary}</div>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {formatDistanceStrict(0, Math.max(0, comparison.diff.elapsedMs))} apart
+                  {comparison.diff.confluenceDelta !== null && ` • confluence ${signed(comparison.diff.confluenceDelta, 0, " pts")}`}
+                  {comparison.diff.timeframes.length > 0 &&
+                    ` • ${comparison.diff.timeframes
+                      .map((t) => `${TIMEFRAMES.find((tf) => tf.key === t.timeframe)?.label} ${t.before.toLowerCase()} → ${t.after.toLowerCase()}`)
+                      .join(", ")}`}
+                </div>
+                {!comparison.diff.comparable && (
+                  <p className="mt-1 text-xs text-warning">
+                    One of these was saved before structured snapshots — only verdict and price are compared.
+                  </p>
+                )}
+              </div>
+              <div className="grid gap-3 md:grid-cols-2">
+                <SnapshotColumn title="Earlier" snapshot={comparison.before} diff={comparison.diff} side="before" />
+                <SnapshotColumn title="Later" snapshot={comparison.after} diff={comparison.diff} side="after" />
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">Pick two different analyses to compare.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisComparison;
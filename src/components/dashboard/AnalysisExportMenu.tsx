@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Download, FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ANALYSIS_EXPORT_FILE, ANALYSIS_EXPORT_VERSION, serializeAnalysisExport } from "@/lib/zikalyze-brain";
+import { AnalysisExportDocument, AnalysisExportFormat } from "@/lib/zikalyze-brain/types";
+import { cn } from "@/lib/utils";
+
+interface AnalysisExportMenuProps {
+  filename: string; // Without extension
+  getDocument: () => AnalysisExportDocument | null | Promise<AnalysisExportDocument | null>;
+  label?: string;   // Text button; icon-only without
+  className?: string;
+}
+
+const FORMATS: { format: AnalysisExportFormat; label: string; icon: typeof FileJson }[] = [
+  { format: "json", label: "JSON", icon: FileJson },
+  { format: "csv", label: "CSV rows", icon: FileSpreadsheet },
+  { format: "markdown", label: "Markdown", icon: FileText },
+];
+
+const downloadText = (text: string, filename: string, type: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AnalysisExportMenu = ({ filename, getDocument, label, className }: AnalysisExportMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: AnalysisExportFormat) => {
+    setExporting(true);
+    try {
+      const doc = await getDocument();
+      if (!doc || doc.records.length === 0) {
+        toast.error("Nothing to export yet");
+        return;
+      }
+      const file = ANALYSIS_EXPORT_FILE[format];
+      downloadText(serializeAnalysisExport(doc, format), `${filename}.${file.extension}`, file.mime);
+      toast.success(`Exported ${doc.records.length} ${doc.records.length === 1 ? "analysis" : "analyses"} as ${format.toUpperCase()}`);
+    } catch (error) {
+      console.error("[AnalysisExport] Export failed:", error);
+      toast.error("Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size={label ? "sm" : "icon"}
+          disabled={exporting}
+          className={cn(label ? "h-6 text-xs" : "h-8 w-8", className)}
+          title="Export analysis"
+        >
+          <Download className={cn(label ? "h-3 w-3 mr-1" : "h-4 w-4")} />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Export (schema v{ANALYSIS_EXPORT_VERSION})
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map(({ format, label: formatLabel, icon: Icon }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            <Icon className="h-4 w-4 mr-2" />
+            {formatLabel}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default AnalysisExportMenu;
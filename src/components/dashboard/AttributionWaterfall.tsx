@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip, Cell } from "recharts";
+import { ChevronDown, Scale } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { AttributionSource, VerdictAttribution } from "@/lib/zikalyze-brain/types";
+
+interface AttributionWaterfallProps {
+  attribution: VerdictAttribution;
+  bias: "LONG" | "SHORT" | "NEUTRAL";
+  confidence: number;
+}
+
+interface WaterfallBar {
+  label: string;
+  base: number;   // Invisible offset so the bar floats at the running total
+  size: number;
+  delta: number;
+  total: boolean;
+  detail: string;
+}
+
+const POSITIVE = "hsl(142, 76%, 36%)";
+const NEGATIVE = "hsl(0, 84%, 60%)";
+const RULE = "hsl(215, 20%, 55%)";
+const TOTAL = "hsl(217, 91%, 60%)";
+
+const SourceBadge = ({ source }: { source: AttributionSource | "RULE" }) => (
+  <span className={cn(
+    "rounded px-1 py-0.5 text-[9px] font-semibold uppercase",
+    source === "REAL" && "bg-success/20 text-success",
+    source === "DERIVED" && "bg-warning/20 text-warning",
+    source === "RULE" && "bg-secondary text-muted-foreground"
+  )}>
+    {source}
+  </span>
+);
+
+const signed = (value: number, digits = 1) => `${value > 0 ? "+" : value < 0 ? "−" : ""}${Math.abs(value).toFixed(digits)}`;
+
+const AttributionWaterfall = ({ attribution, bias, confidence }: AttributionWaterfallProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // Walk the steps from zero; each bar spans the running total before and after its delta
+  const bars = useMemo<WaterfallBar[]>(() => {
+    let running = 0;
+    const steps = attribution.confidenceSteps.map((step) => {
+      const start = running;
+      running += step.delta;
+      return {
+        label: step.label,
+        base: Math.min(start, running),
+        size: Math.abs(step.delta),
+        delta: step.delta,
+        total: false,
+        detail: step.detail,
+      };
+    });
+    return [...steps, { label: "Confidence", base: 0, size: confidence, delta: confidence, total: true, detail: bias }];
+  }, [attribution, bias, confidence]);
+
+  const sources = new Map(attribution.confidenceSteps.map((step) => [step.label, step.source]));
+  const derivedCount = attribution.factors.filter((f) => f.points !== 0 && f.source === "DERIVED").length;
+  const excludedCount = attribution.factors.filter((f) => f.excluded).length;
+
+  return (
+    <div className="mb-4 rounded-xl border border-border bg-card p-4">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between"
+        onClick={() => setExpanded((value) => !value)}
+      >
+        <div className="flex items-center gap-2">
+          <Scale className="h-4 w-4 text-primary" />
+          <span className="text-sm font-semibold text-foreground">Why this verdict?</span>
+          {derivedCount > 0 && (
+            <span className="rounded bg-warning/20 px-1.5 py-0.5 text-[10px] font-semibold text-warning">
+              {derivedCount} derived input{derivedCount > 1 ? "s" : ""}
+            </span>
+          )}
+          {excludedCount > 0 && (
+            <span className="rounded bg-secondary px-1.5 py-0.5 text-[10px] font-semibold text-muted-foreground">
+              {excludedCount} estimated input{excludedCount > 1 ? "s" : ""} excluded
+            </span>
+          )}
+        </div>
+        <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", expanded && "rotate-180")} />
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div className="rounded-lg bg-secondary/50 p-2">
+              <div className="text-muted-foreground">Top-down</div>
+              <div className="font-semibold text-foreground">{attribution.technicalBias}</div>
+            </div>
+            <div className="rounded-lg bg-secondary/50 p-2">
+              <div className="text-muted-foreground">Fundamentals</div>
+              <div className="font-semibold text-foreground">
+                {attribution.fundamentalBias} • {attribution.bullishPoints}/{attribution.bearishPoints}
+              </div>
+            </div>
+            <div className="rounded-lg bg-secondary/50 p-2">
+              <div className="text-muted-foreground">Neural</div>
+              <div className="font-semibold text-foreground">
+                {attribution.neural.bias} • {(attribution.neural.agreement * 100).toFixed(0)}%
+              </div>
+              {attribution.neural.changedBias && (
+                <div className="text-[10px] text-warning">Moved {attribution.technicalBias} → {bias}</div>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs font-medium text-muted-foreground">Confidence build-up</div>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={bars} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <XAxis type="number" domain={[0, 100]} hide />
+                  <YAxis
+                    type="category"
+                    dataKey="label"
+                    width={150}
+                    tick={{ fontSize: 10, fill: "hsl(215, 20%, 65%)" }}
+                    axisLine={false}
+                    tickLine={false}
+                  />
+                  <Tooltip
+                    cursor={{ fill: "hsl(222, 47%, 14%)" }}
+                    contentStyle={{
+                      backgroundColor: "hsl(222, 47%, 8%)",
+                      border: "1px solid hsl(222, 47%, 18%)",
+                      borderRadius: "8px",
+                      color: "hsl(210, 40%, 98%)",
+                      fontSize: "11px",
+                    }}
+                    formatter={(_value: number, name: string, entry: { payload?: WaterfallBar }) => {
+                      if (name === "base" || !entry.payload) return null;
+                      const bar = entry.payload;
+                      return [bar.total ? `${bar.delta}%` : signed(bar.delta), bar.detail];
+                    }}
+                  />
+                  <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+                  <Bar dataKey="size" stackId="waterfall" radius={[0, 3, 3, 0]} isAnimationActive={false}>
+                    {bars.map((bar) => (
+                      <Cell
+                        key={bar.label}
+                        fill={bar.total ? TOTAL : sources.get(bar.label) === "RULE" ? RULE : bar.delta >= 0 ? POSITIVE : NEGATIVE}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-1">
+              {attribution.confidenceSteps.map((step) => (
+                <div key={step.id} className="flex items-center justify-between gap-2 text-[11px]">
+                  <span className="truncate text-muted-foreground" title={step.detail}>{step.label}</span>
+                  <span className="flex shrink-0 items-center gap-1.5">
+                    <SourceBadge source={step.source} />
+                    <span className={cn("w-10 text-right font-mono", step.delta >= 0 ? "text-success" : "text-destructive")}>
+                      {signed(step.delta)}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs font-medium text-muted-foreground">
+              Fundamental factors (+ bullish / − bearish)
+            </div>
+            <div className="space-y-1">
+              {attribution.factors.map((factor) => (
+                <div key={factor.id} className={cn("flex items-center gap-2 text-[11px]", factor.excluded && "opacity-50")}>
+                  <span
+                    className={cn("w-28 shrink-0 truncate text-foreground", factor.excluded && "line-through")}
+                    title={factor.excluded ? `${factor.detail} — not scored (estimated input)` : factor.detail}
+                  >
+                    {factor.label}
+                  </span>
+                  <div className="relative h-1.5 flex-1 rounded-full bg-secondary">
+                    <div className="absolute left-1/2 top-0 h-full w-px bg-border" />
+                    <div
+                      className={cn("absolute top-0 h-full rounded-full", factor.points >= 0 ? "bg-success" : "bg-destructive")}
+                      style={{
+                        left: factor.points >= 0 ? "50%" : `${50 - (Math.abs(factor.points) / factor.weight) * 50}%`,
+                        width: `${(Math.abs(factor.points) / factor.weight) * 50}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-10 text-right font-mono text-muted-foreground">
+                    {signed(factor.points, 0)}/{factor.weight}
+                  </span>
+                  <SourceBadge source={factor.source} />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttributionWaterfall;
@@ -0,0 +1,239 @@
+/**
+ * BacktestPanel — Replays stored or imported OHLC candles through the AI brain
+ * Shows win rate, expectancy, drawdown, Sharpe and the equity curve per run
+ */
+
+import { useRef, useState } from "react";
+import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip } from "recharts";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { FlaskConical, Upload, Play, Square, Database } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getOHLCData } from "@/lib/clientStorage";
+import {
+  runBacktest,
+  parseOHLCCsv,
+  inferIntervalMs,
+  intervalLabel,
+  type BacktestCandle,
+  type BacktestReport,
+} from "@/lib/zikalyze-brain/backtest";
+import { cn } from "@/lib/utils";
+
+interface BacktestPanelProps {
+  crypto: string;
+}
+
+const INTERVALS = ["15m", "1h", "4h", "1d"];
+
+const BacktestPanel = ({ crypto }: BacktestPanelProps) => {
+  const [interval, setCandleInterval] = useState("1h");
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [reports, setReports] = useState<BacktestReport[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const latest = reports[0];
+
+  const execute = async (candles: BacktestCandle[], symbol: string, label: string) => {
+    if (candles.length < 50) {
+      toast.warning(`Need at least 50 candles to backtest (have ${candles.length})`);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setProgress(0);
+
+    try {
+      const report = await runBacktest(candles, {
+        symbol,
+        interval: label,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+      });
+      setReports(prev => [report, ...prev].slice(0, 10));
+    } catch (error) {
+      if ((error as Error).name !== "AbortError") {
+        console.error("[Backtest] Run failed:", error);
+        toast.error("Backtest failed. Check the candle data and try again.");
+      }
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const runStored = async () => {
+    const stored = await getOHLCData(crypto, interval);
+    const candles: BacktestCandle[] = (stored?.candles || []).map(c => ({
+      timestamp: c.time,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+    }));
+    await execute(candles, crypto, interval);
+  };
+
+  const runImported = async (file: File) => {
+    try {
+      const candles = parseOHLCCsv(await file.text());
+      await execute(candles, crypto, intervalLabel(inferIntervalMs(candles)));
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const metricCell = (label: string, value: string, tone?: "good" | "bad") => (
+    <div className="rounded-xl bg-secondary/50 p-3">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className={cn(
+        "text-lg font-semibold",
+        tone === "good" ? "text-success" : tone === "bad" ? "text-destructive" : "text-foreground"
+      )}>
+        {value}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Backtest — {crypto}</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={interval} onValueChange={setCandleInterval} disabled={running}>
+            <SelectTrigger className="h-8 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVALS.map(tf => (
+                <SelectItem key={tf} value={tf}>{tf}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="secondary" onClick={runStored} disabled={running}>
+            <Database className="mr-1 h-4 w-4" /> Stored candles
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={running}>
+            <Upload className="mr-1 h-4 w-4" /> Import CSV
+          </Button>
+          {running && (
+            <Button size="sm" variant="destructive" onClick={() => abortRef.current?.abort()}>
+              <Square className="mr-1 h-4 w-4" /> Stop
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) runImported(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+
+      {running && (
+        <div className="mb-4 space-y-1">
+          <Progress value={progress} className="h-2" />
+          <div className="text-xs text-muted-foreground">Replaying candles… {progress}%</div>
+        </div>
+      )}
+
+      {!latest && !running && (
+        <div className="flex flex-col items-center justify-center gap-2 py-8 text-center text-sm text-muted-foreground">
+          <Play className="h-6 w-6" />
+          Replay stored oracle candles or an imported CSV (time, open, high, low, close, volume) bar by bar through the AI brain.
+        </div>
+      )}
+
+      {latest && (
+        <div className="space-y-4">
+          <div className="text-xs text-muted-foreground">
+            {latest.symbol} {latest.interval} • {latest.bars} bars • {format(new Date(latest.from), "MMM d, yyyy")} → {format(new Date(latest.to), "MMM d, yyyy")} • Brain v{latest.brainVersion}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            {metricCell("Trades", `${latest.metrics.trades}`)}
+            {metricCell("Win rate", `${latest.metrics.winRate.toFixed(1)}%`, latest.metrics.winRate >= 50 ? "good" : "bad")}
+            {metricCell("Expectancy", `${latest.metrics.expectancyR.toFixed(2)}R`, latest.metrics.expectancyR > 0 ? "good" : "bad")}
+            {metricCell("Sharpe", latest.metrics.sharpe.toFixed(2), latest.metrics.sharpe > 0 ? "good" : "bad")}
+            {metricCell("Return", `${latest.metrics.totalReturnPercent.toFixed(2)}%`, latest.metrics.totalReturnPercent > 0 ? "good" : "bad")}
+            {metricCell("Max drawdown", `${latest.metrics.maxDrawdownPercent.toFixed(2)}%`)}
+            {metricCell("Profit factor", Number.isFinite(latest.metrics.profitFactor) ? latest.metrics.profitFactor.toFixed(2) : "∞")}
+            {metricCell("Exposure", `${latest.metrics.exposurePercent.toFixed(0)}%`)}
+          </div>
+
+          <div className="h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={latest.equityCurve}>
+                <defs>
+                  <linearGradient id="backtestEquityGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor="hsl(142, 76%, 36%)" stopOpacity={0.3} />
+                    <stop offset="100%" stopColor="hsl(142, 76%, 36%)" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <XAxis dataKey="timestamp" hide />
+                <YAxis hide domain={["auto", "auto"]} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(222, 47%, 8%)",
+                    border: "1px solid hsl(222, 47%, 18%)",
+                    borderRadius: "8px",
+                    color: "hsl(210, 40%, 98%)",
+                  }}
+                  labelFormatter={(ts: number) => format(new Date(ts), "MMM d, HH:mm")}
+                  formatter={(value: number) => [`${((value - 1) * 100).toFixed(2)}%`, "Equity"]}
+                />
+                <Area type="monotone" dataKey="equity" stroke="hsl(142, 76%, 36%)" strokeWidth={2} fill="url(#backtestEquityGradient)" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          {reports.length > 1 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="py-1 text-left font-medium">Run</th>
+                    <th className="py-1 text-right font-medium">Trades</th>
+                    <th className="py-1 text-right font-medium">Win %</th>
+                    <th className="py-1 text-right font-medium">Exp R</th>
+                    <th className="py-1 text-right font-medium">Max DD</th>
+                    <th className="py-1 text-right font-medium">Sharpe</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reports.map((r, i) => (
+                    <tr key={`${r.symbol}-${r.interval}-${i}`} className="border-t border-border/50 text-foreground">
+                      <td className="py-1">{r.symbol} {r.interval} (v{r.brainVersion})</td>
+                      <td className="py-1 text-right">{r.metrics.trades}</td>
+                      <td className="py-1 text-right">{r.metrics.winRate.toFixed(1)}</td>
+                      <td className="py-1 text-right">{r.metrics.expectancyR.toFixed(2)}</td>
+                      <td className="py-1 text-right">{r.metrics.maxDrawdownPercent.toFixed(1)}%</td>
+                      <td className="py-1 text-right">{r.metrics.sharpe.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -1,12 +1,72 @@
-import { ComposedChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
-import { useState } from "react";
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from "recharts";
+import { useMemo, useState } from "react";
 import { Zap, Activity, TrendingUp, TrendingDown, Clock, Database } from "lucide-react";
 import { usePythOHLC, CandleInterval, INTERVAL_LABELS } from "@/hooks/usePythOHLC";
+import { useStreamingIndicators } from "@/hooks/useStreamingIndicators";
+import { IndicatorSnapshot } from "@/lib/zikalyze-brain/indicators";
+import { detectPatterns, describePattern } from "@/lib/zikalyze-brain/patterns";
+import { DetectedPattern, PatternLine } from "@/lib/zikalyze-brain/types";
 
 interface CandlestickChartProps {
   crypto?: string;
 }
 
+type Overlay = "bollinger" | "supertrend" | "ichimoku" | "patterns";
+
+const OVERLAYS: { id: Overlay; label: string }[] = [
+  { id: "bollinger", label: "BB" },
+  { id: "supertrend", label: "ST" },
+  { id: "ichimoku", label: "Ichi" },
+  { id: "patterns", label: "Pat" },
+];
+
+// Pattern overlay limits — keeps the small chart readable
+const MAX_PATTERN_LINES = 4;
+const MAX_CHART_PATTERNS = 2;
+
+// Candles shown on screen; more are kept so the indicators can warm up
+const VISIBLE_CANDLES = 20;
+const INDICATOR_HISTORY = 120;
+
+// Flatten the overlay values so recharts can draw them as plain lines
+const overlayFields = (values: IndicatorSnapshot | undefined) => ({
+  bbUpper: values?.bollinger?.upper,
+  bbMiddle: values?.bollinger?.middle,
+  bbLower: values?.bollinger?.lower,
+  stUp: values?.supertrend?.direction === "UP" ? values.supertrend.value : undefined,
+  stDown: values?.supertrend?.direction === "DOWN" ? values.supertrend.value : undefined,
+  tenkan: values?.ichimoku?.tenkan,
+  kijun: values?.ichimoku?.kijun,
+  cloudTop: values?.ichimoku?.cloudTop ?? undefined,
+  cloudBottom: values?.ichimoku?.cloudBottom ?? undefined,
+});
+
+// Price of a pattern line at a candle, or undefined outside the line's span
+const patternLineAt = (line: PatternLine, timestamp: number) => {
+  if (timestamp < line.from.timestamp || timestamp > line.to.timestamp) return undefined;
+  if (line.to.timestamp === line.from.timestamp) return line.to.price;
+  const t = (timestamp - line.from.timestamp) / (line.to.timestamp - line.from.timestamp);
+  return line.from.price + (line.to.price - line.from.price) * t;
+};
+
+// Candlestick pattern marker — ▲ under bullish candles, ▼ over bearish/neutral ones
+const PatternMarker = (props: { cx?: number; cy?: number; payload?: { patternMark?: DetectedPattern } }) => {
+  const { cx, cy, payload } = props;
+  if (!payload?.patternMark || typeof cy !== "number") return <g />;
+  const bullish = payload.patternMark.direction === "BULLISH";
+  const color = bullish ? "hsl(142, 76%, 46%)" : payload.patternMark.direction === "BEARISH" ? "hsl(0, 84%, 60%)" : "hsl(45, 93%, 47%)";
+  const y = bullish ? cy + 8 : cy - 8;
+  const points = bullish
+    ? `${cx - 4},${y + 4} ${cx + 4},${y + 4} ${cx},${y - 2}`
+    : `${cx - 4},${y - 4} ${cx + 4},${y - 4} ${cx},${y + 2}`;
+  return (
+    <g>
+      <title>{payload.patternMark.name} ({payload.patternMark.confidence}%)</title>
+      <polygon points={points} fill={color} />
+    </g>
+  );
+};
+
 // Custom candlestick shape for the bar chart
 const CandlestickShape = (props: any) => {
   const { x, y, width, height, payload } = props;
@@ -68,9 +128,11 @@ const CandlestickShape = (props: any) => {
 
 const CandlestickChart = ({ crypto = "BTC" }: CandlestickChartProps) => {
   const [interval, setInterval] = useState<CandleInterval>("1m");
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
   
   const {
-    candles,
+    candles: allCandles,
+    completedCandles,
     currentCandle,
     isStreaming,
     isConnected,
@@ -78,23 +140,65 @@ const CandlestickChart = ({ crypto = "BTC" }: CandlestickChartProps) => {
     ticksReceived,
     lastTick,
     hasPersistedData,
-  } = usePythOHLC(crypto, interval, 20);
+  } = usePythOHLC(crypto, interval, INDICATOR_HISTORY);
+  
+  const candles = allCandles.slice(-VISIBLE_CANDLES);
+  const indicators = useStreamingIndicators(`${crypto}-${interval}`, completedCandles, currentCandle);
+  const indicatorsByTime = new Map(indicators.history.map(point => [point.timestamp, point.values]));
+  
+  const showPatterns = overlays.includes("patterns");
+  const patterns = useMemo(
+    () => (showPatterns ? detectPatterns(allCandles, interval) : []),
+    [showPatterns, allCandles, interval]
+  );
+  const firstVisible = candles[0]?.timestamp ?? 0;
+  const visiblePatterns = patterns.filter(p => p.endTime >= firstVisible);
+  const chartPatterns = visiblePatterns.filter(p => p.category === "CHART").slice(0, MAX_CHART_PATTERNS);
+  const patternLines = chartPatterns.flatMap(p => p.lines).slice(0, MAX_PATTERN_LINES);
+  const patternLevels = chartPatterns.flatMap(p =>
+    p.levels.filter(l => l.label === "Neckline" || l.label === "Breakout").map(l => ({ ...l, direction: p.direction }))
+  );
+  const candleMarks = new Map<number, DetectedPattern>();
+  visiblePatterns
+    .filter(p => p.category === "CANDLESTICK")
+    .forEach(p => { if (!candleMarks.has(p.endTime)) candleMarks.set(p.endTime, p); });
+
+  const toggleOverlay = (id: Overlay) =>
+    setOverlays(prev => prev.includes(id) ? prev.filter(o => o !== id) : [...prev, id]);
 
   // Calculate price change
   const priceChange = candles.length >= 2 
     ? ((candles[candles.length - 1].close - candles[0].open) / candles[0].open) * 100
     : 0;
 
-  // Prepare chart data with normalized heights
+  // Prepare chart data — bars span [low, high] on the price axis so overlays line up
   const chartData = candles.map(candle => {
-    const range = candle.high - candle.low;
+    const values = candle === currentCandle ? indicators.snapshot : indicatorsByTime.get(candle.timestamp);
     return {
       ...candle,
-      // Bar height represents the range
-      range: range || 0.01,
+      range: [candle.low, candle.high],
       bullish: candle.close >= candle.open,
+      ...overlayFields(values),
+      ...Object.fromEntries(patternLines.map((line, i) => [`patternLine${i}`, patternLineAt(line, candle.timestamp)])),
+      patternMark: candleMarks.get(candle.timestamp),
+      patternAnchor: candleMarks.get(candle.timestamp)?.direction === "BULLISH" ? candle.low : candle.high,
     };
   });
+  
+  // Price domain covers the candles plus whichever overlays are switched on
+  const domainValues = chartData.flatMap(d => [
+    d.low,
+    d.high,
+    ...(overlays.includes("bollinger") ? [d.bbUpper, d.bbLower] : []),
+    ...(overlays.includes("supertrend") ? [d.stUp, d.stDown] : []),
+    ...(overlays.includes("ichimoku") ? [d.tenkan, d.kijun, d.cloudTop, d.cloudBottom] : []),
+    ...patternLines.map((_, i) => d[`patternLine${i}`] as number | undefined),
+  ]).filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+  const domainMin = domainValues.length > 0 ? Math.min(...domainValues) : 0;
+  const domainMax = domainValues.length > 0 ? Math.max(...domainValues) : 1;
+  const domainPad = (domainMax - domainMin) * 0.05 || domainMax * 0.001;
+  
+  const { macd, stochRsi, adx, atr } = indicators.snapshot;
 
   // Loading state - waiting for Pyth connection (but show cached data if available)
   if (!isConnected && hasPythFeed && !hasPersistedData) {
@@ -229,6 +333,21 @@ const CandlestickChart = ({ crypto = "BTC" }: CandlestickChartProps) => {
           <span className="text-[10px] text-muted-foreground">
             {ticksReceived} ticks{hasPersistedData && !isStreaming ? ' (saved)' : ''}
           </span>
+          <div className="flex gap-0.5">
+            {OVERLAYS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => toggleOverlay(id)}
+                className={`rounded px-1.5 py-0.5 text-[9px] transition-colors ${
+                  overlays.includes(id)
+                    ? "bg-primary/80 text-primary-foreground"
+                    : "bg-secondary text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
           <div className="flex gap-0.5">
             {(["1m", "5m", "15m", "1h", "4h", "1d"] as CandleInterval[]).map((int) => (
               <button
@@ -272,7 +391,7 @@ const CandlestickChart = ({ crypto = "BTC" }: CandlestickChartProps) => {
                 interval="preserveStartEnd"
               />
               <YAxis 
-                domain={['dataMin', 'dataMax']}
+                domain={[domainMin - domainPad, domainMax + domainPad]}
                 hide 
               />
               <Tooltip
@@ -326,6 +445,54 @@ const CandlestickChart = ({ crypto = "BTC" }: CandlestickChartProps) => {
                   />
                 ))}
               </Bar>
+              {overlays.includes("bollinger") && (
+                <>
+                  <Line dataKey="bbUpper" stroke="hsl(217, 91%, 60%)" strokeWidth={1} dot={false} isAnimationActive={false} />
+                  <Line dataKey="bbMiddle" stroke="hsl(217, 91%, 60%)" strokeWidth={1} strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                  <Line dataKey="bbLower" stroke="hsl(217, 91%, 60%)" strokeWidth={1} dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.includes("supertrend") && (
+                <>
+                  <Line dataKey="stUp" stroke="hsl(142, 76%, 46%)" strokeWidth={1.5} dot={false} connectNulls={false} isAnimationActive={false} />
+                  <Line dataKey="stDown" stroke="hsl(0, 84%, 60%)" strokeWidth={1.5} dot={false} connectNulls={false} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.includes("ichimoku") && (
+                <>
+                  <Line dataKey="tenkan" stroke="hsl(199, 89%, 48%)" strokeWidth={1} dot={false} isAnimationActive={false} />
+                  <Line dataKey="kijun" stroke="hsl(330, 81%, 60%)" strokeWidth={1} dot={false} isAnimationActive={false} />
+                  <Line dataKey="cloudTop" stroke="hsl(45, 93%, 47%)" strokeWidth={1} strokeOpacity={0.6} dot={false} isAnimationActive={false} />
+                  <Line dataKey="cloudBottom" stroke="hsl(45, 93%, 47%)" strokeWidth={1} strokeOpacity={0.6} dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {showPatterns && (
+                <>
+                  {patternLines.map((line, i) => (
+                    <Line
+                      key={`pattern-line-${i}`}
+                      dataKey={`patternLine${i}`}
+                      stroke="hsl(280, 87%, 65%)"
+                      strokeWidth={1.5}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                      name={line.label}
+                    />
+                  ))}
+                  {patternLevels.map((level, i) => (
+                    <ReferenceLine
+                      key={`pattern-level-${i}`}
+                      y={level.price}
+                      stroke={level.direction === "BULLISH" ? "hsl(142, 76%, 46%)" : level.direction === "BEARISH" ? "hsl(0, 84%, 60%)" : "hsl(45, 93%, 47%)"}
+                      strokeDasharray="4 2"
+                      strokeOpacity={0.7}
+                      label={{ value: level.label, position: "insideTopLeft", fontSize: 8, fill: "hsl(var(--muted-foreground))" }}
+                    />
+                  ))}
+                  <Line dataKey="patternAnchor" stroke="none" dot={<PatternMarker />} activeDot={false} isAnimationActive={false} />
+                </>
+              )}
             </ComposedChart>
           </ResponsiveContainer>
         ) : (
@@ -334,6 +501,41 @@ const CandlestickChart = ({ crypto = "BTC" }: CandlestickChartProps) => {
           </div>
         )}
       </div>
+      
+      {/* Detected patterns in the visible window */}
+      {showPatterns && (
+        <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] text-muted-foreground">
+          {visiblePatterns.length > 0 ? (
+            visiblePatterns.slice(0, 3).map(p => (
+              <span key={`${p.type}-${p.endTime}`} title={p.description}>{describePattern(p)}</span>
+            ))
+          ) : (
+            <span>No patterns in view</span>
+          )}
+        </div>
+      )}
+
+      {/* Streaming indicator readout */}
+      {(macd || stochRsi || adx || atr !== null) && (
+        <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] text-muted-foreground">
+          {macd && (
+            <span>MACD: <span className={macd.histogram >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+              {macd.histogram >= 0 ? '+' : ''}{macd.histogram.toPrecision(3)}
+            </span></span>
+          )}
+          {stochRsi && (
+            <span>StochRSI: <span className="text-foreground">{stochRsi.k.toFixed(0)}/{stochRsi.d.toFixed(0)}</span></span>
+          )}
+          {adx && (
+            <span>ADX: <span className={adx.adx >= 25 ? 'text-foreground' : 'text-muted-foreground'}>
+              {adx.adx.toFixed(0)} {adx.plusDI >= adx.minusDI ? '▲' : '▼'}
+            </span></span>
+          )}
+          {atr !== null && (
+            <span>ATR: <span className="text-foreground">${atr.toLocaleString(undefined, { maximumFractionDigits: 4 })}</span></span>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CATALYST_CATEGORIES, CATALYST_SYMBOL_GROUPS, DEFAULT_LEAD_DAYS, normalizeCatalystEvent } from "@/lib/zikalyze-brain";
+import { CatalystEvent } from "@/lib/zikalyze-brain/types";
+
+interface CatalystEventDialogProps {
+  open: boolean;
+  event: CatalystEvent | null; // null = new event
+  defaultDate?: string;
+  onOpenChange: (open: boolean) => void;
+  onSave: (event: CatalystEvent) => Promise<void>;
+}
+
+interface FormState {
+  title: string;
+  date: string;
+  time: string;
+  impact: CatalystEvent["impact"];
+  expectedEffect: CatalystEvent["expectedEffect"];
+  category: CatalystEvent["category"];
+  symbols: string;
+  leadDays: string;
+  description: string;
+}
+
+const toForm = (event: CatalystEvent | null, defaultDate?: string): FormState => ({
+  title: event?.title ?? "",
+  date: event?.date ?? defaultDate ?? new Date().toISOString().slice(0, 10),
+  time: event?.time ?? "",
+  impact: event?.impact ?? "MEDIUM",
+  expectedEffect: event?.expectedEffect ?? "VOLATILE",
+  category: event?.category ?? "OTHER",
+  symbols: event?.symbols.join(", ") ?? "",
+  leadDays: event?.leadDays !== undefined ? String(event.leadDays) : "",
+  description: event?.description ?? "",
+});
+
+// Add or edit one calendar event
+const CatalystEventDialog = ({ open, event, defaultDate, onOpenChange, onSave }: CatalystEventDialogProps) => {
+  const [form, setForm] = useState<FormState>(() => toForm(event, defaultDate));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(toForm(event, defaultDate));
+      setError(null);
+    }
+  }, [open, event, defaultDate]);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => setForm((f) => ({ ...f, [key]: value }));
+
+  const handleSave = async () => {
+    const normalized = normalizeCatalystEvent(
+      {
+        id: event?.id,
+        ...form,
+        time: form.time || undefined,
+        leadDays: form.leadDays === "" ? undefined : form.leadDays,
+      },
+      Date.now(),
+      event?.feed ? { feed: event.feed } : {},
+      // Edited built-ins and imports keep their origin so a restore/re-import recognises them
+      event?.source ?? "user"
+    );
+    if (typeof normalized === "string") {
+      setError(normalized);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(normalized);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the event");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{event ? "Edit catalyst" : "Add catalyst"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-3">
+          <div className="grid gap-1.5">
+            <Label htmlFor="catalyst-title">Title</Label>
+            <Input id="catalyst-title" value={form.title} onChange={(e) => update("title", e.target.value)} placeholder="e.g. ARB token unlock" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="catalyst-date">Date</Label>
+              <Input id="catalyst-date" type="date" value={form.date} onChange={(e) => update("date", e.target.value)} />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="catalyst-time">Time (UTC, optional)</Label>
+              <Input id="catalyst-time" type="time" value={form.time} onChange={(e) => update("time", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="grid gap-1.5">
+              <Label>Impact</Label>
+              <Select value={form.impact} onValueChange={(v) => update("impact", v as FormState["impact"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="HIGH">High</SelectItem>
+                  <SelectItem value="MEDIUM">Medium</SelectItem>
+                  <SelectItem value="LOW">Low</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Expected effect</Label>
+              <Select value={form.expectedEffect} onValueChange={(v) => update("expectedEffect", v as FormState["expectedEffect"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BULLISH">Bullish</SelectItem>
+                  <SelectItem value="BEARISH">Bearish</SelectItem>
+                  <SelectItem value="VOLATILE">Volatile</SelectItem>
+                  <SelectItem value="UNCERTAIN">Uncertain</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={(v) => update("category", v as FormState["category"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CATALYST_CATEGORIES.map((c) => (
+                    <SelectItem key={c} value={c}>{c.replace("_", " ").toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 grid gap-1.5">
+              <Label htmlFor="catalyst-symbols">Affects (blank = whole market)</Label>
+              <Input
+                id="catalyst-symbols"
+                value={form.symbols}
+                onChange={(e) => update("symbols", e.target.value)}
+                placeholder="ETH, @L2"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="catalyst-lead">Lead days</Label>
+              <Input
+                id="catalyst-lead"
+                type="number"
+                min={0}
+                value={form.leadDays}
+                onChange={(e) => update("leadDays", e.target.value)}
+                placeholder={String(DEFAULT_LEAD_DAYS[form.impact])}
+              />
+            </div>
+          </div>
+          <p className="-mt-1 text-[11px] text-muted-foreground">
+            Groups: {Object.keys(CATALYST_SYMBOL_GROUPS).map((g) => `@${g}`).join(", ")}
+          </p>
+
+          <div className="grid gap-1.5">
+            <Label htmlFor="catalyst-description">Notes</Label>
+            <Textarea
+              id="catalyst-description"
+              rows={3}
+              value={form.description}
+              onChange={(e) => update("description", e.target.value)}
+              placeholder="Shown in the analysis next to the countdown"
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CatalystEventDialog;
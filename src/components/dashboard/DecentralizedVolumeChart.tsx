@@ -13,6 +13,7 @@ import {
   OracleConnectionDots,
   ChartBuildingState,
   ChartConnectingState,
+  type OracleSource,
 } from "./charts/OracleStatusIndicators";
 
 interface ActivityDataPoint {
@@ -93,7 +94,7 @@ const DecentralizedVolumeChart = ({ crypto }: DecentralizedVolumeChartProps) =>
   const dataPointCount = activityData.length;
   const isBuilding = dataPointCount < 3;
   const currentSource = ws.connected 
-    ? (ws.primarySource === "Binance" ? "WebSocket" : ws.primarySource)
+    ? (ws.primarySource === "Binance" ? "WebSocket" : ws.primarySource) as OracleSource
     : null;
 
   const oracleStatus = {
@@ -0,0 +1,202 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 DepthChart — Cumulative order book depth within ±2% of mid
+// ═══════════════════════════════════════════════════════════════════════════════
+// Bids and asks from the live local book, with spread, imbalance, depth bands
+// and the walls the brain reads for entries
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useMemo } from "react";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { Layers } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useOrderBookDepth } from "@/hooks/useOrderBookDepth";
+import type { OrderBookLevel } from "@/lib/order-book";
+import { LiveBadge, ChartConnectingState } from "./charts/OracleStatusIndicators";
+
+interface DepthChartProps {
+  crypto: string;
+}
+
+interface DepthPoint {
+  price: number;
+  bid?: number;
+  ask?: number;
+}
+
+const POINTS_PER_SIDE = 60;
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+  color: "hsl(var(--foreground))",
+};
+
+const formatUsd = (value: number) => {
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumFractionDigits: price < 1 ? 6 : price < 100 ? 4 : 2 });
+
+// Cumulative USD from the touch outwards, sampled to a fixed number of points
+function cumulative(levels: OrderBookLevel[], mid: number, key: "bid" | "ask"): DepthPoint[] {
+  const step = (mid * 0.02) / POINTS_PER_SIDE;
+  const points = new Map<number, DepthPoint>();
+  let total = 0;
+  for (const [price, size] of levels) {
+    total += price * size;
+    points.set(Math.floor(Math.abs(price - mid) / step), { price, [key]: total });
+  }
+  return Array.from(points.values());
+}
+
+const DepthChart = ({ crypto }: DepthChartProps) => {
+  const book = useOrderBookDepth(crypto);
+  const { metrics } = book;
+
+  const data = useMemo(() => {
+    if (!metrics) return [];
+    const bids = cumulative(book.bids, metrics.mid, "bid").reverse();
+    const asks = cumulative(book.asks, metrics.mid, "ask");
+    return [...bids, ...asks];
+  }, [book.bids, book.asks, metrics]);
+
+  const imbalancePercent = metrics ? Math.round(metrics.imbalance * 100) : 0;
+
+  const renderContent = () => {
+    if (book.status === "unsupported") {
+      return (
+        <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+          No public order book for {crypto.toUpperCase()}
+        </div>
+      );
+    }
+    if (!metrics || data.length === 0) return <ChartConnectingState compact />;
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data}>
+          <XAxis
+            dataKey="price"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={formatPrice}
+            tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+            tickCount={5}
+          />
+          <YAxis hide />
+          <Tooltip
+            contentStyle={TOOLTIP_STYLE}
+            labelFormatter={(price: number) => `$${formatPrice(price)}`}
+            formatter={(value: number, name: string) => [formatUsd(value), name === "bid" ? "Bids" : "Asks"]}
+          />
+          <ReferenceLine x={metrics.mid} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+          {metrics.walls.map(wall => (
+            <ReferenceLine
+              key={`${wall.side}-${wall.price}`}
+              x={wall.price}
+              stroke={wall.side === "BID" ? "hsl(var(--success))" : "hsl(var(--destructive))"}
+              strokeOpacity={0.6}
+            />
+          ))}
+          <Area
+            type="stepAfter"
+            dataKey="bid"
+            stroke="hsl(var(--success))"
+            fill="hsl(var(--success))"
+            fillOpacity={0.2}
+            isAnimationActive={false}
+            connectNulls={false}
+          />
+          <Area
+            type="stepAfter"
+            dataKey="ask"
+            stroke="hsl(var(--destructive))"
+            fill="hsl(var(--destructive))"
+            fillOpacity={0.2}
+            isAnimationActive={false}
+            connectNulls={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6">
+      {/* Header */}
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold text-foreground">Order Book Depth</h3>
+          <Layers className="h-4 w-4 text-muted-foreground" />
+          {book.source && <span className="text-xs text-muted-foreground">{book.source}</span>}
+        </div>
+        {book.isLive ? <LiveBadge /> : (
+          <span className="text-[10px] text-muted-foreground capitalize">{book.status}</span>
+        )}
+      </div>
+
+      {/* Chart */}
+      <div className="h-40">{renderContent()}</div>
+
+      {/* Liquidity metrics */}
+      {metrics && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3 text-xs sm:grid-cols-4">
+            <div>
+              <div className="text-muted-foreground">Spread</div>
+              <div className="font-medium text-foreground">{metrics.spreadPercent.toFixed(3)}%</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Imbalance</div>
+              <div className={cn(
+                "font-medium",
+                imbalancePercent > 10 ? "text-success" : imbalancePercent < -10 ? "text-destructive" : "text-foreground"
+              )}>
+                {imbalancePercent > 0 ? "+" : ""}{imbalancePercent}% {imbalancePercent >= 0 ? "bids" : "asks"}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">±1% depth</div>
+              <div className="font-medium">
+                <span className="text-success">{formatUsd(metrics.bidDepth1)}</span>
+                {" / "}
+                <span className="text-destructive">{formatUsd(metrics.askDepth1)}</span>
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">±2% depth</div>
+              <div className="font-medium">
+                <span className="text-success">{formatUsd(metrics.bidDepth2)}</span>
+                {" / "}
+                <span className="text-destructive">{formatUsd(metrics.askDepth2)}</span>
+              </div>
+            </div>
+          </div>
+
+          {metrics.walls.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Walls</div>
+              {metrics.walls.slice(0, 4).map(wall => (
+                <div key={`${wall.side}-${wall.price}`} className="flex items-center justify-between text-xs tabular-nums">
+                  <span className={wall.side === "BID" ? "text-success" : "text-destructive"}>
+                    {wall.side === "BID" ? "Bid" : "Ask"} ${formatPrice(wall.price)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatUsd(wall.notional)} · {wall.distancePercent.toFixed(2)}% · {wall.multiple.toFixed(1)}×
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DepthChart;
@@ -0,0 +1,240 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📉 DerivativesCard — Perpetual funding, open interest and liquidations
+// ═══════════════════════════════════════════════════════════════════════════════
+// The positioning the brain scores: funding against its own history, what open
+// interest says about the price move, and where liquidations clustered
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useMemo } from "react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { Gauge } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useDerivatives } from "@/hooks/useDerivatives";
+import type { OpenInterestRegime } from "@/lib/derivatives";
+import { LiveBadge, ChartConnectingState } from "./charts/OracleStatusIndicators";
+
+interface DerivativesCardProps {
+  crypto: string;
+}
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+  color: "hsl(var(--foreground))",
+};
+
+const REGIME_LABELS: Record<OpenInterestRegime, string> = {
+  NEW_LONGS: "New longs",
+  SHORT_COVERING: "Short covering",
+  NEW_SHORTS: "New shorts",
+  LONG_UNWIND: "Long unwind",
+  NONE: "No clear read",
+};
+
+const formatUsd = (value: number) => {
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumFractionDigits: price < 1 ? 6 : price < 100 ? 4 : 2 });
+
+const formatChange = (value: number | null) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const changeColor = (value: number | null) =>
+  value === null || value === 0 ? "text-foreground" : value > 0 ? "text-success" : "text-destructive";
+
+const DerivativesCard = ({ crypto }: DerivativesCardProps) => {
+  const derivatives = useDerivatives(crypto);
+  const { metrics, history } = derivatives;
+
+  const oiSeries = useMemo(
+    () => history.openInterest.map(sample => ({ time: sample.time, notional: sample.notional })),
+    [history.openInterest]
+  );
+
+  const renderChart = () => {
+    if (derivatives.status === "unsupported") {
+      return (
+        <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+          No perpetual market for {crypto.toUpperCase()}
+        </div>
+      );
+    }
+    if (oiSeries.length < 2) return <ChartConnectingState compact />;
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={oiSeries}>
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time: number) => new Date(time).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}
+            tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+            tickCount={5}
+          />
+          <YAxis hide domain={["auto", "auto"]} />
+          <Tooltip
+            contentStyle={TOOLTIP_STYLE}
+            labelFormatter={(time: number) => new Date(time).toLocaleString()}
+            formatter={(value: number) => [formatUsd(value), "Open interest"]}
+          />
+          <Area
+            type="monotone"
+            dataKey="notional"
+            stroke="hsl(var(--primary))"
+            fill="hsl(var(--primary))"
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  const funding = metrics?.funding;
+  const openInterest = metrics?.openInterest;
+  const liquidations = metrics?.liquidations;
+  const liquidations1h = liquidations ? liquidations.longs1h + liquidations.shorts1h : 0;
+  const longShare = liquidations && liquidations1h > 0 ? (liquidations.longs1h / liquidations1h) * 100 : 50;
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6">
+      {/* Header */}
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold text-foreground">Derivatives</h3>
+          <Gauge className="h-4 w-4 text-muted-foreground" />
+          {derivatives.source && <span className="text-xs text-muted-foreground">{derivatives.source}</span>}
+        </div>
+        {derivatives.isLive ? <LiveBadge /> : (
+          <span className="text-[10px] text-muted-foreground capitalize">{derivatives.status}</span>
+        )}
+      </div>
+
+      {/* Open interest history */}
+      <div className="h-32">{renderChart()}</div>
+
+      {metrics && funding && liquidations && (
+        <div className="mt-4 space-y-4">
+          {/* Funding */}
+          <div className="grid grid-cols-2 gap-3 text-xs sm:grid-cols-4">
+            <div>
+              <div className="text-muted-foreground">Funding / {funding.intervalHours}h</div>
+              <div className={cn(
+                "font-medium",
+                funding.extreme === "CROWDED_LONG" ? "text-destructive" : funding.extreme === "CROWDED_SHORT" ? "text-success" : "text-foreground"
+              )}>
+                {funding.rate >= 0 ? "+" : ""}{(funding.rate * 100).toFixed(4)}%
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Annualized</div>
+              <div className="font-medium text-foreground">{formatChange(funding.annualizedPercent)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">vs history</div>
+              <div className="font-medium text-foreground">
+                {funding.zScore === null ? "—" : `z ${funding.zScore >= 0 ? "+" : ""}${funding.zScore.toFixed(1)}`}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Next funding</div>
+              <div className="font-medium text-foreground">
+                {funding.nextFundingTime && funding.nextFundingTime > Date.now()
+                  ? formatDistanceToNowStrict(funding.nextFundingTime)
+                  : "—"}
+              </div>
+            </div>
+          </div>
+          {funding.extreme !== "NONE" && (
+            <div className={cn(
+              "rounded-lg px-3 py-2 text-xs",
+              funding.extreme === "CROWDED_LONG" ? "bg-destructive/10 text-destructive" : "bg-success/10 text-success"
+            )}>
+              {funding.extreme === "CROWDED_LONG"
+                ? "Longs are crowded — funding at an extreme, squeeze risk is down"
+                : "Shorts are crowded — funding at an extreme, squeeze risk is up"}
+            </div>
+          )}
+
+          {/* Open interest */}
+          {openInterest && (
+            <div className="grid grid-cols-2 gap-3 text-xs sm:grid-cols-4">
+              <div>
+                <div className="text-muted-foreground">Open interest</div>
+                <div className="font-medium text-foreground">{formatUsd(openInterest.notional)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">1h / 24h</div>
+                <div className="font-medium">
+                  <span className={changeColor(openInterest.change1h)}>{formatChange(openInterest.change1h)}</span>
+                  {" / "}
+                  <span className={changeColor(openInterest.change24h)}>{formatChange(openInterest.change24h)}</span>
+                </div>
+              </div>
+              <div className="col-span-2">
+                <div className="text-muted-foreground">OI vs price ({openInterest.windowHours}h)</div>
+                <div className={cn("font-medium", openInterest.divergence ? "text-warning" : "text-foreground")}>
+                  {REGIME_LABELS[openInterest.regime]}
+                  {openInterest.oiChange !== null && openInterest.priceChange !== null && (
+                    <span className="text-muted-foreground">
+                      {" "}· OI {formatChange(openInterest.oiChange)}, price {formatChange(openInterest.priceChange)}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Liquidations */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Liquidations (1h)</span>
+              <span className="tabular-nums">
+                <span className="text-destructive">{formatUsd(liquidations.longs1h)} longs</span>
+                {" / "}
+                <span className="text-success">{formatUsd(liquidations.shorts1h)} shorts</span>
+              </span>
+            </div>
+            <div className="flex h-1.5 overflow-hidden rounded-full bg-muted">
+              {liquidations1h > 0 && (
+                <>
+                  <div className="bg-destructive" style={{ width: `${longShare}%` }} />
+                  <div className="bg-success" style={{ width: `${100 - longShare}%` }} />
+                </>
+              )}
+            </div>
+            <div className="text-[10px] text-muted-foreground">
+              24h: {formatUsd(liquidations.longs24h)} longs / {formatUsd(liquidations.shorts24h)} shorts
+            </div>
+          </div>
+
+          {liquidations.clusters.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Liquidation clusters</div>
+              {liquidations.clusters.slice(0, 3).map(cluster => (
+                <div key={`${cluster.side}-${cluster.start}`} className="flex items-center justify-between text-xs tabular-nums">
+                  <span className={cluster.side === "LONG" ? "text-destructive" : "text-success"}>
+                    {cluster.side === "LONG" ? "Longs" : "Shorts"} ${formatPrice(cluster.low)}–${formatPrice(cluster.high)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatUsd(cluster.notional)} · {cluster.count} orders · {formatDistanceToNowStrict(cluster.end, { addSuffix: true })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DerivativesCard;
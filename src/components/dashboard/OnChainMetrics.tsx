@@ -20,6 +20,7 @@ import { cn } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useState, useEffect } from "react";
 import { useCurrency } from "@/hooks/useCurrency";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface OnChainMetricsProps {
   crypto: string;
@@ -167,6 +168,7 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
               <Activity className={cn("h-4 w-4", flowColor)} />
             )}
             <span className="text-xs text-muted-foreground">24h Exchange Flow</span>
+            <ProvenanceBadge provenance={metrics.provenance.exchangeNetFlow} />
           </div>
           <div className={cn("font-bold", flowColor)}>
             {metrics.exchangeNetFlow.trend}
@@ -187,6 +189,7 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
           <div className="flex items-center gap-1.5 mb-1">
             <Wallet className="h-4 w-4 text-chart-cyan" />
             <span className="text-xs text-muted-foreground">24h Whale Activity</span>
+            <ProvenanceBadge provenance={metrics.provenance.whaleActivity} />
           </div>
           <div className={cn("font-bold text-sm", whaleColor)}>
             {metrics.whaleActivity.netFlow}
@@ -209,7 +212,7 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
             <span className="text-xs text-muted-foreground">
               {crypto.toUpperCase() === 'BTC' ? 'Mempool' : 'Pending Txs'}
             </span>
-            {isConnected && <span className="h-1.5 w-1.5 bg-success rounded-full animate-pulse" />}
+            <ProvenanceBadge provenance={metrics.provenance.mempoolData} />
           </div>
           <div className="font-bold text-foreground">
             {metrics.mempoolData.unconfirmedTxs > 0 
@@ -245,6 +248,7 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
           <div className="flex items-center gap-1.5 mb-1">
             <Zap className="h-4 w-4 text-primary" />
             <span className="text-xs text-muted-foreground">24h Transactions</span>
+            <ProvenanceBadge provenance={metrics.provenance.transactionVolume} />
           </div>
           <div className="font-bold text-foreground">
             {metrics.transactionVolume.value > 0 
@@ -289,6 +293,7 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
               <div className="flex items-center gap-1.5 mb-1">
                 <Landmark className="h-4 w-4 text-chart-cyan" />
                 <span className="text-xs text-muted-foreground">ETF Flows (24h)</span>
+                <ProvenanceBadge provenance={metrics.provenance.etfFlow} />
               </div>
               <div className={cn(
                 "font-bold text-sm",
@@ -324,6 +329,7 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
               <div className="flex items-center gap-1.5 mb-1">
                 <Users className="h-4 w-4 text-primary" />
                 <span className="text-xs text-muted-foreground">Validator Queue</span>
+                <ProvenanceBadge provenance={metrics.provenance.validatorQueue} />
                 {metrics.validatorQueue.changePercent > 50 && (
                   <span className="text-[10px] bg-success/20 text-success px-1 py-0.5 rounded">
                     +{metrics.validatorQueue.changePercent.toFixed(0)}%
@@ -364,10 +370,12 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
               {metrics.activeAddresses.change24h.toFixed(1)}%
             </span>
           )}
+          <ProvenanceBadge provenance={metrics.provenance.activeAddresses} />
         </div>
         {metrics.blockHeight > 0 && (
           <div className="text-muted-foreground">
             Block: <span className="text-foreground font-medium">{metrics.blockHeight.toLocaleString()}</span>
+            <ProvenanceBadge provenance={metrics.provenance.network} className="ml-1" />
           </div>
         )}
         {metrics.avgBlockTime > 0 && (
@@ -381,9 +389,14 @@ const OnChainMetrics = ({ crypto, price, change, volume, marketCap, coinGeckoId
             24h Avg: <span className="text-foreground font-medium">{(metrics.transactionVolume.avg24h / 1000).toFixed(1)}K/hr</span>
           </div>
         )}
-        {/* Source info hidden - data is live */}
       </div>
 
+      {Object.values(metrics.provenance).some(p => p?.kind === 'DERIVED') && (
+        <p className="mt-2 text-[10px] text-muted-foreground">
+          Estimated values are modelled from the 24h price change, not read from the chain.
+        </p>
+      )}
+
       {/* CSS for shimmer effect */}
       <style>{`
         @keyframes shimmer {
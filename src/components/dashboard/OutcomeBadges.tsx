@@ -0,0 +1,51 @@
+import { cn } from "@/lib/utils";
+import { OUTCOME_HORIZONS } from "@/lib/zikalyze-brain";
+import { AnalysisOutcome, AnalysisOutcomes, OutcomeStatus } from "@/lib/zikalyze-brain/types";
+
+interface OutcomeBadgesProps {
+  outcomes?: AnalysisOutcomes;
+}
+
+const STATUS_LABEL: Record<OutcomeStatus, string> = {
+  TARGET: "TP",
+  STOPPED: "SL",
+  EXPIRED: "Expired",
+  NOT_FILLED: "No fill",
+  RANGE_HELD: "Range held",
+  RANGE_BROKEN: "Broke out",
+};
+
+const describe = (outcome: AnalysisOutcome) =>
+  [
+    `${outcome.horizon}: ${STATUS_LABEL[outcome.status]}${outcome.targetsHit > 1 ? ` (${outcome.targetsHit} targets)` : ""}`,
+    outcome.entryPrice !== null ? `Filled at $${outcome.entryPrice.toLocaleString()}` : null,
+    `Exit $${outcome.exitPrice.toLocaleString()} (${outcome.returnPercent >= 0 ? "+" : ""}${outcome.returnPercent.toFixed(2)}%)`,
+    `MFE +${outcome.maxFavorablePercent.toFixed(2)}% • MAE −${outcome.maxAdversePercent.toFixed(2)}%`,
+    `${outcome.candles} × ${outcome.interval} candles`,
+  ].filter(Boolean).join("\n");
+
+// Graded outcome per horizon for one saved analysis
+const OutcomeBadges = ({ outcomes }: OutcomeBadgesProps) => {
+  const graded = OUTCOME_HORIZONS.map((h) => outcomes?.[h]).filter(Boolean);
+  if (graded.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {graded.map((outcome) => (
+        <span
+          key={outcome.horizon}
+          title={describe(outcome)}
+          className={cn(
+            "rounded px-1.5 py-0.5 text-[10px] font-medium",
+            outcome.correct ? "bg-success/15 text-success" : "bg-destructive/15 text-destructive"
+          )}
+        >
+          {outcome.horizon} {STATUS_LABEL[outcome.status]} {outcome.returnPercent >= 0 ? "+" : ""}
+          {outcome.returnPercent.toFixed(1)}%
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default OutcomeBadges;
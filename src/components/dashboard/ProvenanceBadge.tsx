@@ -0,0 +1,40 @@
+import { cn } from "@/lib/utils";
+import { DataProvenance } from "@/lib/zikalyze-brain/types";
+import { ageProvenance, formatAge } from "@/lib/zikalyze-brain/provenance";
+
+interface ProvenanceBadgeProps {
+  provenance?: DataProvenance;
+  className?: string;
+}
+
+// Live / cached (with age) / estimated tag for a single metric
+const ProvenanceBadge = ({ provenance, className }: ProvenanceBadgeProps) => {
+  if (!provenance) return null;
+  const current = ageProvenance(provenance, Date.now());
+
+  const label = current.kind === "LIVE"
+    ? "Live"
+    : current.kind === "CACHED"
+      ? `Cached${current.ageMs !== undefined ? ` ${formatAge(current.ageMs)}` : ""}`
+      : "Estimated";
+  const title = current.kind === "DERIVED"
+    ? `Estimated from ${current.basis ?? current.source} — not measured`
+    : `${current.source}${current.asOf ? ` • ${new Date(current.asOf).toLocaleTimeString()}` : ""}`;
+
+  return (
+    <span
+      title={title}
+      className={cn(
+        "rounded px-1 py-0.5 text-[9px] font-semibold uppercase leading-none",
+        current.kind === "LIVE" && "bg-success/20 text-success",
+        current.kind === "CACHED" && "bg-warning/20 text-warning",
+        current.kind === "DERIVED" && "bg-muted text-muted-foreground",
+        className
+      )}
+    >
+      {label}
+    </span>
+  );
+};
+
+export default ProvenanceBadge;
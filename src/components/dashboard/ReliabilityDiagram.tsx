@@ -0,0 +1,117 @@
+import { ComposedChart, Line, Scatter, XAxis, YAxis, ReferenceLine, ResponsiveContainer, Tooltip, CartesianGrid } from "recharts";
+import { Target } from "lucide-react";
+import { MIN_CALIBRATION_SAMPLES } from "@/lib/zikalyze-brain";
+import type { ConfidenceCalibration } from "@/hooks/useConfidenceCalibration";
+
+interface ReliabilityDiagramProps {
+  calibration: ConfidenceCalibration;
+  crypto: string;
+}
+
+interface ChartPoint {
+  x: number;
+  y: number;
+  count?: number;
+}
+
+const ReliabilityDiagram = ({ calibration, crypto }: ReliabilityDiagramProps) => {
+  const { model, bins, rawError, calibratedError, symbolSamples, totalSamples } = calibration;
+
+  const observed: ChartPoint[] = bins.map((bin) => ({ x: bin.meanConfidence, y: bin.observedAccuracy, count: bin.count }));
+  const curve: ChartPoint[] = model ? model.points.map((p) => ({ x: p.confidence, y: p.probability * 100 })) : [];
+  const scopeLabel = model ? (model.scope === "symbol" ? crypto.toUpperCase() : "All symbols") : null;
+  const needed = Math.max(0, MIN_CALIBRATION_SAMPLES - totalSamples);
+
+  return (
+    <div className="mb-4 rounded-xl border border-border bg-card p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Target className="h-4 w-4 text-primary" />
+          <span className="text-sm font-semibold text-foreground">Confidence Calibration</span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {model
+            ? `${scopeLabel} • ${model.method === "isotonic" ? "Isotonic" : "Platt"} • ${model.sampleCount} graded`
+            : `${totalSamples} graded • ${needed} more to calibrate`}
+        </span>
+      </div>
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart margin={{ top: 4, right: 8, bottom: 4, left: -16 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(222, 47%, 18%)" />
+            <XAxis
+              type="number"
+              dataKey="x"
+              domain={[0, 100]}
+              ticks={[0, 20, 40, 60, 80, 100]}
+              tick={{ fontSize: 10, fill: "hsl(215, 20%, 65%)" }}
+              tickFormatter={(v: number) => `${v}%`}
+            />
+            <YAxis
+              type="number"
+              dataKey="y"
+              domain={[0, 100]}
+              ticks={[0, 20, 40, 60, 80, 100]}
+              tick={{ fontSize: 10, fill: "hsl(215, 20%, 65%)" }}
+              tickFormatter={(v: number) => `${v}%`}
+            />
+            <ReferenceLine
+              segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+              stroke="hsl(215, 20%, 45%)"
+              strokeDasharray="4 4"
+              ifOverflow="extendDomain"
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(222, 47%, 8%)",
+                border: "1px solid hsl(222, 47%, 18%)",
+                borderRadius: "8px",
+                color: "hsl(210, 40%, 98%)",
+                fontSize: "11px",
+              }}
+              formatter={(value: number, name: string, entry: { payload?: ChartPoint }) => {
+                if (name === "x") return [`${value.toFixed(0)}%`, "Predicted"];
+                const suffix = entry.payload?.count ? ` (${entry.payload.count} calls)` : "";
+                return [`${value.toFixed(0)}%${suffix}`, entry.payload?.count ? "Observed" : "Calibrated"];
+              }}
+            />
+            {curve.length > 0 && (
+              <Line
+                data={curve}
+                dataKey="y"
+                type="monotone"
+                stroke="hsl(217, 91%, 60%)"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+            <Scatter data={observed} dataKey="y" fill="hsl(38, 92%, 50%)" isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-2 flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          <span className="text-warning">●</span> Observed hit rate
+          {model && <> • <span className="text-primary">—</span> Calibrated</>}
+          {" "}• dashed = perfect
+        </span>
+        {rawError !== null && (
+          <span>
+            Avg gap: {rawError.toFixed(1)} pts
+            {calibratedError !== null && ` → ${calibratedError.toFixed(1)} pts`}
+          </span>
+        )}
+      </div>
+      {model?.scope === "global" && (
+        <p className="mt-1 text-[11px] text-muted-foreground">
+          {crypto.toUpperCase()} has {symbolSamples} of {MIN_CALIBRATION_SAMPLES} graded calls — using the fit across all symbols.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReliabilityDiagram;
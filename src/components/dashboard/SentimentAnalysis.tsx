@@ -13,6 +13,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { useGlobalPriceWebSocket } from "@/hooks/useGlobalPriceWebSocket";
 import { supabase } from "@/integrations/supabase/client";
+import { estimateFearGreed } from "@/lib/zikalyze-brain";
 import { toast } from "sonner";
 
 // ════════════════════════════════════════════════════════════════════════════════
@@ -68,29 +69,6 @@ interface SentimentAnalysisProps {
   change: number;
 }
 
-// Client-side Fear & Greed calculation from price action
-function calculateFearGreed(change24h: number): { value: number; label: string } {
-  let score = 50;
-  
-  if (change24h > 10) score = 85;
-  else if (change24h > 5) score = 72;
-  else if (change24h > 2) score = 62;
-  else if (change24h > 0) score = 55;
-  else if (change24h > -2) score = 45;
-  else if (change24h > -5) score = 35;
-  else if (change24h > -10) score = 25;
-  else score = 15;
-  
-  let label: string;
-  if (score <= 25) label = 'Extreme Fear';
-  else if (score <= 45) label = 'Fear';
-  else if (score <= 55) label = 'Neutral';
-  else if (score <= 75) label = 'Greed';
-  else label = 'Extreme Greed';
-  
-  return { value: score, label };
-}
-
 // Top crypto influencers with real Twitter handles
 const TOP_INFLUENCERS = [
   { name: "Cobie", handle: "coabordle", followers: "700K" },
@@ -105,8 +83,8 @@ const TOP_INFLUENCERS = [
 
 // Derive sentiment from live price action
 function deriveSentiment(change24h: number, previousChange: number, wsConnected: boolean): SentimentData {
-  const fearGreed = calculateFearGreed(change24h);
-  const prevFearGreed = calculateFearGreed(previousChange);
+  const fearGreed = estimateFearGreed(change24h);
+  const prevFearGreed = estimateFearGreed(previousChange);
   
   const sentimentScore = Math.max(0, Math.min(100, 50 + change24h * 3));
   
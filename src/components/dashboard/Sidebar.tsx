@@ -11,6 +11,8 @@ import {
   Search,
   LogOut,
   BellRing,
+  CalendarDays,
+  ScanSearch,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
@@ -27,7 +29,9 @@ const Sidebar = () => {
     { icon: LayoutDashboard, label: t("sidebar.dashboard"), path: "/dashboard" },
     { icon: BarChart3, label: t("sidebar.analytics"), path: "/dashboard/analytics" },
     { icon: Brain, label: t("sidebar.aiAnalyzer"), path: "/dashboard/analyzer" },
+    { icon: ScanSearch, label: t("sidebar.screener"), path: "/dashboard/screener" },
     { icon: BellRing, label: t("sidebar.alerts"), path: "/dashboard/alerts" },
+    { icon: CalendarDays, label: t("sidebar.calendar"), path: "/dashboard/calendar" },
     { icon: Wallet, label: t("sidebar.portfolio"), path: "/dashboard/portfolio" },
     { icon: Settings, label: t("sidebar.settings"), path: "/dashboard/settings" },
   ];
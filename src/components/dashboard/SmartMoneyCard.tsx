@@ -1,35 +1,66 @@
 import { BarChart, Bar, XAxis, ResponsiveContainer, Cell } from "recharts";
+import { AnalysisProvenance, InstitutionalVsRetail, ProvenanceMetric } from "@/lib/zikalyze-brain/types";
+import ProvenanceBadge from "./ProvenanceBadge";
 
-const data = [
-  { name: "1", value: 30 },
-  { name: "2", value: 50 },
-  { name: "3", value: 40 },
-  { name: "4", value: 70 },
-  { name: "5", value: 60 },
-  { name: "6", value: 80 },
-  { name: "7", value: 45 },
-  { name: "8", value: 55 },
+interface SmartMoneyCardProps {
+  institutionalVsRetail: InstitutionalVsRetail;
+  provenance?: AnalysisProvenance;
+}
+
+const biasColor = (bias: InstitutionalVsRetail["institutionalBias"]) =>
+  bias === "BULLISH" ? "hsl(142, 76%, 36%)" : bias === "BEARISH" ? "hsl(0, 84%, 60%)" : "hsl(215, 20%, 55%)";
+
+// Inputs behind the institutional read, in the order they're weighted
+const INPUTS: { metric: ProvenanceMetric; label: string }[] = [
+  { metric: "etfFlow", label: "ETF flows" },
+  { metric: "whaleActivity", label: "Whale activity" },
+  { metric: "exchangeNetFlow", label: "Exchange flow" },
+  { metric: "orderBook", label: "Order book" },
+  { metric: "holders", label: "Long-term holders" },
+  { metric: "derivatives", label: "Derivatives" },
+  { metric: "fearGreed", label: "Fear & Greed" },
 ];
 
-const SmartMoneyCard = () => {
+const SmartMoneyCard = ({ institutionalVsRetail, provenance }: SmartMoneyCardProps) => {
+  const data = [
+    { name: "Smart money", value: institutionalVsRetail.institutionalConfidence, bias: institutionalVsRetail.institutionalBias },
+    { name: "Retail", value: institutionalVsRetail.retailConfidence, bias: institutionalVsRetail.retailBias },
+  ];
+  const inputs = INPUTS.filter(({ metric }) => provenance?.[metric]);
+
   return (
-    <div className="rounded-2xl border border-border bg-card p-6">
-      <h3 className="mb-4 text-lg font-semibold text-foreground">Smart Money</h3>
+    <div className="mb-4 rounded-xl border border-border bg-card p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">Smart Money</h3>
+        <span className="text-xs text-muted-foreground">
+          {institutionalVsRetail.institutionalBias} vs retail {institutionalVsRetail.retailBias}
+        </span>
+      </div>
       <div className="h-24">
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={data}>
-            <XAxis hide />
+            <XAxis dataKey="name" tick={{ fontSize: 10, fill: "hsl(215, 20%, 65%)" }} axisLine={false} tickLine={false} />
             <Bar dataKey="value" radius={[2, 2, 0, 0]}>
-              {data.map((_, index) => (
-                <Cell
-                  key={`cell-${index}`}
-                  fill={index % 2 === 0 ? "hsl(270, 70%, 55%)" : "hsl(217, 91%, 60%)"}
-                />
+              {data.map((entry) => (
+                <Cell key={entry.name} fill={biasColor(entry.bias)} />
               ))}
             </Bar>
           </BarChart>
         </ResponsiveContainer>
       </div>
+      {institutionalVsRetail.divergence && (
+        <p className="mt-2 text-xs text-warning">{institutionalVsRetail.divergenceNote}</p>
+      )}
+      {inputs.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-muted-foreground">
+          {inputs.map(({ metric, label }) => (
+            <span key={metric} className="flex items-center gap-1">
+              {label}
+              <ProvenanceBadge provenance={provenance[metric]} />
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,236 @@
+import { useMemo, useState } from "react";
+import { Bell, BellOff, CheckCircle2, ChevronDown, CircleDashed, Pencil, Plus, Puzzle, Trash2, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { STRATEGY_RULE_METRICS, validateStrategyRule } from "@/lib/zikalyze-brain";
+import { StrategyRuleEvaluation, StrategyRuleValue } from "@/lib/zikalyze-brain/types";
+import { StrategyRule, StrategyRuleDraft, StrategyRuleStatus } from "@/hooks/useStrategyRules";
+
+interface StrategyRulesCardProps {
+  crypto: string;
+  statuses: StrategyRuleStatus[];
+  onCreate: (draft: StrategyRuleDraft) => Promise<boolean>;
+  onUpdate: (id: string, changes: Partial<StrategyRuleDraft & { enabled: boolean }>) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const EXAMPLE_RULE = "RSI(1h) < 30 AND price above EMA21(4h) AND Fear&Greed < 25";
+
+const formatValue = (value: StrategyRuleValue | null) => {
+  if (value === null) return "n/a";
+  if (typeof value === "number") return value.toLocaleString("en-US", { maximumFractionDigits: Math.abs(value) >= 100 ? 2 : 4 });
+  return String(value);
+};
+
+const RuleState = ({ evaluation }: { evaluation: StrategyRuleEvaluation | null }) => {
+  if (!evaluation) return <CircleDashed className="h-4 w-4 shrink-0 text-muted-foreground" />;
+  if (evaluation.error) return <XCircle className="h-4 w-4 shrink-0 text-destructive" />;
+  if (evaluation.matched) return <CheckCircle2 className="h-4 w-4 shrink-0 text-success" />;
+  if (evaluation.missing.length > 0) return <CircleDashed className="h-4 w-4 shrink-0 text-warning" />;
+  return <XCircle className="h-4 w-4 shrink-0 text-muted-foreground" />;
+};
+
+const emptyDraft = (): StrategyRuleDraft => ({ name: "", expression: "", symbol: null, alert: true });
+
+const StrategyRulesCard = ({ crypto, statuses, onCreate, onUpdate, onDelete }: StrategyRulesCardProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null); // "new" while adding
+  const [draft, setDraft] = useState<StrategyRuleDraft>(emptyDraft);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showMetrics, setShowMetrics] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const draftError = useMemo(() => (draft.expression.trim() ? validateStrategyRule(draft.expression) : null), [draft.expression]);
+  const matching = statuses.filter(s => s.evaluation?.matched).length;
+  const symbol = crypto.toUpperCase();
+
+  const startEdit = (rule?: StrategyRule) => {
+    setEditingId(rule?.id ?? "new");
+    setDraft(rule ? { name: rule.name, expression: rule.expression, symbol: rule.symbol, alert: rule.alert } : emptyDraft());
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = editingId === "new" ? await onCreate(draft) : await onUpdate(editingId!, draft);
+    setSaving(false);
+    if (saved) setEditingId(null);
+  };
+
+  const insertMetric = (name: string, timeframed: boolean) => {
+    const token = timeframed ? `${name}(1h)` : name;
+    setDraft(d => ({ ...d, expression: d.expression.trim() ? `${d.expression.trimEnd()} AND ${token} ` : `${token} ` }));
+  };
+
+  return (
+    <div className="mb-4 rounded-xl border border-border bg-card p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Puzzle className="h-4 w-4 text-primary" />
+          <span className="text-sm font-semibold text-foreground">Strategy Rules</span>
+          {statuses.length > 0 && (
+            <span className={cn(
+              "rounded px-1.5 py-0.5 text-[10px] font-semibold",
+              matching > 0 ? "bg-success/20 text-success" : "bg-muted/50 text-muted-foreground"
+            )}>
+              {matching}/{statuses.length} matching
+            </span>
+          )}
+        </div>
+        {editingId === null && (
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => startEdit()}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add rule
+          </Button>
+        )}
+      </div>
+
+      {statuses.length === 0 && editingId === null && (
+        <p className="text-xs text-muted-foreground">
+          Write your own setup, e.g. <code className="font-mono">{EXAMPLE_RULE}</code> — it is checked on every data refresh and can alert you when it matches.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {statuses.map(({ rule, evaluation }) => (
+          <div key={rule.id} className="rounded-lg bg-secondary/50 p-2 text-xs">
+            <div className="flex items-center gap-2">
+              <RuleState evaluation={evaluation} />
+              <button
+                className="min-w-0 flex-1 text-left"
+                onClick={() => setExpandedId(expandedId === rule.id ? null : rule.id)}
+              >
+                <div className="flex items-center gap-1 font-medium text-foreground">
+                  <span className="truncate">{rule.name}</span>
+                  <ChevronDown className={cn("h-3 w-3 shrink-0 transition-transform", expandedId === rule.id && "rotate-180")} />
+                </div>
+                <div className="truncate font-mono text-[10px] text-muted-foreground">{rule.expression}</div>
+              </button>
+              <span className="shrink-0 rounded bg-muted/50 px-1.5 py-0.5 text-[10px] text-muted-foreground">
+                {rule.symbol ?? "All coins"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                title={rule.alert ? "Alerts on — click to mute" : "Alert me when this matches"}
+                onClick={() => onUpdate(rule.id, { alert: !rule.alert })}
+              >
+                {rule.alert ? <Bell className="h-3 w-3 text-primary" /> : <BellOff className="h-3 w-3 text-muted-foreground" />}
+              </Button>
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => onUpdate(rule.id, { enabled })}
+                title={rule.enabled ? "Pause rule" : "Resume rule"}
+              />
+              <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Edit rule" onClick={() => startEdit(rule)}>
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Delete rule" onClick={() => onDelete(rule.id)}>
+                <Trash2 className="h-3 w-3 text-destructive" />
+              </Button>
+            </div>
+
+            {expandedId === rule.id && (
+              <div className="mt-2 space-y-1 border-t border-border/50 pt-2">
+                {!evaluation && <div className="text-muted-foreground">Paused</div>}
+                {evaluation?.error && <div className="text-destructive">{evaluation.error}</div>}
+                {evaluation?.conditions.map((condition, i) => (
+                  <div key={i} className="flex items-center justify-between gap-2">
+                    <span className={cn(
+                      "font-mono",
+                      condition.passed === true ? "text-success" : condition.passed === false ? "text-muted-foreground" : "text-warning"
+                    )}>
+                      {condition.passed === true ? "✓" : condition.passed === false ? "✗" : "?"} {condition.text}
+                    </span>
+                    <span className="shrink-0 text-[10px] text-muted-foreground">
+                      {condition.values.map(v => `${v.label} = ${formatValue(v.value)}`).join(" • ")}
+                    </span>
+                  </div>
+                ))}
+                {evaluation && evaluation.missing.length > 0 && (
+                  <div className="text-[10px] text-warning">Waiting for data: {evaluation.missing.join(", ")}</div>
+                )}
+                {rule.last_triggered_at && (
+                  <div className="text-[10px] text-muted-foreground">
+                    Last alert {new Date(rule.last_triggered_at).toLocaleString()}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {editingId !== null && (
+        <div className="mt-3 space-y-2 rounded-lg border border-border/50 p-3">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+            placeholder="Name (optional)"
+            className="h-8 text-xs"
+          />
+          <Textarea
+            value={draft.expression}
+            onChange={(e) => setDraft(d => ({ ...d, expression: e.target.value }))}
+            placeholder={EXAMPLE_RULE}
+            className="min-h-[60px] font-mono text-xs"
+            spellCheck={false}
+          />
+          {draftError && <div className="text-[10px] text-destructive">{draftError}</div>}
+
+          <button
+            className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground"
+            onClick={() => setShowMetrics(!showMetrics)}
+          >
+            <ChevronDown className={cn("h-3 w-3 transition-transform", showMetrics && "rotate-180")} />
+            Metrics — timeframes 15m, 1h, 4h, 1d (default 24h chart) • AND OR NOT • &lt; &lt;= &gt; &gt;= == != ABOVE BELOW • + - * /
+          </button>
+          {showMetrics && (
+            <div className="flex max-h-32 flex-wrap gap-1 overflow-y-auto">
+              {STRATEGY_RULE_METRICS.map(metric => (
+                <button
+                  key={metric.name}
+                  className="rounded bg-secondary px-1.5 py-0.5 font-mono text-[10px] text-foreground hover:bg-primary/20"
+                  title={metric.values ? `${metric.description}: ${metric.values.join(", ")}` : metric.description}
+                  onClick={() => insertMetric(metric.name, metric.timeframed)}
+                >
+                  {metric.timeframed ? `${metric.name}(tf)` : metric.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4 text-xs">
+            <label className="flex items-center gap-2">
+              <Checkbox
+                checked={draft.symbol !== null}
+                onCheckedChange={(checked) => setDraft(d => ({ ...d, symbol: checked ? (d.symbol ?? symbol) : null }))}
+              />
+              Only {draft.symbol ?? symbol}
+            </label>
+            <label className="flex items-center gap-2">
+              <Checkbox
+                checked={draft.alert}
+                onCheckedChange={(checked) => setDraft(d => ({ ...d, alert: checked === true }))}
+              />
+              Alert when it matches
+            </label>
+            <div className="ml-auto flex gap-2">
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" className="h-7 text-xs" disabled={saving || !draft.expression.trim() || !!draftError} onClick={handleSave}>
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StrategyRulesCard;
@@ -0,0 +1,107 @@
+import { Crosshair, ShieldAlert, Target, Wallet } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RiskSettings, TradePlan } from "@/lib/zikalyze-brain/types";
+import { sizePosition, blendedRewardRisk } from "@/lib/zikalyze-brain/trade-plan";
+
+interface TradePlanCardProps {
+  plan: TradePlan;
+  crypto: string;
+  riskSettings?: RiskSettings;
+}
+
+const TIMING_LABELS: Record<TradePlan["timing"], string> = {
+  NOW: "Enter now",
+  WAIT_PULLBACK: "Limit on pullback",
+  WAIT_BREAKOUT: "Stop-entry on breakout",
+  AVOID: "No trade — levels for reference",
+};
+
+const TradePlanCard = ({ plan, crypto, riskSettings }: TradePlanCardProps) => {
+  const fmt = (value: number) => `$${value.toLocaleString("en-US", {
+    minimumFractionDigits: plan.decimals,
+    maximumFractionDigits: plan.decimals,
+  })}`;
+  const isLong = plan.direction === "LONG";
+
+  // Re-size from the current settings so edits apply without re-running the analysis
+  const position = riskSettings ? sizePosition(plan.entry.mid, plan.stopLoss, riskSettings) : plan.position;
+
+  return (
+    <div className={cn(
+      "mb-4 rounded-xl border p-4",
+      plan.timing === "AVOID" ? "border-border bg-secondary/30 opacity-80" : "border-border bg-card"
+    )}>
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Crosshair className="h-4 w-4 text-primary" />
+          <span className="text-sm font-semibold text-foreground">Trade Plan</span>
+          <span className={cn(
+            "rounded px-1.5 py-0.5 text-[10px] font-semibold",
+            isLong ? "bg-success/20 text-success" : "bg-destructive/20 text-destructive"
+          )}>
+            {plan.direction}
+          </span>
+        </div>
+        <span className="text-xs text-muted-foreground">{TIMING_LABELS[plan.timing]}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs md:grid-cols-4">
+        <div className="rounded-lg bg-secondary/50 p-2">
+          <div className="text-muted-foreground">Entry</div>
+          <div className="font-semibold text-foreground">{fmt(plan.entry.low)} – {fmt(plan.entry.high)}</div>
+        </div>
+        <div className="rounded-lg bg-secondary/50 p-2">
+          <div className="flex items-center gap-1 text-muted-foreground">
+            <ShieldAlert className="h-3 w-3" /> Stop
+          </div>
+          <div className="font-semibold text-destructive">{fmt(plan.stopLoss)}</div>
+          <div className="text-[10px] text-muted-foreground">
+            {isLong ? "-" : "+"}{plan.riskPercent.toFixed(2)}% • {plan.stopBasis}
+          </div>
+        </div>
+        <div className="rounded-lg bg-secondary/50 p-2">
+          <div className="text-muted-foreground">Blended R:R</div>
+          <div className="font-semibold text-foreground">{blendedRewardRisk(plan).toFixed(1)} : 1</div>
+          <div className="text-[10px] text-muted-foreground">
+            ATR {fmt(plan.atr)}{plan.atrSource === "estimated" ? " (est.)" : ""}
+          </div>
+        </div>
+        <div className="rounded-lg bg-secondary/50 p-2">
+          <div className="flex items-center gap-1 text-muted-foreground">
+            <Wallet className="h-3 w-3" /> Position
+          </div>
+          {position ? (
+            <>
+              <div className="font-semibold text-foreground">
+                {position.units.toPrecision(4)} {crypto.toUpperCase()}
+              </div>
+              <div className="text-[10px] text-muted-foreground">
+                ~${position.notional.toLocaleString("en-US", { maximumFractionDigits: 0 })} • risk ${position.riskAmount.toLocaleString("en-US", { maximumFractionDigits: 2 })}
+                {position.leverage > 1 ? ` • ${position.leverage.toFixed(1)}x` : ""}
+              </div>
+            </>
+          ) : (
+            <div className="text-[10px] text-muted-foreground">Set account size in Settings</div>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1">
+        {plan.takeProfits.map(tp => (
+          <div key={tp.label} className="flex items-center justify-between text-xs">
+            <span className="flex items-center gap-1.5 text-muted-foreground">
+              <Target className="h-3 w-3 text-success" />
+              {tp.label} <span className="text-[10px]">({tp.basis}, close {tp.closePercent}%)</span>
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="font-semibold text-success">{fmt(tp.price)}</span>
+              <span className="w-10 text-right tabular-nums text-muted-foreground">{tp.rewardRisk.toFixed(1)}R</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TradePlanCard;
@@ -1,6 +1,6 @@
 /**
  * VWAPIndicator — Visual display for VWAP aggregation status
- * Shows the aggregation method, confidence level, and source count
+ * Shows the aggregation method, confidence level, and per-source contributions
  */
 
 import { cn } from "@/lib/utils";
@@ -11,12 +11,14 @@ import {
   TooltipTrigger 
 } from "@/components/ui/tooltip";
 import { Activity, AlertTriangle, CheckCircle2, Layers } from "lucide-react";
+import type { SourceContribution } from "@/lib/vwap-aggregator";
 
 interface VWAPIndicatorProps {
   method: 'vwap' | 'median' | 'single';
   confidence: number;
   sourcesUsed: string[];
   outliersFiltered?: number;
+  breakdown?: SourceContribution[];
   className?: string;
   compact?: boolean;
 }
@@ -26,6 +28,7 @@ export function VWAPIndicator({
   confidence,
   sourcesUsed,
   outliersFiltered = 0,
+  breakdown = [],
   className,
   compact = false,
 }: VWAPIndicatorProps) {
@@ -60,6 +63,13 @@ export function VWAPIndicator({
     }
   };
 
+  const formatVolume = (volume: number) => {
+    if (volume <= 0) return "—";
+    if (volume >= 1e9) return `$${(volume / 1e9).toFixed(1)}B`;
+    if (volume >= 1e6) return `$${(volume / 1e6).toFixed(1)}M`;
+    return `$${(volume / 1e3).toFixed(0)}K`;
+  };
+
   const methodInfo = getMethodInfo();
   const confidencePercent = Math.round(confidence * 100);
 
@@ -81,10 +91,29 @@ export function VWAPIndicator({
             <div className="space-y-1.5">
               <div className="font-semibold">{methodInfo.label} Aggregation</div>
               <p className="text-xs text-muted-foreground">{methodInfo.description}</p>
-              <div className="text-xs">
-                <span className="text-muted-foreground">Sources:</span>{' '}
-                {sourcesUsed.join(', ') || 'None'}
-              </div>
+              {breakdown.length > 0 ? (
+                <div className="space-y-0.5">
+                  {breakdown.map(item => (
+                    <div
+                      key={item.source}
+                      className={cn(
+                        "text-[10px] flex items-center justify-between gap-3 tabular-nums",
+                        item.outlier && "text-warning line-through"
+                      )}
+                    >
+                      <span>{item.source}</span>
+                      <span className="text-muted-foreground">
+                        {formatVolume(item.volume)} · {Math.round(item.share * 100)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs">
+                  <span className="text-muted-foreground">Sources:</span>{' '}
+                  {sourcesUsed.join(', ') || 'None'}
+                </div>
+              )}
               {outliersFiltered > 0 && (
                 <div className="text-xs text-warning flex items-center gap-1">
                   <AlertTriangle className="h-3 w-3" />
@@ -154,6 +183,32 @@ export function VWAPIndicator({
                 </div>
               )}
             </div>
+
+            {breakdown.length > 0 && (
+              <div className="pt-1 border-t border-border/50 space-y-0.5">
+                <div className="text-xs text-muted-foreground grid grid-cols-[1fr_auto_auto_auto] gap-x-2">
+                  <span>Source</span>
+                  <span className="text-right">24h Vol</span>
+                  <span className="text-right">Dev</span>
+                  <span className="text-right">Share</span>
+                </div>
+                {breakdown.map(item => (
+                  <div
+                    key={item.source}
+                    className={cn(
+                      "text-[10px] grid grid-cols-[1fr_auto_auto_auto] gap-x-2 tabular-nums",
+                      item.outlier && "text-warning line-through"
+                    )}
+                    title={`Weight ${Math.round(item.weight * 100)}%${item.volume > 0 ? "" : " · no volume reported, reliability floor share"}`}
+                  >
+                    <span>{item.source}</span>
+                    <span className="text-right">{formatVolume(item.volume)}</span>
+                    <span className="text-right">{item.deviation >= 0 ? "+" : ""}{item.deviation.toFixed(3)}%</span>
+                    <span className="text-right">{Math.round(item.share * 100)}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
             
             <div className="pt-1 border-t border-border/50">
               <div className="text-xs flex items-center justify-between">
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Brain, Download, Upload, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { neuralStateStore } from "@/lib/neuralStatePersistence";
+import { NeuralStateExport, PersistedNeuralState } from "@/lib/zikalyze-brain";
+
+const downloadJSON = (data: NeuralStateExport, filename: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const NeuralModelSettings = () => {
+  const { toast } = useToast();
+  const [records, setRecords] = useState<PersistedNeuralState[]>(() => neuralStateStore.list());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The store notifies on every learning step, import and reset
+  useEffect(() => {
+    setRecords(neuralStateStore.list());
+    return neuralStateStore.subscribe(() => setRecords(neuralStateStore.list()));
+  }, []);
+
+  const handleExport = (symbol?: string) => {
+    const data = neuralStateStore.exportStates(symbol ? [symbol] : undefined);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadJSON(data, `zikalyze-neural-${symbol ?? "all"}-${date}.json`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const symbols = await neuralStateStore.importStates(await file.text());
+      toast({
+        title: "Neural model imported",
+        description: `Restored ${symbols.join(", ")}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReset = async (symbol: string) => {
+    try {
+      await neuralStateStore.reset(symbol);
+      toast({
+        title: "Neural model reset",
+        description: `${symbol} will start learning from scratch.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Could not reset the model",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="mb-3 flex items-center justify-between">
+          <h4 className="text-md font-semibold text-foreground flex items-center gap-2">
+            <Brain className="h-4 w-4" />
+            Neural Model
+          </h4>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={records.length === 0}
+              onClick={() => handleExport()}
+            >
+              <Download className="h-4 w-4" />
+              Export all
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          What the AI has learned per coin is saved on this device and carries over between sessions
+        </p>
+
+        {records.length === 0 ? (
+          <div className="p-4 rounded-xl bg-secondary/50 text-sm text-muted-foreground">
+            No learned state yet — run an AI analysis to start training.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {records.map((record) => (
+              <div key={record.symbol} className="flex items-center justify-between p-4 rounded-xl bg-secondary/50">
+                <div>
+                  <div className="font-medium text-foreground">{record.symbol}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {record.state.trainingSteps} training steps • {record.state.sequenceBuffer.length} samples • updated{" "}
+                    {formatDistanceToNow(new Date(record.updated_at), { addSuffix: true })} • schema v{record.schemaVersion}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => handleExport(record.symbol)} title="Export">
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" title="Reset">
+                        <RotateCcw className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Reset {record.symbol} model?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This deletes {record.state.trainingSteps} training steps of learned state for {record.symbol}. Export it first if you may want it back.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleReset(record.symbol)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Reset
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NeuralModelSettings;
@@ -0,0 +1,127 @@
+import { useState, useEffect } from "react";
+import { Wallet, Percent, Save, RotateCcw } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useSettings } from "@/hooks/useSettings";
+import { useToast } from "@/hooks/use-toast";
+import { RiskSettings as RiskSettingsValues } from "@/lib/zikalyze-brain/types";
+import { DEFAULT_RISK_SETTINGS } from "@/lib/zikalyze-brain/trade-plan";
+
+const RiskSettings = () => {
+  const { settings, saveSettings } = useSettings();
+  const { toast } = useToast();
+
+  // Local state for editing
+  const [localRisk, setLocalRisk] = useState<RiskSettingsValues>(settings.risk);
+
+  // Sync local state when settings load
+  useEffect(() => {
+    setLocalRisk(settings.risk);
+  }, [settings.risk]);
+
+  const hasChanges = JSON.stringify(localRisk) !== JSON.stringify(settings.risk);
+  const isValid = localRisk.accountSize > 0 && localRisk.riskPercent > 0;
+  const riskAmount = localRisk.accountSize * (localRisk.riskPercent / 100);
+
+  const handleSave = () => {
+    saveSettings({ risk: localRisk });
+    toast({
+      title: "Risk settings saved",
+      description: "New AI analyses will size positions with these values.",
+    });
+  };
+
+  const handleReset = () => {
+    setLocalRisk(DEFAULT_RISK_SETTINGS);
+    saveSettings({ risk: DEFAULT_RISK_SETTINGS });
+    toast({
+      title: "Settings reset",
+      description: "Risk settings restored to defaults.",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-md font-semibold text-foreground mb-3 flex items-center gap-2">
+          <Wallet className="h-4 w-4" />
+          Position Sizing
+        </h4>
+        <p className="text-sm text-muted-foreground mb-4">
+          Used by the AI trade plan to suggest a position size from the stop-loss distance
+        </p>
+
+        <div className="space-y-6 p-4 rounded-xl bg-secondary/50">
+          {/* Account Size */}
+          <div className="space-y-3">
+            <Label htmlFor="account-size" className="flex items-center gap-2">
+              <Wallet className="h-4 w-4 text-primary" />
+              Account Size (USD)
+            </Label>
+            <Input
+              id="account-size"
+              type="number"
+              min={0}
+              step={100}
+              value={Number.isFinite(localRisk.accountSize) ? localRisk.accountSize : ""}
+              onChange={(e) => setLocalRisk(prev => ({ ...prev, accountSize: parseFloat(e.target.value) }))}
+              className="bg-background"
+            />
+          </div>
+
+          {/* Risk per Trade */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-2">
+                <Percent className="h-4 w-4 text-warning" />
+                Risk per Trade
+              </Label>
+              <span className="text-sm font-medium text-primary">
+                {localRisk.riskPercent}%
+              </span>
+            </div>
+            <Slider
+              value={[localRisk.riskPercent]}
+              onValueChange={(v) => setLocalRisk(prev => ({ ...prev, riskPercent: v[0] }))}
+              min={0.25}
+              max={5}
+              step={0.25}
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground">
+              {isValid
+                ? `A stopped-out trade loses about $${riskAmount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`
+                : "Enter an account size above zero"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Action Buttons */}
+      <div className="flex items-center justify-between pt-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleReset}
+          className="gap-2"
+        >
+          <RotateCcw className="h-4 w-4" />
+          Reset to Defaults
+        </Button>
+
+        <Button
+          onClick={handleSave}
+          disabled={!hasChanges || !isValid}
+          className="gap-2"
+        >
+          <Save className="h-4 w-4" />
+          Save Changes
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RiskSettings;
@@ -9,6 +9,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import * as storage from '@/lib/clientStorage';
 import { queueSync, STORES } from '@/lib/clientStorage';
+import type { AnalysisOutcomes, AnalysisSnapshot, GradingPlan } from '@/lib/zikalyze-brain/types';
 import { 
   encryptAnalysisRecord, 
   decryptAnalysisRecords,
@@ -22,13 +23,55 @@ export interface AnalysisRecord {
   change_24h: number;
   analysis_text: string;
   confidence: number | null;
+  raw_confidence?: number | null;
   bias: string | null;
   created_at: string;
   user_id: string | null;
   was_correct: boolean | null;
   feedback_at: string | null;
+  feedback_source?: 'user' | 'auto';
+  outcomes?: AnalysisOutcomes;
+  snapshot?: AnalysisSnapshot | null; // Structured verdict for comparisons; absent on older records
 }
 
+// Fired after any save/delete so every mounted history (analyzer, comparison) refreshes
+const HISTORY_CHANGED_EVENT = 'analysisHistoryChanged';
+
+const parseSnapshot = (json: string | null | undefined): AnalysisSnapshot | null => {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as AnalysisSnapshot;
+  } catch {
+    return null;
+  }
+};
+
+// Keep the signed-in user's records (and anonymous ones), then decrypt
+const decryptOwnRecords = async (records: storage.ClientAnalysisRecord[], userId: string | null): Promise<AnalysisRecord[]> => {
+  const filtered = userId
+    ? records.filter(r => r.user_id === userId || r.user_id === null)
+    : records.filter(r => r.user_id === null);
+
+  const decryptedRecords = await decryptAnalysisRecords(filtered);
+  return decryptedRecords.map(r => ({
+    id: r.id,
+    symbol: r.symbol,
+    price: r.price,
+    change_24h: r.change_24h,
+    analysis_text: r.analysis_text,
+    confidence: r.confidence,
+    raw_confidence: r.raw_confidence ?? null,
+    bias: r.bias,
+    created_at: r.created_at,
+    user_id: r.user_id,
+    was_correct: r.was_correct,
+    feedback_at: r.feedback_at,
+    feedback_source: r.feedback_source,
+    outcomes: r.outcomes,
+    snapshot: parseSnapshot(r.snapshot),
+  }));
+};
+
 export interface LearningStats {
   symbol: string;
   total_feedback: number;
@@ -39,7 +82,7 @@ export interface LearningStats {
   avg_confidence_when_incorrect: number | null;
 }
 
-export const useAnalysisHistoryClient = (symbol: string) => {
+export const useAnalysisHistoryClient = (symbol: string, limit = 10) => {
   const [history, setHistory] = useState<AnalysisRecord[]>([]);
   const [learningStats, setLearningStats] = useState<LearningStats | null>(null);
   const [loading, setLoading] = useState(false);
@@ -54,33 +97,20 @@ export const useAnalysisHistoryClient = (symbol: string) => {
 
     setLoading(true);
     try {
-      const localHistory = await storage.getAnalysisHistory(symbol, 10);
-      // Filter by user if logged in
-      const filtered = user
-        ? localHistory.filter(r => r.user_id === user.id || r.user_id === null)
-        : localHistory.filter(r => r.user_id === null);
-
-      // Decrypt all records
-      const decryptedRecords = await decryptAnalysisRecords(filtered);
-
-      setHistory(decryptedRecords.map(r => ({
-        id: r.id,
-        symbol: r.symbol,
-        price: r.price,
-        change_24h: r.change_24h,
-        analysis_text: r.analysis_text,
-        confidence: r.confidence,
-        bias: r.bias,
-        created_at: r.created_at,
-        user_id: r.user_id,
-        was_correct: r.was_correct,
-        feedback_at: r.feedback_at,
-      })));
+      const localHistory = await storage.getAnalysisHistory(symbol, limit);
+      setHistory(await decryptOwnRecords(localHistory, user?.id ?? null));
     } catch (err) {
       console.error('[AnalysisHistory] Error fetching history:', err);
     } finally {
       setLoading(false);
     }
+  }, [symbol, user, limit]);
+
+  // Every saved analysis for the symbol, not just the displayed `limit` — used for exports
+  const loadFullHistory = useCallback(async (): Promise<AnalysisRecord[]> => {
+    if (!symbol) return [];
+    const allHistory = await storage.getAnalysisHistory(symbol, Number.MAX_SAFE_INTEGER);
+    return decryptOwnRecords(allHistory, user?.id ?? null);
   }, [symbol, user]);
 
   // Calculate learning stats from local data
@@ -129,18 +159,30 @@ export const useAnalysisHistoryClient = (symbol: string) => {
     calculateLearningStats();
   }, [fetchHistory, calculateLearningStats]);
 
+  useEffect(() => {
+    const handleChange = () => { fetchHistory(); };
+    window.addEventListener(HISTORY_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(HISTORY_CHANGED_EVENT, handleChange);
+  }, [fetchHistory]);
+
   // Save a new analysis with E2E encryption
   const saveAnalysis = useCallback(async (
     analysisText: string,
     price: number,
     change: number,
     confidence?: number,
-    bias?: string
+    bias?: string,
+    rawConfidence?: number,
+    gradingPlan?: GradingPlan,
+    snapshot?: AnalysisSnapshot
   ): Promise<string | null> => {
     try {
       const roundedConfidence = confidence !== undefined && confidence !== null
         ? Math.round(confidence)
         : null;
+      const roundedRawConfidence = rawConfidence !== undefined && rawConfidence !== null
+        ? Math.round(rawConfidence)
+        : roundedConfidence;
 
       const plaintextRecord: storage.ClientAnalysisRecord = {
         id: storage.generateId(),
@@ -149,11 +191,14 @@ export const useAnalysisHistoryClient = (symbol: string) => {
         change_24h: change,
         analysis_text: analysisText,
         confidence: roundedConfidence,
+        raw_confidence: roundedRawConfidence,
         bias: bias || null,
         created_at: new Date().toISOString(),
         user_id: user?.id || null,
         was_correct: null,
         feedback_at: null,
+        grading_plan: gradingPlan ? JSON.stringify(gradingPlan) : null,
+        snapshot: snapshot ? JSON.stringify(snapshot) : null,
         synced: false,
       };
 
@@ -174,6 +219,7 @@ export const useAnalysisHistoryClient = (symbol: string) => {
 
       // Refresh history
       await fetchHistory();
+      window.dispatchEvent(new Event(HISTORY_CHANGED_EVENT));
 
       console.log('[AnalysisHistory] Saved E2E encrypted analysis');
       return plaintextRecord.id;
@@ -195,6 +241,7 @@ export const useAnalysisHistoryClient = (symbol: string) => {
           // Re-encrypt the record with updated feedback
           const encryptedRecord = await encryptAnalysisRecord({
             ...record,
+            snapshot: record.snapshot ? JSON.stringify(record.snapshot) : null,
             was_correct: wasCorrect,
             feedback_at: new Date().toISOString(),
           });
@@ -234,6 +281,7 @@ export const useAnalysisHistoryClient = (symbol: string) => {
 
       await fetchHistory();
       await calculateLearningStats();
+      window.dispatchEvent(new Event(HISTORY_CHANGED_EVENT));
     } catch (err) {
       console.error('[AnalysisHistory] Error deleting analysis:', err);
     }
@@ -260,6 +308,7 @@ export const useAnalysisHistoryClient = (symbol: string) => {
 
       setHistory([]);
       setLearningStats(null);
+      window.dispatchEvent(new Event(HISTORY_CHANGED_EVENT));
     } catch (err) {
       console.error('[AnalysisHistory] Error clearing history:', err);
     }
@@ -273,6 +322,7 @@ export const useAnalysisHistoryClient = (symbol: string) => {
     submitFeedback,
     deleteAnalysis,
     clearAllHistory,
+    loadFullHistory,
     refreshHistory: fetchHistory,
     refreshStats: calculateLearningStats,
   };
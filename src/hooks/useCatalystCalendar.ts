@@ -0,0 +1,59 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗓️ useCatalystCalendar — Read, edit and import the catalyst calendar
+// ═══════════════════════════════════════════════════════════════════════════════
+// Thin React binding over catalystCalendarPersistence. Edits go straight to the
+// calendar the brain reads, so the next analysis already sees them.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getCatalystEvents,
+  subscribeCatalystEvents,
+  saveCatalystEvent,
+  deleteCatalystEvent,
+  importCatalystEvents,
+  restoreBuiltInCatalysts,
+} from '@/lib/catalystCalendarPersistence';
+import {
+  CatalystEvent,
+  CatalystImportDefaults,
+  CatalystImportResult,
+  parseCatalystJSON,
+  parseICS,
+  serializeCatalystEvents,
+} from '@/lib/zikalyze-brain';
+
+export interface CatalystFileImport extends CatalystImportResult {
+  added: number;
+  updated: number;
+}
+
+export const useCatalystCalendar = () => {
+  const [events, setEvents] = useState<CatalystEvent[]>(getCatalystEvents);
+
+  useEffect(() => subscribeCatalystEvents(setEvents), []);
+
+  // .ics / .json by extension, falling back to sniffing the content
+  const importFile = useCallback(async (file: File, defaults: CatalystImportDefaults = {}): Promise<CatalystFileImport> => {
+    const text = await file.text();
+    const isICS = /\.ics$/i.test(file.name) || text.trimStart().toUpperCase().startsWith('BEGIN:VCALENDAR');
+    const parsed = isICS
+      ? parseICS(text, Date.now(), { ...defaults, feed: file.name })
+      : parseCatalystJSON(text, Date.now(), { ...defaults, feed: file.name });
+    const { added, updated } = parsed.events.length > 0
+      ? await importCatalystEvents(parsed.events)
+      : { added: 0, updated: 0 };
+    return { ...parsed, added, updated };
+  }, []);
+
+  const exportJSON = useCallback((): string => serializeCatalystEvents(events), [events]);
+
+  return {
+    events,
+    saveEvent: saveCatalystEvent,
+    deleteEvent: deleteCatalystEvent,
+    importFile,
+    exportJSON,
+    restoreBuiltIns: restoreBuiltInCatalysts,
+  };
+};
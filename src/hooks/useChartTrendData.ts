@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useDecentralizedOHLC, OHLCCandle } from './useDecentralizedOHLC';
+import { createIndicatorTracker, IndicatorSnapshot, IndicatorTracker } from '@/lib/zikalyze-brain/indicators';
 
 export interface CandleData {
   timestamp: number;
@@ -33,6 +34,7 @@ export interface ChartTrendData {
   lastUpdated: number;
   isLive: boolean;
   source: string;
+  indicators: IndicatorSnapshot;
 }
 
 // Convert OHLC candle to CandleData format
@@ -201,6 +203,7 @@ export function useChartTrendData(symbol: string): ChartTrendData | null {
   const [data, setData] = useState<ChartTrendData | null>(null);
   const mountedRef = useRef(true);
   const lastProcessedRef = useRef<string>("");
+  const indicatorTrackerRef = useRef<IndicatorTracker>(createIndicatorTracker());
   
   // 🌐 100% DECENTRALIZED: OHLC from oracle ticks only
   const ohlc = useDecentralizedOHLC(symbol);
@@ -239,6 +242,9 @@ export function useChartTrendData(symbol: string): ChartTrendData | null {
     const closes = candles.map(c => c.close);
     const swings = detectSwingPoints(candles);
     
+    // Streams only the newly completed candles, then previews the forming one
+    const indicators = indicatorTrackerRef.current.sync(ohlc.getCompletedCandles('1h'), ohlc.currentCandles['1h']);
+    
     setData({
       candles,
       trend24h: analyzeTrend(candles),
@@ -255,12 +261,14 @@ export function useChartTrendData(symbol: string): ChartTrendData | null {
       lastUpdated: Date.now(),
       isLive,
       source,
+      indicators,
     });
   }, [symbol, ticksReceived, isLive, primarySource, ohlc]);
   
   // Reset when symbol changes
   useEffect(() => {
     lastProcessedRef.current = "";
+    indicatorTrackerRef.current.reset();
     setData(null);
   }, [symbol]);
   
@@ -1,11 +1,13 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🧠 useClientSideAnalysis — React Hook for Client-Side AI Brain
 // ═══════════════════════════════════════════════════════════════════════════════
-// Runs the Zikalyze AI Brain 100% in the browser — fully trustless, zero server
+// Runs the Zikalyze AI Brain 100% in the browser — fully trustless, zero server.
+// The brain runs in a Web Worker (src/lib/brainClient.ts) and reports each step.
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { useState, useCallback } from 'react';
-import { runClientSideAnalysis, AnalysisInput, AnalysisResult } from '@/lib/zikalyze-brain';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { analyzeInBrain } from '@/lib/brainClient';
+import { AnalysisInput, AnalysisProgress, AnalysisResult } from '@/lib/zikalyze-brain';
 
 interface UseClientSideAnalysisOptions {
   language?: string;
@@ -15,7 +17,9 @@ interface UseClientSideAnalysisReturn {
   analysis: AnalysisResult | null;
   isAnalyzing: boolean;
   error: string | null;
+  progress: AnalysisProgress | null;
   runAnalysis: (input: AnalysisInput) => Promise<AnalysisResult>;
+  cancelAnalysis: () => void;
   clearAnalysis: () => void;
 }
 
@@ -27,32 +31,45 @@ export function useClientSideAnalysis(
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const runAnalysis = useCallback(async (input: AnalysisInput): Promise<AnalysisResult> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
     setIsAnalyzing(true);
     setError(null);
+    setProgress(null);
 
     try {
-      // Simulate brief processing time for UX
-      await new Promise(resolve => setTimeout(resolve, 300));
-
       // Run the analysis entirely client-side
-      const result = runClientSideAnalysis({
+      const result = await analyzeInBrain({
         ...input,
         language
-      });
+      }, { signal: controller.signal, onProgress: setProgress });
 
       setAnalysis(result);
       return result;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Analysis failed';
-      setError(errorMessage);
+      if (controllerRef.current === controller) setError(errorMessage);
       throw err;
     } finally {
-      setIsAnalyzing(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsAnalyzing(false);
+        setProgress(null);
+      }
     }
   }, [language]);
 
+  const cancelAnalysis = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
   const clearAnalysis = useCallback(() => {
     setAnalysis(null);
     setError(null);
@@ -62,7 +79,9 @@ export function useClientSideAnalysis(
     analysis,
     isAnalyzing,
     error,
+    progress,
     runAnalysis,
+    cancelAnalysis,
     clearAnalysis
   };
 }
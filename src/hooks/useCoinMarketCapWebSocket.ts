@@ -1,12 +1,13 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📡 CoinMarketCap WebSocket Integration for Real-Time Metadata & Images
 // ═══════════════════════════════════════════════════════════════════════════════
-// Connects to CoinMarketCap's public data endpoints for verified metadata
+// Reads the CoinMarketCap price-feed provider for verified metadata
 // Provides fallback image URLs and real-time verification
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { zkStorage } from '@/lib/zkCrypto';
+import { CMC_ID_MAP, fetchPriceFeedMetadata, getCMCImageUrl } from '@/lib/price-feeds';
 
 export interface CMCMetadata {
   id: number;
@@ -34,46 +35,9 @@ interface CMCWebSocketState {
   error: string | null;
 }
 
-// CoinMarketCap image CDN (publicly accessible)
-const CMC_IMAGE_CDN = 'https://s2.coinmarketcap.com/static/img/coins/128x128';
-const CMC_IMAGE_CDN_64 = 'https://s2.coinmarketcap.com/static/img/coins/64x64';
-const CMC_IMAGE_CDN_32 = 'https://s2.coinmarketcap.com/static/img/coins/32x32';
-
-// CMC ID mapping for top 100 cryptocurrencies (verified IDs)
-const CMC_ID_MAP: Record<string, number> = {
-  BTC: 1, ETH: 1027, BNB: 1839, SOL: 5426, XRP: 52,
-  ADA: 2010, DOGE: 74, TRX: 1958, AVAX: 5805, TON: 11419,
-  LINK: 1975, DOT: 6636, MATIC: 3890, LTC: 2, BCH: 1831,
-  SHIB: 5994, DAI: 4943, ATOM: 3794, UNI: 7083, XLM: 512,
-  ETC: 1321, XMR: 328, ICP: 8916, NEAR: 6535, FIL: 2280,
-  APT: 21794, HBAR: 4642, ARB: 11841, VET: 3077, OP: 11840,
-  MKR: 1518, CRO: 3635, KAS: 20396, AAVE: 7278, GRT: 6719,
-  RNDR: 5690, INJ: 7226, ALGO: 4030, STX: 4847, FTM: 3513,
-  SUI: 20947, THETA: 2416, RUNE: 4157, LDO: 8000, SAND: 6210,
-  MANA: 1966, AXS: 6783, FET: 3773, EGLD: 6892, FLOW: 4558,
-  EOS: 1765, CHZ: 4066, CAKE: 7186, XTZ: 2011, KAVA: 4846,
-  NEO: 1376, IOTA: 1720, GALA: 7080, SNX: 2586, ZEC: 1437,
-  KCS: 2087, CFX: 7334, MINA: 8646, WOO: 7501, ROSE: 7653,
-  ZIL: 2469, DYDX: 11156, COMP: 5692, ENJ: 2130, FXS: 6953,
-  GMX: 11857, RPL: 2943, CRV: 6538, DASH: 131, ONE: 3945,
-  BAT: 1697, QTUM: 1684, CELO: 5567, ZRX: 1896, OCEAN: 3911,
-  AUDIO: 7455, ANKR: 3783, ICX: 2099, IOTX: 2777, STORJ: 1772,
-  SKL: 5691, ONT: 2566, JST: 5488, LUNC: 4172, GLMR: 6836,
-  KDA: 5647, RVN: 2577, SC: 1042, WAVES: 1274, XEM: 873,
-  BTT: 16086, LUNA: 20314, AR: 5632, AGIX: 2424, WLD: 13502,
-  // Stablecoins (for reference)
-  USDT: 825, USDC: 3408, BUSD: 4687, TUSD: 2563,
-};
-
 const CMC_CACHE_KEY = 'zk_cmc_metadata_v2';
 const CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours
 
-// Get CMC image URL by ID
-export function getCMCImageUrl(cmcId: number, size: 32 | 64 | 128 = 64): string {
-  const cdn = size === 32 ? CMC_IMAGE_CDN_32 : size === 128 ? CMC_IMAGE_CDN : CMC_IMAGE_CDN_64;
-  return `${cdn}/${cmcId}.png`;
-}
-
 // Get CMC image URL by symbol
 export function getCMCImageBySymbol(symbol: string, size: 32 | 64 | 128 = 64): string | null {
   const upperSymbol = symbol.toUpperCase().replace(/USD$/, '');
@@ -146,20 +110,19 @@ export function useCoinMarketCapWebSocket() {
     return false;
   }, []);
   
-  // Build metadata from CMC ID mapping
-  const buildMetadataFromIds = useCallback(() => {
-    Object.entries(CMC_ID_MAP).forEach(([symbol, id]) => {
-      if (!metadataRef.current.has(symbol)) {
-        const meta: CMCMetadata = {
-          id,
-          name: symbol, // Will be updated from API if available
-          symbol,
-          slug: symbol.toLowerCase(),
-          logo: getCMCImageUrl(id, 64),
-          lastUpdated: Date.now(),
-        };
-        metadataRef.current.set(symbol, meta);
-      }
+  // Build metadata from the CoinMarketCap provider's ID mapping
+  const buildMetadataFromIds = useCallback(async () => {
+    const fetched = await fetchPriceFeedMetadata(Object.keys(CMC_ID_MAP));
+    fetched.forEach(entry => {
+      if (entry.source !== 'CoinMarketCap' || metadataRef.current.has(entry.symbol)) return;
+      metadataRef.current.set(entry.symbol, {
+        id: Number(entry.assetId),
+        name: entry.name, // Will be updated from API if available
+        symbol: entry.symbol,
+        slug: entry.slug,
+        logo: entry.logo,
+        lastUpdated: entry.lastUpdated,
+      });
     });
     
     setState(prev => ({
@@ -192,7 +155,7 @@ export function useCoinMarketCapWebSocket() {
     try {
       // CoinMarketCap widget API is public and doesn't require API key
       // We use the pre-mapped IDs for reliable image URLs
-      buildMetadataFromIds();
+      await buildMetadataFromIds();
       await saveToCache();
       
       setState(prev => ({
@@ -275,4 +238,4 @@ export function useCoinMarketCapWebSocket() {
 }
 
 // Export utilities for direct use
-export { CMC_ID_MAP };
+export { CMC_ID_MAP, getCMCImageUrl };
@@ -0,0 +1,85 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 useConfidenceCalibration — Fit confidence to graded analysis history
+// ═══════════════════════════════════════════════════════════════════════════════
+// Reads every analysis with was_correct feedback from IndexedDB and fits the
+// brain's calibration model for the symbol (global fallback). Only the plaintext
+// confidence and feedback fields are read, so nothing needs decrypting.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import * as storage from '@/lib/clientStorage';
+import {
+  CalibrationModel,
+  CalibrationSample,
+  ReliabilityBin,
+  selectCalibrationModel,
+  buildReliabilityBins,
+  expectedCalibrationError,
+} from '@/lib/zikalyze-brain';
+
+export interface ConfidenceCalibration {
+  model: CalibrationModel | null;
+  bins: ReliabilityBin[];        // Graded calls in the model's scope
+  rawError: number | null;       // Expected calibration error before, in points
+  calibratedError: number | null; // ...and after calibration
+  symbolSamples: number;
+  totalSamples: number;
+}
+
+const EMPTY: ConfidenceCalibration = {
+  model: null,
+  bins: [],
+  rawError: null,
+  calibratedError: null,
+  symbolSamples: 0,
+  totalSamples: 0,
+};
+
+export const useConfidenceCalibration = (symbol: string) => {
+  const [calibration, setCalibration] = useState<ConfidenceCalibration>(EMPTY);
+  const { user } = useAuth();
+
+  const refresh = useCallback(async () => {
+    if (!symbol) {
+      setCalibration(EMPTY);
+      return;
+    }
+
+    try {
+      const records = await storage.getAllAnalysisHistory();
+      const samples: CalibrationSample[] = records
+        .filter(r => (user ? r.user_id === user.id || r.user_id === null : r.user_id === null))
+        .filter(r => r.was_correct !== null && (r.raw_confidence ?? r.confidence) !== null)
+        .map(r => ({
+          symbol: r.symbol,
+          // Records from before calibration only have the raw number
+          confidence: r.raw_confidence ?? r.confidence,
+          correct: r.was_correct,
+        }));
+
+      const model = selectCalibrationModel(samples, symbol, Date.now());
+      const inScope = model?.scope === 'symbol'
+        ? samples.filter(s => s.symbol.toUpperCase() === symbol.toUpperCase())
+        : samples;
+      const bins = buildReliabilityBins(inScope, model);
+
+      setCalibration({
+        model,
+        bins,
+        rawError: expectedCalibrationError(bins),
+        calibratedError: model ? expectedCalibrationError(bins, true) : null,
+        symbolSamples: samples.filter(s => s.symbol.toUpperCase() === symbol.toUpperCase()).length,
+        totalSamples: samples.length,
+      });
+    } catch (err) {
+      console.error('[Calibration] Error fitting calibration:', err);
+    }
+  }, [symbol, user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { ...calibration, refresh };
+};
@@ -2,7 +2,7 @@
 // 📊 useCryptoPrices — Real-Time WebSocket + Decentralized Oracle Price Feed
 // ═══════════════════════════════════════════════════════════════════════════════
 // PRIMARY: WebSocket streaming for sub-second updates on all 100 cryptos
-// FALLBACK: Pyth/DIA/Redstone oracles for coverage
+// FALLBACK: Pyth/DeFiLlama/DIA snapshots via the shared price-feed store
 // ZK-encrypted local storage for privacy
 // ═══════════════════════════════════════════════════════════════════════════════
 
@@ -15,7 +15,9 @@ import {
   getTokenImageUrl,
   type TokenMetadata 
 } from "@/lib/decentralizedMetadata";
-import { safeFetch } from "@/lib/fetchWithRetry";
+import { fetchPriceSnapshot } from "@/lib/price-feeds";
+import { recordVolumeSnapshot } from "@/lib/volumeHistoryPersistence";
+import { recordPriceSnapshot } from "@/lib/priceHistoryPersistence";
 
 export interface CryptoPrice {
   id: string;
@@ -27,6 +29,7 @@ export interface CryptoPrice {
   high_24h: number;
   low_24h: number;
   total_volume: number;
+  volume_estimated?: boolean; // total_volume is a market-cap estimate, not traded volume
   market_cap: number;
   market_cap_rank: number;
   circulating_supply: number;
@@ -34,120 +37,6 @@ export interface CryptoPrice {
   source?: string;
 }
 
-// DeFiLlama token mappings (decentralized price API) - Top 100 coverage
-const DEFI_LLAMA_TOKENS: Record<string, string> = {
-  // Top 10
-  BTC: "coingecko:bitcoin",
-  ETH: "coingecko:ethereum",
-  BNB: "coingecko:binancecoin",
-  SOL: "coingecko:solana",
-  XRP: "coingecko:ripple",
-  ADA: "coingecko:cardano",
-  DOGE: "coingecko:dogecoin",
-  TRX: "coingecko:tron",
-  AVAX: "coingecko:avalanche-2",
-  TON: "coingecko:the-open-network",
-  // 11-20
-  LINK: "coingecko:chainlink",
-  DOT: "coingecko:polkadot",
-  MATIC: "coingecko:matic-network",
-  LTC: "coingecko:litecoin",
-  BCH: "coingecko:bitcoin-cash",
-  SHIB: "coingecko:shiba-inu",
-  DAI: "coingecko:dai",
-  ATOM: "coingecko:cosmos",
-  UNI: "coingecko:uniswap",
-  XLM: "coingecko:stellar",
-  // 21-30
-  ETC: "coingecko:ethereum-classic",
-  XMR: "coingecko:monero",
-  ICP: "coingecko:internet-computer",
-  NEAR: "coingecko:near",
-  FIL: "coingecko:filecoin",
-  APT: "coingecko:aptos",
-  HBAR: "coingecko:hedera-hashgraph",
-  ARB: "coingecko:arbitrum",
-  VET: "coingecko:vechain",
-  OP: "coingecko:optimism",
-  // 31-40
-  MKR: "coingecko:maker",
-  CRO: "coingecko:crypto-com-chain",
-  KAS: "coingecko:kaspa",
-  AAVE: "coingecko:aave",
-  GRT: "coingecko:the-graph",
-  RNDR: "coingecko:render-token",
-  INJ: "coingecko:injective-protocol",
-  ALGO: "coingecko:algorand",
-  STX: "coingecko:blockstack",
-  FTM: "coingecko:fantom",
-  // 41-50
-  SUI: "coingecko:sui",
-  THETA: "coingecko:theta-token",
-  RUNE: "coingecko:thorchain",
-  LDO: "coingecko:lido-dao",
-  SAND: "coingecko:the-sandbox",
-  MANA: "coingecko:decentraland",
-  AXS: "coingecko:axie-infinity",
-  FET: "coingecko:fetch-ai",
-  EGLD: "coingecko:elrond-erd-2",
-  FLOW: "coingecko:flow",
-  // 51-60
-  EOS: "coingecko:eos",
-  CHZ: "coingecko:chiliz",
-  CAKE: "coingecko:pancakeswap-token",
-  XTZ: "coingecko:tezos",
-  KAVA: "coingecko:kava",
-  NEO: "coingecko:neo",
-  IOTA: "coingecko:iota",
-  GALA: "coingecko:gala",
-  SNX: "coingecko:havven",
-  ZEC: "coingecko:zcash",
-  // 61-70
-  KCS: "coingecko:kucoin-shares",
-  CFX: "coingecko:conflux-token",
-  MINA: "coingecko:mina-protocol",
-  WOO: "coingecko:woo-network",
-  ROSE: "coingecko:oasis-network",
-  ZIL: "coingecko:zilliqa",
-  DYDX: "coingecko:dydx",
-  COMP: "coingecko:compound-governance-token",
-  ENJ: "coingecko:enjincoin",
-  FXS: "coingecko:frax-share",
-  // 71-80
-  GMX: "coingecko:gmx",
-  RPL: "coingecko:rocket-pool",
-  CRV: "coingecko:curve-dao-token",
-  DASH: "coingecko:dash",
-  ONE: "coingecko:harmony",
-  BAT: "coingecko:basic-attention-token",
-  QTUM: "coingecko:qtum",
-  CELO: "coingecko:celo",
-  ZRX: "coingecko:0x",
-  OCEAN: "coingecko:ocean-protocol",
-  // 81-90
-  AUDIO: "coingecko:audius",
-  ANKR: "coingecko:ankr",
-  ICX: "coingecko:icon",
-  IOTX: "coingecko:iotex",
-  STORJ: "coingecko:storj",
-  SKL: "coingecko:skale",
-  ONT: "coingecko:ontology",
-  JST: "coingecko:just",
-  LUNC: "coingecko:terra-luna",
-  GLMR: "coingecko:moonbeam",
-  // 91-100
-  KDA: "coingecko:kadena",
-  RVN: "coingecko:ravencoin",
-  SC: "coingecko:siacoin",
-  WAVES: "coingecko:waves",
-  XEM: "coingecko:nem",
-  BTT: "coingecko:bittorrent",
-  LUNA: "coingecko:terra-luna-2",
-  AR: "coingecko:arweave",
-  AGIX: "coingecko:singularitynet",
-  WLD: "coingecko:worldcoin-wld",
-};
-
 // Circulating supply estimates (decentralized - from blockchain data) - Top 100
 const CIRCULATING_SUPPLY: Record<string, number> = {
   // Top 10
@@ -288,77 +177,50 @@ const LIVE_PRICES_CACHE_KEY = "zk_live_prices_v2";
 const PRICE_HISTORY_KEY = "zk_price_history_v1";
 const DEFI_LLAMA_24H_CACHE_KEY = "zk_defillama_24h_v1";
 
-// Fetch 24h data from DeFiLlama (decentralized aggregator)
-const fetchDefiLlama24hData = async (): Promise<Map<string, { change24h: number; price24hAgo: number; volume24h?: number }>> => {
+// Symbols tracked by the list (top 100 of the token registry)
+const TRACKED_SYMBOLS = getAllTokenMetadata().slice(0, 100).map((token) => token.symbol.toUpperCase());
+
+// Fetch 24h change from the price-feed snapshot providers (DeFiLlama, then DIA)
+const fetch24hChangeData = async (): Promise<Map<string, { change24h: number; price24hAgo: number; volume24h?: number }>> => {
   const result = new Map<string, { change24h: number; price24hAgo: number; volume24h?: number }>();
-  
+
   try {
-    // Build comma-separated token list
-    const tokens = Object.values(DEFI_LLAMA_TOKENS).join(",");
-    const url = `https://coins.llama.fi/prices/current/${tokens}?searchWidth=24h`;
-    
-    const response = await safeFetch(url);
-    if (!response) return result;
-    const data = await response.json();
-    if (!data?.coins) return result;
-    
-    // Also fetch historical (24h ago) prices
-    const timestamp24hAgo = Math.floor((Date.now() - 24 * 60 * 60 * 1000) / 1000);
-    const histUrl = `https://coins.llama.fi/prices/historical/${timestamp24hAgo}/${tokens}`;
-    const histResponse = await safeFetch(histUrl);
-    const histData = histResponse ? await histResponse.json() : null;
-    
-    Object.entries(DEFI_LLAMA_TOKENS).forEach(([symbol, llamaKey]) => {
-      const current = data.coins?.[llamaKey];
-      const historical = histData?.coins?.[llamaKey];
-      
-      if (current?.price && historical?.price) {
-        const change24h = ((current.price - historical.price) / historical.price) * 100;
-        
-        // Estimate volume from market cap (typical ratio ~3-8% of market cap for top coins)
-        const supply = CIRCULATING_SUPPLY[symbol.toUpperCase()] || 0;
-        const marketCap = current.price * supply;
-        // More volatile coins typically have higher relative volume
-        const volatilityFactor = Math.min(2, Math.abs(change24h) / 5 + 0.5);
-        const estimatedVolume = marketCap * 0.04 * volatilityFactor;
-        
-        result.set(symbol.toLowerCase(), {
-          change24h,
-          price24hAgo: historical.price,
-          volume24h: estimatedVolume > 0 ? estimatedVolume : undefined,
-        });
-      }
+    const ticks = await fetchPriceSnapshot("change24h", TRACKED_SYMBOLS);
+
+    ticks.forEach(({ symbol, price, change24h, price24hAgo }) => {
+      if (change24h === undefined || !price24hAgo) return;
+
+      // Estimate volume from market cap (typical ratio ~3-8% of market cap for top coins)
+      const supply = CIRCULATING_SUPPLY[symbol] || 0;
+      const marketCap = price * supply;
+      // More volatile coins typically have higher relative volume
+      const volatilityFactor = Math.min(2, Math.abs(change24h) / 5 + 0.5);
+      const estimatedVolume = marketCap * 0.04 * volatilityFactor;
+
+      result.set(symbol.toLowerCase(), {
+        change24h,
+        price24hAgo,
+        volume24h: estimatedVolume > 0 ? estimatedVolume : undefined,
+      });
     });
   } catch (e) {
-    console.warn("[Prices] DeFiLlama 24h fetch failed:", e);
+    console.warn("[Prices] 24h change fetch failed:", e);
   }
-  
+
   return result;
 };
 
-// Fetch current prices from DeFiLlama (fills gaps when oracle/WebSocket don't cover a token)
-const fetchDefiLlamaCurrentPrices = async (): Promise<Map<string, number>> => {
-  const result = new Map<string, number>();
+// Fetch current prices from the snapshot providers (fills gaps when the live stream doesn't cover a token)
+const fetchSnapshotPrices = async (): Promise<Map<string, { price: number; source: string }>> => {
+  const result = new Map<string, { price: number; source: string }>();
 
   try {
-    const tokens = Object.values(DEFI_LLAMA_TOKENS).join(",");
-    const url = `https://coins.llama.fi/prices/current/${tokens}`;
-
-    const response = await safeFetch(url);
-    if (!response) return result;
-
-    const data = await response.json();
-    if (!data?.coins) return result;
-
-    Object.entries(DEFI_LLAMA_TOKENS).forEach(([symbol, llamaKey]) => {
-      const current = data.coins?.[llamaKey];
-      const price = Number(current?.price);
-      if (Number.isFinite(price) && price > 0) {
-        result.set(symbol.toLowerCase(), price);
-      }
+    const ticks = await fetchPriceSnapshot("ticks", TRACKED_SYMBOLS);
+    ticks.forEach(({ symbol, price, source }) => {
+      result.set(symbol.toLowerCase(), { price, source });
     });
   } catch (e) {
-    console.warn("[Prices] DeFiLlama current price fetch failed:", e);
+    console.warn("[Prices] Snapshot price fetch failed:", e);
   }
 
   return result;
@@ -447,7 +309,7 @@ export const useCryptoPrices = () => {
         }
         
         // Fetch fresh DeFiLlama 24h % data
-        const fresh24h = await fetchDefiLlama24hData();
+        const fresh24h = await fetch24hChangeData();
         if (fresh24h.size > 0) {
           defiLlama24hRef.current = fresh24h;
           lastDefiLlamaFetchRef.current = Date.now();
@@ -462,7 +324,7 @@ export const useCryptoPrices = () => {
         }
 
         // Fetch DeFiLlama current prices to fill any "0" gaps immediately
-        const current = await fetchDefiLlamaCurrentPrices();
+        const current = await fetchSnapshotPrices();
         if (current.size > 0) {
           const now = Date.now();
           let hasGapFills = false;
@@ -475,7 +337,7 @@ export const useCryptoPrices = () => {
             priceHistoryRef.current.set(symbol, history.filter((h) => h.timestamp > cutoff));
           };
 
-          current.forEach((price, symbol) => {
+          current.forEach(({ price, source }, symbol) => {
             const existing = pricesRef.current.get(symbol);
             if (!existing) return;
 
@@ -496,7 +358,7 @@ export const useCryptoPrices = () => {
               low_24h: price * (1 - Math.abs(change24h) / 100 * 0.3),
               market_cap: price * supply,
               lastUpdate: now,
-              source: "DeFiLlama",
+              source,
             });
             recordHistory(symbol, price);
             hasGapFills = true;
@@ -521,7 +383,7 @@ export const useCryptoPrices = () => {
     
     // Refresh DeFiLlama 24h data every 5 minutes
     const interval24h = setInterval(async () => {
-      const fresh24h = await fetchDefiLlama24hData();
+      const fresh24h = await fetch24hChangeData();
       if (fresh24h.size > 0) {
         defiLlama24hRef.current = fresh24h;
         lastDefiLlamaFetchRef.current = Date.now();
@@ -530,7 +392,7 @@ export const useCryptoPrices = () => {
 
     // Refresh DeFiLlama current prices (gap-fill) every 60s
     const intervalCurrent = setInterval(async () => {
-      const current = await fetchDefiLlamaCurrentPrices();
+      const current = await fetchSnapshotPrices();
       if (current.size === 0) return;
 
       const now = Date.now();
@@ -544,7 +406,7 @@ export const useCryptoPrices = () => {
         priceHistoryRef.current.set(symbol, history.filter((h) => h.timestamp > cutoff));
       };
 
-      current.forEach((price, symbol) => {
+      current.forEach(({ price, source }, symbol) => {
         const existing = pricesRef.current.get(symbol);
         if (!existing) return;
         if (existing.current_price > 0) return;
@@ -563,7 +425,7 @@ export const useCryptoPrices = () => {
           low_24h: price * (1 - Math.abs(change24h) / 100 * 0.3),
           market_cap: price * supply,
           lastUpdate: now,
-          source: "DeFiLlama",
+          source,
         });
         recordHistory(symbol, price);
         hasGapFills = true;
@@ -765,6 +627,7 @@ export const useCryptoPrices = () => {
               high_24h: newHigh24h,
               low_24h: newLow24h,
               total_volume: estimatedVolume,
+              volume_estimated: true,
               market_cap: estimatedMarketCap > 0 ? estimatedMarketCap : existing.market_cap,
               lastUpdate: now,
               source: oracleSource,
@@ -871,6 +734,7 @@ export const useCryptoPrices = () => {
             high_24h: newHigh24h,
             low_24h: newLow24h,
             total_volume: estimatedVolume,
+            volume_estimated: true,
             market_cap: estimatedMarketCap > 0 ? estimatedMarketCap : existing.market_cap,
             lastUpdate: now,
             source: "WebSocket",
@@ -911,6 +775,22 @@ export const useCryptoPrices = () => {
     }
   }, [websocket.prices.size, websocket.connected, addToHistory, calculate24hChange, getEstimatedVolume, savePricesToZK]);
 
+  // Feed real traded volume into the volume history (estimates would only echo market cap)
+  useEffect(() => {
+    const now = Date.now();
+    prices.forEach((p) => {
+      if (!p.volume_estimated && p.total_volume > 0) recordVolumeSnapshot(p.symbol, p.total_volume, now);
+    });
+  }, [prices]);
+
+  // Hourly closes of every tracked coin — correlation to BTC/ETH and the market regime
+  useEffect(() => {
+    const now = Date.now();
+    prices.forEach((p) => {
+      if (p.current_price > 0) recordPriceSnapshot(p.symbol, p.current_price, now);
+    });
+  }, [prices]);
+
   // Track live status from WebSocket + oracles
   useEffect(() => {
     const sources: string[] = [];
@@ -1,4 +1,5 @@
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import { fetchPriceSnapshot } from "@/lib/price-feeds";
 
 interface ExchangeRates {
   USD: number;
@@ -102,22 +103,18 @@ export const CurrencyProvider = ({ children }: { children: ReactNode }) => {
     }
 
     try {
-      const response = await fetch(
-        "https://api.exchangerate-api.com/v4/latest/USD"
-      );
-      
-      if (!response.ok) {
+      const ticks = await fetchPriceSnapshot("fx", ["EUR", "GBP", "CNY", "JPY"]);
+      if (ticks.length === 0) {
         throw new Error("Failed to fetch rates");
       }
-      
-      const data = await response.json();
-      
+
+      const rateOf = (code: keyof ExchangeRates) => ticks.find(t => t.symbol === code)?.price || DEFAULT_RATES[code];
       const newRates: ExchangeRates = {
         USD: 1,
-        EUR: data.rates.EUR || DEFAULT_RATES.EUR,
-        GBP: data.rates.GBP || DEFAULT_RATES.GBP,
-        CNY: data.rates.CNY || DEFAULT_RATES.CNY,
-        JPY: data.rates.JPY || DEFAULT_RATES.JPY,
+        EUR: rateOf("EUR"),
+        GBP: rateOf("GBP"),
+        CNY: rateOf("CNY"),
+        JPY: rateOf("JPY"),
       };
       
       setRates(newRates);
@@ -3,11 +3,15 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // Aggregates real-time oracle ticks (Pyth, DIA, Redstone) into OHLC candles
 // Persists candle history in localStorage for multi-timeframe analysis
+// Archives completed candles to IndexedDB (OHLC_DATA) for backtesting
 // Zero centralized exchange dependencies
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useOraclePrices } from "./useOraclePrices";
+import { getOHLCData, saveOHLCData } from "@/lib/clientStorage";
+import { recordVolumeCandles } from "@/lib/volumeHistoryPersistence";
+import { recordPriceCandles } from "@/lib/priceHistoryPersistence";
 
 export interface OHLCCandle {
   timestamp: number;
@@ -53,6 +57,9 @@ const MAX_CANDLES: Record<CandleInterval, number> = {
   "1d": 30,   // 30 days of daily candles
 };
 
+// Max completed candles archived per interval in IndexedDB
+const MAX_ARCHIVED_CANDLES = 5000;
+
 const STORAGE_KEY_PREFIX = "zikalyze_dohlc_v2_";
 
 interface PersistedData {
@@ -134,6 +141,47 @@ const savePersistedData = (
   } catch {
     // Ignore storage errors
   }
+  archiveCandles(symbol, candles).catch(() => {
+    // IndexedDB unavailable — localStorage copy is still intact
+  });
+};
+
+// Merge completed candles into the IndexedDB archive (longer history than localStorage)
+const archiveCandles = async (
+  symbol: string,
+  candles: Record<CandleInterval, OHLCCandle[]>
+): Promise<void> => {
+  for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+    const completed = candles[interval] || [];
+    if (completed.length === 0) continue;
+
+    // Hourly volume for the volume history — skipped while candles are oracle-built (volume 0) —
+    // and hourly closes for the cross-asset price history
+    if (interval === "1h") {
+      recordVolumeCandles(symbol, completed.map(c => ({ time: c.timestamp, volume: c.volume, high: c.high, low: c.low, close: c.close })));
+      recordPriceCandles(symbol, completed.map(c => ({ time: c.timestamp, close: c.close })));
+    }
+
+    const existing = await getOHLCData(symbol, interval);
+    const byTime = new Map<number, { time: number; open: number; high: number; low: number; close: number; volume: number }>();
+    (existing?.candles || []).forEach(c => byTime.set(c.time, c));
+    completed.forEach(c => byTime.set(c.timestamp, {
+      time: c.timestamp,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+    }));
+
+    await saveOHLCData({
+      key: `${symbol}_${interval}`,
+      symbol,
+      interval,
+      candles: [...byTime.values()].sort((a, b) => a.time - b.time).slice(-MAX_ARCHIVED_CANDLES),
+      updated_at: new Date().toISOString(),
+    });
+  }
 };
 
 const formatCandleTime = (timestamp: number, interval: CandleInterval): string => {
@@ -0,0 +1,35 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📉 useDerivatives — Live funding, open interest and liquidations for one symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+// Reads the shared derivatives store (src/lib/derivatives); the venue stream
+// and polls run while any component watches the symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useEffect, useState } from "react";
+import { subscribeDerivatives, type DerivativesView } from "@/lib/derivatives";
+
+const idleView = (symbol: string): DerivativesView => ({
+  symbol,
+  status: "idle",
+  source: null,
+  history: { funding: [], live: null, openInterest: [], liquidations: [] },
+  metrics: null,
+});
+
+export function useDerivatives(symbol: string) {
+  const normalized = symbol.toUpperCase();
+  const [view, setView] = useState<DerivativesView>(() => idleView(normalized));
+
+  useEffect(() => {
+    if (!normalized) return;
+    return subscribeDerivatives(normalized, setView);
+  }, [normalized]);
+
+  // A view from the previous symbol can linger for one render after a switch
+  const current = view.symbol === normalized ? view : idleView(normalized);
+
+  return {
+    ...current,
+    isLive: current.status === "live",
+  };
+}
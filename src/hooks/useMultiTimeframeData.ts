@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useDecentralizedOHLC, OHLCCandle, CandleInterval } from './useDecentralizedOHLC';
+import { createIndicatorTracker, IndicatorSnapshot, IndicatorTracker } from '@/lib/zikalyze-brain/indicators';
 
 export type Timeframe = '15m' | '1h' | '4h' | '1d';
 
@@ -37,6 +38,7 @@ export interface TimeframeAnalysis {
   resistance: number;
   lastUpdated: number;
   isLive: boolean;
+  indicators: IndicatorSnapshot;
 }
 
 export interface MultiTimeframeData {
@@ -223,13 +225,17 @@ export function useMultiTimeframeData(symbol: string): MultiTimeframeData {
   
   const mountedRef = useRef(true);
   
+  // One streaming indicator tracker per timeframe, rebuilt when the symbol changes
+  const trackersRef = useRef<{ symbol: string; trackers: Record<Timeframe, IndicatorTracker> } | null>(null);
+  
   // 🌐 100% DECENTRALIZED: OHLC from oracle ticks only
   const ohlc = useDecentralizedOHLC(symbol);
   
   // Analyze a single timeframe using oracle data only
   const analyzeTimeframe = useCallback((
     timeframe: Timeframe,
-    decentralizedCandles: OHLCCandle[]
+    decentralizedCandles: OHLCCandle[],
+    indicators: IndicatorSnapshot
   ): TimeframeAnalysis | null => {
     // Use decentralized data only — no fallback
     if (decentralizedCandles.length < MIN_CANDLES[timeframe]) {
@@ -259,6 +265,7 @@ export function useMultiTimeframeData(symbol: string): MultiTimeframeData {
       resistance: sr.resistance,
       lastUpdated: Date.now(),
       isLive: ohlc.isLive,
+      indicators,
     };
   }, [ohlc.isLive]);
   
@@ -315,9 +322,25 @@ export function useMultiTimeframeData(symbol: string): MultiTimeframeData {
     
     const timeframes: Timeframe[] = ['15m', '1h', '4h', '1d'];
     
-    const analyses = timeframes.map(tf => 
-      analyzeTimeframe(tf, ohlc.getCandles(TIMEFRAME_TO_INTERVAL[tf]))
-    );
+    if (trackersRef.current?.symbol !== symbol) {
+      trackersRef.current = {
+        symbol,
+        trackers: {
+          '15m': createIndicatorTracker(),
+          '1h': createIndicatorTracker(),
+          '4h': createIndicatorTracker(),
+          '1d': createIndicatorTracker(),
+        },
+      };
+    }
+    const { trackers } = trackersRef.current;
+    
+    // Indicators step only over newly completed candles, then preview the forming one
+    const analyses = timeframes.map(tf => {
+      const interval = TIMEFRAME_TO_INTERVAL[tf];
+      const indicators = trackers[tf].sync(ohlc.getCompletedCandles(interval), ohlc.currentCandles[interval]);
+      return analyzeTimeframe(tf, ohlc.getCandles(interval), indicators);
+    });
     
     const confluence = calculateConfluence(analyses);
     
@@ -330,7 +353,7 @@ export function useMultiTimeframeData(symbol: string): MultiTimeframeData {
       isLoading: false,
       lastUpdated: Date.now(),
     });
-  }, [ohlc.candles, ohlc.currentCandles, analyzeTimeframe, calculateConfluence, ohlc.getCandles]);
+  }, [symbol, ohlc.candles, ohlc.currentCandles, analyzeTimeframe, calculateConfluence, ohlc.getCandles, ohlc.getCompletedCandles]);
   
   // Reset when symbol changes
   useEffect(() => {
@@ -1,6 +1,15 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { safeFetch } from "@/lib/fetchWithRetry";
+import { DataProvenance, OnChainProvenance } from "@/lib/zikalyze-brain/types";
+import { derivedProvenance, liveProvenance } from "@/lib/zikalyze-brain/provenance";
+
+// Which fields were measured and which are estimated from price action
+export type OnChainMetricsProvenance = OnChainProvenance & {
+  network?: DataProvenance; // Block height, hash rate, difficulty
+  etfFlow?: DataProvenance;
+  validatorQueue?: DataProvenance;
+};
 
 export interface OnChainMetrics {
   exchangeNetFlow: { value: number; trend: 'OUTFLOW' | 'INFLOW' | 'NEUTRAL'; magnitude: string; change24h: number };
@@ -23,6 +32,7 @@ export interface OnChainMetrics {
   // Decentralized source indicator
   isDecentralized: boolean;
   oracleSources: string[];
+  provenance: OnChainMetricsProvenance;
 }
 
 interface CryptoInfo {
@@ -314,7 +324,8 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
       etfFlow: partial.etfFlow || current?.etfFlow,
       validatorQueue: partial.validatorQueue || current?.validatorQueue,
       isDecentralized: partial.isDecentralized ?? current?.isDecentralized ?? true,
-      oracleSources: partial.oracleSources || current?.oracleSources || []
+      oracleSources: partial.oracleSources || current?.oracleSources || [],
+      provenance: { ...current?.provenance, ...partial.provenance }
     };
     
     metricsRef.current = newMetrics;
@@ -773,6 +784,12 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
       }
 
       const hasWebSocket = wsStateRef.current.socket?.readyState === WebSocket.OPEN;
+
+      // Only the network stats are read from the chain; flows, whales, ETF and validator
+      // numbers above are modelled on the 24h change and must never read as measured
+      const fetchedAt = Date.now();
+      const fromPrice = derivedProvenance('price-action', '24h price change');
+      const hasFeeMarket = currentCrypto === 'BTC' || currentCrypto === 'ETH';
       
       updateMetrics({
         exchangeNetFlow, whaleActivity, mempoolData, transactionVolume, hashRate,
@@ -781,7 +798,17 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
         etfFlow,
         validatorQueue,
         isDecentralized: true,
-        oracleSources
+        oracleSources,
+        provenance: {
+          network: source === 'oracle-derived' ? derivedProvenance(source, 'typical chain parameters') : liveProvenance(source, fetchedAt),
+          mempoolData: hasFeeMarket ? liveProvenance(source, fetchedAt) : derivedProvenance(source, 'typical chain parameters'),
+          transactionVolume: derivedProvenance(source, 'chain throughput'),
+          activeAddresses: fromPrice,
+          exchangeNetFlow: fromPrice,
+          whaleActivity: fromPrice,
+          etfFlow: etfFlow ? fromPrice : undefined,
+          validatorQueue: validatorQueue ? fromPrice : undefined,
+        }
       });
       setError(null);
     } catch (e) {
@@ -860,7 +887,8 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
                   minimumFee: metricsRef.current?.mempoolData?.minimumFee,
                 },
                 source: 'mempool-ws',
-                streamStatus: 'connected'
+                streamStatus: 'connected',
+                provenance: { mempoolData: liveProvenance('mempool-ws', Date.now()) }
               });
             }
 
@@ -868,7 +896,8 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
               updateMetrics({
                 blockHeight: data.block.height || metricsRef.current?.blockHeight || 0,
                 source: 'mempool-ws',
-                streamStatus: 'connected'
+                streamStatus: 'connected',
+                provenance: { network: liveProvenance('mempool-ws', Date.now()) }
               });
               console.log(`[OnChain] BTC New block: ${data.block.height}`);
             }
@@ -886,7 +915,8 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
                   minimumFee: blocks[blocks.length - 1]?.feeRange?.[0] || 1,
                 },
                 source: 'mempool-ws',
-                streamStatus: 'connected'
+                streamStatus: 'connected',
+                provenance: { mempoolData: liveProvenance('mempool-ws', Date.now()) }
               });
             }
 
@@ -899,7 +929,8 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
                   minimumFee: data.fees.minimumFee,
                 },
                 source: 'mempool-ws',
-                streamStatus: 'connected'
+                streamStatus: 'connected',
+                provenance: { mempoolData: liveProvenance('mempool-ws', Date.now()) }
               });
             }
           }
@@ -925,7 +956,11 @@ export function useOnChainData(crypto: string, price: number, change: number, cr
                   tps: 15
                 },
                 source: 'eth-ws',
-                streamStatus: 'connected'
+                streamStatus: 'connected',
+                provenance: {
+                  network: liveProvenance('eth-ws', Date.now()),
+                  mempoolData: liveProvenance('eth-ws', Date.now())
+                }
               });
             }
           }
@@ -1,13 +1,13 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🌐 useOraclePrices — WebSocket-Powered Oracle Prices
 // ═══════════════════════════════════════════════════════════════════════════════
-// Uses the global WebSocket (price-stream edge function) for all oracle data
-// The edge function fetches from Pyth, CoinGecko, and DeFiLlama
-// No direct Pyth SSE connection needed - reduces connection overhead
+// Reads the shared price-feed store through useGlobalPriceWebSocket, so oracle
+// prices and live trades come from one normalised stream
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useGlobalPriceWebSocket } from "./useGlobalPriceWebSocket";
+import { getPriceFeedProvider } from "@/lib/price-feeds";
 
 export interface OraclePriceData {
   symbol: string;
@@ -33,7 +33,7 @@ export const useOraclePrices = (_symbols: string[] = []) => {
   const pricesRef = useRef<Map<string, OraclePriceData>>(new Map());
   const isMountedRef = useRef(true);
 
-  // Use the global WebSocket - edge function handles Pyth/CoinGecko/DeFiLlama
+  // Shared store - Binance/Pyth streams with DeFiLlama/DIA snapshots
   const ws = useGlobalPriceWebSocket([]);
 
   // Map WebSocket prices to oracle format
@@ -69,12 +69,15 @@ export const useOraclePrices = (_symbols: string[] = []) => {
     return pricesRef.current.get(normalized);
   }, []);
 
+  // DIA is polled only for gaps, so it reports its own health; re-read on every update
+  const diaHealth = getPriceFeedProvider("dia")?.health();
+
   return {
     prices,
     isLive,
     primarySource: ws.connected ? "WebSocket" : "none" as "Pyth" | "WebSocket" | "none",
-    pythConnected: ws.connected, // Edge function uses Pyth as primary source
-    diaConnected: false,
+    pythConnected: ws.connected,
+    diaConnected: diaHealth?.status === "connected",
     redstoneConnected: false,
     chainlinkConnected: false,
     getPrice,
@@ -84,9 +87,9 @@ export const useOraclePrices = (_symbols: string[] = []) => {
       error: ws.error,
     },
     diaStatus: {
-      isConnected: false,
+      isConnected: diaHealth?.status === "connected",
       isLoading: false,
-      error: null,
+      error: diaHealth?.error ?? null,
     },
     redstoneStatus: {
       isConnected: false,
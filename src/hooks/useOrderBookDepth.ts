@@ -0,0 +1,36 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 useOrderBookDepth — Live L2 book and liquidity metrics for one symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+// Reads the shared order-book store (src/lib/order-book); the venue stream runs
+// while any component watches the symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useEffect, useState } from "react";
+import { subscribeOrderBook, type OrderBookView } from "@/lib/order-book";
+
+const idleView = (symbol: string): OrderBookView => ({
+  symbol,
+  status: "idle",
+  source: null,
+  bids: [],
+  asks: [],
+  metrics: null,
+});
+
+export function useOrderBookDepth(symbol: string) {
+  const normalized = symbol.toUpperCase();
+  const [view, setView] = useState<OrderBookView>(() => idleView(normalized));
+
+  useEffect(() => {
+    if (!normalized) return;
+    return subscribeOrderBook(normalized, setView);
+  }, [normalized]);
+
+  // A view from the previous symbol can linger for one render after a switch
+  const current = view.symbol === normalized ? view : idleView(normalized);
+
+  return {
+    ...current,
+    isLive: current.status === "live",
+  };
+}
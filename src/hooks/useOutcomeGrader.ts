@@ -0,0 +1,131 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏁 useOutcomeGrader — Grade saved analyses against the archived price path
+// ═══════════════════════════════════════════════════════════════════════════════
+// Periodically revisits every analysis whose horizons (1h / 4h / 24h) have
+// passed, reads the candles useDecentralizedOHLC archived in IndexedDB, and
+// stores the outcome. The longest graded horizon becomes was_correct unless the
+// user already gave feedback, so calibration learns from every call.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import * as storage from '@/lib/clientStorage';
+import { queueSync, STORES } from '@/lib/clientStorage';
+import { decryptAnalysisRecord } from '@/lib/e2eAnalysisEncryption';
+import {
+  AnalysisOutcomes,
+  GradingPlan,
+  OutcomeCandle,
+  OutcomeHorizon,
+  GRADING_INTERVALS,
+  HORIZON_MS,
+  gradeOutcome,
+  outcomeLabel,
+} from '@/lib/zikalyze-brain';
+
+const GRADE_INTERVAL_MS = 5 * 60 * 1000;
+// Stop retrying a horizon the archive never covered
+const GIVE_UP_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const useOutcomeGrader = (horizons: OutcomeHorizon[], onGraded?: () => void) => {
+  const [grading, setGrading] = useState(false);
+  const [lastRun, setLastRun] = useState<Date | null>(null);
+  const { user } = useAuth();
+  const runningRef = useRef(false);
+  const onGradedRef = useRef(onGraded);
+  onGradedRef.current = onGraded;
+
+  const gradeNow = useCallback(async (): Promise<number> => {
+    if (runningRef.current || horizons.length === 0) return 0;
+    runningRef.current = true;
+    setGrading(true);
+
+    try {
+      const now = Date.now();
+      const records = await storage.getAllAnalysisHistory();
+      const pending = records.filter(r => {
+        if (!r.grading_plan) return false;
+        const created = new Date(r.created_at).getTime();
+        return horizons.some(h =>
+          !r.outcomes?.[h] &&
+          now >= created + HORIZON_MS[h] &&
+          now - (created + HORIZON_MS[h]) < GIVE_UP_AFTER_MS
+        );
+      });
+      if (pending.length === 0) return 0;
+
+      // Candles are shared by every record of a symbol
+      const candleCache = new Map<string, OutcomeCandle[]>();
+      const loadCandles = async (symbol: string, interval: string) => {
+        const key = `${symbol}_${interval}`;
+        if (!candleCache.has(key)) {
+          const stored = await storage.getOHLCData(symbol, interval);
+          candleCache.set(key, stored?.candles || []);
+        }
+        return candleCache.get(key);
+      };
+
+      let graded = 0;
+      for (const record of pending) {
+        // Null when the plan was encrypted on another device
+        const { grading_plan } = await decryptAnalysisRecord({ grading_plan: record.grading_plan });
+        if (!grading_plan) continue;
+        let plan: GradingPlan;
+        try {
+          plan = JSON.parse(grading_plan);
+        } catch {
+          continue;
+        }
+
+        const created = new Date(record.created_at).getTime();
+        const outcomes: AnalysisOutcomes = {};
+        for (const horizon of horizons) {
+          if (record.outcomes?.[horizon]) continue;
+          for (const interval of GRADING_INTERVALS[horizon]) {
+            const candles = await loadCandles(record.symbol, interval);
+            const outcome = gradeOutcome(plan, created, horizon, candles, interval, now);
+            if (outcome) {
+              outcomes[horizon] = outcome;
+              break;
+            }
+          }
+        }
+        if (Object.keys(outcomes).length === 0) continue;
+
+        const label = outcomeLabel({ ...record.outcomes, ...outcomes }, horizons);
+        const updated = await storage.saveAnalysisOutcomes(record.id, outcomes, label);
+        graded++;
+
+        // Share the label with the cloud copy; outcomes themselves stay local
+        if (user && updated?.user_id === user.id && updated.feedback_source === 'auto') {
+          await queueSync({
+            type: 'update',
+            store: STORES.ANALYSIS_HISTORY,
+            data: updated,
+          });
+        }
+      }
+
+      if (graded > 0) {
+        console.log(`[OutcomeGrader] Graded ${graded} analyses`);
+        onGradedRef.current?.();
+      }
+      return graded;
+    } catch (err) {
+      console.error('[OutcomeGrader] Error grading outcomes:', err);
+      return 0;
+    } finally {
+      runningRef.current = false;
+      setGrading(false);
+      setLastRun(new Date());
+    }
+  }, [horizons, user]);
+
+  useEffect(() => {
+    gradeNow();
+    const interval = setInterval(gradeNow, GRADE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [gradeNow]);
+
+  return { grading, lastRun, gradeNow };
+};
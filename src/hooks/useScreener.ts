@@ -0,0 +1,151 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔎 useScreener — Batch analysis of a symbol list in a Web Worker
+// ═══════════════════════════════════════════════════════════════════════════════
+// Gathers each symbol's live quote, archived candles and calibration model and
+// hands the batch to the shared brain worker (src/lib/brainClient.ts). Rows
+// stream back as each symbol finishes.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
+import { CryptoPrice } from '@/hooks/useCryptoPrices';
+import * as storage from '@/lib/clientStorage';
+import { screenInBrain } from '@/lib/brainClient';
+import { CalibrationSample, selectCalibrationModel } from '@/lib/zikalyze-brain';
+import { isAbortError } from '@/lib/zikalyze-brain/rpc';
+import {
+  ScreenerCandidate,
+  ScreenerFailure,
+  ScreenerOptions,
+  ScreenerRow,
+  ScreenerTimeframe,
+} from '@/lib/zikalyze-brain/screener';
+
+export type ScreenerUniverse = 'watchlist' | 'top100';
+
+// The Analyzer's ticker symbols
+export const SCREENER_WATCHLIST = ['BTC', 'ETH', 'SOL', 'XRP', 'DOGE', 'KAS', 'ADA', 'AVAX', 'LINK', 'DOT'];
+
+const TIMEFRAMES: ScreenerTimeframe[] = ['15m', '1h', '4h', '1d'];
+
+export interface ScreenerProgress {
+  done: number;
+  total: number;
+}
+
+async function loadCandidate(price: CryptoPrice, samples: CalibrationSample[], now: number): Promise<ScreenerCandidate> {
+  const symbol = price.symbol.toUpperCase();
+  const archived = await Promise.all(TIMEFRAMES.map(tf => storage.getOHLCData(symbol, tf).catch(() => undefined)));
+  const candles: ScreenerCandidate['candles'] = {};
+  TIMEFRAMES.forEach((tf, i) => {
+    if (archived[i]?.candles.length) candles[tf] = archived[i].candles;
+  });
+  return {
+    symbol,
+    price: price.current_price,
+    change: price.price_change_percentage_24h,
+    high24h: price.high_24h,
+    low24h: price.low_24h,
+    volume: price.total_volume,
+    marketCap: price.market_cap,
+    priceTimestamp: price.lastUpdate,
+    candles,
+    calibration: selectCalibrationModel(samples, symbol, now) ?? undefined,
+  };
+}
+
+export const useScreener = () => {
+  const { settings } = useSettings();
+  const { user } = useAuth();
+  const { i18n } = useTranslation();
+  const [rows, setRows] = useState<ScreenerRow[]>([]);
+  const [failures, setFailures] = useState<ScreenerFailure[]>([]);
+  const [progress, setProgress] = useState<ScreenerProgress>({ done: 0, total: 0 });
+  const [isRunning, setIsRunning] = useState(false);
+  const [lastRunAt, setLastRunAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+  const runIdRef = useRef(0);
+
+  const run = useCallback(async (prices: CryptoPrice[]) => {
+    cancelRef.current?.();
+    const id = ++runIdRef.current;
+    const now = Date.now();
+    setRows([]);
+    setFailures([]);
+    setError(null);
+    setProgress({ done: 0, total: prices.length });
+    setIsRunning(true);
+
+    try {
+      // Same graded samples useConfidenceCalibration fits, so confidences match the Analyzer
+      const records = await storage.getAllAnalysisHistory();
+      const samples: CalibrationSample[] = records
+        .filter(r => (user ? r.user_id === user.id || r.user_id === null : r.user_id === null))
+        .filter(r => r.was_correct !== null && (r.raw_confidence ?? r.confidence) !== null)
+        .map(r => ({ symbol: r.symbol, confidence: r.raw_confidence ?? r.confidence, correct: r.was_correct }));
+      const candidates = await Promise.all(prices.map(p => loadCandidate(p, samples, now)));
+      if (id !== runIdRef.current) return;
+
+      const options: ScreenerOptions = {
+        language: i18n.language || 'en',
+        riskSettings: settings.risk,
+        excludeDerivedInputs: settings.excludeDerivedInputs,
+      };
+
+      const onRow = (row: ScreenerRow, done: number, total: number) => {
+        if (id !== runIdRef.current) return;
+        setRows(prev => [...prev, row]);
+        setProgress({ done, total });
+      };
+      const onFailure = (failure: ScreenerFailure, done: number, total: number) => {
+        if (id !== runIdRef.current) return;
+        setFailures(prev => [...prev, failure]);
+        setProgress({ done, total });
+      };
+      const finish = () => {
+        if (id !== runIdRef.current) return;
+        cancelRef.current = null;
+        setIsRunning(false);
+        setLastRunAt(Date.now());
+      };
+
+      const controller = new AbortController();
+      // Stop between symbols and keep the rows so far
+      cancelRef.current = () => controller.abort();
+      try {
+        await screenInBrain(candidates, options, { signal: controller.signal, onRow, onFailure });
+      } catch (err) {
+        if (!isAbortError(err)) throw err;
+      }
+      finish();
+    } catch (err) {
+      console.error('[Screener] Batch failed:', err);
+      if (id === runIdRef.current) {
+        setError(err instanceof Error ? err.message : 'Screener failed');
+        cancelRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, [user, i18n.language, settings.risk, settings.excludeDerivedInputs]);
+
+  const cancel = useCallback(() => {
+    if (cancelRef.current) {
+      cancelRef.current();
+      return;
+    }
+    // Still loading candles — drop the run before it starts
+    runIdRef.current++;
+    setIsRunning(false);
+  }, []);
+
+  // Leaving the page stops the batch; its late messages are ignored by run id
+  useEffect(() => () => {
+    cancelRef.current?.();
+    runIdRef.current++;
+  }, []);
+
+  return { rows, failures, progress, isRunning, lastRunAt, error, run, cancel };
+};
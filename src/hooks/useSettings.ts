@@ -1,4 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
+import { OutcomeHorizon, RiskSettings } from "@/lib/zikalyze-brain/types";
+import { DEFAULT_RISK_SETTINGS } from "@/lib/zikalyze-brain/trade-plan";
 
 export type SoundType = "chime" | "beep" | "bell";
 
@@ -31,6 +33,15 @@ export interface AppSettings {
   
   // Advanced notification settings
   notificationAlerts: NotificationAlertSettings;
+  
+  // Position sizing for AI trade plans
+  risk: RiskSettings;
+
+  // Score only measured inputs — drop flows estimated from price action
+  excludeDerivedInputs: boolean;
+
+  // Horizons past analyses are automatically graded at
+  outcomeHorizons: OutcomeHorizon[];
 }
 
 const DEFAULT_NOTIFICATION_ALERTS: NotificationAlertSettings = {
@@ -57,6 +68,9 @@ const DEFAULT_SETTINGS: AppSettings = {
   currency: "USD",
   twoFactorAuth: false,
   notificationAlerts: DEFAULT_NOTIFICATION_ALERTS,
+  risk: DEFAULT_RISK_SETTINGS,
+  excludeDerivedInputs: false,
+  outcomeHorizons: ["1h", "4h", "24h"],
 };
 
 const STORAGE_KEY = "zikalyze_settings";
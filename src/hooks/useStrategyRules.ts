@@ -0,0 +1,215 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 useStrategyRules — User-written indicator rules, evaluated on live data
+// ═══════════════════════════════════════════════════════════════════════════════
+// Rules live in IndexedDB and sync to the cloud like price alerts. They are
+// re-evaluated whenever the context changes; a rule with alerts on notifies
+// when it starts matching (at most once per cooldown).
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { alertSound } from '@/lib/alertSound';
+import { isSoundEnabled } from '@/hooks/useSettings';
+import { useAuth } from '@/hooks/useAuth';
+import * as storage from '@/lib/clientStorage';
+import { queueSync, STORES } from '@/lib/clientStorage';
+import { compileStrategyRule, evaluateStrategyRule } from '@/lib/zikalyze-brain';
+import { StrategyRuleContext, StrategyRuleEvaluation } from '@/lib/zikalyze-brain/types';
+
+// A matching rule alerts again only after this long
+const RULE_ALERT_COOLDOWN_MS = 15 * 60 * 1000;
+
+export type StrategyRule = Omit<storage.ClientStrategyRule, 'synced'>;
+
+export interface StrategyRuleDraft {
+  name: string;
+  expression: string;
+  symbol: string | null;
+  alert: boolean;
+}
+
+export interface StrategyRuleStatus {
+  rule: StrategyRule;
+  evaluation: StrategyRuleEvaluation | null; // null while the rule is paused
+}
+
+const toRule = ({ synced: _synced, ...rule }: storage.ClientStrategyRule): StrategyRule => rule;
+
+export const useStrategyRules = (symbol: string, context: StrategyRuleContext | null) => {
+  const [rules, setRules] = useState<StrategyRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const wasMatching = useRef<Record<string, boolean>>({});
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const upperSymbol = symbol.toUpperCase();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const stored = await storage.getAllStrategyRules();
+      const owned = user
+        ? stored.filter(r => r.user_id === user.id || r.user_id === null)
+        : stored.filter(r => r.user_id === null);
+      setRules(owned.map(toRule));
+    } catch (err) {
+      console.error('[StrategyRules] Error loading rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  // Write-through: IndexedDB, cloud queue, then local state
+  const persist = useCallback(async (rule: StrategyRule, type: 'create' | 'update') => {
+    await storage.saveStrategyRule({ ...rule, synced: false });
+    if (user) {
+      await queueSync({ type, store: STORES.STRATEGY_RULES, data: rule });
+    }
+    setRules(prev => type === 'create' ? [...prev, rule] : prev.map(r => (r.id === rule.id ? rule : r)));
+  }, [user]);
+
+  const createRule = async (draft: StrategyRuleDraft): Promise<boolean> => {
+    const error = compileStrategyRule(draft.expression).error;
+    if (error) {
+      toast.error(t('strategyRules.notSaved', { error }));
+      return false;
+    }
+    try {
+      const now = new Date().toISOString();
+      await persist({
+        id: storage.generateId(),
+        name: draft.name.trim() || draft.expression.trim(),
+        expression: draft.expression.trim(),
+        symbol: draft.symbol?.toUpperCase() ?? null,
+        enabled: true,
+        alert: draft.alert,
+        last_triggered_at: null,
+        created_at: now,
+        updated_at: now,
+        user_id: user?.id || null,
+      }, 'create');
+      toast.success(t('strategyRules.saved'));
+      return true;
+    } catch (err) {
+      console.error('[StrategyRules] Error creating rule:', err);
+      toast.error(t('strategyRules.saveFailed'));
+      return false;
+    }
+  };
+
+  const updateRule = async (id: string, changes: Partial<StrategyRuleDraft & { enabled: boolean }>): Promise<boolean> => {
+    const rule = rules.find(r => r.id === id);
+    if (!rule) return false;
+    if (changes.expression !== undefined) {
+      const error = compileStrategyRule(changes.expression).error;
+      if (error) {
+        toast.error(t('strategyRules.notSaved', { error }));
+        return false;
+      }
+    }
+    try {
+      await persist({
+        ...rule,
+        ...changes,
+        name: changes.name !== undefined ? (changes.name.trim() || rule.name) : rule.name,
+        expression: changes.expression?.trim() ?? rule.expression,
+        symbol: changes.symbol !== undefined ? changes.symbol?.toUpperCase() ?? null : rule.symbol,
+        updated_at: new Date().toISOString(),
+      }, 'update');
+      return true;
+    } catch (err) {
+      console.error('[StrategyRules] Error updating rule:', err);
+      toast.error(t('strategyRules.updateFailed'));
+      return false;
+    }
+  };
+
+  const removeRule = async (id: string): Promise<boolean> => {
+    const rule = rules.find(r => r.id === id);
+    try {
+      await storage.deleteStrategyRule(id);
+      if (user && rule) {
+        await queueSync({ type: 'delete', store: STORES.STRATEGY_RULES, data: rule });
+      }
+      setRules(prev => prev.filter(r => r.id !== id));
+      toast.info(t('strategyRules.deleted'));
+      return true;
+    } catch (err) {
+      console.error('[StrategyRules] Error removing rule:', err);
+      toast.error(t('strategyRules.deleteFailed'));
+      return false;
+    }
+  };
+
+  // Compile once per expression, not on every price tick
+  const compiled = useMemo(
+    () => new Map(rules.map(rule => [rule.id, compileStrategyRule(rule.expression)])),
+    [rules]
+  );
+
+  const statuses = useMemo<StrategyRuleStatus[]>(() =>
+    rules
+      .filter(rule => rule.symbol === null || rule.symbol === upperSymbol)
+      .map(rule => ({
+        rule,
+        evaluation: rule.enabled && context ? evaluateStrategyRule(compiled.get(rule.id)!, context) : null,
+      })),
+    [rules, compiled, context, upperSymbol]
+  );
+
+  // Alert on the transition into a match
+  useEffect(() => {
+    for (const { rule, evaluation } of statuses) {
+      const key = `${rule.id}:${upperSymbol}`;
+      const matched = !!evaluation?.matched;
+      const wasMatched = wasMatching.current[key];
+      wasMatching.current[key] = matched;
+      if (!matched || wasMatched || !rule.alert) continue;
+
+      const lastFired = rule.last_triggered_at ? Date.parse(rule.last_triggered_at) : 0;
+      if (Date.now() - lastFired < RULE_ALERT_COOLDOWN_MS) continue;
+      notifyRuleMatched(rule, upperSymbol, t);
+
+      const triggeredAt = new Date().toISOString();
+      persist({ ...rule, last_triggered_at: triggeredAt, updated_at: triggeredAt }, 'update')
+        .catch(err => console.error('[StrategyRules] Error marking triggered:', err));
+    }
+  }, [statuses, upperSymbol, persist, t]);
+
+  return {
+    rules,
+    statuses,
+    loading,
+    createRule,
+    updateRule,
+    removeRule,
+    refetch: fetchRules,
+  };
+};
+
+function notifyRuleMatched(rule: StrategyRule, symbol: string, t: TFunction) {
+  if (isSoundEnabled()) {
+    alertSound.unlock();
+    alertSound.playAlertSound().catch(err => console.error('[StrategyRules] Error playing sound:', err));
+  }
+
+  if ('Notification' in window && Notification.permission === 'granted') {
+    try {
+      const notification = new Notification(`🧩 ${symbol}: ${rule.name}`, {
+        body: t('strategyRules.matchingNow', { expression: rule.expression }),
+        icon: '/pwa-192x192.png',
+        tag: `rule-${rule.id}-${symbol}`,
+        requireInteraction: false,
+      });
+      setTimeout(() => notification.close(), 8000);
+    } catch (err) {
+      console.error('[StrategyRules] Error showing notification:', err);
+    }
+  }
+
+  toast.success(`🧩 ${t('strategyRules.matching', { symbol, name: rule.name })}`, { description: rule.expression, duration: 6000 });
+}
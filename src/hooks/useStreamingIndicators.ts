@@ -0,0 +1,38 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 useStreamingIndicators — Incremental indicator values for a live candle feed
+// ═══════════════════════════════════════════════════════════════════════════════
+// Completed candles are stepped once each; the forming candle is previewed on
+// every tick without being committed. Changing `feedKey` (symbol + interval)
+// starts a fresh tracker so values never leak between feeds.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { useMemo, useRef } from 'react';
+import {
+  createIndicatorTracker,
+  IndicatorCandle,
+  IndicatorPoint,
+  IndicatorSnapshot,
+  IndicatorTracker,
+} from '@/lib/zikalyze-brain/indicators';
+
+export interface StreamingIndicatorsResult {
+  snapshot: IndicatorSnapshot;  // Latest values, including the forming candle
+  history: IndicatorPoint[];    // Committed values per completed candle
+}
+
+export function useStreamingIndicators(
+  feedKey: string,
+  completed: IndicatorCandle[],
+  current: IndicatorCandle | null
+): StreamingIndicatorsResult {
+  const trackerRef = useRef<{ key: string; tracker: IndicatorTracker } | null>(null);
+
+  return useMemo(() => {
+    if (trackerRef.current?.key !== feedKey) {
+      trackerRef.current = { key: feedKey, tracker: createIndicatorTracker() };
+    }
+    const { tracker } = trackerRef.current;
+    const snapshot = tracker.sync(completed, current);
+    return { snapshot, history: tracker.history() };
+  }, [feedKey, completed, current]);
+}
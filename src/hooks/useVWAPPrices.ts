@@ -14,7 +14,9 @@ import {
   calculateDynamicConfidence,
   AggregatedPrice,
   PriceDataPoint,
+  SourceContribution,
 } from '@/lib/vwap-aggregator';
+import { getSourceTicks, getVenueVolume } from '@/lib/price-feeds';
 
 export interface VWAPPriceData {
   symbol: string;
@@ -23,40 +25,13 @@ export interface VWAPPriceData {
   sourcesUsed: string[];
   outliersFiltered: number;
   method: 'vwap' | 'median' | 'single';
+  breakdown: SourceContribution[];
   lastUpdate: number;
 }
 
 // DeFiLlama price cache for VWAP integration
 const defiLlamaCache = new Map<string, { price: number; timestamp: number }>();
 
-// Estimated volumes by market cap ranking (for VWAP weighting)
-const ESTIMATED_VOLUMES: Record<string, number> = {
-  btc: 30_000_000_000,
-  eth: 15_000_000_000,
-  usdt: 50_000_000_000,
-  usdc: 10_000_000_000,
-  bnb: 1_000_000_000,
-  xrp: 2_000_000_000,
-  sol: 3_000_000_000,
-  ada: 500_000_000,
-  doge: 800_000_000,
-  trx: 400_000_000,
-  avax: 500_000_000,
-  link: 400_000_000,
-  dot: 300_000_000,
-  matic: 400_000_000,
-  ltc: 300_000_000,
-  uni: 200_000_000,
-  atom: 200_000_000,
-  xlm: 100_000_000,
-  etc: 150_000_000,
-  apt: 200_000_000,
-};
-
-function getEstimatedVolume(symbol: string): number {
-  return ESTIMATED_VOLUMES[symbol.toLowerCase()] || 50_000_000; // Default 50M
-}
-
 export function useVWAPPrices() {
   const { prices: wsPrices, connected: wsConnected } = useGlobalPriceWebSocket();
   const { prices: oraclePrices, isLive: oracleConnected } = useOraclePrices();
@@ -73,51 +48,39 @@ export function useVWAPPrices() {
     const lowerSymbol = symbol.toLowerCase();
     const dataPoints: PriceDataPoint[] = [];
     const now = Date.now();
-    const estimatedVolume = getEstimatedVolume(lowerSymbol);
 
-    // Source 1: WebSocket (primary real-time)
-    const wsData = wsPrices.get(lowerSymbol);
-    if (wsData && wsData.price > 0) {
+    // Sources 1..n: latest tick from every live venue and oracle for this symbol,
+    // weighted by the volume that venue actually traded (oracles report none
+    // and get a reliability-weighted floor share instead)
+    getSourceTicks(symbol).forEach(tick => {
+      const volume = getVenueVolume(symbol, tick.source) ?? 0;
       dataPoints.push(createPriceDataPoint(
-        'WebSocket',
-        wsData.price,
-        estimatedVolume * 0.6, // 60% weight to WebSocket
-        wsData.timestamp || now,
-        calculateDynamicConfidence('WebSocket', wsData.timestamp || now, true)
+        tick.source,
+        tick.price,
+        volume,
+        tick.timestamp || now,
+        calculateDynamicConfidence(tick.source, tick.timestamp || now, volume > 0)
       ));
-    }
-
-    // Source 2: Oracle prices (Pyth, etc.)
-    const oracleData = oraclePrices.get(lowerSymbol);
-    if (oracleData && oracleData.price > 0) {
-      const sourceWeight = oracleData.source === 'Pyth' ? 0.5 : 0.3;
-      dataPoints.push(createPriceDataPoint(
-        oracleData.source,
-        oracleData.price,
-        estimatedVolume * sourceWeight,
-        oracleData.lastUpdate || now,
-        calculateDynamicConfidence(oracleData.source, oracleData.lastUpdate || now, false)
-      ));
-    }
+    });
 
-    // Source 3: DeFiLlama cache (for gap-filling)
+    // Last source: DeFiLlama cache (for gap-filling, unless the feed already polled it)
     const llamaData = defiLlamaCache.get(lowerSymbol);
-    if (llamaData && llamaData.price > 0) {
+    if (llamaData && llamaData.price > 0 && !dataPoints.some(dp => dp.source === 'DeFiLlama')) {
       const age = now - llamaData.timestamp;
       // Only use if relatively fresh (< 2 minutes)
       if (age < 120000) {
         dataPoints.push(createPriceDataPoint(
           'DeFiLlama',
           llamaData.price,
-          estimatedVolume * 0.2, // Lower weight for cached data
+          0, // Aggregated price, no traded volume of its own
           llamaData.timestamp,
-          calculateDynamicConfidence('DeFiLlama', llamaData.timestamp, true)
+          calculateDynamicConfidence('DeFiLlama', llamaData.timestamp, false)
         ));
       }
     }
 
     return dataPoints;
-  }, [wsPrices, oraclePrices]);
+  }, []);
 
   /**
    * Process all symbols and compute VWAP prices
@@ -155,6 +118,7 @@ export function useVWAPPrices() {
           sourcesUsed: aggregated.sourcesUsed,
           outliersFiltered: aggregated.outliersSilent.length,
           method: aggregated.method,
+          breakdown: aggregated.breakdown,
           lastUpdate: aggregated.timestamp,
         });
       }
@@ -317,6 +317,45 @@ export type Database = {
         }
         Relationships: []
       }
+      strategy_rules: {
+        Row: {
+          alert: boolean
+          created_at: string
+          enabled: boolean
+          expression: string
+          id: string
+          last_triggered_at: string | null
+          name: string
+          symbol: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert?: boolean
+          created_at?: string
+          enabled?: boolean
+          expression: string
+          id: string
+          last_triggered_at?: string | null
+          name: string
+          symbol?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert?: boolean
+          created_at?: string
+          enabled?: boolean
+          expression?: string
+          id?: string
+          last_triggered_at?: string | null
+          name?: string
+          symbol?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_2fa: {
         Row: {
           backup_codes: string[] | null
@@ -0,0 +1,43 @@
+/// <reference lib="webworker" />
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧠 BRAIN WORKER — Runs analyses and screener batches off the main thread
+// ═══════════════════════════════════════════════════════════════════════════════
+// One BrainHost per worker; requests are typed in zikalyze-brain/rpc.ts and
+// answered with progress events followed by a result or an error.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { BrainRequest, BrainResponse, createBrainHost, isAbortError } from './zikalyze-brain/rpc';
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+const host = createBrainHost();
+const running = new Map<number, AbortController>();
+
+const post = (message: BrainResponse) => scope.postMessage(message);
+
+scope.onmessage = async (event: MessageEvent<BrainRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(request.id, controller);
+  try {
+    const result = await host.call(request.method, request.params, {
+      signal: controller.signal,
+      onProgress: (progress) => post({ type: 'progress', id: request.id, progress }),
+    });
+    post({ type: 'result', id: request.id, result });
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.id,
+      error: error instanceof Error ? error.message : String(error),
+      aborted: isAbortError(error),
+    });
+  } finally {
+    running.delete(request.id);
+  }
+};
@@ -0,0 +1,208 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛰️ BRAIN CLIENT — Main-thread side of the brain RPC
+// ═══════════════════════════════════════════════════════════════════════════════
+// Every analysis and screener batch goes through one shared brain.worker.ts.
+// Calls snapshot the live stores when they start, stream progress back, can be
+// cancelled with an AbortSignal, and analyses write the learned neural state
+// back into the live context. Where workers can't be created (or keep
+// crashing) the same BrainHost runs on the main thread instead.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getCatalystEvents } from './catalystCalendarPersistence';
+import { AnalysisInput, AnalysisProgress, AnalysisResult, defaultAnalysisContext, NeuralEnsembleState } from './zikalyze-brain';
+import {
+  BrainHost,
+  BrainMethod,
+  BrainParams,
+  BrainProgress,
+  BrainRequest,
+  BrainResponse,
+  BrainResult,
+  BrainStoreSync,
+  createBrainHost,
+} from './zikalyze-brain/rpc';
+import { ScreenerCandidate, ScreenerFailure, ScreenerOptions, ScreenerRow } from './zikalyze-brain/screener';
+
+const MAX_WORKER_CRASHES = 3;
+
+interface PendingCall {
+  resolve: (result: BrainResult<BrainMethod>) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: BrainProgress<BrainMethod>) => void;
+  retryOnMainThread: () => void;
+}
+
+// updated_at of each price-history record a host already holds
+type SentPriceHistory = Map<string, string>;
+
+let worker: Worker | null = null;
+let workerSent: SentPriceHistory = new Map();
+let workerCrashes = 0;
+let nextCallId = 1;
+const pending = new Map<number, PendingCall>();
+
+let mainThreadHost: BrainHost | null = null;
+const mainThreadSent: SentPriceHistory = new Map();
+
+// Analyses read and write neural state — run them one at a time so concurrent
+// calls for a symbol can't overwrite each other's learning
+let analyzeQueue: Promise<unknown> = Promise.resolve();
+
+const abortError = () => new DOMException('Brain call aborted', 'AbortError');
+
+function syncFor(sent: SentPriceHistory, symbols: string[]): BrainStoreSync {
+  const ctx = defaultAnalysisContext;
+  const neuralStates: Record<string, NeuralEnsembleState> = {};
+  symbols.forEach(symbol => {
+    const state = ctx.neuralState.get(symbol);
+    if (state) neuralStates[symbol] = state;
+  });
+  // Correlation and regime read BTC/ETH and every other tracked symbol
+  const priceHistory = ctx.priceHistory.symbols()
+    .map(symbol => ctx.priceHistory.get(symbol))
+    .filter(record => record && sent.get(record.symbol) !== record.updated_at);
+  priceHistory.forEach(record => sent.set(record.symbol, record.updated_at));
+  return {
+    now: ctx.clock.now(),
+    catalystEvents: getCatalystEvents(),
+    neuralStates,
+    volumeHistory: symbols.map(symbol => ctx.volumeHistory.get(symbol)).filter(Boolean),
+    priceHistory,
+  };
+}
+
+function handleWorkerCrash(crashed: Worker, reason: string) {
+  if (crashed !== worker) return;
+  console.warn('[Brain] Worker failed, continuing on the main thread:', reason);
+  crashed.terminate();
+  worker = null;
+  workerCrashes++;
+  const stranded = [...pending.values()];
+  pending.clear();
+  stranded.forEach(call => call.retryOnMainThread());
+}
+
+function getWorker(): Worker | null {
+  if (worker) return worker;
+  if (workerCrashes >= MAX_WORKER_CRASHES || typeof Worker === 'undefined') return null;
+  try {
+    const created = new Worker(new URL('./brain.worker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = (event: MessageEvent<BrainResponse>) => {
+      const message = event.data;
+      const call = pending.get(message.id);
+      if (!call) return;
+      if (message.type === 'progress') {
+        call.onProgress?.(message.progress);
+        return;
+      }
+      pending.delete(message.id);
+      if (message.type === 'result') call.resolve(message.result);
+      else call.reject(message.aborted ? abortError() : new Error(message.error));
+    };
+    created.onerror = (event) => handleWorkerCrash(created, event.message || 'worker error');
+    created.onmessageerror = () => handleWorkerCrash(created, 'unreadable message');
+    worker = created;
+    workerSent = new Map();
+  } catch (err) {
+    console.warn('[Brain] Worker unavailable, running on the main thread:', err);
+    workerCrashes = MAX_WORKER_CRASHES;
+  }
+  return worker;
+}
+
+function callOnMainThread<M extends BrainMethod>(
+  method: M,
+  buildParams: (sync: (symbols: string[]) => BrainStoreSync) => BrainParams<M>,
+  signal?: AbortSignal,
+  onProgress?: (progress: BrainProgress<M>) => void,
+): Promise<BrainResult<M>> {
+  if (!mainThreadHost) mainThreadHost = createBrainHost();
+  return mainThreadHost.call(method, buildParams(symbols => syncFor(mainThreadSent, symbols)), { signal, onProgress });
+}
+
+function callBrain<M extends BrainMethod>(
+  method: M,
+  buildParams: (sync: (symbols: string[]) => BrainStoreSync) => BrainParams<M>,
+  signal?: AbortSignal,
+  onProgress?: (progress: BrainProgress<M>) => void,
+): Promise<BrainResult<M>> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const target = getWorker();
+  if (!target) return callOnMainThread(method, buildParams, signal, onProgress);
+
+  return new Promise<BrainResult<M>>((resolve, reject) => {
+    const id = nextCallId++;
+    // Settle now; a result the worker was already sending is dropped
+    const onAbort = () => {
+      const cancel: BrainRequest = { type: 'cancel', id };
+      target.postMessage(cancel);
+      pending.delete(id);
+      reject(abortError());
+    };
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+    pending.set(id, {
+      resolve: (result) => { settle(); resolve(result as BrainResult<M>); },
+      reject: (error) => { settle(); reject(error); },
+      onProgress: onProgress as PendingCall['onProgress'],
+      retryOnMainThread: () => {
+        settle();
+        callOnMainThread(method, buildParams, signal, onProgress).then(resolve, reject);
+      },
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const request = {
+      type: 'call',
+      id,
+      method,
+      params: buildParams(symbols => syncFor(workerSent, symbols)),
+    } as BrainRequest;
+    target.postMessage(request);
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 PUBLIC CALLS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface AnalyzeInBrainOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export function analyzeInBrain(input: AnalysisInput, options: AnalyzeInBrainOptions = {}): Promise<AnalysisResult> {
+  const run = async () => {
+    const { result, neuralState } = await callBrain(
+      'analyze',
+      sync => ({ input, sync: sync([input.crypto]) }),
+      options.signal,
+      options.onProgress,
+    );
+    if (neuralState) defaultAnalysisContext.neuralState.set(input.crypto, neuralState);
+    return result;
+  };
+  const queued = analyzeQueue.then(run, run);
+  analyzeQueue = queued.catch(() => undefined);
+  return queued;
+}
+
+export interface ScreenInBrainOptions {
+  signal?: AbortSignal;
+  onRow?: (row: ScreenerRow, done: number, total: number) => void;
+  onFailure?: (failure: ScreenerFailure, done: number, total: number) => void;
+}
+
+export function screenInBrain(
+  candidates: ScreenerCandidate[],
+  screenerOptions: ScreenerOptions,
+  options: ScreenInBrainOptions = {},
+): Promise<{ rows: ScreenerRow[]; failures: ScreenerFailure[] }> {
+  return callBrain(
+    'screen',
+    sync => ({ candidates, options: screenerOptions, sync: sync(candidates.map(c => c.symbol)) }),
+    options.signal,
+    (progress) => {
+      if ('row' in progress) options.onRow?.(progress.row, progress.done, progress.total);
+      else options.onFailure?.(progress.failure, progress.done, progress.total);
+    },
+  );
+}
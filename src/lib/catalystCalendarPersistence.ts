@@ -0,0 +1,84 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗓️ CATALYST CALENDAR PERSISTENCE — IndexedDB-backed calendar for the brain
+// ═══════════════════════════════════════════════════════════════════════════════
+// Holds the user's catalyst events in memory for the brain's synchronous reads
+// and writes every edit through to IndexedDB. The built-in FOMC/CPI schedule is
+// copied in once on first run, so those dates can be edited or removed too.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as storage from './clientStorage';
+import { defaultAnalysisContext, eventCatalystCalendar } from './zikalyze-brain/context';
+import { BUILT_IN_CATALYST_EVENTS, mergeCatalystEvents } from './zikalyze-brain/catalyst-calendar';
+import type { CatalystEvent } from './zikalyze-brain/types';
+
+const SEEDED_KEY = 'zikalyze_catalysts_seeded';
+
+// Until hydration finishes the brain sees the built-in schedule
+let events: CatalystEvent[] = [...BUILT_IN_CATALYST_EVENTS];
+const listeners = new Set<(events: CatalystEvent[]) => void>();
+
+function publish(next: CatalystEvent[]) {
+  events = [...next].sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? ''));
+  listeners.forEach(listener => listener(events));
+}
+
+export const catalystCalendar = eventCatalystCalendar(() => events);
+
+export function getCatalystEvents(): CatalystEvent[] {
+  return events;
+}
+
+export function subscribeCatalystEvents(listener: (events: CatalystEvent[]) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export async function saveCatalystEvent(event: CatalystEvent): Promise<void> {
+  await storage.saveCatalystEvent(event);
+  publish([...events.filter(e => e.id !== event.id), event]);
+}
+
+export async function deleteCatalystEvent(id: string): Promise<void> {
+  await storage.deleteCatalystEvent(id);
+  publish(events.filter(e => e.id !== id));
+}
+
+// Merge an import into the calendar; returns how many events were added/updated
+export async function importCatalystEvents(incoming: CatalystEvent[]): Promise<{ added: number; updated: number }> {
+  const { events: merged, added, updated } = mergeCatalystEvents(events, incoming);
+  const changed = merged.filter(e => !events.includes(e));
+  for (const event of changed) await storage.saveCatalystEvent(event);
+  publish(merged);
+  return { added, updated };
+}
+
+// Put back any built-in dates the user removed (edited ones are kept)
+export async function restoreBuiltInCatalysts(): Promise<number> {
+  const missing = BUILT_IN_CATALYST_EVENTS.filter(seed => !events.some(e => e.id === seed.id));
+  for (const event of missing) await storage.saveCatalystEvent(event);
+  publish([...events, ...missing]);
+  return missing.length;
+}
+
+async function hydrate(): Promise<void> {
+  let stored = await storage.getAllCatalystEvents();
+  if (!localStorage.getItem(SEEDED_KEY)) {
+    const seeds = BUILT_IN_CATALYST_EVENTS.filter(seed => !stored.some(e => e.id === seed.id));
+    for (const event of seeds) await storage.saveCatalystEvent(event);
+    stored = [...stored, ...seeds];
+    localStorage.setItem(SEEDED_KEY, new Date().toISOString());
+  }
+  publish(stored);
+}
+
+let installPromise: Promise<void> | null = null;
+
+export function installCatalystCalendar(): Promise<void> {
+  if (installPromise) return installPromise;
+
+  defaultAnalysisContext.catalysts = catalystCalendar;
+
+  installPromise = hydrate()
+    .catch(error => console.warn('[CatalystCalendar] Hydration failed, using built-in schedule:', error));
+  return installPromise;
+}
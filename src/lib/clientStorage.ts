@@ -4,8 +4,10 @@
 // Provides offline-first data persistence with optional cloud sync
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import type { AnalysisOutcomes, CatalystEvent, PriceHistoryRecord, VolumeHistoryRecord } from './zikalyze-brain/types';
+
 const DB_NAME = 'ZikalyzeDB';
-const DB_VERSION = 1;
+const DB_VERSION = 6; // v2: neuralState store, v3: volumeHistory store, v4: catalystEvents store, v5: priceHistory store, v6: strategyRules store
 
 // Store names
 export const STORES = {
@@ -16,6 +18,11 @@ export const STORES = {
   OHLC_DATA: 'ohlcData',
   USER_SETTINGS: 'userSettings',
   SYNC_QUEUE: 'syncQueue',
+  NEURAL_STATE: 'neuralState',
+  VOLUME_HISTORY: 'volumeHistory',
+  CATALYST_EVENTS: 'catalystEvents',
+  PRICE_HISTORY: 'priceHistory',
+  STRATEGY_RULES: 'strategyRules',
 } as const;
 
 let dbInstance: IDBDatabase | null = null;
@@ -93,6 +100,37 @@ export async function initDB(): Promise<IDBDatabase> {
         syncStore.createIndex('created_at', 'created_at', { unique: false });
       }
 
+      // Neural Ensemble State Store (also written by the background learning worker)
+      if (!db.objectStoreNames.contains(STORES.NEURAL_STATE)) {
+        const neuralStore = db.createObjectStore(STORES.NEURAL_STATE, { keyPath: 'symbol' });
+        neuralStore.createIndex('updated_at', 'updated_at', { unique: false });
+      }
+
+      // Volume History Store (24h volume snapshots + hourly candle volume per symbol)
+      if (!db.objectStoreNames.contains(STORES.VOLUME_HISTORY)) {
+        const volumeStore = db.createObjectStore(STORES.VOLUME_HISTORY, { keyPath: 'symbol' });
+        volumeStore.createIndex('updated_at', 'updated_at', { unique: false });
+      }
+
+      // Catalyst Calendar Store (user-editable FOMC/CPI, unlocks, ETF deadlines, imports)
+      if (!db.objectStoreNames.contains(STORES.CATALYST_EVENTS)) {
+        const catalystStore = db.createObjectStore(STORES.CATALYST_EVENTS, { keyPath: 'id' });
+        catalystStore.createIndex('date', 'date', { unique: false });
+      }
+
+      // Price History Store (hourly closes per tracked symbol, for correlation and regime)
+      if (!db.objectStoreNames.contains(STORES.PRICE_HISTORY)) {
+        const priceStore = db.createObjectStore(STORES.PRICE_HISTORY, { keyPath: 'symbol' });
+        priceStore.createIndex('updated_at', 'updated_at', { unique: false });
+      }
+
+      // Strategy Rules Store (user-written indicator rules, synced like price alerts)
+      if (!db.objectStoreNames.contains(STORES.STRATEGY_RULES)) {
+        const rulesStore = db.createObjectStore(STORES.STRATEGY_RULES, { keyPath: 'id' });
+        rulesStore.createIndex('symbol', 'symbol', { unique: false });
+        rulesStore.createIndex('user_id', 'user_id', { unique: false });
+      }
+
       console.log('[ClientStorage] Database schema created/upgraded');
     };
   });
@@ -280,11 +318,16 @@ export interface ClientAnalysisRecord {
   change_24h: number;
   analysis_text: string;
   confidence: number | null;
+  raw_confidence?: number | null; // Before calibration — what calibration is fitted on. Local only.
   bias: string | null;
   created_at: string;
   user_id: string | null;
   was_correct: boolean | null;
   feedback_at: string | null;
+  feedback_source?: 'user' | 'auto'; // 'auto' = set by the outcome grader; user feedback always wins
+  grading_plan?: string | null;      // JSON GradingPlan — E2E-encrypted like bias
+  snapshot?: string | null;          // JSON AnalysisSnapshot — E2E-encrypted like bias
+  outcomes?: AnalysisOutcomes;       // Graded by horizon. Local only.
   synced: boolean;
 }
 
@@ -299,6 +342,10 @@ export async function getAnalysisHistory(symbol: string, limit = 10): Promise<Cl
     .slice(0, limit);
 }
 
+export async function getAllAnalysisHistory(): Promise<ClientAnalysisRecord[]> {
+  return getAll<ClientAnalysisRecord>(STORES.ANALYSIS_HISTORY);
+}
+
 export async function deleteAnalysisRecord(id: string): Promise<void> {
   return remove(STORES.ANALYSIS_HISTORY, id);
 }
@@ -308,10 +355,31 @@ export async function updateAnalysisFeedback(id: string, wasCorrect: boolean): P
   if (record) {
     record.was_correct = wasCorrect;
     record.feedback_at = new Date().toISOString();
+    record.feedback_source = 'user';
     await put(STORES.ANALYSIS_HISTORY, record);
   }
 }
 
+// Store graded outcomes; `label` becomes was_correct unless the user already gave feedback
+export async function saveAnalysisOutcomes(
+  id: string,
+  outcomes: AnalysisOutcomes,
+  label: boolean | null
+): Promise<ClientAnalysisRecord | undefined> {
+  const record = await get<ClientAnalysisRecord>(STORES.ANALYSIS_HISTORY, id);
+  if (!record) return undefined;
+  record.outcomes = { ...record.outcomes, ...outcomes };
+  // Feedback from before sources were recorded came from the user
+  const userGraded = record.feedback_source === 'user' || (record.was_correct !== null && !record.feedback_source);
+  if (label !== null && !userGraded) {
+    record.was_correct = label;
+    record.feedback_at = new Date().toISOString();
+    record.feedback_source = 'auto';
+  }
+  await put(STORES.ANALYSIS_HISTORY, record);
+  return record;
+}
+
 // AI Learning Data
 export interface ClientAILearning {
   symbol: string;
@@ -347,6 +415,93 @@ export async function getAllAILearning(): Promise<ClientAILearning[]> {
   return getAll<ClientAILearning>(STORES.AI_LEARNING);
 }
 
+// Neural Ensemble State — `state` is migrated/validated by the brain, not here
+export interface ClientNeuralState {
+  symbol: string;
+  schemaVersion?: number;
+  state: unknown;
+  updated_at?: string;
+}
+
+export async function saveNeuralState(record: ClientNeuralState): Promise<void> {
+  return put(STORES.NEURAL_STATE, record);
+}
+
+export async function getNeuralStateRecord(symbol: string): Promise<ClientNeuralState | undefined> {
+  return get<ClientNeuralState>(STORES.NEURAL_STATE, symbol);
+}
+
+export async function getAllNeuralStates(): Promise<ClientNeuralState[]> {
+  return getAll<ClientNeuralState>(STORES.NEURAL_STATE);
+}
+
+export async function deleteNeuralState(symbol: string): Promise<void> {
+  return remove(STORES.NEURAL_STATE, symbol);
+}
+
+// Volume History — maintained by the brain's volume-history helpers
+export async function saveVolumeHistory(record: VolumeHistoryRecord): Promise<void> {
+  return put(STORES.VOLUME_HISTORY, record);
+}
+
+export async function getVolumeHistory(symbol: string): Promise<VolumeHistoryRecord | undefined> {
+  return get<VolumeHistoryRecord>(STORES.VOLUME_HISTORY, symbol);
+}
+
+export async function getAllVolumeHistory(): Promise<VolumeHistoryRecord[]> {
+  return getAll<VolumeHistoryRecord>(STORES.VOLUME_HISTORY);
+}
+
+// Catalyst Calendar
+export async function saveCatalystEvent(event: CatalystEvent): Promise<void> {
+  return put(STORES.CATALYST_EVENTS, event);
+}
+
+export async function getAllCatalystEvents(): Promise<CatalystEvent[]> {
+  return getAll<CatalystEvent>(STORES.CATALYST_EVENTS);
+}
+
+export async function deleteCatalystEvent(id: string): Promise<void> {
+  return remove(STORES.CATALYST_EVENTS, id);
+}
+
+// Price History — maintained by the brain's price-history helpers
+export async function savePriceHistory(record: PriceHistoryRecord): Promise<void> {
+  return put(STORES.PRICE_HISTORY, record);
+}
+
+export async function getAllPriceHistory(): Promise<PriceHistoryRecord[]> {
+  return getAll<PriceHistoryRecord>(STORES.PRICE_HISTORY);
+}
+
+// Strategy Rules
+export interface ClientStrategyRule {
+  id: string;
+  name: string;
+  expression: string;       // Rule source — see zikalyze-brain/strategy-rules.ts
+  symbol: string | null;    // null = evaluated on every symbol
+  enabled: boolean;
+  alert: boolean;           // Notify when the rule starts matching
+  last_triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+  user_id: string | null;
+  synced?: boolean;
+}
+
+export async function saveStrategyRule(rule: ClientStrategyRule): Promise<void> {
+  return put(STORES.STRATEGY_RULES, rule);
+}
+
+export async function getAllStrategyRules(): Promise<ClientStrategyRule[]> {
+  const rules = await getAll<ClientStrategyRule>(STORES.STRATEGY_RULES);
+  return rules.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function deleteStrategyRule(id: string): Promise<void> {
+  return remove(STORES.STRATEGY_RULES, id);
+}
+
 // Price Cache
 export interface ClientPriceCache {
   symbol: string;
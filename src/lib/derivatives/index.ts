@@ -0,0 +1,42 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📉 Derivatives — Perpetual funding, open interest and liquidations
+// ═══════════════════════════════════════════════════════════════════════════════
+// Each venue implements DerivativesVenue (funding + liquidation stream, REST for
+// settled funding and open interest) and registers here; the store keeps a
+// rolling history per symbol and derives positioning metrics from it.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { registerDerivativesVenue } from './store';
+import { binanceDerivativesVenue } from './venues/binance';
+
+// Built-in venues
+[binanceDerivativesVenue].forEach(registerDerivativesVenue);
+
+// Store
+export {
+  registerDerivativesVenue,
+  subscribeDerivatives,
+  getDerivativesView,
+  getDerivativesMetrics,
+  type DerivativesListener,
+} from './store';
+
+// Pure building blocks
+export { analyzeDerivatives, findLiquidationClusters, OI_REGIME_WINDOW_HOURS } from './metrics';
+
+export type {
+  FundingSample,
+  FundingTick,
+  OpenInterestSample,
+  OpenInterestReading,
+  LiquidationEvent,
+  DerivativesStreamEvent,
+  DerivativesVenue,
+  DerivativesHistory,
+  DerivativesStatus,
+  DerivativesMetrics,
+  DerivativesView,
+  FundingExtreme,
+  LiquidationCluster,
+  OpenInterestRegime,
+} from './types';
@@ -0,0 +1,198 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 Derivatives Metrics — Funding extremes, OI/price regime, liquidation clusters
+// ═══════════════════════════════════════════════════════════════════════════════
+// Funding is judged against the symbol's own settled history where there is
+// enough of it (a z-score), and against fixed per-8h rates otherwise — what is
+// extreme for a memecoin is not for BTC.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type {
+  DerivativesHistory,
+  DerivativesMetrics,
+  FundingExtreme,
+  LiquidationCluster,
+  LiquidationEvent,
+  OpenInterestRegime,
+  OpenInterestSample,
+} from './types';
+import type { FundingInput, LiquidationInput, OpenInterestInput } from '@/lib/zikalyze-brain/types';
+
+const HOUR = 60 * 60 * 1000;
+
+// Funding
+const FUNDING_MIN_SAMPLES = 21;         // a week of 8h settlements before the z-score counts
+const FUNDING_EXTREME_Z = 2;
+const FUNDING_BASELINE_8H = 0.0001;     // the usual 0.01% when longs and shorts are balanced
+const FUNDING_CROWDED_LONG_8H = 0.0005; // extreme on any history
+const FUNDING_CROWDED_SHORT_8H = -0.0003;
+
+// Open interest
+export const OI_REGIME_WINDOW_HOURS = 4;
+const OI_LOOKBACK_TOLERANCE = 15 * 60 * 1000; // a sample this close to the target time stands in for it
+const OI_MIN_PRICE_MOVE = 0.5;          // % over the window
+const OI_MIN_OI_MOVE = 1;               // % over the window
+
+// Liquidations
+const CLUSTER_GAP_MS = 2 * 60 * 1000;   // events further apart start a new cluster
+const CLUSTER_PRICE_PERCENT = 0.5;      // and so do events this far from the cluster's price
+const CLUSTER_MIN_EVENTS = 3;
+const CLUSTER_MIN_SHARE = 0.1;          // of the side's 24h liquidations
+const MAX_CLUSTERS = 5;
+
+const percentChange = (from: number, to: number) => (from > 0 ? ((to - from) / from) * 100 : 0);
+
+function analyzeFunding(history: DerivativesHistory, intervalHours: number): FundingInput | null {
+  const latestSettled = history.funding[history.funding.length - 1];
+  const rate = history.live?.rate ?? latestSettled?.rate;
+  if (rate === undefined) return null;
+
+  const rates = history.funding.map(f => f.rate);
+  const mean = rates.length > 0 ? rates.reduce((sum, r) => sum + r, 0) / rates.length : null;
+  let zScore: number | null = null;
+  if (mean !== null && rates.length >= FUNDING_MIN_SAMPLES) {
+    const variance = rates.reduce((sum, r) => sum + (r - mean) ** 2, 0) / rates.length;
+    const std = Math.sqrt(variance);
+    zScore = std > 0 ? (rate - mean) / std : null;
+  }
+
+  // Compare like with like: venues settle every 1, 4 or 8 hours
+  const rate8h = rate * (8 / intervalHours);
+  let extreme: FundingExtreme = 'NONE';
+  if (rate8h >= FUNDING_CROWDED_LONG_8H || (zScore !== null && zScore >= FUNDING_EXTREME_Z && rate8h > FUNDING_BASELINE_8H)) {
+    extreme = 'CROWDED_LONG';
+  } else if (rate8h <= FUNDING_CROWDED_SHORT_8H || (zScore !== null && zScore <= -FUNDING_EXTREME_Z && rate8h < 0)) {
+    extreme = 'CROWDED_SHORT';
+  }
+
+  return {
+    rate,
+    intervalHours,
+    annualizedPercent: rate * (24 / intervalHours) * 365 * 100,
+    mean,
+    zScore,
+    extreme,
+    nextFundingTime: history.live?.nextFundingTime ?? null,
+  };
+}
+
+// Latest sample at or before `time`, if one is close enough to stand in for it
+function sampleAt(samples: OpenInterestSample[], time: number): OpenInterestSample | null {
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (samples[i].time <= time) return time - samples[i].time <= OI_LOOKBACK_TOLERANCE ? samples[i] : null;
+  }
+  return null;
+}
+
+function classifyRegime(priceChange: number, oiChange: number): OpenInterestRegime {
+  if (Math.abs(priceChange) < OI_MIN_PRICE_MOVE || Math.abs(oiChange) < OI_MIN_OI_MOVE) return 'NONE';
+  if (priceChange > 0) return oiChange > 0 ? 'NEW_LONGS' : 'SHORT_COVERING';
+  return oiChange > 0 ? 'NEW_SHORTS' : 'LONG_UNWIND';
+}
+
+function analyzeOpenInterest(samples: OpenInterestSample[]): OpenInterestInput | null {
+  const latest = samples[samples.length - 1];
+  if (!latest) return null;
+
+  const change = (hours: number) => {
+    const past = sampleAt(samples, latest.time - hours * HOUR);
+    return past ? percentChange(past.openInterest, latest.openInterest) : null;
+  };
+
+  // Contracts rather than notional, so a price move alone does not read as positioning
+  const windowStart = sampleAt(samples, latest.time - OI_REGIME_WINDOW_HOURS * HOUR);
+  const priceChange = windowStart ? percentChange(windowStart.price, latest.price) : null;
+  const oiChange = windowStart ? percentChange(windowStart.openInterest, latest.openInterest) : null;
+  const regime = priceChange !== null && oiChange !== null ? classifyRegime(priceChange, oiChange) : 'NONE';
+
+  return {
+    notional: latest.notional,
+    change1h: change(1),
+    change24h: change(24),
+    priceChange,
+    oiChange,
+    windowHours: OI_REGIME_WINDOW_HOURS,
+    regime,
+    divergence: regime === 'SHORT_COVERING' || regime === 'LONG_UNWIND',
+  };
+}
+
+/**
+ * Liquidations of one side bunched in time and price, largest first. Events
+ * must arrive oldest first.
+ */
+export function findLiquidationClusters(events: LiquidationEvent[]): LiquidationCluster[] {
+  const clusters: LiquidationCluster[] = [];
+
+  for (const side of ['LONG', 'SHORT'] as const) {
+    const sideEvents = events.filter(e => e.side === side);
+    const sideTotal = sideEvents.reduce((sum, e) => sum + e.notional, 0);
+    let current: LiquidationCluster | null = null;
+    let weighted = 0; // Σ price × notional for the running cluster
+
+    const close = () => {
+      if (current && current.count >= CLUSTER_MIN_EVENTS && current.notional >= sideTotal * CLUSTER_MIN_SHARE) {
+        clusters.push(current);
+      }
+      current = null;
+    };
+
+    for (const event of sideEvents) {
+      const joins = current
+        && event.time - current.end <= CLUSTER_GAP_MS
+        && Math.abs(event.price - current.price) / current.price * 100 <= CLUSTER_PRICE_PERCENT;
+      if (!joins) {
+        close();
+        weighted = 0;
+        current = { side, price: event.price, low: event.price, high: event.price, notional: 0, count: 0, start: event.time, end: event.time };
+      }
+      const cluster = current!;
+      weighted += event.price * event.notional;
+      cluster.notional += event.notional;
+      cluster.count += 1;
+      cluster.price = cluster.notional > 0 ? weighted / cluster.notional : event.price;
+      cluster.low = Math.min(cluster.low, event.price);
+      cluster.high = Math.max(cluster.high, event.price);
+      cluster.end = event.time;
+    }
+    close();
+  }
+
+  return clusters.sort((a, b) => b.notional - a.notional).slice(0, MAX_CLUSTERS);
+}
+
+function analyzeLiquidations(events: LiquidationEvent[], now: number): LiquidationInput {
+  const sum = (side: LiquidationEvent['side'], since: number) =>
+    events.reduce((total, e) => (e.side === side && e.time >= since ? total + e.notional : total), 0);
+  const dayAgo = now - 24 * HOUR;
+  return {
+    longs1h: sum('LONG', now - HOUR),
+    shorts1h: sum('SHORT', now - HOUR),
+    longs24h: sum('LONG', dayAgo),
+    shorts24h: sum('SHORT', dayAgo),
+    clusters: findLiquidationClusters(events.filter(e => e.time >= dayAgo)),
+  };
+}
+
+/**
+ * Positioning metrics from a symbol's rolling history; null until the venue
+ * has reported a funding rate
+ */
+export function analyzeDerivatives(
+  symbol: string,
+  source: string,
+  history: DerivativesHistory,
+  intervalHours: number,
+  now: number = Date.now()
+): DerivativesMetrics | null {
+  const funding = analyzeFunding(history, intervalHours);
+  if (!funding) return null;
+
+  return {
+    symbol,
+    source,
+    timestamp: now,
+    funding,
+    openInterest: analyzeOpenInterest(history.openInterest),
+    liquidations: analyzeLiquidations(history.liquidations, now),
+  };
+}
@@ -0,0 +1,330 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ Derivatives Store — Rolling funding, OI and liquidation history per symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+// • Stream: the venue's funding + liquidation stream runs while anyone watches
+//   the symbol; REST polls fill in open interest and settled funding
+// • History: kept per symbol across subscriptions (OI at 5-minute resolution
+//   for 48h, liquidations for 24h), backfilled from REST when a watch starts
+// • Fan-out: listeners get a throttled view with fresh metrics
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { analyzeDerivatives } from './metrics';
+import type {
+  DerivativesHistory,
+  DerivativesMetrics,
+  DerivativesStatus,
+  DerivativesVenue,
+  DerivativesView,
+  LiquidationEvent,
+  OpenInterestSample,
+} from './types';
+
+const HOUR = 60 * 60 * 1000;
+const EMIT_INTERVAL = 1000;
+const OPEN_INTEREST_POLL_INTERVAL = 30 * 1000;
+const FUNDING_HISTORY_REFRESH = 30 * 60 * 1000;  // settlements land every few hours
+const REST_RETRY_DELAY = 15 * 1000;
+const RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 30000;
+
+const OI_SAMPLE_INTERVAL = 5 * 60 * 1000;        // one sample per bucket, the latest reading wins
+const OI_RETENTION = 48 * HOUR;
+const LIQUIDATION_RETENTION = 24 * HOUR;
+const MAX_LIQUIDATIONS = 5000;
+
+export type DerivativesListener = (view: DerivativesView) => void;
+
+interface DerivativesSession {
+  symbol: string;
+  venue: DerivativesVenue | null;
+  listeners: Set<DerivativesListener>;
+  socket: WebSocket | null;
+  streaming: boolean;               // socket open
+  generation: number;               // bumped to cancel in-flight requests
+  reconnectAttempts: number;
+  timers: Set<ReturnType<typeof setTimeout>>;
+  emitPending: boolean;
+  view: DerivativesView;
+}
+
+const venues = new Map<string, DerivativesVenue>();
+const sessions = new Map<string, DerivativesSession>();
+const histories = new Map<string, DerivativesHistory>();
+
+// Plug in a derivatives venue (or replace one with the same id); first registered wins per symbol
+export function registerDerivativesVenue(venue: DerivativesVenue): void {
+  venues.set(venue.id, venue);
+}
+
+function historyFor(symbol: string): DerivativesHistory {
+  let history = histories.get(symbol);
+  if (!history) {
+    history = { funding: [], live: null, openInterest: [], liquidations: [] };
+    histories.set(symbol, history);
+  }
+  return history;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗂️ ROLLING HISTORY — arrays are replaced, never mutated, so views can be memoized
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function mergeOpenInterest(history: DerivativesHistory, samples: OpenInterestSample[], now: number) {
+  const buckets = new Map<number, OpenInterestSample>();
+  for (const sample of [...history.openInterest, ...samples]) {
+    const bucket = Math.floor(sample.time / OI_SAMPLE_INTERVAL);
+    const existing = buckets.get(bucket);
+    if (!existing || sample.time >= existing.time) buckets.set(bucket, sample);
+  }
+  history.openInterest = Array.from(buckets.values())
+    .filter(sample => sample.time >= now - OI_RETENTION)
+    .sort((a, b) => a.time - b.time);
+}
+
+function recordLiquidation(history: DerivativesHistory, event: LiquidationEvent, now: number) {
+  const kept = history.liquidations.filter(e => e.time >= now - LIQUIDATION_RETENTION);
+  kept.push(event);
+  history.liquidations = kept.length > MAX_LIQUIDATIONS ? kept.slice(-MAX_LIQUIDATIONS) : kept;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📣 VIEW
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function later(session: DerivativesSession, fn: () => void, delay: number) {
+  const timer = setTimeout(() => {
+    session.timers.delete(timer);
+    fn();
+  }, delay);
+  session.timers.add(timer);
+}
+
+function emit(session: DerivativesSession) {
+  const { venue, symbol } = session;
+  const history = historyFor(symbol);
+  const metrics = venue ? analyzeDerivatives(symbol, venue.name, history, venue.fundingIntervalHours) : null;
+  const status: DerivativesStatus = !session.streaming ? session.view.status : metrics ? 'live' : 'connecting';
+
+  session.view = { ...session.view, status, history: { ...history }, metrics };
+  const view = session.view;
+  session.listeners.forEach(listener => listener(view));
+}
+
+function scheduleEmit(session: DerivativesSession) {
+  if (session.emitPending) return;
+  session.emitPending = true;
+  later(session, () => {
+    session.emitPending = false;
+    emit(session);
+  }, EMIT_INTERVAL);
+}
+
+function setStatus(session: DerivativesSession, status: DerivativesStatus) {
+  if (session.view.status === status) return;
+  session.view = { ...session.view, status };
+  emit(session);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 REST — settled funding, open interest polls and the OI backfill
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function loadFundingHistory(session: DerivativesSession) {
+  const { venue } = session;
+  if (!venue) return;
+  const generation = session.generation;
+
+  venue.fetchFundingHistory(session.symbol)
+    .then(samples => {
+      if (generation !== session.generation) return;
+      historyFor(session.symbol).funding = [...samples].sort((a, b) => a.time - b.time);
+      scheduleEmit(session);
+      later(session, () => loadFundingHistory(session), FUNDING_HISTORY_REFRESH);
+    })
+    .catch(err => {
+      if (generation !== session.generation) return;
+      console.warn(`[Derivatives] ${venue.name} funding history for ${session.symbol} failed:`, err);
+      later(session, () => loadFundingHistory(session), REST_RETRY_DELAY);
+    });
+}
+
+function backfillOpenInterest(session: DerivativesSession) {
+  const { venue } = session;
+  if (!venue) return;
+  const generation = session.generation;
+
+  venue.fetchOpenInterestHistory(session.symbol)
+    .then(samples => {
+      if (generation !== session.generation) return;
+      mergeOpenInterest(historyFor(session.symbol), samples, Date.now());
+      scheduleEmit(session);
+    })
+    .catch(err => {
+      if (generation !== session.generation) return;
+      // Polls still build history from here on
+      console.warn(`[Derivatives] ${venue.name} open interest history for ${session.symbol} failed:`, err);
+    });
+}
+
+function pollOpenInterest(session: DerivativesSession) {
+  const { venue } = session;
+  if (!venue) return;
+  const generation = session.generation;
+
+  venue.fetchOpenInterest(session.symbol)
+    .then(reading => {
+      if (generation !== session.generation) return;
+      const history = historyFor(session.symbol);
+      // Value contracts at the mark; before the first tick, at the last known price
+      const price = history.live?.markPrice ?? history.openInterest[history.openInterest.length - 1]?.price;
+      if (price) {
+        const sample = { time: reading.time, openInterest: reading.openInterest, notional: reading.openInterest * price, price };
+        mergeOpenInterest(history, [sample], Date.now());
+        scheduleEmit(session);
+      }
+      later(session, () => pollOpenInterest(session), OPEN_INTEREST_POLL_INTERVAL);
+    })
+    .catch(err => {
+      if (generation !== session.generation) return;
+      console.warn(`[Derivatives] ${venue.name} open interest for ${session.symbol} failed:`, err);
+      later(session, () => pollOpenInterest(session), REST_RETRY_DELAY);
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 STREAM
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function connect(session: DerivativesSession) {
+  const venue = session.venue;
+  if (!venue) return;
+
+  setStatus(session, session.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+  let ws: WebSocket;
+  try {
+    ws = new WebSocket(venue.streamUrl(session.symbol));
+  } catch (err) {
+    console.warn(`[Derivatives] ${venue.name} stream failed to open:`, err);
+    scheduleReconnect(session);
+    return;
+  }
+  session.socket = ws;
+
+  ws.onopen = () => {
+    if (session.socket !== ws) return;
+    session.reconnectAttempts = 0;
+    session.streaming = true;
+    emit(session);
+  };
+
+  ws.onmessage = (event) => {
+    if (session.socket !== ws) return;
+    let parsed: ReturnType<DerivativesVenue['parse']> = null;
+    try {
+      parsed = venue.parse(JSON.parse(event.data));
+    } catch {
+      return;
+    }
+    if (!parsed) return;
+
+    const history = historyFor(session.symbol);
+    if (parsed.kind === 'funding') {
+      history.live = parsed.tick;
+    } else {
+      recordLiquidation(history, parsed.event, Date.now());
+    }
+    scheduleEmit(session);
+  };
+
+  ws.onclose = () => {
+    if (session.socket !== ws) return;
+    session.socket = null;
+    session.streaming = false;
+    scheduleReconnect(session);
+  };
+}
+
+function scheduleReconnect(session: DerivativesSession) {
+  session.reconnectAttempts++;
+  setStatus(session, 'reconnecting');
+  const delay = Math.min(RECONNECT_DELAY * Math.pow(1.5, session.reconnectAttempts - 1), MAX_RECONNECT_DELAY);
+  later(session, () => {
+    if (session.listeners.size > 0 && !session.socket) connect(session);
+  }, delay);
+}
+
+function start(session: DerivativesSession) {
+  if (!session.venue) {
+    setStatus(session, 'unsupported');
+    return;
+  }
+  connect(session);
+  loadFundingHistory(session);
+  backfillOpenInterest(session);
+  pollOpenInterest(session);
+}
+
+function close(session: DerivativesSession) {
+  session.generation++;
+  session.timers.forEach(timer => clearTimeout(timer));
+  session.timers.clear();
+  session.emitPending = false;
+  const ws = session.socket;
+  session.socket = null;
+  session.streaming = false;
+  ws?.close();
+  // The predicted rate is only current while streaming; settled history stays
+  historyFor(session.symbol).live = null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 PUBLIC API
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Watch one symbol's perpetual; the listener gets the current view right away
+export function subscribeDerivatives(symbol: string, listener: DerivativesListener): () => void {
+  const normalized = symbol.toUpperCase();
+  let session = sessions.get(normalized);
+
+  if (!session) {
+    const venue = Array.from(venues.values()).find(v => v.supports(normalized)) ?? null;
+    session = {
+      symbol: normalized,
+      venue,
+      listeners: new Set(),
+      socket: null,
+      streaming: false,
+      generation: 0,
+      reconnectAttempts: 0,
+      timers: new Set(),
+      emitPending: false,
+      view: { symbol: normalized, status: 'idle', source: venue?.name ?? null, history: { ...historyFor(normalized) }, metrics: null },
+    };
+    sessions.set(normalized, session);
+  }
+
+  const active = session;
+  active.listeners.add(listener);
+  listener(active.view);
+  if (active.listeners.size === 1) start(active);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    active.listeners.delete(listener);
+    if (active.listeners.size > 0) return;
+    close(active);
+    sessions.delete(normalized);
+  };
+}
+
+export function getDerivativesView(symbol: string): DerivativesView | null {
+  return sessions.get(symbol.toUpperCase())?.view ?? null;
+}
+
+// Latest metrics while the symbol is watched and streaming
+export function getDerivativesMetrics(symbol: string): DerivativesMetrics | null {
+  const view = getDerivativesView(symbol);
+  return view?.status === 'live' ? view.metrics : null;
+}
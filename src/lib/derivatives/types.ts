@@ -0,0 +1,86 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📉 Derivatives Types — Venue contract, rolling history and positioning metrics
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { DerivativesInput, FundingExtreme, LiquidationCluster, OpenInterestRegime } from '@/lib/zikalyze-brain/types';
+
+export type { FundingExtreme, LiquidationCluster, OpenInterestRegime };
+
+// A settled funding payment
+export interface FundingSample {
+  time: number;
+  rate: number;                 // Per funding interval, e.g. 0.0001 = 0.01%
+}
+
+// The venue's running estimate for the next payment
+export interface FundingTick {
+  time: number;
+  rate: number;
+  markPrice: number;
+  nextFundingTime: number | null;
+}
+
+export interface OpenInterestSample {
+  time: number;
+  openInterest: number;         // Contracts in base units
+  notional: number;             // USD
+  price: number;                // Price the notional was valued at
+}
+
+export interface OpenInterestReading {
+  time: number;
+  openInterest: number;
+}
+
+export interface LiquidationEvent {
+  time: number;
+  side: 'LONG' | 'SHORT';       // Position that was force-closed
+  price: number;
+  quantity: number;
+  notional: number;
+}
+
+export type DerivativesStreamEvent =
+  | { kind: 'funding'; tick: FundingTick }
+  | { kind: 'liquidation'; event: LiquidationEvent };
+
+// A perpetual futures venue: one stream for funding + liquidations, REST for the rest
+export interface DerivativesVenue {
+  readonly id: string;
+  readonly name: string;
+  readonly fundingIntervalHours: number;
+  supports(symbol: string): boolean;
+  streamUrl(symbol: string): string;
+  parse(data: unknown): DerivativesStreamEvent | null;
+  fetchFundingHistory(symbol: string): Promise<FundingSample[]>;
+  fetchOpenInterest(symbol: string): Promise<OpenInterestReading>;
+  fetchOpenInterestHistory(symbol: string): Promise<OpenInterestSample[]>;
+}
+
+// Rolling per-symbol history, oldest first; kept across subscriptions
+export interface DerivativesHistory {
+  funding: FundingSample[];
+  live: FundingTick | null;
+  openInterest: OpenInterestSample[];
+  liquidations: LiquidationEvent[];
+}
+
+export type DerivativesStatus =
+  | 'idle'
+  | 'connecting'
+  | 'live'
+  | 'reconnecting'
+  | 'unsupported';  // no venue lists a perpetual for the symbol
+
+// Everything the brain reads plus the symbol it was computed for
+export interface DerivativesMetrics extends DerivativesInput {
+  symbol: string;
+}
+
+export interface DerivativesView {
+  symbol: string;
+  status: DerivativesStatus;
+  source: string | null;
+  history: DerivativesHistory;
+  metrics: DerivativesMetrics | null;
+}
@@ -0,0 +1,133 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🟡 Binance — USDⓈ-M perpetuals: mark price + funding and liquidation streams
+// ═══════════════════════════════════════════════════════════════════════════════
+// The liquidation stream pushes at most one order per symbol per second, so
+// totals undercount a fast cascade — they still show which side is being hit.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { BINANCE_STREAMS, fetchJson } from '@/lib/price-feeds';
+import type { DerivativesVenue, FundingSample, OpenInterestSample } from '../types';
+
+const REST_BASE = 'https://fapi.binance.com';
+const FUNDING_HISTORY_LIMIT = 90;       // 30 days of 8h settlements
+const OI_HISTORY_PERIOD = '5m';
+const OI_HISTORY_LIMIT = 288;           // 24h
+
+// Perpetuals listed under a different contract than the spot pair
+const PERPETUAL_OVERRIDES: Record<string, string> = {
+  SHIB: '1000shibusdt',
+  PEPE: '1000pepeusdt',
+  FLOKI: '1000flokiusdt',
+  BONK: '1000bonkusdt',
+};
+const NO_PERPETUAL = new Set(['DAI']);
+
+const perpetualFor = (symbol: string): string | undefined =>
+  NO_PERPETUAL.has(symbol) ? undefined : PERPETUAL_OVERRIDES[symbol] ?? BINANCE_STREAMS[symbol];
+
+interface BinanceMarkPriceUpdate {
+  e?: string;       // 'markPriceUpdate'
+  E?: number;       // event time
+  p?: string;       // mark price
+  r?: string;       // predicted funding rate
+  T?: number;       // next funding time
+}
+
+interface BinanceForceOrder {
+  e?: string;       // 'forceOrder'
+  E?: number;
+  o?: {
+    S?: 'BUY' | 'SELL'; // SELL closes a long
+    q?: string;         // quantity
+    p?: string;         // order price
+    ap?: string;        // average fill price
+    z?: string;         // filled quantity
+    T?: number;         // trade time
+  };
+}
+
+interface BinanceFundingRate {
+  fundingTime?: number;
+  fundingRate?: string;
+}
+
+interface BinanceOpenInterest {
+  openInterest?: string;
+  time?: number;
+}
+
+interface BinanceOpenInterestHist {
+  sumOpenInterest?: string;
+  sumOpenInterestValue?: string;
+  timestamp?: number;
+}
+
+export const binanceDerivativesVenue: DerivativesVenue = {
+  id: 'binance',
+  name: 'Binance Futures',
+  fundingIntervalHours: 8,
+  supports: (symbol) => perpetualFor(symbol) !== undefined,
+  streamUrl: (symbol) => {
+    const pair = perpetualFor(symbol);
+    return `wss://fstream.binance.com/stream?streams=${pair}@markPrice@1s/${pair}@forceOrder`;
+  },
+  parse: (message) => {
+    const data = (message as { data?: unknown })?.data;
+    const mark = data as BinanceMarkPriceUpdate;
+    if (mark?.e === 'markPriceUpdate') {
+      const rate = parseFloat(mark.r ?? '');
+      const markPrice = parseFloat(mark.p ?? '');
+      if (!Number.isFinite(rate) || !(markPrice > 0)) return null;
+      return {
+        kind: 'funding',
+        tick: { time: mark.E ?? Date.now(), rate, markPrice, nextFundingTime: mark.T || null },
+      };
+    }
+
+    const force = data as BinanceForceOrder;
+    if (force?.e === 'forceOrder' && force.o) {
+      const { o } = force;
+      const filled = parseFloat(o.z ?? '');
+      const quantity = filled > 0 ? filled : parseFloat(o.q ?? '');
+      const average = parseFloat(o.ap ?? '');
+      const price = average > 0 ? average : parseFloat(o.p ?? '');
+      if (!(quantity > 0) || !(price > 0)) return null;
+      return {
+        kind: 'liquidation',
+        event: { time: o.T ?? force.E ?? Date.now(), side: o.S === 'SELL' ? 'LONG' : 'SHORT', price, quantity, notional: price * quantity },
+      };
+    }
+    return null;
+  },
+  fetchFundingHistory: async (symbol) => {
+    const pair = perpetualFor(symbol)!.toUpperCase();
+    const rows = await fetchJson<BinanceFundingRate[]>(
+      `${REST_BASE}/fapi/v1/fundingRate?symbol=${pair}&limit=${FUNDING_HISTORY_LIMIT}`
+    );
+    if (!Array.isArray(rows)) throw new Error('Malformed funding history');
+    return rows
+      .map((row): FundingSample => ({ time: row.fundingTime ?? 0, rate: parseFloat(row.fundingRate ?? '') }))
+      .filter(sample => sample.time > 0 && Number.isFinite(sample.rate));
+  },
+  fetchOpenInterest: async (symbol) => {
+    const pair = perpetualFor(symbol)!.toUpperCase();
+    const reading = await fetchJson<BinanceOpenInterest>(`${REST_BASE}/fapi/v1/openInterest?symbol=${pair}`);
+    const openInterest = parseFloat(reading?.openInterest ?? '');
+    if (!Number.isFinite(openInterest)) throw new Error('Malformed open interest');
+    return { time: reading.time ?? Date.now(), openInterest };
+  },
+  fetchOpenInterestHistory: async (symbol) => {
+    const pair = perpetualFor(symbol)!.toUpperCase();
+    const rows = await fetchJson<BinanceOpenInterestHist[]>(
+      `${REST_BASE}/futures/data/openInterestHist?symbol=${pair}&period=${OI_HISTORY_PERIOD}&limit=${OI_HISTORY_LIMIT}`
+    );
+    if (!Array.isArray(rows)) throw new Error('Malformed open interest history');
+    return rows
+      .map((row): OpenInterestSample => {
+        const openInterest = parseFloat(row.sumOpenInterest ?? '');
+        const notional = parseFloat(row.sumOpenInterestValue ?? '');
+        return { time: row.timestamp ?? 0, openInterest, notional, price: openInterest > 0 ? notional / openInterest : 0 };
+      })
+      .filter(sample => sample.time > 0 && sample.openInterest > 0 && sample.price > 0);
+  },
+};
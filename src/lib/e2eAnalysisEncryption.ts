@@ -8,7 +8,7 @@
 import { zkEncrypt, zkDecrypt, zkHash, generateSecureRandom } from './zkCrypto';
 
 // Fields that contain sensitive analysis content
-const ENCRYPTED_FIELDS = ['analysis_text', 'bias'] as const;
+const ENCRYPTED_FIELDS = ['analysis_text', 'bias', 'grading_plan', 'snapshot'] as const;
 
 // Marker prefix for encrypted data identification
 const E2E_PREFIX = 'E2E:';
@@ -21,6 +21,8 @@ export interface EncryptedAnalysisRecord {
   analysis_text: string; // Will be encrypted
   confidence: number | null;
   bias: string | null; // Will be encrypted
+  grading_plan?: string | null; // Will be encrypted — entry/stop/targets give the direction away
+  snapshot?: string | null; // Will be encrypted — structured copy of the verdict, levels and insights
   created_at: string;
   user_id: string | null;
   was_correct: boolean | null;
@@ -62,6 +64,26 @@ export async function encryptAnalysisRecord<T extends Partial<EncryptedAnalysisR
     }
   }
 
+  // Encrypt grading plan if present
+  if (encrypted.grading_plan && !encrypted.grading_plan.startsWith(E2E_PREFIX)) {
+    try {
+      const encryptedPlan = await zkEncrypt(encrypted.grading_plan);
+      encrypted.grading_plan = `${E2E_PREFIX}${encryptedPlan}`;
+    } catch (e) {
+      console.warn('[E2E] Failed to encrypt grading_plan:', e);
+    }
+  }
+
+  // Encrypt snapshot if present
+  if (encrypted.snapshot && !encrypted.snapshot.startsWith(E2E_PREFIX)) {
+    try {
+      const encryptedSnapshot = await zkEncrypt(encrypted.snapshot);
+      encrypted.snapshot = `${E2E_PREFIX}${encryptedSnapshot}`;
+    } catch (e) {
+      console.warn('[E2E] Failed to encrypt snapshot:', e);
+    }
+  }
+
   // Generate checksum for integrity
   if (encrypted.analysis_text) {
     encrypted._checksum = await generateChecksum(encrypted.id || '', encrypted.analysis_text);
@@ -113,6 +135,28 @@ export async function decryptAnalysisRecord<T extends Partial<EncryptedAnalysisR
     }
   }
 
+  // Decrypt grading plan if encrypted
+  if (decrypted.grading_plan?.startsWith(E2E_PREFIX)) {
+    try {
+      const encryptedData = decrypted.grading_plan.slice(E2E_PREFIX.length);
+      decrypted.grading_plan = (await zkDecrypt(encryptedData)) || null;
+    } catch (e) {
+      console.warn('[E2E] Failed to decrypt grading_plan:', e);
+      decrypted.grading_plan = null;
+    }
+  }
+
+  // Decrypt snapshot if encrypted
+  if (decrypted.snapshot?.startsWith(E2E_PREFIX)) {
+    try {
+      const encryptedData = decrypted.snapshot.slice(E2E_PREFIX.length);
+      decrypted.snapshot = (await zkDecrypt(encryptedData)) || null;
+    } catch (e) {
+      console.warn('[E2E] Failed to decrypt snapshot:', e);
+      decrypted.snapshot = null;
+    }
+  }
+
   delete decrypted._encrypted;
   delete decrypted._checksum;
   return decrypted;
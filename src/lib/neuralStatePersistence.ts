@@ -0,0 +1,54 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💾 NEURAL STATE PERSISTENCE — IndexedDB backend for the brain's neural ensemble
+// ═══════════════════════════════════════════════════════════════════════════════
+// Swaps the live context's in-memory neural state for one that survives reloads.
+// The background learning worker writes the same store and announces changes on
+// a BroadcastChannel, which re-reads that symbol here.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as storage from './clientStorage';
+// Direct module imports: this file is installed from the entry chunk, the brain barrel is not
+import { defaultAnalysisContext } from './zikalyze-brain/context';
+import { createPersistentNeuralStateStore, NeuralStateBackend } from './zikalyze-brain/neural-persistence';
+
+// Channel name shared with public/background-learning-worker.js
+export const NEURAL_STATE_CHANNEL = 'zikalyze-neural-state';
+
+const indexedDBBackend: NeuralStateBackend = {
+  loadAll: () => storage.getAllNeuralStates(),
+  load: (symbol) => storage.getNeuralStateRecord(symbol),
+  save: (record) => storage.saveNeuralState(record),
+  remove: (symbol) => storage.deleteNeuralState(symbol),
+};
+
+export const neuralStateStore = createPersistentNeuralStateStore(indexedDBBackend);
+
+let installPromise: Promise<void> | null = null;
+
+export function installNeuralStatePersistence(): Promise<void> {
+  if (installPromise) return installPromise;
+
+  defaultAnalysisContext.neuralState = neuralStateStore;
+
+  // Don't lose the last debounce window when the tab goes away
+  window.addEventListener('pagehide', () => { void neuralStateStore.flush(); });
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void neuralStateStore.flush();
+  });
+
+  // Worker writes — re-read so the in-memory copy doesn't overwrite newer data
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(NEURAL_STATE_CHANNEL);
+    channel.onmessage = (event: MessageEvent) => {
+      const { type, symbol } = event.data || {};
+      if (type === 'neural_state_updated' && typeof symbol === 'string') {
+        neuralStateStore.reload(symbol).catch(error => console.warn('[NeuralState] Reload failed:', error));
+      }
+    };
+  }
+
+  installPromise = neuralStateStore.hydrate()
+    .then(() => undefined)
+    .catch(error => console.warn('[NeuralState] Hydration failed, starting fresh:', error));
+  return installPromise;
+}
@@ -0,0 +1,74 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📖 Local Order Book — Snapshot plus sequence-checked diffs
+// ═══════════════════════════════════════════════════════════════════════════════
+// The stream only sends changes, so the book is seeded from a REST snapshot and
+// every diff must continue exactly where the previous one ended:
+// • diffs that end at or before the snapshot are already in it and are dropped
+// • the first diff applied must straddle snapshot.lastUpdateId + 1
+// • after that each diff must start at the previous finalUpdateId + 1
+// Anything else is a gap and the caller resyncs from a fresh snapshot.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { DepthUpdate, OrderBookLevel, OrderBookSnapshot } from './types';
+
+export interface LocalOrderBook {
+  bids: Map<number, number>; // price -> size
+  asks: Map<number, number>;
+  lastUpdateId: number;
+  bridged: boolean;          // first diff after the snapshot applied
+}
+
+export type DepthApplyResult = 'applied' | 'stale' | 'gap';
+
+function applyLevels(side: Map<number, number>, levels: OrderBookLevel[]) {
+  for (const [price, size] of levels) {
+    if (!Number.isFinite(price) || !Number.isFinite(size)) continue;
+    if (size <= 0) side.delete(price);
+    else side.set(price, size);
+  }
+}
+
+export function createLocalOrderBook(snapshot: OrderBookSnapshot): LocalOrderBook {
+  const book: LocalOrderBook = { bids: new Map(), asks: new Map(), lastUpdateId: snapshot.lastUpdateId, bridged: false };
+  applyLevels(book.bids, snapshot.bids);
+  applyLevels(book.asks, snapshot.asks);
+  return book;
+}
+
+export function applyDepthUpdate(book: LocalOrderBook, update: DepthUpdate): DepthApplyResult {
+  if (update.finalUpdateId <= book.lastUpdateId) return 'stale';
+
+  const next = book.lastUpdateId + 1;
+  const continues = book.bridged ? update.firstUpdateId === next : update.firstUpdateId <= next;
+  if (!continues) return 'gap';
+
+  applyLevels(book.bids, update.bids);
+  applyLevels(book.asks, update.asks);
+  book.lastUpdateId = update.finalUpdateId;
+  book.bridged = true;
+  return 'applied';
+}
+
+// Best-first levels within `bandPercent` of mid; the far side is dropped to bound memory
+export function bookLevels(book: LocalOrderBook, bandPercent: number): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+  const bids = Array.from(book.bids.entries()).sort((a, b) => b[0] - a[0]);
+  const asks = Array.from(book.asks.entries()).sort((a, b) => a[0] - b[0]);
+  if (bids.length === 0 || asks.length === 0) return { bids, asks };
+
+  const mid = (bids[0][0] + asks[0][0]) / 2;
+  const low = mid * (1 - bandPercent / 100);
+  const high = mid * (1 + bandPercent / 100);
+  return {
+    bids: bids.filter(([price]) => price >= low),
+    asks: asks.filter(([price]) => price <= high),
+  };
+}
+
+export function pruneOrderBook(book: LocalOrderBook, bandPercent: number): void {
+  const { bids, asks } = bookLevels(book, bandPercent);
+  if (bids.length === 0 || asks.length === 0) return;
+  const keepBids = new Set(bids.map(([price]) => price));
+  const keepAsks = new Set(asks.map(([price]) => price));
+  book.bids.forEach((_, price) => { if (!keepBids.has(price)) book.bids.delete(price); });
+  book.asks.forEach((_, price) => { if (!keepAsks.has(price)) book.asks.delete(price); });
+}
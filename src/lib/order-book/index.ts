@@ -0,0 +1,36 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 Order Book — Live L2 depth and the liquidity metrics built on it
+// ═══════════════════════════════════════════════════════════════════════════════
+// Each venue implements DepthVenue (diff stream + REST snapshot) and registers
+// here; the store keeps one sequence-checked book per watched symbol.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { registerDepthVenue } from './store';
+import { binanceDepthVenue } from './venues/binance';
+
+// Built-in venues
+[binanceDepthVenue].forEach(registerDepthVenue);
+
+// Store
+export {
+  registerDepthVenue,
+  subscribeOrderBook,
+  getOrderBookView,
+  getDepthMetrics,
+  type OrderBookListener,
+} from './store';
+
+// Pure building blocks
+export { analyzeOrderBook, DEPTH_BANDS_PERCENT } from './metrics';
+export { createLocalOrderBook, applyDepthUpdate, bookLevels, type LocalOrderBook, type DepthApplyResult } from './book';
+
+export type {
+  OrderBookLevel,
+  OrderBookSnapshot,
+  DepthUpdate,
+  DepthVenue,
+  OrderBookStatus,
+  DepthMetrics,
+  OrderBookWall,
+  OrderBookView,
+} from './types';
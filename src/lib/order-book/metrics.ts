@@ -0,0 +1,123 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 Depth Metrics — Spread, imbalance, depth bands and walls from a book
+// ═══════════════════════════════════════════════════════════════════════════════
+// Walls are found on price bands rather than single levels: on a fine tick size
+// size spreads across neighbouring prices, so one level rarely stands out even
+// when a large order sits there.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { DepthMetrics, OrderBookLevel, OrderBookWall } from './types';
+
+export const DEPTH_BANDS_PERCENT = [1, 2] as const;
+const WALL_BAND_PERCENT = 0.1;    // width of the price bands walls are measured on
+const WALL_MIN_MULTIPLE = 4;      // band must hold this many times the median band
+const MAX_WALLS_PER_SIDE = 3;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// USD resting on one side within `percent` of mid
+function depthWithin(levels: OrderBookLevel[], mid: number, percent: number, side: 'BID' | 'ASK'): number {
+  const limit = side === 'BID' ? mid * (1 - percent / 100) : mid * (1 + percent / 100);
+  let total = 0;
+  for (const [price, size] of levels) {
+    if (side === 'BID' ? price < limit : price > limit) break;
+    total += price * size;
+  }
+  return total;
+}
+
+interface Band {
+  notional: number;
+  topLevel: OrderBookLevel;
+}
+
+// Group a side within ±2% into fixed-width bands by distance from mid
+function bandsOf(levels: OrderBookLevel[], mid: number): Band[] {
+  const maxPercent = DEPTH_BANDS_PERCENT[DEPTH_BANDS_PERCENT.length - 1];
+  const bands = new Map<number, Band>();
+
+  for (const level of levels) {
+    const [price, size] = level;
+    const distance = (Math.abs(price - mid) / mid) * 100;
+    if (distance > maxPercent) break;
+    const index = Math.floor(distance / WALL_BAND_PERCENT);
+    const band = bands.get(index);
+    const notional = price * size;
+    if (!band) {
+      bands.set(index, { notional, topLevel: level });
+    } else {
+      band.notional += notional;
+      if (notional > band.topLevel[0] * band.topLevel[1]) band.topLevel = level;
+    }
+  }
+  return Array.from(bands.values());
+}
+
+function findWalls(bids: OrderBookLevel[], asks: OrderBookLevel[], mid: number): OrderBookWall[] {
+  const bidBands = bandsOf(bids, mid);
+  const askBands = bandsOf(asks, mid);
+  const typical = median([...bidBands, ...askBands].map(b => b.notional));
+  if (typical <= 0) return [];
+
+  const wallsOf = (bands: Band[], side: OrderBookWall['side']): OrderBookWall[] =>
+    bands
+      .filter(band => band.notional >= typical * WALL_MIN_MULTIPLE)
+      .sort((a, b) => b.notional - a.notional)
+      .slice(0, MAX_WALLS_PER_SIDE)
+      .map(band => ({
+        side,
+        price: band.topLevel[0],
+        notional: band.notional,
+        distancePercent: (Math.abs(band.topLevel[0] - mid) / mid) * 100,
+        multiple: band.notional / typical,
+      }));
+
+  return [...wallsOf(bidBands, 'BID'), ...wallsOf(askBands, 'ASK')].sort((a, b) => b.notional - a.notional);
+}
+
+/**
+ * Liquidity metrics for best-first bid and ask levels; null while either side is empty
+ */
+export function analyzeOrderBook(
+  symbol: string,
+  source: string,
+  bids: OrderBookLevel[],
+  asks: OrderBookLevel[],
+  timestamp: number = Date.now()
+): DepthMetrics | null {
+  if (bids.length === 0 || asks.length === 0) return null;
+
+  const bestBid = bids[0][0];
+  const bestAsk = asks[0][0];
+  const mid = (bestBid + bestAsk) / 2;
+  if (!(mid > 0) || bestAsk < bestBid) return null;
+
+  const [near, far] = DEPTH_BANDS_PERCENT;
+  const bidDepth1 = depthWithin(bids, mid, near, 'BID');
+  const askDepth1 = depthWithin(asks, mid, near, 'ASK');
+  const bidDepth2 = depthWithin(bids, mid, far, 'BID');
+  const askDepth2 = depthWithin(asks, mid, far, 'ASK');
+  const total = bidDepth2 + askDepth2;
+
+  return {
+    symbol,
+    source,
+    timestamp,
+    bestBid,
+    bestAsk,
+    mid,
+    spread: bestAsk - bestBid,
+    spreadPercent: ((bestAsk - bestBid) / mid) * 100,
+    imbalance: total > 0 ? (bidDepth2 - askDepth2) / total : 0,
+    bidDepth1,
+    askDepth1,
+    bidDepth2,
+    askDepth2,
+    walls: findWalls(bids, asks, mid),
+  };
+}
@@ -0,0 +1,263 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ Order Book Store — One synced local book per watched symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+// • Sync: open the venue's diff stream, buffer it, fetch a snapshot and replay
+//   the buffer on top; any sequence gap throws the book away and syncs again
+// • Fan-out: listeners get a throttled view (levels within the chart band plus
+//   metrics); the stream runs while anyone watches the symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { applyDepthUpdate, bookLevels, createLocalOrderBook, pruneOrderBook, type LocalOrderBook } from './book';
+import { analyzeOrderBook } from './metrics';
+import type { DepthMetrics, DepthUpdate, DepthVenue, OrderBookStatus, OrderBookView } from './types';
+
+const EMIT_INTERVAL = 500;
+const VIEW_BAND_PERCENT = 2;       // levels handed to listeners and metrics
+const KEEP_BAND_PERCENT = 10;      // levels kept in memory
+const MAX_BUFFERED_UPDATES = 1000;
+const RESYNC_MIN_INTERVAL = 3000;  // snapshots are expensive on the venue's rate limit
+const SNAPSHOT_RETRY_DELAY = 5000;
+const RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 30000;
+
+export type OrderBookListener = (view: OrderBookView) => void;
+
+interface BookSession {
+  symbol: string;
+  venue: DepthVenue | null;
+  listeners: Set<OrderBookListener>;
+  socket: WebSocket | null;
+  book: LocalOrderBook | null;
+  buffer: DepthUpdate[];
+  generation: number;               // bumped to cancel in-flight snapshots
+  lastSnapshotAt: number;
+  reconnectAttempts: number;
+  timers: Set<ReturnType<typeof setTimeout>>;
+  emitPending: boolean;
+  view: OrderBookView;
+}
+
+const venues = new Map<string, DepthVenue>();
+const sessions = new Map<string, BookSession>();
+
+// Plug in a depth venue (or replace one with the same id); first registered wins per symbol
+export function registerDepthVenue(venue: DepthVenue): void {
+  venues.set(venue.id, venue);
+}
+
+function later(session: BookSession, fn: () => void, delay: number) {
+  const timer = setTimeout(() => {
+    session.timers.delete(timer);
+    fn();
+  }, delay);
+  session.timers.add(timer);
+}
+
+function emit(session: BookSession) {
+  const { book, venue } = session;
+  let view = session.view;
+
+  if (book && venue && session.view.status === 'live') {
+    pruneOrderBook(book, KEEP_BAND_PERCENT);
+    const { bids, asks } = bookLevels(book, VIEW_BAND_PERCENT);
+    view = { ...view, bids, asks, metrics: analyzeOrderBook(session.symbol, venue.name, bids, asks) };
+  }
+  session.view = view;
+  session.listeners.forEach(listener => listener(view));
+}
+
+function scheduleEmit(session: BookSession) {
+  if (session.emitPending) return;
+  session.emitPending = true;
+  later(session, () => {
+    session.emitPending = false;
+    emit(session);
+  }, EMIT_INTERVAL);
+}
+
+function setStatus(session: BookSession, status: OrderBookStatus) {
+  if (session.view.status === status) return;
+  session.view = { ...session.view, status };
+  emit(session);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔁 SNAPSHOT + DIFF SYNC
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function apply(session: BookSession, update: DepthUpdate): boolean {
+  const result = applyDepthUpdate(session.book!, update);
+  if (result === 'gap') {
+    console.warn(`[OrderBook] ${session.symbol} sequence gap at ${update.firstUpdateId}, resyncing`);
+    resync(session);
+    return false;
+  }
+  if (result === 'applied') scheduleEmit(session);
+  return true;
+}
+
+function resync(session: BookSession) {
+  const { venue } = session;
+  if (!venue || !session.socket) return;
+
+  const generation = ++session.generation;
+  session.book = null;
+  setStatus(session, 'syncing');
+
+  const wait = Math.max(0, session.lastSnapshotAt + RESYNC_MIN_INTERVAL - Date.now());
+  later(session, async () => {
+    if (generation !== session.generation) return;
+    session.lastSnapshotAt = Date.now();
+
+    try {
+      const snapshot = await venue.fetchSnapshot(session.symbol);
+      if (generation !== session.generation || !session.socket) return;
+
+      // The snapshot must reach the first buffered diff, or diffs in between are lost
+      const first = session.buffer[0];
+      if (first && snapshot.lastUpdateId + 1 < first.firstUpdateId) {
+        resync(session);
+        return;
+      }
+
+      session.book = createLocalOrderBook(snapshot);
+      const pending = session.buffer;
+      session.buffer = [];
+      for (const update of pending) {
+        if (!apply(session, update)) return;
+      }
+      setStatus(session, 'live');
+    } catch (err) {
+      if (generation !== session.generation) return;
+      console.warn(`[OrderBook] ${venue.name} snapshot for ${session.symbol} failed:`, err);
+      later(session, () => resync(session), SNAPSHOT_RETRY_DELAY);
+    }
+  }, wait);
+}
+
+function connect(session: BookSession) {
+  const venue = session.venue;
+  if (!venue) {
+    setStatus(session, 'unsupported');
+    return;
+  }
+
+  setStatus(session, session.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+  let ws: WebSocket;
+  try {
+    ws = new WebSocket(venue.streamUrl(session.symbol));
+  } catch (err) {
+    console.warn(`[OrderBook] ${venue.name} stream failed to open:`, err);
+    scheduleReconnect(session);
+    return;
+  }
+  session.socket = ws;
+  session.buffer = [];
+
+  ws.onopen = () => {
+    if (session.socket !== ws) return;
+    session.reconnectAttempts = 0;
+    resync(session);
+  };
+
+  ws.onmessage = (event) => {
+    if (session.socket !== ws) return;
+    let update: DepthUpdate | null = null;
+    try {
+      update = venue.parse(JSON.parse(event.data));
+    } catch {
+      return;
+    }
+    if (!update) return;
+
+    if (!session.book) {
+      session.buffer.push(update);
+      if (session.buffer.length > MAX_BUFFERED_UPDATES) session.buffer.shift();
+      return;
+    }
+    apply(session, update);
+  };
+
+  ws.onclose = () => {
+    if (session.socket !== ws) return;
+    session.socket = null;
+    session.book = null;
+    session.generation++;
+    scheduleReconnect(session);
+  };
+}
+
+function scheduleReconnect(session: BookSession) {
+  session.reconnectAttempts++;
+  setStatus(session, 'reconnecting');
+  const delay = Math.min(RECONNECT_DELAY * Math.pow(1.5, session.reconnectAttempts - 1), MAX_RECONNECT_DELAY);
+  later(session, () => {
+    if (session.listeners.size > 0 && !session.socket) connect(session);
+  }, delay);
+}
+
+function close(session: BookSession) {
+  session.generation++;
+  session.timers.forEach(timer => clearTimeout(timer));
+  session.timers.clear();
+  session.emitPending = false;
+  const ws = session.socket;
+  session.socket = null;
+  session.book = null;
+  session.buffer = [];
+  ws?.close();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 PUBLIC API
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Watch one symbol's book; the listener gets the current view right away
+export function subscribeOrderBook(symbol: string, listener: OrderBookListener): () => void {
+  const normalized = symbol.toUpperCase();
+  let session = sessions.get(normalized);
+
+  if (!session) {
+    const venue = Array.from(venues.values()).find(v => v.supports(normalized)) ?? null;
+    session = {
+      symbol: normalized,
+      venue,
+      listeners: new Set(),
+      socket: null,
+      book: null,
+      buffer: [],
+      generation: 0,
+      lastSnapshotAt: 0,
+      reconnectAttempts: 0,
+      timers: new Set(),
+      emitPending: false,
+      view: { symbol: normalized, status: 'idle', source: venue?.name ?? null, bids: [], asks: [], metrics: null },
+    };
+    sessions.set(normalized, session);
+  }
+
+  const active = session;
+  active.listeners.add(listener);
+  listener(active.view);
+  if (active.listeners.size === 1) connect(active);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    active.listeners.delete(listener);
+    if (active.listeners.size > 0) return;
+    close(active);
+    sessions.delete(normalized);
+  };
+}
+
+export function getOrderBookView(symbol: string): OrderBookView | null {
+  return sessions.get(symbol.toUpperCase())?.view ?? null;
+}
+
+// Latest metrics while the symbol is watched and in sync
+export function getDepthMetrics(symbol: string): DepthMetrics | null {
+  const view = getOrderBookView(symbol);
+  return view?.status === 'live' ? view.metrics : null;
+}
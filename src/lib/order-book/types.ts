@@ -0,0 +1,59 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 Order Book Types — Venue contract, local book and depth metrics
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { OrderBookInput, OrderBookWall } from '@/lib/zikalyze-brain/types';
+
+export type { OrderBookWall };
+
+export type OrderBookLevel = [price: number, size: number]; // size in base units
+
+// Full book from REST; updates after lastUpdateId apply on top of it
+export interface OrderBookSnapshot {
+  lastUpdateId: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+// One diff from the stream; firstUpdateId..finalUpdateId must follow the book without gaps
+export interface DepthUpdate {
+  firstUpdateId: number;
+  finalUpdateId: number;
+  bids: OrderBookLevel[]; // size 0 removes the level
+  asks: OrderBookLevel[];
+}
+
+// A venue publishing diff-depth streams plus a REST snapshot to seed them
+export interface DepthVenue {
+  readonly id: string;
+  readonly name: string;
+  supports(symbol: string): boolean;
+  streamUrl(symbol: string): string;
+  parse(data: unknown): DepthUpdate | null;
+  fetchSnapshot(symbol: string): Promise<OrderBookSnapshot>;
+}
+
+export type OrderBookStatus =
+  | 'idle'
+  | 'connecting'
+  | 'syncing'       // stream open, waiting for a snapshot the diffs line up with
+  | 'live'
+  | 'reconnecting'
+  | 'unsupported';  // no venue lists the symbol
+
+// Everything the brain reads plus what the chart shows
+export interface DepthMetrics extends OrderBookInput {
+  symbol: string;
+  bestBid: number;
+  bestAsk: number;
+  spread: number;
+}
+
+export interface OrderBookView {
+  symbol: string;
+  status: OrderBookStatus;
+  source: string | null;
+  bids: OrderBookLevel[]; // best first, within the chart band
+  asks: OrderBookLevel[];
+  metrics: DepthMetrics | null;
+}
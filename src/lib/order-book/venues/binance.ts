@@ -0,0 +1,47 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🟡 Binance — Spot diff-depth stream seeded from the REST depth snapshot
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { BINANCE_STREAMS, fetchJson } from '@/lib/price-feeds';
+import type { DepthVenue, OrderBookLevel } from '../types';
+
+const SNAPSHOT_LIMIT = 1000;
+
+type RawLevel = [string, string];
+
+interface BinanceDepthSnapshot {
+  lastUpdateId?: number;
+  bids?: RawLevel[];
+  asks?: RawLevel[];
+}
+
+interface BinanceDepthUpdate {
+  e?: string;       // event type
+  U?: number;       // first update id in event
+  u?: number;       // final update id in event
+  b?: RawLevel[];
+  a?: RawLevel[];
+}
+
+const toLevels = (raw: RawLevel[] = []): OrderBookLevel[] =>
+  raw.map(([price, size]) => [parseFloat(price), parseFloat(size)]);
+
+export const binanceDepthVenue: DepthVenue = {
+  id: 'binance',
+  name: 'Binance',
+  supports: (symbol) => symbol in BINANCE_STREAMS,
+  streamUrl: (symbol) => `wss://stream.binance.com:9443/ws/${BINANCE_STREAMS[symbol]}@depth@100ms`,
+  parse: (data) => {
+    const update = data as BinanceDepthUpdate;
+    if (update?.e !== 'depthUpdate' || typeof update.U !== 'number' || typeof update.u !== 'number') return null;
+    return { firstUpdateId: update.U, finalUpdateId: update.u, bids: toLevels(update.b), asks: toLevels(update.a) };
+  },
+  fetchSnapshot: async (symbol) => {
+    const pair = BINANCE_STREAMS[symbol].toUpperCase();
+    const snapshot = await fetchJson<BinanceDepthSnapshot>(
+      `https://api.binance.com/api/v3/depth?symbol=${pair}&limit=${SNAPSHOT_LIMIT}`
+    );
+    if (typeof snapshot?.lastUpdateId !== 'number') throw new Error('Malformed depth snapshot');
+    return { lastUpdateId: snapshot.lastUpdateId, bids: toLevels(snapshot.bids), asks: toLevels(snapshot.asks) };
+  },
+};
@@ -0,0 +1,79 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 Price Feeds — Provider registry and the shared price stream
+// ═══════════════════════════════════════════════════════════════════════════════
+// Every price source implements PriceFeedProvider and registers here; hooks read
+// the merged stream from the store. A new venue is one file in ./providers plus
+// one registerPriceFeedProvider call below.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { registerPriceFeedProvider } from './registry';
+import { binanceProvider } from './providers/binance';
+import { coinbaseProvider } from './providers/coinbase';
+import { okxProvider } from './providers/okx';
+import { bybitProvider } from './providers/bybit';
+import { krakenProvider } from './providers/kraken';
+import { pythProvider } from './providers/pyth';
+import { defiLlamaProvider } from './providers/defillama';
+import { diaProvider } from './providers/dia';
+import { coinMarketCapProvider } from './providers/coinmarketcap';
+import { exchangeRateProvider } from './providers/exchangerate';
+
+// Built-in providers
+[
+  binanceProvider,
+  coinbaseProvider,
+  okxProvider,
+  bybitProvider,
+  krakenProvider,
+  pythProvider,
+  defiLlamaProvider,
+  diaProvider,
+  coinMarketCapProvider,
+  exchangeRateProvider,
+].forEach(registerPriceFeedProvider);
+
+// Registry
+export {
+  registerPriceFeedProvider,
+  getPriceFeedProvider,
+  getPriceFeedProviderByName,
+  listPriceFeedProviders,
+} from './registry';
+
+// Store
+export {
+  onPriceFeedUpdate,
+  subscribePriceFeed,
+  reconnectPriceFeed,
+  getLatestPrice,
+  getLatestPrices,
+  getSourceTicks,
+  getPriceFeedState,
+  fetchPriceSnapshot,
+  fetchPriceFeedMetadata,
+  type PriceFeedListener,
+} from './store';
+
+// Per-venue volume
+export { getVenueVolume } from './volume';
+
+// Building blocks for new providers
+export { createSocketProvider, type SocketProviderConfig, type ParsedTick } from './socket-provider';
+export { createRestProvider, fetchJson, type RestProviderConfig } from './rest-provider';
+
+// Provider-specific helpers
+export { CMC_ID_MAP, getCMCImageUrl } from './providers/coinmarketcap';
+export { BINANCE_STREAMS } from './providers/binance';
+
+export type {
+  PriceFeedCapability,
+  PriceFeedTransport,
+  PriceTick,
+  PriceFeedMetadata,
+  PriceFeedStatus,
+  PriceFeedHealth,
+  PriceSnapshotOptions,
+  PriceFeedSink,
+  PriceFeedProvider,
+  PriceFeedState,
+} from './types';
@@ -0,0 +1,145 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🟡 Binance — Spot trade stream (primary live feed)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createSocketProvider } from '../socket-provider';
+
+// Symbol -> Binance USDT pair
+export const BINANCE_STREAMS: Record<string, string> = {
+  BTC: 'btcusdt',
+  ETH: 'ethusdt',
+  BNB: 'bnbusdt',
+  SOL: 'solusdt',
+  XRP: 'xrpusdt',
+  ADA: 'adausdt',
+  DOGE: 'dogeusdt',
+  TRX: 'trxusdt',
+  AVAX: 'avaxusdt',
+  TON: 'tonusdt',
+  LINK: 'linkusdt',
+  DOT: 'dotusdt',
+  MATIC: 'maticusdt',
+  LTC: 'ltcusdt',
+  BCH: 'bchusdt',
+  SHIB: 'shibusdt',
+  DAI: 'daiusdt',
+  ATOM: 'atomusdt',
+  UNI: 'uniusdt',
+  XLM: 'xlmusdt',
+  ETC: 'etcusdt',
+  ICP: 'icpusdt',
+  NEAR: 'nearusdt',
+  FIL: 'filusdt',
+  APT: 'aptusdt',
+  HBAR: 'hbarusdt',
+  ARB: 'arbusdt',
+  VET: 'vetusdt',
+  OP: 'opusdt',
+  MKR: 'mkrusdt',
+  AAVE: 'aaveusdt',
+  GRT: 'grtusdt',
+  RNDR: 'rndrusdt',
+  INJ: 'injusdt',
+  ALGO: 'algousdt',
+  STX: 'stxusdt',
+  FTM: 'ftmusdt',
+  SUI: 'suiusdt',
+  THETA: 'thetausdt',
+  RUNE: 'runeusdt',
+  LDO: 'ldousdt',
+  SAND: 'sandusdt',
+  MANA: 'manausdt',
+  AXS: 'axsusdt',
+  FET: 'fetusdt',
+  EGLD: 'egldusdt',
+  FLOW: 'flowusdt',
+  EOS: 'eosusdt',
+  CHZ: 'chzusdt',
+  CAKE: 'cakeusdt',
+  XTZ: 'xtzusdt',
+  KAVA: 'kavausdt',
+  NEO: 'neousdt',
+  IOTA: 'iotausdt',
+  GALA: 'galausdt',
+  SNX: 'snxusdt',
+  ZEC: 'zecusdt',
+  CFX: 'cfxusdt',
+  MINA: 'minausdt',
+  WOO: 'woousdt',
+  ROSE: 'roseusdt',
+  ZIL: 'zilusdt',
+  DYDX: 'dydxusdt',
+  COMP: 'compusdt',
+  ENJ: 'enjusdt',
+  FXS: 'fxsusdt',
+  GMX: 'gmxusdt',
+  RPL: 'rplusdt',
+  CRV: 'crvusdt',
+  DASH: 'dashusdt',
+  ONE: 'oneusdt',
+  BAT: 'batusdt',
+  CELO: 'celousdt',
+  ZRX: 'zrxusdt',
+  OCEAN: 'oceanusdt',
+  AUDIO: 'audiousdt',
+  ANKR: 'ankrusdt',
+  ICX: 'icxusdt',
+  IOTX: 'iotxusdt',
+  STORJ: 'storjusdt',
+  SKL: 'sklusdt',
+  ONT: 'ontusdt',
+  GLMR: 'glmrusdt',
+  KDA: 'kdausdt',
+  RVN: 'rvnusdt',
+  SC: 'scusdt',
+  WAVES: 'wavesusdt',
+  AR: 'arusdt',
+  AGIX: 'agixusdt',
+  WLD: 'wldusdt',
+  PEPE: 'pepeusdt',
+  FLOKI: 'flokiusdt',
+  BONK: 'bonkusdt',
+  WIF: 'wifusdt',
+  ORDI: 'ordiusdt',
+  SEI: 'seiusdt',
+  TIA: 'tiausdt',
+  JUP: 'jupusdt',
+  PYTH: 'pythusdt',
+  JTO: 'jtousdt',
+  STRK: 'strkusdt',
+  BLUR: 'blurusdt',
+  IMX: 'imxusdt',
+  PENDLE: 'pendleusdt',
+  ENS: 'ensusdt',
+  LUNC: 'luncusdt',
+  LUNA: 'lunausdt',
+};
+
+interface BinanceTrade {
+  e?: string; // event type
+  s?: string; // pair, e.g. "BTCUSDT"
+  p?: string; // trade price
+  q?: string; // trade quantity (base units)
+}
+
+let requestId = 0;
+
+export const binanceProvider = createSocketProvider({
+  id: 'binance',
+  name: 'Binance',
+  capabilities: ['ticks', 'volume'],
+  priority: 0,
+  staleAfterMs: 5000,
+  url: 'wss://stream.binance.com:9443/ws',
+  instruments: BINANCE_STREAMS,
+  subscribeMessage: (pairs) => ({ method: 'SUBSCRIBE', params: pairs.map(p => `${p}@trade`), id: ++requestId }),
+  unsubscribeMessage: (pairs) => ({ method: 'UNSUBSCRIBE', params: pairs.map(p => `${p}@trade`), id: ++requestId }),
+  parse: (data, toSymbol) => {
+    const trade = data as BinanceTrade;
+    if (trade?.e !== 'trade' || !trade.s || !trade.p) return [];
+    const symbol = toSymbol(trade.s.toLowerCase());
+    const price = parseFloat(trade.p);
+    const quantity = parseFloat(trade.q ?? '');
+    return symbol ? [{ symbol, price, tradeSize: Number.isFinite(quantity) ? quantity * price : undefined }] : [];
+  },
+});
@@ -0,0 +1,57 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🟠 Bybit — v5 public spot tickers (USDT pairs)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createSocketProvider } from '../socket-provider';
+
+// Symbol -> Bybit spot pair
+const BYBIT_PAIRS: Record<string, string> = Object.fromEntries([
+  'BTC', 'ETH', 'BNB', 'SOL', 'XRP', 'ADA', 'DOGE', 'TRX', 'AVAX', 'TON',
+  'LINK', 'DOT', 'LTC', 'BCH', 'SHIB', 'DAI', 'ATOM', 'UNI', 'XLM', 'ETC',
+  'ICP', 'NEAR', 'FIL', 'APT', 'HBAR', 'ARB', 'OP', 'MKR', 'AAVE', 'GRT',
+  'INJ', 'ALGO', 'STX', 'SUI', 'THETA', 'LDO', 'SAND', 'MANA', 'AXS', 'FET',
+  'EGLD', 'FLOW', 'EOS', 'CHZ', 'XTZ', 'KAVA', 'GALA', 'SNX', 'ZEC', 'CFX',
+  'MINA', 'WOO', 'ROSE', 'ZIL', 'DYDX', 'COMP', 'ENJ', 'CRV', 'DASH', 'ONE',
+  'BAT', 'CELO', 'ZRX', 'ANKR', 'ICX', 'IOTX', 'STORJ', 'KDA', 'AR', 'WLD',
+  'PEPE', 'FLOKI', 'BONK', 'WIF', 'ORDI', 'SEI', 'TIA', 'JUP', 'PYTH', 'JTO',
+  'STRK', 'BLUR', 'IMX', 'PENDLE', 'ENS', 'LUNC', 'LUNA',
+].map(symbol => [symbol, `${symbol}USDT`]));
+
+interface BybitTicker {
+  symbol?: string;
+  lastPrice?: string;
+  prevPrice24h?: string;
+  price24hPcnt?: string; // fraction, e.g. "0.0123"
+  turnover24h?: string;  // quote units
+}
+
+export const bybitProvider = createSocketProvider({
+  id: 'bybit',
+  name: 'Bybit',
+  capabilities: ['ticks', 'volume', 'change24h'],
+  priority: 3,
+  staleAfterMs: 5000,
+  url: 'wss://stream.bybit.com/v5/public/spot',
+  instruments: BYBIT_PAIRS,
+  maxInstrumentsPerMessage: 10, // spot accepts at most 10 topics per request
+  subscribeMessage: (pairs) => ({ op: 'subscribe', args: pairs.map(p => `tickers.${p}`) }),
+  unsubscribeMessage: (pairs) => ({ op: 'unsubscribe', args: pairs.map(p => `tickers.${p}`) }),
+  ping: { intervalMs: 20000, message: { op: 'ping' } },
+  parse: (data, toSymbol) => {
+    const message = data as { topic?: string; data?: BybitTicker };
+    const ticker = message?.topic?.startsWith('tickers.') ? message.data : null;
+    const symbol = ticker?.symbol && toSymbol(ticker.symbol);
+    if (!ticker || !symbol) return [];
+
+    const prev = parseFloat(ticker.prevPrice24h ?? '');
+    const change = parseFloat(ticker.price24hPcnt ?? '');
+    const turnover = parseFloat(ticker.turnover24h ?? '');
+    return [{
+      symbol,
+      price: parseFloat(ticker.lastPrice ?? ''),
+      price24hAgo: prev > 0 ? prev : undefined,
+      change24h: Number.isFinite(change) ? change * 100 : undefined,
+      volume24h: Number.isFinite(turnover) ? turnover : undefined,
+    }];
+  },
+});
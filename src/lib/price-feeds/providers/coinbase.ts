@@ -0,0 +1,58 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔵 Coinbase — Advanced Trade public ticker stream (USD pairs)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createSocketProvider } from '../socket-provider';
+
+// Symbol -> Coinbase product id
+const COINBASE_PRODUCTS: Record<string, string> = Object.fromEntries([
+  'BTC', 'ETH', 'SOL', 'XRP', 'ADA', 'DOGE', 'AVAX', 'LINK', 'DOT', 'LTC',
+  'BCH', 'SHIB', 'DAI', 'ATOM', 'UNI', 'XLM', 'ETC', 'ICP', 'NEAR', 'FIL',
+  'APT', 'HBAR', 'ARB', 'OP', 'MKR', 'AAVE', 'GRT', 'INJ', 'ALGO', 'STX',
+  'SUI', 'LDO', 'SAND', 'MANA', 'AXS', 'FET', 'EGLD', 'FLOW', 'EOS', 'CHZ',
+  'XTZ', 'SNX', 'ZEC', 'MINA', 'DYDX', 'COMP', 'CRV', 'DASH', 'BAT', 'CELO',
+  'ZRX', 'AUDIO', 'ANKR', 'STORJ', 'SKL', 'IMX', 'ENS', 'BLUR', 'PEPE', 'BONK',
+  'WIF', 'SEI', 'TIA', 'JTO', 'PYTH', 'STRK', 'KAVA', 'ROSE', 'GLMR', 'RNDR',
+].map(symbol => [symbol, symbol === 'RNDR' ? 'RENDER-USD' : `${symbol}-USD`]));
+
+interface CoinbaseTicker {
+  product_id?: string;
+  price?: string;
+  volume_24_h?: string;            // base units
+  price_percent_chg_24_h?: string;
+}
+
+interface CoinbaseMessage {
+  channel?: string;
+  events?: { tickers?: CoinbaseTicker[] }[];
+}
+
+export const coinbaseProvider = createSocketProvider({
+  id: 'coinbase',
+  name: 'Coinbase',
+  capabilities: ['ticks', 'volume', 'change24h'],
+  priority: 1,
+  staleAfterMs: 5000,
+  url: 'wss://advanced-trade-ws.coinbase.com',
+  instruments: COINBASE_PRODUCTS,
+  subscribeMessage: (products) => ({ type: 'subscribe', channel: 'ticker', product_ids: products }),
+  unsubscribeMessage: (products) => ({ type: 'unsubscribe', channel: 'ticker', product_ids: products }),
+  parse: (data, toSymbol) => {
+    const message = data as CoinbaseMessage;
+    if (message?.channel !== 'ticker' || !Array.isArray(message.events)) return [];
+
+    return message.events.flatMap(event => event.tickers ?? []).flatMap(ticker => {
+      const symbol = ticker.product_id && toSymbol(ticker.product_id);
+      const price = parseFloat(ticker.price ?? '');
+      if (!symbol) return [];
+      const volume = parseFloat(ticker.volume_24_h ?? '');
+      const change = parseFloat(ticker.price_percent_chg_24_h ?? '');
+      return [{
+        symbol,
+        price,
+        volume24h: Number.isFinite(volume) ? volume * price : undefined,
+        change24h: Number.isFinite(change) ? change : undefined,
+      }];
+    });
+  },
+});
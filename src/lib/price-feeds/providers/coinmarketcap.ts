@@ -0,0 +1,67 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🪙 CoinMarketCap — Asset ids and logo CDN (metadata only)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createRestProvider } from '../rest-provider';
+import type { PriceFeedMetadata } from '../types';
+
+// CoinMarketCap image CDN (publicly accessible)
+const CMC_IMAGE_CDN = 'https://s2.coinmarketcap.com/static/img/coins/128x128';
+const CMC_IMAGE_CDN_64 = 'https://s2.coinmarketcap.com/static/img/coins/64x64';
+const CMC_IMAGE_CDN_32 = 'https://s2.coinmarketcap.com/static/img/coins/32x32';
+
+// CMC ID mapping for top 100 cryptocurrencies (verified IDs)
+export const CMC_ID_MAP: Record<string, number> = {
+  BTC: 1, ETH: 1027, BNB: 1839, SOL: 5426, XRP: 52,
+  ADA: 2010, DOGE: 74, TRX: 1958, AVAX: 5805, TON: 11419,
+  LINK: 1975, DOT: 6636, MATIC: 3890, LTC: 2, BCH: 1831,
+  SHIB: 5994, DAI: 4943, ATOM: 3794, UNI: 7083, XLM: 512,
+  ETC: 1321, XMR: 328, ICP: 8916, NEAR: 6535, FIL: 2280,
+  APT: 21794, HBAR: 4642, ARB: 11841, VET: 3077, OP: 11840,
+  MKR: 1518, CRO: 3635, KAS: 20396, AAVE: 7278, GRT: 6719,
+  RNDR: 5690, INJ: 7226, ALGO: 4030, STX: 4847, FTM: 3513,
+  SUI: 20947, THETA: 2416, RUNE: 4157, LDO: 8000, SAND: 6210,
+  MANA: 1966, AXS: 6783, FET: 3773, EGLD: 6892, FLOW: 4558,
+  EOS: 1765, CHZ: 4066, CAKE: 7186, XTZ: 2011, KAVA: 4846,
+  NEO: 1376, IOTA: 1720, GALA: 7080, SNX: 2586, ZEC: 1437,
+  KCS: 2087, CFX: 7334, MINA: 8646, WOO: 7501, ROSE: 7653,
+  ZIL: 2469, DYDX: 11156, COMP: 5692, ENJ: 2130, FXS: 6953,
+  GMX: 11857, RPL: 2943, CRV: 6538, DASH: 131, ONE: 3945,
+  BAT: 1697, QTUM: 1684, CELO: 5567, ZRX: 1896, OCEAN: 3911,
+  AUDIO: 7455, ANKR: 3783, ICX: 2099, IOTX: 2777, STORJ: 1772,
+  SKL: 5691, ONT: 2566, JST: 5488, LUNC: 4172, GLMR: 6836,
+  KDA: 5647, RVN: 2577, SC: 1042, WAVES: 1274, XEM: 873,
+  BTT: 16086, LUNA: 20314, AR: 5632, AGIX: 2424, WLD: 13502,
+  // Stablecoins (for reference)
+  USDT: 825, USDC: 3408, BUSD: 4687, TUSD: 2563,
+};
+
+// Get CMC image URL by ID
+export function getCMCImageUrl(cmcId: number, size: 32 | 64 | 128 = 64): string {
+  const cdn = size === 32 ? CMC_IMAGE_CDN_32 : size === 128 ? CMC_IMAGE_CDN : CMC_IMAGE_CDN_64;
+  return `${cdn}/${cmcId}.png`;
+}
+
+// Built from the verified id map — the public CDN needs no API key
+async function fetchCMCMetadata(symbols: string[]): Promise<PriceFeedMetadata[]> {
+  const now = Date.now();
+  return symbols.filter(s => CMC_ID_MAP[s]).map(symbol => ({
+    symbol,
+    name: symbol,
+    slug: symbol.toLowerCase(),
+    logo: getCMCImageUrl(CMC_ID_MAP[symbol], 64),
+    assetId: CMC_ID_MAP[symbol],
+    source: 'CoinMarketCap',
+    lastUpdated: now,
+  }));
+}
+
+export const coinMarketCapProvider = createRestProvider({
+  id: 'coinmarketcap',
+  name: 'CoinMarketCap',
+  capabilities: ['metadata'],
+  priority: 0,
+  staleAfterMs: 6 * 60 * 60 * 1000,
+  supports: (symbol) => symbol in CMC_ID_MAP,
+  fetchMetadata: fetchCMCMetadata,
+});
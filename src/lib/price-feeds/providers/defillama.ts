@@ -0,0 +1,169 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🦙 DeFiLlama — Aggregated prices and 24h reference (REST fallback)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createRestProvider, fetchJson } from '../rest-provider';
+import type { PriceSnapshotOptions, PriceTick } from '../types';
+
+const DEFILLAMA_API = 'https://coins.llama.fi/prices';
+
+// Symbol -> DeFiLlama coin key
+const DEFILLAMA_TOKENS: Record<string, string> = {
+  BTC: 'coingecko:bitcoin',
+  ETH: 'coingecko:ethereum',
+  BNB: 'coingecko:binancecoin',
+  SOL: 'coingecko:solana',
+  XRP: 'coingecko:ripple',
+  ADA: 'coingecko:cardano',
+  DOGE: 'coingecko:dogecoin',
+  TRX: 'coingecko:tron',
+  AVAX: 'coingecko:avalanche-2',
+  TON: 'coingecko:the-open-network',
+  LINK: 'coingecko:chainlink',
+  DOT: 'coingecko:polkadot',
+  MATIC: 'coingecko:matic-network',
+  LTC: 'coingecko:litecoin',
+  BCH: 'coingecko:bitcoin-cash',
+  SHIB: 'coingecko:shiba-inu',
+  DAI: 'coingecko:dai',
+  ATOM: 'coingecko:cosmos',
+  UNI: 'coingecko:uniswap',
+  XLM: 'coingecko:stellar',
+  ETC: 'coingecko:ethereum-classic',
+  XMR: 'coingecko:monero',
+  ICP: 'coingecko:internet-computer',
+  NEAR: 'coingecko:near',
+  FIL: 'coingecko:filecoin',
+  APT: 'coingecko:aptos',
+  HBAR: 'coingecko:hedera-hashgraph',
+  ARB: 'coingecko:arbitrum',
+  VET: 'coingecko:vechain',
+  OP: 'coingecko:optimism',
+  MKR: 'coingecko:maker',
+  CRO: 'coingecko:crypto-com-chain',
+  KAS: 'coingecko:kaspa',
+  AAVE: 'coingecko:aave',
+  GRT: 'coingecko:the-graph',
+  RNDR: 'coingecko:render-token',
+  INJ: 'coingecko:injective-protocol',
+  ALGO: 'coingecko:algorand',
+  STX: 'coingecko:blockstack',
+  FTM: 'coingecko:fantom',
+  SUI: 'coingecko:sui',
+  THETA: 'coingecko:theta-token',
+  RUNE: 'coingecko:thorchain',
+  LDO: 'coingecko:lido-dao',
+  SAND: 'coingecko:the-sandbox',
+  MANA: 'coingecko:decentraland',
+  AXS: 'coingecko:axie-infinity',
+  FET: 'coingecko:fetch-ai',
+  EGLD: 'coingecko:elrond-erd-2',
+  FLOW: 'coingecko:flow',
+  EOS: 'coingecko:eos',
+  CHZ: 'coingecko:chiliz',
+  CAKE: 'coingecko:pancakeswap-token',
+  XTZ: 'coingecko:tezos',
+  KAVA: 'coingecko:kava',
+  NEO: 'coingecko:neo',
+  IOTA: 'coingecko:iota',
+  GALA: 'coingecko:gala',
+  SNX: 'coingecko:havven',
+  ZEC: 'coingecko:zcash',
+  KCS: 'coingecko:kucoin-shares',
+  CFX: 'coingecko:conflux-token',
+  MINA: 'coingecko:mina-protocol',
+  WOO: 'coingecko:woo-network',
+  ROSE: 'coingecko:oasis-network',
+  ZIL: 'coingecko:zilliqa',
+  DYDX: 'coingecko:dydx',
+  COMP: 'coingecko:compound-governance-token',
+  ENJ: 'coingecko:enjincoin',
+  FXS: 'coingecko:frax-share',
+  GMX: 'coingecko:gmx',
+  RPL: 'coingecko:rocket-pool',
+  CRV: 'coingecko:curve-dao-token',
+  DASH: 'coingecko:dash',
+  ONE: 'coingecko:harmony',
+  BAT: 'coingecko:basic-attention-token',
+  QTUM: 'coingecko:qtum',
+  CELO: 'coingecko:celo',
+  ZRX: 'coingecko:0x',
+  OCEAN: 'coingecko:ocean-protocol',
+  AUDIO: 'coingecko:audius',
+  ANKR: 'coingecko:ankr',
+  ICX: 'coingecko:icon',
+  IOTX: 'coingecko:iotex',
+  STORJ: 'coingecko:storj',
+  SKL: 'coingecko:skale',
+  ONT: 'coingecko:ontology',
+  JST: 'coingecko:just',
+  LUNC: 'coingecko:terra-luna',
+  GLMR: 'coingecko:moonbeam',
+  KDA: 'coingecko:kadena',
+  RVN: 'coingecko:ravencoin',
+  SC: 'coingecko:siacoin',
+  WAVES: 'coingecko:waves',
+  XEM: 'coingecko:nem',
+  BTT: 'coingecko:bittorrent',
+  LUNA: 'coingecko:terra-luna-2',
+  AR: 'coingecko:arweave',
+  AGIX: 'coingecko:singularitynet',
+  WLD: 'coingecko:worldcoin-wld',
+  PEPE: 'coingecko:pepe',
+  FLOKI: 'coingecko:floki',
+  BONK: 'coingecko:bonk',
+  WIF: 'coingecko:dogwifcoin',
+  ORDI: 'coingecko:ordinals',
+  SEI: 'coingecko:sei-network',
+  TIA: 'coingecko:celestia',
+  JUP: 'coingecko:jupiter-exchange-solana',
+  PYTH: 'coingecko:pyth-network',
+  JTO: 'coingecko:jito-governance-token',
+  STRK: 'coingecko:starknet',
+  BLUR: 'coingecko:blur',
+  IMX: 'coingecko:immutable-x',
+  PENDLE: 'coingecko:pendle',
+  ENS: 'coingecko:ethereum-name-service',
+};
+
+interface LlamaPrices {
+  coins?: Record<string, { price?: number }>;
+}
+
+async function fetchDefiLlamaSnapshot(symbols: string[], options: PriceSnapshotOptions = {}): Promise<PriceTick[]> {
+  const wanted = symbols.filter(s => DEFILLAMA_TOKENS[s]);
+  if (wanted.length === 0) return [];
+  const keys = wanted.map(s => DEFILLAMA_TOKENS[s]).join(',');
+
+  const current = await fetchJson<LlamaPrices>(`${DEFILLAMA_API}/current/${keys}${options.change24h ? '?searchWidth=24h' : ''}`);
+  let historical: LlamaPrices | null = null;
+  if (options.change24h) {
+    const timestamp24hAgo = Math.floor((Date.now() - 24 * 60 * 60 * 1000) / 1000);
+    historical = await fetchJson<LlamaPrices>(`${DEFILLAMA_API}/historical/${timestamp24hAgo}/${keys}`).catch(() => null);
+  }
+
+  const now = Date.now();
+  return wanted.flatMap(symbol => {
+    const key = DEFILLAMA_TOKENS[symbol];
+    const price = Number(current?.coins?.[key]?.price);
+    if (!Number.isFinite(price) || price <= 0) return [];
+
+    const tick: PriceTick = { symbol, price, source: 'DeFiLlama', timestamp: now };
+    const price24hAgo = Number(historical?.coins?.[key]?.price);
+    if (Number.isFinite(price24hAgo) && price24hAgo > 0) {
+      tick.price24hAgo = price24hAgo;
+      tick.change24h = ((price - price24hAgo) / price24hAgo) * 100;
+    }
+    return [tick];
+  });
+}
+
+export const defiLlamaProvider = createRestProvider({
+  id: 'defillama',
+  name: 'DeFiLlama',
+  capabilities: ['ticks', 'change24h'],
+  priority: 20,
+  staleAfterMs: 30000,
+  supports: (symbol) => symbol in DEFILLAMA_TOKENS,
+  fetchSnapshot: fetchDefiLlamaSnapshot,
+});
@@ -0,0 +1,57 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔷 DIA — Open oracle quotations (last-resort REST fallback)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createRestProvider, fetchJson } from '../rest-provider';
+import type { PriceTick } from '../types';
+
+const DIA_QUOTATION_API = 'https://api.diadata.org/v1/quotation';
+
+// One request per asset, so only majors and only a few per poll
+const DIA_SYMBOLS = new Set([
+  'BTC', 'ETH', 'BNB', 'SOL', 'XRP', 'ADA', 'DOGE', 'TRX', 'AVAX', 'DOT',
+  'LINK', 'MATIC', 'LTC', 'BCH', 'UNI', 'ATOM', 'XLM', 'NEAR', 'FIL', 'ALGO',
+]);
+const MAX_SYMBOLS_PER_FETCH = 10;
+
+interface DiaQuotation {
+  Symbol?: string;
+  Price?: number;
+  PriceYesterday?: number;
+  VolumeYesterdayUSD?: number;
+}
+
+async function fetchDiaSnapshot(symbols: string[]): Promise<PriceTick[]> {
+  const wanted = symbols.filter(s => DIA_SYMBOLS.has(s)).slice(0, MAX_SYMBOLS_PER_FETCH);
+  if (wanted.length === 0) return [];
+
+  const results = await Promise.allSettled(wanted.map(s => fetchJson<DiaQuotation>(`${DIA_QUOTATION_API}/${s}`)));
+  if (results.every(r => r.status === 'rejected')) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  const now = Date.now();
+  return results.flatMap((result, i) => {
+    if (result.status !== 'fulfilled') return [];
+    const { Price, PriceYesterday, VolumeYesterdayUSD } = result.value ?? {};
+    if (!Price || Price <= 0) return [];
+
+    const tick: PriceTick = { symbol: wanted[i], price: Price, source: 'DIA', timestamp: now };
+    if (PriceYesterday && PriceYesterday > 0) {
+      tick.price24hAgo = PriceYesterday;
+      tick.change24h = ((Price - PriceYesterday) / PriceYesterday) * 100;
+    }
+    if (VolumeYesterdayUSD && VolumeYesterdayUSD > 0) tick.volume24h = VolumeYesterdayUSD;
+    return [tick];
+  });
+}
+
+export const diaProvider = createRestProvider({
+  id: 'dia',
+  name: 'DIA',
+  capabilities: ['ticks', 'change24h', 'volume'],
+  priority: 30,
+  staleAfterMs: 60000,
+  supports: (symbol) => DIA_SYMBOLS.has(symbol),
+  fetchSnapshot: fetchDiaSnapshot,
+});
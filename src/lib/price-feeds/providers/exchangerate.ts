@@ -0,0 +1,30 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💱 exchangerate-api — Fiat rates against USD
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createRestProvider, fetchJson } from '../rest-provider';
+import type { PriceTick } from '../types';
+
+const EXCHANGE_RATE_API = 'https://api.exchangerate-api.com/v4/latest/USD';
+
+// Ticks carry units of the currency per 1 USD
+async function fetchExchangeRates(currencies: string[]): Promise<PriceTick[]> {
+  const data = await fetchJson<{ rates?: Record<string, number> }>(EXCHANGE_RATE_API);
+  const now = Date.now();
+  return currencies.flatMap(code => {
+    const rate = Number(data?.rates?.[code]);
+    return Number.isFinite(rate) && rate > 0
+      ? [{ symbol: code, price: rate, source: 'exchangerate-api', timestamp: now }]
+      : [];
+  });
+}
+
+export const exchangeRateProvider = createRestProvider({
+  id: 'exchangerate-api',
+  name: 'exchangerate-api',
+  capabilities: ['fx'],
+  priority: 0,
+  staleAfterMs: 60 * 60 * 1000,
+  supports: (currency) => /^[A-Z]{3}$/.test(currency),
+  fetchSnapshot: fetchExchangeRates,
+});
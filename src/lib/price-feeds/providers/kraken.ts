@@ -0,0 +1,53 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🐙 Kraken — WebSocket v2 public ticker stream (USD pairs)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createSocketProvider } from '../socket-provider';
+
+// Symbol -> Kraken v2 pair
+const KRAKEN_PAIRS: Record<string, string> = Object.fromEntries([
+  'BTC', 'ETH', 'SOL', 'XRP', 'ADA', 'DOGE', 'TRX', 'AVAX', 'TON', 'LINK',
+  'DOT', 'LTC', 'BCH', 'SHIB', 'DAI', 'ATOM', 'UNI', 'XLM', 'ETC', 'ICP',
+  'NEAR', 'FIL', 'APT', 'ARB', 'OP', 'MKR', 'AAVE', 'GRT', 'INJ', 'ALGO',
+  'STX', 'SUI', 'LDO', 'SAND', 'MANA', 'AXS', 'FET', 'EGLD', 'FLOW', 'EOS',
+  'CHZ', 'XTZ', 'KAVA', 'GALA', 'SNX', 'ZEC', 'MINA', 'DYDX', 'COMP', 'ENJ',
+  'CRV', 'DASH', 'BAT', 'CELO', 'ZRX', 'ANKR', 'STORJ', 'SC', 'AR', 'WLD',
+  'PEPE', 'FLOKI', 'BONK', 'WIF', 'SEI', 'TIA', 'JUP', 'PYTH', 'JTO', 'STRK',
+  'BLUR', 'IMX', 'PENDLE', 'ENS', 'RNDR',
+].map(symbol => [symbol, symbol === 'RNDR' ? 'RENDER/USD' : `${symbol}/USD`]));
+
+interface KrakenTicker {
+  symbol?: string;
+  last?: number;
+  volume?: number;     // base units
+  vwap?: number;
+  change_pct?: number;
+}
+
+export const krakenProvider = createSocketProvider({
+  id: 'kraken',
+  name: 'Kraken',
+  capabilities: ['ticks', 'volume', 'change24h'],
+  priority: 4,
+  staleAfterMs: 5000,
+  url: 'wss://ws.kraken.com/v2',
+  instruments: KRAKEN_PAIRS,
+  subscribeMessage: (pairs) => ({ method: 'subscribe', params: { channel: 'ticker', symbol: pairs } }),
+  unsubscribeMessage: (pairs) => ({ method: 'unsubscribe', params: { channel: 'ticker', symbol: pairs } }),
+  ping: { intervalMs: 30000, message: { method: 'ping' } },
+  parse: (data, toSymbol) => {
+    const message = data as { channel?: string; data?: KrakenTicker[] };
+    if (message?.channel !== 'ticker' || !Array.isArray(message.data)) return [];
+
+    return message.data.flatMap(ticker => {
+      const symbol = ticker.symbol && toSymbol(ticker.symbol);
+      if (!symbol || ticker.last === undefined) return [];
+      return [{
+        symbol,
+        price: Number(ticker.last),
+        volume24h: ticker.volume !== undefined ? ticker.volume * (ticker.vwap || ticker.last) : undefined,
+        change24h: ticker.change_pct,
+      }];
+    });
+  },
+});
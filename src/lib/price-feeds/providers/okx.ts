@@ -0,0 +1,57 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⚫ OKX — v5 public tickers channel (USDT pairs)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createSocketProvider } from '../socket-provider';
+
+// Symbol -> OKX instrument id
+const OKX_INSTRUMENTS: Record<string, string> = Object.fromEntries([
+  'BTC', 'ETH', 'BNB', 'SOL', 'XRP', 'ADA', 'DOGE', 'TRX', 'AVAX', 'TON',
+  'LINK', 'DOT', 'LTC', 'BCH', 'SHIB', 'ATOM', 'UNI', 'XLM', 'ETC', 'ICP',
+  'NEAR', 'FIL', 'APT', 'HBAR', 'ARB', 'OP', 'MKR', 'AAVE', 'GRT', 'INJ',
+  'ALGO', 'STX', 'SUI', 'THETA', 'LDO', 'SAND', 'MANA', 'AXS', 'EGLD', 'FLOW',
+  'EOS', 'CHZ', 'XTZ', 'NEO', 'IOTA', 'GALA', 'SNX', 'ZEC', 'CFX', 'MINA',
+  'WOO', 'ZIL', 'DYDX', 'COMP', 'ENJ', 'CRV', 'DASH', 'ONE', 'BAT', 'CELO',
+  'ZRX', 'ICX', 'IOTX', 'STORJ', 'ONT', 'KDA', 'RVN', 'SC', 'AR', 'WLD',
+  'PEPE', 'FLOKI', 'BONK', 'WIF', 'ORDI', 'SEI', 'TIA', 'JUP', 'PYTH', 'JTO',
+  'STRK', 'BLUR', 'IMX', 'PENDLE', 'ENS', 'LUNC', 'LUNA',
+].map(symbol => [symbol, `${symbol}-USDT`]));
+
+interface OkxTicker {
+  instId?: string;
+  last?: string;
+  open24h?: string;
+  volCcy24h?: string;  // quote units for spot
+}
+
+export const okxProvider = createSocketProvider({
+  id: 'okx',
+  name: 'OKX',
+  capabilities: ['ticks', 'volume', 'change24h'],
+  priority: 2,
+  staleAfterMs: 5000,
+  url: 'wss://ws.okx.com:8443/ws/v5/public',
+  instruments: OKX_INSTRUMENTS,
+  subscribeMessage: (ids) => ({ op: 'subscribe', args: ids.map(instId => ({ channel: 'tickers', instId })) }),
+  unsubscribeMessage: (ids) => ({ op: 'unsubscribe', args: ids.map(instId => ({ channel: 'tickers', instId })) }),
+  ping: { intervalMs: 25000, message: 'ping' },
+  parse: (data, toSymbol) => {
+    const message = data as { arg?: { channel?: string }; data?: OkxTicker[] };
+    if (message?.arg?.channel !== 'tickers' || !Array.isArray(message.data)) return [];
+
+    return message.data.flatMap(ticker => {
+      const symbol = ticker.instId && toSymbol(ticker.instId);
+      if (!symbol) return [];
+      const price = parseFloat(ticker.last ?? '');
+      const open = parseFloat(ticker.open24h ?? '');
+      const volume = parseFloat(ticker.volCcy24h ?? '');
+      return [{
+        symbol,
+        price,
+        price24hAgo: open > 0 ? open : undefined,
+        change24h: open > 0 ? ((price - open) / open) * 100 : undefined,
+        volume24h: Number.isFinite(volume) ? volume : undefined,
+      }];
+    });
+  },
+});
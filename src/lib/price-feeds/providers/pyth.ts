@@ -0,0 +1,83 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔮 Pyth Network — Hermes oracle stream (fallback) with a REST snapshot
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { fetchJson } from '../rest-provider';
+import { createSocketProvider } from '../socket-provider';
+import type { PriceTick } from '../types';
+
+const PYTH_HERMES_WSS = 'wss://hermes.pyth.network/ws';
+const PYTH_HERMES_REST = 'https://hermes.pyth.network/api/latest_price_feeds';
+
+// Symbol -> Pyth price feed id
+const PYTH_FEED_IDS: Record<string, string> = {
+  BTC: '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43',
+  ETH: '0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace',
+  SOL: '0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d',
+  BNB: '0x2f95862b045670cd22bee3114c39763a4a08a708c89fa42d2e6ecfc48e7ccee7',
+  XRP: '0xec5d399846a9209f3fe5881d70aae9268c94339ff9817e8d18ff19fa05eea1c8',
+  ADA: '0x2a01deaec9e51a579277b34b122399984d0bbf57e2458a7e42fecd2829867a0d',
+  DOGE: '0xdcef50dd0a4cd2dcc17e45df1676dcb336a11a61c69df7a0299b0150c672d25c',
+  AVAX: '0x93da3352f9f1d105fdfe4971cfa80e9dd777bfc5d0f683ebb6e1294b92137bb7',
+  LINK: '0x8ac0c70fff57e9aefdf5edf44b51d62c2d433653cbb2cf5cc06bb115af04d221',
+  DOT: '0xca3eed9b267293f6595901c734c7525ce8ef49adafe8284f97e8d4e0ce2a8f2a',
+  MATIC: '0x5de33440f6c399aa75d5c11e39eaca4c39a0e7c0cfe6afa9b96cb46e5f41108c',
+  LTC: '0x6e3f3fa8253588df9326580180233eb791e03b443a3ba7a1d892e73874e19a54',
+  UNI: '0x78d185a741d07edb3412b09008b7c5cfb9bbbd7d568bf00ba737b456ba171501',
+  ATOM: '0xb00b60f88b03a6a6259588d4429f8fcaba3bb11cad1b281129fc3d226e3b668a',
+  NEAR: '0xc415de8d2eba7db216527dff4b60e8f3a5311c740dadb233e13e12547e226750',
+  APT: '0x03ae4db29ed4ae33d323568895aa00337e658e348b37509f5372ae51f0af00d5',
+  ARB: '0x3fa4252848f9f0a1480be62745a4629d9eb1322aebab8a791e344b3b9c1adcf5',
+  OP: '0x385f64d993f7b77d8182ed5003d97c60aa3361f3cecfe711544d2d59165e9bdf',
+  SUI: '0x23d7315113f5b1d3ba7a83604c44b94d79f4fd69af77f804fc7f920a6dc65744',
+  INJ: '0x7a5bc1d2b56ad029048cd63964b3ad2776eadf812edc1a43a31406cb54bff592',
+  SEI: '0x53614f1cb0c031d4af66c04cb9c756234adad0e1cee85303795091499a4084eb',
+  TIA: '0x09f7c1d7dfbb7df2b8fe3d3d87ee94a2259d212da4f30c1f0540d066dfa44723',
+  JUP: '0x0a0408d619e9380abad35060f9192039ed5042fa6f82301d0e48bb52be830996',
+  PYTH: '0x0bbf28e9a841a1cc788f6a361b17ca072d0ea3098a1e5df1c3922d06719579ff',
+};
+
+interface PythPriceFeed {
+  id?: string; // feed id without the 0x prefix
+  price?: { price: string | number; expo: number };
+}
+
+const feedIdToSymbol = new Map(Object.entries(PYTH_FEED_IDS).map(([symbol, id]) => [id.replace('0x', ''), symbol]));
+
+// Hermes reports fixed-point prices with a base-10 exponent
+const toPrice = (price: NonNullable<PythPriceFeed['price']>) => Number(price.price) * Math.pow(10, price.expo);
+
+async function fetchPythSnapshot(symbols: string[]): Promise<PriceTick[]> {
+  const feedIds = symbols.map(s => PYTH_FEED_IDS[s]).filter(Boolean);
+  if (feedIds.length === 0) return [];
+
+  const data = await fetchJson<PythPriceFeed[]>(`${PYTH_HERMES_REST}?${feedIds.map(id => `ids[]=${id}`).join('&')}`);
+  if (!Array.isArray(data)) return [];
+
+  const now = Date.now();
+  return data.flatMap(feed => {
+    const symbol = feed?.id && feedIdToSymbol.get(feed.id);
+    if (!symbol || !feed.price?.price) return [];
+    return [{ symbol, price: toPrice(feed.price), source: 'Pyth', timestamp: now }];
+  });
+}
+
+export const pythProvider = createSocketProvider({
+  id: 'pyth',
+  name: 'Pyth',
+  capabilities: ['ticks'],
+  priority: 10,
+  staleAfterMs: 30000,
+  fallback: true,
+  url: PYTH_HERMES_WSS,
+  instruments: PYTH_FEED_IDS,
+  subscribeMessage: (ids) => ({ type: 'subscribe', ids }),
+  unsubscribeMessage: (ids) => ({ type: 'unsubscribe', ids }),
+  parse: (data, toSymbol) => {
+    const message = data as { type?: string; price_feed?: PythPriceFeed };
+    const feed = message?.type === 'price_update' ? message.price_feed : null;
+    const symbol = feed?.id && toSymbol(`0x${feed.id}`);
+    return symbol && feed.price ? [{ symbol, price: toPrice(feed.price) }] : [];
+  },
+  fetchSnapshot: fetchPythSnapshot,
+});
@@ -0,0 +1,30 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📇 Price Feed Registry — Known providers, ordered by priority
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { PriceFeedCapability, PriceFeedProvider } from './types';
+
+const providers = new Map<string, PriceFeedProvider>();
+
+// Plug in a provider (or replace one with the same id) — picked up on the next connect
+export function registerPriceFeedProvider(provider: PriceFeedProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getPriceFeedProvider(id: string): PriceFeedProvider | null {
+  return providers.get(id) ?? null;
+}
+
+export function getPriceFeedProviderByName(name: string): PriceFeedProvider | null {
+  for (const provider of providers.values()) {
+    if (provider.name === name) return provider;
+  }
+  return null;
+}
+
+// Highest priority first; optionally only providers with a capability
+export function listPriceFeedProviders(capability?: PriceFeedCapability): PriceFeedProvider[] {
+  return Array.from(providers.values())
+    .filter(p => !capability || p.capabilities.includes(capability))
+    .sort((a, b) => a.priority - b.priority);
+}
@@ -0,0 +1,79 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 REST Provider — Shared health tracking for polled sources
+// ═══════════════════════════════════════════════════════════════════════════════
+// REST sources have nothing to hold open: the store polls fetchSnapshot for the
+// symbols no live stream covers, so connect/subscribe have nothing to do.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { fetchWithRetry } from '@/lib/fetchWithRetry';
+import type {
+  PriceFeedCapability,
+  PriceFeedHealth,
+  PriceFeedMetadata,
+  PriceFeedProvider,
+  PriceSnapshotOptions,
+  PriceTick,
+} from './types';
+
+// Polls repeat every few seconds, so fail fast instead of stacking retries
+const REST_FETCH_OPTIONS = { maxRetries: 2, timeoutMs: 8000 };
+
+export interface RestProviderConfig {
+  id: string;
+  name: string;
+  capabilities: readonly PriceFeedCapability[];
+  priority: number;
+  staleAfterMs: number;
+  supports(symbol: string): boolean;
+  fetchSnapshot?(symbols: string[], options?: PriceSnapshotOptions): Promise<PriceTick[]>;
+  fetchMetadata?(symbols: string[]): Promise<PriceFeedMetadata[]>;
+}
+
+// GET a JSON document, throwing on HTTP errors so the caller's health reflects them
+export async function fetchJson<T = unknown>(url: string): Promise<T> {
+  const response = await fetchWithRetry(url, REST_FETCH_OPTIONS);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.json() as Promise<T>;
+}
+
+export function createRestProvider(config: RestProviderConfig): PriceFeedProvider {
+  let health: PriceFeedHealth = { status: 'idle', lastMessageAt: 0, reconnectAttempts: 0, error: null };
+
+  // Failures degrade to an empty result; the store moves on to the next provider
+  const track = async <T>(request: Promise<T[]>): Promise<T[]> => {
+    try {
+      const result = await request;
+      health = { ...health, status: 'connected', lastMessageAt: Date.now(), reconnectAttempts: 0, error: null };
+      return result;
+    } catch (err) {
+      health = {
+        ...health,
+        status: 'reconnecting',
+        reconnectAttempts: health.reconnectAttempts + 1,
+        error: err instanceof Error ? err.message : 'Request failed',
+      };
+      return [];
+    }
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+    transport: 'rest',
+    capabilities: config.capabilities,
+    priority: config.priority,
+    staleAfterMs: config.staleAfterMs,
+
+    supports: config.supports,
+    connect: () => {},
+    disconnect: () => {},
+    subscribe: () => {},
+    unsubscribe: () => {},
+    health: () => health,
+
+    fetchSnapshot: config.fetchSnapshot
+      && ((symbols, options) => track(config.fetchSnapshot!(symbols, options))),
+    fetchMetadata: config.fetchMetadata
+      && ((symbols) => track(config.fetchMetadata!(symbols))),
+  };
+}
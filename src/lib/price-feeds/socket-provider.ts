@@ -0,0 +1,196 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔁 Socket Provider — Shared WebSocket lifecycle for streaming venues
+// ═══════════════════════════════════════════════════════════════════════════════
+// Owns the socket, reconnect backoff, keep-alive and subscription bookkeeping.
+// A venue only describes its URL, subscribe messages and how to parse a frame.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type {
+  PriceFeedCapability,
+  PriceFeedHealth,
+  PriceFeedProvider,
+  PriceFeedSink,
+  PriceSnapshotOptions,
+  PriceTick,
+} from './types';
+
+const RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 15000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 10;
+
+export type ParsedTick = Omit<PriceTick, 'source' | 'timestamp'>;
+
+export interface SocketProviderConfig {
+  id: string;
+  name: string;
+  capabilities: readonly PriceFeedCapability[];
+  priority: number;
+  staleAfterMs: number;
+  fallback?: boolean;
+  url: string;
+  instruments: Record<string, string>;                  // symbol -> venue instrument
+  subscribeMessage(instruments: string[]): unknown;
+  unsubscribeMessage(instruments: string[]): unknown;
+  parse(data: unknown, toSymbol: (instrument: string) => string | undefined): ParsedTick[];
+  maxInstrumentsPerMessage?: number;                     // venue limit per subscribe request
+  ping?: { intervalMs: number; message: unknown };
+  maxReconnectAttempts?: number;
+  fetchSnapshot?(symbols: string[], options?: PriceSnapshotOptions): Promise<PriceTick[]>;
+}
+
+const encode = (message: unknown) => (typeof message === 'string' ? message : JSON.stringify(message));
+
+export function createSocketProvider(config: SocketProviderConfig): PriceFeedProvider {
+  const instrumentToSymbol = new Map(Object.entries(config.instruments).map(([symbol, instrument]) => [instrument, symbol]));
+  const maxAttempts = config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+  const symbols = new Set<string>();
+
+  let socket: WebSocket | null = null;
+  let sink: PriceFeedSink | null = null;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  let pingInterval: ReturnType<typeof setInterval> | null = null;
+  let health: PriceFeedHealth = { status: 'idle', lastMessageAt: 0, reconnectAttempts: 0, error: null };
+
+  const setHealth = (changes: Partial<PriceFeedHealth>) => {
+    health = { ...health, ...changes };
+    sink?.onHealthChange();
+  };
+
+  const instrumentsFor = (list: Iterable<string>) =>
+    Array.from(list).map(s => config.instruments[s]).filter(Boolean);
+
+  const send = (message: unknown) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(encode(message));
+  };
+
+  const sendChunked = (instruments: string[], toMessage: (chunk: string[]) => unknown) => {
+    const size = config.maxInstrumentsPerMessage ?? instruments.length;
+    for (let i = 0; i < instruments.length; i += size) {
+      send(toMessage(instruments.slice(i, i + size)));
+    }
+  };
+
+  const clearTimers = () => {
+    if (reconnectTimeout) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    if (pingInterval) {
+      clearInterval(pingInterval);
+      pingInterval = null;
+    }
+  };
+
+  const open = () => {
+    if (socket?.readyState === WebSocket.OPEN || socket?.readyState === WebSocket.CONNECTING) return;
+
+    let ws: WebSocket;
+    try {
+      console.log(`[PriceFeed] Connecting to ${config.name}...`);
+      ws = new WebSocket(config.url);
+    } catch (err) {
+      console.warn(`[PriceFeed] Failed to create ${config.name} WebSocket`);
+      setHealth({ status: 'failed', error: err instanceof Error ? err.message : 'WebSocket unavailable' });
+      return;
+    }
+    socket = ws;
+
+    // Handlers of a socket we have since replaced or closed are ignored
+    ws.onopen = () => {
+      if (socket !== ws) return;
+      console.log(`[PriceFeed] ✅ Connected to ${config.name}`);
+      sendChunked(instrumentsFor(symbols), config.subscribeMessage);
+
+      if (config.ping) {
+        const { intervalMs, message } = config.ping;
+        pingInterval = setInterval(() => send(message), intervalMs);
+      }
+      setHealth({ status: 'connected', reconnectAttempts: 0, error: null });
+    };
+
+    ws.onmessage = (event) => {
+      if (socket !== ws) return;
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        return; // keep-alive frames and other non-JSON payloads
+      }
+      const now = Date.now();
+      const ticks = config.parse(data, instrument => instrumentToSymbol.get(instrument))
+        .filter(t => symbols.has(t.symbol) && Number.isFinite(t.price) && t.price > 0)
+        .map(t => ({ ...t, source: config.name, timestamp: now }));
+      if (ticks.length === 0) return;
+
+      health = { ...health, lastMessageAt: now };
+      sink?.onTicks(ticks);
+    };
+
+    ws.onerror = () => {
+      if (socket !== ws) return;
+      console.warn(`[PriceFeed] ${config.name} WebSocket error`);
+      // onclose follows and decides whether to retry
+    };
+
+    ws.onclose = (event) => {
+      if (socket !== ws) return;
+      console.log(`[PriceFeed] ${config.name} disconnected:`, event.code, event.reason);
+      socket = null;
+      clearTimers();
+      if (!sink) return;
+
+      if (health.reconnectAttempts >= maxAttempts) {
+        setHealth({ status: 'failed', error: `${config.name} unreachable after ${maxAttempts} attempts` });
+        return;
+      }
+      const attempts = health.reconnectAttempts + 1;
+      const delay = Math.min(RECONNECT_DELAY * Math.pow(1.5, attempts - 1), MAX_RECONNECT_DELAY);
+      console.log(`[PriceFeed] Reconnecting to ${config.name} in ${delay}ms (attempt ${attempts})`);
+      reconnectTimeout = setTimeout(open, delay);
+      setHealth({ status: 'reconnecting', reconnectAttempts: attempts });
+    };
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+    transport: 'websocket',
+    capabilities: config.capabilities,
+    priority: config.priority,
+    staleAfterMs: config.staleAfterMs,
+    fallback: config.fallback,
+
+    supports: (symbol) => symbol in config.instruments,
+
+    connect(nextSink) {
+      sink = nextSink;
+      if (health.status === 'failed') health = { ...health, reconnectAttempts: 0 };
+      setHealth({ status: 'connecting', error: null });
+      open();
+    },
+
+    disconnect() {
+      sink = null;
+      clearTimers();
+      const closing = socket;
+      socket = null;
+      closing?.close();
+      health = { ...health, status: 'idle', reconnectAttempts: 0 };
+    },
+
+    subscribe(list) {
+      const added = list.filter(s => !symbols.has(s) && s in config.instruments);
+      added.forEach(s => symbols.add(s));
+      sendChunked(instrumentsFor(added), config.subscribeMessage);
+    },
+
+    unsubscribe(list) {
+      const removed = list.filter(s => symbols.delete(s));
+      sendChunked(instrumentsFor(removed), config.unsubscribeMessage);
+    },
+
+    health: () => health,
+
+    fetchSnapshot: config.fetchSnapshot,
+  };
+}
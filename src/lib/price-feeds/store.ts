@@ -0,0 +1,381 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ Price Feed Store — One normalised price stream for every hook
+// ═══════════════════════════════════════════════════════════════════════════════
+// • Live: every primary streaming provider (the exchanges) runs at once; one that
+//   gives up is retried later. Fallback streams (Pyth) run only while every
+//   primary has given up and no primary is back; after the last we start over
+// • Gaps: symbols no connected stream covers are polled from snapshot providers
+//   in priority order, each asked only for what the ones before did not return
+// • Merge: a tick replaces the current price if its provider ranks at least as
+//   high, or once the current price is older than its provider's staleAfterMs;
+//   the latest tick of every source is kept as well for per-venue consumers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getPriceFeedProviderByName, listPriceFeedProviders } from './registry';
+import { recordVolume } from './volume';
+import type {
+  PriceFeedCapability,
+  PriceFeedMetadata,
+  PriceFeedProvider,
+  PriceFeedSink,
+  PriceFeedState,
+  PriceTick,
+} from './types';
+
+const FALLBACK_POLL_INTERVAL = 5000;
+const FAILOVER_RETRY_DELAY = 2000;
+const FAILED_STREAM_RETRY_DELAY = 60000;
+const TICK_RATE_INTERVAL = 250;
+const MAX_SUBSCRIBED_SYMBOLS = 100;
+
+export type PriceFeedListener = (prices: ReadonlyMap<string, PriceTick>, state: PriceFeedState) => void;
+
+const IDLE_STATE: PriceFeedState = {
+  connected: false,
+  connecting: false,
+  error: null,
+  lastUpdate: 0,
+  ticksPerSecond: 0,
+  subscribedCount: 0,
+  primarySource: 'none',
+};
+
+const listeners = new Set<PriceFeedListener>();
+const prices = new Map<string, PriceTick>();
+const sourceTicks = new Map<string, Map<string, PriceTick>>(); // symbol -> source -> latest
+const demand = new Map<string, number>(); // symbol -> number of open subscriptions
+let subscribed = new Set<string>();
+let state: PriceFeedState = { ...IDLE_STATE };
+
+const liveStreams = new Map<string, PriceFeedProvider>();
+const failedStreams = new Map<string, ReturnType<typeof setTimeout> | null>(); // id -> pending retry
+let running = false;
+let polling = false;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+let pollInterval: ReturnType<typeof setInterval> | null = null;
+let tickRateInterval: ReturnType<typeof setInterval> | null = null;
+let tickWindow: number[] = [];
+
+function notify() {
+  listeners.forEach(listener => listener(prices, state));
+}
+
+function rankOf(source: string) {
+  const provider = getPriceFeedProviderByName(source);
+  return provider
+    ? { priority: provider.priority, staleAfterMs: provider.staleAfterMs }
+    : { priority: Number.POSITIVE_INFINITY, staleAfterMs: 0 };
+}
+
+function ingest(ticks: PriceTick[]) {
+  const now = Date.now();
+  let changed = false;
+
+  for (const tick of ticks) {
+    if (!Number.isFinite(tick.price) || tick.price <= 0) continue;
+    const bySource = sourceTicks.get(tick.symbol) ?? new Map<string, PriceTick>();
+    bySource.set(tick.source, tick);
+    sourceTicks.set(tick.symbol, bySource);
+    recordVolume(tick);
+
+    const existing = prices.get(tick.symbol);
+    if (existing && existing.source !== tick.source) {
+      const incoming = rankOf(tick.source);
+      const current = rankOf(existing.source);
+      if (incoming.priority > current.priority && now - existing.timestamp <= current.staleAfterMs) continue;
+    }
+    prices.set(tick.symbol, tick);
+    tickWindow.push(now);
+    changed = true;
+  }
+
+  if (!changed) return;
+  state = { ...state, lastUpdate: now, subscribedCount: prices.size };
+  notify();
+}
+
+function updateTickRate() {
+  const now = Date.now();
+  tickWindow = tickWindow.filter(t => now - t < 1000);
+  state = { ...state, ticksPerSecond: tickWindow.length };
+}
+
+function connectedStreams(): PriceFeedProvider[] {
+  return Array.from(liveStreams.values())
+    .filter(p => p.health().status === 'connected')
+    .sort((a, b) => a.priority - b.priority);
+}
+
+function refreshState() {
+  const connected = connectedStreams();
+  const statuses = Array.from(liveStreams.values()).map(p => p.health().status);
+  state = {
+    ...state,
+    connected: connected.length > 0,
+    connecting: connected.length === 0 && statuses.some(s => s === 'connecting' || s === 'reconnecting'),
+    error: streamingProviders().length > 0 ? null : 'No live price stream registered', // fallbacks cover outages
+    primarySource: connected[0]?.name ?? 'none',
+  };
+  notify();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📡 LIVE STREAMS + FAILOVER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function sinkFor(provider: PriceFeedProvider): PriceFeedSink {
+  return {
+    onTicks: ingest,
+    onHealthChange: () => {
+      if (liveStreams.get(provider.id) !== provider) return;
+      const status = provider.health().status;
+
+      if (status === 'failed') {
+        console.log(`[PriceFeed] ${provider.name} gave up`);
+        stopStreamFor(provider);
+        // Primaries get another chance later; fallbacks wait for the next full restart
+        failedStreams.set(provider.id, provider.fallback ? null : setTimeout(() => {
+          failedStreams.delete(provider.id);
+          syncStreams();
+        }, FAILED_STREAM_RETRY_DELAY));
+      } else if (status === 'reconnecting') {
+        pollSnapshots();
+      }
+      syncStreams();
+      refreshState();
+    },
+  };
+}
+
+function streamingProviders(): PriceFeedProvider[] {
+  return listPriceFeedProviders('ticks').filter(p => p.transport === 'websocket');
+}
+
+function clearFailedStreams() {
+  failedStreams.forEach(timer => timer && clearTimeout(timer));
+  failedStreams.clear();
+}
+
+// Bring the set of running streams in line with the failover policy
+function syncStreams() {
+  if (!running) return;
+  const streams = streamingProviders().filter(p => !failedStreams.has(p.id));
+  const primaries = streams.filter(p => !p.fallback);
+  const fallbacks = streams.filter(p => p.fallback);
+  const primaryLive = primaries.some(p => liveStreams.has(p.id) && p.health().status === 'connected');
+  const fallback = primaryLive
+    ? undefined
+    : primaries.length === 0 ? fallbacks[0] : fallbacks.find(p => liveStreams.has(p.id));
+  const wanted = fallback ? [...primaries, fallback] : primaries;
+
+  if (wanted.length === 0) {
+    // Every stream gave up: keep polling and start over shortly
+    if (retryTimeout) return;
+    clearFailedStreams();
+    pollSnapshots();
+    retryTimeout = setTimeout(() => {
+      retryTimeout = null;
+      syncStreams();
+    }, FAILOVER_RETRY_DELAY);
+    refreshState();
+    return;
+  }
+
+  liveStreams.forEach(p => {
+    if (!wanted.includes(p)) stopStreamFor(p);
+  });
+  wanted.forEach(p => {
+    if (liveStreams.has(p.id) || failedStreams.has(p.id)) return;
+    liveStreams.set(p.id, p);
+    p.subscribe(Array.from(subscribed));
+    p.connect(sinkFor(p));
+  });
+}
+
+function stopStreamFor(provider: PriceFeedProvider) {
+  liveStreams.delete(provider.id);
+  provider.unsubscribe(Array.from(subscribed));
+  provider.disconnect();
+}
+
+function stopStreams() {
+  if (retryTimeout) {
+    clearTimeout(retryTimeout);
+    retryTimeout = null;
+  }
+  liveStreams.forEach(stopStreamFor);
+  clearFailedStreams();
+}
+
+function start() {
+  if (running) return;
+  running = true;
+  tickRateInterval = setInterval(updateTickRate, TICK_RATE_INTERVAL);
+  pollInterval = setInterval(() => pollSnapshots(), FALLBACK_POLL_INTERVAL);
+  state = { ...state, connecting: true, error: null };
+  syncStreams();
+  refreshState();
+}
+
+function stop() {
+  running = false;
+  stopStreams();
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+  if (tickRateInterval) {
+    clearInterval(tickRateInterval);
+    tickRateInterval = null;
+  }
+  state = { ...IDLE_STATE };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔁 SNAPSHOT POLLING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function uncoveredSymbols(): string[] {
+  const connected = connectedStreams();
+  return Array.from(subscribed).filter(s => !connected.some(p => p.supports(s)));
+}
+
+// Ask snapshot providers in priority order, each only for what is still missing
+async function cascade(
+  capability: PriceFeedCapability,
+  symbols: string[],
+  covers: (tick: PriceTick) => boolean = () => true
+): Promise<PriceTick[]> {
+  const collected: PriceTick[] = [];
+  let remaining = symbols;
+
+  for (const provider of listPriceFeedProviders(capability)) {
+    if (remaining.length === 0) break;
+    if (!provider.fetchSnapshot) continue;
+    const wanted = remaining.filter(s => provider.supports(s));
+    if (wanted.length === 0) continue;
+
+    let ticks: PriceTick[] = [];
+    try {
+      ticks = await provider.fetchSnapshot(wanted, { change24h: capability === 'change24h' });
+    } catch (err) {
+      console.warn(`[PriceFeed] ${provider.name} snapshot failed:`, err);
+    }
+    if (provider.capabilities.includes('ticks')) ingest(ticks);
+
+    const covered = new Set(ticks.filter(covers).map(t => t.symbol));
+    collected.push(...ticks.filter(t => covered.has(t.symbol)));
+    remaining = remaining.filter(s => !covered.has(s));
+  }
+  return collected;
+}
+
+async function pollSnapshots(symbols = uncoveredSymbols()) {
+  if (polling || symbols.length === 0) return;
+  polling = true;
+  try {
+    await cascade('ticks', symbols);
+  } finally {
+    polling = false;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 PUBLIC API
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function syncSubscriptions(): string[] {
+  const next = new Set(Array.from(demand.keys()).slice(0, MAX_SUBSCRIBED_SYMBOLS));
+  const added = Array.from(next).filter(s => !subscribed.has(s));
+  const removed = Array.from(subscribed).filter(s => !next.has(s));
+  subscribed = next;
+
+  liveStreams.forEach(stream => {
+    if (removed.length > 0) stream.unsubscribe(removed);
+    if (added.length > 0) stream.subscribe(added);
+  });
+  return added;
+}
+
+// Listen to every price and state change; the feed runs while anyone listens
+export function onPriceFeedUpdate(listener: PriceFeedListener): () => void {
+  listeners.add(listener);
+  start();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+// Ask for live prices of these symbols until the returned release is called
+export function subscribePriceFeed(symbols: string[]): () => void {
+  const normalized = Array.from(new Set(symbols.map(s => s.toUpperCase()).filter(Boolean)));
+  normalized.forEach(s => demand.set(s, (demand.get(s) ?? 0) + 1));
+
+  // Snapshot new symbols right away for a fast first paint
+  const added = syncSubscriptions();
+  if (added.length > 0) cascade('ticks', added);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    normalized.forEach(s => {
+      const count = (demand.get(s) ?? 1) - 1;
+      if (count > 0) demand.set(s, count);
+      else demand.delete(s);
+    });
+    syncSubscriptions();
+  };
+}
+
+// Restart every live stream, failed ones included, if none is connected
+export function reconnectPriceFeed(): void {
+  if (!running || connectedStreams().length > 0) return;
+  stopStreams();
+  syncStreams();
+  refreshState();
+}
+
+export function getLatestPrice(symbol: string): PriceTick | null {
+  return prices.get(symbol.toUpperCase()) ?? null;
+}
+
+export function getLatestPrices(): ReadonlyMap<string, PriceTick> {
+  return prices;
+}
+
+// Latest tick from each source for one symbol, best-ranked source first
+export function getSourceTicks(symbol: string): PriceTick[] {
+  const bySource = sourceTicks.get(symbol.toUpperCase());
+  if (!bySource) return [];
+  return Array.from(bySource.values()).sort((a, b) => rankOf(a.source).priority - rankOf(b.source).priority);
+}
+
+export function getPriceFeedState(): PriceFeedState {
+  return state;
+}
+
+// One-shot read of a capability ('ticks', 'change24h', 'fx', ...) across providers
+export function fetchPriceSnapshot(capability: PriceFeedCapability, symbols: string[]): Promise<PriceTick[]> {
+  const normalized = Array.from(new Set(symbols.map(s => s.toUpperCase())));
+  return cascade(capability, normalized, capability === 'change24h' ? t => t.change24h !== undefined : undefined);
+}
+
+export async function fetchPriceFeedMetadata(symbols: string[]): Promise<PriceFeedMetadata[]> {
+  const collected: PriceFeedMetadata[] = [];
+  let remaining = Array.from(new Set(symbols.map(s => s.toUpperCase())));
+
+  for (const provider of listPriceFeedProviders('metadata')) {
+    if (remaining.length === 0) break;
+    if (!provider.fetchMetadata) continue;
+    const wanted = remaining.filter(s => provider.supports(s));
+    if (wanted.length === 0) continue;
+
+    const metadata = await provider.fetchMetadata(wanted).catch(() => [] as PriceFeedMetadata[]);
+    const covered = new Set(metadata.map(m => m.symbol));
+    collected.push(...metadata);
+    remaining = remaining.filter(s => !covered.has(s));
+  }
+  return collected;
+}
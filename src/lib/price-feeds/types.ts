@@ -0,0 +1,89 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 Price Feed Types — Provider contract and the normalised tick stream
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type PriceFeedCapability =
+  | 'ticks'      // live or polled USD prices per asset
+  | 'ohlc'       // candles
+  | 'volume'     // traded 24h volume reported by the venue
+  | 'change24h'  // 24h reference price / percentage change
+  | 'fx'         // fiat exchange rates against USD
+  | 'metadata';  // names, logos, ids
+
+export type PriceFeedTransport = 'websocket' | 'rest';
+
+export interface PriceTick {
+  symbol: string;        // upper-case base asset, e.g. "BTC" (or currency code for fx)
+  price: number;         // USD price (units per USD for fx)
+  source: string;        // provider name
+  timestamp: number;
+  change24h?: number;    // percent
+  price24hAgo?: number;
+  volume24h?: number;    // USD, only when the venue reports it
+  tradeSize?: number;    // USD notional of the fill, trade streams only
+}
+
+export interface PriceFeedMetadata {
+  symbol: string;
+  name: string;
+  slug: string;
+  logo: string;
+  assetId: number | string; // provider-specific id
+  source: string;
+  lastUpdated: number;
+}
+
+export type PriceFeedStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed';   // gave up; the store fails over to the next provider
+
+export interface PriceFeedHealth {
+  status: PriceFeedStatus;
+  lastMessageAt: number;
+  reconnectAttempts: number;
+  error: string | null;
+}
+
+export interface PriceSnapshotOptions {
+  change24h?: boolean; // also resolve the 24h reference price
+}
+
+// Handed to a provider on connect; the store is the only implementation
+export interface PriceFeedSink {
+  onTicks(ticks: PriceTick[]): void;
+  onHealthChange(): void;
+}
+
+export interface PriceFeedProvider {
+  readonly id: string;
+  readonly name: string;                  // written to PriceTick.source
+  readonly transport: PriceFeedTransport;
+  readonly capabilities: readonly PriceFeedCapability[];
+  readonly priority: number;              // lower wins while its price is fresh
+  readonly staleAfterMs: number;          // after this, lower-priority ticks may replace ours
+  readonly fallback?: boolean;            // stream only while every primary stream has failed
+
+  supports(symbol: string): boolean;
+  connect(sink: PriceFeedSink): void;
+  disconnect(): void;
+  subscribe(symbols: string[]): void;
+  unsubscribe(symbols: string[]): void;
+  health(): PriceFeedHealth;
+
+  // One-shot REST reads; the store polls these for symbols no stream covers
+  fetchSnapshot?(symbols: string[], options?: PriceSnapshotOptions): Promise<PriceTick[]>;
+  fetchMetadata?(symbols: string[]): Promise<PriceFeedMetadata[]>;
+}
+
+export interface PriceFeedState {
+  connected: boolean;
+  connecting: boolean;
+  error: string | null;
+  lastUpdate: number;
+  ticksPerSecond: number;
+  subscribedCount: number;
+  primarySource: string; // active stream name, 'none' while nothing is live
+}
@@ -0,0 +1,71 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 Venue Volume — Rolling USD volume per source and symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+// Ticker venues report their own 24h volume with every update. Trade streams
+// only send single fills, so those are summed per minute over a rolling window
+// and scaled up to a 24h rate once the window holds enough history.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { PriceTick } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRADE_WINDOW_MS = 15 * 60 * 1000;
+const BUCKET_MS = 60 * 1000;
+const MIN_TRADE_COVERAGE_MS = 60 * 1000; // too few fills before this to extrapolate
+const REPORTED_MAX_AGE_MS = 10 * 60 * 1000;
+
+interface TradeWindow {
+  startedAt: number;
+  buckets: Map<number, number>; // bucket start -> USD notional
+}
+
+const reported = new Map<string, { volume: number; timestamp: number }>();
+const trades = new Map<string, TradeWindow>();
+
+const keyOf = (symbol: string, source: string) => `${source}:${symbol}`;
+
+function prune(window: TradeWindow, now: number) {
+  const cutoff = now - TRADE_WINDOW_MS;
+  window.buckets.forEach((_, start) => {
+    if (start + BUCKET_MS <= cutoff) window.buckets.delete(start);
+  });
+}
+
+export function recordVolume(tick: PriceTick): void {
+  const key = keyOf(tick.symbol, tick.source);
+
+  if (tick.volume24h !== undefined && Number.isFinite(tick.volume24h) && tick.volume24h >= 0) {
+    reported.set(key, { volume: tick.volume24h, timestamp: tick.timestamp });
+  }
+
+  if (tick.tradeSize !== undefined && Number.isFinite(tick.tradeSize) && tick.tradeSize > 0) {
+    let window = trades.get(key);
+    // A long silence (stream down) would read as zero volume, so start over
+    if (!window || window.buckets.size === 0) {
+      window = { startedAt: tick.timestamp, buckets: new Map() };
+      trades.set(key, window);
+    }
+    const bucket = Math.floor(tick.timestamp / BUCKET_MS) * BUCKET_MS;
+    window.buckets.set(bucket, (window.buckets.get(bucket) ?? 0) + tick.tradeSize);
+    prune(window, tick.timestamp);
+  }
+}
+
+// USD traded on this venue over 24h, reported or extrapolated; undefined if unknown
+export function getVenueVolume(symbol: string, source: string): number | undefined {
+  const key = keyOf(symbol.toUpperCase(), source);
+  const now = Date.now();
+
+  const report = reported.get(key);
+  if (report && now - report.timestamp <= REPORTED_MAX_AGE_MS) return report.volume;
+
+  const window = trades.get(key);
+  if (!window) return undefined;
+  prune(window, now);
+  const covered = Math.min(now - window.startedAt, TRADE_WINDOW_MS);
+  if (window.buckets.size === 0 || covered < MIN_TRADE_COVERAGE_MS) return undefined;
+
+  let total = 0;
+  window.buckets.forEach(volume => { total += volume; });
+  return total * (DAY_MS / covered);
+}
@@ -0,0 +1,96 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 PRICE HISTORY PERSISTENCE — Hourly closes of every tracked symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+// The price feed and candle archive call recordPriceSnapshot/recordPriceCandles;
+// records live in memory for the brain's synchronous reads (correlation, beta,
+// market regime) and are written to IndexedDB on a debounce. Installed into the
+// live analysis context at startup.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as storage from './clientStorage';
+import { defaultAnalysisContext, PriceHistoryStore } from './zikalyze-brain/context';
+import { appendPriceSample, mergePriceCandles } from './zikalyze-brain/price-history';
+import type { HourlyClose, PriceHistoryRecord } from './zikalyze-brain/types';
+
+const WRITE_DEBOUNCE_MS = 30_000;
+
+const records = new Map<string, PriceHistoryRecord>();
+const dirty = new Set<string>();
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+let hydrated = false;
+
+export const priceHistoryStore: PriceHistoryStore = {
+  get: (symbol) => records.get(symbol.toUpperCase()) || null,
+  symbols: () => [...records.keys()],
+};
+
+export async function flushPriceHistory(): Promise<void> {
+  if (writeTimer) {
+    clearTimeout(writeTimer);
+    writeTimer = null;
+  }
+  const pending = [...dirty];
+  dirty.clear();
+  for (const symbol of pending) {
+    const record = records.get(symbol);
+    if (!record) continue;
+    try {
+      await storage.savePriceHistory(record);
+    } catch (error) {
+      console.warn('[PriceHistory] Save failed:', error);
+    }
+  }
+}
+
+function markDirty(record: PriceHistoryRecord) {
+  records.set(record.symbol, record);
+  dirty.add(record.symbol);
+  // Hold writes until the stored history is loaded, so it isn't overwritten
+  if (!hydrated || writeTimer) return;
+  writeTimer = setTimeout(() => { void flushPriceHistory(); }, WRITE_DEBOUNCE_MS);
+}
+
+// Latest price from the feed — becomes the current hour's close
+export function recordPriceSnapshot(symbol: string, price: number, nowMs: number = Date.now()): void {
+  const key = symbol.toUpperCase();
+  const next = appendPriceSample(records.get(key) ?? null, key, price, nowMs);
+  if (next) markDirty(next);
+}
+
+// Completed hourly candles from the archive
+export function recordPriceCandles(symbol: string, candles: HourlyClose[], nowMs: number = Date.now()): void {
+  const key = symbol.toUpperCase();
+  const next = mergePriceCandles(records.get(key) ?? null, key, candles, nowMs);
+  if (next) markDirty(next);
+}
+
+async function hydrate(): Promise<void> {
+  const stored = await storage.getAllPriceHistory();
+  for (const record of stored) {
+    const key = record.symbol.toUpperCase();
+    const live = records.get(key);
+    // Closes seen before hydration finished win over the stored ones for the same hour
+    records.set(key, live ? mergePriceCandles(record, key, live.hourly, Date.now()) ?? record : record);
+  }
+}
+
+let installPromise: Promise<void> | null = null;
+
+export function installPriceHistoryPersistence(): Promise<void> {
+  if (installPromise) return installPromise;
+
+  defaultAnalysisContext.priceHistory = priceHistoryStore;
+
+  window.addEventListener('pagehide', () => { void flushPriceHistory(); });
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flushPriceHistory();
+  });
+
+  installPromise = hydrate()
+    .catch(error => console.warn('[PriceHistory] Hydration failed, starting fresh:', error))
+    .finally(() => {
+      hydrated = true;
+      if (dirty.size > 0) void flushPriceHistory();
+    });
+  return installPromise;
+}
@@ -133,6 +133,9 @@ async function processOperation(operation: storage.SyncOperation, userId: string
     case storage.STORES.AI_LEARNING:
       await syncAILearning(type, data, userId);
       break;
+    case storage.STORES.STRATEGY_RULES:
+      await syncStrategyRule(type, data, userId);
+      break;
     default:
       console.warn(`[SyncManager] Unknown store: ${store}`);
   }
@@ -258,6 +261,34 @@ async function syncAILearning(
     .upsert(dbData, { onConflict: 'user_id,symbol' });
 }
 
+async function syncStrategyRule(
+  type: 'create' | 'update' | 'delete',
+  data: storage.ClientStrategyRule,
+  userId: string
+): Promise<void> {
+  if (type === 'delete') {
+    await supabase.from('strategy_rules')
+      .delete()
+      .eq('id', data.id)
+      .eq('user_id', userId);
+    return;
+  }
+
+  // Create and update both upsert — an edit made offline may reach the cloud first
+  await supabase.from('strategy_rules').upsert({
+    id: data.id,
+    name: data.name,
+    expression: data.expression,
+    symbol: data.symbol,
+    enabled: data.enabled,
+    alert: data.alert,
+    last_triggered_at: data.last_triggered_at,
+    created_at: data.created_at,
+    updated_at: data.updated_at,
+    user_id: userId,
+  });
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📥 DOWNLOAD FROM CLOUD
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -339,6 +370,27 @@ export async function downloadFromCloud(): Promise<void> {
       console.log(`[SyncManager] Downloaded ${learning.length} AI learning records`);
     }
 
+    // Download strategy rules — keep a local edit that is newer than the cloud copy
+    const { data: rules } = await supabase
+      .from('strategy_rules')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (rules) {
+      const local = new Map((await storage.getAllStrategyRules()).map(rule => [rule.id, rule]));
+      // Timestamps come back as '+00:00' from the cloud and 'Z' locally — compare instants, not strings
+      for (const rule of rules) {
+        const existing = local.get(rule.id);
+        if (existing && Date.parse(existing.updated_at) > Date.parse(rule.updated_at)) continue;
+        await storage.saveStrategyRule({ ...rule, synced: true });
+      }
+      // Synced rules missing from the cloud were deleted on another device; unsynced ones are still on their way up
+      const remote = new Set(rules.map(rule => rule.id));
+      const removed = [...local.values()].filter(rule => rule.synced && rule.user_id === user.id && !remote.has(rule.id));
+      for (const rule of removed) await storage.deleteStrategyRule(rule.id);
+      console.log(`[SyncManager] Downloaded ${rules.length} strategy rules, removed ${removed.length}`);
+    }
+
   } catch (err) {
     console.error('[SyncManager] Download failed:', err);
   }
@@ -0,0 +1,101 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 VOLUME HISTORY PERSISTENCE — Records per-symbol volume into IndexedDB
+// ═══════════════════════════════════════════════════════════════════════════════
+// The price feed and candle archive call recordVolumeSnapshot/recordVolumeCandles;
+// records live in memory for the brain's synchronous reads and are written to
+// IndexedDB on a debounce. Installed into the live analysis context at startup.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import * as storage from './clientStorage';
+import { defaultAnalysisContext, VolumeHistoryStore } from './zikalyze-brain/context';
+import { appendVolumeSnapshot, mergeVolumeCandles } from './zikalyze-brain/volume-history';
+import type { VolumeCandleSample, VolumeHistoryRecord } from './zikalyze-brain/types';
+
+const WRITE_DEBOUNCE_MS = 10_000;
+
+const records = new Map<string, VolumeHistoryRecord>();
+const dirty = new Set<string>();
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+let hydrated = false;
+
+export const volumeHistoryStore: VolumeHistoryStore = {
+  get: (symbol) => records.get(symbol.toUpperCase()) || null,
+};
+
+export async function flushVolumeHistory(): Promise<void> {
+  if (writeTimer) {
+    clearTimeout(writeTimer);
+    writeTimer = null;
+  }
+  const pending = [...dirty];
+  dirty.clear();
+  for (const symbol of pending) {
+    const record = records.get(symbol);
+    if (!record) continue;
+    try {
+      await storage.saveVolumeHistory(record);
+    } catch (error) {
+      console.warn('[VolumeHistory] Save failed:', error);
+    }
+  }
+}
+
+function markDirty(record: VolumeHistoryRecord) {
+  records.set(record.symbol, record);
+  dirty.add(record.symbol);
+  // Hold writes until the stored history is loaded, so it isn't overwritten
+  if (!hydrated || writeTimer) return;
+  writeTimer = setTimeout(() => { void flushVolumeHistory(); }, WRITE_DEBOUNCE_MS);
+}
+
+// 24h volume reading from the price feed — throttled to one per 15 minutes per symbol
+export function recordVolumeSnapshot(symbol: string, volume24h: number, nowMs: number = Date.now()): void {
+  const key = symbol.toUpperCase();
+  const next = appendVolumeSnapshot(records.get(key) ?? null, key, volume24h, nowMs);
+  if (next) markDirty(next);
+}
+
+// Completed hourly candles with real traded volume
+export function recordVolumeCandles(symbol: string, candles: VolumeCandleSample[], nowMs: number = Date.now()): void {
+  const key = symbol.toUpperCase();
+  const next = mergeVolumeCandles(records.get(key) ?? null, key, candles, nowMs);
+  if (next) markDirty(next);
+}
+
+async function hydrate(): Promise<void> {
+  const stored = await storage.getAllVolumeHistory();
+  for (const record of stored) {
+    const key = record.symbol.toUpperCase();
+    const live = records.get(key);
+    // Readings taken before hydration finished are merged on top of the stored history
+    let merged: VolumeHistoryRecord = record;
+    if (live) {
+      merged = mergeVolumeCandles(merged, key, live.hourly, Date.now()) ?? merged;
+      for (const snapshot of live.snapshots) {
+        merged = appendVolumeSnapshot(merged, key, snapshot.volume, snapshot.time) ?? merged;
+      }
+    }
+    records.set(key, merged);
+  }
+}
+
+let installPromise: Promise<void> | null = null;
+
+export function installVolumeHistoryPersistence(): Promise<void> {
+  if (installPromise) return installPromise;
+
+  defaultAnalysisContext.volumeHistory = volumeHistoryStore;
+
+  window.addEventListener('pagehide', () => { void flushVolumeHistory(); });
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flushVolumeHistory();
+  });
+
+  installPromise = hydrate()
+    .catch(error => console.warn('[VolumeHistory] Hydration failed, starting fresh:', error))
+    .finally(() => {
+      hydrated = true;
+      if (dirty.size > 0) void flushVolumeHistory();
+    });
+  return installPromise;
+}
@@ -11,7 +11,7 @@
 export interface PriceDataPoint {
   source: string;
   price: number;
-  volume: number; // Estimated volume weight for this source
+  volume: number; // USD traded on this source over 24h (0 when it reports none)
   timestamp: number;
   confidence: number; // 0-1 confidence score
 }
@@ -23,14 +23,40 @@ export interface AggregatedPrice {
   outliersSilent: string[];
   timestamp: number;
   method: 'vwap' | 'median' | 'single';
+  breakdown: SourceContribution[];
 }
 
-// Source reliability weights (based on historical accuracy)
+export interface SourceContribution {
+  source: string;
+  price: number;
+  volume: number;
+  weight: number;     // adaptive reliability weight used for this source
+  share: number;      // 0-1 share of the aggregated price
+  deviation: number;  // % away from the aggregated price
+  outlier: boolean;
+}
+
+export interface SourceReliability {
+  source: string;
+  baseWeight: number;
+  weight: number;
+  samples: number;
+  avgAgeMs: number;
+  avgDeviation: number; // %
+}
+
+// Source reliability priors; measured staleness and deviation adjust them at runtime
 const SOURCE_WEIGHTS: Record<string, number> = {
   'Pyth': 1.0,          // Primary oracle - highest trust
   'WebSocket': 0.95,    // Real-time aggregated feed
+  'Binance': 0.95,      // Exchange venues - real trades/tickers
+  'Coinbase': 0.95,
+  'Kraken': 0.90,
+  'OKX': 0.90,
+  'Bybit': 0.90,
   'DeFiLlama': 0.85,    // Aggregated DEX data
   'CoinGecko': 0.80,    // Centralized aggregator
+  'DIA': 0.75,          // Polled oracle quotations
   'Fallback': 0.50,     // Generic fallback sources
 };
 
@@ -43,6 +69,75 @@ const OUTLIER_Z_THRESHOLD = 2.0;
 // Minimum sources required for VWAP (otherwise use median)
 const MIN_SOURCES_FOR_VWAP = 2;
 
+// Adaptive weights: exponential moving averages over every aggregation
+const STATS_SMOOTHING = 0.05;
+const MIN_SAMPLES_FOR_ADAPTATION = 20;
+const DEVIATION_TOLERANCE = 0.002; // 0.2% average deviation halves a source's weight
+
+// Sources without volume (oracles, aggregators) keep a floor share instead of dropping to 0:
+// up to this fraction each, scaled by reliability × confidence, and at most the total below
+const ZERO_VOLUME_SHARE = 0.1;
+const MAX_ZERO_VOLUME_TOTAL = 0.4;
+
+interface SourceStats {
+  samples: number;
+  avgAgeMs: number;
+  avgDeviation: number; // fraction of the aggregated price
+}
+
+const sourceStats = new Map<string, SourceStats>();
+
+/**
+ * Reliability weight for a source: its prior, scaled down by how stale its
+ * prices usually are and how far they usually sit from the aggregate
+ */
+export function getSourceWeight(source: string): number {
+  const base = SOURCE_WEIGHTS[source] || 0.5;
+  const stats = sourceStats.get(source);
+  if (!stats || stats.samples < MIN_SAMPLES_FOR_ADAPTATION) return base;
+
+  const freshness = 1 - Math.min(stats.avgAgeMs / MAX_PRICE_AGE_MS, 1) * 0.5;
+  const accuracy = 1 / (1 + stats.avgDeviation / DEVIATION_TOLERANCE);
+  return Math.max(0.1, Math.min(1.0, base * freshness * accuracy));
+}
+
+/**
+ * Measured history behind the adaptive weights, most trusted first
+ */
+export function getSourceReliability(): SourceReliability[] {
+  return Array.from(sourceStats.entries())
+    .map(([source, stats]) => ({
+      source,
+      baseWeight: SOURCE_WEIGHTS[source] || 0.5,
+      weight: getSourceWeight(source),
+      samples: stats.samples,
+      avgAgeMs: stats.avgAgeMs,
+      avgDeviation: stats.avgDeviation * 100,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Fold one aggregation into each source's staleness and deviation history
+ */
+function recordSourceStats(dataPoints: PriceDataPoint[], price: number, now: number) {
+  if (price <= 0) return;
+
+  dataPoints.forEach(dp => {
+    const age = Math.max(0, now - dp.timestamp);
+    const deviation = Math.abs(dp.price - price) / price;
+    const stats = sourceStats.get(dp.source);
+
+    if (!stats) {
+      sourceStats.set(dp.source, { samples: 1, avgAgeMs: age, avgDeviation: deviation });
+      return;
+    }
+    stats.samples++;
+    stats.avgAgeMs += (age - stats.avgAgeMs) * STATS_SMOOTHING;
+    stats.avgDeviation += (deviation - stats.avgDeviation) * STATS_SMOOTHING;
+  });
+}
+
 /**
  * Calculate the median of an array of numbers
  */
@@ -133,8 +228,8 @@ function detectOutliers(dataPoints: PriceDataPoint[]): {
   // If all data was filtered out, return the most reliable source
   if (valid.length === 0 && dataPoints.length > 0) {
     const mostReliable = [...dataPoints].sort((a, b) => {
-      const weightA = SOURCE_WEIGHTS[a.source] || 0.5;
-      const weightB = SOURCE_WEIGHTS[b.source] || 0.5;
+      const weightA = getSourceWeight(a.source);
+      const weightB = getSourceWeight(b.source);
       return (weightB * b.confidence) - (weightA * a.confidence);
     })[0];
     
@@ -147,32 +242,63 @@ function detectOutliers(dataPoints: PriceDataPoint[]): {
   return { valid, outliers };
 }
 
+/**
+ * Share of each data point in the VWAP: volume adjusted by source reliability
+ * and confidence. Zero-volume sources get a reliability-weighted floor share
+ * carved out before the volume split; equal shares when no source reports volume
+ */
+function calculateVWAPShares(dataPoints: PriceDataPoint[]): number[] {
+  const trust = dataPoints.map(dp => getSourceWeight(dp.source) * dp.confidence);
+  const adjusted = dataPoints.map((dp, i) => dp.volume * trust[i]);
+  const sumVolume = adjusted.reduce((a, b) => a + b, 0);
+  
+  if (sumVolume === 0) {
+    // Fallback to simple average if no volume data
+    return dataPoints.map(() => 1 / dataPoints.length);
+  }
+  
+  const floors = dataPoints.map((dp, i) => dp.volume > 0 ? 0 : ZERO_VOLUME_SHARE * trust[i]);
+  const sumFloors = floors.reduce((a, b) => a + b, 0);
+  const scale = sumFloors > MAX_ZERO_VOLUME_TOTAL ? MAX_ZERO_VOLUME_TOTAL / sumFloors : 1;
+  const volumeShare = 1 - sumFloors * scale;
+  
+  return adjusted.map((v, i) => floors[i] * scale + (v / sumVolume) * volumeShare);
+}
+
 /**
  * Calculate VWAP (Volume-Weighted Average Price)
  * P_global = Σ(P_i × V_i) / Σ(V_i)
  */
-function calculateVWAP(dataPoints: PriceDataPoint[]): number {
+function calculateVWAP(dataPoints: PriceDataPoint[], shares = calculateVWAPShares(dataPoints)): number {
   if (dataPoints.length === 0) return 0;
   if (dataPoints.length === 1) return dataPoints[0].price;
   
-  let sumPriceVolume = 0;
-  let sumVolume = 0;
-  
-  dataPoints.forEach(dp => {
-    // Adjust volume by source reliability and confidence
-    const sourceWeight = SOURCE_WEIGHTS[dp.source] || 0.5;
-    const adjustedVolume = dp.volume * sourceWeight * dp.confidence;
-    
-    sumPriceVolume += dp.price * adjustedVolume;
-    sumVolume += adjustedVolume;
+  return dataPoints.reduce((sum, dp, i) => sum + dp.price * shares[i], 0);
+}
+
+/**
+ * Per-source breakdown of an aggregation
+ */
+function buildBreakdown(
+  valid: PriceDataPoint[],
+  outliers: PriceDataPoint[],
+  shares: number[],
+  price: number
+): SourceContribution[] {
+  const contribution = (dp: PriceDataPoint, share: number, outlier: boolean): SourceContribution => ({
+    source: dp.source,
+    price: dp.price,
+    volume: dp.volume,
+    weight: getSourceWeight(dp.source),
+    share,
+    deviation: price > 0 ? ((dp.price - price) / price) * 100 : 0,
+    outlier,
   });
   
-  if (sumVolume === 0) {
-    // Fallback to simple average if no volume data
-    return dataPoints.reduce((sum, dp) => sum + dp.price, 0) / dataPoints.length;
-  }
-  
-  return sumPriceVolume / sumVolume;
+  return [
+    ...valid.map((dp, i) => contribution(dp, shares[i] ?? 0, false)),
+    ...outliers.map(dp => contribution(dp, 0, true)),
+  ].sort((a, b) => b.share - a.share);
 }
 
 /**
@@ -189,7 +315,7 @@ function calculateAggregatedConfidence(
   
   // Average confidence of valid sources
   const avgSourceConfidence = validDataPoints.reduce(
-    (sum, dp) => sum + dp.confidence * (SOURCE_WEIGHTS[dp.source] || 0.5),
+    (sum, dp) => sum + dp.confidence * getSourceWeight(dp.source),
     0
   ) / validDataPoints.length;
   
@@ -227,6 +353,7 @@ export function aggregatePrices(dataPoints: PriceDataPoint[]): AggregatedPrice {
       outliersSilent: [],
       timestamp: now,
       method: 'single',
+      breakdown: [],
     };
   }
   
@@ -234,11 +361,12 @@ export function aggregatePrices(dataPoints: PriceDataPoint[]): AggregatedPrice {
     const dp = dataPoints[0];
     return {
       price: dp.price,
-      confidence: dp.confidence * (SOURCE_WEIGHTS[dp.source] || 0.5),
+      confidence: dp.confidence * getSourceWeight(dp.source),
       sourcesUsed: [dp.source],
       outliersSilent: [],
       timestamp: now,
       method: 'single',
+      breakdown: buildBreakdown([dp], [], [1], dp.price),
     };
   }
   
@@ -248,24 +376,31 @@ export function aggregatePrices(dataPoints: PriceDataPoint[]): AggregatedPrice {
   // Step 2: Choose aggregation method based on valid data points
   let price: number;
   let method: 'vwap' | 'median' | 'single';
+  let shares: number[];
   
   if (valid.length >= MIN_SOURCES_FOR_VWAP) {
     // Use VWAP for multiple sources
-    price = calculateVWAP(valid);
+    shares = calculateVWAPShares(valid);
+    price = calculateVWAP(valid, shares);
     method = 'vwap';
   } else if (valid.length === 1) {
     // Single source - use directly
     price = valid[0].price;
     method = 'single';
+    shares = [1];
   } else {
     // Fallback to median of all original data
     price = calculateMedian(dataPoints.map(dp => dp.price));
     method = 'median';
+    shares = valid.map(() => 1 / valid.length);
   }
   
   // Step 3: Calculate confidence
   const confidence = calculateAggregatedConfidence(valid, outliers.length);
   
+  // Step 4: Learn from this round for the adaptive source weights
+  recordSourceStats(dataPoints, price, now);
+  
   return {
     price,
     confidence,
@@ -273,6 +408,7 @@ export function aggregatePrices(dataPoints: PriceDataPoint[]): AggregatedPrice {
     outliersSilent: outliers.map(dp => dp.source),
     timestamp: now,
     method,
+    breakdown: buildBreakdown(valid, outliers, shares, price),
   };
 }
 
@@ -318,7 +454,7 @@ export function calculateDynamicConfidence(
   const age = now - timestamp;
   
   // Base confidence from source
-  let confidence = SOURCE_WEIGHTS[source] || 0.5;
+  let confidence = getSourceWeight(source);
   
   // Freshness penalty (linear decay over 5 seconds)
   if (age > 0) {
@@ -0,0 +1,149 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔀 ANALYSIS DIFF — What changed between two analyses of the same symbol
+// ═══════════════════════════════════════════════════════════════════════════════
+// Each saved analysis keeps an AnalysisSnapshot: verdict, levels, insights and
+// timeframe alignment in structured form. diffAnalyses compares two of them —
+// bias flip, confidence delta, moved levels, new/removed insights and changed
+// timeframe trends — so the UI doesn't have to compare two text reports.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  AlignmentTimeframe,
+  AnalysisDiff,
+  AnalysisExportInputs,
+  AnalysisResult,
+  AnalysisSnapshot,
+  LevelChange,
+  SnapshotLevel,
+} from './types';
+
+// Levels that moved less than this (fraction of price) count as unchanged
+const LEVEL_MOVE_THRESHOLD = 0.001;
+
+const TIMEFRAME_ORDER: AlignmentTimeframe[] = ['weekly', 'daily', 'h4', 'h1', 'm15'];
+const TIMEFRAME_LABEL: Record<AlignmentTimeframe, string> = { weekly: 'W', daily: 'D', h4: '4H', h1: '1H', m15: '15M' };
+
+// `inputs` rides along for exports — diffs ignore it
+export function snapshotAnalysis(result: AnalysisResult, price: number, inputs?: AnalysisExportInputs): AnalysisSnapshot {
+  const levels: SnapshotLevel[] = [];
+  if (result.keyLevels) {
+    levels.push({ key: 'support', label: 'Key support', price: result.keyLevels.support });
+    levels.push({ key: 'resistance', label: 'Key resistance', price: result.keyLevels.resistance });
+  }
+  const plan = result.tradePlan;
+  if (plan) {
+    levels.push({ key: 'entry-low', label: 'Entry low', price: plan.entry.low });
+    levels.push({ key: 'entry-high', label: 'Entry high', price: plan.entry.high });
+    levels.push({ key: 'stop', label: 'Stop', price: plan.stopLoss });
+    plan.takeProfits.forEach(tp => levels.push({ key: `tp-${tp.label}`, label: tp.label, price: tp.price }));
+  }
+
+  return {
+    version: 1,
+    timestamp: result.timestamp,
+    bias: result.bias,
+    confidence: result.confidence,
+    price,
+    levels,
+    insights: [...result.insights],
+    timeframes: result.timeframes ?? null,
+    regime: result.crossAsset?.regime?.regime ?? null,
+    inputs,
+    provenance: result.provenance,
+  };
+}
+
+// Records saved before snapshots existed still have the verdict and price
+export function legacySnapshot(record: { bias: string | null; confidence: number | null; price: number; created_at: string }): AnalysisSnapshot {
+  const bias = record.bias === 'LONG' || record.bias === 'SHORT' ? record.bias : 'NEUTRAL';
+  return {
+    version: 1,
+    timestamp: record.created_at,
+    bias,
+    confidence: record.confidence ?? 0,
+    price: record.price,
+    levels: [],
+    insights: [],
+    timeframes: null,
+    regime: null,
+    legacy: true,
+  };
+}
+
+// Insights carry live numbers ("+1.5%", "$142.10") — compare them with the numbers masked
+function insightKey(text: string): string {
+  return text.replace(/[-+]?\$?\d[\d,]*(\.\d+)?[%×x]?/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+function diffLevels(before: SnapshotLevel[], after: SnapshotLevel[]): LevelChange[] {
+  const changes: LevelChange[] = [];
+  const afterByKey = new Map(after.map(l => [l.key, l]));
+  for (const level of before) {
+    const next = afterByKey.get(level.key);
+    if (!next) {
+      changes.push({ key: level.key, label: level.label, before: level.price, after: null, changePercent: null });
+      continue;
+    }
+    const move = (next.price - level.price) / level.price;
+    if (Math.abs(move) >= LEVEL_MOVE_THRESHOLD) {
+      changes.push({ key: level.key, label: level.label, before: level.price, after: next.price, changePercent: move * 100 });
+    }
+  }
+  const beforeKeys = new Set(before.map(l => l.key));
+  after.filter(l => !beforeKeys.has(l.key)).forEach(l => {
+    changes.push({ key: l.key, label: l.label, before: null, after: l.price, changePercent: null });
+  });
+  return changes;
+}
+
+/**
+ * Compare an earlier analysis with a later one. Legacy snapshots only support
+ * the verdict/price part — `comparable` is false and the lists stay empty.
+ */
+export function diffAnalyses(before: AnalysisSnapshot, after: AnalysisSnapshot): AnalysisDiff {
+  const comparable = !before.legacy && !after.legacy;
+  const biasFlip = before.bias !== after.bias ? { from: before.bias, to: after.bias } : null;
+  const confidenceDelta = after.confidence - before.confidence;
+  const priceChangePercent = before.price > 0 ? (after.price / before.price - 1) * 100 : 0;
+
+  const levels = comparable ? diffLevels(before.levels, after.levels) : [];
+
+  const beforeInsights = new Set(before.insights.map(insightKey));
+  const afterInsights = new Set(after.insights.map(insightKey));
+  const insightsAdded = comparable ? after.insights.filter(i => !beforeInsights.has(insightKey(i))) : [];
+  const insightsRemoved = comparable ? before.insights.filter(i => !afterInsights.has(insightKey(i))) : [];
+
+  const timeframes = comparable && before.timeframes && after.timeframes
+    ? TIMEFRAME_ORDER
+      .filter(tf => before.timeframes.trends[tf] !== after.timeframes.trends[tf])
+      .map(tf => ({ timeframe: tf, before: before.timeframes.trends[tf], after: after.timeframes.trends[tf] }))
+    : [];
+  const confluenceDelta = comparable && before.timeframes && after.timeframes
+    ? after.timeframes.confluence - before.timeframes.confluence
+    : null;
+  const regime = comparable && before.regime !== after.regime ? { before: before.regime, after: after.regime } : null;
+
+  const parts: string[] = [
+    biasFlip ? `Bias flipped ${biasFlip.from} → ${biasFlip.to}` : `Bias unchanged (${after.bias})`,
+    `confidence ${confidenceDelta >= 0 ? '+' : ''}${confidenceDelta.toFixed(0)} pts`,
+    `price ${priceChangePercent >= 0 ? '+' : ''}${priceChangePercent.toFixed(2)}%`,
+  ];
+  if (levels.length > 0) parts.push(`${levels.length} level${levels.length === 1 ? '' : 's'} changed`);
+  if (timeframes.length > 0) parts.push(`${timeframes.map(t => TIMEFRAME_LABEL[t.timeframe]).join('/')} trend changed`);
+  if (regime) parts.push(`regime ${regime.before ?? 'n/a'} → ${regime.after ?? 'n/a'}`);
+
+  return {
+    elapsedMs: Date.parse(after.timestamp) - Date.parse(before.timestamp),
+    biasFlip,
+    confidenceDelta,
+    priceChangePercent,
+    comparable,
+    levels,
+    insightsAdded,
+    insightsRemoved,
+    timeframes,
+    confluenceDelta,
+    regime,
+    summary: parts.join(' • '),
+  };
+}
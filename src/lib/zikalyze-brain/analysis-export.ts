@@ -0,0 +1,325 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📤 ANALYSIS EXPORT — Versioned JSON, CSV and Markdown for spreadsheets and bots
+// ═══════════════════════════════════════════════════════════════════════════════
+// Every export is an AnalysisExportDocument: one record per analysis with the
+// verdict, snapshot levels, inputs and data provenance. The full AnalysisResult
+// is only included for an analysis still in memory — saved history keeps the
+// snapshot, which is enough for every CSV column.
+//
+// The schema is versioned by ANALYSIS_EXPORT_VERSION. New fields and CSV
+// columns are appended; renaming or changing the meaning of one bumps it.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { legacySnapshot, snapshotAnalysis } from './analysis-diff';
+import { OUTCOME_HORIZONS } from './outcome-grading';
+import { formatAge } from './provenance';
+import {
+  AlignmentTimeframe,
+  AnalysisExportDocument,
+  AnalysisExportFormat,
+  AnalysisExportInputs,
+  AnalysisExportRecord,
+  AnalysisInput,
+  AnalysisOutcomes,
+  AnalysisResult,
+  AnalysisSnapshot,
+  DataProvenance,
+  ProvenanceMetric,
+} from './types';
+
+export const ANALYSIS_EXPORT_SCHEMA = 'zikalyze.analysis-export';
+export const ANALYSIS_EXPORT_VERSION = 1;
+
+export const ANALYSIS_EXPORT_FILE: Record<AnalysisExportFormat, { extension: string; mime: string }> = {
+  json: { extension: 'json', mime: 'application/json' },
+  csv: { extension: 'csv', mime: 'text/csv' },
+  markdown: { extension: 'md', mime: 'text/markdown' },
+};
+
+const TIMEFRAME_ORDER: AlignmentTimeframe[] = ['weekly', 'daily', 'h4', 'h1', 'm15'];
+const TIMEFRAME_LABEL: Record<AlignmentTimeframe, string> = { weekly: 'W', daily: 'D', h4: '4H', h1: '1H', m15: '15M' };
+
+// Shape of a saved history record — useAnalysisHistory's AnalysisRecord
+export interface ExportableAnalysisRecord {
+  id: string;
+  symbol: string;
+  price: number;
+  change_24h: number;
+  analysis_text: string;
+  confidence: number | null;
+  raw_confidence?: number | null;
+  bias: string | null;
+  created_at: string;
+  was_correct: boolean | null;
+  feedback_source?: 'user' | 'auto';
+  outcomes?: AnalysisOutcomes;
+  snapshot?: AnalysisSnapshot | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧾 RECORDS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function summarizeInputs(input: AnalysisInput): AnalysisExportInputs {
+  return {
+    crypto: input.crypto.toUpperCase(),
+    price: input.price,
+    change: input.change,
+    high24h: input.high24h ?? null,
+    low24h: input.low24h ?? null,
+    volume: input.volume ?? null,
+    marketCap: input.marketCap ?? null,
+    language: input.language ?? null,
+    isLiveData: !!input.isLiveData,
+    dataSource: input.dataSource ?? null,
+    priceTimestamp: input.priceTimestamp ? new Date(input.priceTimestamp).toISOString() : null,
+    fearGreed: input.sentimentData?.fearGreed?.value ?? null,
+    onChainData: input.onChainData ?? null,
+    riskSettings: input.riskSettings ?? null,
+    excludeDerivedInputs: !!input.excludeDerivedInputs,
+    chartCandles: input.chartTrendData?.candles?.length ?? 0,
+    hourlyCandles: input.hourlyCandles?.length ?? 0,
+    multiTimeframe: !!input.multiTimeframeData,
+    calibration: input.calibration
+      ? { method: input.calibration.method, scope: input.calibration.scope, sampleCount: input.calibration.sampleCount }
+      : null,
+    orderBook: input.orderBook ?? null,
+    derivatives: input.derivatives ?? null,
+  };
+}
+
+// The analysis on screen — full result plus the inputs it was computed from
+export function exportAnalysisResult(result: AnalysisResult, input: AnalysisInput, id: string | null = null): AnalysisExportRecord {
+  const inputs = summarizeInputs(input);
+  const { analysis, ...structured } = result;
+  return {
+    id,
+    symbol: inputs.crypto,
+    timestamp: result.timestamp,
+    price: input.price,
+    change24h: input.change,
+    bias: result.bias,
+    confidence: result.confidence,
+    rawConfidence: result.calibration?.rawConfidence ?? null,
+    locale: result.locale ?? null,
+    snapshot: snapshotAnalysis(result, input.price, inputs),
+    inputs,
+    provenance: result.provenance ?? null,
+    result: structured,
+    report: analysis,
+    outcomes: null,
+    feedback: { wasCorrect: null, source: null },
+  };
+}
+
+// A saved analysis — records from before snapshots export verdict and price only
+export function exportHistoryRecord(record: ExportableAnalysisRecord): AnalysisExportRecord {
+  const snapshot = record.snapshot ?? legacySnapshot(record);
+  return {
+    id: record.id,
+    symbol: record.symbol.toUpperCase(),
+    timestamp: record.created_at,
+    price: record.price,
+    change24h: record.change_24h,
+    bias: snapshot.bias,
+    confidence: record.confidence ?? snapshot.confidence,
+    rawConfidence: record.raw_confidence ?? null,
+    locale: null,
+    snapshot,
+    inputs: snapshot.inputs ?? null,
+    provenance: snapshot.provenance ?? null,
+    result: null,
+    report: record.analysis_text,
+    outcomes: record.outcomes ?? null,
+    feedback: {
+      wasCorrect: record.was_correct,
+      source: record.was_correct === null ? null : record.feedback_source ?? 'user',
+    },
+  };
+}
+
+export function buildAnalysisExport(
+  records: AnalysisExportRecord[],
+  brainVersion: string,
+  exportedAt: string = new Date().toISOString()
+): AnalysisExportDocument {
+  return {
+    schema: ANALYSIS_EXPORT_SCHEMA,
+    schemaVersion: ANALYSIS_EXPORT_VERSION,
+    brainVersion,
+    exportedAt,
+    records: [...records].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp)),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 CSV — one row per analysis, RFC 4180 quoting
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const levelPrice = (record: AnalysisExportRecord, key: string): number | null =>
+  record.snapshot.levels.find(l => l.key === key)?.price ?? null;
+
+const provenanceCount = (record: AnalysisExportRecord, kind: DataProvenance['kind']): number | null =>
+  record.provenance ? Object.values(record.provenance).filter(p => p?.kind === kind).length : null;
+
+const CSV_COLUMNS: [string, (record: AnalysisExportRecord) => string | number | boolean | null][] = [
+  ['schema_version', () => ANALYSIS_EXPORT_VERSION],
+  ['id', r => r.id],
+  ['symbol', r => r.symbol],
+  ['timestamp', r => r.timestamp],
+  ['price', r => r.price],
+  ['change_24h', r => r.change24h],
+  ['bias', r => r.bias],
+  ['confidence', r => r.confidence],
+  ['raw_confidence', r => r.rawConfidence],
+  ['locale', r => r.locale],
+  ['timing', r => r.result?.precisionEntry?.timing ?? null],
+  ['support', r => levelPrice(r, 'support')],
+  ['resistance', r => levelPrice(r, 'resistance')],
+  ['entry_low', r => levelPrice(r, 'entry-low')],
+  ['entry_high', r => levelPrice(r, 'entry-high')],
+  ['stop', r => levelPrice(r, 'stop')],
+  ['tp1', r => levelPrice(r, 'tp-TP1')],
+  ['tp2', r => levelPrice(r, 'tp-TP2')],
+  ['tp3', r => levelPrice(r, 'tp-TP3')],
+  ['confluence', r => r.snapshot.timeframes?.confluence ?? null],
+  ...TIMEFRAME_ORDER.map((tf): [string, (r: AnalysisExportRecord) => string | null] =>
+    [`trend_${tf}`, r => r.snapshot.timeframes?.trends[tf] ?? null]),
+  ['regime', r => r.snapshot.regime],
+  ['live_inputs', r => provenanceCount(r, 'LIVE')],
+  ['cached_inputs', r => provenanceCount(r, 'CACHED')],
+  ['derived_inputs', r => provenanceCount(r, 'DERIVED')],
+  ['data_source', r => r.inputs?.dataSource ?? null],
+  ['insights', r => r.snapshot.insights.join(' | ')],
+  ...OUTCOME_HORIZONS.flatMap((h): [string, (r: AnalysisExportRecord) => string | number | null][] => [
+    [`outcome_${h}`, r => r.outcomes?.[h]?.status ?? null],
+    [`return_${h}`, r => r.outcomes?.[h]?.returnPercent ?? null],
+  ]),
+  ['was_correct', r => r.feedback.wasCorrect],
+  ['feedback_source', r => r.feedback.source],
+];
+
+export const ANALYSIS_CSV_COLUMNS: string[] = CSV_COLUMNS.map(([name]) => name);
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+  // Spreadsheets run cells starting with = + - @ (or a tab/CR before one) as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function serializeAnalysisCSV(doc: AnalysisExportDocument): string {
+  const rows = [
+    ANALYSIS_CSV_COLUMNS.join(','),
+    ...doc.records.map(record => CSV_COLUMNS.map(([, read]) => csvCell(read(record))).join(',')),
+  ];
+  return rows.join('\r\n') + '\r\n';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 MARKDOWN — readable report per analysis
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const mdCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const formatPrice = (price: number): string =>
+  `$${price >= 1 ? price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : price.toPrecision(4)}`;
+
+const formatSigned = (value: number, digits = 2): string => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+function describeSource(provenance: DataProvenance): string {
+  if (provenance.kind === 'DERIVED') return provenance.basis ?? '';
+  if (provenance.ageMs !== undefined) return `${formatAge(provenance.ageMs)} old`;
+  return provenance.asOf ?? '';
+}
+
+function recordMarkdown(record: AnalysisExportRecord): string {
+  const { snapshot } = record;
+  const lines: string[] = [
+    `## ${record.symbol} — ${record.timestamp}`,
+    '',
+    '| Bias | Confidence | Price | 24h |',
+    '| --- | --- | --- | --- |',
+    `| ${record.bias} | ${record.confidence}%${record.rawConfidence !== null && record.rawConfidence !== record.confidence ? ` (raw ${record.rawConfidence}%)` : ''} | ${formatPrice(record.price)} | ${record.change24h !== null ? formatSigned(record.change24h) : '—'} |`,
+  ];
+
+  if (snapshot.levels.length > 0) {
+    lines.push('', '### Levels', '', '| Level | Price |', '| --- | --- |');
+    snapshot.levels.forEach(level => lines.push(`| ${mdCell(level.label)} | ${formatPrice(level.price)} |`));
+  }
+
+  if (snapshot.timeframes) {
+    const trends = TIMEFRAME_ORDER.map(tf => `${TIMEFRAME_LABEL[tf]} ${snapshot.timeframes.trends[tf]}`).join(' • ');
+    lines.push('', `**Timeframes:** ${trends} — confluence ${snapshot.timeframes.confluence}%`);
+  }
+  if (snapshot.regime) lines.push('', `**Regime:** ${snapshot.regime}`);
+
+  if (snapshot.insights.length > 0) {
+    lines.push('', '### Insights', '');
+    snapshot.insights.forEach(insight => lines.push(`- ${mdCell(insight)}`));
+  }
+
+  const provenance = record.provenance
+    ? (Object.entries(record.provenance) as [ProvenanceMetric, DataProvenance][]).filter(([, p]) => p)
+    : [];
+  if (provenance.length > 0) {
+    lines.push('', '### Data provenance', '', '| Input | Kind | Source | Detail |', '| --- | --- | --- | --- |');
+    provenance.forEach(([metric, p]) => lines.push(`| ${metric} | ${p.kind} | ${mdCell(p.source)} | ${mdCell(describeSource(p))} |`));
+  }
+
+  if (record.inputs) {
+    const { inputs } = record;
+    const parts = [
+      `price ${formatPrice(inputs.price)}`,
+      inputs.high24h !== null && inputs.low24h !== null ? `24h range ${formatPrice(inputs.low24h)} – ${formatPrice(inputs.high24h)}` : null,
+      inputs.dataSource ? `source ${inputs.dataSource}` : null,
+      `${inputs.chartCandles} chart candles`,
+      `${inputs.hourlyCandles} archived 1h candles`,
+      inputs.multiTimeframe ? 'multi-timeframe data' : null,
+      inputs.orderBook ? `${inputs.orderBook.source} order book` : null,
+      inputs.derivatives ? `${inputs.derivatives.source} funding, OI and liquidations` : null,
+      inputs.excludeDerivedInputs ? 'derived inputs excluded' : null,
+    ].filter(Boolean);
+    lines.push('', `**Inputs:** ${parts.join(' • ')}`);
+  }
+
+  const outcomes = OUTCOME_HORIZONS.map(h => record.outcomes?.[h]).filter(Boolean);
+  if (outcomes.length > 0) {
+    lines.push('', '### Outcomes', '', '| Horizon | Status | Return | Correct |', '| --- | --- | --- | --- |');
+    outcomes.forEach(o => lines.push(`| ${o.horizon} | ${o.status} | ${formatSigned(o.returnPercent)} | ${o.correct ? 'yes' : 'no'} |`));
+  }
+  if (record.feedback.wasCorrect !== null) {
+    lines.push('', `**Graded:** ${record.feedback.wasCorrect ? 'correct' : 'incorrect'} (${record.feedback.source})`);
+  }
+
+  if (record.report) {
+    lines.push('', '<details><summary>Report</summary>', '', '```text', record.report.trim(), '```', '', '</details>');
+  }
+  return lines.join('\n');
+}
+
+export function serializeAnalysisMarkdown(doc: AnalysisExportDocument): string {
+  const header = [
+    '# Zikalyze analysis export',
+    '',
+    `Schema \`${doc.schema}\` v${doc.schemaVersion} • Brain v${doc.brainVersion} • Exported ${doc.exportedAt} • ${doc.records.length} ${doc.records.length === 1 ? 'analysis' : 'analyses'}`,
+  ].join('\n');
+  return [header, ...doc.records.map(recordMarkdown)].join('\n\n') + '\n';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📦 JSON
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function serializeAnalysisJSON(doc: AnalysisExportDocument): string {
+  return JSON.stringify(doc, null, 2);
+}
+
+export function serializeAnalysisExport(doc: AnalysisExportDocument, format: AnalysisExportFormat): string {
+  switch (format) {
+    case 'json': return serializeAnalysisJSON(doc);
+    case 'csv': return serializeAnalysisCSV(doc);
+    case 'markdown': return serializeAnalysisMarkdown(doc);
+  }
+}
@@ -0,0 +1,604 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧪 ZIKALYZE BACKTEST ENGINE — Bar-by-bar replay of the AI brain
+// ═══════════════════════════════════════════════════════════════════════════════
+// Replays historical OHLC candles through runClientSideAnalysis one bar at a time,
+// simulates entries/exits from the structured TradePlan (entry range, stop, TP1),
+// and reports win rate, expectancy, max drawdown and Sharpe per symbol/timeframe.
+// Pure TypeScript — no DOM, no IndexedDB — runs in the browser and under Node.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { runClientSideAnalysis, BRAIN_VERSION } from './index';
+import { createAnalysisContext, createManualClock, silentLogger, consoleLogger, CatalystCalendar } from './context';
+import { AnalysisResult, ChartTrendInput } from './types';
+import { createIndicatorTracker, IndicatorSnapshot } from './indicators';
+
+export interface BacktestCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BacktestConfig {
+  symbol: string;
+  interval: string;             // '1m' | '5m' | '15m' | '1h' | '4h' | '1d' or any label
+  intervalMs?: number;          // Inferred from the interval label or candle spacing
+  warmupBars?: number;          // Bars skipped before the first signal (default 24)
+  chartBars?: number;           // Candles fed into chartTrendData per bar (default 48)
+  orderExpiryBars?: number;     // Pending pullback/breakout orders expire after N bars (default 12)
+  maxHoldBars?: number;         // Open trades are closed at market after N bars (default 48)
+  feePercent?: number;          // Fee per side in percent (default 0.1)
+  fallbackRewardRisk?: number;  // Target = entry ± risk × this when the brain gives none (default 2)
+  quiet?: boolean;              // Silence brain logs during the replay (default true)
+  catalysts?: CatalystCalendar; // Calendar evaluated at each bar's time (default: built-in schedule)
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export type BacktestExitReason = 'TARGET' | 'STOP' | 'REVERSAL' | 'TIMEOUT' | 'END';
+
+export interface BacktestTrade {
+  direction: 'LONG' | 'SHORT';
+  timing: AnalysisResult['precisionEntry']['timing'];
+  confidence: number;
+  signalTime: number;
+  entryTime: number;
+  entryPrice: number;
+  stopPrice: number;
+  targetPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  exitReason: BacktestExitReason;
+  barsHeld: number;
+  returnPercent: number;   // Net of fees
+  rMultiple: number;       // Net of fees, in units of initial risk
+}
+
+export interface BacktestMetrics {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;             // %
+  expectancyR: number;         // Average R per trade
+  expectancyPercent: number;   // Average net return per trade (%)
+  profitFactor: number;
+  totalReturnPercent: number;  // Compounded
+  maxDrawdownPercent: number;
+  sharpe: number;              // Annualized from per-bar equity returns
+  avgBarsHeld: number;
+  exposurePercent: number;     // % of bars with an open position
+}
+
+export interface BacktestReport {
+  symbol: string;
+  interval: string;
+  brainVersion: string;
+  bars: number;
+  from: number;
+  to: number;
+  signals: { LONG: number; SHORT: number; NEUTRAL: number; AVOID: number };
+  trades: BacktestTrade[];
+  metrics: BacktestMetrics;
+  equityCurve: Array<{ timestamp: number; equity: number }>;
+  durationMs: number;
+}
+
+const INTERVAL_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS; // Crypto trades 24/7
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📄 CSV IMPORT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Accepts epoch seconds, epoch milliseconds or any Date.parse-able string
+const parseTimestamp = (raw: string): number => {
+  const trimmed = raw.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = Number(trimmed);
+    return n < 1e11 ? n * 1000 : n;
+  }
+  return Date.parse(trimmed);
+};
+
+// One row's cells: quoted cells may hold the delimiter and "" for a quote
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse OHLC candles from CSV text. The header row must name the columns;
+ * time/timestamp/date/open_time, open, high, low, close are required and
+ * volume is optional. Comma, semicolon and tab delimiters are accepted, and
+ * cells may be quoted. Throws when no row holds a readable candle.
+ */
+export function parseOHLCCsv(text: string): BacktestCandle[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+  if (lines.length < 2) {
+    throw new Error('CSV must contain a header row and at least one candle');
+  }
+
+  const delimiter = lines[0].includes(';') ? ';' : lines[0].includes('\t') ? '\t' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(h => h.toLowerCase());
+  const findColumn = (...names: string[]) => header.findIndex(h => names.includes(h));
+
+  const col = {
+    time: findColumn('time', 'timestamp', 'date', 'datetime', 'open_time', 'opentime'),
+    open: findColumn('open', 'o'),
+    high: findColumn('high', 'h'),
+    low: findColumn('low', 'l'),
+    close: findColumn('close', 'c'),
+    volume: findColumn('volume', 'vol', 'v'),
+  };
+
+  const missing = (['time', 'open', 'high', 'low', 'close'] as const).filter(k => col[k] === -1);
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing required column(s): ${missing.join(', ')}`);
+  }
+
+  const byTime = new Map<number, BacktestCandle>();
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line, delimiter);
+    const candle: BacktestCandle = {
+      timestamp: parseTimestamp(cells[col.time] ?? ''),
+      open: Number(cells[col.open]),
+      high: Number(cells[col.high]),
+      low: Number(cells[col.low]),
+      close: Number(cells[col.close]),
+      volume: col.volume >= 0 ? Number(cells[col.volume]) || 0 : 0,
+    };
+    const valid = Number.isFinite(candle.timestamp) &&
+      [candle.open, candle.high, candle.low, candle.close].every(v => Number.isFinite(v) && v > 0);
+    if (valid) byTime.set(candle.timestamp, candle);
+  }
+
+  if (byTime.size === 0) {
+    throw new Error(`CSV has no readable candles in ${lines.length - 1} row(s) — check the number and time formats`);
+  }
+
+  return [...byTime.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Infer the candle interval from timestamp spacing (median delta)
+export function inferIntervalMs(candles: BacktestCandle[]): number {
+  const deltas: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    deltas.push(candles[i].timestamp - candles[i - 1].timestamp);
+  }
+  if (deltas.length === 0) return INTERVAL_MS['1h'];
+  deltas.sort((a, b) => a - b);
+  return deltas[Math.floor(deltas.length / 2)];
+}
+
+// Map an interval length back to the app's label where possible
+export function intervalLabel(intervalMs: number): string {
+  const match = Object.entries(INTERVAL_MS).find(([, ms]) => ms === intervalMs);
+  if (match) return match[0];
+  return intervalMs >= DAY_MS ? `${Math.round(intervalMs / DAY_MS)}d` : `${Math.round(intervalMs / 60000)}m`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📈 REPLAY INPUTS — Same derivations as the live chart hooks
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const calculateEMA = (closes: number[], period: number): number => {
+  if (closes.length < period) return closes[closes.length - 1] || 0;
+  const k = 2 / (period + 1);
+  let ema = closes.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (let i = period; i < closes.length; i++) {
+    ema = closes[i] * k + ema * (1 - k);
+  }
+  return ema;
+};
+
+const calculateRSI = (closes: number[], period: number = 14): number => {
+  if (closes.length < period + 1) return 50;
+  let gains = 0;
+  let losses = 0;
+  for (let i = closes.length - period; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) gains += change;
+    else losses += Math.abs(change);
+  }
+  if (losses === 0) return 100;
+  const rs = (gains / period) / (losses / period);
+  return 100 - (100 / (1 + rs));
+};
+
+const detectSwings = (candles: BacktestCandle[]) => {
+  const swingHighs: number[] = [];
+  const swingLows: number[] = [];
+  for (let i = 2; i < candles.length - 2; i++) {
+    const h = candles[i].high;
+    const l = candles[i].low;
+    if (h > candles[i - 1].high && h > candles[i - 2].high && h > candles[i + 1].high && h > candles[i + 2].high) {
+      swingHighs.push(h);
+    }
+    if (l < candles[i - 1].low && l < candles[i - 2].low && l < candles[i + 1].low && l < candles[i + 2].low) {
+      swingLows.push(l);
+    }
+  }
+  const [ph, lh] = swingHighs.slice(-2);
+  const [pl, ll] = swingLows.slice(-2);
+  return {
+    higherHighs: swingHighs.length >= 2 && lh > ph,
+    lowerHighs: swingHighs.length >= 2 && lh < ph,
+    higherLows: swingLows.length >= 2 && ll > pl,
+    lowerLows: swingLows.length >= 2 && ll < pl,
+  };
+};
+
+export function buildChartTrendInput(candles: BacktestCandle[], indicators: IndicatorSnapshot): ChartTrendInput {
+  const closes = candles.map(c => c.close);
+  const half = Math.floor(closes.length / 2);
+  const firstAvg = closes.slice(0, half).reduce((a, b) => a + b, 0) / Math.max(1, half);
+  const secondAvg = closes.slice(half).reduce((a, b) => a + b, 0) / Math.max(1, closes.length - half);
+  const drift = firstAvg > 0 ? (secondAvg - firstAvg) / firstAvg : 0;
+
+  const first = closes[0];
+  const last = closes[closes.length - 1];
+  const direction = last > first ? 1 : -1;
+  let consistency = 0;
+  for (let i = 1; i < closes.length; i++) {
+    if ((closes[i] > closes[i - 1] ? 1 : -1) === direction) consistency++;
+  }
+  const trendStrength = Math.min(100, Math.round(Math.abs((last - first) / first) * 200 + (consistency / Math.max(1, closes.length - 1)) * 50));
+
+  const recentVol = candles.slice(-3).reduce((s, c) => s + c.volume, 0) / 3;
+  const olderVol = candles.slice(0, 3).reduce((s, c) => s + c.volume, 0) / 3;
+  const recent = closes.slice(-5);
+  let velocity = 0;
+  for (let i = 1; i < recent.length; i++) {
+    velocity += ((recent[i] - recent[i - 1]) / recent[i - 1]) * 100;
+  }
+
+  return {
+    candles: candles.map(c => ({ ...c })),
+    trend24h: drift > 0.01 ? 'BULLISH' : drift < -0.01 ? 'BEARISH' : 'NEUTRAL',
+    trendStrength,
+    ...detectSwings(candles),
+    ema9: calculateEMA(closes, 9),
+    ema21: calculateEMA(closes, 21),
+    rsi: calculateRSI(closes, 14),
+    volumeTrend: candles.length < 6 ? 'STABLE' : recentVol > olderVol * 1.2 ? 'INCREASING' : recentVol < olderVol * 0.8 ? 'DECREASING' : 'STABLE',
+    priceVelocity: recent.length > 1 ? velocity / (recent.length - 1) : 0,
+    isLive: true, // Replayed candles are real market data
+    source: 'Backtest replay',
+    indicators,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 ORDER PLANNING — Levels from the structured TradePlan
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface PlannedOrder {
+  direction: 'LONG' | 'SHORT';
+  timing: BacktestTrade['timing'];
+  confidence: number;
+  signalTime: number;
+  signalBar: number;
+  limitPrice: number | null; // null = market entry on next open
+  stopPrice: number;
+  targetPrice: number | null;
+}
+
+function planFromResult(result: AnalysisResult, barIndex: number, timestamp: number): PlannedOrder | null {
+  const { tradePlan } = result;
+  if (!tradePlan || tradePlan.timing === 'AVOID') return null;
+
+  return {
+    direction: tradePlan.direction,
+    timing: tradePlan.timing,
+    confidence: result.confidence,
+    signalTime: timestamp,
+    signalBar: barIndex,
+    // Pullback longs fill at the top of the zone, relief-rally shorts at the bottom
+    limitPrice: tradePlan.timing === 'NOW' ? null : tradePlan.direction === 'LONG' ? tradePlan.entry.high : tradePlan.entry.low,
+    stopPrice: tradePlan.stopLoss,
+    targetPrice: tradePlan.takeProfits[0]?.price ?? null,
+  };
+}
+
+interface OpenPosition extends PlannedOrder {
+  entryBar: number;
+  entryTime: number;
+  entryPrice: number;
+  target: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 METRICS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function computeBacktestMetrics(
+  trades: BacktestTrade[],
+  equityCurve: Array<{ timestamp: number; equity: number }>,
+  intervalMs: number,
+  barsInMarket: number
+): BacktestMetrics {
+  const wins = trades.filter(t => t.returnPercent > 0);
+  const losses = trades.filter(t => t.returnPercent <= 0);
+  const grossWin = wins.reduce((s, t) => s + t.returnPercent, 0);
+  const grossLoss = Math.abs(losses.reduce((s, t) => s + t.returnPercent, 0));
+
+  let peak = equityCurve[0]?.equity ?? 1;
+  let maxDrawdown = 0;
+  const returns: number[] = [];
+  for (let i = 0; i < equityCurve.length; i++) {
+    const { equity } = equityCurve[i];
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 0);
+    if (i > 0 && equityCurve[i - 1].equity > 0) {
+      returns.push(equity / equityCurve[i - 1].equity - 1);
+    }
+  }
+
+  const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+  const variance = returns.length > 1
+    ? returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1)
+    : 0;
+  const std = Math.sqrt(variance);
+  const barsPerYear = intervalMs > 0 ? YEAR_MS / intervalMs : 0;
+  const sharpe = std > 0 ? (mean / std) * Math.sqrt(barsPerYear) : 0;
+
+  const startEquity = equityCurve[0]?.equity ?? 1;
+  const endEquity = equityCurve[equityCurve.length - 1]?.equity ?? startEquity;
+  const round = (v: number, d = 2) => Math.round(v * 10 ** d) / 10 ** d;
+
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length > 0 ? round((wins.length / trades.length) * 100, 1) : 0,
+    expectancyR: trades.length > 0 ? round(trades.reduce((s, t) => s + t.rMultiple, 0) / trades.length, 3) : 0,
+    expectancyPercent: trades.length > 0 ? round(trades.reduce((s, t) => s + t.returnPercent, 0) / trades.length, 3) : 0,
+    profitFactor: grossLoss > 0 ? round(grossWin / grossLoss) : grossWin > 0 ? Infinity : 0,
+    totalReturnPercent: round((endEquity / startEquity - 1) * 100),
+    maxDrawdownPercent: round(maxDrawdown * 100),
+    sharpe: round(sharpe),
+    avgBarsHeld: trades.length > 0 ? round(trades.reduce((s, t) => s + t.barsHeld, 0) / trades.length, 1) : 0,
+    exposurePercent: equityCurve.length > 0 ? round((barsInMarket / equityCurve.length) * 100, 1) : 0,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔁 MAIN REPLAY LOOP
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Replay candles through the brain bar by bar. Each bar's close is treated as
+ * the live price with the trailing 24h window as high/low/change/volume, and
+ * the last `chartBars` candles as chart data. Signals are acted on from the
+ * next bar onward, so no future data leaks into a decision.
+ *
+ * Each run gets its own AnalysisContext: the clock is stepped to every bar's
+ * close time (so macro catalysts are evaluated as of that bar) and the neural
+ * ensemble learns in a private store — results are reproducible and the live
+ * session is never trained on replays.
+ */
+export async function runBacktest(candles: BacktestCandle[], config: BacktestConfig): Promise<BacktestReport> {
+  const startedAt = Date.now();
+  const symbol = config.symbol.toUpperCase();
+  const intervalMs = config.intervalMs ?? INTERVAL_MS[config.interval] ?? inferIntervalMs(candles);
+  const warmupBars = config.warmupBars ?? 24;
+  const chartBars = config.chartBars ?? 48;
+  const orderExpiryBars = config.orderExpiryBars ?? 12;
+  const maxHoldBars = config.maxHoldBars ?? 48;
+  const fee = (config.feePercent ?? 0.1) / 100;
+  const fallbackRR = config.fallbackRewardRisk ?? 2;
+  const quiet = config.quiet ?? true;
+  const barsPer24h = Math.max(1, Math.round(DAY_MS / intervalMs));
+
+  const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+  const trades: BacktestTrade[] = [];
+  const equityCurve: Array<{ timestamp: number; equity: number }> = [];
+  const signals = { LONG: 0, SHORT: 0, NEUTRAL: 0, AVOID: 0 };
+
+  let equity = 1;
+  let barsInMarket = 0;
+  let pending: PlannedOrder | null = null;
+  let position: OpenPosition | null = null;
+
+  // Indicators stream over the full replayed history, one candle per bar
+  const indicatorTracker = createIndicatorTracker(1);
+  const replayed: BacktestCandle[] = [];
+
+  const closePosition = (bar: number, exitPrice: number, reason: BacktestExitReason) => {
+    const dir = position.direction === 'LONG' ? 1 : -1;
+    const gross = dir * (exitPrice - position.entryPrice) / position.entryPrice;
+    const net = gross - fee * 2;
+    const riskFraction = Math.abs(position.entryPrice - position.stopPrice) / position.entryPrice;
+    trades.push({
+      direction: position.direction,
+      timing: position.timing,
+      confidence: position.confidence,
+      signalTime: position.signalTime,
+      entryTime: position.entryTime,
+      entryPrice: position.entryPrice,
+      stopPrice: position.stopPrice,
+      targetPrice: position.target,
+      exitTime: sorted[bar].timestamp,
+      exitPrice,
+      exitReason: reason,
+      barsHeld: bar - position.entryBar + 1,
+      returnPercent: net * 100,
+      rMultiple: riskFraction > 0 ? net / riskFraction : 0,
+    });
+    equity *= 1 + net;
+    position = null;
+  };
+
+  const openPosition = (order: PlannedOrder, bar: number, fillPrice: number) => {
+    const risk = Math.abs(fillPrice - order.stopPrice);
+    const dir = order.direction === 'LONG' ? 1 : -1;
+    // Stop on the wrong side of the fill means the setup is already invalid
+    if (risk === 0 || dir * (fillPrice - order.stopPrice) <= 0) return;
+    const targetValid = order.targetPrice !== null && dir * (order.targetPrice - fillPrice) > 0;
+    position = {
+      ...order,
+      entryBar: bar,
+      entryTime: sorted[bar].timestamp,
+      entryPrice: fillPrice,
+      target: targetValid ? order.targetPrice : fillPrice + dir * risk * fallbackRR,
+    };
+  };
+
+  // Resolve stop/target on a bar — stop wins when both are touched (conservative)
+  const manageBar = (bar: number) => {
+    const c = sorted[bar];
+    const isLong = position.direction === 'LONG';
+    const stopHit = isLong ? c.low <= position.stopPrice : c.high >= position.stopPrice;
+    const targetHit = isLong ? c.high >= position.target : c.low <= position.target;
+    if (stopHit) {
+      // Gaps through the stop fill at the open
+      const fill = isLong ? Math.min(c.open, position.stopPrice) : Math.max(c.open, position.stopPrice);
+      closePosition(bar, fill, 'STOP');
+    } else if (targetHit) {
+      closePosition(bar, position.target, 'TARGET');
+    } else if (bar - position.entryBar + 1 >= maxHoldBars) {
+      closePosition(bar, c.close, 'TIMEOUT');
+    }
+  };
+
+  const clock = createManualClock(sorted[0]?.timestamp ?? 0);
+  const ctx = createAnalysisContext({
+    clock,
+    catalysts: config.catalysts,
+    logger: quiet ? silentLogger : consoleLogger,
+  });
+
+  for (let i = 0; i < sorted.length; i++) {
+    if (config.signal?.aborted) {
+      throw new DOMException('Backtest aborted', 'AbortError');
+    }
+    const c = sorted[i];
+    replayed.push(c);
+    const indicators = indicatorTracker.sync(replayed);
+
+    // 1) Fill pending orders placed on earlier bars
+    if (!position && pending) {
+      if (pending.limitPrice === null) {
+        openPosition(pending, i, c.open);
+        pending = null;
+      } else if (i - pending.signalBar > orderExpiryBars) {
+        pending = null;
+      } else {
+        const touched = pending.direction === 'LONG' ? c.low <= pending.limitPrice : c.high >= pending.limitPrice;
+        if (touched) {
+          const fill = pending.direction === 'LONG' ? Math.min(c.open, pending.limitPrice) : Math.max(c.open, pending.limitPrice);
+          openPosition(pending, i, fill);
+          pending = null;
+        }
+      }
+    }
+
+    // 2) Manage the open position on this bar
+    if (position) {
+      barsInMarket++;
+      manageBar(i);
+    }
+
+    // 3) Mark to market
+    const mark = position
+      ? equity * (1 + (position.direction === 'LONG' ? 1 : -1) * (c.close - position.entryPrice) / position.entryPrice)
+      : equity;
+    equityCurve.push({ timestamp: c.timestamp, equity: mark });
+
+    // 4) Ask the brain for a decision at this bar's close
+    if (i >= warmupBars && i < sorted.length - 1) {
+      const window = sorted.slice(Math.max(0, i - barsPer24h + 1), i + 1);
+      const reference = window[0].open;
+      const input = {
+        crypto: symbol,
+        price: c.close,
+        change: reference > 0 ? ((c.close - reference) / reference) * 100 : 0,
+        high24h: Math.max(...window.map(w => w.high)),
+        low24h: Math.min(...window.map(w => w.low)),
+        volume: window.reduce((s, w) => s + w.volume, 0),
+        language: 'en',
+        isLiveData: false,
+        dataSource: 'backtest',
+        chartTrendData: buildChartTrendInput(sorted.slice(Math.max(0, i - chartBars + 1), i + 1), indicators),
+      };
+
+      clock.set(c.timestamp + intervalMs);
+      const result = runClientSideAnalysis(input, ctx);
+
+      if (result.precisionEntry.timing === 'AVOID') signals.AVOID++;
+      else signals[result.bias]++;
+
+      if (position) {
+        // Opposite high-conviction signal closes the trade at this close
+        if (result.bias !== 'NEUTRAL' && result.bias !== position.direction && result.precisionEntry.timing === 'NOW') {
+          closePosition(i, c.close, 'REVERSAL');
+        }
+      } else {
+        const plan = planFromResult(result, i, c.timestamp);
+        if (plan) pending = plan;
+        else if (pending && result.bias !== pending.direction) pending = null;
+      }
+    }
+
+    if (i % 50 === 0) {
+      config.onProgress?.(i, sorted.length);
+      // Yield so the browser stays responsive during long replays
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  if (position) {
+    closePosition(sorted.length - 1, sorted[sorted.length - 1].close, 'END');
+    equityCurve[equityCurve.length - 1].equity = equity;
+  }
+
+  config.onProgress?.(sorted.length, sorted.length);
+
+  return {
+    symbol,
+    interval: config.interval || intervalLabel(intervalMs),
+    brainVersion: BRAIN_VERSION,
+    bars: sorted.length,
+    from: sorted[0]?.timestamp ?? 0,
+    to: sorted[sorted.length - 1]?.timestamp ?? 0,
+    signals,
+    trades,
+    metrics: computeBacktestMetrics(trades, equityCurve, intervalMs, barsInMarket),
+    equityCurve,
+    durationMs: Date.now() - startedAt,
+  };
+}
@@ -0,0 +1,252 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 CONFIDENCE CALIBRATION — Make "70%" mean a 70% hit rate
+// ═══════════════════════════════════════════════════════════════════════════════
+// Raw confidence is hand-tuned. Graded calls (was_correct feedback) tell us how
+// often each confidence level was actually right; this module fits that mapping.
+// Platt scaling (a two-parameter sigmoid) while samples are few, isotonic
+// regression once there are enough to trust a free-form monotone curve.
+// Per-symbol when the symbol has enough graded calls, otherwise global.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { CalibrationModel, CalibrationPoint, CalibrationSample, ReliabilityBin } from './types';
+
+// Fewer graded calls than this and the raw confidence is left alone
+export const MIN_CALIBRATION_SAMPLES = 20;
+// From here on the isotonic fit is preferred over Platt
+export const ISOTONIC_MIN_SAMPLES = 60;
+
+const clampProbability = (p: number) => Math.max(0.01, Math.min(0.99, p));
+
+// Platt's smoothed targets keep a perfect record from mapping to 0% or 100%
+function smoothedTargets(samples: CalibrationSample[]): number[] {
+  const positives = samples.filter(s => s.correct).length;
+  const negatives = samples.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  return samples.map(s => (s.correct ? hi : lo));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📈 PLATT SCALING — p = 1 / (1 + e^(a·x + b)), fitted by Newton's method
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function fitPlatt(samples: CalibrationSample[]): { a: number; b: number } {
+  const xs = samples.map(s => s.confidence / 100);
+  const targets = smoothedTargets(samples);
+  const positives = samples.filter(s => s.correct).length;
+  const negatives = samples.length - positives;
+
+  const objective = (a: number, b: number) => xs.reduce((sum, x, i) => {
+    const f = a * x + b;
+    return sum + (f >= 0 ? targets[i] * f + Math.log1p(Math.exp(-f)) : (targets[i] - 1) * f + Math.log1p(Math.exp(f)));
+  }, 0);
+
+  let a = 0;
+  let b = Math.log((negatives + 1) / (positives + 1));
+  let value = objective(a, b);
+
+  for (let iter = 0; iter < 100; iter++) {
+    let h11 = 1e-12, h22 = 1e-12, h21 = 0, g1 = 0, g2 = 0;
+    xs.forEach((x, i) => {
+      const f = a * x + b;
+      const p = f >= 0 ? Math.exp(-f) / (1 + Math.exp(-f)) : 1 / (1 + Math.exp(f));
+      const d2 = p * (1 - p);
+      h11 += x * x * d2;
+      h22 += d2;
+      h21 += x * d2;
+      const d1 = targets[i] - p;
+      g1 += x * d1;
+      g2 += d1;
+    });
+    if (Math.abs(g1) < 1e-5 && Math.abs(g2) < 1e-5) break;
+
+    const det = h11 * h22 - h21 * h21;
+    const dA = -(h22 * g1 - h21 * g2) / det;
+    const dB = -(-h21 * g1 + h11 * g2) / det;
+    const descent = g1 * dA + g2 * dB;
+
+    // Backtracking line search
+    let step = 1;
+    while (step >= 1e-10) {
+      const next = objective(a + step * dA, b + step * dB);
+      if (next < value + 1e-4 * step * descent) {
+        a += step * dA;
+        b += step * dB;
+        value = next;
+        break;
+      }
+      step /= 2;
+    }
+    if (step < 1e-10) break;
+  }
+
+  // Noise can tilt a small sample the wrong way; higher confidence must never
+  // map to a lower hit rate, so fall back to the flat base rate instead
+  if (a > 0) return { a: 0, b: Math.log((negatives + 1) / (positives + 1)) };
+  return { a, b };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📶 ISOTONIC REGRESSION — Pool adjacent violators, shrunk toward the base rate
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Pseudo-observations at the base rate added to every pooled block, so a block
+// of two lucky calls can't claim a 100% hit rate
+const ISOTONIC_PRIOR_WEIGHT = 2;
+
+interface PooledBlock {
+  weight: number;
+  sum: number;
+  minX: number;
+  maxX: number;
+}
+
+// Pool adjacent violators: merge neighbours until the block means never decrease
+function poolAdjacentViolators(blocks: PooledBlock[]): PooledBlock[] {
+  const pooled: PooledBlock[] = [];
+  for (const block of blocks) {
+    pooled.push({ ...block });
+    while (pooled.length > 1) {
+      const last = pooled[pooled.length - 1];
+      const prev = pooled[pooled.length - 2];
+      if (prev.sum / prev.weight < last.sum / last.weight) break;
+      pooled.splice(pooled.length - 2, 2, {
+        weight: prev.weight + last.weight,
+        sum: prev.sum + last.sum,
+        minX: prev.minX,
+        maxX: last.maxX,
+      });
+    }
+  }
+  return pooled;
+}
+
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationPoint[] {
+  const baseRate = samples.filter(s => s.correct).length / Math.max(1, samples.length);
+  const sorted = [...samples].sort((l, r) => l.confidence - r.confidence);
+
+  const pooled = poolAdjacentViolators(sorted.map(s => ({
+    weight: 1,
+    sum: s.correct ? 1 : 0,
+    minX: s.confidence,
+    maxX: s.confidence,
+  })));
+
+  // Shrinking can reorder small blocks, so pool once more afterwards
+  const shrunk = poolAdjacentViolators(pooled.map(block => ({
+    ...block,
+    weight: block.weight + ISOTONIC_PRIOR_WEIGHT,
+    sum: block.sum + ISOTONIC_PRIOR_WEIGHT * baseRate,
+  })));
+
+  // Each block is flat across its confidence range; interpolate between blocks
+  const points: CalibrationPoint[] = [];
+  for (const block of shrunk) {
+    const probability = block.sum / block.weight;
+    points.push({ confidence: block.minX, probability });
+    if (block.maxX > block.minX) points.push({ confidence: block.maxX, probability });
+  }
+  return points;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧮 MODEL SELECTION & APPLICATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function fitCalibrationModel(
+  samples: CalibrationSample[],
+  scope: CalibrationModel['scope'],
+  nowMs: number,
+  symbol?: string
+): CalibrationModel | null {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  const base = {
+    scope,
+    ...(scope === 'symbol' ? { symbol: symbol?.toUpperCase() } : {}),
+    sampleCount: samples.length,
+    fittedAt: new Date(nowMs).toISOString(),
+  };
+
+  if (samples.length >= ISOTONIC_MIN_SAMPLES) {
+    return { ...base, method: 'isotonic', points: fitIsotonic(samples) };
+  }
+
+  const platt = fitPlatt(samples);
+  const points: CalibrationPoint[] = [];
+  for (let confidence = 0; confidence <= 100; confidence += 5) {
+    points.push({ confidence, probability: 1 / (1 + Math.exp(platt.a * (confidence / 100) + platt.b)) });
+  }
+  return { ...base, method: 'platt', points, platt };
+}
+
+// The symbol's own model when it has enough graded calls, else one fitted on every symbol
+export function selectCalibrationModel(
+  samples: CalibrationSample[],
+  symbol: string,
+  nowMs: number
+): CalibrationModel | null {
+  const own = samples.filter(s => s.symbol.toUpperCase() === symbol.toUpperCase());
+  return fitCalibrationModel(own, 'symbol', nowMs, symbol) ?? fitCalibrationModel(samples, 'global', nowMs);
+}
+
+// Observed hit rate (0-1) for a raw confidence — linear between fitted points, flat beyond them
+export function calibrateProbability(model: CalibrationModel, confidence: number): number {
+  const { points } = model;
+  if (points.length === 0) return clampProbability(confidence / 100);
+  if (confidence <= points[0].confidence) return clampProbability(points[0].probability);
+  const last = points[points.length - 1];
+  if (confidence >= last.confidence) return clampProbability(last.probability);
+
+  for (let i = 1; i < points.length; i++) {
+    const right = points[i];
+    if (confidence > right.confidence) continue;
+    const left = points[i - 1];
+    const span = right.confidence - left.confidence;
+    const t = span > 0 ? (confidence - left.confidence) / span : 1;
+    return clampProbability(left.probability + t * (right.probability - left.probability));
+  }
+  return clampProbability(last.probability);
+}
+
+export function applyCalibration(model: CalibrationModel, confidence: number): number {
+  return Math.round(calibrateProbability(model, confidence) * 100);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 RELIABILITY — Predicted vs observed, bucketed
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildReliabilityBins(
+  samples: CalibrationSample[],
+  model: CalibrationModel | null,
+  binWidth = 10
+): ReliabilityBin[] {
+  const bins: ReliabilityBin[] = [];
+  for (let from = 0; from < 100; from += binWidth) {
+    const to = from + binWidth;
+    const inBin = samples.filter(s => s.confidence >= from && (s.confidence < to || (to >= 100 && s.confidence <= 100)));
+    if (inBin.length === 0) continue;
+    const meanConfidence = inBin.reduce((sum, s) => sum + s.confidence, 0) / inBin.length;
+    bins.push({
+      from,
+      to,
+      count: inBin.length,
+      meanConfidence,
+      observedAccuracy: (inBin.filter(s => s.correct).length / inBin.length) * 100,
+      calibratedConfidence: model ? calibrateProbability(model, meanConfidence) * 100 : null,
+    });
+  }
+  return bins;
+}
+
+// Expected calibration error in percentage points: count-weighted |predicted − observed|.
+// Pass `calibrated` to score the bins' calibrated confidence instead of the raw one.
+export function expectedCalibrationError(bins: ReliabilityBin[], calibrated = false): number | null {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return null;
+  return bins.reduce((sum, bin) => {
+    const predicted = calibrated && bin.calibratedConfidence !== null ? bin.calibratedConfidence : bin.meanConfidence;
+    return sum + (bin.count / total) * Math.abs(predicted - bin.observedAccuracy);
+  }, 0);
+}
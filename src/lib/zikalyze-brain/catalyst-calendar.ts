@@ -0,0 +1,340 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗓️ CATALYST CALENDAR — Stored events, symbol relevance, ICS/JSON import
+// ═══════════════════════════════════════════════════════════════════════════════
+// Dated catalysts (FOMC, CPI, token unlocks, ETF deadlines, upgrades, holidays)
+// live in an editable calendar instead of literal arrays in the engine. The
+// FOMC/CPI schedule below only seeds that calendar; users edit it or import
+// feeds. Recurring rules (jobless claims, options expiry) stay computed in
+// macro-catalysts.ts since they can't go stale.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { CatalystCategory, CatalystEvent, CatalystImportResult, MacroCatalyst } from './types';
+
+export const CATALYST_CATEGORIES: CatalystCategory[] = ['MACRO', 'TOKEN_UNLOCK', 'ETF', 'UPGRADE', 'EXCHANGE', 'REGULATORY', 'HOLIDAY', 'OTHER'];
+const IMPACTS: MacroCatalyst['impact'][] = ['HIGH', 'MEDIUM', 'LOW'];
+const EFFECTS: MacroCatalyst['expectedEffect'][] = ['BULLISH', 'BEARISH', 'VOLATILE', 'UNCERTAIN'];
+
+// How many days ahead an event starts showing up, unless it sets leadDays
+export const DEFAULT_LEAD_DAYS: Record<MacroCatalyst['impact'], number> = {
+  HIGH: 14,
+  MEDIUM: 7,
+  LOW: 3,
+};
+
+// @GROUP tags usable in an event's symbols — "@L2" reaches every listed L2
+export const CATALYST_SYMBOL_GROUPS: Record<string, string[]> = {
+  L2: ['ARB', 'OP', 'MATIC', 'POL', 'STRK', 'IMX', 'MNT', 'ZK', 'METIS'],
+  ETH_ECOSYSTEM: ['ETH', 'ARB', 'OP', 'MATIC', 'POL', 'STRK', 'IMX', 'MNT', 'ZK', 'LDO', 'UNI', 'AAVE', 'LINK'],
+  BTC_ECOSYSTEM: ['BTC', 'STX', 'ORDI', 'RUNE'],
+  SOL_ECOSYSTEM: ['SOL', 'JUP', 'JTO', 'PYTH', 'BONK', 'WIF', 'RAY'],
+  DEFI: ['UNI', 'AAVE', 'LDO', 'MKR', 'CRV', 'COMP', 'SNX', 'JUP', 'RAY'],
+  MEME: ['DOGE', 'SHIB', 'PEPE', 'BONK', 'WIF', 'FLOKI'],
+  STABLECOINS: ['USDT', 'USDC', 'DAI'],
+};
+
+export function leadDaysFor(event: CatalystEvent): number {
+  return event.leadDays ?? DEFAULT_LEAD_DAYS[event.impact];
+}
+
+// Whether an event matters for a symbol — untagged events affect everything
+export function isCatalystRelevant(event: Pick<CatalystEvent, 'symbols'>, symbol?: string): boolean {
+  if (!symbol || event.symbols.length === 0) return true;
+  const target = symbol.toUpperCase();
+  return event.symbols.some(tag => {
+    const upper = tag.toUpperCase();
+    if (upper.startsWith('@')) return CATALYST_SYMBOL_GROUPS[upper.slice(1)]?.includes(target) ?? false;
+    return upper === target;
+  });
+}
+
+// Local calendar day for a YYYY-MM-DD string
+export function catalystDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌱 BUILT-IN SEED — FOMC and CPI release dates
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SEED_UPDATED_AT = '2025-01-01T00:00:00.000Z';
+
+const FOMC_DATES = [
+  '2025-01-29', '2025-03-19', '2025-05-07', '2025-06-18', '2025-07-30', '2025-09-17', '2025-11-05', '2025-12-17',
+  '2026-01-28', '2026-03-18', '2026-05-06', '2026-06-17', '2026-07-29', '2026-09-16', '2026-11-04', '2026-12-16',
+];
+
+const CPI_DATES = [
+  '2025-01-15', '2025-02-12', '2025-03-12', '2025-04-10', '2025-05-13', '2025-06-11',
+  '2025-07-11', '2025-08-12', '2025-09-10', '2025-10-14', '2025-11-13', '2025-12-10',
+  '2026-01-14', '2026-02-11', '2026-03-11', '2026-04-14', '2026-05-12', '2026-06-10',
+  '2026-07-14', '2026-08-12', '2026-09-16', '2026-10-13', '2026-11-12', '2026-12-09',
+];
+
+export const BUILT_IN_CATALYST_EVENTS: CatalystEvent[] = [
+  ...FOMC_DATES.map((date): CatalystEvent => ({
+    id: `builtin-fomc-${date}`,
+    title: 'FOMC Interest Rate Decision',
+    date,
+    time: '18:00',
+    impact: 'HIGH',
+    expectedEffect: 'VOLATILE',
+    description: 'CME FedWatch: ~90% hold expected. Surprise cut = ultra bullish, hike = crash risk',
+    category: 'MACRO',
+    symbols: [],
+    leadDays: 14,
+    source: 'built-in',
+    updated_at: SEED_UPDATED_AT,
+  })),
+  ...CPI_DATES.map((date): CatalystEvent => ({
+    id: `builtin-cpi-${date}`,
+    title: 'US CPI Inflation Data',
+    date,
+    time: '12:30',
+    impact: 'HIGH',
+    expectedEffect: 'VOLATILE',
+    description: 'Consensus: ~2.8% YoY. Below = bullish surprise (rate cut hopes), Above = hawkish reaction',
+    category: 'MACRO',
+    symbols: [],
+    leadDays: 10,
+    source: 'built-in',
+    updated_at: SEED_UPDATED_AT,
+  })),
+];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧹 NORMALISATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Short stable hash for ids derived from feed content (djb2)
+function hashId(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function pick<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  const upper = typeof value === 'string' ? value.trim().toUpperCase().replace(/[\s-]+/g, '_') : '';
+  return (allowed as string[]).includes(upper) ? (upper as T) : fallback;
+}
+
+function parseSymbols(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+  return [...new Set(list.map(s => String(s).trim().toUpperCase()).filter(Boolean))];
+}
+
+// YYYY-MM-DD (+ optional HH:MM) from "2026-03-18", "2026-03-18T18:00:00Z" or a Date-parsable string
+function parseDateInput(value: unknown): { date: string; time?: string } | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim();
+  const plain = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (plain) return { date: text };
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime())) return null;
+  return {
+    date: `${parsed.getUTCFullYear()}-${pad(parsed.getUTCMonth() + 1)}-${pad(parsed.getUTCDate())}`,
+    time: `${pad(parsed.getUTCHours())}:${pad(parsed.getUTCMinutes())}`,
+  };
+}
+
+export interface CatalystImportDefaults {
+  impact?: MacroCatalyst['impact'];
+  expectedEffect?: MacroCatalyst['expectedEffect'];
+  category?: CatalystCategory;
+  symbols?: string[];
+  feed?: string;
+}
+
+/**
+ * Validate one raw event (JSON import, editor form). Returns the event, or an
+ * error message naming what was wrong.
+ */
+export function normalizeCatalystEvent(
+  raw: Record<string, unknown>,
+  nowMs: number,
+  defaults: CatalystImportDefaults = {},
+  source: CatalystEvent['source'] = 'import'
+): CatalystEvent | string {
+  const title = String(raw.title ?? raw.event ?? '').trim();
+  if (!title) return 'missing title';
+  const when = parseDateInput(raw.date);
+  if (!when) return `"${title}": invalid date ${JSON.stringify(raw.date ?? null)}`;
+  const time = typeof raw.time === 'string' && /^\d{2}:\d{2}$/.test(raw.time) ? raw.time : when.time;
+  const leadDays = Number(raw.leadDays);
+  const symbols = parseSymbols(raw.symbols);
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `${source}-${hashId(`${title}|${when.date}`)}`,
+    title,
+    date: when.date,
+    ...(time ? { time } : {}),
+    impact: pick(raw.impact, IMPACTS, defaults.impact ?? 'MEDIUM'),
+    expectedEffect: pick(raw.expectedEffect ?? raw.effect, EFFECTS, defaults.expectedEffect ?? 'UNCERTAIN'),
+    description: String(raw.description ?? '').trim(),
+    category: pick(raw.category, CATALYST_CATEGORIES, defaults.category ?? 'OTHER'),
+    symbols: symbols.length > 0 ? symbols : defaults.symbols ?? [],
+    ...(Number.isFinite(leadDays) && leadDays >= 0 ? { leadDays: Math.round(leadDays) } : {}),
+    source,
+    ...(defaults.feed ? { feed: defaults.feed } : {}),
+    updated_at: new Date(nowMs).toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📥 JSON IMPORT / EXPORT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const CATALYST_EXPORT_VERSION = 1;
+
+// Accepts an array of events or { events: [...] } as written by serializeCatalystEvents
+export function parseCatalystJSON(text: string, nowMs: number, defaults: CatalystImportDefaults = {}): CatalystImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { events: [], skipped: 0, errors: [`Not valid JSON: ${(error as Error).message}`] };
+  }
+  const list = Array.isArray(data) ? data : (data as { events?: unknown })?.events;
+  if (!Array.isArray(list)) return { events: [], skipped: 0, errors: ['Expected an array of events or { "events": [...] }'] };
+
+  const result: CatalystImportResult = { events: [], skipped: 0, errors: [] };
+  list.forEach((raw, i) => {
+    const event = raw && typeof raw === 'object'
+      ? normalizeCatalystEvent(raw as Record<string, unknown>, nowMs, defaults)
+      : `entry ${i + 1} is not an object`;
+    if (typeof event === 'string') {
+      result.skipped++;
+      result.errors.push(event);
+    } else {
+      result.events.push(event);
+    }
+  });
+  return result;
+}
+
+export function serializeCatalystEvents(events: CatalystEvent[]): string {
+  return JSON.stringify({ version: CATALYST_EXPORT_VERSION, events }, null, 2);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📆 ICS IMPORT — VEVENTs from iCalendar feeds (RFC 5545 subset)
+// ═══════════════════════════════════════════════════════════════════════════════
+// Reads SUMMARY, DTSTART, DESCRIPTION, UID, CATEGORIES and PRIORITY, plus
+// X-ZIKALYZE-IMPACT / -EFFECT / -CATEGORY / -SYMBOLS for feeds made for this app.
+// RRULE recurrences aren't expanded — only the first occurrence is imported.
+
+// One pass, so an escaped backslash followed by "n" stays a backslash
+function unescapeICS(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function parseICSDate(value: string, params: string): { date: string; time?: string } | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h, mi, , utc] = m;
+  if (!h || params.includes('VALUE=DATE')) return { date: `${y}-${mo}-${d}` };
+  if (utc) return parseDateInput(`${y}-${mo}-${d}T${h}:${mi}:00Z`);
+  // Floating or TZID time — keep the wall-clock day, drop the time
+  return { date: `${y}-${mo}-${d}` };
+}
+
+// RFC 5545 PRIORITY: 1-4 high, 5 medium, 6-9 low, 0 undefined
+function impactFromPriority(value: string | undefined): MacroCatalyst['impact'] | undefined {
+  const n = Number(value);
+  if (!n) return undefined;
+  return n <= 4 ? 'HIGH' : n === 5 ? 'MEDIUM' : 'LOW';
+}
+
+export function parseICS(text: string, nowMs: number, defaults: CatalystImportDefaults = {}): CatalystImportResult {
+  const result: CatalystImportResult = { events: [], skipped: 0, errors: [] };
+  // Unfold continuation lines before splitting
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(l => l.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    result.errors.push('Not an iCalendar file (no BEGIN:VCALENDAR)');
+    return result;
+  }
+
+  let props: Map<string, { value: string; params: string }> | null = null;
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      props = new Map();
+      continue;
+    }
+    if (upper === 'END:VEVENT' && props) {
+      const summary = props.get('SUMMARY');
+      const start = props.get('DTSTART');
+      const when = start ? parseICSDate(start.value, start.params.toUpperCase()) : null;
+      const title = summary ? unescapeICS(summary.value).trim() : '';
+
+      if (!title || !when) {
+        result.skipped++;
+        result.errors.push(`${title || 'Untitled event'}: missing or unreadable DTSTART`);
+      } else {
+        const categories = props.get('CATEGORIES')?.value.split(',').map(c => c.trim()) ?? [];
+        const uid = props.get('UID')?.value;
+        if (props.has('RRULE')) result.errors.push(`${title}: recurrence not expanded, first occurrence imported`);
+
+        const event = normalizeCatalystEvent({
+          id: `ics-${hashId(uid || `${title}|${when.date}`)}`,
+          title,
+          date: when.date,
+          time: when.time,
+          description: props.get('DESCRIPTION') ? unescapeICS(props.get('DESCRIPTION').value) : '',
+          impact: props.get('X-ZIKALYZE-IMPACT')?.value ?? impactFromPriority(props.get('PRIORITY')?.value),
+          expectedEffect: props.get('X-ZIKALYZE-EFFECT')?.value,
+          category: props.get('X-ZIKALYZE-CATEGORY')?.value
+            ?? categories.find(c => pick(c, CATALYST_CATEGORIES, 'OTHER') !== 'OTHER'),
+          symbols: props.get('X-ZIKALYZE-SYMBOLS')?.value,
+        }, nowMs, defaults);
+        if (typeof event === 'string') {
+          result.skipped++;
+          result.errors.push(event);
+        } else {
+          result.events.push(event);
+        }
+      }
+      props = null;
+      continue;
+    }
+    if (!props) continue;
+
+    // Parameter values may be quoted and contain ":" (TZID="GMT+01:00")
+    const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    if (colon <= 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    props.set(name.toUpperCase(), { value: line.slice(colon + 1), params: params.join(';') });
+  }
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔀 MERGING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Merge imported events into a calendar. Same id — or same title on the same
+ * day — replaces the existing entry instead of duplicating it.
+ */
+export function mergeCatalystEvents(existing: CatalystEvent[], incoming: CatalystEvent[]): { events: CatalystEvent[]; added: number; updated: number } {
+  const key = (e: CatalystEvent) => `${e.title.toLowerCase()}|${e.date}`;
+  const merged = [...existing];
+  let added = 0;
+  let updated = 0;
+  for (const event of incoming) {
+    const index = merged.findIndex(e => e.id === event.id || key(e) === key(event));
+    if (index >= 0) {
+      merged[index] = { ...event, id: merged[index].id };
+      updated++;
+    } else {
+      merged.push(event);
+      added++;
+    }
+  }
+  merged.sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? ''));
+  return { events: merged, added, updated };
+}
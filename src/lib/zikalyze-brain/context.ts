@@ -0,0 +1,178 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧭 ANALYSIS CONTEXT — Injected clock, calendar, stores and logger
+// ═══════════════════════════════════════════════════════════════════════════════
+// Everything in the brain that depends on "now" or on state carried between
+// calls reads it from an AnalysisContext instead of Date.now()/module globals.
+// The default context behaves exactly like the live app; backtests, audits and
+// snapshot tests pass their own context to get reproducible results.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { CatalystEvent, MacroCatalyst, PriceHistoryRecord, VolumeHistoryRecord } from './types';
+import { getUpcomingMacroCatalysts } from './macro-catalysts';
+import { BUILT_IN_CATALYST_EVENTS } from './catalyst-calendar';
+import type { NeuralEnsembleState } from './neural-ensemble';
+import type { ReportTranslator } from './report-i18n';
+
+export interface BrainClock {
+  now(): number; // Epoch milliseconds
+}
+
+export interface CatalystCalendar {
+  getUpcoming(now: Date, symbol?: string, tr?: ReportTranslator): MacroCatalyst[]; // symbol filters out events tagged for other assets
+}
+
+export interface NeuralStateStore {
+  get(symbol: string): NeuralEnsembleState | null;
+  set(symbol: string, state: NeuralEnsembleState): void;
+  delete(symbol: string): void;
+}
+
+// Read-only — the app records volume; the brain only compares against it
+export interface VolumeHistoryStore {
+  get(symbol: string): VolumeHistoryRecord | null;
+}
+
+// Read-only — hourly closes of every tracked symbol, for correlation and regime
+export interface PriceHistoryStore {
+  get(symbol: string): PriceHistoryRecord | null;
+  symbols(): string[];
+}
+
+export interface BrainLogger {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+}
+
+export interface AnalysisContext {
+  clock: BrainClock;
+  catalysts: CatalystCalendar;
+  neuralState: NeuralStateStore;
+  volumeHistory: VolumeHistoryStore;
+  priceHistory: PriceHistoryStore;
+  logger: BrainLogger;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⏱️ CLOCKS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const systemClock: BrainClock = {
+  now: () => Date.now(),
+};
+
+// Frozen clock — always returns the same instant
+export function fixedClock(time: number | Date | string): BrainClock {
+  const ms = typeof time === 'number' ? time : new Date(time).getTime();
+  return { now: () => ms };
+}
+
+// Manually advanced clock — for replays that step through time
+export function createManualClock(start: number = 0): BrainClock & { set(time: number): void } {
+  let current = start;
+  return {
+    now: () => current,
+    set: (time: number) => { current = time; },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📅 CATALYST CALENDARS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Built-in FOMC/CPI/claims/options-expiry schedule
+export const builtInCatalystCalendar: CatalystCalendar = {
+  getUpcoming: (now: Date, symbol?: string, tr?: ReportTranslator) => getUpcomingMacroCatalysts(now, BUILT_IN_CATALYST_EVENTS, symbol, tr),
+};
+
+// Calendar over an editable event list (read on every call) plus the computed rules.
+// The app installs one backed by IndexedDB (src/lib/catalystCalendarPersistence.ts).
+export function eventCatalystCalendar(getEvents: () => CatalystEvent[]): CatalystCalendar {
+  return { getUpcoming: (now: Date, symbol?: string, tr?: ReportTranslator) => getUpcomingMacroCatalysts(now, getEvents(), symbol, tr) };
+}
+
+// Fixed list — useful for tests that must not depend on the schedule
+export function staticCatalystCalendar(catalysts: MacroCatalyst[]): CatalystCalendar {
+  return { getUpcoming: () => catalysts.map(c => ({ ...c })) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧠 NEURAL STATE STORES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createMemoryNeuralStateStore(): NeuralStateStore {
+  const states = new Map<string, NeuralEnsembleState>();
+  return {
+    get: (symbol) => states.get(symbol) || null,
+    set: (symbol, state) => { states.set(symbol, state); },
+    delete: (symbol) => { states.delete(symbol); },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 VOLUME HISTORY STORES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createMemoryVolumeHistoryStore(records: VolumeHistoryRecord[] = []): VolumeHistoryStore {
+  const bySymbol = new Map(records.map(r => [r.symbol.toUpperCase(), r]));
+  return {
+    get: (symbol) => bySymbol.get(symbol.toUpperCase()) || null,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 PRICE HISTORY STORES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createMemoryPriceHistoryStore(records: PriceHistoryRecord[] = []): PriceHistoryStore {
+  const bySymbol = new Map(records.map(r => [r.symbol.toUpperCase(), r]));
+  return {
+    get: (symbol) => bySymbol.get(symbol.toUpperCase()) || null,
+    symbols: () => [...bySymbol.keys()],
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 LOGGERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const consoleLogger: BrainLogger = {
+  log: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+};
+
+export const silentLogger: BrainLogger = {
+  log: () => {},
+  warn: () => {},
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏗️ CONTEXT FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Shared live context — one neural state per symbol for the whole tab session.
+// The app swaps in IndexedDB-backed stores at startup (src/lib/neuralStatePersistence.ts,
+// src/lib/volumeHistoryPersistence.ts, src/lib/priceHistoryPersistence.ts).
+export const defaultAnalysisContext: AnalysisContext = {
+  clock: systemClock,
+  catalysts: builtInCatalystCalendar,
+  neuralState: createMemoryNeuralStateStore(),
+  volumeHistory: createMemoryVolumeHistoryStore(),
+  priceHistory: createMemoryPriceHistoryStore(),
+  logger: consoleLogger,
+};
+
+/**
+ * Build an isolated context. Unspecified parts get fresh defaults — notably a
+ * new, empty neural state store and no volume or price history, so the run never
+ * touches the live session.
+ */
+export function createAnalysisContext(overrides: Partial<AnalysisContext> = {}): AnalysisContext {
+  return {
+    clock: overrides.clock ?? systemClock,
+    catalysts: overrides.catalysts ?? builtInCatalystCalendar,
+    neuralState: overrides.neuralState ?? createMemoryNeuralStateStore(),
+    volumeHistory: overrides.volumeHistory ?? createMemoryVolumeHistoryStore(),
+    priceHistory: overrides.priceHistory ?? createMemoryPriceHistoryStore(),
+    logger: overrides.logger ?? consoleLogger,
+  };
+}
@@ -0,0 +1,305 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 CROSS-ASSET — Correlation/beta vs BTC & ETH and the market regime
+// ═══════════════════════════════════════════════════════════════════════════════
+// The app keeps an hourly close per tracked symbol (price feed + candle archive)
+// in a PriceHistoryRecord (maintained by price-history.ts). These pure helpers
+// measure how tightly each symbol moves with BTC and ETH and classify the regime
+// the whole market is in — so an alt LONG can be weighed against what BTC is doing.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  CorrelationStat,
+  CrossAssetAnalysis,
+  MarketRegimeReading,
+  PriceHistoryRecord,
+} from './types';
+import type { PriceHistoryStore } from './context';
+import { PRICE_HISTORY_RETENTION_MS } from './price-history';
+import { englishReport, ReportTranslator } from './report-i18n';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CORRELATION_WINDOW_HOURS = 7 * 24;
+
+// Paired hourly returns before a correlation is reported
+const MIN_PAIRED_RETURNS = 48;
+// A close this far from the requested time doesn't count as "the price then"
+const CLOSE_TOLERANCE_MS = 2 * HOUR_MS;
+const STRUCTURE_HOURS = 72;
+const MIN_REGIME_HOURS = 72;
+const TREND_EFFICIENCY = 0.3;
+const TREND_MIN_MOVE = 0.02;
+const CRASH_DROP_24H = -0.06;
+const STRESS_DROP_24H = -0.03;
+const STRESS_VOL_RATIO = 1.5;
+const ALT_SEASON_SHARE = 0.75;
+const MIN_ALTS_FOR_SEASON = 5;
+
+// Pegged assets would read as "underperforming BTC" in every rally
+const STABLECOINS = new Set(['USDT', 'USDC', 'DAI', 'FDUSD', 'TUSD', 'USDE', 'USDD', 'PYUSD', 'BUSD', 'USDS', 'FRAX', 'LUSD']);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📈 SERIES HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Hourly log returns keyed by the hour they end in — only between adjacent hours
+function hourlyReturns(record: PriceHistoryRecord, sinceMs: number): Map<number, number> {
+  const returns = new Map<number, number>();
+  const closes = record.hourly;
+  for (let i = 1; i < closes.length; i++) {
+    const prev = closes[i - 1];
+    const cur = closes[i];
+    if (cur.time < sinceMs || cur.time - prev.time !== HOUR_MS) continue;
+    returns.set(cur.time, Math.log(cur.close / prev.close));
+  }
+  return returns;
+}
+
+// Close at (or just before) a time, within CLOSE_TOLERANCE_MS
+function closeAt(record: PriceHistoryRecord, timeMs: number): number | null {
+  for (let i = record.hourly.length - 1; i >= 0; i--) {
+    const c = record.hourly[i];
+    if (c.time <= timeMs) return timeMs - c.time <= CLOSE_TOLERANCE_MS ? c.close : null;
+  }
+  return null;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
+function changeOver(record: PriceHistoryRecord, nowMs: number, spanMs: number): number | null {
+  const last = record.hourly[record.hourly.length - 1];
+  if (!last || nowMs - last.time > CLOSE_TOLERANCE_MS) return null;
+  const then = closeAt(record, last.time - spanMs);
+  return then ? last.close / then - 1 : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔗 CORRELATION & BETA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function computeCorrelation(
+  record: PriceHistoryRecord,
+  benchmarkRecord: PriceHistoryRecord,
+  benchmark: CorrelationStat['benchmark'],
+  nowMs: number,
+  windowHours: number = CORRELATION_WINDOW_HOURS
+): CorrelationStat | null {
+  const since = nowMs - windowHours * HOUR_MS;
+  const own = hourlyReturns(record, since);
+  const bench = hourlyReturns(benchmarkRecord, since);
+  const pairs: [number, number][] = [];
+  own.forEach((r, hour) => {
+    const b = bench.get(hour);
+    if (b !== undefined) pairs.push([r, b]);
+  });
+  if (pairs.length < MIN_PAIRED_RETURNS) return null;
+
+  const meanX = pairs.reduce((s, [x]) => s + x, 0) / pairs.length;
+  const meanY = pairs.reduce((s, [, y]) => s + y, 0) / pairs.length;
+  let cov = 0, varX = 0, varY = 0;
+  for (const [x, y] of pairs) {
+    cov += (x - meanX) * (y - meanY);
+    varX += (x - meanX) ** 2;
+    varY += (y - meanY) ** 2;
+  }
+  if (!(varX > 0) || !(varY > 0)) return null;
+
+  return {
+    benchmark,
+    correlation: cov / Math.sqrt(varX * varY),
+    beta: cov / varY,
+    samples: pairs.length,
+    windowHours,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌦️ MARKET REGIME
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Classify the market from BTC's hourly closes and how the tracked alts did
+ * against BTC over the last week. Precedence: crash > alt season > trend > range.
+ * Null until BTC has MIN_REGIME_HOURS of recent history.
+ */
+export function classifyMarketRegime(
+  btc: PriceHistoryRecord | null,
+  alts: PriceHistoryRecord[],
+  nowMs: number
+): MarketRegimeReading | null {
+  if (!btc) return null;
+  const recent = btc.hourly.filter(c => c.time >= nowMs - STRUCTURE_HOURS * HOUR_MS - CLOSE_TOLERANCE_MS);
+  const last = btc.hourly[btc.hourly.length - 1];
+  if (recent.length < MIN_REGIME_HOURS || !last || nowMs - last.time > CLOSE_TOLERANCE_MS) return null;
+
+  const change24h = changeOver(btc, nowMs, DAY_MS);
+  const change72h = changeOver(btc, nowMs, STRUCTURE_HOURS * HOUR_MS);
+  const change7d = changeOver(btc, nowMs, 7 * DAY_MS);
+  if (change24h === null || change72h === null) return null;
+
+  // Kaufman efficiency: 1 = straight line, ~0 = chop
+  const window = recent.slice(-STRUCTURE_HOURS - 1);
+  const travelled = window.slice(1).reduce((s, c, i) => s + Math.abs(c.close - window[i].close), 0);
+  const efficiency = travelled > 0 ? Math.abs(window[window.length - 1].close - window[0].close) / travelled : 0;
+
+  const sma = window.reduce((s, c) => s + c.close, 0) / window.length;
+  const btcStructure: MarketRegimeReading['btcStructure'] =
+    last.close > sma && change72h > 0.01 ? 'BULLISH'
+      : last.close < sma && change72h < -0.01 ? 'BEARISH'
+        : 'NEUTRAL';
+
+  // Today's realised volatility against the month's
+  const allReturns = [...hourlyReturns(btc, nowMs - PRICE_HISTORY_RETENTION_MS).entries()];
+  const dayReturns = allReturns.filter(([hour]) => hour > nowMs - DAY_MS).map(([, r]) => r);
+  const volatilityRatio = allReturns.length >= 7 * 24 && dayReturns.length >= 12
+    ? stdDev(dayReturns) / (stdDev(allReturns.map(([, r]) => r)) || Infinity)
+    : null;
+
+  // Alt season — share of tracked alts that beat BTC over the week
+  let altsOutperforming: number | null = null;
+  let altsTracked = 0;
+  if (change7d !== null) {
+    const relative = alts
+      .filter(a => a.symbol !== 'BTC' && !STABLECOINS.has(a.symbol))
+      .map(a => changeOver(a, nowMs, 7 * DAY_MS))
+      .filter((c): c is number => c !== null);
+    altsTracked = relative.length;
+    if (altsTracked >= MIN_ALTS_FOR_SEASON) {
+      altsOutperforming = relative.filter(c => c > change7d).length / altsTracked;
+    }
+  }
+
+  const pct = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}%`;
+  let regime: MarketRegimeReading['regime'];
+  let detail: string;
+  if (change24h <= CRASH_DROP_24H || (volatilityRatio !== null && volatilityRatio >= STRESS_VOL_RATIO && change24h <= STRESS_DROP_24H)) {
+    regime = 'HIGH_VOL_CRASH';
+    detail = `BTC ${pct(change24h)} in 24h${volatilityRatio !== null ? `, volatility ${volatilityRatio.toFixed(1)}× the 30d norm` : ''}`;
+  } else if (altsOutperforming !== null && altsOutperforming >= ALT_SEASON_SHARE) {
+    regime = 'ALT_SEASON';
+    detail = `${Math.round(altsOutperforming * 100)}% of ${altsTracked} alts beat BTC over 7d`;
+  } else if (efficiency >= TREND_EFFICIENCY && Math.abs(change72h) >= TREND_MIN_MOVE) {
+    regime = change72h > 0 ? 'TRENDING_UP' : 'TRENDING_DOWN';
+    detail = `BTC ${pct(change72h)} over 72h, efficiency ${efficiency.toFixed(2)}`;
+  } else {
+    regime = 'RANGING';
+    detail = `BTC ${pct(change72h)} over 72h, efficiency ${efficiency.toFixed(2)}`;
+  }
+
+  return {
+    regime,
+    btcStructure,
+    btcChange24h: change24h * 100,
+    btcChange7d: change7d !== null ? change7d * 100 : null,
+    btcChange72h: change72h * 100,
+    efficiency,
+    volatilityRatio,
+    altsOutperforming,
+    altsTracked,
+    detail,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧭 ANALYSIS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function analyzeCrossAsset(symbol: string, history: PriceHistoryStore, nowMs: number): CrossAssetAnalysis | null {
+  const key = symbol.toUpperCase();
+  const own = history.get(key);
+  const btc = history.get('BTC');
+  const eth = history.get('ETH');
+  if (!btc) return null;
+
+  const vsBTC = own && key !== 'BTC' ? computeCorrelation(own, btc, 'BTC', nowMs) : null;
+  const vsETH = own && eth && key !== 'ETH' ? computeCorrelation(own, eth, 'ETH', nowMs) : null;
+  const alts = history.symbols().map(s => history.get(s)).filter((r): r is PriceHistoryRecord => !!r);
+  const regime = classifyMarketRegime(btc, alts, nowMs);
+  if (!vsBTC && !vsETH && !regime) return null;
+
+  // As fresh as the staler of the two series — the forming hour is stamped by updated_at
+  const sampledAt = [own, btc].filter(Boolean).map(r => Date.parse(r.updated_at) || r.hourly[r.hourly.length - 1]?.time || 0);
+  return { symbol: key, vsBTC, vsETH, regime, asOf: Math.min(...sampledAt) };
+}
+
+// Correlation and beta of every tracked symbol against BTC and ETH
+export function buildCorrelationTable(history: PriceHistoryStore, nowMs: number): Array<Pick<CrossAssetAnalysis, 'symbol' | 'vsBTC' | 'vsETH'>> {
+  const btc = history.get('BTC');
+  const eth = history.get('ETH');
+  return history.symbols()
+    .map(symbol => history.get(symbol))
+    .filter((record): record is PriceHistoryRecord => !!record)
+    .map(record => ({
+      symbol: record.symbol,
+      vsBTC: btc && record.symbol !== 'BTC' ? computeCorrelation(record, btc, 'BTC', nowMs) : null,
+      vsETH: eth && record.symbol !== 'ETH' ? computeCorrelation(record, eth, 'ETH', nowMs) : null,
+    }))
+    .filter(row => row.vsBTC || row.vsETH);
+}
+
+// The regime's `detail`, in the report language
+export function describeMarketRegime(reading: MarketRegimeReading, tr: ReportTranslator = englishReport): string {
+  const pct = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`;
+  switch (reading.regime) {
+    case 'HIGH_VOL_CRASH':
+      return reading.volatilityRatio !== null
+        ? tr.t('regime.detailCrashVolatility', { change: pct(reading.btcChange24h), ratio: reading.volatilityRatio.toFixed(1) })
+        : tr.t('regime.detailCrash', { change: pct(reading.btcChange24h) });
+    case 'ALT_SEASON':
+      return tr.t('regime.detailAltSeason', { percent: Math.round((reading.altsOutperforming ?? 0) * 100), count: reading.altsTracked });
+    default:
+      return tr.t('regime.detailTrend', { change: pct(reading.btcChange72h), efficiency: reading.efficiency.toFixed(2) });
+  }
+}
+
+/**
+ * Points (−3..+3) for calculateFinalBias. An alt that tracks BTC closely gets
+ * BTC's structure as a headwind or tailwind; a crash regime weighs on
+ * everything; alt season lifts alts.
+ */
+export function scoreCrossAsset(
+  analysis: CrossAssetAnalysis,
+  tr: ReportTranslator = englishReport
+): { points: number; detail: string; insight?: string } {
+  const { symbol, vsBTC, regime } = analysis;
+  const parts: string[] = [];
+  const insights: string[] = [];
+  let points = 0;
+
+  if (regime?.regime === 'HIGH_VOL_CRASH') {
+    points -= 2;
+    insights.push(`🌪️ ${tr.t('insight.crashRegime', { detail: describeMarketRegime(regime, tr) })}`);
+  }
+
+  if (vsBTC && regime) {
+    const coupling = vsBTC.correlation >= 0.7 ? 2 : vsBTC.correlation >= 0.5 ? 1 : 0;
+    const tape = regime.btcStructure === 'BULLISH' ? 1 : regime.btcStructure === 'BEARISH' ? -1 : 0;
+    points += coupling * tape;
+    parts.push(`BTC ${regime.btcStructure.toLowerCase()}, ρ ${vsBTC.correlation.toFixed(2)} β ${vsBTC.beta.toFixed(2)}`);
+    if (coupling > 0 && tape < 0) {
+      insights.push(`🌐 ${tr.t('insight.btcHeadwind', { symbol, correlation: vsBTC.correlation.toFixed(2), beta: vsBTC.beta.toFixed(1) })}`);
+    } else if (coupling > 0 && tape > 0) {
+      insights.push(`🌐 ${tr.t('insight.btcTailwind', { symbol, correlation: vsBTC.correlation.toFixed(2), beta: vsBTC.beta.toFixed(1) })}`);
+    } else if (coupling === 0 && tape !== 0) {
+      parts.push('decoupled');
+    }
+    if (regime.regime === 'ALT_SEASON') {
+      points += 1;
+      insights.push(`🌈 ${tr.t('insight.altSeason', { detail: describeMarketRegime(regime, tr) })}`);
+    }
+  } else if (vsBTC) {
+    parts.push(`ρ ${vsBTC.correlation.toFixed(2)} β ${vsBTC.beta.toFixed(2)} vs BTC`);
+  }
+
+  if (regime) parts.push(`regime ${regime.regime.toLowerCase().replace(/_/g, ' ')}`);
+  return {
+    points: Math.max(-3, Math.min(3, points)),
+    detail: parts.join(' • ') || 'No cross-asset signal',
+    insight: insights[0],
+  };
+}
@@ -0,0 +1,129 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📉 DERIVATIVES POSITIONING — Funding, open interest and liquidations as bias input
+// ═══════════════════════════════════════════════════════════════════════════════
+// Funding extremes are read contrarian: the crowded side pays to hold and is
+// the one that gets squeezed. Open interest says whether a move is built on new
+// positions or on closing ones. A one-sided liquidation cluster in the last
+// hour is forced selling (or buying) that has usually run its course.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DerivativesInput, LiquidationCluster } from './types';
+import { englishReport, ReportTranslator } from './report-i18n';
+
+const HOUR = 60 * 60 * 1000;
+// Share of the last hour's liquidations one side must take for its cluster to count
+const CASCADE_SHARE = 0.7;
+
+export const formatFundingRate = (rate: number): string => `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(4)}%`;
+
+const signedPercent = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const formatPrice = (price: number): string => `$${price.toFixed(price < 1 ? 6 : price < 100 ? 4 : 2)}`;
+
+const compactUsd = (value: number): string =>
+  value >= 1e9 ? `$${(value / 1e9).toFixed(2)}B`
+    : value >= 1e6 ? `$${(value / 1e6).toFixed(1)}M`
+      : value >= 1e3 ? `$${(value / 1e3).toFixed(0)}K`
+        : `$${value.toFixed(0)}`;
+
+// The largest cluster of the last hour, if its side took most of the hour's liquidations
+function recentCascade(derivatives: DerivativesInput): LiquidationCluster | null {
+  const { liquidations, timestamp } = derivatives;
+  const total = liquidations.longs1h + liquidations.shorts1h;
+  const cluster = liquidations.clusters.find(c => c.end >= timestamp - HOUR);
+  if (!cluster || total <= 0) return null;
+  const sideTotal = cluster.side === 'LONG' ? liquidations.longs1h : liquidations.shorts1h;
+  return sideTotal >= total * CASCADE_SHARE ? cluster : null;
+}
+
+/**
+ * Points (−3..+3) for calculateFinalBias, with the strongest reason as an
+ * insight. Crowded funding weighs most; open interest and liquidations add one
+ * point each.
+ */
+export function scoreDerivatives(
+  derivatives: DerivativesInput,
+  tr: ReportTranslator = englishReport
+): { points: number; detail: string; insight?: { text: string; tone: 'BULLISH' | 'BEARISH' } } {
+  const { funding, openInterest } = derivatives;
+  const parts: string[] = [];
+  const insights: { text: string; tone: 'BULLISH' | 'BEARISH' }[] = [];
+  let points = 0;
+
+  const rate = formatFundingRate(funding.rate);
+  parts.push(`funding ${rate}/${funding.intervalHours}h${funding.zScore !== null ? ` (z ${funding.zScore.toFixed(1)})` : ''}`);
+  if (funding.extreme === 'CROWDED_LONG') {
+    points -= 2;
+    insights.push({ text: `🔥 ${tr.t('insight.fundingCrowdedLong', { rate, hours: funding.intervalHours })}`, tone: 'BEARISH' });
+  } else if (funding.extreme === 'CROWDED_SHORT') {
+    points += 2;
+    insights.push({ text: `🧊 ${tr.t('insight.fundingCrowdedShort', { rate, hours: funding.intervalHours })}`, tone: 'BULLISH' });
+  }
+
+  if (openInterest && openInterest.regime !== 'NONE' && openInterest.oiChange !== null && openInterest.priceChange !== null) {
+    const params = { oi: signedPercent(openInterest.oiChange), price: signedPercent(openInterest.priceChange), hours: openInterest.windowHours };
+    parts.push(`OI ${params.oi} / price ${params.price} over ${openInterest.windowHours}h`);
+    switch (openInterest.regime) {
+      case 'NEW_LONGS':
+        points += 1;
+        insights.push({ text: `📈 ${tr.t('insight.oiNewLongs', params)}`, tone: 'BULLISH' });
+        break;
+      case 'LONG_UNWIND':
+        points += 1;
+        insights.push({ text: `📉 ${tr.t('insight.oiLongUnwind', params)}`, tone: 'BULLISH' });
+        break;
+      case 'NEW_SHORTS':
+        points -= 1;
+        insights.push({ text: `📉 ${tr.t('insight.oiNewShorts', params)}`, tone: 'BEARISH' });
+        break;
+      case 'SHORT_COVERING':
+        points -= 1;
+        insights.push({ text: `📈 ${tr.t('insight.oiShortCovering', params)}`, tone: 'BEARISH' });
+        break;
+    }
+  }
+
+  const cascade = recentCascade(derivatives);
+  if (cascade) {
+    const params = { amount: compactUsd(cascade.notional), price: formatPrice(cascade.price) };
+    parts.push(`${cascade.side === 'LONG' ? 'long' : 'short'} liquidations ${params.amount}`);
+    if (cascade.side === 'LONG') {
+      points += 1;
+      insights.push({ text: `💥 ${tr.t('insight.longsFlushed', params)}`, tone: 'BULLISH' });
+    } else {
+      points -= 1;
+      insights.push({ text: `💥 ${tr.t('insight.shortsSqueezed', params)}`, tone: 'BEARISH' });
+    }
+  }
+
+  return {
+    points: Math.max(-3, Math.min(3, points)),
+    detail: parts.join(' • '),
+    insight: insights[0],
+  };
+}
+
+// One report line: funding, open interest and the last hour's liquidations
+export function describeDerivatives(derivatives: DerivativesInput, tr: ReportTranslator = englishReport): string {
+  const { funding, openInterest, liquidations } = derivatives;
+  const crowding = funding.extreme === 'CROWDED_LONG' ? ` — ${tr.t('derivatives.crowdedLong')}`
+    : funding.extreme === 'CROWDED_SHORT' ? ` — ${tr.t('derivatives.crowdedShort')}` : '';
+  const parts = [
+    `${tr.t('derivatives.funding', {
+      rate: formatFundingRate(funding.rate),
+      hours: funding.intervalHours,
+      apr: signedPercent(funding.annualizedPercent),
+    })}${crowding}`,
+  ];
+
+  if (openInterest) {
+    const value = compactUsd(openInterest.notional);
+    const oiText = openInterest.change24h !== null
+      ? tr.t('derivatives.openInterest', { value, change: signedPercent(openInterest.change24h) })
+      : tr.t('derivatives.openInterestNoChange', { value });
+    parts.push(openInterest.regime !== 'NONE' ? `${oiText}, ${tr.t(`oiRegime.${openInterest.regime}`)}` : oiText);
+  }
+
+  parts.push(tr.t('derivatives.liquidations', { longs: compactUsd(liquidations.longs1h), shorts: compactUsd(liquidations.shorts1h) }));
+  return parts.join(' • ');
+}
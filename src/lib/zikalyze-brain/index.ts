@@ -11,53 +11,32 @@ import {
   AnalysisInput, 
   AnalysisResult, 
   OnChainMetrics, 
-  ETFFlowData 
+  ETFFlowData,
+  BiasFactorId,
+  ConfidenceStep,
+  AnalysisProvenance,
+  AnalysisProgress,
+  AnalysisStep,
+  ScenarioCandle
 } from './types';
-import { getUpcomingMacroCatalysts, getQuickMacroFlag } from './macro-catalysts';
+import { getQuickMacroFlag } from './macro-catalysts';
 import { detectVolumeSpike, getVolumeSpikeFlag } from './volume-analysis';
 import { analyzeInstitutionalVsRetail, generateIfThenScenarios } from './institutional-analysis';
 import { estimateOnChainMetrics, estimateETFFlowData } from './on-chain-estimator';
 import { analyzeMarketStructure, generatePrecisionEntry, calculateFinalBias, performTopDownAnalysis } from './technical-analysis';
+import { buildTradePlan, blendedRewardRisk, resolveATR } from './trade-plan';
+import { analyzePatterns, describePattern } from './patterns';
 import { enhanceBiasWithNeuralEnsemble, type NeuralPrediction } from './neural-ensemble';
+import { AnalysisContext, defaultAnalysisContext } from './context';
+import { applyCalibration } from './calibration';
+import { computeVolumeBaseline } from './volume-history';
+import { analyzeCrossAsset, describeMarketRegime } from './cross-asset';
+import { describeDerivatives } from './derivatives';
+import { createReportTranslator, ReportMessageKey, ReportTranslator } from './report-i18n';
+import { ageProvenance, derivedProvenance, describeProvenance, isDerived, liveProvenance, onChainFieldProvenance } from './provenance';
 
-// Translation maps for multi-language support
-const TRANSLATIONS: Record<string, Record<string, string>> = {
-  en: {
-    quickAnalysis: 'Quick Analysis',
-    price: 'Price',
-    range24h: '24h Range',
-    verdict: 'Verdict',
-    confidence: 'Confidence',
-    bullish: 'BULLISH',
-    bearish: 'BEARISH',
-    neutral: 'NEUTRAL',
-    macroCatalysts: 'Macro Catalysts',
-    precisionEntry: '15-Minute Precision Entry',
-    keyInsights: 'Key Insights',
-    scenarios: 'If-Then Scenarios',
-    poweredBy: 'Powered by Zikalyze AI v10.0'
-  },
-  es: {
-    quickAnalysis: 'Análisis Rápido',
-    price: 'Precio',
-    range24h: 'Rango 24h',
-    verdict: 'Veredicto',
-    confidence: 'Confianza',
-    bullish: 'ALCISTA',
-    bearish: 'BAJISTA',
-    neutral: 'NEUTRAL',
-    macroCatalysts: 'Catalizadores Macro',
-    precisionEntry: 'Entrada de Precisión 15M',
-    keyInsights: 'Ideas Clave',
-    scenarios: 'Escenarios Si-Entonces',
-    poweredBy: 'Potenciado por Zikalyze AI v10.0'
-  },
-  // Add more languages as needed
-};
-
-function getTranslations(language: string): Record<string, string> {
-  return TRANSLATIONS[language] || TRANSLATIONS.en;
-}
+// Brain version — stamped on reports and backtests so runs can be compared
+export const BRAIN_VERSION = '11.0';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🧠 MAIN ANALYSIS FUNCTION — Runs 100% in the browser
@@ -70,38 +49,62 @@ const createBar = (value: number, max: number = 100, filled = '█', empty = '
 };
 
 // Helper: Fear & Greed emoji + label
-const getFearGreedVisual = (value: number): { emoji: string; label: string; bar: string } => {
+const getFearGreedVisual = (value: number, tr: ReportTranslator): { emoji: string; label: string; bar: string } => {
   const bar = createBar(value);
-  if (value <= 20) return { emoji: '😱', label: 'EXTREME FEAR', bar };
-  if (value <= 35) return { emoji: '😰', label: 'FEAR', bar };
-  if (value <= 50) return { emoji: '😐', label: 'NEUTRAL', bar };
-  if (value <= 65) return { emoji: '😊', label: 'GREED', bar };
-  if (value <= 80) return { emoji: '🤑', label: 'HIGH GREED', bar };
-  return { emoji: '🔥', label: 'EXTREME GREED', bar };
+  if (value <= 20) return { emoji: '😱', label: tr.t('fearGreed.extremeFear'), bar };
+  if (value <= 35) return { emoji: '😰', label: tr.t('fearGreed.fear'), bar };
+  if (value <= 50) return { emoji: '😐', label: tr.t('fearGreed.neutral'), bar };
+  if (value <= 65) return { emoji: '😊', label: tr.t('fearGreed.greed'), bar };
+  if (value <= 80) return { emoji: '🤑', label: tr.t('fearGreed.highGreed'), bar };
+  return { emoji: '🔥', label: tr.t('fearGreed.extremeGreed'), bar };
 };
 
 // Helper: Whale flow visual
-const getWhaleVisual = (netFlow: string, buying: number, selling: number): string => {
+const getWhaleVisual = (netFlow: string, buying: number, selling: number, tr: ReportTranslator): string => {
   const buyBar = createBar(buying, 100, '🟢', '⚪', 5);
   const sellBar = createBar(selling, 100, '🔴', '⚪', 5);
-  return `Buy ${buyBar} ${buying}% | Sell ${sellBar} ${selling}%`;
+  return `${tr.t('report.buy')} ${buyBar} ${buying}% | ${tr.t('report.sell')} ${sellBar} ${selling}%`;
 };
 
 // Helper: Calculate historical context
-const getHistoricalContext = (price: number, high24h: number, low24h: number, change: number): string => {
+const getHistoricalContext = (price: number, high24h: number, low24h: number, change: number, tr: ReportTranslator): string => {
   const range = high24h - low24h;
   const position = range > 0 ? ((price - low24h) / range) * 100 : 50;
   const distFromHigh = ((high24h - price) / price) * 100;
   const distFromLow = ((price - low24h) / price) * 100;
   
-  if (position >= 90) return `🏔️ Near 24h HIGH (${distFromHigh.toFixed(1)}% below peak)`;
-  if (position >= 70) return `📈 Upper range (top 30% of 24h)`;
-  if (position <= 10) return `🕳️ Near 24h LOW (${distFromLow.toFixed(1)}% above bottom)`;
-  if (position <= 30) return `📉 Lower range (bottom 30% of 24h)`;
-  return `↔️ Mid-range consolidation`;
+  if (position >= 90) return `🏔️ ${tr.t('context.nearHigh', { percent: distFromHigh.toFixed(1) })}`;
+  if (position >= 70) return `📈 ${tr.t('context.upperRange')}`;
+  if (position <= 10) return `🕳️ ${tr.t('context.nearLow', { percent: distFromLow.toFixed(1) })}`;
+  if (position <= 30) return `📉 ${tr.t('context.lowerRange')}`;
+  return `↔️ ${tr.t('context.midRange')}`;
 };
 
-export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
+// An order book older than this is dropped rather than read
+const ORDER_BOOK_MAX_AGE_MS = 60 * 1000;
+// Funding and open interest move slower than the book, but not by much
+const DERIVATIVES_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Processing steps reported through runClientSideAnalysis's onProgress, in order
+export const ANALYSIS_STEPS: AnalysisStep[] = ['inputs', 'structure', 'bias', 'plan', 'report'];
+
+/**
+ * Run the full analysis. Time, the catalyst calendar, neural state and logging
+ * come from `ctx` — pass an isolated context (createAnalysisContext) with a
+ * fixed clock to get reproducible output for backtests, audits and snapshots.
+ * `onProgress` is told as each processing step starts. The report is written
+ * in `input.language` once its catalog is loaded (loadReportLocale — the brain
+ * host does this before each call), falling back to English.
+ */
+export function runClientSideAnalysis(
+  input: AnalysisInput,
+  ctx: AnalysisContext = defaultAnalysisContext,
+  onProgress?: (progress: AnalysisProgress) => void
+): AnalysisResult {
+  const reportStep = (step: AnalysisStep) =>
+    onProgress?.({ step, index: ANALYSIS_STEPS.indexOf(step), total: ANALYSIS_STEPS.length });
+  reportStep('inputs');
+
   const {
     crypto,
     price,
@@ -113,8 +116,14 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
     onChainData,
     sentimentData,
     chartTrendData, // Real-time 24h chart data
-    multiTimeframeData // Multi-timeframe analysis (15m, 1h, 4h, 1d)
+    multiTimeframeData, // Multi-timeframe analysis (15m, 1h, 4h, 1d)
+    riskSettings,
+    priceTimestamp,
+    excludeDerivedInputs = false,
+    calibration
   } = input;
+  const { logger } = ctx;
+  const nowMs = ctx.clock.now();
   
   // Ensure valid price range — fallback to 2% spread if missing or identical
   const minSpreadPercent = 0.02;
@@ -137,24 +146,71 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
     low24h = midPoint - halfSpread;
   }
 
-  const t = getTranslations(language);
+  const tr = createReportTranslator(language);
   const trendEmoji = change >= 0 ? '📈' : '📉';
 
   // Use provided on-chain data (real) or estimate (fallback)
-  // Mark source clearly for transparency
-  const hasRealOnChain = !!onChainData && onChainData.source !== 'derived-deterministic' && onChainData.source !== 'derived';
   const hasRealChartData = !!chartTrendData && chartTrendData.isLive && chartTrendData.candles.length >= 10;
   const hasRealMultiTfData = !!multiTimeframeData && (multiTimeframeData['1h'] !== null || multiTimeframeData['4h'] !== null);
   
   const onChainMetrics: OnChainMetrics = onChainData || estimateOnChainMetrics(crypto, price, change);
   const etfFlowData: ETFFlowData | null = estimateETFFlowData(price, change, crypto);
+
+  // Recorded volume history — null until enough has been collected for this symbol
+  const volumeBaseline = computeVolumeBaseline(ctx.volumeHistory.get(crypto), volume, price, nowMs);
+
+  // Correlation to BTC/ETH and the market regime — null until BTC has recorded history
+  const crossAsset = analyzeCrossAsset(crypto, ctx.priceHistory, nowMs);
+
+  // Resting liquidity moves within seconds, so a stale book is worse than none
+  const orderBook = input.orderBook && nowMs - input.orderBook.timestamp <= ORDER_BOOK_MAX_AGE_MS
+    ? input.orderBook
+    : undefined;
+  const derivatives = input.derivatives && nowMs - input.derivatives.timestamp <= DERIVATIVES_MAX_AGE_MS
+    ? input.derivatives
+    : undefined;
+
+  // Provenance of every input — estimators stamp themselves DERIVED, feeds are aged against the clock
+  const provenance: AnalysisProvenance = {
+    price: priceTimestamp
+      ? ageProvenance(liveProvenance(dataSource, priceTimestamp), nowMs)
+      : isLiveData ? liveProvenance(dataSource, nowMs) : { kind: 'CACHED', source: dataSource },
+    chart: hasRealChartData
+      ? liveProvenance(chartTrendData.source, nowMs)
+      : derivedProvenance('price-action', '24h high/low/change'),
+    multiTimeframe: hasRealMultiTfData
+      ? liveProvenance('multi-timeframe candles', nowMs)
+      : derivedProvenance('price-action', '24h high/low/change'),
+    exchangeNetFlow: onChainFieldProvenance(onChainMetrics, 'exchangeNetFlow', nowMs),
+    whaleActivity: onChainFieldProvenance(onChainMetrics, 'whaleActivity', nowMs),
+    holders: onChainFieldProvenance(onChainMetrics, 'longTermHolders', nowMs),
+    fearGreed: sentimentData?.fearGreed
+      ? liveProvenance('Alternative.me', nowMs)
+      : derivedProvenance('default', 'no index supplied — neutral 50 assumed'),
+    volumeBaseline: volumeBaseline
+      ? ageProvenance(liveProvenance(`volume history (${volumeBaseline.basis})`, volumeBaseline.asOf), nowMs)
+      : derivedProvenance('volume-analysis', '24h volume × 0.85'),
+  };
+  if (etfFlowData) {
+    provenance.etfFlow = etfFlowData.provenance ?? liveProvenance(etfFlowData.source, nowMs);
+  }
+  if (crossAsset) {
+    provenance.crossAsset = ageProvenance(liveProvenance('price history', crossAsset.asOf), nowMs);
+  }
+  if (orderBook) {
+    provenance.orderBook = liveProvenance(`${orderBook.source} order book`, orderBook.timestamp);
+  }
+  if (derivatives) {
+    provenance.derivatives = liveProvenance(derivatives.source, derivatives.timestamp);
+  }
+  const hasRealOnChain = !isDerived(provenance.exchangeNetFlow);
   
   // Log data sources for debugging - helps identify when using derived vs real data
-  console.log(`[AI Brain] Data sources — On-chain: ${hasRealOnChain ? onChainData?.source : 'DERIVED'}, Chart: ${hasRealChartData ? 'REAL' : 'DERIVED'}, Multi-TF: ${hasRealMultiTfData ? 'REAL' : 'DERIVED'}, Live price: ${isLiveData}`);
+  logger.log(`[AI Brain] Data sources — ${Object.entries(provenance).map(([metric, p]) => `${metric}: ${p.kind}`).join(', ')}`);
 
   // Get macro catalysts with countdown
-  const macroCatalysts = getUpcomingMacroCatalysts();
-  const macroFlag = getQuickMacroFlag();
+  const macroCatalysts = ctx.catalysts.getUpcoming(new Date(nowMs), crypto, tr);
+  const macroFlag = getQuickMacroFlag(new Date(nowMs), macroCatalysts);
   
   // Build macro section with countdown + confidence impact
   const buildMacroSection = (penaltyApplied: boolean = false): string => {
@@ -162,29 +218,37 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
     const catalyst = macroCatalysts[0];
     if (catalyst.date === 'Ongoing') return '';
     
-    const now = new Date();
     const eventDate = new Date(catalyst.date);
-    const daysUntil = Math.ceil((eventDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+    const daysUntil = Math.ceil((eventDate.getTime() - nowMs) / (1000 * 60 * 60 * 24));
     
     if (daysUntil > 7) return '';
     
     const urgency = daysUntil <= 2 ? '🚨' : daysUntil <= 5 ? '⚠️' : '📅';
-    const countdown = daysUntil === 0 ? 'TODAY' : daysUntil === 1 ? 'TOMORROW' : `${daysUntil}d`;
-    const impactNote = penaltyApplied ? '\n   ⚡ Confidence reduced due to event proximity' : '';
+    const countdown = daysUntil === 0
+      ? tr.t('macro.countdownToday')
+      : daysUntil === 1 ? tr.t('macro.countdownTomorrow') : tr.t('macro.countdownDays', { days: daysUntil });
+    const impactNote = penaltyApplied ? `\n   ⚡ ${tr.t('macro.confidenceReduced')}` : '';
     
-    return `${urgency} ${catalyst.event.toUpperCase()} in ${countdown}
+    return `${urgency} ${tr.t('macro.eventIn', { event: catalyst.event.toLocaleUpperCase(tr.locale), countdown })}
    ↳ ${catalyst.description}${impactNote}`;
   };
 
-  // Detect volume spikes
-  const avgVolume = volume * 0.85;
+  // Detect volume spikes. A same-hour baseline can be hourly candle volume, so
+  // compare it with the baseline's own current reading, never the 24h volume
+  const currentVolume = volumeBaseline?.current ?? volume;
+  const avgVolume = volumeBaseline?.average ?? volume * 0.85;
   const volumeSpike = detectVolumeSpike({
-    currentVolume: volume,
+    currentVolume,
     avgVolume24h: avgVolume,
     priceChange: change,
     price,
     high24h,
-    low24h
+    low24h,
+    ...(volumeBaseline ? {
+      zScore: volumeBaseline.zScore,
+      baselineBasis: volumeBaseline.basis,
+      profile: volumeBaseline.profile,
+    } : {})
   });
   const volumeSpikeFlag = getVolumeSpikeFlag(volumeSpike);
 
@@ -195,7 +259,7 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
   // Get sentiment values
   const fearGreed = sentimentData?.fearGreed?.value || 50;
   const socialSentiment = sentimentData?.social?.overall?.score || 50;
-  const fearGreedVisual = getFearGreedVisual(fearGreed);
+  const fearGreedVisual = getFearGreedVisual(fearGreed, tr);
 
   // Institutional vs Retail analysis
   const institutionalVsRetail = analyzeInstitutionalVsRetail({
@@ -204,15 +268,19 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
     socialSentiment,
     fearGreed,
     price,
-    change
-  });
+    change,
+    orderBook,
+    derivatives
+  }, tr);
+
+  reportStep('structure');
 
   // Top-down multi-timeframe analysis — now with REAL chart data AND multi-TF
-  const topDownAnalysis = performTopDownAnalysis(price, high24h, low24h, change, chartTrendData, multiTimeframeData);
+  const topDownAnalysis = performTopDownAnalysis(price, high24h, low24h, change, chartTrendData, multiTimeframeData, logger);
   
   // Log chart data usage for debugging
   if (chartTrendData?.isLive) {
-    console.log(`[AI Brain] Using REAL 24h chart data: ${chartTrendData.candles.length} candles, trend=${chartTrendData.trend24h}, EMA9=${chartTrendData.ema9.toFixed(2)}, RSI=${chartTrendData.rsi.toFixed(1)}`);
+    logger.log(`[AI Brain] Using REAL 24h chart data: ${chartTrendData.candles.length} candles, trend=${chartTrendData.trend24h}, EMA9=${chartTrendData.ema9.toFixed(2)}, RSI=${chartTrendData.rsi.toFixed(1)}`);
   }
   
   // Log multi-timeframe usage
@@ -224,30 +292,54 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
         return `${tf}=${tfData?.trend || 'N/A'}`;
       })
       .join(', ');
-    console.log(`[AI Brain] Multi-TF confluence: ${multiTimeframeData.confluence.overallBias} (${multiTimeframeData.confluence.strength.toFixed(0)}%), ${tfSummary}`);
+    logger.log(`[AI Brain] Multi-TF confluence: ${multiTimeframeData.confluence.overallBias} (${multiTimeframeData.confluence.strength.toFixed(0)}%), ${tfSummary}`);
   }
 
+  // Candlestick + chart patterns across the chart and multi-TF candles
+  const patterns = analyzePatterns(chartTrendData, multiTimeframeData);
+  if (patterns.length > 0) {
+    logger.log(`[AI Brain] Patterns: ${patterns.slice(0, 3).map(p => `${p.timeframe} ${p.name} ${p.confidence}%`).join(', ')}`);
+  }
+
+  // Factors fed by estimates rather than measurements — tagged DERIVED in the attribution,
+  // and scored 0 when the user excludes derived inputs
+  const derivedFactors: BiasFactorId[] = [];
+  if (isDerived(provenance.exchangeNetFlow)) derivedFactors.push('on-chain');
+  if ([provenance.etfFlow, provenance.exchangeNetFlow, provenance.whaleActivity, provenance.holders].some(isDerived)) {
+    derivedFactors.push('institutional');
+  }
+  if (isDerived(provenance.fearGreed)) derivedFactors.push('fear-greed');
+  if (isDerived(provenance.volumeBaseline)) derivedFactors.push('volume');
+
   // Calculate multi-factor bias
-  const { bias: rawBias, confidence: rawConfidence, insights } = calculateFinalBias({
+  const { bias: rawBias, confidence: rawConfidence, insights, factors, bullishPoints, bearishPoints } = calculateFinalBias({
     priceChange: change,
     pricePosition,
-    volumeStrength: volumeSpike.isSpike ? 'HIGH' : volume > avgVolume ? 'MODERATE' : 'LOW',
+    volumeStrength: volumeSpike.isSpike ? 'HIGH' : currentVolume > avgVolume ? 'MODERATE' : 'LOW',
     fearGreed,
     institutionalBias: institutionalVsRetail.institutionalBias,
-    onChainTrend: onChainMetrics.exchangeNetFlow.trend
-  });
+    onChainTrend: onChainMetrics.exchangeNetFlow.trend,
+    indicators: (chartTrendData?.isLive ? chartTrendData.indicators : undefined) ?? multiTimeframeData?.['1h']?.indicators,
+    price,
+    patterns,
+    crossAsset,
+    derivatives,
+    derived: derivedFactors,
+    excludeDerived: excludeDerivedInputs
+  }, tr);
 
   // ═══════════════════════════════════════════════════════════════════════════
   // 🎯 FINAL BIAS — Technical confluence is PRIMARY, fundamentals adjust confidence
   // ═══════════════════════════════════════════════════════════════════════════
+
+  reportStep('bias');
   
   // Macro volatility penalty — reduce confidence if high-impact event imminent
   let macroPenalty = 0;
   const imminentCatalyst = macroCatalysts.find(c => {
     if (c.date === 'Ongoing') return false;
-    const now = new Date();
     const eventDate = new Date(c.date);
-    const daysUntil = Math.ceil((eventDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+    const daysUntil = Math.ceil((eventDate.getTime() - nowMs) / (1000 * 60 * 60 * 24));
     return c.impact === 'HIGH' && daysUntil <= 2 && daysUntil >= 0;
   });
   
@@ -274,19 +366,36 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
   const fundamentalAlignment = (rawBias === 'LONG' && technicalBias === 'LONG') || (rawBias === 'SHORT' && technicalBias === 'SHORT');
   const fundamentalConflict = (rawBias === 'LONG' && technicalBias === 'SHORT') || (rawBias === 'SHORT' && technicalBias === 'LONG');
   
+  // Each branch scales confluence, may add a share of the fundamental score, and holds the result to a band
+  let confluenceMultiplier: number;
+  let fundamentalShare = 0;
+  let band: [number, number];
+  let branch: ReportMessageKey;
   if (technicalBias === 'NEUTRAL') {
     // No trade signal — low confidence
-    technicalConfidence = Math.max(40, Math.min(55, confluenceBase * 0.55)) - macroPenalty;
+    confluenceMultiplier = 0.55;
+    band = [40, 55];
+    branch = 'confidence.branchNoDirection';
   } else if (fundamentalAlignment) {
     // Technical + fundamental agree — moderate-high signal (capped lower for humility)
-    technicalConfidence = Math.max(55, Math.min(75, (confluenceBase * 0.6 + rawConfidence * 0.25))) - macroPenalty;
+    confluenceMultiplier = 0.6;
+    fundamentalShare = rawConfidence * 0.25;
+    band = [55, 75];
+    branch = 'confidence.branchAgree';
   } else if (fundamentalConflict) {
     // Technical vs fundamental conflict — reduce confidence significantly
-    technicalConfidence = Math.max(42, Math.min(58, confluenceBase * 0.5)) - macroPenalty;
+    confluenceMultiplier = 0.5;
+    band = [42, 58];
+    branch = 'confidence.branchConflict';
   } else {
     // Technical clear, fundamental neutral — moderate confidence
-    technicalConfidence = Math.max(48, Math.min(68, confluenceBase * 0.65)) - macroPenalty;
+    confluenceMultiplier = 0.65;
+    band = [48, 68];
+    branch = 'confidence.branchNeutral';
   }
+  const unbandedConfidence = confluenceBase * confluenceMultiplier + fundamentalShare;
+  const bandedConfidence = Math.max(band[0], Math.min(band[1], unbandedConfidence));
+  technicalConfidence = bandedConfidence - macroPenalty;
   
   // Clamp technical confidence — lower ceiling for epistemic humility
   technicalConfidence = Math.max(35, Math.min(78, technicalConfidence));
@@ -312,18 +421,115 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
       volume,
       volatility: estimatedVolatility,
       momentum,
-    }
+    },
+    ctx
   );
   
   // Use neural-enhanced values as final bias
   const bias = neuralEnhanced.bias;
-  const confidence = Math.max(35, Math.min(78, neuralEnhanced.confidence));
+  const uncalibratedConfidence = Math.max(35, Math.min(78, neuralEnhanced.confidence));
+  // Graded calls say how often this confidence level was actually right
+  const confidence = calibration ? applyCalibration(calibration, uncalibratedConfidence) : uncalibratedConfidence;
   
   // Store neural signal for logging
   const neuralSignal: NeuralPrediction = neuralEnhanced.neuralSignal;
+
+  // Confidence waterfall — every step from zero to the final number, in the order applied
+  const confidenceSteps: ConfidenceStep[] = [];
+  const addStep = (step: ConfidenceStep) => {
+    // Clamps that didn't bite are noise
+    if (step.source === 'RULE' && Math.abs(step.delta) < 0.05) return;
+    confidenceSteps.push(step);
+  };
+  const tfTrend = (tf: { timeframe: string; trend: string; strength: number }) =>
+    `${tf.timeframe} ${tf.trend === 'BULLISH' ? '↑' : tf.trend === 'BEARISH' ? '↓' : '→'}${tf.strength.toFixed(0)}`;
+  const fundamentalsDerived = factors.some(f => f.points !== 0 && f.source === 'DERIVED');
+
+  addStep({
+    id: 'confluence',
+    label: tr.t('confidence.confluence', { multiplier: confluenceMultiplier }),
+    delta: confluenceBase * confluenceMultiplier,
+    source: hasRealChartData || hasRealMultiTfData ? 'REAL' : 'DERIVED',
+    detail: tr.t('confidence.confluenceDetail', {
+      percent: confluenceBase,
+      branch: tr.t(branch),
+      trends: [topDownAnalysis.weekly, topDownAnalysis.daily, topDownAnalysis.h4, topDownAnalysis.h1, topDownAnalysis.m15].map(tfTrend).join(' · '),
+    }),
+  });
+  if (fundamentalShare > 0) {
+    addStep({
+      id: 'fundamentals',
+      label: tr.t('confidence.fundamentals'),
+      delta: fundamentalShare,
+      source: fundamentalsDerived ? 'DERIVED' : 'REAL',
+      detail: tr.t('confidence.fundamentalsDetail', { bias: rawBias, confidence: rawConfidence.toFixed(0), bull: bullishPoints, bear: bearishPoints }),
+    });
+  }
+  addStep({
+    id: 'band',
+    label: tr.t('confidence.heldTo', { low: band[0], high: band[1] }),
+    delta: bandedConfidence - unbandedConfidence,
+    source: 'RULE',
+    detail: tr.t('confidence.bandDetail', { branch: tr.t(branch) }),
+  });
+  if (macroPenalty > 0) {
+    addStep({
+      id: 'macro',
+      label: tr.t('confidence.macro'),
+      delta: -macroPenalty,
+      source: 'REAL',
+      detail: tr.t('confidence.macroDetail', { event: imminentCatalyst.event }),
+    });
+  }
+  addStep({
+    id: 'clamp',
+    label: tr.t('confidence.heldTo', { low: 35, high: 78 }),
+    delta: technicalConfidence - (bandedConfidence - macroPenalty),
+    source: 'RULE',
+    detail: tr.t('confidence.clampDetail'),
+  });
+  addStep({
+    id: 'neural-blend',
+    label: tr.t('confidence.neuralBlend'),
+    delta: neuralEnhanced.adjustments.blend,
+    source: 'DERIVED',
+    detail: tr.t('confidence.neuralBlendDetail', { bias: neuralSignal.bias, confidence: neuralSignal.confidence.toFixed(0) }),
+  });
+  if (neuralEnhanced.adjustments.agreement !== 0) {
+    addStep({
+      id: 'neural-agreement',
+      label: tr.t(neuralEnhanced.adjustments.agreement > 0 ? 'confidence.neuralAgrees' : 'confidence.neuralDisagrees'),
+      delta: neuralEnhanced.adjustments.agreement,
+      source: 'DERIVED',
+      detail: tr.t('confidence.neuralAgreementDetail', { percent: (neuralSignal.ensembleAgreement * 100).toFixed(0) }),
+    });
+  }
+  addStep({
+    id: 'final-clamp',
+    label: tr.t('confidence.finalClamp', { low: 35, high: 78 }),
+    delta: uncalibratedConfidence - (technicalConfidence + neuralEnhanced.adjustments.blend + neuralEnhanced.adjustments.agreement),
+    source: 'RULE',
+    detail: tr.t('confidence.finalClampDetail'),
+  });
+  if (calibration) {
+    addStep({
+      id: 'calibration',
+      label: tr.t('confidence.calibrated', { method: calibration.method }),
+      delta: confidence - uncalibratedConfidence,
+      source: 'REAL',
+      detail: tr.t('confidence.calibratedDetail', {
+        scope: calibration.scope === 'symbol' ? calibration.symbol : tr.t('confidence.allSymbols'),
+        count: calibration.sampleCount,
+        raw: uncalibratedConfidence.toFixed(0),
+        calibrated: confidence,
+      }),
+    });
+  }
   
   // Log neural enhancement (debug)
-  console.log(`[AI Brain] Neural Enhancement: ${technicalBias}@${technicalConfidence.toFixed(0)}% → ${bias}@${confidence.toFixed(0)}% | Agreement: ${(neuralSignal.ensembleAgreement * 100).toFixed(0)}%`);
+  logger.log(`[AI Brain] Neural Enhancement: ${technicalBias}@${technicalConfidence.toFixed(0)}% → ${bias}@${uncalibratedConfidence.toFixed(0)}% | Agreement: ${(neuralSignal.ensembleAgreement * 100).toFixed(0)}%`);
+
+  reportStep('plan');
 
   // Market structure
   const structure = analyzeMarketStructure(price, high24h, low24h, change);
@@ -335,7 +541,9 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
     low24h,
     change,
     bias,
-    volumeSpike.isSpike ? 'HIGH' : 'MODERATE'
+    volumeSpike.isSpike ? 'HIGH' : 'MODERATE',
+    tr,
+    orderBook
   );
   
   // Create tighter zone with PROPER range (never same value)
@@ -364,118 +572,150 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
   const tightZoneHigh = entryMid + tightRange / 2;
   const tightZone = `$${tightZoneLow.toFixed(decimals)} – $${tightZoneHigh.toFixed(decimals)}`;
 
+  // Structured plan — numeric entry/stop/targets the report and UI are built from
+  const tradePlan = buildTradePlan({
+    bias,
+    timing: precisionEntry.timing,
+    price,
+    high24h,
+    low24h,
+    decimals,
+    chartData: chartTrendData,
+    multiTfData: multiTimeframeData,
+    riskSettings,
+    tr
+  });
+  const fmt = (value: number) => `$${value.toFixed(decimals)}`;
+  const entryZoneText = tradePlan ? `${fmt(tradePlan.entry.low)} – ${fmt(tradePlan.entry.high)}` : tightZone;
+  const planLines = tradePlan ? [
+    `🛑 ${tr.t('plan.stop')}: ${fmt(tradePlan.stopLoss)} (${tradePlan.direction === 'LONG' ? '-' : '+'}${tradePlan.riskPercent.toFixed(2)}% • ${tradePlan.stopBasis})`,
+    ...tradePlan.takeProfits.map(tp => `🎯 ${tp.label}: ${fmt(tp.price)} (${tp.rewardRisk.toFixed(1)}R • ${tp.basis} • ${tr.t('plan.close', { percent: tp.closePercent })})`),
+    `⚖️ R:R ${blendedRewardRisk(tradePlan).toFixed(1)}:1 ${tr.t('plan.blended')} • ATR ${fmt(tradePlan.atr)}${tradePlan.atrSource === 'estimated' ? ` (${tr.t('plan.estimated')})` : ''}`,
+    ...(tradePlan.position ? [
+      `💼 ${tr.t('plan.size', {
+        units: tradePlan.position.units.toPrecision(4),
+        symbol: crypto.toUpperCase(),
+        notional: `$${tradePlan.position.notional.toFixed(0)}`,
+        risk: `$${tradePlan.position.riskAmount.toFixed(2)}`,
+        percent: tradePlan.position.riskPercent,
+        account: `$${tradePlan.position.accountSize.toLocaleString('en-US')}`,
+      })}`
+    ] : [])
+  ].join('\n') : '';
+
   // Generate scenarios
   const keySupport = low24h + range * 0.15;
   const keyResistance = high24h - range * 0.15;
+  const scenarioCandles: ScenarioCandle[] | undefined = input.hourlyCandles ??
+    multiTimeframeData?.['1h']?.candles?.map(c => ({ time: c.timestamp, open: c.open, high: c.high, low: c.low, close: c.close }));
   const scenarios = generateIfThenScenarios({
     price,
     high: high24h,
     low: low24h,
     bias,
     keySupport,
-    keyResistance
-  });
+    keyResistance,
+    atr: tradePlan?.atr ?? resolveATR(high24h, low24h, chartTrendData, multiTimeframeData).atr,
+    candles: scenarioCandles,
+    extraLevels: [
+      { price: high24h, label: tr.t('scenario.high24h') },
+      { price: low24h, label: tr.t('scenario.low24h') },
+      ...(tradePlan?.takeProfits.map(tp => ({ price: tp.price, label: tp.label })) ?? [])
+    ]
+  }, tr);
+
+  reportStep('report');
 
   // Build KEY insights — BIAS-ALIGNED only (no contradictions)
   const keyInsights: string[] = [];
   
   // Add the definitive bias summary FIRST — aligned with final bias and showing alignment status
   // Include specific divergence direction for nuance
-  const getFundamentalLabel = (b: 'LONG' | 'SHORT' | 'NEUTRAL'): string => {
-    if (b === 'LONG') return 'bullish';
-    if (b === 'SHORT') return 'bearish';
-    return 'neutral';
+  const fundamentalDirection: Record<'LONG' | 'SHORT' | 'NEUTRAL', ReportMessageKey> = {
+    LONG: 'direction.bullish',
+    SHORT: 'direction.bearish',
+    NEUTRAL: 'direction.neutral',
   };
   
   const alignmentNote = fundamentalAlignment 
-    ? 'Technical + fundamental aligned' 
+    ? tr.t('insight.aligned')
     : fundamentalConflict 
-      ? `Technical leads (fundamental ${getFundamentalLabel(rawBias)} diverges)`
+      ? tr.t('insight.technicalLeads', { direction: tr.t(fundamentalDirection[rawBias]) })
       : rawBias === 'NEUTRAL' 
-        ? 'Technical signal (fundamental neutral)'
-        : 'Technical signal';
+        ? tr.t('insight.technicalFundamentalNeutral')
+        : tr.t('insight.technicalSignal');
   
   if (bias === 'LONG') {
-    keyInsights.push(`🎯 BULLISH — ${alignmentNote}`);
+    keyInsights.push(`🎯 ${tr.t('insight.verdictBullish', { note: alignmentNote })}`);
   } else if (bias === 'SHORT') {
-    keyInsights.push(`🎯 BEARISH — ${alignmentNote}`);
+    keyInsights.push(`🎯 ${tr.t('insight.verdictBearish', { note: alignmentNote })}`);
   } else {
-    keyInsights.push(`⏸️ NEUTRAL — No clear technical direction`);
+    keyInsights.push(`⏸️ ${tr.t('insight.verdictNeutral')}`);
   }
   
-  // Filter insights to match current bias direction — STRICT filtering
+  // Filter insights to match current bias direction — STRICT filtering on each insight's tone
   const directionalInsights = insights.filter(i => {
-    // Always skip the first summary insight from calculateFinalBias (we replaced it)
-    if (i.includes('🎯') || i.includes('📊 Lean') || i.includes('⏸️ NEUTRAL')) {
-      return false;
-    }
+    // The summary is replaced above; pattern insights are added below once, bias-aligned,
+    // and cross-asset ones right after
+    if (i.kind !== 'factor') return false;
     // Remove neutral/mixed signals
-    if (i.includes('NEUTRAL') || i.includes('No clear') || i.includes('Mixed') || i.includes('Sideways')) {
-      return false;
-    }
-    // For BEARISH/SHORT bias, exclude ALL bullish-sounding insights
-    if (bias === 'SHORT') {
-      const bullishTerms = [
-        'buy zone', 'Optimal buy', 'Deep discount', 'accumulation', 'Accumulation',
-        'bullish', 'BULLISH', 'uptrend', 'Uptrend', 'Contrarian BUY', 'buying',
-        'confirms bulls', 'Strong uptrend', 'Bullish momentum', 'Mild bullish',
-        'Institutions buying', 'Exchange outflows'
-      ];
-      if (bullishTerms.some(term => i.includes(term))) {
-        return false;
-      }
-    }
-    // For BULLISH/LONG bias, exclude ALL bearish-sounding insights
-    if (bias === 'LONG') {
-      const bearishTerms = [
-        'sell zone', 'Optimal sell', 'Premium zone', 'distribution', 'Distribution',
-        'bearish', 'BEARISH', 'downtrend', 'Downtrend', 'Contrarian SELL', 'selling',
-        'confirms bears', 'Strong downtrend', 'Bearish momentum', 'Mild bearish',
-        'Institutions selling', 'Exchange inflows', 'Caution'
-      ];
-      if (bearishTerms.some(term => i.includes(term))) {
-        return false;
-      }
-    }
+    if (i.tone === 'NEUTRAL') return false;
+    // Nothing that argues against the bias
+    if (bias === 'SHORT' && i.tone === 'BULLISH') return false;
+    if (bias === 'LONG' && i.tone === 'BEARISH') return false;
     return true;
-  });
+  }).map(i => i.text);
   
   // Add filtered directional insights (limit to 2 to avoid clutter)
   directionalInsights.slice(0, 2).forEach(i => keyInsights.push(i));
 
+  // Cross-asset insight — kept even against the bias: BTC working against the trade is the risk to flag
+  if (factors.some(f => f.id === 'cross-asset' && f.points !== 0)) {
+    const crossAssetInsight = insights.find(i => i.kind === 'cross-asset');
+    if (crossAssetInsight) keyInsights.push(crossAssetInsight.text);
+  }
+
   // On-chain insights — ONLY show if they align with bias direction
   // For BEARISH bias, show distribution/selling signals; for BULLISH, show accumulation
   if (bias === 'SHORT') {
     if (onChainMetrics.exchangeNetFlow.trend === 'INFLOW' && onChainMetrics.exchangeNetFlow.magnitude !== 'LOW') {
-      keyInsights.push(`🔗 Exchange INFLOW (${onChainMetrics.exchangeNetFlow.magnitude}) → Distribution pressure`);
+      keyInsights.push(`🔗 ${tr.t('insight.exchangeInflowPressure', { magnitude: tr.value(onChainMetrics.exchangeNetFlow.magnitude) })}`);
     }
     if (onChainMetrics.whaleActivity.netFlow.includes('SELL') || onChainMetrics.whaleActivity.netFlow.includes('DISTRIBUT')) {
-      keyInsights.push(`🐋 Whales: ${onChainMetrics.whaleActivity.netFlow}`);
+      keyInsights.push(`🐋 ${tr.t('insight.whales', { flow: tr.value(onChainMetrics.whaleActivity.netFlow) })}`);
     }
   } else if (bias === 'LONG') {
     if (onChainMetrics.exchangeNetFlow.trend === 'OUTFLOW' && onChainMetrics.exchangeNetFlow.magnitude !== 'LOW') {
-      keyInsights.push(`🔗 Exchange OUTFLOW (${onChainMetrics.exchangeNetFlow.magnitude}) → Accumulation signal`);
+      keyInsights.push(`🔗 ${tr.t('insight.exchangeOutflowSignal', { magnitude: tr.value(onChainMetrics.exchangeNetFlow.magnitude) })}`);
     }
     if (onChainMetrics.whaleActivity.netFlow.includes('BUY') || onChainMetrics.whaleActivity.netFlow.includes('ACCUMULAT')) {
-      keyInsights.push(`🐋 Whales: ${onChainMetrics.whaleActivity.netFlow}`);
+      keyInsights.push(`🐋 ${tr.t('insight.whales', { flow: tr.value(onChainMetrics.whaleActivity.netFlow) })}`);
     }
     if (onChainMetrics.longTermHolders.accumulating && onChainMetrics.longTermHolders.change7d > 0.5) {
-      keyInsights.push(`💎 Long-term holders +${onChainMetrics.longTermHolders.change7d.toFixed(1)}% (7d)`);
+      keyInsights.push(`💎 ${tr.t('insight.longTermHolders', { percent: onChainMetrics.longTermHolders.change7d.toFixed(1) })}`);
     }
   } else {
     // NEUTRAL — show balanced/mixed signals
     if (onChainMetrics.whaleActivity.netFlow === 'BALANCED') {
-      keyInsights.push(`🐋 Whales: Balanced activity`);
+      keyInsights.push(`🐋 ${tr.t('insight.whalesBalanced')}`);
     }
   }
 
+  // Pattern insight — strongest pattern agreeing with the bias
+  const alignedPattern = patterns.find(p =>
+    (bias === 'LONG' && p.direction === 'BULLISH') || (bias === 'SHORT' && p.direction === 'BEARISH')
+  );
+  if (alignedPattern) {
+    keyInsights.push(describePattern(alignedPattern, tr));
+  }
+
   // ETF insight — only show for BTC/ETH (cryptos with actual ETFs) and if it supports the bias
   if (etfFlowData && (Math.abs(etfFlowData.btcNetFlow24h) > 50 || Math.abs(etfFlowData.ethNetFlow24h || 0) > 50)) {
     const flowValue = etfFlowData.btcNetFlow24h || etfFlowData.ethNetFlow24h || 0;
     const flowDir = flowValue > 0 ? '+' : '';
     const isETFBullish = flowValue > 0;
     if ((bias === 'LONG' && isETFBullish) || (bias === 'SHORT' && !isETFBullish) || bias === 'NEUTRAL') {
-      keyInsights.push(`💼 ETF Flow: ${flowDir}$${flowValue}M (${etfFlowData.institutionalSentiment})`);
+      keyInsights.push(`💼 ${tr.t('insight.etfFlow', { flow: `${flowDir}$${flowValue}M`, sentiment: tr.value(etfFlowData.institutionalSentiment) })}`);
     }
   }
 
@@ -493,13 +733,13 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
   const probBar = createBar(successProb, 100, '▓', '░', 12);
   
   // Qualitative description based on probability tier (more measured language)
-  const probDescription = successProb >= 65 
-    ? 'FAVORABLE — Good confluence, manage risk'
+  const probDescription = tr.t(successProb >= 65 
+    ? 'report.successFavorable'
     : successProb >= 55 
-      ? 'MODERATE — Some confirmations, stay nimble' 
+      ? 'report.successModerate' 
       : successProb >= 48 
-        ? 'UNCERTAIN — Mixed signals, reduce size'
-        : 'WEAK — Low conviction, consider sitting out';
+        ? 'report.successUncertain'
+        : 'report.successWeak');
 
   // HTF visual with alignment
   const getTrendIcon = (trend: string) => trend === 'BULLISH' ? '🟢' : trend === 'BEARISH' ? '🔴' : '⚪';
@@ -510,111 +750,172 @@ export function runClientSideAnalysis(input: AnalysisInput): AnalysisResult {
     .filter(tf => tf.trend === 'BULLISH').length;
   const bearishCount = [topDownAnalysis.weekly, topDownAnalysis.daily, topDownAnalysis.h4, topDownAnalysis.h1, topDownAnalysis.m15]
     .filter(tf => tf.trend === 'BEARISH').length;
-  const alignmentText = bullishCount >= 4 ? `${bullishCount}/5 BULLISH ✓` 
-    : bearishCount >= 4 ? `${bearishCount}/5 BEARISH ✓`
-    : `Mixed (${bullishCount}B/${bearishCount}S)`;
+  const alignmentText = bullishCount >= 4 ? `${tr.t('report.alignedBullish', { count: bullishCount })} ✓` 
+    : bearishCount >= 4 ? `${tr.t('report.alignedBearish', { count: bearishCount })} ✓`
+    : tr.t('report.alignmentMixed', { bullish: bullishCount, bearish: bearishCount });
 
   // Historical context
-  const historicalContext = getHistoricalContext(price, high24h, low24h, change);
+  const historicalContext = getHistoricalContext(price, high24h, low24h, change, tr);
 
   // Macro section (pass penalty status)
   const macroSection = buildMacroSection(macroPenalty > 0);
 
   // Build TL;DR headline — one-liner summary for quick scanning
   // Confidence-adjusted bias labels: softer language for humility
-  const getBiasLabel = (b: 'LONG' | 'SHORT' | 'NEUTRAL', conf: number): string => {
-    if (b === 'NEUTRAL') return 'Neutral';
-    const baseWord = b === 'LONG' ? 'bullish' : 'bearish';
-    if (conf >= 68) return `Favoring ${baseWord}`; // Softer than all-caps
-    if (conf >= 55) return `Leaning ${baseWord}`; // Moderate
-    return `Slight ${baseWord} tilt`; // Low confidence
+  const getBiasLabel = (b: 'LONG' | 'SHORT' | 'NEUTRAL', conf: number): ReportMessageKey => {
+    if (b === 'NEUTRAL') return 'bias.neutral';
+    if (conf >= 68) return b === 'LONG' ? 'bias.favoringBullish' : 'bias.favoringBearish'; // Softer than all-caps
+    if (conf >= 55) return b === 'LONG' ? 'bias.leaningBullish' : 'bias.leaningBearish'; // Moderate
+    return b === 'LONG' ? 'bias.slightBullish' : 'bias.slightBearish'; // Low confidence
   };
-  const biasWord = getBiasLabel(bias, confidence);
-  const structureWord = topDownAnalysis.confluenceScore >= 70 ? 'decent' : topDownAnalysis.confluenceScore >= 50 ? 'mixed' : 'weak';
-  const marketPhase = pricePosition > 70 ? 'extended' : pricePosition < 30 ? 'discount' : 'mid-range';
-  const actionWord = precisionEntry.timing === 'NOW' 
-    ? (bias === 'LONG' ? 'Potential buy zone' : bias === 'SHORT' ? 'Potential sell zone' : 'Range-bound')
+  const biasWord = tr.t(getBiasLabel(bias, confidence));
+  const structureWord = tr.t(topDownAnalysis.confluenceScore >= 70 ? 'tldr.confluenceDecent' : topDownAnalysis.confluenceScore >= 50 ? 'tldr.confluenceMixed' : 'tldr.confluenceWeak');
+  const marketPhase = tr.t(pricePosition > 70 ? 'tldr.zoneExtended' : pricePosition < 30 ? 'tldr.zoneDiscount' : 'tldr.zoneMidRange');
+  const actionWord = tr.t(precisionEntry.timing === 'NOW' 
+    ? (bias === 'LONG' ? 'tldr.buyZone' : bias === 'SHORT' ? 'tldr.sellZone' : 'tldr.rangeBound')
     : precisionEntry.timing === 'WAIT_PULLBACK' 
-      ? 'Await pullback' 
+      ? 'tldr.awaitPullback' 
       : precisionEntry.timing === 'WAIT_BREAKOUT'
-        ? 'Await breakout'
-        : 'No clear entry';
-  const tldr = `${biasWord} (${structureWord} confluence) | ${marketPhase.charAt(0).toUpperCase() + marketPhase.slice(1)} zone | ${actionWord}`;
+        ? 'tldr.awaitBreakout'
+        : 'tldr.noEntry');
+  const tldr = `${biasWord} (${structureWord}) | ${marketPhase} | ${actionWord}`;
+
+  // Provenance footer + the factors dropped by the exclude-derived setting
+  const derivedCount = Object.values(provenance).filter(isDerived).length;
+  const excludedFactors = factors.filter(f => f.excluded).map(f => tr.t(`factor.${f.id}`));
+  const derivedExcludedNote = excludedFactors.length > 0
+    ? `   ⚠️ ${tr.t('report.notScored', { factors: excludedFactors.join(', ') })}\n`
+    : '';
 
   // ═══════════════════════════════════════════════════════════════════════════
   // BUILD FINAL ANALYSIS — Dense, Visual, Actionable
   // ═══════════════════════════════════════════════════════════════════════════
   
+  // Volume baseline wording — the recorded window when there is one
+  const volumeAvgLabel = volumeBaseline
+    ? volumeBaseline.basis === 'same-hour' ? tr.t('report.avgSameHour') : tr.t('report.avgWindow', { window: volumeBaseline.basis })
+    : tr.t('report.avg24h');
+  const volumeText = currentVolume > avgVolume
+    ? tr.t('report.volumeAbove', { percent: ((currentVolume / avgVolume - 1) * 100).toFixed(0), baseline: volumeAvgLabel })
+    : currentVolume < avgVolume * 0.8
+      ? tr.t('report.volumeBelow', { percent: ((1 - currentVolume / avgVolume) * 100).toFixed(0), baseline: volumeAvgLabel })
+      : tr.t('report.volumeNear', { baseline: volumeAvgLabel });
+  // Measured open interest when a perpetual streams; otherwise read from the price move
+  const oiTrend = derivatives?.openInterest?.change24h ?? null;
+  const openInterestText = oiTrend !== null
+    ? `${tr.t(oiTrend > 2 ? 'report.oiRising' : oiTrend < -2 ? 'report.oiDeclining' : 'report.oiStable')} (${oiTrend >= 0 ? '+' : ''}${oiTrend.toFixed(1)}%)`
+    : tr.t(change > 2 ? 'report.oiRising' : change < -2 ? 'report.oiDeclining' : 'report.oiStable');
+  const volumeProfile = volumeBaseline?.profile;
+  const volumeProfileLine = volumeProfile
+    ? `🏔️ ${tr.t('report.volumeProfile', {
+      hours: volumeProfile.hours,
+      poc: `$${volumeProfile.poc.toFixed(decimals)}`,
+      low: `$${volumeProfile.valueAreaLow.toFixed(decimals)}`,
+      high: `$${volumeProfile.valueAreaHigh.toFixed(decimals)}`,
+      position: tr.t(volumeProfile.position === 'ABOVE_VALUE' ? 'report.aboveValue' : volumeProfile.position === 'BELOW_VALUE' ? 'report.belowValue' : 'report.inValue'),
+    })}\n`
+    : '';
+
+  const crossAssetLine = crossAsset
+    ? `🌐 ${tr.t('report.crossAsset')}: ${crossAsset.regime ? `${tr.t(`regime.${crossAsset.regime.regime}`)} (${describeMarketRegime(crossAsset.regime, tr)})` : tr.t('report.regimeUnavailable')}${[crossAsset.vsBTC, crossAsset.vsETH].filter(Boolean).map(c => ` • ${tr.t('report.versus', { benchmark: c.benchmark })} ρ ${c.correlation.toFixed(2)} β ${c.beta.toFixed(2)}`).join('')}
+   └─ ${describeProvenance(provenance.crossAsset, tr)}
+`
+    : '';
+
+  const derivativesLine = derivatives
+    ? `📉 ${tr.t('report.derivatives')}: ${describeDerivatives(derivatives, tr)}
+   └─ ${describeProvenance(provenance.derivatives, tr)}
+`
+    : '';
+
+  const verdictLabel = bias === 'LONG'
+    ? `🟢 ${tr.t(getBiasLabel(bias, confidence))}`
+    : bias === 'SHORT'
+      ? `🔴 ${tr.t(getBiasLabel(bias, confidence))}`
+      : `⚪ ${tr.value('NEUTRAL')}`;
+  const timingLabel = precisionEntry.timing === 'NOW'
+    ? `🟢 ${tr.t('report.executeNow')}`
+    : precisionEntry.timing === 'WAIT_PULLBACK'
+      ? `🟡 ${tr.t('report.waitPullback')}`
+      : precisionEntry.timing === 'WAIT_BREAKOUT' ? `🟡 ${tr.t('report.waitBreakout')}` : `🔴 ${tr.t('report.noTrade')}`;
+  const confluenceLabel = topDownAnalysis.confluenceScore >= 70
+    ? `(${tr.t('report.confluenceStrong')} ✓)`
+    : topDownAnalysis.confluenceScore >= 50 ? `(${tr.t('report.confluenceModerate')})` : `(${tr.t('report.confluenceWeak')} ⚠️)`;
+  const trendRow = (label: string, tf: { trend: string; strength: number }, pad: number) =>
+    `${label}: ${tr.value(tf.trend).padEnd(pad)} ${createBar(tf.strength, 100, '█', '░', 8)} ${tf.strength.toFixed(0)}%`;
+
   const analysis = `┏━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┓
-   ${crypto.toUpperCase()} ANALYSIS   ${trendEmoji} ${change >= 0 ? '+' : ''}${change.toFixed(2)}%
+   ${tr.t('report.title', { symbol: crypto.toUpperCase() })}   ${trendEmoji} ${change >= 0 ? '+' : ''}${change.toFixed(2)}%
 ┗━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┛
 
-📌 TL;DR: ${tldr}
+📌 ${tr.t('report.tldr')}: ${tldr}
 
-💰 $${price.toFixed(decimals)}  │  24h: $${low24h.toFixed(decimals)} → $${high24h.toFixed(decimals)}
+💰 $${price.toFixed(decimals)}  │  ${tr.t('report.range24h')}: $${low24h.toFixed(decimals)} → $${high24h.toFixed(decimals)}
 ${historicalContext}
-${volumeSpike.isSpike ? `📊 VOLUME SPIKE: +${volumeSpike.percentageAboveAvg.toFixed(0)}% above 24h avg (${volumeSpike.magnitude}) [Spot via aggregator]\n` : ''}📈 Volume: ${volume > avgVolume ? `+${((volume / avgVolume - 1) * 100).toFixed(0)}% above` : volume < avgVolume * 0.8 ? `${((1 - volume / avgVolume) * 100).toFixed(0)}% below` : 'near'} 24h avg | Futures OI ${change > 2 ? 'rising (longs building)' : change < -2 ? 'declining (shorts closing)' : 'stable'}
-┌─────────────────────────────────────────────────┐
-│  🎯 VERDICT: ${bias === 'LONG' ? (confidence >= 68 ? '🟢 Favoring Bullish' : confidence >= 55 ? '🟢 Leaning Bullish' : '🟢 Slight Bull Tilt') : bias === 'SHORT' ? (confidence >= 68 ? '🔴 Favoring Bearish' : confidence >= 55 ? '🔴 Leaning Bearish' : '🔴 Slight Bear Tilt') : '⚪ NEUTRAL'}  │  Confidence: ${confidence.toFixed(0)}%
+${volumeSpike.isSpike ? `📊 ${tr.t('report.volumeSpike', { percent: volumeSpike.percentageAboveAvg.toFixed(0), baseline: volumeAvgLabel, magnitude: tr.value(volumeSpike.magnitude) })}\n` : ''}📈 ${tr.t('report.volume')}: ${volumeText}${volumeBaseline ? ` (z ${volumeBaseline.zScore >= 0 ? '+' : ''}${volumeBaseline.zScore.toFixed(1)})` : ''} | ${tr.t('report.futuresOI')} ${openInterestText}
+${volumeProfileLine}┌─────────────────────────────────────────────────┐
+│  🎯 ${tr.t('report.verdict')}: ${verdictLabel}  │  ${tr.t('report.confidence')}: ${confidence.toFixed(0)}%${calibration ? ` (${tr.t('report.calibratedFrom', { percent: uncalibratedConfidence.toFixed(0) })})` : ''}
 └─────────────────────────────────────────────────┘
 
-━━━ 📊 MARKET PULSE ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-😊 Fear & Greed: [${fearGreedVisual.bar}] ${fearGreed} ${fearGreedVisual.emoji} ${fearGreedVisual.label}
-   └─ Source: Alternative.me (24h)
-🐋 Whale Activity: ${getWhaleVisual(onChainMetrics.whaleActivity.netFlow, onChainMetrics.whaleActivity.buying, onChainMetrics.whaleActivity.selling)}
-   └─ Net: ${onChainMetrics.whaleActivity.netFlow} ${hasRealOnChain ? '[Live on-chain]' : '[Derived from price action]'}
-🔗 Exchange Flow: ${onChainMetrics.exchangeNetFlow.trend} (${onChainMetrics.exchangeNetFlow.magnitude})
-   └─ ${hasRealOnChain ? 'Source: CryptoQuant (rolling 24h)' : 'Estimated from market momentum'}
-💼 Institutional: ${etfFlowData ? etfFlowData.institutionalSentiment : 'N/A (no ETF for this asset)'}
-   └─ ${etfFlowData ? 'Source: ETF flow data' : 'ETFs only available for BTC/ETH'}
-${macroSection ? `\n━━━ ⚡ MACRO CATALYST ━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n${macroSection}\n` : ''}
-━━━ 🔭 MULTI-TIMEFRAME ━━━━━━━━━━━━━━━━━━━━━━━━━━
-${!hasRealMultiTfData ? '⚠️ Using price-based estimates (chart API unavailable)\n' : ''}
+━━━ 📊 ${tr.t('report.marketPulse')} ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+😊 ${tr.t('report.fearGreed')}: [${fearGreedVisual.bar}] ${fearGreed} ${fearGreedVisual.emoji} ${fearGreedVisual.label}
+   └─ ${describeProvenance(provenance.fearGreed, tr)}
+🐋 ${tr.t('report.whaleActivity')}: ${getWhaleVisual(onChainMetrics.whaleActivity.netFlow, onChainMetrics.whaleActivity.buying, onChainMetrics.whaleActivity.selling, tr)}
+   └─ ${tr.t('report.net')}: ${tr.value(onChainMetrics.whaleActivity.netFlow)} • ${describeProvenance(provenance.whaleActivity, tr)}
+🔗 ${tr.t('report.exchangeFlow')}: ${tr.value(onChainMetrics.exchangeNetFlow.trend)} (${tr.value(onChainMetrics.exchangeNetFlow.magnitude)})
+   └─ ${describeProvenance(provenance.exchangeNetFlow, tr)}
+💼 ${tr.t('report.institutional')}: ${etfFlowData ? tr.value(etfFlowData.institutionalSentiment) : tr.t('report.noEtf')}
+   └─ ${provenance.etfFlow ? describeProvenance(provenance.etfFlow, tr) : tr.t('report.etfOnly')}
+${crossAssetLine}${derivativesLine}${derivedExcludedNote}${macroSection ? `\n━━━ ⚡ ${tr.t('report.macroCatalyst')} ━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n${macroSection}\n` : ''}
+━━━ 🔭 ${tr.t('report.multiTimeframe')} ━━━━━━━━━━━━━━━━━━━━━━━━━━
+${!hasRealMultiTfData ? `⚠️ ${tr.t('report.priceEstimates')}\n` : ''}
 ${htfVisual}  →  ${alignmentText}
 
-W: ${topDownAnalysis.weekly.trend.padEnd(7)} ${createBar(topDownAnalysis.weekly.strength, 100, '█', '░', 8)} ${topDownAnalysis.weekly.strength.toFixed(0)}%
-D: ${topDownAnalysis.daily.trend.padEnd(7)} ${createBar(topDownAnalysis.daily.strength, 100, '█', '░', 8)} ${topDownAnalysis.daily.strength.toFixed(0)}%
-4H: ${topDownAnalysis.h4.trend.padEnd(6)} ${createBar(topDownAnalysis.h4.strength, 100, '█', '░', 8)} ${topDownAnalysis.h4.strength.toFixed(0)}%
-1H: ${topDownAnalysis.h1.trend.padEnd(6)} ${createBar(topDownAnalysis.h1.strength, 100, '█', '░', 8)} ${topDownAnalysis.h1.strength.toFixed(0)}%
-15M: ${topDownAnalysis.m15.trend.padEnd(5)} ${createBar(topDownAnalysis.m15.strength, 100, '█', '░', 8)} ${topDownAnalysis.m15.strength.toFixed(0)}%
-
-🎯 Confluence: ${topDownAnalysis.confluenceScore}% ${topDownAnalysis.confluenceScore >= 70 ? '(STRONG ✓)' : topDownAnalysis.confluenceScore >= 50 ? '(MODERATE)' : '(WEAK ⚠️)'} ${hasRealMultiTfData ? '' : '(estimated)'}
+${trendRow('W', topDownAnalysis.weekly, 7)}
+${trendRow('D', topDownAnalysis.daily, 7)}
+${trendRow('4H', topDownAnalysis.h4, 6)}
+${trendRow('1H', topDownAnalysis.h1, 6)}
+${trendRow('15M', topDownAnalysis.m15, 5)}
 
-━━━ 📌 15-MINUTE PRECISION ENTRY ━━━━━━━━━━━━━━━
+🎯 ${tr.t('report.confluence')}: ${topDownAnalysis.confluenceScore}% ${confluenceLabel} ${hasRealMultiTfData ? '' : `(${tr.t('report.estimated')})`}
+${patterns.length > 0 ? `\n${patterns.slice(0, 3).map(p => describePattern(p, tr)).join('\n')}\n` : ''}
+━━━ 📌 ${tr.t('report.precisionEntry')} ━━━━━━━━━━━━━━━
 
-⏱️ ${precisionEntry.timing === 'NOW' ? '🟢 EXECUTE NOW' : precisionEntry.timing === 'WAIT_PULLBACK' ? '🟡 WAIT FOR PULLBACK' : precisionEntry.timing === 'WAIT_BREAKOUT' ? '🟡 WAIT FOR BREAKOUT' : '🔴 NO TRADE'}
+⏱️ ${timingLabel}
 
-📍 Entry Zone: ${tightZone}
-   └─ Trigger: ${precisionEntry.trigger}
-${bias === 'SHORT' ? `🎯 Target: $${(low24h - range * 0.1).toFixed(decimals)} (breakdown of 24h low)` : bias === 'LONG' ? `🎯 Target: $${(high24h + range * 0.1).toFixed(decimals)} (breakout of 24h high)` : ''}
-✓ Confirm: ${precisionEntry.confirmation}
-✗ Invalid: ${precisionEntry.invalidation}
-${bias === 'SHORT' ? `📈 If invalidated: Flip long above $${(high24h + range * 0.15).toFixed(decimals)}` : bias === 'LONG' ? `📉 If invalidated: Flip short below $${(low24h - range * 0.15).toFixed(decimals)}` : ''}
+📍 ${tr.t('report.entryZone')}: ${entryZoneText}
+   └─ ${tr.t('report.trigger')}: ${precisionEntry.trigger}
+${planLines}
+✓ ${tr.t('report.confirm')}: ${precisionEntry.confirmation}${tradePlan ? '' : `\n✗ ${tr.t('report.invalid')}: ${precisionEntry.invalidation}`}${precisionEntry.liquidity ? `\n💧 ${tr.t('report.liquidity')}: ${precisionEntry.liquidity}` : ''}
+${tradePlan?.direction === 'SHORT' ? `📈 ${tr.t('report.flipLong', { price: fmt(tradePlan.stopLoss) })}` : tradePlan?.direction === 'LONG' ? `📉 ${tr.t('report.flipShort', { price: fmt(tradePlan.stopLoss) })}` : ''}
 
-📊 Success: [${probBar}] ${successProb}%
+📊 ${tr.t('report.success')}: [${probBar}] ${successProb}%
    └─ ${probDescription}
 
-━━━ 💡 KEY INSIGHTS ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+━━━ 💡 ${tr.t('report.keyInsights')} ━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 ${keyInsights.slice(0, 5).map(i => `• ${i}`).join('\n')}
 
-━━━ 🔮 SCENARIOS (Both Directions) ━━━━━━━━━━━━━━
+━━━ 🔮 ${tr.t('report.scenarios')} ━━━━━━━━━━━━━━
 
 ${scenarios.slice(0, 2).map(s => `${s.condition}
   → ${s.outcome}
-  📋 ${s.action}`).join('\n\n')}
-
-${bias === 'SHORT' ? `📈 UPSIDE SCENARIO: If price reclaims $${(high24h - range * 0.1).toFixed(decimals)} with volume
-  → Bears trapped, momentum shift likely
-  📋 Consider flipping long or exiting shorts` : bias === 'LONG' ? `📉 DOWNSIDE SCENARIO: If price loses $${(low24h + range * 0.1).toFixed(decimals)} with volume
-  → Bulls trapped, breakdown in play
-  📋 Consider flipping short or exiting longs` : `↔️ BREAKOUT SCENARIO: Watch $${high24h.toFixed(decimals)} (up) / $${low24h.toFixed(decimals)} (down)
-  → First to break with volume defines direction
-  📋 React to the breakout, don't predict`}
+  📋 ${s.action}${s.probabilityBasis ? `
+  🎲 ${s.probability}% — ${s.probabilityBasis.summary}` : ''}`).join('\n\n')}
+${scenarios.length > 2 ? `
+${scenarios.slice(2).map(s => `• ${s.condition} → ${s.probability}%`).join('\n')}
+` : ''}
+${bias === 'SHORT' ? `📈 ${tr.t('scenario.upside', { price: `$${(high24h - range * 0.1).toFixed(decimals)}` })}
+  → ${tr.t('scenario.bearsTrapped')}
+  📋 ${tr.t('scenario.considerLong')}` : bias === 'LONG' ? `📉 ${tr.t('scenario.downside', { price: `$${(low24h + range * 0.1).toFixed(decimals)}` })}
+  → ${tr.t('scenario.bullsTrapped')}
+  📋 ${tr.t('scenario.considerShort')}` : `↔️ ${tr.t('scenario.breakout', { high: `$${high24h.toFixed(decimals)}`, low: `$${low24h.toFixed(decimals)}` })}
+  → ${tr.t('scenario.firstToBreak')}
+  📋 ${tr.t('scenario.reactToBreakout')}`}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-🧠 Zikalyze AI v11.0 • ${isLiveData ? '🟢 LIVE PRICE' : '⚪ CACHED PRICE'} • ${hasRealMultiTfData ? '📊 Real Charts' : '📊 Derived'}${hasRealOnChain ? ' • 🔗 Live On-Chain' : ''}
+🧠 Zikalyze AI v${BRAIN_VERSION} • ${provenance.price.kind === 'LIVE' ? `🟢 ${tr.t('report.livePrice')}` : `⚪ ${tr.t('report.cachedPrice')}`} • 📊 ${tr.t(hasRealMultiTfData ? 'report.realCharts' : 'report.derivedCharts')}${hasRealOnChain ? ` • 🔗 ${tr.t('report.liveOnChain')}` : ''} • ${tr.t(derivedCount === 1 ? 'report.estimatedInput' : 'report.estimatedInputs', { count: derivedCount })}${excludeDerivedInputs ? ` (${tr.t('report.excluded')})` : ''}
 `;
 
   return {
@@ -627,16 +928,76 @@ ${bias === 'SHORT' ? `📈 UPSIDE SCENARIO: If price reclaims $${(high24h - rang
     precisionEntry,
     institutionalVsRetail,
     scenarios,
-    timestamp: new Date().toISOString(),
+    tradePlan,
+    patterns,
+    provenance,
+    crossAsset,
+    keyLevels: { support: keySupport, resistance: keyResistance },
+    timeframes: {
+      trends: {
+        weekly: topDownAnalysis.weekly.trend,
+        daily: topDownAnalysis.daily.trend,
+        h4: topDownAnalysis.h4.trend,
+        h1: topDownAnalysis.h1.trend,
+        m15: topDownAnalysis.m15.trend,
+      },
+      overallBias: topDownAnalysis.overallBias,
+      confluence: topDownAnalysis.confluenceScore,
+    },
+    derivedInputsExcluded: excludeDerivedInputs,
+    ...(calibration ? {
+      calibration: {
+        method: calibration.method,
+        scope: calibration.scope,
+        sampleCount: calibration.sampleCount,
+        rawConfidence: uncalibratedConfidence,
+      },
+    } : {}),
+    attribution: {
+      factors,
+      bullishPoints,
+      bearishPoints,
+      fundamentalBias: rawBias,
+      fundamentalConfidence: rawConfidence,
+      technicalBias,
+      confidenceSteps,
+      neural: {
+        bias: neuralSignal.bias,
+        confidence: neuralSignal.confidence,
+        agreement: neuralSignal.ensembleAgreement,
+        changedBias: bias !== technicalBias,
+      },
+    },
+    locale: tr.locale,
+    direction: tr.direction,
+    timestamp: new Date(nowMs).toISOString(),
     source: 'client-side-wasm'
   };
 }
 
 // Export all modules for external use
 export * from './types';
+export * from './context';
+export * from './indicators';
+export * from './report-i18n';
+export { detectPatterns, analyzePatterns, scorePatterns, patternWeight, describePattern, type PatternCandle, type PatternScore } from './patterns';
 export { getUpcomingMacroCatalysts, getQuickMacroFlag } from './macro-catalysts';
+export { CATALYST_CATEGORIES, DEFAULT_LEAD_DAYS, CATALYST_SYMBOL_GROUPS, BUILT_IN_CATALYST_EVENTS, CATALYST_EXPORT_VERSION, leadDaysFor, isCatalystRelevant, catalystDate, normalizeCatalystEvent, parseCatalystJSON, serializeCatalystEvents, parseICS, mergeCatalystEvents, type CatalystImportDefaults } from './catalyst-calendar';
 export { detectVolumeSpike, getVolumeSpikeFlag } from './volume-analysis';
 export { analyzeInstitutionalVsRetail, generateIfThenScenarios } from './institutional-analysis';
-export { estimateOnChainMetrics, estimateETFFlowData } from './on-chain-estimator';
+export { DEFAULT_SCENARIO_HORIZON_HOURS, normalCdf, estimateScenarioVolatility, estimateScenarioProbability, type ScenarioVolatility, type ScenarioSpec } from './scenario-probability';
+export { estimateOnChainMetrics, estimateETFFlowData, estimateFearGreed } from './on-chain-estimator';
+export { LIVE_MAX_AGE_MS, liveProvenance, derivedProvenance, ageProvenance, isDerived, onChainFieldProvenance, formatAge, describeProvenance } from './provenance';
+export { MIN_CALIBRATION_SAMPLES, ISOTONIC_MIN_SAMPLES, fitPlatt, fitIsotonic, fitCalibrationModel, selectCalibrationModel, calibrateProbability, applyCalibration, buildReliabilityBins, expectedCalibrationError } from './calibration';
+export { VOLUME_SNAPSHOT_INTERVAL_MS, VOLUME_HISTORY_RETENTION_MS, appendVolumeSnapshot, mergeVolumeCandles, buildVolumeProfile, computeVolumeBaseline } from './volume-history';
+export { PRICE_HISTORY_RETENTION_MS, PRICE_SAMPLE_INTERVAL_MS, appendPriceSample, mergePriceCandles } from './price-history';
+export { CORRELATION_WINDOW_HOURS, computeCorrelation, classifyMarketRegime, analyzeCrossAsset, buildCorrelationTable, scoreCrossAsset, describeMarketRegime } from './cross-asset';
+export { scoreDerivatives, describeDerivatives, formatFundingRate } from './derivatives';
+export { snapshotAnalysis, legacySnapshot, diffAnalyses } from './analysis-diff';
+export { STRATEGY_RULE_TIMEFRAMES, STRATEGY_RULE_METRICS, compileStrategyRule, validateStrategyRule, evaluateStrategyRule, type CompiledStrategyRule } from './strategy-rules';
+export { ANALYSIS_EXPORT_SCHEMA, ANALYSIS_EXPORT_VERSION, ANALYSIS_EXPORT_FILE, ANALYSIS_CSV_COLUMNS, summarizeInputs, exportAnalysisResult, exportHistoryRecord, buildAnalysisExport, serializeAnalysisCSV, serializeAnalysisMarkdown, serializeAnalysisJSON, serializeAnalysisExport, type ExportableAnalysisRecord } from './analysis-export';
+export { OUTCOME_HORIZONS, HORIZON_MS, GRADING_INTERVALS, gradingPlanFor, gradeOutcome, outcomeLabel, type OutcomeCandle } from './outcome-grading';
 export { analyzeMarketStructure, generatePrecisionEntry, calculateFinalBias } from './technical-analysis';
-export { neuralEnsemblePredict, enhanceBiasWithNeuralEnsemble, analyzeSequence } from './neural-ensemble';
+export { buildTradePlan, sizePosition, blendedRewardRisk, resolveATR, DEFAULT_RISK_SETTINGS } from './trade-plan';
+export { neuralEnsemblePredict, enhanceBiasWithNeuralEnsemble, analyzeSequence, resetNeuralState, getNeuralState, createInitialNeuralState, type NeuralEnsembleState } from './neural-ensemble';
+export * from './neural-persistence';
@@ -0,0 +1,640 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 INDICATOR LIBRARY — Streaming MACD, Bollinger, ATR, StochRSI, Ichimoku,
+//    OBV, ADX and Supertrend behind a typed, pluggable registry
+// ═══════════════════════════════════════════════════════════════════════════════
+// Every indicator is a pure step function: (state, candle) → (state, value).
+// State is never mutated, so the same definition serves three callers:
+//   • update()  — commit a completed candle (O(1) per candle)
+//   • preview() — evaluate the forming candle on every tick without committing
+//   • series()  — replay a whole window for charts and backtests
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IndicatorCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📦 VALUE TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+  bandwidth: number; // (upper - lower) / middle, in %
+  percentB: number;  // 0 = lower band, 1 = upper band
+}
+
+export interface StochRSIValue {
+  rsi: number;
+  k: number; // 0-100
+  d: number; // 0-100
+}
+
+export interface IchimokuValue {
+  tenkan: number;
+  kijun: number;
+  senkouA: number; // Projected forward by `displacement` bars
+  senkouB: number;
+  cloudTop: number | null;    // Cloud under the current bar (projected from the past)
+  cloudBottom: number | null;
+}
+
+export interface OBVValue {
+  obv: number;
+  signal: number; // EMA of OBV
+}
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface SupertrendValue {
+  value: number; // Active trailing line
+  direction: 'UP' | 'DOWN';
+  upperBand: number;
+  lowerBand: number;
+}
+
+export interface IndicatorValueMap {
+  macd: MACDValue;
+  bollinger: BollingerValue;
+  atr: number;
+  stochRsi: StochRSIValue;
+  ichimoku: IchimokuValue;
+  obv: OBVValue;
+  adx: ADXValue;
+  supertrend: SupertrendValue;
+}
+
+export type IndicatorId = keyof IndicatorValueMap;
+
+// Latest value per built-in indicator — null while still warming up
+export type IndicatorSnapshot = { [K in IndicatorId]: IndicatorValueMap[K] | null };
+
+export type IndicatorParams = Record<string, number>;
+
+export interface IndicatorDefinition<TState = unknown, TValue = unknown> {
+  id: string;
+  name: string;
+  category: 'trend' | 'momentum' | 'volatility' | 'volume';
+  overlay: boolean; // Drawn on the price axis (true) or in its own pane (false)
+  defaults: IndicatorParams;
+  warmup(params: IndicatorParams): number; // Candles needed before the first value
+  init(params: IndicatorParams): TState;
+  step(state: TState, candle: IndicatorCandle, params: IndicatorParams): { state: TState; value: TValue | null };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧮 STEP PRIMITIVES — Immutable running averages
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface RunningAverage {
+  count: number;
+  sum: number;          // Seed sum until `period` samples are in
+  value: number | null;
+}
+
+const emptyAverage = (): RunningAverage => ({ count: 0, sum: 0, value: null });
+
+// EMA seeded with the SMA of the first `period` samples
+function emaStep(s: RunningAverage, x: number, period: number): RunningAverage {
+  if (s.value !== null) {
+    const k = 2 / (period + 1);
+    return { count: s.count + 1, sum: s.sum, value: x * k + s.value * (1 - k) };
+  }
+  const sum = s.sum + x;
+  const count = s.count + 1;
+  return { count, sum, value: count >= period ? sum / period : null };
+}
+
+// Wilder's smoothing (RMA) — used by RSI, ATR and ADX
+function wilderStep(s: RunningAverage, x: number, period: number): RunningAverage {
+  if (s.value !== null) {
+    return { count: s.count + 1, sum: s.sum, value: (s.value * (period - 1) + x) / period };
+  }
+  const sum = s.sum + x;
+  const count = s.count + 1;
+  return { count, sum, value: count >= period ? sum / period : null };
+}
+
+// Fixed-length trailing window
+function pushWindow(window: number[], x: number, size: number): number[] {
+  const next = window.length >= size ? window.slice(window.length - size + 1) : window.slice();
+  next.push(x);
+  return next;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+interface RSIState {
+  prevClose: number | null;
+  gain: RunningAverage;
+  loss: RunningAverage;
+}
+
+function rsiStep(s: RSIState, close: number, period: number): { state: RSIState; value: number | null } {
+  if (s.prevClose === null) {
+    return { state: { ...s, prevClose: close }, value: null };
+  }
+  const diff = close - s.prevClose;
+  const gain = wilderStep(s.gain, Math.max(0, diff), period);
+  const loss = wilderStep(s.loss, Math.max(0, -diff), period);
+  const state = { prevClose: close, gain, loss };
+  if (gain.value === null || loss.value === null) return { state, value: null };
+  if (loss.value === 0) return { state, value: gain.value === 0 ? 50 : 100 };
+  return { state, value: 100 - 100 / (1 + gain.value / loss.value) };
+}
+
+interface ATRState {
+  prevClose: number | null;
+  tr: RunningAverage;
+}
+
+function trueRange(candle: IndicatorCandle, prevClose: number | null): number {
+  if (prevClose === null) return candle.high - candle.low;
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - prevClose),
+    Math.abs(candle.low - prevClose)
+  );
+}
+
+function atrStep(s: ATRState, candle: IndicatorCandle, period: number): { state: ATRState; value: number | null } {
+  const tr = wilderStep(s.tr, trueRange(candle, s.prevClose), period);
+  return { state: { prevClose: candle.close, tr }, value: tr.value };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📈 BUILT-IN DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const macd: IndicatorDefinition<{ fast: RunningAverage; slow: RunningAverage; signal: RunningAverage }, MACDValue> = {
+  id: 'macd',
+  name: 'MACD',
+  category: 'momentum',
+  overlay: false,
+  defaults: { fast: 12, slow: 26, signal: 9 },
+  warmup: (p) => p.slow + p.signal - 1,
+  init: () => ({ fast: emptyAverage(), slow: emptyAverage(), signal: emptyAverage() }),
+  step: (s, candle, p) => {
+    const fast = emaStep(s.fast, candle.close, p.fast);
+    const slow = emaStep(s.slow, candle.close, p.slow);
+    if (fast.value === null || slow.value === null) {
+      return { state: { ...s, fast, slow }, value: null };
+    }
+    const line = fast.value - slow.value;
+    const signal = emaStep(s.signal, line, p.signal);
+    const state = { fast, slow, signal };
+    if (signal.value === null) return { state, value: null };
+    return { state, value: { macd: line, signal: signal.value, histogram: line - signal.value } };
+  },
+};
+
+const bollinger: IndicatorDefinition<{ closes: number[] }, BollingerValue> = {
+  id: 'bollinger',
+  name: 'Bollinger Bands',
+  category: 'volatility',
+  overlay: true,
+  defaults: { period: 20, stdDev: 2 },
+  warmup: (p) => p.period,
+  init: () => ({ closes: [] }),
+  step: (s, candle, p) => {
+    const closes = pushWindow(s.closes, candle.close, p.period);
+    if (closes.length < p.period) return { state: { closes }, value: null };
+    const middle = mean(closes);
+    const sd = Math.sqrt(mean(closes.map(c => (c - middle) ** 2)));
+    const upper = middle + p.stdDev * sd;
+    const lower = middle - p.stdDev * sd;
+    return {
+      state: { closes },
+      value: {
+        middle,
+        upper,
+        lower,
+        bandwidth: middle !== 0 ? ((upper - lower) / middle) * 100 : 0,
+        percentB: upper !== lower ? (candle.close - lower) / (upper - lower) : 0.5,
+      },
+    };
+  },
+};
+
+const atr: IndicatorDefinition<ATRState, number> = {
+  id: 'atr',
+  name: 'Average True Range',
+  category: 'volatility',
+  overlay: false,
+  defaults: { period: 14 },
+  warmup: (p) => p.period,
+  init: () => ({ prevClose: null, tr: emptyAverage() }),
+  step: (s, candle, p) => atrStep(s, candle, p.period),
+};
+
+const stochRsi: IndicatorDefinition<{ rsi: RSIState; rsiWindow: number[]; kWindow: number[]; dWindow: number[] }, StochRSIValue> = {
+  id: 'stochRsi',
+  name: 'Stochastic RSI',
+  category: 'momentum',
+  overlay: false,
+  defaults: { rsiPeriod: 14, stochPeriod: 14, kSmooth: 3, dSmooth: 3 },
+  warmup: (p) => p.rsiPeriod + p.stochPeriod + p.kSmooth + p.dSmooth - 2,
+  init: () => ({ rsi: { prevClose: null, gain: emptyAverage(), loss: emptyAverage() }, rsiWindow: [], kWindow: [], dWindow: [] }),
+  step: (s, candle, p) => {
+    const { state: rsiState, value: rsi } = rsiStep(s.rsi, candle.close, p.rsiPeriod);
+    if (rsi === null) return { state: { ...s, rsi: rsiState }, value: null };
+
+    const rsiWindow = pushWindow(s.rsiWindow, rsi, p.stochPeriod);
+    if (rsiWindow.length < p.stochPeriod) return { state: { ...s, rsi: rsiState, rsiWindow }, value: null };
+
+    const lo = Math.min(...rsiWindow);
+    const hi = Math.max(...rsiWindow);
+    const stoch = hi !== lo ? ((rsi - lo) / (hi - lo)) * 100 : 50;
+    const kWindow = pushWindow(s.kWindow, stoch, p.kSmooth);
+    if (kWindow.length < p.kSmooth) return { state: { ...s, rsi: rsiState, rsiWindow, kWindow }, value: null };
+
+    const k = mean(kWindow);
+    const dWindow = pushWindow(s.dWindow, k, p.dSmooth);
+    const state = { rsi: rsiState, rsiWindow, kWindow, dWindow };
+    if (dWindow.length < p.dSmooth) return { state, value: null };
+    return { state, value: { rsi, k, d: mean(dWindow) } };
+  },
+};
+
+const ichimoku: IndicatorDefinition<{ highs: number[]; lows: number[]; spans: Array<[number, number]> }, IchimokuValue> = {
+  id: 'ichimoku',
+  name: 'Ichimoku Cloud',
+  category: 'trend',
+  overlay: true,
+  defaults: { conversion: 9, base: 26, spanB: 52, displacement: 26 },
+  warmup: (p) => p.spanB,
+  init: () => ({ highs: [], lows: [], spans: [] }),
+  step: (s, candle, p) => {
+    const highs = pushWindow(s.highs, candle.high, p.spanB);
+    const lows = pushWindow(s.lows, candle.low, p.spanB);
+    if (highs.length < p.spanB) return { state: { ...s, highs, lows }, value: null };
+
+    const midpoint = (n: number) =>
+      (Math.max(...highs.slice(-n)) + Math.min(...lows.slice(-n))) / 2;
+    const tenkan = midpoint(p.conversion);
+    const kijun = midpoint(p.base);
+    const senkouA = (tenkan + kijun) / 2;
+    const senkouB = midpoint(p.spanB);
+
+    // Keep displacement + 1 spans: the oldest one is the cloud under this bar
+    const spans = [...s.spans, [senkouA, senkouB] as [number, number]].slice(-(p.displacement + 1));
+    const projected = spans.length > p.displacement ? spans[0] : null;
+
+    return {
+      state: { highs, lows, spans },
+      value: {
+        tenkan,
+        kijun,
+        senkouA,
+        senkouB,
+        cloudTop: projected ? Math.max(projected[0], projected[1]) : null,
+        cloudBottom: projected ? Math.min(projected[0], projected[1]) : null,
+      },
+    };
+  },
+};
+
+const obv: IndicatorDefinition<{ prevClose: number | null; obv: number; signal: RunningAverage }, OBVValue> = {
+  id: 'obv',
+  name: 'On-Balance Volume',
+  category: 'volume',
+  overlay: false,
+  defaults: { signal: 20 },
+  warmup: (p) => p.signal,
+  init: () => ({ prevClose: null, obv: 0, signal: emptyAverage() }),
+  step: (s, candle, p) => {
+    const direction = s.prevClose === null ? 0 : Math.sign(candle.close - s.prevClose);
+    const total = s.obv + direction * candle.volume;
+    const signal = emaStep(s.signal, total, p.signal);
+    const state = { prevClose: candle.close, obv: total, signal };
+    return { state, value: signal.value === null ? null : { obv: total, signal: signal.value } };
+  },
+};
+
+interface ADXState {
+  prev: IndicatorCandle | null;
+  tr: RunningAverage;
+  plusDM: RunningAverage;
+  minusDM: RunningAverage;
+  dx: RunningAverage;
+}
+
+const adx: IndicatorDefinition<ADXState, ADXValue> = {
+  id: 'adx',
+  name: 'Average Directional Index',
+  category: 'trend',
+  overlay: false,
+  defaults: { period: 14 },
+  warmup: (p) => p.period * 2,
+  init: () => ({ prev: null, tr: emptyAverage(), plusDM: emptyAverage(), minusDM: emptyAverage(), dx: emptyAverage() }),
+  step: (s, candle, p) => {
+    if (!s.prev) return { state: { ...s, prev: candle }, value: null };
+
+    const up = candle.high - s.prev.high;
+    const down = s.prev.low - candle.low;
+    const tr = wilderStep(s.tr, trueRange(candle, s.prev.close), p.period);
+    const plusDM = wilderStep(s.plusDM, up > down && up > 0 ? up : 0, p.period);
+    const minusDM = wilderStep(s.minusDM, down > up && down > 0 ? down : 0, p.period);
+
+    if (tr.value === null || plusDM.value === null || minusDM.value === null) {
+      return { state: { ...s, prev: candle, tr, plusDM, minusDM }, value: null };
+    }
+
+    const plusDI = tr.value > 0 ? (plusDM.value / tr.value) * 100 : 0;
+    const minusDI = tr.value > 0 ? (minusDM.value / tr.value) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const dx = wilderStep(s.dx, diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0, p.period);
+    const state = { prev: candle, tr, plusDM, minusDM, dx };
+
+    return { state, value: dx.value === null ? null : { adx: dx.value, plusDI, minusDI } };
+  },
+};
+
+interface SupertrendState {
+  atr: ATRState;
+  prevClose: number | null;
+  upper: number | null;
+  lower: number | null;
+  direction: 'UP' | 'DOWN';
+}
+
+const supertrend: IndicatorDefinition<SupertrendState, SupertrendValue> = {
+  id: 'supertrend',
+  name: 'Supertrend',
+  category: 'trend',
+  overlay: true,
+  defaults: { period: 10, multiplier: 3 },
+  warmup: (p) => p.period,
+  init: () => ({ atr: { prevClose: null, tr: emptyAverage() }, prevClose: null, upper: null, lower: null, direction: 'UP' }),
+  step: (s, candle, p) => {
+    const { state: atrState, value: atrValue } = atrStep(s.atr, candle, p.period);
+    if (atrValue === null) {
+      return { state: { ...s, atr: atrState, prevClose: candle.close }, value: null };
+    }
+
+    const hl2 = (candle.high + candle.low) / 2;
+    const basicUpper = hl2 + p.multiplier * atrValue;
+    const basicLower = hl2 - p.multiplier * atrValue;
+
+    // Bands only ratchet towards price unless the previous close broke through them
+    const upper = s.upper === null || basicUpper < s.upper || (s.prevClose !== null && s.prevClose > s.upper)
+      ? basicUpper : s.upper;
+    const lower = s.lower === null || basicLower > s.lower || (s.prevClose !== null && s.prevClose < s.lower)
+      ? basicLower : s.lower;
+
+    let direction = s.direction;
+    if (s.upper === null) {
+      direction = candle.close >= hl2 ? 'UP' : 'DOWN';
+    } else if (direction === 'UP' && candle.close < lower) {
+      direction = 'DOWN';
+    } else if (direction === 'DOWN' && candle.close > upper) {
+      direction = 'UP';
+    }
+
+    return {
+      state: { atr: atrState, prevClose: candle.close, upper, lower, direction },
+      value: { value: direction === 'UP' ? lower : upper, direction, upperBand: upper, lowerBand: lower },
+    };
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗂️ REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// State and value types are only known per definition; createIndicator keeps them opaque
+type AnyIndicatorDefinition = IndicatorDefinition<unknown, unknown>;
+
+export const BUILT_IN_INDICATORS: IndicatorId[] = ['macd', 'bollinger', 'atr', 'stochRsi', 'ichimoku', 'obv', 'adx', 'supertrend'];
+
+const registry = new Map<string, AnyIndicatorDefinition>(
+  [macd, bollinger, atr, stochRsi, ichimoku, obv, adx, supertrend].map((def): [string, AnyIndicatorDefinition] => [def.id, def])
+);
+
+// Plug in a custom indicator (or replace a built-in one) — takes effect for new instances
+export function registerIndicator<TState, TValue>(definition: IndicatorDefinition<TState, TValue>): void {
+  registry.set(definition.id, definition);
+}
+
+export function getIndicatorDefinition(id: string): AnyIndicatorDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listIndicators(): AnyIndicatorDefinition[] {
+  return Array.from(registry.values());
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⚡ STREAMING INSTANCES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface StreamingIndicator<TValue> {
+  readonly id: string;
+  readonly params: IndicatorParams;
+  update(candle: IndicatorCandle): TValue | null;  // Commit a completed candle
+  preview(candle: IndicatorCandle): TValue | null; // Evaluate the forming candle, no commit
+  value(): TValue | null;                          // Last committed value
+  count(): number;                                 // Candles committed so far
+  reset(): void;
+}
+
+export function createIndicator<K extends IndicatorId>(id: K, params?: Partial<IndicatorParams>): StreamingIndicator<IndicatorValueMap[K]>;
+export function createIndicator<TValue = unknown>(id: string, params?: Partial<IndicatorParams>): StreamingIndicator<TValue>;
+export function createIndicator(id: string, overrides: Partial<IndicatorParams> = {}): StreamingIndicator<unknown> {
+  const definition = registry.get(id);
+  if (!definition) {
+    throw new Error(`Unknown indicator "${id}"`);
+  }
+
+  const params = { ...definition.defaults, ...overrides } as IndicatorParams;
+  let state = definition.init(params);
+  let last: unknown = null;
+  let committed = 0;
+
+  return {
+    id,
+    params,
+    update: (candle) => {
+      const next = definition.step(state, candle, params);
+      state = next.state;
+      last = next.value;
+      committed++;
+      return last;
+    },
+    preview: (candle) => definition.step(state, candle, params).value,
+    value: () => last,
+    count: () => committed,
+    reset: () => {
+      state = definition.init(params);
+      last = null;
+      committed = 0;
+    },
+  };
+}
+
+// Replay a whole window — one value per candle, null during warm-up
+export function computeIndicatorSeries<K extends IndicatorId>(id: K, candles: IndicatorCandle[], params?: Partial<IndicatorParams>): Array<IndicatorValueMap[K] | null>;
+export function computeIndicatorSeries(id: string, candles: IndicatorCandle[], params?: Partial<IndicatorParams>): unknown[];
+export function computeIndicatorSeries(id: string, candles: IndicatorCandle[], params: Partial<IndicatorParams> = {}): unknown[] {
+  const indicator = createIndicator(id, params);
+  return candles.map(candle => indicator.update(candle));
+}
+
+export const emptyIndicatorSnapshot = (): IndicatorSnapshot => ({
+  macd: null, bollinger: null, atr: null, stochRsi: null,
+  ichimoku: null, obv: null, adx: null, supertrend: null,
+});
+
+export function computeIndicatorSnapshot(candles: IndicatorCandle[]): IndicatorSnapshot {
+  const snapshot = emptyIndicatorSnapshot();
+  for (const id of BUILT_IN_INDICATORS) {
+    const series = computeIndicatorSeries(id, candles);
+    (snapshot as Record<IndicatorId, unknown>)[id] = series.length > 0 ? series[series.length - 1] : null;
+  }
+  return snapshot;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔄 TRACKER — Keeps a set of indicators in sync with a live candle feed
+// ═══════════════════════════════════════════════════════════════════════════════
+// Feed it the completed candles plus the forming one on every tick. Only
+// candles newer than the last committed timestamp are stepped; if the history
+// is replaced (symbol or interval switch) the tracker replays from scratch.
+
+export interface IndicatorPoint {
+  timestamp: number;
+  values: IndicatorSnapshot;
+}
+
+export interface IndicatorTracker {
+  sync(completed: IndicatorCandle[], current?: IndicatorCandle | null): IndicatorSnapshot;
+  snapshot(): IndicatorSnapshot;
+  history(): IndicatorPoint[]; // Copy of the committed values per candle, oldest first
+  reset(): void;
+}
+
+export function createIndicatorTracker(maxHistory: number = 500): IndicatorTracker {
+  const instances = BUILT_IN_INDICATORS.map(id => createIndicator(id));
+  let points: IndicatorPoint[] = [];
+  let lastTimestamp: number | null = null;
+  let latest = emptyIndicatorSnapshot();
+
+  const collect = (pick: (indicator: StreamingIndicator<unknown>) => unknown): IndicatorSnapshot => {
+    const snapshot = emptyIndicatorSnapshot();
+    instances.forEach(indicator => {
+      (snapshot as Record<string, unknown>)[indicator.id] = pick(indicator);
+    });
+    return snapshot;
+  };
+
+  const reset = () => {
+    instances.forEach(indicator => indicator.reset());
+    points = [];
+    lastTimestamp = null;
+    latest = emptyIndicatorSnapshot();
+  };
+
+  const commit = (candle: IndicatorCandle) => {
+    points.push({ timestamp: candle.timestamp, values: collect(indicator => indicator.update(candle)) });
+    lastTimestamp = candle.timestamp;
+  };
+
+  return {
+    sync: (completed, current) => {
+      let start = 0;
+      if (lastTimestamp !== null) {
+        let index = -1;
+        for (let i = completed.length - 1; i >= 0; i--) {
+          if (completed[i].timestamp === lastTimestamp) { index = i; break; }
+          if (completed[i].timestamp < lastTimestamp) break;
+        }
+        if (index === -1) reset();
+        else start = index + 1;
+      }
+
+      for (let i = start; i < completed.length; i++) commit(completed[i]);
+      if (points.length > maxHistory) points = points.slice(points.length - maxHistory);
+
+      latest = current && (lastTimestamp === null || current.timestamp > lastTimestamp)
+        ? collect(indicator => indicator.preview(current) ?? indicator.value())
+        : collect(indicator => indicator.value());
+      return latest;
+    },
+    snapshot: () => latest,
+    history: () => [...points],
+    reset,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧭 INTERPRETATION — Snapshot → directional votes for the brain
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IndicatorSignals {
+  bullish: string[];
+  bearish: string[];
+  trendStrength: 'STRONG' | 'DEVELOPING' | 'WEAK' | null; // From ADX
+  volatilityPercent: number | null; // ATR as % of price
+  squeeze: boolean; // Bollinger bandwidth unusually tight
+}
+
+export function interpretIndicators(snapshot: IndicatorSnapshot, price: number): IndicatorSignals {
+  const bullish: string[] = [];
+  const bearish: string[] = [];
+
+  if (snapshot.macd) {
+    if (snapshot.macd.histogram > 0) bullish.push('MACD');
+    else if (snapshot.macd.histogram < 0) bearish.push('MACD');
+  }
+
+  if (snapshot.supertrend) {
+    (snapshot.supertrend.direction === 'UP' ? bullish : bearish).push('Supertrend');
+  }
+
+  if (snapshot.ichimoku?.cloudTop != null && snapshot.ichimoku.cloudBottom != null) {
+    if (price > snapshot.ichimoku.cloudTop) bullish.push('Ichimoku');
+    else if (price < snapshot.ichimoku.cloudBottom) bearish.push('Ichimoku');
+  }
+
+  if (snapshot.stochRsi) {
+    const { k, d } = snapshot.stochRsi;
+    if (k < 20 && k > d) bullish.push('StochRSI');
+    else if (k > 80 && k < d) bearish.push('StochRSI');
+  }
+
+  if (snapshot.obv) {
+    if (snapshot.obv.obv > snapshot.obv.signal) bullish.push('OBV');
+    else if (snapshot.obv.obv < snapshot.obv.signal) bearish.push('OBV');
+  }
+
+  let trendStrength: IndicatorSignals['trendStrength'] = null;
+  if (snapshot.adx) {
+    const { adx: value, plusDI, minusDI } = snapshot.adx;
+    trendStrength = value >= 25 ? 'STRONG' : value >= 20 ? 'DEVELOPING' : 'WEAK';
+    if (value >= 20) (plusDI > minusDI ? bullish : bearish).push('ADX');
+  }
+
+  return {
+    bullish,
+    bearish,
+    trendStrength,
+    volatilityPercent: snapshot.atr !== null && price > 0 ? (snapshot.atr / price) * 100 : null,
+    squeeze: snapshot.bollinger !== null && snapshot.bollinger.bandwidth < 2,
+  };
+}
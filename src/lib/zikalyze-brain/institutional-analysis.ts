@@ -2,7 +2,17 @@
 // 💼 INSTITUTIONAL VS RETAIL ANALYSIS ENGINE
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { InstitutionalVsRetail, ETFFlowData, OnChainMetrics, IfThenScenario } from './types';
+import { InstitutionalVsRetail, ETFFlowData, OnChainMetrics, IfThenScenario, ScenarioCandle, OrderBookInput, DerivativesInput } from './types';
+import { DEFAULT_SCENARIO_HORIZON_HOURS, estimateScenarioProbability, estimateScenarioVolatility } from './scenario-probability';
+import { resolveATR } from './trade-plan';
+import { englishReport, ReportTranslator } from './report-i18n';
+
+// Book imbalance (±2% of mid) that counts as one-sided
+const ORDER_BOOK_IMBALANCE = 0.2;
+// Walls this close to mid are treated as defended levels
+const ORDER_BOOK_WALL_PERCENT = 1;
+// Per-8h funding above this leans long even short of an extreme (balanced is 0.01%)
+const FUNDING_LONG_LEAN_8H = 0.0002;
 
 export function analyzeInstitutionalVsRetail(data: {
   etfFlow: ETFFlowData | null;
@@ -11,8 +21,10 @@ export function analyzeInstitutionalVsRetail(data: {
   fearGreed: number;
   price: number;
   change: number;
-}): InstitutionalVsRetail {
-  const { etfFlow, onChain, socialSentiment, fearGreed, change } = data;
+  orderBook?: OrderBookInput; // Live depth — resting size is large-order intent
+  derivatives?: DerivativesInput; // Perpetual funding — where leveraged traders actually sit
+}, tr: ReportTranslator = englishReport): InstitutionalVsRetail {
+  const { etfFlow, onChain, socialSentiment, fearGreed, change, orderBook, derivatives } = data;
 
   // Institutional signals (ETF flows, whale activity, exchange outflows)
   let instBullSignals = 0;
@@ -34,6 +46,16 @@ export function analyzeInstitutionalVsRetail(data: {
   if (onChain.longTermHolders.accumulating) instBullSignals += 1;
   else instBearSignals += 1;
 
+  if (orderBook) {
+    if (orderBook.imbalance >= ORDER_BOOK_IMBALANCE) instBullSignals += 1;
+    else if (orderBook.imbalance <= -ORDER_BOOK_IMBALANCE) instBearSignals += 1;
+
+    const wallNear = (side: 'BID' | 'ASK') =>
+      orderBook.walls.some(w => w.side === side && w.distancePercent <= ORDER_BOOK_WALL_PERCENT);
+    if (wallNear('BID') && !wallNear('ASK')) instBullSignals += 1;
+    else if (wallNear('ASK') && !wallNear('BID')) instBearSignals += 1;
+  }
+
   // Retail signals (social sentiment, Fear & Greed)
   let retailBullSignals = 0;
   let retailBearSignals = 0;
@@ -44,8 +66,19 @@ export function analyzeInstitutionalVsRetail(data: {
   if (fearGreed > 60) retailBullSignals += 1;
   else if (fearGreed < 40) retailBearSignals += 1;
 
-  if (change > 3) retailBullSignals += 1;
-  else if (change < -3) retailBearSignals += 1;
+  // Funding measures retail positioning; without it, a big move is the proxy
+  if (derivatives) {
+    const { funding } = derivatives;
+    const rate8h = funding.rate * (8 / funding.intervalHours);
+    if (funding.extreme === 'CROWDED_LONG') retailBullSignals += 2;
+    else if (funding.extreme === 'CROWDED_SHORT') retailBearSignals += 2;
+    else if (rate8h >= FUNDING_LONG_LEAN_8H) retailBullSignals += 1;
+    else if (rate8h < 0) retailBearSignals += 1;
+  } else if (change > 3) {
+    retailBullSignals += 1;
+  } else if (change < -3) {
+    retailBearSignals += 1;
+  }
 
   const institutionalBias: 'BULLISH' | 'BEARISH' | 'NEUTRAL' =
     instBullSignals > instBearSignals + 1 ? 'BULLISH' :
@@ -63,12 +96,12 @@ export function analyzeInstitutionalVsRetail(data: {
   let divergenceNote = '';
   if (divergence) {
     if (institutionalBias === 'BULLISH' && retailBias === 'BEARISH') {
-      divergenceNote = 'Smart money accumulating while retail panics — historically bullish';
+      divergenceNote = tr.t('insight.smartMoneyAccumulating');
     } else if (institutionalBias === 'BEARISH' && retailBias === 'BULLISH') {
-      divergenceNote = 'Institutions distributing to retail FOMO — caution advised';
+      divergenceNote = tr.t('insight.institutionsDistributing');
     }
   } else if (institutionalBias === retailBias && institutionalBias !== 'NEUTRAL') {
-    divergenceNote = `Aligned ${institutionalBias.toLowerCase()} sentiment across all participants — strong conviction`;
+    divergenceNote = tr.t(institutionalBias === 'BULLISH' ? 'insight.alignedBullish' : 'insight.alignedBearish');
   }
 
   return {
@@ -88,53 +121,125 @@ export function generateIfThenScenarios(data: {
   bias: string;
   keySupport: number;
   keyResistance: number;
-}): IfThenScenario[] {
-  const { price, bias, keySupport, keyResistance } = data;
+  atr?: number;                                   // 1h ATR — estimated from the range if absent
+  horizonHours?: number;                          // Time bound for every condition (default 24h)
+  candles?: ScenarioCandle[];                     // Past candles for touch/break statistics
+  extraLevels?: { price: number; label: string }[]; // Levels beyond support/resistance worth a scenario
+}, tr: ReportTranslator = englishReport): IfThenScenario[] {
+  const { price, high, low, bias, keySupport, keyResistance } = data;
+  const horizonHours = data.horizonHours ?? DEFAULT_SCENARIO_HORIZON_HOURS;
+  const atr = data.atr && data.atr > 0 ? data.atr : resolveATR(high, low).atr;
+  const volatility = estimateScenarioVolatility(data.candles, high, low);
+  const usd = (p: number) => `$${p.toFixed(2)}`;
   const scenarios: IfThenScenario[] = [];
 
+  const add = (
+    scenario: Omit<IfThenScenario, 'probability' | 'horizonHours' | 'levels' | 'probabilityBasis'>,
+    levels: number[]
+  ) => {
+    const { probability, basis } = estimateScenarioProbability({
+      kind: scenario.kind,
+      price,
+      level: scenario.priceLevel,
+      direction: scenario.direction,
+      rangeLow: levels[0],
+      rangeHigh: levels[levels.length - 1],
+      horizonHours,
+    }, volatility, atr, data.candles, tr);
+    scenarios.push({ ...scenario, probability, horizonHours, levels, probabilityBasis: basis });
+  };
+
   if (bias === 'LONG' || bias === 'NEUTRAL') {
-    scenarios.push({
-      condition: `IF price closes below $${keySupport.toFixed(2)}`,
+    add({
+      condition: tr.t('scenario.closeBelow', { price: usd(keySupport), hours: horizonHours }),
       priceLevel: keySupport,
-      outcome: 'Bull case INVALIDATED — structure broken',
-      probability: 25,
-      action: 'EXIT longs, reassess for short entry on retest'
-    });
-
-    scenarios.push({
-      condition: `IF price sustains above $${(keyResistance * 1.01).toFixed(2)}`,
+      outcome: tr.t('scenario.bullInvalidated'),
+      action: tr.t('scenario.exitLongs'),
+      kind: 'CLOSE_BEYOND',
+      direction: 'BELOW',
+    }, [keySupport]);
+
+    add({
+      condition: tr.t('scenario.sustainAbove', { price: usd(keyResistance * 1.01), hours: horizonHours }),
       priceLevel: keyResistance * 1.01,
-      outcome: 'Bull breakout CONFIRMED — new support established',
-      probability: 40,
-      action: 'ADD to longs on successful retest of broken resistance'
-    });
+      outcome: tr.t('scenario.bullBreakout'),
+      action: tr.t('scenario.addLongs'),
+      kind: 'HOLD_BEYOND',
+      direction: 'ABOVE',
+    }, [keyResistance * 1.01]);
   }
 
   if (bias === 'SHORT' || bias === 'NEUTRAL') {
-    scenarios.push({
-      condition: `IF price closes above $${keyResistance.toFixed(2)}`,
+    add({
+      condition: tr.t('scenario.closeAbove', { price: usd(keyResistance), hours: horizonHours }),
       priceLevel: keyResistance,
-      outcome: 'Bear case INVALIDATED — reclaim of structure',
-      probability: 25,
-      action: 'EXIT shorts, reassess for long entry on confirmation'
-    });
-
-    scenarios.push({
-      condition: `IF price breaks below $${(keySupport * 0.99).toFixed(2)}`,
+      outcome: tr.t('scenario.bearInvalidated'),
+      action: tr.t('scenario.exitShorts'),
+      kind: 'CLOSE_BEYOND',
+      direction: 'ABOVE',
+    }, [keyResistance]);
+
+    add({
+      condition: tr.t('scenario.holdBelow', { price: usd(keySupport * 0.99), hours: horizonHours }),
       priceLevel: keySupport * 0.99,
-      outcome: 'Bear breakdown CONFIRMED — accelerated selling expected',
-      probability: 35,
-      action: 'ADD to shorts on failed bounce attempt'
-    });
+      outcome: tr.t('scenario.bearBreakdown'),
+      action: tr.t('scenario.addShorts'),
+      kind: 'HOLD_BEYOND',
+      direction: 'BELOW',
+    }, [keySupport * 0.99]);
+  }
+
+  if (keySupport < price && price < keyResistance) {
+    add({
+      condition: tr.t('scenario.range', { low: usd(keySupport), high: usd(keyResistance), hours: horizonHours }),
+      priceLevel: price,
+      outcome: tr.t('scenario.consolidation'),
+      action: tr.t('scenario.tradeRange'),
+      kind: 'RANGE',
+    }, [keySupport, keyResistance]);
   }
 
-  scenarios.push({
-    condition: `IF price stays between $${keySupport.toFixed(2)} - $${keyResistance.toFixed(2)}`,
-    priceLevel: price,
-    outcome: 'CONSOLIDATION continues — wait for resolution',
-    probability: 35,
-    action: 'Trade range extremes only, wait for breakout with volume'
-  });
+  // Extension levels — beyond the key levels, at least a quarter ATR apart, two per side
+  const taken = [keySupport, keyResistance];
+  const pickSide = (above: boolean) => (data.extraLevels ?? [])
+    .filter(l => l.price > 0 && (above ? l.price > keyResistance : l.price < keySupport))
+    .sort((a, b) => (above ? a.price - b.price : b.price - a.price))
+    .filter(l => {
+      if (taken.some(t => Math.abs(t - l.price) < atr * 0.25)) return false;
+      taken.push(l.price);
+      return true;
+    })
+    .slice(0, 2);
+
+  for (const level of pickSide(true)) {
+    add({
+      condition: tr.t('scenario.closeAboveLevel', { price: usd(level.price), level: level.label, hours: horizonHours }),
+      priceLevel: level.price,
+      outcome: tr.t('scenario.upsideExtension'),
+      action: tr.t(bias === 'LONG'
+        ? 'scenario.takeProfitLong'
+        : bias === 'SHORT'
+          ? 'scenario.flatSqueeze'
+          : 'scenario.followBreakout'),
+      kind: 'CLOSE_BEYOND',
+      direction: 'ABOVE',
+    }, [level.price]);
+  }
+
+  for (const level of pickSide(false)) {
+    add({
+      condition: tr.t('scenario.closeBelowLevel', { price: usd(level.price), level: level.label, hours: horizonHours }),
+      priceLevel: level.price,
+      outcome: tr.t('scenario.downsideExtension'),
+      action: tr.t(bias === 'SHORT'
+        ? 'scenario.takeProfitShort'
+        : bias === 'LONG'
+          ? 'scenario.flatNoBase'
+          : 'scenario.followBreakdown'),
+      kind: 'CLOSE_BEYOND',
+      direction: 'BELOW',
+    }, [level.price]);
+  }
 
   return scenarios;
 }
@@ -1,8 +1,13 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📅 MACRO CATALYST ENGINE — Real Calendar-Based Event Tracking
 // ═══════════════════════════════════════════════════════════════════════════════
+// Dated events come from the catalyst calendar (catalyst-calendar.ts); weekly
+// claims and options expiry are computed here from the date itself.
+// ═══════════════════════════════════════════════════════════════════════════════
 
-import { MacroCatalyst } from './types';
+import { CatalystEvent, MacroCatalyst } from './types';
+import { BUILT_IN_CATALYST_EVENTS, catalystDate, isCatalystRelevant, leadDaysFor } from './catalyst-calendar';
+import { englishReport, ReportMessageKey, ReportTranslator } from './report-i18n';
 
 // Helper: calculate accurate days until a date
 const getDaysUntil = (now: Date, targetDate: Date): number => {
@@ -12,12 +17,24 @@ const getDaysUntil = (now: Date, targetDate: Date): number => {
 };
 
 // Helper: format days for display
-const formatDays = (days: number): string => {
-  if (days === 0) return 'TODAY';
-  if (days === 1) return 'Tomorrow';
-  return `In ${days} days`;
+const formatDays = (days: number, tr: ReportTranslator): string => {
+  if (days === 0) return tr.t('macro.today');
+  if (days === 1) return tr.t('macro.tomorrow');
+  return tr.t('macro.inDays', { days });
 };
 
+// Seeded FOMC/CPI events carry English copy — translate them unless the user edited it
+const BUILT_IN_COPY: { prefix: string; title: ReportMessageKey; note: ReportMessageKey }[] = [
+  { prefix: 'builtin-fomc-', title: 'macro.fomc', note: 'macro.fomcNote' },
+  { prefix: 'builtin-cpi-', title: 'macro.cpi', note: 'macro.cpiNote' },
+];
+
+function localizedCopy(event: CatalystEvent, tr: ReportTranslator): { title: string; description: string } {
+  const copy = event.source === 'built-in' ? BUILT_IN_COPY.find(c => event.id.startsWith(c.prefix)) : undefined;
+  if (!copy || event.title !== englishReport.t(copy.title)) return { title: event.title, description: event.description };
+  return { title: tr.t(copy.title), description: tr.t(copy.note) };
+}
+
 // Get 3rd Friday of a month (options expiry)
 const getThirdFriday = (y: number, m: number): Date => {
   const firstDay = new Date(y, m, 1);
@@ -25,78 +42,54 @@ const getThirdFriday = (y: number, m: number): Date => {
   return new Date(y, m, firstFriday.getDate() + 14);
 };
 
-export function getUpcomingMacroCatalysts(): MacroCatalyst[] {
-  const now = new Date();
+// Stored calendar events due within their lead window, as report catalysts
+function upcomingFromCalendar(events: CatalystEvent[], now: Date, symbol: string | undefined, tr: ReportTranslator): MacroCatalyst[] {
   const catalysts: MacroCatalyst[] = [];
+  for (const event of events) {
+    const days = getDaysUntil(now, catalystDate(event.date));
+    if (days < 0 || days > leadDaysFor(event) || !isCatalystRelevant(event, symbol)) continue;
+    const { title, description } = localizedCopy(event, tr);
+    catalysts.push({
+      event: title,
+      date: event.date,
+      impact: event.impact,
+      expectedEffect: event.expectedEffect,
+      description: description ? `${formatDays(days, tr)}. ${description}` : formatDays(days, tr),
+      id: event.id,
+      category: event.category,
+      ...(event.symbols.length > 0 ? { symbols: event.symbols } : {}),
+    });
+  }
+  return catalysts;
+}
+
+/**
+ * Upcoming catalysts: calendar events (the built-in FOMC/CPI seed unless a
+ * calendar is supplied) plus the computed weekly/monthly rules. With a symbol,
+ * events tagged for other assets are left out. Text is in the translator's locale.
+ */
+export function getUpcomingMacroCatalysts(
+  now: Date = new Date(),
+  events: CatalystEvent[] = BUILT_IN_CATALYST_EVENTS,
+  symbol?: string,
+  tr: ReportTranslator = englishReport
+): MacroCatalyst[] {
+  const catalysts: MacroCatalyst[] = upcomingFromCalendar(events, now, symbol, tr);
   const year = now.getFullYear();
   const month = now.getMonth();
   const dayOfWeek = now.getDay();
 
-  // FOMC MEETINGS 2025-2026
-  const fomcDates = [
-    new Date(2025, 0, 29), new Date(2025, 2, 19), new Date(2025, 4, 7),
-    new Date(2025, 5, 18), new Date(2025, 6, 30), new Date(2025, 8, 17),
-    new Date(2025, 10, 5), new Date(2025, 11, 17),
-    new Date(2026, 0, 28), new Date(2026, 2, 18), new Date(2026, 4, 6),
-    new Date(2026, 5, 17), new Date(2026, 6, 29), new Date(2026, 8, 16),
-    new Date(2026, 10, 4), new Date(2026, 11, 16),
-  ];
-
-  const nextFOMC = fomcDates.find(d => getDaysUntil(now, d) >= 0);
-  if (nextFOMC) {
-    const daysToFOMC = getDaysUntil(now, nextFOMC);
-    if (daysToFOMC <= 14) {
-      // Add CME FedWatch context
-      const fedWatchNote = 'CME FedWatch: ~90% hold expected. Surprise cut = ultra bullish, hike = crash risk';
-      catalysts.push({
-        event: 'FOMC Interest Rate Decision',
-        date: nextFOMC.toISOString().split('T')[0],
-        impact: 'HIGH',
-        expectedEffect: 'VOLATILE',
-        description: `${formatDays(daysToFOMC)}. ${fedWatchNote}`
-      });
-    }
-  }
-
-  // CPI RELEASE DATES 2025-2026
-  const cpiDates = [
-    new Date(2025, 0, 15), new Date(2025, 1, 12), new Date(2025, 2, 12),
-    new Date(2025, 3, 10), new Date(2025, 4, 13), new Date(2025, 5, 11),
-    new Date(2025, 6, 11), new Date(2025, 7, 12), new Date(2025, 8, 10),
-    new Date(2025, 9, 14), new Date(2025, 10, 13), new Date(2025, 11, 10),
-    new Date(2026, 0, 14), new Date(2026, 1, 11), new Date(2026, 2, 11),
-    new Date(2026, 3, 14), new Date(2026, 4, 12), new Date(2026, 5, 10),
-    new Date(2026, 6, 14), new Date(2026, 7, 12), new Date(2026, 8, 16),
-    new Date(2026, 9, 13), new Date(2026, 10, 12), new Date(2026, 11, 9),
-  ];
-
-  const nextCPI = cpiDates.find(d => getDaysUntil(now, d) >= 0);
-  if (nextCPI) {
-    const daysToCPI = getDaysUntil(now, nextCPI);
-    if (daysToCPI <= 10) {
-      // Add market consensus context
-      const consensusNote = 'Consensus: ~2.8% YoY. Below = bullish surprise (rate cut hopes), Above = hawkish reaction';
-      catalysts.push({
-        event: 'US CPI Inflation Data',
-        date: nextCPI.toISOString().split('T')[0],
-        impact: 'HIGH',
-        expectedEffect: 'VOLATILE',
-        description: `${formatDays(daysToCPI)}. ${consensusNote}`
-      });
-    }
-  }
-
   // Weekly Jobless Claims (Every Thursday)
   const daysToThursday = (4 - dayOfWeek + 7) % 7;
   if (daysToThursday <= 3) {
     const nextThursday = new Date(now);
     nextThursday.setDate(now.getDate() + daysToThursday);
     catalysts.push({
-      event: 'Weekly Jobless Claims',
+      event: tr.t('macro.joblessClaims'),
       date: nextThursday.toISOString().split('T')[0],
       impact: 'MEDIUM',
       expectedEffect: 'VOLATILE',
-      description: formatDays(daysToThursday) + (daysToThursday === 0 ? ' — Watch for market reaction' : '')
+      description: formatDays(daysToThursday, tr) + (daysToThursday === 0 ? ` — ${tr.t('macro.watchReaction')}` : '')
     });
   }
 
@@ -111,33 +104,42 @@ export function getUpcomingMacroCatalysts(): MacroCatalyst[] {
     const expiryMonth = optionsDate.getMonth();
     const isQuarterly = [2, 5, 8, 11].includes(expiryMonth);
     catalysts.push({
-      event: isQuarterly ? 'Quarterly Options Expiry (Major)' : 'Monthly Options Expiry',
+      event: tr.t(isQuarterly ? 'macro.quarterlyExpiry' : 'macro.monthlyExpiry'),
       date: optionsDate.toISOString().split('T')[0],
       impact: isQuarterly ? 'HIGH' : 'MEDIUM',
       expectedEffect: 'VOLATILE',
-      description: `${formatDays(daysToExpiry)}. ${isQuarterly ? '$B+ in options expire — expect max pain volatility' : 'Large positions rolling'}`
+      description: `${formatDays(daysToExpiry, tr)}. ${tr.t(isQuarterly ? 'macro.quarterlyExpiryNote' : 'macro.monthlyExpiryNote')}`
     });
   }
 
   // Ongoing macro theme
   catalysts.push({
-    event: 'Tariff/Trade Policy + Geopolitics',
+    event: tr.t('macro.tradePolicy'),
     date: 'Ongoing',
     impact: 'MEDIUM',
     expectedEffect: 'UNCERTAIN',
-    description: 'Trade tensions, regulatory news can trigger sudden moves'
+    description: tr.t('macro.tradePolicyNote')
   });
 
-  return catalysts.sort((a, b) => {
+  const sorted = catalysts.sort((a, b) => {
     if (a.date === 'Ongoing') return 1;
     if (b.date === 'Ongoing') return -1;
     return new Date(a.date).getTime() - new Date(b.date).getTime();
-  }).slice(0, 3);
+  });
+
+  // A busy calendar shouldn't let low-impact entries crowd out the ones that matter
+  while (sorted.length > 3) {
+    const lowIndex = sorted.map(c => c.impact).lastIndexOf('LOW');
+    if (lowIndex < 0) break;
+    sorted.splice(lowIndex, 1);
+  }
+  return sorted.slice(0, 3);
 }
 
-export function getQuickMacroFlag(): string {
-  const catalysts = getUpcomingMacroCatalysts();
-  const now = new Date();
+export function getQuickMacroFlag(
+  now: Date = new Date(),
+  catalysts: MacroCatalyst[] = getUpcomingMacroCatalysts(now)
+): string {
 
   const getDaysUntilDate = (dateStr: string): number => {
     const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
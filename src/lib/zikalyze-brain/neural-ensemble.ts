@@ -4,8 +4,11 @@
 // ⚡ Implements advanced temporal pattern recognition with gated memory units
 // 🎯 Ensemble prediction with iterative refinement for robust bias detection
 // 📴 100% Client-side — No external dependencies
+// 🧭 State and time come from the AnalysisContext (see context.ts)
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import { AnalysisContext, defaultAnalysisContext } from './context';
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔧 UTILITY FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -69,7 +72,8 @@ function initializeGatedWeights(inputSize: number): GatedMemoryWeights {
 function gatedMemoryForward(
   input: number[],
   prevState: GatedMemoryState,
-  weights: GatedMemoryWeights
+  weights: GatedMemoryWeights,
+  timestamp: number
 ): GatedMemoryState {
   const { hidden: h_prev } = prevState;
   const x = input;
@@ -102,7 +106,7 @@ function gatedMemoryForward(
   
   return {
     hidden: h_new,
-    timestamp: Date.now(),
+    timestamp,
   };
 }
 
@@ -210,6 +214,7 @@ export interface NeuralEnsembleState {
   sequenceBuffer: SequenceDataPoint[];
   predictionHistory: { bias: number; confidence: number; timestamp: number }[];
   adaptiveThresholds: { bullish: number; bearish: number };
+  trainingSteps: number; // Predictions this state has learned from (persisted across sessions)
 }
 
 export interface NeuralPrediction {
@@ -223,7 +228,7 @@ export interface NeuralPrediction {
 // Default initial state
 const HIDDEN_SIZE = 8;
 
-function createInitialState(): NeuralEnsembleState {
+export function createInitialNeuralState(now: number): NeuralEnsembleState {
   const ensembleConfig: EnsembleConfig = {
     learningRate: 0.1,
     numLearners: 12,
@@ -233,27 +238,23 @@ function createInitialState(): NeuralEnsembleState {
   return {
     gatedState: {
       hidden: Array(HIDDEN_SIZE).fill(0),
-      timestamp: Date.now(),
+      timestamp: now,
     },
     ensemble: initializeEnsemble(5, ensembleConfig),
     sequenceBuffer: [],
     predictionHistory: [],
     adaptiveThresholds: { bullish: 0.3, bearish: -0.3 },
+    trainingSteps: 0,
   };
 }
 
-// Global state management (per symbol)
-const stateCache = new Map<string, NeuralEnsembleState>();
-
-function getState(symbol: string): NeuralEnsembleState {
-  if (!stateCache.has(symbol)) {
-    stateCache.set(symbol, createInitialState());
-  }
-  return stateCache.get(symbol)!;
-}
-
-function setState(symbol: string, state: NeuralEnsembleState): void {
-  stateCache.set(symbol, state);
+// State management (per symbol) — backed by the context's NeuralStateStore
+function getState(symbol: string, ctx: AnalysisContext): NeuralEnsembleState {
+  const existing = ctx.neuralState.get(symbol);
+  if (existing) return existing;
+  const initial = createInitialNeuralState(ctx.clock.now());
+  ctx.neuralState.set(symbol, initial);
+  return initial;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -262,9 +263,11 @@ function setState(symbol: string, state: NeuralEnsembleState): void {
 
 export function neuralEnsemblePredict(
   symbol: string,
-  data: SequenceDataPoint
+  data: SequenceDataPoint,
+  ctx: AnalysisContext = defaultAnalysisContext
 ): NeuralPrediction {
-  const state = getState(symbol);
+  const state = getState(symbol, ctx);
+  const now = ctx.clock.now();
   const weights = initializeGatedWeights(10);
   
   // Normalize input features
@@ -283,7 +286,8 @@ export function neuralEnsemblePredict(
   const newGatedState = gatedMemoryForward(
     features,
     state.gatedState,
-    weights
+    weights,
+    now
   );
   
   // Temporal signal from hidden state
@@ -371,7 +375,7 @@ export function neuralEnsemblePredict(
   // Update prediction history
   const newHistory = [
     ...state.predictionHistory,
-    { bias: adaptiveScore, confidence, timestamp: Date.now() }
+    { bias: adaptiveScore, confidence, timestamp: now }
   ].slice(-50);
   
   // Update adaptive thresholds based on recent performance
@@ -395,12 +399,13 @@ export function neuralEnsemblePredict(
   );
   
   // Save updated state
-  setState(symbol, {
+  ctx.neuralState.set(symbol, {
     gatedState: newGatedState,
     ensemble: updatedEnsemble,
     sequenceBuffer: newBuffer,
     predictionHistory: newHistory,
     adaptiveThresholds: newThresholds,
+    trainingSteps: state.trainingSteps + 1,
   });
   
   return {
@@ -418,13 +423,14 @@ export function neuralEnsemblePredict(
 
 export function analyzeSequence(
   symbol: string,
-  sequence: SequenceDataPoint[]
+  sequence: SequenceDataPoint[],
+  ctx: AnalysisContext = defaultAnalysisContext
 ): NeuralPrediction {
   // Process entire sequence to build up hidden state
   let lastPrediction: NeuralPrediction | null = null;
   
   for (const dataPoint of sequence) {
-    lastPrediction = neuralEnsemblePredict(symbol, dataPoint);
+    lastPrediction = neuralEnsemblePredict(symbol, dataPoint, ctx);
   }
   
   return lastPrediction || {
@@ -450,8 +456,14 @@ export function enhanceBiasWithNeuralEnsemble(
     volume: number;
     volatility?: number;
     momentum?: number;
-  }
-): { bias: 'LONG' | 'SHORT' | 'NEUTRAL'; confidence: number; neuralSignal: NeuralPrediction } {
+  },
+  ctx: AnalysisContext = defaultAnalysisContext
+): {
+  bias: 'LONG' | 'SHORT' | 'NEUTRAL';
+  confidence: number;
+  neuralSignal: NeuralPrediction;
+  adjustments: { blend: number; agreement: number }; // Confidence points added by each step, before the final clamp
+} {
   // Build data point from market data
   const dataPoint: SequenceDataPoint = {
     price: marketData.price,
@@ -459,11 +471,11 @@ export function enhanceBiasWithNeuralEnsemble(
     volume: marketData.volume || 0,
     volatility: marketData.volatility || Math.abs(marketData.change) * 0.3,
     momentum: marketData.momentum || marketData.change * 2,
-    timestamp: Date.now(),
+    timestamp: ctx.clock.now(),
   };
   
   // Get neural ensemble prediction
-  const neuralPrediction = neuralEnsemblePredict(symbol, dataPoint);
+  const neuralPrediction = neuralEnsemblePredict(symbol, dataPoint, ctx);
   
   // Blend neural prediction with existing bias
   const neuralWeight = 0.25; // Neural contributes 25%
@@ -491,6 +503,7 @@ export function enhanceBiasWithNeuralEnsemble(
   // Blend confidence
   let finalConfidence = currentConfidence * existingWeight + 
                         neuralPrediction.confidence * neuralWeight;
+  const blended = finalConfidence;
   
   // Boost confidence if neural and technical agree
   if (currentBias === neuralPrediction.bias && currentBias !== 'NEUTRAL') {
@@ -508,15 +521,19 @@ export function enhanceBiasWithNeuralEnsemble(
     bias: finalBias,
     confidence: Math.round(Math.max(35, Math.min(80, finalConfidence))),
     neuralSignal: neuralPrediction,
+    adjustments: {
+      blend: blended - currentConfidence,
+      agreement: finalConfidence - blended,
+    },
   };
 }
 
 // Reset state for a symbol (useful for testing)
-export function resetNeuralState(symbol: string): void {
-  stateCache.delete(symbol);
+export function resetNeuralState(symbol: string, ctx: AnalysisContext = defaultAnalysisContext): void {
+  ctx.neuralState.delete(symbol);
 }
 
 // Get current neural state (for debugging/display)
-export function getNeuralState(symbol: string): NeuralEnsembleState | null {
-  return stateCache.get(symbol) || null;
+export function getNeuralState(symbol: string, ctx: AnalysisContext = defaultAnalysisContext): NeuralEnsembleState | null {
+  return ctx.neuralState.get(symbol);
 }
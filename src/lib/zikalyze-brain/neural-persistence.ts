@@ -0,0 +1,278 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💾 NEURAL STATE PERSISTENCE — Versioned, per-symbol ensemble state
+// ═══════════════════════════════════════════════════════════════════════════════
+// Wraps a storage backend (IndexedDB in the app) in a synchronous
+// NeuralStateStore: reads come from memory, writes are debounced to the
+// backend. Every record carries a schema version and is migrated forward on
+// load and import, so states saved by older builds keep learning.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { NeuralStateStore, BrainLogger, consoleLogger } from './context';
+import type { NeuralEnsembleState } from './neural-ensemble';
+
+// Bump when NeuralEnsembleState changes shape, and add a migration below.
+// public/background-learning-worker.js keeps a copy of this number.
+export const NEURAL_STATE_SCHEMA_VERSION = 1;
+
+export const NEURAL_STATE_EXPORT_FORMAT = 'zikalyze-neural-state';
+
+export interface PersistedNeuralState {
+  symbol: string;
+  schemaVersion: number;
+  state: NeuralEnsembleState;
+  updated_at: string;
+}
+
+// Shape as read back from storage or an import file — nothing is trusted yet
+export interface StoredNeuralState {
+  symbol: string;
+  schemaVersion?: number;
+  state: unknown;
+  updated_at?: string;
+}
+
+export interface NeuralStateExport {
+  format: typeof NEURAL_STATE_EXPORT_FORMAT;
+  schemaVersion: number;
+  exported_at: string;
+  states: PersistedNeuralState[];
+}
+
+export interface NeuralStateBackend {
+  loadAll(): Promise<StoredNeuralState[]>;
+  load(symbol: string): Promise<StoredNeuralState | undefined>;
+  save(record: PersistedNeuralState): Promise<void>;
+  remove(symbol: string): Promise<void>;
+}
+
+export interface PersistentNeuralStateStore extends NeuralStateStore {
+  hydrate(): Promise<number>;              // Load every stored symbol; returns how many
+  reload(symbol: string): Promise<void>;   // Re-read one symbol (e.g. after the worker wrote it)
+  flush(): Promise<void>;                  // Write pending changes now
+  list(): PersistedNeuralState[];
+  exportStates(symbols?: string[]): NeuralStateExport;
+  importStates(data: unknown): Promise<string[]>;
+  reset(symbol: string): Promise<void>;
+  subscribe(listener: () => void): () => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔀 MIGRATIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+// MIGRATIONS[n] upgrades a version-n state to version n + 1.
+// Version 0 is the unversioned in-memory shape from before persistence existed.
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, Migration> = {
+  0: (state) => ({
+    ...state,
+    trainingSteps: Array.isArray(state.predictionHistory) ? state.predictionHistory.length : 0,
+  }),
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isNumberArray = (v: unknown): v is number[] => Array.isArray(v) && v.every(isFiniteNumber);
+
+// Structural check of a fully migrated state — anything off means the record is corrupt
+function validateState(state: Record<string, unknown>): NeuralEnsembleState {
+  const gated = state.gatedState as Record<string, unknown> | undefined;
+  const thresholds = state.adaptiveThresholds as Record<string, unknown> | undefined;
+
+  if (!gated || !isNumberArray(gated.hidden) || !isFiniteNumber(gated.timestamp)) {
+    throw new Error('Invalid neural state: gatedState');
+  }
+  if (!Array.isArray(state.ensemble) || state.ensemble.length === 0 || !state.ensemble.every(l =>
+    l && isFiniteNumber(l.weight) && isFiniteNumber(l.threshold) && isFiniteNumber(l.feature) && isFiniteNumber(l.direction)
+  )) {
+    throw new Error('Invalid neural state: ensemble');
+  }
+  if (!Array.isArray(state.sequenceBuffer) || !Array.isArray(state.predictionHistory)) {
+    throw new Error('Invalid neural state: history buffers');
+  }
+  if (!thresholds || !isFiniteNumber(thresholds.bullish) || !isFiniteNumber(thresholds.bearish)) {
+    throw new Error('Invalid neural state: adaptiveThresholds');
+  }
+  if (!isFiniteNumber(state.trainingSteps)) {
+    throw new Error('Invalid neural state: trainingSteps');
+  }
+  return state as unknown as NeuralEnsembleState;
+}
+
+export function migrateNeuralState(state: unknown, fromVersion = 0): NeuralEnsembleState {
+  if (!state || typeof state !== 'object') {
+    throw new Error('Invalid neural state: not an object');
+  }
+  if (fromVersion > NEURAL_STATE_SCHEMA_VERSION) {
+    throw new Error(`Neural state v${fromVersion} is newer than this app (v${NEURAL_STATE_SCHEMA_VERSION})`);
+  }
+
+  let current = state as Record<string, unknown>;
+  for (let version = fromVersion; version < NEURAL_STATE_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No neural state migration from v${version}`);
+    current = migrate(current);
+  }
+  return validateState(current);
+}
+
+export function migrateNeuralStateRecord(record: StoredNeuralState): PersistedNeuralState {
+  if (!record || typeof record.symbol !== 'string' || record.symbol.length === 0) {
+    throw new Error('Invalid neural state record: missing symbol');
+  }
+  return {
+    symbol: record.symbol,
+    schemaVersion: NEURAL_STATE_SCHEMA_VERSION,
+    state: migrateNeuralState(record.state, record.schemaVersion ?? 0),
+    updated_at: record.updated_at ?? new Date().toISOString(),
+  };
+}
+
+// Accepts a full export, a single record, or an array of records
+function parseImport(data: unknown): StoredNeuralState[] {
+  const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+  if (Array.isArray(parsed)) return parsed as StoredNeuralState[];
+  if (parsed && typeof parsed === 'object') {
+    const obj = parsed as Record<string, unknown>;
+    if (obj.format === NEURAL_STATE_EXPORT_FORMAT && Array.isArray(obj.states)) {
+      return obj.states as StoredNeuralState[];
+    }
+    if (typeof obj.symbol === 'string' && 'state' in obj) {
+      return [obj as unknown as StoredNeuralState];
+    }
+  }
+  throw new Error('Unrecognised neural state file');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏗️ STORE FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createPersistentNeuralStateStore(
+  backend: NeuralStateBackend,
+  options: { debounceMs?: number; logger?: BrainLogger } = {}
+): PersistentNeuralStateStore {
+  const { debounceMs = 2000, logger = consoleLogger } = options;
+  const records = new Map<string, PersistedNeuralState>();
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const write = async (symbol: string) => {
+    clearTimeout(pending.get(symbol));
+    pending.delete(symbol);
+    const record = records.get(symbol);
+    if (!record) return;
+    try {
+      await backend.save(record);
+    } catch (error) {
+      logger.warn(`[NeuralState] Failed to persist ${symbol}:`, error);
+    }
+  };
+
+  const schedule = (symbol: string) => {
+    clearTimeout(pending.get(symbol));
+    pending.set(symbol, setTimeout(() => { void write(symbol); }, debounceMs));
+  };
+
+  // Migrate a stored record into memory; records older than the schema are re-saved upgraded
+  const accept = (stored: StoredNeuralState): PersistedNeuralState | null => {
+    try {
+      const record = migrateNeuralStateRecord(stored);
+      records.set(record.symbol, record);
+      if ((stored.schemaVersion ?? 0) < NEURAL_STATE_SCHEMA_VERSION) schedule(record.symbol);
+      return record;
+    } catch (error) {
+      logger.warn(`[NeuralState] Skipping ${stored?.symbol ?? 'unknown'}:`, error);
+      return null;
+    }
+  };
+
+  return {
+    get: (symbol) => records.get(symbol)?.state ?? null,
+
+    set: (symbol, state) => {
+      records.set(symbol, {
+        symbol,
+        schemaVersion: NEURAL_STATE_SCHEMA_VERSION,
+        state,
+        updated_at: new Date().toISOString(),
+      });
+      schedule(symbol);
+      notify();
+    },
+
+    delete: (symbol) => {
+      clearTimeout(pending.get(symbol));
+      pending.delete(symbol);
+      records.delete(symbol);
+      backend.remove(symbol).catch(error => logger.warn(`[NeuralState] Failed to delete ${symbol}:`, error));
+      notify();
+    },
+
+    hydrate: async () => {
+      const stored = await backend.loadAll();
+      let loaded = 0;
+      for (const record of stored) {
+        // A state learned this session before hydration finished wins over the stored one
+        if (records.has(record.symbol)) continue;
+        if (accept(record)) loaded++;
+      }
+      logger.log(`[NeuralState] Hydrated ${loaded} symbol(s)`);
+      notify();
+      return loaded;
+    },
+
+    reload: async (symbol) => {
+      const stored = await backend.load(symbol);
+      if (stored) {
+        clearTimeout(pending.get(symbol));
+        pending.delete(symbol);
+        accept(stored);
+      } else {
+        records.delete(symbol);
+      }
+      notify();
+    },
+
+    flush: async () => {
+      await Promise.all([...pending.keys()].map(write));
+    },
+
+    list: () => [...records.values()].sort((a, b) => a.symbol.localeCompare(b.symbol)),
+
+    exportStates: (symbols) => ({
+      format: NEURAL_STATE_EXPORT_FORMAT,
+      schemaVersion: NEURAL_STATE_SCHEMA_VERSION,
+      exported_at: new Date().toISOString(),
+      states: [...records.values()].filter(r => !symbols || symbols.includes(r.symbol)),
+    }),
+
+    importStates: async (data) => {
+      // Validate everything first so a bad entry doesn't leave a half-imported file
+      const migrated = parseImport(data).map(migrateNeuralStateRecord);
+      for (const record of migrated) {
+        clearTimeout(pending.get(record.symbol));
+        pending.delete(record.symbol);
+        records.set(record.symbol, record);
+        await backend.save(record);
+      }
+      notify();
+      return migrated.map(r => r.symbol);
+    },
+
+    reset: async (symbol) => {
+      clearTimeout(pending.get(symbol));
+      pending.delete(symbol);
+      records.delete(symbol);
+      await backend.remove(symbol);
+      notify();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
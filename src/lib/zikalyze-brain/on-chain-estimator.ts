@@ -5,7 +5,8 @@
 // NO random values — ensures consistent, reproducible analysis
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { OnChainMetrics, ETFFlowData } from './types';
+import { OnChainMetrics, ETFFlowData, OnChainProvenanceField } from './types';
+import { derivedProvenance } from './provenance';
 
 // Deterministic hash function for consistent "randomness" based on inputs
 function deterministicValue(seed: number, min: number, max: number): number {
@@ -174,7 +175,12 @@ export function estimateOnChainMetrics(
     shortTermHolders,
     activeAddresses,
     transactionVolume,
-    source: 'derived-deterministic'
+    source: 'derived-deterministic',
+    // Every field is synthesised from the 24h change — flag each one so nothing reads as measured
+    provenance: Object.fromEntries(
+      (['exchangeNetFlow', 'whaleActivity', 'longTermHolders', 'shortTermHolders', 'activeAddresses', 'transactionVolume'] as OnChainProvenanceField[])
+        .map(field => [field, derivedProvenance('on-chain-estimator', '24h price change')])
+    )
   };
 }
 
@@ -256,6 +262,30 @@ export function estimateETFFlowData(price: number, change: number, crypto: strin
     topBuyers,
     topSellers,
     institutionalSentiment,
-    source: 'derived-deterministic'
+    source: 'derived-deterministic',
+    provenance: derivedProvenance('etf-flow-estimator', '24h price change')
   };
 }
+
+// Fear & Greed from the 24h move alone — what the sentiment panel shows without a live index feed
+export function estimateFearGreed(change24h: number): { value: number; label: string } {
+  let score = 50;
+  
+  if (change24h > 10) score = 85;
+  else if (change24h > 5) score = 72;
+  else if (change24h > 2) score = 62;
+  else if (change24h > 0) score = 55;
+  else if (change24h > -2) score = 45;
+  else if (change24h > -5) score = 35;
+  else if (change24h > -10) score = 25;
+  else score = 15;
+  
+  let label: string;
+  if (score <= 25) label = 'Extreme Fear';
+  else if (score <= 45) label = 'Fear';
+  else if (score <= 55) label = 'Neutral';
+  else if (score <= 75) label = 'Greed';
+  else label = 'Extreme Greed';
+  
+  return { value: score, label };
+}
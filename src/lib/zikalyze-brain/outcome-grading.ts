@@ -0,0 +1,233 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏁 OUTCOME GRADING — How a saved call actually played out
+// ═══════════════════════════════════════════════════════════════════════════════
+// Replays stored candles after a call against its entry zone, stop and targets
+// at fixed horizons (1h, 4h, 24h). Fills and exits follow the backtest engine:
+// a bar that touches both stop and target counts as stopped (conservative),
+// and gaps through a level fill at the open. Pure — the caller loads candles.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  AnalysisOutcome,
+  AnalysisOutcomes,
+  AnalysisResult,
+  GradingPlan,
+  OutcomeHorizon,
+  OutcomeStatus,
+} from './types';
+
+export const OUTCOME_HORIZONS: OutcomeHorizon[] = ['1h', '4h', '24h'];
+
+export const HORIZON_MS: Record<OutcomeHorizon, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+
+// Candle intervals to read each horizon from, finest first
+export const GRADING_INTERVALS: Record<OutcomeHorizon, string[]> = {
+  '1h': ['1m', '5m', '15m'],
+  '4h': ['5m', '15m', '1h'],
+  '24h': ['15m', '1h', '4h'],
+};
+
+const INTERVAL_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+};
+
+// A NEUTRAL call is right if price stays within this many % of the call price
+const NEUTRAL_BAND_PERCENT: Record<OutcomeHorizon, number> = {
+  '1h': 1,
+  '4h': 2,
+  '24h': 4,
+};
+
+// Fewest candles a horizon must be read from to be trusted
+const MIN_CANDLES = 4;
+
+export interface OutcomeCandle {
+  time: number; // Open time (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Snapshot of what the grader needs — saved with the record when the call is made
+export function gradingPlanFor(result: AnalysisResult, price: number): GradingPlan {
+  const plan = result.tradePlan;
+  return {
+    bias: result.bias,
+    price,
+    entry: plan ? { low: plan.entry.low, high: plan.entry.high } : null,
+    stopLoss: plan ? plan.stopLoss : null,
+    targets: plan ? plan.takeProfits.map(tp => tp.price) : [],
+  };
+}
+
+// Candles that fall wholly inside [start, end], or null when the archive doesn't
+// cover the window without gaps
+function windowCandles(
+  candles: OutcomeCandle[],
+  startMs: number,
+  endMs: number,
+  intervalMs: number
+): OutcomeCandle[] | null {
+  const inside = candles
+    .filter(c => c.time >= startMs && c.time + intervalMs <= endMs)
+    .sort((a, b) => a.time - b.time);
+  if (inside.length < MIN_CANDLES) return null;
+
+  // At most one partial candle may be lost at either edge
+  if (inside[0].time - startMs > intervalMs) return null;
+  if (endMs - (inside[inside.length - 1].time + intervalMs) > intervalMs) return null;
+  for (let i = 1; i < inside.length; i++) {
+    if (inside[i].time - inside[i - 1].time > intervalMs * 2) return null;
+  }
+  return inside;
+}
+
+/**
+ * Grade one call at one horizon. Returns null until the horizon has passed, or
+ * when the candles don't cover it — the caller retries with another interval.
+ */
+export function gradeOutcome(
+  plan: GradingPlan,
+  createdAtMs: number,
+  horizon: OutcomeHorizon,
+  candles: OutcomeCandle[],
+  interval: string,
+  nowMs: number
+): AnalysisOutcome | null {
+  const endMs = createdAtMs + HORIZON_MS[horizon];
+  const intervalMs = INTERVAL_MS[interval];
+  if (!intervalMs || nowMs < endMs || plan.price <= 0) return null;
+
+  const path = windowCandles(candles, createdAtMs, endMs, intervalMs);
+  if (!path) return null;
+
+  const last = path[path.length - 1];
+  const base = {
+    horizon,
+    interval,
+    candles: path.length,
+    gradedAt: new Date(nowMs).toISOString(),
+  };
+  const pct = (from: number, to: number) => ((to - from) / from) * 100;
+
+  // NEUTRAL: no levels — did price stay in the band?
+  if (plan.bias === 'NEUTRAL' || !plan.entry || plan.stopLoss === null) {
+    const up = Math.max(0, pct(plan.price, Math.max(...path.map(c => c.high))));
+    const down = Math.max(0, -pct(plan.price, Math.min(...path.map(c => c.low))));
+    const held = Math.max(up, down) <= NEUTRAL_BAND_PERCENT[horizon];
+    const returnPercent = pct(plan.price, last.close);
+    const directional = plan.bias !== 'NEUTRAL';
+    // A directional call saved without a plan is judged on direction alone
+    const dir = plan.bias === 'SHORT' ? -1 : 1;
+    return {
+      ...base,
+      status: directional ? 'EXPIRED' : held ? 'RANGE_HELD' : 'RANGE_BROKEN',
+      correct: directional ? dir * returnPercent > 0 : held,
+      entryPrice: null,
+      exitPrice: last.close,
+      returnPercent: directional ? dir * returnPercent : returnPercent,
+      targetsHit: 0,
+      maxFavorablePercent: directional && dir < 0 ? down : up,
+      maxAdversePercent: directional && dir < 0 ? up : down,
+    };
+  }
+
+  const isLong = plan.bias === 'LONG';
+  const dir = isLong ? 1 : -1;
+  const { entry, stopLoss, targets } = plan;
+
+  // 1) Fill — first candle that trades into the entry zone
+  let fillIndex = -1;
+  let entryPrice: number | null = null;
+  for (let i = 0; i < path.length; i++) {
+    const c = path[i];
+    if (c.low <= entry.high && c.high >= entry.low) {
+      fillIndex = i;
+      entryPrice = Math.min(entry.high, Math.max(entry.low, c.open));
+      break;
+    }
+  }
+
+  // 2) Excursions measured from the fill, or from the call price if never filled
+  const reference = entryPrice ?? plan.price;
+  const fromIndex = Math.max(0, fillIndex);
+  let mfe = 0;
+  let mae = 0;
+  let status: OutcomeStatus = entryPrice === null ? 'NOT_FILLED' : 'EXPIRED';
+  let exitPrice = last.close;
+  let targetsHit = 0;
+
+  for (let i = fromIndex; i < path.length; i++) {
+    const c = path[i];
+    const favorable = isLong ? pct(reference, c.high) : -pct(reference, c.low);
+    const adverse = isLong ? -pct(reference, c.low) : pct(reference, c.high);
+
+    if (entryPrice !== null) {
+      const stopHit = isLong ? c.low <= stopLoss : c.high >= stopLoss;
+      const nextTarget = targets[targetsHit];
+      const targetHit = nextTarget !== undefined && (isLong ? c.high >= nextTarget : c.low <= nextTarget);
+
+      if (stopHit) {
+        // Gaps through the stop fill at the open
+        const fill = isLong ? Math.min(c.open, stopLoss) : Math.max(c.open, stopLoss);
+        mae = Math.max(mae, -dir * pct(reference, fill));
+        if (status !== 'TARGET') {
+          status = 'STOPPED';
+          exitPrice = fill;
+        }
+        break;
+      }
+      if (targetHit) {
+        if (status !== 'TARGET') exitPrice = nextTarget;
+        status = 'TARGET';
+        // Count every further target this candle reached too
+        while (targets[targetsHit] !== undefined && (isLong ? c.high >= targets[targetsHit] : c.low <= targets[targetsHit])) {
+          targetsHit++;
+        }
+      }
+    }
+
+    mfe = Math.max(mfe, favorable);
+    mae = Math.max(mae, adverse);
+  }
+
+  const returnPercent = dir * pct(reference, exitPrice);
+  const correct = status === 'TARGET'
+    ? true
+    : status === 'STOPPED'
+      ? false
+      // Expired or never filled — judged on whether price moved the called way
+      : returnPercent > 0;
+
+  return {
+    ...base,
+    status,
+    correct,
+    entryPrice,
+    exitPrice,
+    returnPercent,
+    targetsHit,
+    maxFavorablePercent: mfe,
+    maxAdversePercent: mae,
+  };
+}
+
+// Label for the learning system: the longest enabled horizon that has been graded
+export function outcomeLabel(outcomes: AnalysisOutcomes | undefined, horizons: OutcomeHorizon[]): boolean | null {
+  if (!outcomes) return null;
+  const enabled = OUTCOME_HORIZONS.filter(h => horizons.includes(h));
+  for (let i = enabled.length - 1; i >= 0; i--) {
+    const outcome = outcomes[enabled[i]];
+    if (outcome) return outcome.correct;
+  }
+  return null;
+}
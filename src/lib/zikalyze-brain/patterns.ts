@@ -0,0 +1,565 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🕯️ PATTERN RECOGNITION — Candlestick + classical chart patterns
+// ═══════════════════════════════════════════════════════════════════════════════
+// Candlestick patterns are scanned bar by bar; chart patterns are read from the
+// most recent swing pivots, so only setups still in play are reported.
+// Every tolerance is expressed in ATR so the same rules work for BTC and PEPE.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  ChartTrendInput,
+  DetectedPattern,
+  MultiTimeframeInput,
+  PatternLine,
+  PatternPoint,
+} from './types';
+import { englishReport, ReportTranslator } from './report-i18n';
+
+export interface PatternCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface PatternScore {
+  bullish: number;  // Weighted sum of bullish patterns (confidence × category × timeframe × recency)
+  bearish: number;
+  strongestBullish: DetectedPattern | null;
+  strongestBearish: DetectedPattern | null;
+}
+
+interface Pivot extends PatternPoint {
+  index: number;
+  kind: 'HIGH' | 'LOW';
+}
+
+const ATR_PERIOD = 14;
+const PIVOT_SPAN = 2;          // Bars each side for a swing high/low
+const MIN_CANDLES = 8;
+const CANDLESTICK_LOOKBACK = 5; // Candlestick patterns older than this are dropped
+const CHART_PATTERN_WINDOW = 60;
+
+const TIMEFRAME_WEIGHT: Record<string, number> = { '15m': 0.75, '1h': 1, chart: 1, '4h': 1.25, '1d': 1.5 };
+
+// ── Candle anatomy ──
+const body = (c: PatternCandle) => Math.abs(c.close - c.open);
+const span = (c: PatternCandle) => c.high - c.low;
+const upperWick = (c: PatternCandle) => c.high - Math.max(c.open, c.close);
+const lowerWick = (c: PatternCandle) => Math.min(c.open, c.close) - c.low;
+const isBull = (c: PatternCandle) => c.close > c.open;
+const isBear = (c: PatternCandle) => c.close < c.open;
+const clamp = (v: number) => Math.round(Math.max(0, Math.min(95, v)));
+
+// Simple-average true range ending at `end` (inclusive)
+function averageTrueRange(candles: PatternCandle[], end: number): number {
+  const start = Math.max(1, end - ATR_PERIOD + 1);
+  let sum = 0;
+  let count = 0;
+  for (let i = start; i <= end; i++) {
+    const c = candles[i];
+    const prevClose = candles[i - 1].close;
+    sum += Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+    count++;
+  }
+  if (count === 0) return span(candles[end]) || candles[end].close * 0.01;
+  return sum / count || candles[end].close * 0.01;
+}
+
+// Direction of the move into bar i: +1 up, -1 down, 0 flat (measured in ATR)
+function priorTrend(candles: PatternCandle[], i: number, atr: number, lookback = 5): -1 | 0 | 1 {
+  const from = i - 1 - lookback;
+  if (from < 0) return 0;
+  const move = candles[i - 1].close - candles[from].close;
+  if (move > atr * 0.75) return 1;
+  if (move < -atr * 0.75) return -1;
+  return 0;
+}
+
+// Line through two points, evaluated at any timestamp
+function lineAt(from: PatternPoint, to: PatternPoint, timestamp: number): number {
+  if (to.timestamp === from.timestamp) return to.price;
+  const slope = (to.price - from.price) / (to.timestamp - from.timestamp);
+  return from.price + slope * (timestamp - from.timestamp);
+}
+
+function extendLine(label: string, from: PatternPoint, to: PatternPoint, lastTimestamp: number): PatternLine {
+  return { label, from, to: { timestamp: lastTimestamp, price: lineAt(from, to, lastTimestamp) } };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🕯️ CANDLESTICK PATTERNS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function detectCandlestickPatterns(candles: PatternCandle[], timeframe: string): DetectedPattern[] {
+  const patterns: DetectedPattern[] = [];
+  const last = candles.length - 1;
+
+  for (let i = Math.max(2, last - CANDLESTICK_LOOKBACK + 1); i <= last; i++) {
+    const c = candles[i];
+    const prev = candles[i - 1];
+    const atr = averageTrueRange(candles, i - 1);
+    const trend = priorTrend(candles, i, atr);
+    const base = { category: 'CANDLESTICK' as const, timeframe, endTime: c.timestamp, barsAgo: last - i, confirmed: true, lines: [] };
+
+    // Engulfing — body swallows the previous opposite body
+    if (isBear(prev) && isBull(c) && c.open <= prev.close && c.close >= prev.open && body(c) > body(prev) && body(c) >= atr * 0.3) {
+      patterns.push({
+        ...base,
+        type: 'BULLISH_ENGULFING',
+        name: 'Bullish engulfing',
+        direction: 'BULLISH',
+        confidence: clamp(55 + (trend === -1 ? 15 : 0) + Math.min(10, (body(c) / Math.max(body(prev), atr * 0.05) - 1) * 5) + (c.volume > prev.volume ? 8 : 0)),
+        startTime: prev.timestamp,
+        levels: [{ label: 'Invalidation', price: Math.min(c.low, prev.low) }],
+        description: `Buyers engulfed the prior red candle${trend === -1 ? ' after a decline' : ''}`,
+      });
+    } else if (isBull(prev) && isBear(c) && c.open >= prev.close && c.close <= prev.open && body(c) > body(prev) && body(c) >= atr * 0.3) {
+      patterns.push({
+        ...base,
+        type: 'BEARISH_ENGULFING',
+        name: 'Bearish engulfing',
+        direction: 'BEARISH',
+        confidence: clamp(55 + (trend === 1 ? 15 : 0) + Math.min(10, (body(c) / Math.max(body(prev), atr * 0.05) - 1) * 5) + (c.volume > prev.volume ? 8 : 0)),
+        startTime: prev.timestamp,
+        levels: [{ label: 'Invalidation', price: Math.max(c.high, prev.high) }],
+        description: `Sellers engulfed the prior green candle${trend === 1 ? ' after a rally' : ''}`,
+      });
+    }
+
+    // Pin bar — long rejection wick, small body at the other end
+    const range = span(c);
+    if (range >= atr * 0.5) {
+      const recent = candles.slice(Math.max(0, i - 5), i);
+      if (lowerWick(c) >= body(c) * 2 && lowerWick(c) >= range * 0.6 && upperWick(c) <= range * 0.25) {
+        const sweptLow = recent.every(r => c.low <= r.low);
+        patterns.push({
+          ...base,
+          type: 'BULLISH_PIN_BAR',
+          name: 'Bullish pin bar',
+          direction: 'BULLISH',
+          confidence: clamp(50 + (trend === -1 ? 15 : 0) + (sweptLow ? 10 : 0) + Math.min(10, (lowerWick(c) / range - 0.6) * 25)),
+          startTime: c.timestamp,
+          levels: [{ label: 'Invalidation', price: c.low }],
+          description: `Lower wick rejected ${sweptLow ? 'a fresh low' : 'lower prices'}`,
+        });
+      } else if (upperWick(c) >= body(c) * 2 && upperWick(c) >= range * 0.6 && lowerWick(c) <= range * 0.25) {
+        const sweptHigh = recent.every(r => c.high >= r.high);
+        patterns.push({
+          ...base,
+          type: 'BEARISH_PIN_BAR',
+          name: 'Bearish pin bar',
+          direction: 'BEARISH',
+          confidence: clamp(50 + (trend === 1 ? 15 : 0) + (sweptHigh ? 10 : 0) + Math.min(10, (upperWick(c) / range - 0.6) * 25)),
+          startTime: c.timestamp,
+          levels: [{ label: 'Invalidation', price: c.high }],
+          description: `Upper wick rejected ${sweptHigh ? 'a fresh high' : 'higher prices'}`,
+        });
+      }
+    }
+
+    // Inside bar — compression inside the mother bar; direction comes from the break
+    if (c.high < prev.high && c.low > prev.low) {
+      patterns.push({
+        ...base,
+        type: 'INSIDE_BAR',
+        name: 'Inside bar',
+        direction: 'NEUTRAL',
+        confidence: clamp(45 + (span(prev) >= atr ? 10 : 0)),
+        startTime: prev.timestamp,
+        confirmed: false,
+        levels: [
+          { label: 'Breakout', price: prev.high },
+          { label: 'Breakout', price: prev.low },
+        ],
+        description: `Range compression between ${prev.low.toPrecision(6)} and ${prev.high.toPrecision(6)}`,
+      });
+    }
+
+    // Morning / evening star — strong candle, indecision, strong reversal past the midpoint
+    const first = candles[i - 2];
+    const firstMid = (first.open + first.close) / 2;
+    const middleMid = (prev.open + prev.close) / 2;
+    const strongFirst = body(first) >= atr * 0.5 && body(first) >= span(first) * 0.5;
+    const smallMiddle = body(prev) <= body(first) * 0.35;
+    if (strongFirst && smallMiddle && isBear(first) && isBull(c) && middleMid < firstMid && c.close > firstMid) {
+      patterns.push({
+        ...base,
+        type: 'MORNING_STAR',
+        name: 'Morning star',
+        direction: 'BULLISH',
+        confidence: clamp(60 + (trend === -1 || priorTrend(candles, i - 2, atr) === -1 ? 15 : 0) + (c.close >= first.open ? 8 : 0)),
+        startTime: first.timestamp,
+        levels: [{ label: 'Invalidation', price: Math.min(first.low, prev.low, c.low) }],
+        description: 'Three-candle bottom reversal',
+      });
+    } else if (strongFirst && smallMiddle && isBull(first) && isBear(c) && middleMid > firstMid && c.close < firstMid) {
+      patterns.push({
+        ...base,
+        type: 'EVENING_STAR',
+        name: 'Evening star',
+        direction: 'BEARISH',
+        confidence: clamp(60 + (trend === 1 || priorTrend(candles, i - 2, atr) === 1 ? 15 : 0) + (c.close <= first.open ? 8 : 0)),
+        startTime: first.timestamp,
+        levels: [{ label: 'Invalidation', price: Math.max(first.high, prev.high, c.high) }],
+        description: 'Three-candle top reversal',
+      });
+    }
+  }
+
+  return patterns;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 CHART PATTERNS — Built from alternating swing pivots
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Swing highs/lows, merged so the sequence strictly alternates HIGH/LOW
+function findPivots(candles: PatternCandle[]): Pivot[] {
+  const raw: Pivot[] = [];
+  for (let i = PIVOT_SPAN; i < candles.length - PIVOT_SPAN; i++) {
+    const c = candles[i];
+    let isHigh = true;
+    let isLow = true;
+    for (let k = 1; k <= PIVOT_SPAN; k++) {
+      if (candles[i - k].high > c.high || candles[i + k].high > c.high) isHigh = false;
+      if (candles[i - k].low < c.low || candles[i + k].low < c.low) isLow = false;
+    }
+    if (isHigh) raw.push({ index: i, timestamp: c.timestamp, price: c.high, kind: 'HIGH' });
+    if (isLow) raw.push({ index: i, timestamp: c.timestamp, price: c.low, kind: 'LOW' });
+  }
+
+  const pivots: Pivot[] = [];
+  for (const p of raw) {
+    const prev = pivots[pivots.length - 1];
+    if (prev && prev.kind === p.kind) {
+      const moreExtreme = p.kind === 'HIGH' ? p.price > prev.price : p.price < prev.price;
+      if (moreExtreme) pivots[pivots.length - 1] = p;
+    } else {
+      pivots.push(p);
+    }
+  }
+  return pivots;
+}
+
+function detectDoubleTopBottom(candles: PatternCandle[], pivots: Pivot[], atr: number, timeframe: string): DetectedPattern | null {
+  const last = candles.length - 1;
+  const tolerance = atr * 0.75;
+
+  // The second peak must be one of the last two pivots to still be in play
+  for (const offset of [1, 2]) {
+    const end = pivots.length - offset;
+    if (end < 2) continue;
+    const [a, middle, b] = pivots.slice(end - 2, end + 1);
+    if (a.kind !== b.kind || b.index - a.index < 4) continue;
+
+    const isTop = a.kind === 'HIGH';
+    const extreme = isTop ? Math.max(a.price, b.price) : Math.min(a.price, b.price);
+    const depth = isTop ? Math.min(a.price, b.price) - middle.price : middle.price - Math.max(a.price, b.price);
+    const mismatch = Math.abs(a.price - b.price);
+    if (mismatch > tolerance || depth < atr * 1.5) continue;
+
+    const after = candles.slice(b.index + 1);
+    const violated = after.some(c => isTop ? c.high > extreme + tolerance * 0.5 : c.low < extreme - tolerance * 0.5);
+    if (violated) continue;
+
+    const neckline = middle.price;
+    const confirmed = after.some(c => isTop ? c.close < neckline : c.close > neckline);
+    const height = Math.abs(extreme - neckline);
+    return {
+      type: isTop ? 'DOUBLE_TOP' : 'DOUBLE_BOTTOM',
+      name: isTop ? 'Double top' : 'Double bottom',
+      category: 'CHART',
+      direction: isTop ? 'BEARISH' : 'BULLISH',
+      confidence: clamp(55 + (confirmed ? 15 : 0) + (1 - mismatch / tolerance) * 10 + Math.min(10, depth / atr)),
+      timeframe,
+      startTime: a.timestamp,
+      endTime: b.timestamp,
+      barsAgo: last - b.index,
+      confirmed,
+      levels: [
+        { label: 'Neckline', price: neckline },
+        { label: 'Target', price: isTop ? neckline - height : neckline + height },
+        { label: 'Invalidation', price: extreme },
+      ],
+      lines: [{ label: isTop ? 'Resistance' : 'Support', from: a, to: b }],
+      description: `Two ${isTop ? 'peaks' : 'troughs'} at ~${extreme.toPrecision(6)}, neckline ${neckline.toPrecision(6)}${confirmed ? ' (broken)' : ''}`,
+    };
+  }
+  return null;
+}
+
+function detectHeadAndShoulders(candles: PatternCandle[], pivots: Pivot[], atr: number, timeframe: string): DetectedPattern | null {
+  const last = candles.length - 1;
+  const lastTimestamp = candles[last].timestamp;
+
+  for (const offset of [1, 2]) {
+    const end = pivots.length - offset;
+    if (end < 4) continue;
+    const [left, trough1, head, trough2, right] = pivots.slice(end - 4, end + 1);
+    if (left.kind !== head.kind || head.kind !== right.kind) continue;
+
+    const isTop = head.kind === 'HIGH';
+    const sign = isTop ? 1 : -1;
+    const headProminence = sign * (head.price - (isTop ? Math.max(left.price, right.price) : Math.min(left.price, right.price)));
+    const shoulderMismatch = Math.abs(left.price - right.price);
+    if (headProminence < atr * 0.5 || shoulderMismatch > atr * 1.25) continue;
+
+    // Shoulders must sit clearly beyond the neckline
+    const necklineAtRight = lineAt(trough1, trough2, right.timestamp);
+    if (sign * (right.price - necklineAtRight) < atr * 0.75) continue;
+
+    const after = candles.slice(right.index + 1);
+    if (after.some(c => sign * ((isTop ? c.high : c.low) - head.price) > 0)) continue;
+
+    const necklineNow = lineAt(trough1, trough2, lastTimestamp);
+    const confirmed = after.some(c => sign * (c.close - lineAt(trough1, trough2, c.timestamp)) < 0);
+    const height = Math.abs(head.price - lineAt(trough1, trough2, head.timestamp));
+    return {
+      type: isTop ? 'HEAD_AND_SHOULDERS' : 'INVERSE_HEAD_AND_SHOULDERS',
+      name: isTop ? 'Head & shoulders' : 'Inverse head & shoulders',
+      category: 'CHART',
+      direction: isTop ? 'BEARISH' : 'BULLISH',
+      confidence: clamp(60 + (confirmed ? 15 : 0) + (1 - shoulderMismatch / (atr * 1.25)) * 10 + Math.min(8, headProminence / atr * 2)),
+      timeframe,
+      startTime: left.timestamp,
+      endTime: right.timestamp,
+      barsAgo: last - right.index,
+      confirmed,
+      levels: [
+        { label: 'Neckline', price: necklineNow },
+        { label: 'Target', price: necklineNow - sign * height },
+        { label: 'Invalidation', price: right.price },
+      ],
+      lines: [extendLine('Neckline', trough1, trough2, lastTimestamp)],
+      description: `Head at ${head.price.toPrecision(6)}, neckline ${necklineNow.toPrecision(6)}${confirmed ? ' (broken)' : ''}`,
+    };
+  }
+  return null;
+}
+
+function detectTriangle(candles: PatternCandle[], pivots: Pivot[], atr: number, timeframe: string): DetectedPattern | null {
+  const last = candles.length - 1;
+  const lastTimestamp = candles[last].timestamp;
+  const highs = pivots.filter(p => p.kind === 'HIGH').slice(-3);
+  const lows = pivots.filter(p => p.kind === 'LOW').slice(-3);
+  if (highs.length < 2 || lows.length < 2) return null;
+
+  const firstIndex = Math.min(highs[0].index, lows[0].index);
+  if (last - firstIndex < 8 || last - Math.max(highs[highs.length - 1].index, lows[lows.length - 1].index) > 10) return null;
+
+  const h1 = highs[0];
+  const h2 = highs[highs.length - 1];
+  const l1 = lows[0];
+  const l2 = lows[lows.length - 1];
+  const flat = atr * 0.75;
+  const highMove = h2.price - h1.price;
+  const lowMove = l2.price - l1.price;
+
+  let type: 'ASCENDING_TRIANGLE' | 'DESCENDING_TRIANGLE' | 'SYMMETRICAL_TRIANGLE';
+  if (Math.abs(highMove) <= flat && lowMove > flat) type = 'ASCENDING_TRIANGLE';
+  else if (highMove < -flat && Math.abs(lowMove) <= flat) type = 'DESCENDING_TRIANGLE';
+  else if (highMove < -flat && lowMove > flat) type = 'SYMMETRICAL_TRIANGLE';
+  else return null;
+
+  const startTimestamp = candles[firstIndex].timestamp;
+  const widthStart = lineAt(h1, h2, startTimestamp) - lineAt(l1, l2, startTimestamp);
+  const upperNow = lineAt(h1, h2, lastTimestamp);
+  const lowerNow = lineAt(l1, l2, lastTimestamp);
+  if (widthStart <= 0 || upperNow - lowerNow >= widthStart) return null;
+
+  const close = candles[last].close;
+  const brokeUp = close > upperNow;
+  const brokeDown = close < lowerNow;
+
+  let direction: DetectedPattern['direction'];
+  if (type === 'ASCENDING_TRIANGLE') {
+    if (brokeDown) return null; // Failed — flat top held and the rising base gave way
+    direction = 'BULLISH';
+  } else if (type === 'DESCENDING_TRIANGLE') {
+    if (brokeUp) return null;
+    direction = 'BEARISH';
+  } else {
+    const trend = priorTrend(candles, firstIndex, atr, 10);
+    direction = brokeUp ? 'BULLISH' : brokeDown ? 'BEARISH' : trend === 1 ? 'BULLISH' : trend === -1 ? 'BEARISH' : 'NEUTRAL';
+  }
+
+  const confirmed = brokeUp || brokeDown;
+  const touches = highs.length + lows.length;
+  const names = {
+    ASCENDING_TRIANGLE: 'Ascending triangle',
+    DESCENDING_TRIANGLE: 'Descending triangle',
+    SYMMETRICAL_TRIANGLE: 'Symmetrical triangle',
+  };
+  const breakout = direction === 'BEARISH' ? lowerNow : upperNow;
+  return {
+    type,
+    name: names[type],
+    category: 'CHART',
+    direction,
+    confidence: clamp(50 + (touches - 4) * 5 + (confirmed ? 15 : 0) + (type === 'SYMMETRICAL_TRIANGLE' ? 0 : 5)),
+    timeframe,
+    startTime: startTimestamp,
+    endTime: Math.max(h2.timestamp, l2.timestamp),
+    barsAgo: last - Math.max(h2.index, l2.index),
+    confirmed,
+    levels: [
+      { label: 'Breakout', price: breakout },
+      { label: 'Target', price: direction === 'BEARISH' ? breakout - widthStart : breakout + widthStart },
+      { label: 'Invalidation', price: direction === 'BEARISH' ? upperNow : lowerNow },
+    ],
+    lines: [
+      extendLine('Resistance', h1, h2, lastTimestamp),
+      extendLine('Support', l1, l2, lastTimestamp),
+    ],
+    description: `${touches} touches, apex narrowing to ${(upperNow - lowerNow).toPrecision(4)}${confirmed ? ` (broke ${brokeUp ? 'up' : 'down'})` : ''}`,
+  };
+}
+
+function detectFlag(candles: PatternCandle[], atr: number, timeframe: string): DetectedPattern | null {
+  const last = candles.length - 1;
+
+  // Longest consolidation first — a 3-bar flag inside a 10-bar flag is the same setup
+  for (let flagBars = 10; flagBars >= 3; flagBars--) {
+    const poleEnd = last - flagBars;
+    if (poleEnd < 4) continue;
+
+    // Strongest pole of 3–8 bars ending where the flag starts
+    let poleStart = -1;
+    let poleMove = 0;
+    for (let k = 3; k <= 8 && poleEnd - k >= 0; k++) {
+      const move = candles[poleEnd].close - candles[poleEnd - k].open;
+      if (Math.abs(move) > Math.abs(poleMove)) {
+        poleMove = move;
+        poleStart = poleEnd - k;
+      }
+    }
+    if (poleStart < 0 || Math.abs(poleMove) < atr * 3) continue;
+
+    const isBullFlag = poleMove > 0;
+    const flag = candles.slice(poleEnd + 1, last + 1);
+    const base = flag.slice(0, -1).length >= 2 ? flag.slice(0, -1) : flag;
+    const flagHigh = Math.max(...base.map(c => c.high));
+    const flagLow = Math.min(...base.map(c => c.low));
+    const poleTop = Math.max(...candles.slice(poleStart, poleEnd + 1).map(c => c.high));
+    const poleBottom = Math.min(...candles.slice(poleStart, poleEnd + 1).map(c => c.low));
+    const height = Math.abs(poleMove);
+
+    if (flagHigh - flagLow > height * 0.5) continue;
+    if (isBullFlag && (flagLow < poleTop - height * 0.5 || flagHigh > poleTop + atr * 0.25)) continue;
+    if (!isBullFlag && (flagHigh > poleBottom + height * 0.5 || flagLow < poleBottom - atr * 0.25)) continue;
+
+    const close = candles[last].close;
+    const confirmed = isBullFlag ? close > flagHigh : close < flagLow;
+    const breakout = isBullFlag ? flagHigh : flagLow;
+    const first = flag[0];
+    const tail = base[base.length - 1];
+    return {
+      type: isBullFlag ? 'BULL_FLAG' : 'BEAR_FLAG',
+      name: isBullFlag ? 'Bull flag' : 'Bear flag',
+      category: 'CHART',
+      direction: isBullFlag ? 'BULLISH' : 'BEARISH',
+      confidence: clamp(55 + (confirmed ? 15 : 0) + Math.min(10, (height / atr - 3) * 3) + (1 - (flagHigh - flagLow) / (height * 0.5)) * 8),
+      timeframe,
+      startTime: candles[poleStart].timestamp,
+      endTime: candles[last].timestamp,
+      barsAgo: 0,
+      confirmed,
+      levels: [
+        { label: 'Breakout', price: breakout },
+        { label: 'Target', price: isBullFlag ? breakout + height : breakout - height },
+        { label: 'Invalidation', price: isBullFlag ? flagLow : flagHigh },
+      ],
+      lines: [
+        { label: 'Flag top', from: { timestamp: first.timestamp, price: first.high }, to: { timestamp: tail.timestamp, price: flagHigh } },
+        { label: 'Flag bottom', from: { timestamp: first.timestamp, price: first.low }, to: { timestamp: tail.timestamp, price: flagLow } },
+      ],
+      description: `${(height / atr).toFixed(1)}× ATR pole, ${flagBars}-bar consolidation${confirmed ? ' (broke out)' : ''}`,
+    };
+  }
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔎 PUBLIC API
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function detectPatterns(candles: PatternCandle[], timeframe = 'chart'): DetectedPattern[] {
+  const valid = candles.filter(c => Number.isFinite(c.open) && Number.isFinite(c.close) && c.high >= c.low);
+  if (valid.length < MIN_CANDLES) return [];
+
+  const window = valid.slice(-CHART_PATTERN_WINDOW);
+  const atr = averageTrueRange(window, window.length - 1);
+  const pivots = findPivots(window);
+
+  const chartPatterns = [
+    detectHeadAndShoulders(window, pivots, atr, timeframe),
+    detectDoubleTopBottom(window, pivots, atr, timeframe),
+    detectTriangle(window, pivots, atr, timeframe),
+    detectFlag(window, atr, timeframe),
+  ].filter((p): p is DetectedPattern => p !== null);
+
+  return [...chartPatterns, ...detectCandlestickPatterns(valid, timeframe)]
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// Chart candles first, then each multi-TF series (1h is skipped when the chart already covers it)
+export function analyzePatterns(chartData?: ChartTrendInput, multiTfData?: MultiTimeframeInput): DetectedPattern[] {
+  const patterns: DetectedPattern[] = [];
+  const hasChart = !!chartData?.isLive && chartData.candles.length >= MIN_CANDLES;
+  if (hasChart) patterns.push(...detectPatterns(chartData.candles, 'chart'));
+
+  if (multiTfData) {
+    (['15m', '1h', '4h', '1d'] as const).forEach(tf => {
+      const candles = multiTfData[tf]?.candles;
+      if (!candles || (tf === '1h' && hasChart)) return;
+      patterns.push(...detectPatterns(candles, tf));
+    });
+  }
+
+  return patterns.sort((a, b) => patternWeight(b) - patternWeight(a));
+}
+
+// How much one pattern counts toward the bias — 0 for neutral setups
+export function patternWeight(pattern: DetectedPattern): number {
+  if (pattern.direction === 'NEUTRAL') return 0;
+  const category = pattern.category === 'CHART' ? 1.5 : 1;
+  const recency = pattern.category === 'CANDLESTICK' ? Math.max(0.4, 1 - pattern.barsAgo * 0.2) : 1;
+  return (pattern.confidence / 100) * category * recency * (TIMEFRAME_WEIGHT[pattern.timeframe] ?? 1);
+}
+
+export function scorePatterns(patterns: DetectedPattern[]): PatternScore {
+  let bullish = 0;
+  let bearish = 0;
+  let strongestBullish: DetectedPattern | null = null;
+  let strongestBearish: DetectedPattern | null = null;
+
+  for (const pattern of patterns) {
+    const weight = patternWeight(pattern);
+    if (pattern.direction === 'BULLISH') {
+      bullish += weight;
+      if (!strongestBullish || weight > patternWeight(strongestBullish)) strongestBullish = pattern;
+    } else if (pattern.direction === 'BEARISH') {
+      bearish += weight;
+      if (!strongestBearish || weight > patternWeight(strongestBearish)) strongestBearish = pattern;
+    }
+  }
+
+  return { bullish, bearish, strongestBullish, strongestBearish };
+}
+
+// One-line summary used in insights and the report
+export function describePattern(pattern: DetectedPattern, tr: ReportTranslator = englishReport): string {
+  const emoji = pattern.category === 'CANDLESTICK' ? '🕯️' : '🧩';
+  const tf = pattern.timeframe === 'chart' ? '1H' : pattern.timeframe.toUpperCase();
+  const continuation = pattern.type.includes('FLAG') || pattern.type.includes('TRIANGLE');
+  const bias = pattern.direction === 'NEUTRAL'
+    ? tr.t('pattern.breakoutPending')
+    : pattern.direction === 'BULLISH'
+      ? tr.t(continuation ? 'pattern.bullishContinuation' : 'pattern.bullishReversal')
+      : tr.t(continuation ? 'pattern.bearishContinuation' : 'pattern.bearishReversal');
+  const confirmed = pattern.confirmed && pattern.category === 'CHART' ? `, ${tr.t('pattern.confirmed')}` : '';
+  return `${emoji} ${tf} ${tr.t(`pattern.${pattern.type}`)} → ${bias} (${pattern.confidence}%${confirmed})`;
+}
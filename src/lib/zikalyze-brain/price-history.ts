@@ -0,0 +1,88 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🕰️ PRICE HISTORY — Hourly closes per symbol for the cross-asset view
+// ═══════════════════════════════════════════════════════════════════════════════
+// The app keeps an hourly close per tracked symbol (price feed + candle archive)
+// in a PriceHistoryRecord (IndexedDB). These pure helpers maintain that record;
+// cross-asset.ts reads it for correlation, beta and the market regime.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { HourlyClose, PriceHistoryRecord } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const PRICE_HISTORY_RETENTION_MS = 30 * DAY_MS;
+// The forming hour's close is refreshed at most this often
+export const PRICE_SAMPLE_INTERVAL_MS = 60 * 1000;
+
+function emptyRecord(symbol: string): PriceHistoryRecord {
+  return { symbol: symbol.toUpperCase(), hourly: [], updated_at: new Date(0).toISOString() };
+}
+
+function hourStart(ms: number): number {
+  return Math.floor(ms / HOUR_MS) * HOUR_MS;
+}
+
+/**
+ * Record the latest price as the current hour's close. Refreshes of the same
+ * hour closer than PRICE_SAMPLE_INTERVAL_MS apart are dropped; returns null
+ * when nothing changed.
+ */
+export function appendPriceSample(
+  record: PriceHistoryRecord | null,
+  symbol: string,
+  price: number,
+  nowMs: number
+): PriceHistoryRecord | null {
+  if (!(price > 0)) return null;
+  const base = record ?? emptyRecord(symbol);
+  const hour = hourStart(nowMs);
+  const last = base.hourly[base.hourly.length - 1];
+
+  if (last && last.time === hour) {
+    if (last.close === price || nowMs - Date.parse(base.updated_at) < PRICE_SAMPLE_INTERVAL_MS) return null;
+    return { ...base, hourly: [...base.hourly.slice(0, -1), { time: hour, close: price }], updated_at: new Date(nowMs).toISOString() };
+  }
+  if (last && last.time > hour) return null;
+
+  return {
+    ...base,
+    hourly: [...base.hourly, { time: hour, close: price }].filter(c => nowMs - c.time <= PRICE_HISTORY_RETENTION_MS),
+    updated_at: new Date(nowMs).toISOString(),
+  };
+}
+
+/**
+ * Merge completed hourly candles — their closes replace sampled ones for the
+ * same hour. Returns null when nothing changed.
+ */
+export function mergePriceCandles(
+  record: PriceHistoryRecord | null,
+  symbol: string,
+  candles: HourlyClose[],
+  nowMs: number
+): PriceHistoryRecord | null {
+  const usable = candles.filter(c => c.close > 0 && nowMs - c.time <= PRICE_HISTORY_RETENTION_MS);
+  if (usable.length === 0) return null;
+
+  const base = record ?? emptyRecord(symbol);
+  const byHour = new Map(base.hourly.map(c => [c.time, c.close]));
+  let changed = false;
+  for (const candle of usable) {
+    const hour = hourStart(candle.time);
+    if (byHour.get(hour) !== candle.close) {
+      byHour.set(hour, candle.close);
+      changed = true;
+    }
+  }
+  if (!changed) return null;
+
+  return {
+    ...base,
+    hourly: [...byHour.entries()]
+      .map(([time, close]) => ({ time, close }))
+      .filter(c => nowMs - c.time <= PRICE_HISTORY_RETENTION_MS)
+      .sort((a, b) => a.time - b.time),
+    updated_at: new Date(nowMs).toISOString(),
+  };
+}
@@ -0,0 +1,82 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏷️ DATA PROVENANCE — Live, cached or derived, for every input of a verdict
+// ═══════════════════════════════════════════════════════════════════════════════
+// Estimators stamp their output DERIVED at the source; feeds stamp LIVE with the
+// time they were read. Freshness is judged once, at analysis time, so a reading
+// that sat in memory too long is reported as CACHED with its age.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DataProvenance, OnChainMetrics, OnChainProvenanceField } from './types';
+import { englishReport, ReportMessageKey, ReportTranslator } from './report-i18n';
+
+// A LIVE reading older than this is reported as CACHED
+export const LIVE_MAX_AGE_MS = 2 * 60 * 1000;
+
+// Sources the estimators have always written into OnChainMetrics.source
+const DERIVED_SOURCES = ['derived', 'derived-deterministic'];
+
+export function liveProvenance(source: string, asOfMs: number): DataProvenance {
+  return { kind: 'LIVE', source, asOf: new Date(asOfMs).toISOString() };
+}
+
+export function derivedProvenance(source: string, basis: string): DataProvenance {
+  return { kind: 'DERIVED', source, basis };
+}
+
+export function isDerived(provenance?: DataProvenance | null): boolean {
+  return provenance?.kind === 'DERIVED';
+}
+
+// Re-judge freshness at `nowMs`; DERIVED values have no age
+export function ageProvenance(provenance: DataProvenance, nowMs: number): DataProvenance {
+  if (provenance.kind === 'DERIVED' || !provenance.asOf) return provenance;
+  const ageMs = Math.max(0, nowMs - new Date(provenance.asOf).getTime());
+  if (provenance.kind === 'LIVE' && ageMs <= LIVE_MAX_AGE_MS) return provenance;
+  return { ...provenance, kind: 'CACHED', ageMs };
+}
+
+// Provenance of one on-chain field. Records without per-field provenance fall back
+// to the record's `source`, which is how real feeds reported before provenance existed.
+export function onChainFieldProvenance(
+  metrics: OnChainMetrics,
+  field: OnChainProvenanceField,
+  nowMs: number
+): DataProvenance {
+  const stamped = metrics.provenance?.[field];
+  if (stamped) return ageProvenance(stamped, nowMs);
+  if (DERIVED_SOURCES.includes(metrics.source)) return derivedProvenance(metrics.source, '24h price change');
+  return liveProvenance(metrics.source, nowMs);
+}
+
+export function formatAge(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+// The bases the estimators write — stored in English, printed in the report language
+const BASIS_KEYS: Record<string, ReportMessageKey> = {
+  '24h high/low/change': 'basis.priceRange',
+  '24h price change': 'basis.priceChange',
+  'no index supplied — neutral 50 assumed': 'basis.neutralFearGreed',
+  '24h volume × 0.85': 'basis.volumeEstimate',
+  'typical chain parameters': 'basis.chainParameters',
+  'chain throughput': 'basis.chainThroughput',
+};
+
+// One-line label for reports: "🟢 Live · mempool.space", "🟡 Cached 12m · …", "⚪ Estimated from …"
+export function describeProvenance(provenance: DataProvenance, tr: ReportTranslator = englishReport): string {
+  const { source } = provenance;
+  if (provenance.kind === 'LIVE') return `🟢 ${tr.t('provenance.live', { source })}`;
+  if (provenance.kind === 'CACHED') {
+    return provenance.ageMs !== undefined
+      ? `🟡 ${tr.t('provenance.cachedAge', { age: formatAge(provenance.ageMs), source })}`
+      : `🟡 ${tr.t('provenance.cached', { source })}`;
+  }
+  const basis = provenance.basis ?? source;
+  return `⚪ ${tr.t('provenance.estimated', { basis: BASIS_KEYS[basis] ? tr.t(BASIS_KEYS[basis]) : basis })}`;
+}
@@ -0,0 +1,91 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌍 REPORT I18N — Message catalogs for the generated analysis report
+// ═══════════════════════════════════════════════════════════════════════════════
+// The brain runs in a worker without i18next, so it carries its own catalogs
+// (report-locales/*.ts) for the same locales the UI ships. Modules that print
+// text take a ReportTranslator and build every string from a key and params;
+// it defaults to English so callers outside the report keep working.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { en } from './report-locales/en';
+
+export type ReportMessageKey = keyof typeof en;
+export type ReportCatalog = Record<ReportMessageKey, string>;
+export type ReportParams = Record<string, string | number>;
+export type TextDirection = 'ltr' | 'rtl';
+
+// English is built in; the other catalogs are fetched on first use (loadReportLocale)
+const LOADERS = {
+  es: () => import('./report-locales/es').then(m => m.es),
+  fr: () => import('./report-locales/fr').then(m => m.fr),
+  de: () => import('./report-locales/de').then(m => m.de),
+  zh: () => import('./report-locales/zh').then(m => m.zh),
+  ja: () => import('./report-locales/ja').then(m => m.ja),
+  pcm: () => import('./report-locales/pcm').then(m => m.pcm),
+  ar: () => import('./report-locales/ar').then(m => m.ar),
+  hi: () => import('./report-locales/hi').then(m => m.hi),
+  ru: () => import('./report-locales/ru').then(m => m.ru),
+};
+
+export type ReportLocale = 'en' | keyof typeof LOADERS;
+
+export const REPORT_LOCALES: ReportLocale[] = ['en', ...Object.keys(LOADERS) as ReportLocale[]];
+
+const catalogs: Partial<Record<ReportLocale, ReportCatalog>> = { en };
+const loading = new Map<ReportLocale, Promise<void>>();
+
+const RTL_LOCALES: ReportLocale[] = ['ar'];
+
+export interface ReportTranslator {
+  locale: ReportLocale;
+  direction: TextDirection;
+  t(key: ReportMessageKey, params?: ReportParams): string;
+  value(value: string): string; // Enum values (BULLISH, INFLOW, NET BUYING…) — unknown ones pass through
+}
+
+// 'pt-BR' → 'pt', unknown → 'en'
+export function resolveReportLocale(language: string | undefined): ReportLocale {
+  const base = (language || 'en').toLowerCase().split(/[-_]/)[0];
+  return REPORT_LOCALES.includes(base as ReportLocale) ? base as ReportLocale : 'en';
+}
+
+// Fetch a locale's catalog once; a failed fetch leaves that report in English
+export function loadReportLocale(language: string | undefined): Promise<void> {
+  const locale = resolveReportLocale(language);
+  if (locale === 'en' || catalogs[locale]) return Promise.resolve();
+  let pending = loading.get(locale);
+  if (!pending) {
+    pending = LOADERS[locale]()
+      .then(catalog => { catalogs[locale] = catalog; })
+      .catch(error => console.warn(`[Report] '${locale}' messages failed to load, using English:`, error))
+      .finally(() => loading.delete(locale));
+    loading.set(locale, pending);
+  }
+  return pending;
+}
+
+export function reportDirection(language: string | undefined): TextDirection {
+  return RTL_LOCALES.includes(resolveReportLocale(language)) ? 'rtl' : 'ltr';
+}
+
+const interpolate = (template: string, params?: ReportParams): string =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+// English until loadReportLocale has fetched the language's catalog
+export function createReportTranslator(language: string | undefined): ReportTranslator {
+  const requested = resolveReportLocale(language);
+  const locale = catalogs[requested] ? requested : 'en';
+  const catalog: ReportCatalog = catalogs[locale];
+  const t = (key: ReportMessageKey, params?: ReportParams) => interpolate(catalog[key] ?? en[key] ?? key, params);
+  return {
+    locale,
+    direction: reportDirection(locale),
+    t,
+    value: (value) => {
+      const key = `value.${value.toUpperCase().replace(/\s+/g, '_')}`;
+      return key in catalog ? catalog[key as ReportMessageKey] : value;
+    },
+  };
+}
+
+export const englishReport: ReportTranslator = createReportTranslator('en');
@@ -0,0 +1,453 @@
+// Arabic report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const ar: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': 'تحليل {symbol}',
+  'report.tldr': 'الخلاصة',
+  'report.range24h': '24 ساعة',
+  'report.volumeSpike': 'قفزة في الحجم: +{percent}% فوق {baseline} ({magnitude}) [سوق فوري، من المجمّع]',
+  'report.volume': 'الحجم',
+  'report.volumeAbove': '+{percent}% فوق {baseline}',
+  'report.volumeBelow': '{percent}% دون {baseline}',
+  'report.volumeNear': 'قرب {baseline}',
+  'report.avg24h': 'متوسط 24 ساعة',
+  'report.avgSameHour': 'متوسط الساعة نفسها',
+  'report.avgWindow': 'متوسط {window}',
+  'report.futuresOI': 'الفائدة المفتوحة للعقود الآجلة',
+  'report.oiRising': 'في ارتفاع (تراكم مراكز شراء)',
+  'report.oiDeclining': 'في انخفاض (إغلاق مراكز بيع)',
+  'report.oiStable': 'مستقرة',
+  'report.volumeProfile': 'ملف الحجم ({hours} ساعة): POC {poc} • منطقة القيمة {low}–{high} • السعر {position}',
+  'report.aboveValue': 'فوق منطقة القيمة',
+  'report.belowValue': 'دون منطقة القيمة',
+  'report.inValue': 'داخل منطقة القيمة',
+  'report.verdict': 'الحكم',
+  'report.confidence': 'الثقة',
+  'report.calibratedFrom': 'معايَرة من {percent}%',
+  'report.marketPulse': 'نبض السوق',
+  'report.fearGreed': 'الخوف والطمع',
+  'report.whaleActivity': 'نشاط الحيتان',
+  'report.buy': 'شراء',
+  'report.sell': 'بيع',
+  'report.net': 'الصافي',
+  'report.exchangeFlow': 'تدفق المنصات',
+  'report.institutional': 'المؤسسات',
+  'report.noEtf': 'غير متاح (لا يوجد ETF لهذا الأصل)',
+  'report.etfOnly': 'صناديق ETF لـ BTC/ETH فقط',
+  'report.crossAsset': 'عبر الأصول',
+  'report.regimeUnavailable': 'حالة السوق غير متاحة',
+  'report.versus': 'مقابل {benchmark}',
+  'report.notScored': 'غير محتسب (تقديري): {factors}',
+  'report.macroCatalyst': 'محفز اقتصادي كلي',
+  'report.multiTimeframe': 'أطر زمنية متعددة',
+  'report.priceEstimates': 'استخدام تقديرات مبنية على السعر (واجهة الرسوم غير متاحة)',
+  'report.alignedBullish': '{count}/5 صاعد',
+  'report.alignedBearish': '{count}/5 هابط',
+  'report.alignmentMixed': 'متباين ({bullish} صاعد/{bearish} هابط)',
+  'report.confluence': 'التوافق',
+  'report.confluenceStrong': 'قوي',
+  'report.confluenceModerate': 'متوسط',
+  'report.confluenceWeak': 'ضعيف',
+  'report.estimated': 'تقديري',
+  'report.precisionEntry': 'دخول دقيق على 15 دقيقة',
+  'report.executeNow': 'نفّذ الآن',
+  'report.waitPullback': 'انتظر التراجع',
+  'report.waitBreakout': 'انتظر الاختراق',
+  'report.noTrade': 'لا صفقة',
+  'report.entryZone': 'منطقة الدخول',
+  'report.trigger': 'المحفّز',
+  'report.confirm': 'التأكيد',
+  'report.invalid': 'الإلغاء',
+  'report.liquidity': 'السيولة',
+  'report.derivatives': 'المشتقات',
+  'report.flipLong': 'عند الإلغاء: انقلب إلى شراء فوق {price}',
+  'report.flipShort': 'عند الإلغاء: انقلب إلى بيع دون {price}',
+  'report.success': 'احتمال النجاح',
+  'report.successFavorable': 'مواتٍ — توافق جيد، أدِر المخاطر',
+  'report.successModerate': 'متوسط — تأكيد جزئي، ابقَ مرنًا',
+  'report.successUncertain': 'غير مؤكد — إشارات متباينة، قلّل الحجم',
+  'report.successWeak': 'ضعيف — ثقة منخفضة، فكّر في الانتظار',
+  'report.keyInsights': 'أبرز الملاحظات',
+  'report.scenarios': 'السيناريوهات (الاتجاهان)',
+  'report.livePrice': 'سعر مباشر',
+  'report.cachedPrice': 'سعر مخزّن',
+  'report.realCharts': 'رسوم حقيقية',
+  'report.derivedCharts': 'مشتقة',
+  'report.liveOnChain': 'بيانات سلسلة مباشرة',
+  'report.estimatedInput': '{count} مُدخل تقديري',
+  'report.estimatedInputs': '{count} مُدخلات تقديرية',
+  'report.excluded': 'مستبعد',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'يميل بوضوح إلى الصعود',
+  'bias.leaningBullish': 'يميل إلى الصعود',
+  'bias.slightBullish': 'ميل صعودي طفيف',
+  'bias.favoringBearish': 'يميل بوضوح إلى الهبوط',
+  'bias.leaningBearish': 'يميل إلى الهبوط',
+  'bias.slightBearish': 'ميل هبوطي طفيف',
+  'bias.neutral': 'محايد',
+  'tldr.confluenceDecent': 'توافق جيد',
+  'tldr.confluenceMixed': 'توافق متباين',
+  'tldr.confluenceWeak': 'توافق ضعيف',
+  'tldr.zoneExtended': 'منطقة ممتدة',
+  'tldr.zoneDiscount': 'منطقة خصم',
+  'tldr.zoneMidRange': 'منتصف النطاق',
+  'tldr.buyZone': 'منطقة شراء محتملة',
+  'tldr.sellZone': 'منطقة بيع محتملة',
+  'tldr.rangeBound': 'ضمن نطاق',
+  'tldr.awaitPullback': 'انتظر التراجع',
+  'tldr.awaitBreakout': 'انتظر الاختراق',
+  'tldr.noEntry': 'لا دخول واضح',
+
+  // ── Range position ──
+  'context.nearHigh': 'قرب أعلى 24 ساعة ({percent}% من القمة)',
+  'context.upperRange': 'النطاق العلوي (أعلى 30% من 24 ساعة)',
+  'context.nearLow': 'قرب أدنى 24 ساعة ({percent}% فوق القاع)',
+  'context.lowerRange': 'النطاق السفلي (أدنى 30% من 24 ساعة)',
+  'context.midRange': 'تماسك في منتصف النطاق',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'خوف شديد',
+  'fearGreed.fear': 'خوف',
+  'fearGreed.neutral': 'محايد',
+  'fearGreed.greed': 'طمع',
+  'fearGreed.highGreed': 'طمع مرتفع',
+  'fearGreed.extremeGreed': 'طمع شديد',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'صاعد',
+  'value.BEARISH': 'هابط',
+  'value.NEUTRAL': 'محايد',
+  'value.STRONGLY_BULLISH': 'صاعد بقوة',
+  'value.CAUTIOUSLY_BULLISH': 'صاعد بحذر',
+  'value.CAUTIOUS': 'حذر',
+  'value.INFLOW': 'تدفق داخل',
+  'value.OUTFLOW': 'تدفق خارج',
+  'value.NET_BUYING': 'صافي شراء',
+  'value.NET_SELLING': 'صافي بيع',
+  'value.ACCUMULATING': 'تجميع',
+  'value.DISTRIBUTING': 'تصريف',
+  'value.BALANCED': 'متوازن',
+  'value.EXTREME': 'شديد',
+  'value.HIGH': 'مرتفع',
+  'value.MEDIUM': 'متوسط',
+  'value.MODERATE': 'معتدل',
+  'value.LOW': 'منخفض',
+  'value.NORMAL': 'طبيعي',
+  'direction.bullish': 'صاعد',
+  'direction.bearish': 'هابط',
+  'direction.neutral': 'محايد',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'اتجاه صاعد',
+  'regime.TRENDING_DOWN': 'اتجاه هابط',
+  'regime.RANGING': 'تذبذب ضمن نطاق',
+  'regime.HIGH_VOL_CRASH': 'انهيار عالي التقلب',
+  'regime.ALT_SEASON': 'موسم العملات البديلة',
+  'regime.detailCrash': 'BTC {change} خلال 24 ساعة',
+  'regime.detailCrashVolatility': 'BTC {change} خلال 24 ساعة، التقلب {ratio}× المعتاد لـ 30 يومًا',
+  'regime.detailAltSeason': '{percent}% من {count} عملة بديلة تفوقت على BTC خلال 7 أيام',
+  'regime.detailTrend': 'BTC {change} خلال 72 ساعة، الكفاءة {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'التمويل {rate}/{hours} ساعات ({apr} سنوياً)',
+  'derivatives.crowdedLong': 'مراكز شراء مزدحمة',
+  'derivatives.crowdedShort': 'مراكز بيع مزدحمة',
+  'derivatives.openInterest': 'الفائدة المفتوحة {value} ({change} خلال 24 ساعة)',
+  'derivatives.openInterestNoChange': 'الفائدة المفتوحة {value}',
+  'derivatives.liquidations': 'التصفيات خلال ساعة: شراء {longs} / بيع {shorts}',
+  'oiRegime.NEW_LONGS': 'مراكز شراء جديدة',
+  'oiRegime.SHORT_COVERING': 'تغطية مراكز البيع',
+  'oiRegime.NEW_SHORTS': 'مراكز بيع جديدة',
+  'oiRegime.LONG_UNWIND': 'تفكيك مراكز الشراء',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'اتجاه السعر',
+  'factor.price-position': 'الموقع في النطاق',
+  'factor.fear-greed': 'الخوف والطمع',
+  'factor.institutional': 'تدفق المؤسسات',
+  'factor.on-chain': 'صافي تدفق المنصات',
+  'factor.volume': 'الحجم',
+  'factor.indicators': 'المؤشرات',
+  'factor.patterns': 'الأنماط',
+  'factor.cross-asset': 'عبر الأصول',
+  'factor.derivatives': 'المشتقات',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'التوافق من الأعلى للأسفل × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% متوافق، {branch} — {trends}',
+  'confidence.branchNoDirection': 'لا يوجد اتجاه للتداول',
+  'confidence.branchAgree': 'الأساسيات متوافقة',
+  'confidence.branchConflict': 'الأساسيات متعارضة',
+  'confidence.branchNeutral': 'الأساسيات محايدة',
+  'confidence.fundamentals': 'الدرجة الأساسية × 0.25',
+  'confidence.fundamentalsDetail': '{bias} عند {confidence}% ({bull} نقاط صعود مقابل {bear} نقاط هبوط)',
+  'confidence.heldTo': 'محصور بين {low}–{high}%',
+  'confidence.bandDetail': 'نطاق الثقة: {branch}',
+  'confidence.macro': 'خصم حدث اقتصادي كلي',
+  'confidence.macroDetail': '{event} خلال يومين',
+  'confidence.clampDetail': 'حدود الثقة الفنية',
+  'confidence.neuralBlend': 'المزج العصبي (25%)',
+  'confidence.neuralBlendDetail': 'النموذج يقول {bias} عند {confidence}%',
+  'confidence.neuralAgrees': 'الشبكة العصبية موافقة',
+  'confidence.neuralDisagrees': 'الشبكة العصبية غير موافقة',
+  'confidence.neuralAgreementDetail': 'اتفاق النماذج {percent}%',
+  'confidence.finalClamp': 'مقرّب ومحصور بين {low}–{high}%',
+  'confidence.finalClampDetail': 'حدود الثقة النهائية',
+  'confidence.calibrated': 'معايَر ({method})',
+  'confidence.calibratedDetail': '{scope}: {count} إشارة مُقيّمة — إشارات {raw}% كانت صحيحة {calibrated}% من الوقت',
+  'confidence.allSymbols': 'كل الرموز',
+
+  // ── Key insights ──
+  'insight.aligned': 'التحليل الفني والأساسي متوافقان',
+  'insight.technicalLeads': 'التحليل الفني يقود (الأساسي {direction}، متباين)',
+  'insight.technicalFundamentalNeutral': 'إشارة فنية (الأساسي محايد)',
+  'insight.technicalSignal': 'إشارة فنية',
+  'insight.verdictBullish': 'صاعد — {note}',
+  'insight.verdictBearish': 'هابط — {note}',
+  'insight.verdictNeutral': 'محايد — لا اتجاه فني واضح',
+  'insight.exchangeInflowPressure': 'تدفقات إلى المنصات ({magnitude}) ← ضغط تصريف',
+  'insight.exchangeOutflowSignal': 'تدفقات من المنصات ({magnitude}) ← إشارة تجميع',
+  'insight.whales': 'الحيتان: {flow}',
+  'insight.whalesBalanced': 'الحيتان: نشاط متوازن',
+  'insight.longTermHolders': 'حائزو المدى الطويل +{percent}% (7 أيام)',
+  'insight.etfFlow': 'تدفق ETF: {flow} ({sentiment})',
+  'insight.strongUptrend': 'اتجاه صاعد قوي ({change})',
+  'insight.bullishMomentum': 'زخم صاعد ({change})',
+  'insight.mildBullish': 'صعود طفيف ({change})',
+  'insight.strongDowntrend': 'اتجاه هابط قوي ({change})',
+  'insight.bearishMomentum': 'زخم هابط ({change})',
+  'insight.mildBearish': 'هبوط طفيف ({change})',
+  'insight.sideways': 'حركة عرضية ({change})',
+  'insight.deepDiscount': 'خصم عميق — أفضل منطقة شراء',
+  'insight.premiumZone': 'منطقة علاوة — توخَّ الحذر',
+  'insight.extremeFear': 'خوف شديد — شراء عكسي',
+  'insight.extremeGreed': 'طمع شديد — بيع عكسي',
+  'insight.institutionsBuying': 'المؤسسات تشتري',
+  'insight.institutionsSelling': 'المؤسسات تبيع',
+  'insight.exchangeOutflows': 'تدفقات من المنصات — تجميع',
+  'insight.exchangeInflows': 'تدفقات إلى المنصات — تصريف',
+  'insight.volumeConfirmsBulls': 'الحجم المرتفع يؤكد المشترين',
+  'insight.volumeConfirmsBears': 'الحجم المرتفع يؤكد البائعين',
+  'insight.indicatorsBullish': 'المؤشرات صاعدة ({signals})',
+  'insight.indicatorsBearish': 'المؤشرات هابطة ({signals})',
+  'insight.bollingerSqueeze': 'انضغاط بولينجر — توسع مرتقب',
+  'insight.factorsBullish': 'صاعد — {bullish} عوامل صاعدة مقابل {bearish} هابطة',
+  'insight.factorsBearish': 'هابط — {bearish} عوامل هابطة مقابل {bullish} صاعدة',
+  'insight.leanBullish': 'ميل صاعد — إشارات متوسطة',
+  'insight.leanBearish': 'ميل هابط — إشارات متوسطة',
+  'insight.noEdge': 'محايد — لا أفضلية واضحة',
+  'insight.crashRegime': 'حالة انهيار عالي التقلب — {detail}، تجنّب المخاطرة',
+  'insight.btcHeadwind': 'بنية BTC هابطة — {symbol} يتبعه (ρ {correlation}، β {beta})، الشراء عكس التيار',
+  'insight.btcTailwind': 'بنية BTC صاعدة — رياح مواتية لـ {symbol} (ρ {correlation}، β {beta})',
+  'insight.altSeason': 'موسم العملات البديلة — {detail}',
+  'insight.fundingCrowdedLong': 'التمويل {rate} كل {hours} ساعات عند مستوى متطرف — مراكز الشراء مزدحمة، خطر ضغط نحو الأسفل',
+  'insight.fundingCrowdedShort': 'التمويل {rate} كل {hours} ساعات عند مستوى متطرف — مراكز البيع مزدحمة، خطر ضغط نحو الأعلى',
+  'insight.oiNewLongs': 'الفائدة المفتوحة {oi} مع السعر {price} خلال {hours} ساعات — مراكز شراء جديدة تدعم الحركة',
+  'insight.oiShortCovering': 'السعر {price} بينما الفائدة المفتوحة {oi} خلال {hours} ساعات — تغطية مراكز بيع، لا مشترين جدد',
+  'insight.oiNewShorts': 'الفائدة المفتوحة {oi} مع السعر {price} خلال {hours} ساعات — مراكز بيع جديدة تضغط',
+  'insight.oiLongUnwind': 'السعر {price} بينما الفائدة المفتوحة {oi} خلال {hours} ساعات — تفكيك مراكز شراء، لا بائعين جدد',
+  'insight.longsFlushed': 'تصفية {amount} من مراكز الشراء قرب {price} — تم تفريغ الرافعة',
+  'insight.shortsSqueezed': 'تصفية {amount} من مراكز البيع قرب {price} — ضغط على البائعين',
+  'insight.smartMoneyAccumulating': 'الأموال الذكية تجمع بينما يهلع الأفراد — تاريخيًا إشارة صاعدة',
+  'insight.institutionsDistributing': 'المؤسسات تصرّف للأفراد المندفعين — يُنصح بالحذر',
+  'insight.alignedBullish': 'جميع المشاركين متفقون على الصعود — ثقة عالية',
+  'insight.alignedBearish': 'جميع المشاركين متفقون على الهبوط — ثقة عالية',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'ابتلاع صاعد',
+  'pattern.BEARISH_ENGULFING': 'ابتلاع هابط',
+  'pattern.BULLISH_PIN_BAR': 'شمعة دبوس صاعدة',
+  'pattern.BEARISH_PIN_BAR': 'شمعة دبوس هابطة',
+  'pattern.INSIDE_BAR': 'شمعة داخلية',
+  'pattern.MORNING_STAR': 'نجمة الصباح',
+  'pattern.EVENING_STAR': 'نجمة المساء',
+  'pattern.DOUBLE_TOP': 'قمة مزدوجة',
+  'pattern.DOUBLE_BOTTOM': 'قاع مزدوج',
+  'pattern.HEAD_AND_SHOULDERS': 'رأس وكتفان',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'رأس وكتفان مقلوب',
+  'pattern.ASCENDING_TRIANGLE': 'مثلث صاعد',
+  'pattern.DESCENDING_TRIANGLE': 'مثلث هابط',
+  'pattern.SYMMETRICAL_TRIANGLE': 'مثلث متماثل',
+  'pattern.BULL_FLAG': 'علم صاعد',
+  'pattern.BEAR_FLAG': 'علم هابط',
+  'pattern.breakoutPending': 'الاختراق معلّق',
+  'pattern.bullishContinuation': 'استمرار صاعد',
+  'pattern.bearishContinuation': 'استمرار هابط',
+  'pattern.bullishReversal': 'انعكاس صاعد',
+  'pattern.bearishReversal': 'انعكاس هابط',
+  'pattern.confirmed': 'مؤكد',
+
+  // ── Data provenance ──
+  'provenance.live': 'مباشر · {source}',
+  'provenance.cached': 'مخزّن · {source}',
+  'provenance.cachedAge': 'مخزّن {age} · {source}',
+  'provenance.estimated': 'مقدَّر من {basis}',
+  'basis.priceRange': 'أعلى/أدنى/تغير 24 ساعة',
+  'basis.priceChange': 'تغير السعر خلال 24 ساعة',
+  'basis.neutralFearGreed': 'لا يوجد مؤشر — يُفترض 50 محايد',
+  'basis.volumeEstimate': 'حجم 24 ساعة × 0.85',
+  'basis.chainParameters': 'معاملات السلسلة المعتادة',
+  'basis.chainThroughput': 'إنتاجية السلسلة',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} ({countdown})',
+  'macro.countdownToday': 'اليوم',
+  'macro.countdownTomorrow': 'غدًا',
+  'macro.countdownDays': 'بعد {days} أيام',
+  'macro.confidenceReduced': 'خُفّضت الثقة بسبب قرب الحدث',
+  'macro.today': 'اليوم',
+  'macro.tomorrow': 'غدًا',
+  'macro.inDays': 'خلال {days} أيام',
+  'macro.joblessClaims': 'طلبات إعانة البطالة الأسبوعية',
+  'macro.watchReaction': 'راقب ردة فعل السوق',
+  'macro.quarterlyExpiry': 'انتهاء الخيارات الفصلية (مهم)',
+  'macro.monthlyExpiry': 'انتهاء الخيارات الشهرية',
+  'macro.quarterlyExpiryNote': 'انتهاء خيارات بمليارات الدولارات — توقّع تقلبات نقطة الألم القصوى',
+  'macro.monthlyExpiryNote': 'تدوير مراكز كبيرة',
+  'macro.tradePolicy': 'الرسوم الجمركية/السياسة التجارية + الجيوسياسة',
+  'macro.tradePolicyNote': 'التوترات التجارية وأخبار التنظيم قد تسبب تحركات حادة',
+  'macro.fomc': 'قرار الفائدة من FOMC',
+  'macro.fomcNote': 'CME FedWatch: نحو 90% تتوقع التثبيت. خفض مفاجئ = صعود قوي جدًا، رفع = خطر انهيار',
+  'macro.cpi': 'بيانات التضخم CPI الأمريكية',
+  'macro.cpiNote': 'التوقعات: نحو 2.8% سنويًا. أقل = مفاجأة صاعدة (أمل بخفض الفائدة)، أعلى = ردة فعل متشددة',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'النطاق: {low} – {high}',
+  'entry.zoneWait': 'انتظر: {low} – {high}',
+  'entry.zonePullback': 'انتظر التراجع إلى {low} – {high}',
+  'entry.zoneReliefRally': 'انتظر الارتداد إلى {low} – {high}',
+  'entry.zoneDiscount': 'خصم: دخول عند {price}',
+  'entry.zonePremium': 'علاوة: دخول عند {price}',
+  'entry.zoneBreakdown': 'كسر: دخول عند {price}',
+  'entry.zoneEntry': 'الدخول: {price}',
+  'entry.triggerNoTrade': 'لا صفقة — توافق {confluence}% (يلزم 45%+)',
+  'entry.triggerNeutral': 'لا صفقة — ميل محايد، انتظر الاتجاه',
+  'entry.triggerStrongUptrend': 'انتظر — اتجاه صاعد قوي (+{change}%)، انتظر التراجع إلى الدعم الرئيسي',
+  'entry.triggerBuyDiscount': 'شراء — السعر في منطقة خصم مع توافق صاعد',
+  'entry.triggerExtended': 'انتظر — السعر ممتد، لا تلاحقه. انتظر التراجع إلى الدعم',
+  'entry.triggerBuyMomentum': 'شراء — زخم مع الاتجاه',
+  'entry.triggerRiskRewardLong': 'انتظر — نسبة العائد للمخاطرة ضعيفة، انتظر دخولًا أفضل',
+  'entry.triggerSupport': 'انتظر — دخول أفضل عند منطقة الدعم',
+  'entry.triggerStrongDowntrend': 'انتظر — اتجاه هابط قوي ({change}%)، انتظر الارتداد إلى المقاومة الرئيسية',
+  'entry.triggerSellPremium': 'بيع — السعر في منطقة علاوة مع توافق هابط',
+  'entry.triggerSellBreakdown': 'بيع — تأكد الكسر، بيع مع الزخم',
+  'entry.triggerRiskRewardBreakdown': 'انتظر — نسبة العائد للمخاطرة ضعيفة بعد الكسر',
+  'entry.triggerOversold': 'انتظر — تشبع بيعي، انتظر الارتداد قبل البيع',
+  'entry.triggerSellMomentum': 'بيع — زخم مع الاتجاه',
+  'entry.triggerRiskRewardShort': 'انتظر — نسبة العائد للمخاطرة ضعيفة، انتظر الارتداد',
+  'entry.triggerResistance': 'انتظر — دخول أفضل عند منطقة المقاومة',
+  'entry.triggerDefault': 'انتظر الإعداد',
+  'entry.confirmMixed': 'الأطر {bullish} صاعد/{bearish} هابط — انتظر التوافق',
+  'entry.confirmBuyFib50': 'اشترِ عند ظهور حركة سعرية صاعدة عند {price} (فيبوناتشي 50%)',
+  'entry.confirmSellFib50': 'بِع عند ظهور حركة سعرية هابطة عند {price} (فيبوناتشي 50%)',
+  'entry.confirmConfluenceTarget': 'التوافق {confluence}% • الهدف: {price}',
+  'entry.confirmTarget': 'الهدف: {price}',
+  'entry.confirmRetraceLong': 'تصحيح إلى منطقة فيبوناتشي 38-62% مع شمعة تأكيد صاعدة',
+  'entry.confirmPullbackRiskReward': 'انتظر التراجع لتحسين العائد/المخاطرة',
+  'entry.confirmBuyFib': 'اشترِ عند ظهور حركة سعرية صاعدة عند مستوى فيبوناتشي',
+  'entry.confirmBelowSupport': 'السعر دون الدعم، ضغط بيع {percent}%',
+  'entry.confirmBounceShort': 'انتظر الارتداد للبيع بنسبة عائد/مخاطرة أفضل',
+  'entry.confirmBounceFib': 'بِع على الارتداد إلى منطقة فيبوناتشي 38-62% مع شمعة هابطة',
+  'entry.confirmReliefRiskReward': 'انتظر الارتداد لتحسين العائد/المخاطرة',
+  'entry.confirmSellFib': 'بِع عند ظهور حركة سعرية هابطة عند مستوى فيبوناتشي',
+  'entry.confirmNeutral': 'انتظر اختراقًا أو كسرًا مؤكدًا بالحجم',
+  'entry.confirmPending': 'معلّق',
+  'entry.invalidBelowRiskReward': 'دون {price} — العائد/المخاطرة {ratio}:1',
+  'entry.invalidAboveRiskReward': 'فوق {price} — العائد/المخاطرة {ratio}:1',
+  'entry.invalidBelow': 'دون {price}',
+  'entry.invalidAbove': 'فوق {price}',
+  'entry.invalidTrendBreak': 'دون {price} (كسر الاتجاه)',
+  'entry.invalidTrendReversal': 'فوق {price} (انعكاس الاتجاه)',
+  'entry.invalidNone': 'غير متاح',
+  'entry.structureInsufficient': 'توافق غير كافٍ',
+  'entry.structureStrongBullish': 'صاعد بقوة (توافق {confluence}%)',
+  'entry.structureBullish': 'صاعد (توافق {confluence}%)',
+  'entry.structureStrongBearish': 'هابط بقوة (توافق {confluence}%)',
+  'entry.structureBearish': 'هابط (توافق {confluence}%)',
+  'entry.structureExtended': 'ممتد',
+  'entry.structureTrending': 'في اتجاه',
+  'entry.structureBreakdown': 'كسر جارٍ',
+  'entry.structureOversold': 'تشبع بيعي',
+  'entry.structureNeutral': 'محايد',
+  'entry.structureUndefined': 'غير محدد',
+  'entry.phaseWaitSetup': 'انتظر الإعداد',
+  'entry.phaseWaitingPullback': 'بانتظار التراجع',
+  'entry.phaseAccumulation': 'تجميع',
+  'entry.phaseDistribution': 'تصريف',
+  'entry.phaseWaitRetracement': 'انتظر التصحيح',
+  'entry.phaseImpulse': 'موجة دافعة',
+  'entry.phaseImpulseDown': 'موجة دافعة هابطة',
+  'entry.phaseConsolidation': 'تماسك',
+  'entry.phaseUnknown': 'غير معروف',
+  'entry.liquidityBidHeavy': 'دفتر الأوامر يميل للشراء بنسبة {percent}% ضمن ±2%، الفارق {spread}%',
+  'entry.liquidityAskHeavy': 'دفتر الأوامر يميل للبيع بنسبة {percent}% ضمن ±2%، الفارق {spread}%',
+  'entry.liquidityBalanced': 'دفتر الأوامر متوازن ضمن ±2%، الفارق {spread}%',
+  'entry.liquidityBidWall': 'جدار شراء {size} عند {price} (−{distance}%)',
+  'entry.liquidityAskWall': 'جدار بيع {size} عند {price} (+{distance}%)',
+  'entry.triggerAskWallAhead': 'انتظر — جدار بيع بقيمة {size} عند {price} فوق السعر مباشرة. ادخل بعد امتصاصه وثبات السعر فوقه',
+  'entry.triggerBidWallAhead': 'انتظر — جدار شراء بقيمة {size} عند {price} تحت السعر مباشرة. ادخل بعد امتصاصه وثبات السعر تحته',
+
+  // ── Trade plan ──
+  'plan.stop': 'وقف الخسارة',
+  'plan.close': 'أغلق {percent}%',
+  'plan.blended': 'المجمّع',
+  'plan.estimated': 'تقديري',
+  'plan.size': 'الحجم: {units} {symbol} (~{notional}) لمخاطرة {risk} ({percent}% من {account})',
+  'plan.stopSwingLow': 'قاع التأرجح − {buffer}× ATR',
+  'plan.stopSwingHigh': 'قمة التأرجح + {buffer}× ATR',
+  'plan.stopBeyondEntry': '1.5× ATR بعد الدخول',
+  'plan.stopMinimum': 'الحد الأدنى {multiple}× ATR',
+  'plan.stopCap': 'الحد الأقصى {multiple}× ATR',
+  'plan.swingHigh': 'قمة التأرجح',
+  'plan.swingLow': 'قاع التأرجح',
+  'plan.runner': 'المتبقي',
+  'plan.rMultiple': 'مضاعف R',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'إذا أغلق السعر دون {price} خلال {hours} ساعة',
+  'scenario.closeAbove': 'إذا أغلق السعر فوق {price} خلال {hours} ساعة',
+  'scenario.sustainAbove': 'إذا بقي السعر فوق {price} عند الساعة {hours}',
+  'scenario.holdBelow': 'إذا كسر السعر {price} وبقي دونه عند الساعة {hours}',
+  'scenario.range': 'إذا بقي السعر بين {low} - {high} خلال الـ {hours} ساعة القادمة',
+  'scenario.closeAboveLevel': 'إذا أغلق السعر فوق {price} ({level}) خلال {hours} ساعة',
+  'scenario.closeBelowLevel': 'إذا أغلق السعر دون {price} ({level}) خلال {hours} ساعة',
+  'scenario.bullInvalidated': 'السيناريو الصاعد ملغى — البنية مكسورة',
+  'scenario.bullBreakout': 'تأكد الاختراق الصاعد — تشكّل دعم جديد',
+  'scenario.bearInvalidated': 'السيناريو الهابط ملغى — استُعيدت البنية',
+  'scenario.bearBreakdown': 'تأكد الكسر الهابط — يُتوقع تسارع البيع',
+  'scenario.consolidation': 'التماسك مستمر — انتظر الحسم',
+  'scenario.upsideExtension': 'امتداد صاعد — اختراق المقاومة التالية',
+  'scenario.downsideExtension': 'امتداد هابط — فقدان الدعم التالي',
+  'scenario.exitLongs': 'أغلق مراكز الشراء، وفكّر في البيع عند إعادة الاختبار',
+  'scenario.addLongs': 'أضف مراكز شراء عند نجاح إعادة اختبار المقاومة المخترقة',
+  'scenario.exitShorts': 'أغلق مراكز البيع، وفكّر في الشراء بعد التأكيد',
+  'scenario.addShorts': 'أضف مراكز بيع عند فشل الارتداد',
+  'scenario.tradeRange': 'تداول أطراف النطاق فقط، وانتظر اختراقًا بالحجم',
+  'scenario.takeProfitLong': 'جنِ جزءًا من الأرباح، وارفع الوقف تحت مستوى الاختراق',
+  'scenario.takeProfitShort': 'جنِ جزءًا من الأرباح، وأنزل الوقف فوق مستوى الكسر',
+  'scenario.flatSqueeze': 'ابقَ خارج السوق — خطر ضغط على البائعين، لا بيع جديد حتى يهدأ الزخم',
+  'scenario.flatNoBase': 'ابقَ خارج السوق — لا شراء جديد حتى تتشكل قاعدة',
+  'scenario.followBreakout': 'اتبع الاختراق، مع وقف داخل النطاق',
+  'scenario.followBreakdown': 'اتبع الكسر، مع وقف داخل النطاق',
+  'scenario.high24h': 'أعلى 24 ساعة',
+  'scenario.low24h': 'أدنى 24 ساعة',
+  'scenario.upside': 'الصعود: إذا استعاد السعر {price} بحجم',
+  'scenario.bearsTrapped': 'البائعون محاصرون، قد ينقلب الزخم',
+  'scenario.considerLong': 'فكّر في الانقلاب إلى شراء أو إغلاق مراكز البيع',
+  'scenario.downside': 'الهبوط: إذا فقد السعر {price} بحجم',
+  'scenario.bullsTrapped': 'المشترون محاصرون، الكسر جارٍ',
+  'scenario.considerShort': 'فكّر في الانقلاب إلى بيع أو إغلاق مراكز الشراء',
+  'scenario.breakout': 'الاختراق: راقب {high} (أعلى) / {low} (أدنى)',
+  'scenario.firstToBreak': 'الجهة الأولى التي تُخترق بحجم تحدد الاتجاه',
+  'scenario.reactToBreakout': 'تفاعل مع الاختراق، لا تتنبأ به',
+  'probability.sigma': 'σ1h {sigma}% ({source})',
+  'probability.realised': 'محقق',
+  'probability.fromRange': 'من نطاق 24 ساعة',
+  'probability.atrToEdge': '{distance} ATR إلى أقرب طرف',
+  'probability.atrAway': 'على بعد {distance} ATR',
+  'probability.modelHistory': 'النموذج {model}% + التاريخ {history}% ({windows} نوافذ)',
+  'probability.volatilityModel': 'نموذج التقلب',
+};
@@ -0,0 +1,453 @@
+// German report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const de: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': '{symbol}-ANALYSE',
+  'report.tldr': 'Kurzfassung',
+  'report.range24h': '24h',
+  'report.volumeSpike': 'VOLUMENSPITZE: +{percent}% über {baseline} ({magnitude}) [Spot via Aggregator]',
+  'report.volume': 'Volumen',
+  'report.volumeAbove': '+{percent}% über {baseline}',
+  'report.volumeBelow': '{percent}% unter {baseline}',
+  'report.volumeNear': 'nahe {baseline}',
+  'report.avg24h': '24h-Ø',
+  'report.avgSameHour': 'Ø gleiche Stunde',
+  'report.avgWindow': '{window}-Ø',
+  'report.futuresOI': 'Futures-OI',
+  'report.oiRising': 'steigend (Longs bauen sich auf)',
+  'report.oiDeclining': 'fallend (Shorts schließen)',
+  'report.oiStable': 'stabil',
+  'report.volumeProfile': 'Volumenprofil ({hours}h): POC {poc} • Value {low}–{high} • Preis {position}',
+  'report.aboveValue': 'über Value',
+  'report.belowValue': 'unter Value',
+  'report.inValue': 'in Value',
+  'report.verdict': 'URTEIL',
+  'report.confidence': 'Konfidenz',
+  'report.calibratedFrom': 'kalibriert von {percent}%',
+  'report.marketPulse': 'MARKTPULS',
+  'report.fearGreed': 'Angst & Gier',
+  'report.whaleActivity': 'Wal-Aktivität',
+  'report.buy': 'Kauf',
+  'report.sell': 'Verkauf',
+  'report.net': 'Netto',
+  'report.exchangeFlow': 'Börsenfluss',
+  'report.institutional': 'Institutionell',
+  'report.noEtf': 'k. A. (kein ETF für diesen Wert)',
+  'report.etfOnly': 'ETFs nur für BTC/ETH verfügbar',
+  'report.crossAsset': 'Assetübergreifend',
+  'report.regimeUnavailable': 'Regime k. A.',
+  'report.versus': 'vs {benchmark}',
+  'report.notScored': 'Nicht bewertet (geschätzt): {factors}',
+  'report.macroCatalyst': 'MAKRO-KATALYSATOR',
+  'report.multiTimeframe': 'MULTI-TIMEFRAME',
+  'report.priceEstimates': 'Preisbasierte Schätzungen (Chart-API nicht verfügbar)',
+  'report.alignedBullish': '{count}/5 BULLISCH',
+  'report.alignedBearish': '{count}/5 BÄRISCH',
+  'report.alignmentMixed': 'Gemischt ({bullish}B/{bearish}S)',
+  'report.confluence': 'Konfluenz',
+  'report.confluenceStrong': 'STARK',
+  'report.confluenceModerate': 'MÄSSIG',
+  'report.confluenceWeak': 'SCHWACH',
+  'report.estimated': 'geschätzt',
+  'report.precisionEntry': '15-MINUTEN-PRÄZISIONSEINSTIEG',
+  'report.executeNow': 'JETZT AUSFÜHREN',
+  'report.waitPullback': 'AUF RÜCKSETZER WARTEN',
+  'report.waitBreakout': 'AUF AUSBRUCH WARTEN',
+  'report.noTrade': 'KEIN TRADE',
+  'report.entryZone': 'Einstiegszone',
+  'report.trigger': 'Auslöser',
+  'report.confirm': 'Bestätigung',
+  'report.invalid': 'Ungültig',
+  'report.liquidity': 'Liquidität',
+  'report.derivatives': 'Derivate',
+  'report.flipLong': 'Bei Invalidierung: über {price} auf Long drehen',
+  'report.flipShort': 'Bei Invalidierung: unter {price} auf Short drehen',
+  'report.success': 'Erfolg',
+  'report.successFavorable': 'GÜNSTIG — Gute Konfluenz, Risiko managen',
+  'report.successModerate': 'MÄSSIG — Einige Bestätigungen, flexibel bleiben',
+  'report.successUncertain': 'UNSICHER — Gemischte Signale, Größe reduzieren',
+  'report.successWeak': 'SCHWACH — Geringe Überzeugung, ggf. aussetzen',
+  'report.keyInsights': 'KERNAUSSAGEN',
+  'report.scenarios': 'SZENARIEN (Beide Richtungen)',
+  'report.livePrice': 'LIVE-PREIS',
+  'report.cachedPrice': 'GECACHTER PREIS',
+  'report.realCharts': 'Echte Charts',
+  'report.derivedCharts': 'Abgeleitet',
+  'report.liveOnChain': 'Live On-Chain',
+  'report.estimatedInput': '{count} geschätzter Input',
+  'report.estimatedInputs': '{count} geschätzte Inputs',
+  'report.excluded': 'ausgeschlossen',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'Klar bullisch',
+  'bias.leaningBullish': 'Tendenz bullisch',
+  'bias.slightBullish': 'Leicht bullische Neigung',
+  'bias.favoringBearish': 'Klar bärisch',
+  'bias.leaningBearish': 'Tendenz bärisch',
+  'bias.slightBearish': 'Leicht bärische Neigung',
+  'bias.neutral': 'Neutral',
+  'tldr.confluenceDecent': 'ordentliche Konfluenz',
+  'tldr.confluenceMixed': 'gemischte Konfluenz',
+  'tldr.confluenceWeak': 'schwache Konfluenz',
+  'tldr.zoneExtended': 'Überdehnte Zone',
+  'tldr.zoneDiscount': 'Discount-Zone',
+  'tldr.zoneMidRange': 'Mittlere Range',
+  'tldr.buyZone': 'Mögliche Kaufzone',
+  'tldr.sellZone': 'Mögliche Verkaufszone',
+  'tldr.rangeBound': 'Seitwärts in der Range',
+  'tldr.awaitPullback': 'Rücksetzer abwarten',
+  'tldr.awaitBreakout': 'Ausbruch abwarten',
+  'tldr.noEntry': 'Kein klarer Einstieg',
+
+  // ── Range position ──
+  'context.nearHigh': 'Nahe 24h-HOCH ({percent}% unter Spitze)',
+  'context.upperRange': 'Obere Range (oberste 30% der 24h)',
+  'context.nearLow': 'Nahe 24h-TIEF ({percent}% über Boden)',
+  'context.lowerRange': 'Untere Range (unterste 30% der 24h)',
+  'context.midRange': 'Konsolidierung in der Mitte',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'EXTREME ANGST',
+  'fearGreed.fear': 'ANGST',
+  'fearGreed.neutral': 'NEUTRAL',
+  'fearGreed.greed': 'GIER',
+  'fearGreed.highGreed': 'HOHE GIER',
+  'fearGreed.extremeGreed': 'EXTREME GIER',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'BULLISCH',
+  'value.BEARISH': 'BÄRISCH',
+  'value.NEUTRAL': 'NEUTRAL',
+  'value.STRONGLY_BULLISH': 'STARK BULLISCH',
+  'value.CAUTIOUSLY_BULLISH': 'VORSICHTIG BULLISCH',
+  'value.CAUTIOUS': 'VORSICHTIG',
+  'value.INFLOW': 'ZUFLUSS',
+  'value.OUTFLOW': 'ABFLUSS',
+  'value.NET_BUYING': 'NETTOKAUF',
+  'value.NET_SELLING': 'NETTOVERKAUF',
+  'value.ACCUMULATING': 'AKKUMULIEREND',
+  'value.DISTRIBUTING': 'DISTRIBUIEREND',
+  'value.BALANCED': 'AUSGEGLICHEN',
+  'value.EXTREME': 'EXTREM',
+  'value.HIGH': 'HOCH',
+  'value.MEDIUM': 'MITTEL',
+  'value.MODERATE': 'MÄSSIG',
+  'value.LOW': 'NIEDRIG',
+  'value.NORMAL': 'NORMAL',
+  'direction.bullish': 'bullisch',
+  'direction.bearish': 'bärisch',
+  'direction.neutral': 'neutral',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'Aufwärtstrend',
+  'regime.TRENDING_DOWN': 'Abwärtstrend',
+  'regime.RANGING': 'Seitwärts',
+  'regime.HIGH_VOL_CRASH': 'Crash mit hoher Volatilität',
+  'regime.ALT_SEASON': 'Altcoin-Saison',
+  'regime.detailCrash': 'BTC {change} in 24h',
+  'regime.detailCrashVolatility': 'BTC {change} in 24h, Volatilität {ratio}× der 30-Tage-Norm',
+  'regime.detailAltSeason': '{percent}% von {count} Altcoins schlagen BTC über 7 Tage',
+  'regime.detailTrend': 'BTC {change} über 72h, Effizienz {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'Funding {rate}/{hours}h ({apr} p. a.)',
+  'derivatives.crowdedLong': 'Longs überfüllt',
+  'derivatives.crowdedShort': 'Shorts überfüllt',
+  'derivatives.openInterest': 'OI {value} ({change} 24h)',
+  'derivatives.openInterestNoChange': 'OI {value}',
+  'derivatives.liquidations': 'Liquidationen 1h: {longs} Longs / {shorts} Shorts',
+  'oiRegime.NEW_LONGS': 'neue Longs',
+  'oiRegime.SHORT_COVERING': 'Short-Eindeckung',
+  'oiRegime.NEW_SHORTS': 'neue Shorts',
+  'oiRegime.LONG_UNWIND': 'Long-Abbau',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'Preisrichtung',
+  'factor.price-position': 'Position in der Range',
+  'factor.fear-greed': 'Angst & Gier',
+  'factor.institutional': 'Institutioneller Fluss',
+  'factor.on-chain': 'Börsen-Nettofluss',
+  'factor.volume': 'Volumen',
+  'factor.indicators': 'Indikatoren',
+  'factor.patterns': 'Muster',
+  'factor.cross-asset': 'Assetübergreifend',
+  'factor.derivatives': 'Derivate',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'Top-down-Konfluenz × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% übereinstimmend, {branch} — {trends}',
+  'confidence.branchNoDirection': 'keine Handelsrichtung',
+  'confidence.branchAgree': 'Fundamentaldaten stimmen überein',
+  'confidence.branchConflict': 'Fundamentaldaten widersprechen',
+  'confidence.branchNeutral': 'Fundamentaldaten neutral',
+  'confidence.fundamentals': 'Fundamental-Score × 0,25',
+  'confidence.fundamentalsDetail': '{bias} bei {confidence}% ({bull} bullische vs. {bear} bärische Punkte)',
+  'confidence.heldTo': 'Begrenzt auf {low}–{high}%',
+  'confidence.bandDetail': 'Konfidenzband: {branch}',
+  'confidence.macro': 'Abzug für Makro-Ereignis',
+  'confidence.macroDetail': '{event} innerhalb von 2 Tagen',
+  'confidence.clampDetail': 'Grenzen der technischen Konfidenz',
+  'confidence.neuralBlend': 'Neuronale Gewichtung (25%)',
+  'confidence.neuralBlendDetail': 'Modell sagt {bias} bei {confidence}%',
+  'confidence.neuralAgrees': 'Neuronales Netz stimmt zu',
+  'confidence.neuralDisagrees': 'Neuronales Netz widerspricht',
+  'confidence.neuralAgreementDetail': '{percent}% Übereinstimmung der Modelle',
+  'confidence.finalClamp': 'Gerundet und begrenzt auf {low}–{high}%',
+  'confidence.finalClampDetail': 'Endgültige Konfidenzgrenzen',
+  'confidence.calibrated': 'Kalibriert ({method})',
+  'confidence.calibratedDetail': '{scope}: {count} bewertete Signale — {raw}%-Signale lagen in {calibrated}% der Fälle richtig',
+  'confidence.allSymbols': 'Alle Symbole',
+
+  // ── Key insights ──
+  'insight.aligned': 'Technik + Fundamentaldaten im Einklang',
+  'insight.technicalLeads': 'Technik führt (fundamental {direction} weicht ab)',
+  'insight.technicalFundamentalNeutral': 'Technisches Signal (fundamental neutral)',
+  'insight.technicalSignal': 'Technisches Signal',
+  'insight.verdictBullish': 'BULLISCH — {note}',
+  'insight.verdictBearish': 'BÄRISCH — {note}',
+  'insight.verdictNeutral': 'NEUTRAL — Keine klare technische Richtung',
+  'insight.exchangeInflowPressure': 'Börsen-ZUFLUSS ({magnitude}) → Verkaufsdruck durch Distribution',
+  'insight.exchangeOutflowSignal': 'Börsen-ABFLUSS ({magnitude}) → Akkumulationssignal',
+  'insight.whales': 'Wale: {flow}',
+  'insight.whalesBalanced': 'Wale: ausgeglichene Aktivität',
+  'insight.longTermHolders': 'Langfristige Halter +{percent}% (7T)',
+  'insight.etfFlow': 'ETF-Fluss: {flow} ({sentiment})',
+  'insight.strongUptrend': 'Starker Aufwärtstrend ({change})',
+  'insight.bullishMomentum': 'Bullisches Momentum ({change})',
+  'insight.mildBullish': 'Leicht bullisch ({change})',
+  'insight.strongDowntrend': 'Starker Abwärtstrend ({change})',
+  'insight.bearishMomentum': 'Bärisches Momentum ({change})',
+  'insight.mildBearish': 'Leicht bärisch ({change})',
+  'insight.sideways': 'Seitwärts ({change})',
+  'insight.deepDiscount': 'Tiefer Discount — Optimale Kaufzone',
+  'insight.premiumZone': 'Premium-Zone — Vorsicht',
+  'insight.extremeFear': 'Extreme Angst — Antizyklischer KAUF',
+  'insight.extremeGreed': 'Extreme Gier — Antizyklischer VERKAUF',
+  'insight.institutionsBuying': 'Institutionen kaufen',
+  'insight.institutionsSelling': 'Institutionen verkaufen',
+  'insight.exchangeOutflows': 'Börsenabflüsse — Akkumulation',
+  'insight.exchangeInflows': 'Börsenzuflüsse — Distribution',
+  'insight.volumeConfirmsBulls': 'Hohes Volumen bestätigt die Bullen',
+  'insight.volumeConfirmsBears': 'Hohes Volumen bestätigt die Bären',
+  'insight.indicatorsBullish': 'Indikatoren bullisch ({signals})',
+  'insight.indicatorsBearish': 'Indikatoren bärisch ({signals})',
+  'insight.bollingerSqueeze': 'Bollinger-Squeeze — Ausweitung wahrscheinlich',
+  'insight.factorsBullish': 'BULLISCH — {bullish} bullische vs {bearish} bärische Faktoren',
+  'insight.factorsBearish': 'BÄRISCH — {bearish} bärische vs {bullish} bullische Faktoren',
+  'insight.leanBullish': 'Neigung BULLISCH — Mäßiges Signal',
+  'insight.leanBearish': 'Neigung BÄRISCH — Mäßiges Signal',
+  'insight.noEdge': 'NEUTRAL — Kein klarer Vorteil',
+  'insight.crashRegime': 'Crash-Regime mit hoher Volatilität — {detail}, Risk-off',
+  'insight.btcHeadwind': 'BTC-Struktur bärisch — {symbol} folgt ihr (ρ {correlation}, β {beta}), Longs kämpfen gegen den Markt',
+  'insight.btcTailwind': 'BTC-Struktur bullisch — Rückenwind für {symbol} (ρ {correlation}, β {beta})',
+  'insight.altSeason': 'Altcoin-Saison — {detail}',
+  'insight.fundingCrowdedLong': 'Funding {rate} pro {hours}h im Extrem — Longs überfüllt, Squeeze-Risiko nach unten',
+  'insight.fundingCrowdedShort': 'Funding {rate} pro {hours}h im Extrem — Shorts überfüllt, Squeeze-Risiko nach oben',
+  'insight.oiNewLongs': 'Open Interest {oi} bei Preis {price} über {hours}h — neue Longs tragen die Bewegung',
+  'insight.oiShortCovering': 'Preis {price} bei Open Interest {oi} über {hours}h — Short-Eindeckung, keine neuen Käufer',
+  'insight.oiNewShorts': 'Open Interest {oi} bei Preis {price} über {hours}h — neue Shorts drücken',
+  'insight.oiLongUnwind': 'Preis {price} bei Open Interest {oi} über {hours}h — Longs bauen ab, keine neuen Verkäufer',
+  'insight.longsFlushed': '{amount} Longs nahe {price} liquidiert — Hebel bereinigt',
+  'insight.shortsSqueezed': '{amount} Shorts nahe {price} liquidiert — Short Squeeze',
+  'insight.smartMoneyAccumulating': 'Smart Money akkumuliert, während Privatanleger in Panik sind — historisch bullisch',
+  'insight.institutionsDistributing': 'Institutionen verteilen an FOMO-Privatanleger — Vorsicht geboten',
+  'insight.alignedBullish': 'Bullische Stimmung bei allen Marktteilnehmern — hohe Überzeugung',
+  'insight.alignedBearish': 'Bärische Stimmung bei allen Marktteilnehmern — hohe Überzeugung',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'Bullisches Engulfing',
+  'pattern.BEARISH_ENGULFING': 'Bärisches Engulfing',
+  'pattern.BULLISH_PIN_BAR': 'Bullische Pin-Bar',
+  'pattern.BEARISH_PIN_BAR': 'Bärische Pin-Bar',
+  'pattern.INSIDE_BAR': 'Inside Bar',
+  'pattern.MORNING_STAR': 'Morgenstern',
+  'pattern.EVENING_STAR': 'Abendstern',
+  'pattern.DOUBLE_TOP': 'Doppeltop',
+  'pattern.DOUBLE_BOTTOM': 'Doppelboden',
+  'pattern.HEAD_AND_SHOULDERS': 'Schulter-Kopf-Schulter',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'Inverse Schulter-Kopf-Schulter',
+  'pattern.ASCENDING_TRIANGLE': 'Aufsteigendes Dreieck',
+  'pattern.DESCENDING_TRIANGLE': 'Absteigendes Dreieck',
+  'pattern.SYMMETRICAL_TRIANGLE': 'Symmetrisches Dreieck',
+  'pattern.BULL_FLAG': 'Bullische Flagge',
+  'pattern.BEAR_FLAG': 'Bärische Flagge',
+  'pattern.breakoutPending': 'Ausbruch ausstehend',
+  'pattern.bullishContinuation': 'bullische Fortsetzung',
+  'pattern.bearishContinuation': 'bärische Fortsetzung',
+  'pattern.bullishReversal': 'bullische Umkehr',
+  'pattern.bearishReversal': 'bärische Umkehr',
+  'pattern.confirmed': 'bestätigt',
+
+  // ── Data provenance ──
+  'provenance.live': 'Live · {source}',
+  'provenance.cached': 'Gecacht · {source}',
+  'provenance.cachedAge': 'Gecacht {age} · {source}',
+  'provenance.estimated': 'Geschätzt aus {basis}',
+  'basis.priceRange': '24h Hoch/Tief/Änderung',
+  'basis.priceChange': '24h-Preisänderung',
+  'basis.neutralFearGreed': 'kein Index geliefert — neutral 50 angenommen',
+  'basis.volumeEstimate': '24h-Volumen × 0,85',
+  'basis.chainParameters': 'typische Chain-Parameter',
+  'basis.chainThroughput': 'Chain-Durchsatz',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} in {countdown}',
+  'macro.countdownToday': 'HEUTE',
+  'macro.countdownTomorrow': 'MORGEN',
+  'macro.countdownDays': '{days}T',
+  'macro.confidenceReduced': 'Konfidenz wegen Nähe des Ereignisses reduziert',
+  'macro.today': 'HEUTE',
+  'macro.tomorrow': 'Morgen',
+  'macro.inDays': 'In {days} Tagen',
+  'macro.joblessClaims': 'Wöchentliche Erstanträge auf Arbeitslosenhilfe',
+  'macro.watchReaction': 'Marktreaktion beobachten',
+  'macro.quarterlyExpiry': 'Quartalsverfall der Optionen (Groß)',
+  'macro.monthlyExpiry': 'Monatlicher Optionsverfall',
+  'macro.quarterlyExpiryNote': 'Optionen im Milliardenwert verfallen — Max-Pain-Volatilität erwartet',
+  'macro.monthlyExpiryNote': 'Große Positionen werden gerollt',
+  'macro.tradePolicy': 'Zölle/Handelspolitik + Geopolitik',
+  'macro.tradePolicyNote': 'Handelsspannungen und Regulierungsnachrichten können abrupte Bewegungen auslösen',
+  'macro.fomc': 'FOMC-Zinsentscheid',
+  'macro.fomcNote': 'CME FedWatch: ~90% erwarten keine Änderung. Überraschende Senkung = sehr bullisch, Erhöhung = Crash-Risiko',
+  'macro.cpi': 'US-Verbraucherpreisindex (CPI)',
+  'macro.cpiNote': 'Konsens: ~2,8% ggü. Vorjahr. Darunter = bullische Überraschung (Hoffnung auf Zinssenkung), darüber = restriktive Reaktion',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'Range: {low} – {high}',
+  'entry.zoneWait': 'Warten: {low} – {high}',
+  'entry.zonePullback': 'Auf Rücksetzer bis {low} – {high} warten',
+  'entry.zoneReliefRally': 'Auf Erholung bis {low} – {high} warten',
+  'entry.zoneDiscount': 'Discount: Einstieg bei {price}',
+  'entry.zonePremium': 'Premium: Einstieg bei {price}',
+  'entry.zoneBreakdown': 'Breakdown: Einstieg bei {price}',
+  'entry.zoneEntry': 'Einstieg: {price}',
+  'entry.triggerNoTrade': 'KEIN TRADE — {confluence}% Konfluenz (45%+ nötig)',
+  'entry.triggerNeutral': 'KEIN TRADE — Neutraler Bias, auf Richtung warten',
+  'entry.triggerStrongUptrend': 'WARTEN — Starker Aufwärtstrend (+{change}%), auf Rücksetzer zur Schlüsselunterstützung warten',
+  'entry.triggerBuyDiscount': 'KAUFEN — Preis im Discount mit bullischer Konfluenz',
+  'entry.triggerExtended': 'WARTEN — Überdehnt, nicht hinterherlaufen. Auf Rücksetzer zur Unterstützung warten',
+  'entry.triggerBuyMomentum': 'KAUFEN — Momentum aktiv mit dem Trend',
+  'entry.triggerRiskRewardLong': 'WARTEN — CRV ungünstig, auf besseren Einstieg warten',
+  'entry.triggerSupport': 'WARTEN — Besserer Einstieg in der Unterstützungszone',
+  'entry.triggerStrongDowntrend': 'WARTEN — Starker Abwärtstrend ({change}%), auf Erholung zum Schlüsselwiderstand warten',
+  'entry.triggerSellPremium': 'VERKAUFEN — Preis im Premium mit bärischer Konfluenz',
+  'entry.triggerSellBreakdown': 'VERKAUFEN — Breakdown bestätigt, Momentum-Short',
+  'entry.triggerRiskRewardBreakdown': 'WARTEN — CRV nach dem Breakdown ungünstig',
+  'entry.triggerOversold': 'WARTEN — Überverkauft, auf Erholung für Short warten',
+  'entry.triggerSellMomentum': 'VERKAUFEN — Momentum aktiv mit dem Trend',
+  'entry.triggerRiskRewardShort': 'WARTEN — CRV ungünstig, auf Erholung warten',
+  'entry.triggerResistance': 'WARTEN — Besserer Einstieg in der Widerstandszone',
+  'entry.triggerDefault': 'Auf Setup warten',
+  'entry.confirmMixed': 'Timeframes {bullish}B/{bearish}S — auf Übereinstimmung warten',
+  'entry.confirmBuyFib50': 'Bei bullischer Price Action bei {price} kaufen (50%-Fib)',
+  'entry.confirmSellFib50': 'Bei bärischer Price Action bei {price} verkaufen (50%-Fib)',
+  'entry.confirmConfluenceTarget': '{confluence}% Konfluenz • Ziel: {price}',
+  'entry.confirmTarget': 'Ziel: {price}',
+  'entry.confirmRetraceLong': 'Rücklauf in die Fib-Zone 38-62% mit bullischer Bestätigungskerze',
+  'entry.confirmPullbackRiskReward': 'Auf Rücksetzer für besseres Chance-Risiko-Verhältnis warten',
+  'entry.confirmBuyFib': 'Bei bullischer Price Action an Fib-Levels kaufen',
+  'entry.confirmBelowSupport': 'Preis unter Unterstützung, {percent}% Verkaufsdruck',
+  'entry.confirmBounceShort': 'Auf Erholung warten, um mit besserem CRV zu shorten',
+  'entry.confirmBounceFib': 'Erholung in die Fib-Zone 38-62% für Short mit bärischer Kerze',
+  'entry.confirmReliefRiskReward': 'Auf Erholung für besseres Chance-Risiko-Verhältnis warten',
+  'entry.confirmSellFib': 'Bei bärischer Price Action an Fib-Levels verkaufen',
+  'entry.confirmNeutral': 'Auf Ausbruch nach oben oder unten mit Volumenbestätigung warten',
+  'entry.confirmPending': 'Ausstehend',
+  'entry.invalidBelowRiskReward': 'Unter {price} — CRV {ratio}:1',
+  'entry.invalidAboveRiskReward': 'Über {price} — CRV {ratio}:1',
+  'entry.invalidBelow': 'Unter {price}',
+  'entry.invalidAbove': 'Über {price}',
+  'entry.invalidTrendBreak': 'Unter {price} (Trendbruch)',
+  'entry.invalidTrendReversal': 'Über {price} (Trendumkehr)',
+  'entry.invalidNone': 'k. A.',
+  'entry.structureInsufficient': 'Unzureichende Konfluenz',
+  'entry.structureStrongBullish': 'Stark bullisch ({confluence}% Konf.)',
+  'entry.structureBullish': 'Bullisch ({confluence}% Konf.)',
+  'entry.structureStrongBearish': 'Stark bärisch ({confluence}% Konf.)',
+  'entry.structureBearish': 'Bärisch ({confluence}% Konf.)',
+  'entry.structureExtended': 'Überdehnt',
+  'entry.structureTrending': 'Im Trend',
+  'entry.structureBreakdown': 'Breakdown aktiv',
+  'entry.structureOversold': 'Überverkauft',
+  'entry.structureNeutral': 'Neutral',
+  'entry.structureUndefined': 'Undefiniert',
+  'entry.phaseWaitSetup': 'Auf Setup warten',
+  'entry.phaseWaitingPullback': 'Warten auf Rücksetzer',
+  'entry.phaseAccumulation': 'Akkumulation',
+  'entry.phaseDistribution': 'Distribution',
+  'entry.phaseWaitRetracement': 'Auf Rücklauf warten',
+  'entry.phaseImpulse': 'Impuls',
+  'entry.phaseImpulseDown': 'Abwärtsimpuls',
+  'entry.phaseConsolidation': 'Konsolidierung',
+  'entry.phaseUnknown': 'Unbekannt',
+  'entry.liquidityBidHeavy': 'Orderbuch {percent}% kauflastig innerhalb ±2%, Spread {spread}%',
+  'entry.liquidityAskHeavy': 'Orderbuch {percent}% verkaufslastig innerhalb ±2%, Spread {spread}%',
+  'entry.liquidityBalanced': 'Orderbuch ausgeglichen innerhalb ±2%, Spread {spread}%',
+  'entry.liquidityBidWall': 'Kaufwand {size} bei {price} (−{distance}%)',
+  'entry.liquidityAskWall': 'Verkaufswand {size} bei {price} (+{distance}%)',
+  'entry.triggerAskWallAhead': 'WARTEN — Verkaufswand von {size} bei {price} direkt darüber. Einstieg, sobald sie absorbiert ist und der Kurs darüber hält',
+  'entry.triggerBidWallAhead': 'WARTEN — Kaufwand von {size} bei {price} direkt darunter. Einstieg, sobald sie absorbiert ist und der Kurs darunter hält',
+
+  // ── Trade plan ──
+  'plan.stop': 'Stop',
+  'plan.close': '{percent}% schließen',
+  'plan.blended': 'gemischt',
+  'plan.estimated': 'geschätzt',
+  'plan.size': 'Größe: {units} {symbol} (~{notional}), Risiko {risk} ({percent}% von {account})',
+  'plan.stopSwingLow': 'Swing-Tief − {buffer}× ATR',
+  'plan.stopSwingHigh': 'Swing-Hoch + {buffer}× ATR',
+  'plan.stopBeyondEntry': '1,5× ATR jenseits des Einstiegs',
+  'plan.stopMinimum': 'mindestens {multiple}× ATR',
+  'plan.stopCap': 'höchstens {multiple}× ATR',
+  'plan.swingHigh': 'Swing-Hoch',
+  'plan.swingLow': 'Swing-Tief',
+  'plan.runner': 'Runner',
+  'plan.rMultiple': 'R-Vielfaches',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'WENN der Preis innerhalb von {hours}h unter {price} schließt',
+  'scenario.closeAbove': 'WENN der Preis innerhalb von {hours}h über {price} schließt',
+  'scenario.sustainAbove': 'WENN sich der Preis nach {hours}h über {price} hält',
+  'scenario.holdBelow': 'WENN der Preis unter {price} fällt und nach {hours}h dort bleibt',
+  'scenario.range': 'WENN der Preis in den nächsten {hours}h zwischen {low} - {high} bleibt',
+  'scenario.closeAboveLevel': 'WENN der Preis innerhalb von {hours}h über {price} ({level}) schließt',
+  'scenario.closeBelowLevel': 'WENN der Preis innerhalb von {hours}h unter {price} ({level}) schließt',
+  'scenario.bullInvalidated': 'Bullenszenario UNGÜLTIG — Struktur gebrochen',
+  'scenario.bullBreakout': 'Bullischer Ausbruch BESTÄTIGT — neue Unterstützung etabliert',
+  'scenario.bearInvalidated': 'Bärenszenario UNGÜLTIG — Struktur zurückerobert',
+  'scenario.bearBreakdown': 'Bärischer Breakdown BESTÄTIGT — beschleunigte Verkäufe erwartet',
+  'scenario.consolidation': 'KONSOLIDIERUNG hält an — auf Auflösung warten',
+  'scenario.upsideExtension': 'Aufwärts-ERWEITERUNG — nächster Widerstand überwunden',
+  'scenario.downsideExtension': 'Abwärts-ERWEITERUNG — nächste Unterstützung verloren',
+  'scenario.exitLongs': 'Longs SCHLIESSEN, Short beim Retest prüfen',
+  'scenario.addLongs': 'Longs AUFSTOCKEN bei erfolgreichem Retest des gebrochenen Widerstands',
+  'scenario.exitShorts': 'Shorts SCHLIESSEN, Long nach Bestätigung prüfen',
+  'scenario.addShorts': 'Shorts AUFSTOCKEN bei gescheitertem Erholungsversuch',
+  'scenario.tradeRange': 'Nur Range-Extreme handeln, auf Ausbruch mit Volumen warten',
+  'scenario.takeProfitLong': 'Teilgewinn mitnehmen, Stop unter das gebrochene Level nachziehen',
+  'scenario.takeProfitShort': 'Teilgewinn mitnehmen, Stop über das gebrochene Level nachziehen',
+  'scenario.flatSqueeze': 'Flat bleiben — Squeeze-Risiko, keine neuen Shorts, bis das Momentum nachlässt',
+  'scenario.flatNoBase': 'Flat bleiben — keine neuen Longs, bis sich ein Boden bildet',
+  'scenario.followBreakout': 'Dem Ausbruch folgen, Stop zurück in der Range',
+  'scenario.followBreakdown': 'Dem Breakdown folgen, Stop zurück in der Range',
+  'scenario.high24h': '24h-Hoch',
+  'scenario.low24h': '24h-Tief',
+  'scenario.upside': 'AUFWÄRTSSZENARIO: wenn der Preis {price} mit Volumen zurückerobert',
+  'scenario.bearsTrapped': 'Bären gefangen, Momentumwechsel wahrscheinlich',
+  'scenario.considerLong': 'Drehen auf Long oder Schließen der Shorts erwägen',
+  'scenario.downside': 'ABWÄRTSSZENARIO: wenn der Preis {price} mit Volumen verliert',
+  'scenario.bullsTrapped': 'Bullen gefangen, Breakdown im Gange',
+  'scenario.considerShort': 'Drehen auf Short oder Schließen der Longs erwägen',
+  'scenario.breakout': 'AUSBRUCHSSZENARIO: {high} (oben) / {low} (unten) beobachten',
+  'scenario.firstToBreak': 'Der erste Ausbruch mit Volumen bestimmt die Richtung',
+  'scenario.reactToBreakout': 'Auf den Ausbruch reagieren, nicht vorhersagen',
+  'probability.sigma': 'σ1h {sigma}% ({source})',
+  'probability.realised': 'realisiert',
+  'probability.fromRange': 'aus 24h-Range',
+  'probability.atrToEdge': '{distance} ATR bis zur nächsten Kante',
+  'probability.atrAway': '{distance} ATR entfernt',
+  'probability.modelHistory': 'Modell {model}% + Historie {history}% über {windows} Fenster',
+  'probability.volatilityModel': 'Volatilitätsmodell',
+};
@@ -0,0 +1,454 @@
+// English report messages — the reference catalog: every key the brain prints is
+// defined here, and every other locale must define the same keys.
+// Placeholders are {name}; emoji and box-drawing stay in the report template.
+
+export const en = {
+  // ── Report frame ──
+  'report.title': '{symbol} ANALYSIS',
+  'report.tldr': 'TL;DR',
+  'report.range24h': '24h',
+  'report.volumeSpike': 'VOLUME SPIKE: +{percent}% above {baseline} ({magnitude}) [Spot via aggregator]',
+  'report.volume': 'Volume',
+  'report.volumeAbove': '+{percent}% above {baseline}',
+  'report.volumeBelow': '{percent}% below {baseline}',
+  'report.volumeNear': 'near {baseline}',
+  'report.avg24h': '24h avg',
+  'report.avgSameHour': 'same-hour avg',
+  'report.avgWindow': '{window} avg',
+  'report.futuresOI': 'Futures OI',
+  'report.oiRising': 'rising (longs building)',
+  'report.oiDeclining': 'declining (shorts closing)',
+  'report.oiStable': 'stable',
+  'report.volumeProfile': 'Volume Profile ({hours}h): POC {poc} • Value {low}–{high} • Price {position}',
+  'report.aboveValue': 'above value',
+  'report.belowValue': 'below value',
+  'report.inValue': 'in value',
+  'report.verdict': 'VERDICT',
+  'report.confidence': 'Confidence',
+  'report.calibratedFrom': 'calibrated from {percent}%',
+  'report.marketPulse': 'MARKET PULSE',
+  'report.fearGreed': 'Fear & Greed',
+  'report.whaleActivity': 'Whale Activity',
+  'report.buy': 'Buy',
+  'report.sell': 'Sell',
+  'report.net': 'Net',
+  'report.exchangeFlow': 'Exchange Flow',
+  'report.institutional': 'Institutional',
+  'report.noEtf': 'N/A (no ETF for this asset)',
+  'report.etfOnly': 'ETFs only available for BTC/ETH',
+  'report.crossAsset': 'Cross-Asset',
+  'report.regimeUnavailable': 'regime n/a',
+  'report.versus': 'vs {benchmark}',
+  'report.notScored': 'Not scored (estimated): {factors}',
+  'report.macroCatalyst': 'MACRO CATALYST',
+  'report.multiTimeframe': 'MULTI-TIMEFRAME',
+  'report.priceEstimates': 'Using price-based estimates (chart API unavailable)',
+  'report.alignedBullish': '{count}/5 BULLISH',
+  'report.alignedBearish': '{count}/5 BEARISH',
+  'report.alignmentMixed': 'Mixed ({bullish}B/{bearish}S)',
+  'report.confluence': 'Confluence',
+  'report.confluenceStrong': 'STRONG',
+  'report.confluenceModerate': 'MODERATE',
+  'report.confluenceWeak': 'WEAK',
+  'report.estimated': 'estimated',
+  'report.precisionEntry': '15-MINUTE PRECISION ENTRY',
+  'report.executeNow': 'EXECUTE NOW',
+  'report.waitPullback': 'WAIT FOR PULLBACK',
+  'report.waitBreakout': 'WAIT FOR BREAKOUT',
+  'report.noTrade': 'NO TRADE',
+  'report.entryZone': 'Entry Zone',
+  'report.trigger': 'Trigger',
+  'report.confirm': 'Confirm',
+  'report.invalid': 'Invalid',
+  'report.liquidity': 'Liquidity',
+  'report.derivatives': 'Derivatives',
+  'report.flipLong': 'If invalidated: Flip long above {price}',
+  'report.flipShort': 'If invalidated: Flip short below {price}',
+  'report.success': 'Success',
+  'report.successFavorable': 'FAVORABLE — Good confluence, manage risk',
+  'report.successModerate': 'MODERATE — Some confirmations, stay nimble',
+  'report.successUncertain': 'UNCERTAIN — Mixed signals, reduce size',
+  'report.successWeak': 'WEAK — Low conviction, consider sitting out',
+  'report.keyInsights': 'KEY INSIGHTS',
+  'report.scenarios': 'SCENARIOS (Both Directions)',
+  'report.livePrice': 'LIVE PRICE',
+  'report.cachedPrice': 'CACHED PRICE',
+  'report.realCharts': 'Real Charts',
+  'report.derivedCharts': 'Derived',
+  'report.liveOnChain': 'Live On-Chain',
+  'report.estimatedInput': '{count} estimated input',
+  'report.estimatedInputs': '{count} estimated inputs',
+  'report.excluded': 'excluded',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'Favoring bullish',
+  'bias.leaningBullish': 'Leaning bullish',
+  'bias.slightBullish': 'Slight bullish tilt',
+  'bias.favoringBearish': 'Favoring bearish',
+  'bias.leaningBearish': 'Leaning bearish',
+  'bias.slightBearish': 'Slight bearish tilt',
+  'bias.neutral': 'Neutral',
+  'tldr.confluenceDecent': 'decent confluence',
+  'tldr.confluenceMixed': 'mixed confluence',
+  'tldr.confluenceWeak': 'weak confluence',
+  'tldr.zoneExtended': 'Extended zone',
+  'tldr.zoneDiscount': 'Discount zone',
+  'tldr.zoneMidRange': 'Mid-range zone',
+  'tldr.buyZone': 'Potential buy zone',
+  'tldr.sellZone': 'Potential sell zone',
+  'tldr.rangeBound': 'Range-bound',
+  'tldr.awaitPullback': 'Await pullback',
+  'tldr.awaitBreakout': 'Await breakout',
+  'tldr.noEntry': 'No clear entry',
+
+  // ── Range position ──
+  'context.nearHigh': 'Near 24h HIGH ({percent}% below peak)',
+  'context.upperRange': 'Upper range (top 30% of 24h)',
+  'context.nearLow': 'Near 24h LOW ({percent}% above bottom)',
+  'context.lowerRange': 'Lower range (bottom 30% of 24h)',
+  'context.midRange': 'Mid-range consolidation',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'EXTREME FEAR',
+  'fearGreed.fear': 'FEAR',
+  'fearGreed.neutral': 'NEUTRAL',
+  'fearGreed.greed': 'GREED',
+  'fearGreed.highGreed': 'HIGH GREED',
+  'fearGreed.extremeGreed': 'EXTREME GREED',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'BULLISH',
+  'value.BEARISH': 'BEARISH',
+  'value.NEUTRAL': 'NEUTRAL',
+  'value.STRONGLY_BULLISH': 'STRONGLY BULLISH',
+  'value.CAUTIOUSLY_BULLISH': 'CAUTIOUSLY BULLISH',
+  'value.CAUTIOUS': 'CAUTIOUS',
+  'value.INFLOW': 'INFLOW',
+  'value.OUTFLOW': 'OUTFLOW',
+  'value.NET_BUYING': 'NET BUYING',
+  'value.NET_SELLING': 'NET SELLING',
+  'value.ACCUMULATING': 'ACCUMULATING',
+  'value.DISTRIBUTING': 'DISTRIBUTING',
+  'value.BALANCED': 'BALANCED',
+  'value.EXTREME': 'EXTREME',
+  'value.HIGH': 'HIGH',
+  'value.MEDIUM': 'MEDIUM',
+  'value.MODERATE': 'MODERATE',
+  'value.LOW': 'LOW',
+  'value.NORMAL': 'NORMAL',
+  'direction.bullish': 'bullish',
+  'direction.bearish': 'bearish',
+  'direction.neutral': 'neutral',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'Trending up',
+  'regime.TRENDING_DOWN': 'Trending down',
+  'regime.RANGING': 'Ranging',
+  'regime.HIGH_VOL_CRASH': 'High-vol crash',
+  'regime.ALT_SEASON': 'Alt season',
+  'regime.detailCrash': 'BTC {change} in 24h',
+  'regime.detailCrashVolatility': 'BTC {change} in 24h, volatility {ratio}× the 30d norm',
+  'regime.detailAltSeason': '{percent}% of {count} alts beat BTC over 7d',
+  'regime.detailTrend': 'BTC {change} over 72h, efficiency {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'Funding {rate}/{hours}h ({apr} APR)',
+  'derivatives.crowdedLong': 'crowded longs',
+  'derivatives.crowdedShort': 'crowded shorts',
+  'derivatives.openInterest': 'OI {value} ({change} 24h)',
+  'derivatives.openInterestNoChange': 'OI {value}',
+  'derivatives.liquidations': 'Liquidations 1h: {longs} longs / {shorts} shorts',
+  'oiRegime.NEW_LONGS': 'new longs',
+  'oiRegime.SHORT_COVERING': 'short covering',
+  'oiRegime.NEW_SHORTS': 'new shorts',
+  'oiRegime.LONG_UNWIND': 'long unwind',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'Price direction',
+  'factor.price-position': 'Range position',
+  'factor.fear-greed': 'Fear & Greed',
+  'factor.institutional': 'Institutional flow',
+  'factor.on-chain': 'Exchange net flow',
+  'factor.volume': 'Volume',
+  'factor.indicators': 'Indicators',
+  'factor.patterns': 'Patterns',
+  'factor.cross-asset': 'Cross-asset',
+  'factor.derivatives': 'Derivatives',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'Top-down confluence × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% aligned, {branch} — {trends}',
+  'confidence.branchNoDirection': 'no trade direction',
+  'confidence.branchAgree': 'fundamentals agree',
+  'confidence.branchConflict': 'fundamentals conflict',
+  'confidence.branchNeutral': 'fundamentals neutral',
+  'confidence.fundamentals': 'Fundamental score × 0.25',
+  'confidence.fundamentalsDetail': '{bias} at {confidence}% ({bull} bull vs {bear} bear points)',
+  'confidence.heldTo': 'Held to {low}–{high}%',
+  'confidence.bandDetail': 'Confidence band when {branch}',
+  'confidence.macro': 'Macro event penalty',
+  'confidence.macroDetail': '{event} within 2 days',
+  'confidence.clampDetail': 'Technical confidence limits',
+  'confidence.neuralBlend': 'Neural blend (25%)',
+  'confidence.neuralBlendDetail': 'Model says {bias} at {confidence}%',
+  'confidence.neuralAgrees': 'Neural agrees',
+  'confidence.neuralDisagrees': 'Neural disagrees',
+  'confidence.neuralAgreementDetail': '{percent}% learner agreement',
+  'confidence.finalClamp': 'Rounded and held to {low}–{high}%',
+  'confidence.finalClampDetail': 'Final confidence limits',
+  'confidence.calibrated': 'Calibrated ({method})',
+  'confidence.calibratedDetail': '{scope}: {count} graded calls — {raw}% calls were right {calibrated}% of the time',
+  'confidence.allSymbols': 'All symbols',
+
+  // ── Key insights ──
+  'insight.aligned': 'Technical + fundamental aligned',
+  'insight.technicalLeads': 'Technical leads (fundamental {direction} diverges)',
+  'insight.technicalFundamentalNeutral': 'Technical signal (fundamental neutral)',
+  'insight.technicalSignal': 'Technical signal',
+  'insight.verdictBullish': 'BULLISH — {note}',
+  'insight.verdictBearish': 'BEARISH — {note}',
+  'insight.verdictNeutral': 'NEUTRAL — No clear technical direction',
+  'insight.exchangeInflowPressure': 'Exchange INFLOW ({magnitude}) → Distribution pressure',
+  'insight.exchangeOutflowSignal': 'Exchange OUTFLOW ({magnitude}) → Accumulation signal',
+  'insight.whales': 'Whales: {flow}',
+  'insight.whalesBalanced': 'Whales: Balanced activity',
+  'insight.longTermHolders': 'Long-term holders +{percent}% (7d)',
+  'insight.etfFlow': 'ETF Flow: {flow} ({sentiment})',
+  'insight.strongUptrend': 'Strong uptrend ({change})',
+  'insight.bullishMomentum': 'Bullish momentum ({change})',
+  'insight.mildBullish': 'Mild bullish ({change})',
+  'insight.strongDowntrend': 'Strong downtrend ({change})',
+  'insight.bearishMomentum': 'Bearish momentum ({change})',
+  'insight.mildBearish': 'Mild bearish ({change})',
+  'insight.sideways': 'Sideways ({change})',
+  'insight.deepDiscount': 'Deep discount — Optimal buy zone',
+  'insight.premiumZone': 'Premium zone — Caution',
+  'insight.extremeFear': 'Extreme Fear — Contrarian BUY',
+  'insight.extremeGreed': 'Extreme Greed — Contrarian SELL',
+  'insight.institutionsBuying': 'Institutions buying',
+  'insight.institutionsSelling': 'Institutions selling',
+  'insight.exchangeOutflows': 'Exchange outflows — Accumulation',
+  'insight.exchangeInflows': 'Exchange inflows — Distribution',
+  'insight.volumeConfirmsBulls': 'High volume confirms bulls',
+  'insight.volumeConfirmsBears': 'High volume confirms bears',
+  'insight.indicatorsBullish': 'Indicators bullish ({signals})',
+  'insight.indicatorsBearish': 'Indicators bearish ({signals})',
+  'insight.bollingerSqueeze': 'Bollinger squeeze — Expansion likely',
+  'insight.factorsBullish': 'BULLISH — {bullish} bull vs {bearish} bear factors',
+  'insight.factorsBearish': 'BEARISH — {bearish} bear vs {bullish} bull factors',
+  'insight.leanBullish': 'Lean BULLISH — Moderate signal',
+  'insight.leanBearish': 'Lean BEARISH — Moderate signal',
+  'insight.noEdge': 'NEUTRAL — No clear edge',
+  'insight.crashRegime': 'High-vol crash regime — {detail}, risk-off',
+  'insight.btcHeadwind': 'BTC structure bearish — {symbol} tracks it (ρ {correlation}, β {beta}), longs fight the tape',
+  'insight.btcTailwind': 'BTC structure bullish — tailwind for {symbol} (ρ {correlation}, β {beta})',
+  'insight.altSeason': 'Alt season — {detail}',
+  'insight.fundingCrowdedLong': 'Funding {rate} per {hours}h at an extreme — longs crowded, squeeze risk is down',
+  'insight.fundingCrowdedShort': 'Funding {rate} per {hours}h at an extreme — shorts crowded, squeeze risk is up',
+  'insight.oiNewLongs': 'Open interest {oi} with price {price} over {hours}h — fresh longs back the move',
+  'insight.oiShortCovering': 'Price {price} while open interest {oi} over {hours}h — short covering, not new buyers',
+  'insight.oiNewShorts': 'Open interest {oi} as price {price} over {hours}h — fresh shorts pressing',
+  'insight.oiLongUnwind': 'Price {price} while open interest {oi} over {hours}h — longs unwinding, not new sellers',
+  'insight.longsFlushed': '{amount} of longs liquidated near {price} — leverage flushed',
+  'insight.shortsSqueezed': '{amount} of shorts liquidated near {price} — short squeeze',
+  'insight.smartMoneyAccumulating': 'Smart money accumulating while retail panics — historically bullish',
+  'insight.institutionsDistributing': 'Institutions distributing to retail FOMO — caution advised',
+  'insight.alignedBullish': 'Aligned bullish sentiment across all participants — strong conviction',
+  'insight.alignedBearish': 'Aligned bearish sentiment across all participants — strong conviction',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'Bullish engulfing',
+  'pattern.BEARISH_ENGULFING': 'Bearish engulfing',
+  'pattern.BULLISH_PIN_BAR': 'Bullish pin bar',
+  'pattern.BEARISH_PIN_BAR': 'Bearish pin bar',
+  'pattern.INSIDE_BAR': 'Inside bar',
+  'pattern.MORNING_STAR': 'Morning star',
+  'pattern.EVENING_STAR': 'Evening star',
+  'pattern.DOUBLE_TOP': 'Double top',
+  'pattern.DOUBLE_BOTTOM': 'Double bottom',
+  'pattern.HEAD_AND_SHOULDERS': 'Head and shoulders',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'Inverse head and shoulders',
+  'pattern.ASCENDING_TRIANGLE': 'Ascending triangle',
+  'pattern.DESCENDING_TRIANGLE': 'Descending triangle',
+  'pattern.SYMMETRICAL_TRIANGLE': 'Symmetrical triangle',
+  'pattern.BULL_FLAG': 'Bull flag',
+  'pattern.BEAR_FLAG': 'Bear flag',
+  'pattern.breakoutPending': 'breakout pending',
+  'pattern.bullishContinuation': 'bullish continuation',
+  'pattern.bearishContinuation': 'bearish continuation',
+  'pattern.bullishReversal': 'bullish reversal',
+  'pattern.bearishReversal': 'bearish reversal',
+  'pattern.confirmed': 'confirmed',
+
+  // ── Data provenance ──
+  'provenance.live': 'Live · {source}',
+  'provenance.cached': 'Cached · {source}',
+  'provenance.cachedAge': 'Cached {age} · {source}',
+  'provenance.estimated': 'Estimated from {basis}',
+  'basis.priceRange': '24h high/low/change',
+  'basis.priceChange': '24h price change',
+  'basis.neutralFearGreed': 'no index supplied — neutral 50 assumed',
+  'basis.volumeEstimate': '24h volume × 0.85',
+  'basis.chainParameters': 'typical chain parameters',
+  'basis.chainThroughput': 'chain throughput',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} in {countdown}',
+  'macro.countdownToday': 'TODAY',
+  'macro.countdownTomorrow': 'TOMORROW',
+  'macro.countdownDays': '{days}d',
+  'macro.confidenceReduced': 'Confidence reduced due to event proximity',
+  'macro.today': 'TODAY',
+  'macro.tomorrow': 'Tomorrow',
+  'macro.inDays': 'In {days} days',
+  'macro.joblessClaims': 'Weekly Jobless Claims',
+  'macro.watchReaction': 'Watch for market reaction',
+  'macro.quarterlyExpiry': 'Quarterly Options Expiry (Major)',
+  'macro.monthlyExpiry': 'Monthly Options Expiry',
+  'macro.quarterlyExpiryNote': '$B+ in options expire — expect max pain volatility',
+  'macro.monthlyExpiryNote': 'Large positions rolling',
+  'macro.tradePolicy': 'Tariff/Trade Policy + Geopolitics',
+  'macro.tradePolicyNote': 'Trade tensions, regulatory news can trigger sudden moves',
+  'macro.fomc': 'FOMC Interest Rate Decision',
+  'macro.fomcNote': 'CME FedWatch: ~90% hold expected. Surprise cut = ultra bullish, hike = crash risk',
+  'macro.cpi': 'US CPI Inflation Data',
+  'macro.cpiNote': 'Consensus: ~2.8% YoY. Below = bullish surprise (rate cut hopes), Above = hawkish reaction',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'Range: {low} – {high}',
+  'entry.zoneWait': 'Wait: {low} – {high}',
+  'entry.zonePullback': 'Wait for pullback to {low} – {high}',
+  'entry.zoneReliefRally': 'Wait for relief rally to {low} – {high}',
+  'entry.zoneDiscount': 'Discount: {price} entry',
+  'entry.zonePremium': 'Premium: {price} entry',
+  'entry.zoneBreakdown': 'Breakdown: {price} entry',
+  'entry.zoneEntry': 'Entry: {price}',
+  'entry.triggerNoTrade': 'NO TRADE — {confluence}% confluence (need 45%+)',
+  'entry.triggerNeutral': 'NO TRADE — Neutral bias, wait for direction',
+  'entry.triggerStrongUptrend': 'WAIT — Strong uptrend (+{change}%), wait for pullback to key support',
+  'entry.triggerBuyDiscount': 'BUY — Price in discount with bullish confluence',
+  'entry.triggerExtended': 'WAIT — Extended, do not chase. Wait for pullback to support',
+  'entry.triggerBuyMomentum': 'BUY — Momentum active with trend',
+  'entry.triggerRiskRewardLong': 'WAIT — R:R not favorable, wait for better entry',
+  'entry.triggerSupport': 'WAIT — Better entry at support zone',
+  'entry.triggerStrongDowntrend': 'WAIT — Strong downtrend ({change}%), wait for bounce to key resistance',
+  'entry.triggerSellPremium': 'SELL — Price in premium with bearish confluence',
+  'entry.triggerSellBreakdown': 'SELL — Breakdown confirmed, momentum short',
+  'entry.triggerRiskRewardBreakdown': 'WAIT — R:R not favorable after breakdown',
+  'entry.triggerOversold': 'WAIT — Oversold, wait for relief rally to short',
+  'entry.triggerSellMomentum': 'SELL — Momentum active with trend',
+  'entry.triggerRiskRewardShort': 'WAIT — R:R not favorable, wait for bounce',
+  'entry.triggerResistance': 'WAIT — Better entry at resistance zone',
+  'entry.triggerDefault': 'Wait for setup',
+  'entry.confirmMixed': 'Timeframes {bullish}B/{bearish}S — wait for alignment',
+  'entry.confirmBuyFib50': 'Buy on bullish price action at {price} (50% Fib)',
+  'entry.confirmSellFib50': 'Sell on bearish price action at {price} (50% Fib)',
+  'entry.confirmConfluenceTarget': '{confluence}% confluence • Target: {price}',
+  'entry.confirmTarget': 'Target: {price}',
+  'entry.confirmRetraceLong': 'Retrace to Fib 38-62% zone with bullish confirmation candle',
+  'entry.confirmPullbackRiskReward': 'Wait for pullback to improve risk/reward',
+  'entry.confirmBuyFib': 'Buy on bullish price action at Fib levels',
+  'entry.confirmBelowSupport': 'Price below support, {percent}% sell pressure',
+  'entry.confirmBounceShort': 'Wait for bounce to short with better R:R',
+  'entry.confirmBounceFib': 'Bounce to Fib 38-62% zone for short entry with bearish candle',
+  'entry.confirmReliefRiskReward': 'Wait for relief rally to improve risk/reward',
+  'entry.confirmSellFib': 'Sell on bearish price action at Fib levels',
+  'entry.confirmNeutral': 'Wait for breakout or breakdown with volume confirmation',
+  'entry.confirmPending': 'Pending',
+  'entry.invalidBelowRiskReward': 'Below {price} — R:R {ratio}:1',
+  'entry.invalidAboveRiskReward': 'Above {price} — R:R {ratio}:1',
+  'entry.invalidBelow': 'Below {price}',
+  'entry.invalidAbove': 'Above {price}',
+  'entry.invalidTrendBreak': 'Below {price} (trend break)',
+  'entry.invalidTrendReversal': 'Above {price} (trend reversal)',
+  'entry.invalidNone': 'N/A',
+  'entry.structureInsufficient': 'Insufficient Confluence',
+  'entry.structureStrongBullish': 'Strong Bullish ({confluence}% conf)',
+  'entry.structureBullish': 'Bullish ({confluence}% conf)',
+  'entry.structureStrongBearish': 'Strong Bearish ({confluence}% conf)',
+  'entry.structureBearish': 'Bearish ({confluence}% conf)',
+  'entry.structureExtended': 'Extended',
+  'entry.structureTrending': 'Trending',
+  'entry.structureBreakdown': 'Breakdown Active',
+  'entry.structureOversold': 'Oversold',
+  'entry.structureNeutral': 'Neutral',
+  'entry.structureUndefined': 'Undefined',
+  'entry.phaseWaitSetup': 'Wait for setup',
+  'entry.phaseWaitingPullback': 'Waiting for Pullback',
+  'entry.phaseAccumulation': 'Accumulation',
+  'entry.phaseDistribution': 'Distribution',
+  'entry.phaseWaitRetracement': 'Wait for retracement',
+  'entry.phaseImpulse': 'Impulse',
+  'entry.phaseImpulseDown': 'Impulse Down',
+  'entry.phaseConsolidation': 'Consolidation',
+  'entry.phaseUnknown': 'Unknown',
+  'entry.liquidityBidHeavy': 'Book {percent}% bid-heavy within ±2%, spread {spread}%',
+  'entry.liquidityAskHeavy': 'Book {percent}% ask-heavy within ±2%, spread {spread}%',
+  'entry.liquidityBalanced': 'Book balanced within ±2%, spread {spread}%',
+  'entry.liquidityBidWall': 'bid wall {size} at {price} (−{distance}%)',
+  'entry.liquidityAskWall': 'ask wall {size} at {price} (+{distance}%)',
+  'entry.triggerAskWallAhead': 'WAIT — {size} ask wall at {price} right above. Enter once it is absorbed and price holds above',
+  'entry.triggerBidWallAhead': 'WAIT — {size} bid wall at {price} right below. Enter once it is absorbed and price holds below',
+
+  // ── Trade plan ──
+  'plan.stop': 'Stop',
+  'plan.close': 'close {percent}%',
+  'plan.blended': 'blended',
+  'plan.estimated': 'est.',
+  'plan.size': 'Size: {units} {symbol} (~{notional}) risking {risk} ({percent}% of {account})',
+  'plan.stopSwingLow': 'Swing low − {buffer}× ATR',
+  'plan.stopSwingHigh': 'Swing high + {buffer}× ATR',
+  'plan.stopBeyondEntry': '1.5× ATR beyond entry',
+  'plan.stopMinimum': '{multiple}× ATR minimum',
+  'plan.stopCap': '{multiple}× ATR cap',
+  'plan.swingHigh': 'Swing high',
+  'plan.swingLow': 'Swing low',
+  'plan.runner': 'Runner',
+  'plan.rMultiple': 'R multiple',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'IF price closes below {price} within {hours}h',
+  'scenario.closeAbove': 'IF price closes above {price} within {hours}h',
+  'scenario.sustainAbove': 'IF price sustains above {price} at the {hours}h mark',
+  'scenario.holdBelow': 'IF price breaks below {price} and stays there at the {hours}h mark',
+  'scenario.range': 'IF price stays between {low} - {high} for the next {hours}h',
+  'scenario.closeAboveLevel': 'IF price closes above {price} ({level}) within {hours}h',
+  'scenario.closeBelowLevel': 'IF price closes below {price} ({level}) within {hours}h',
+  'scenario.bullInvalidated': 'Bull case INVALIDATED — structure broken',
+  'scenario.bullBreakout': 'Bull breakout CONFIRMED — new support established',
+  'scenario.bearInvalidated': 'Bear case INVALIDATED — reclaim of structure',
+  'scenario.bearBreakdown': 'Bear breakdown CONFIRMED — accelerated selling expected',
+  'scenario.consolidation': 'CONSOLIDATION continues — wait for resolution',
+  'scenario.upsideExtension': 'Upside EXTENSION — next resistance cleared',
+  'scenario.downsideExtension': 'Downside EXTENSION — next support lost',
+  'scenario.exitLongs': 'EXIT longs, reassess for short entry on retest',
+  'scenario.addLongs': 'ADD to longs on successful retest of broken resistance',
+  'scenario.exitShorts': 'EXIT shorts, reassess for long entry on confirmation',
+  'scenario.addShorts': 'ADD to shorts on failed bounce attempt',
+  'scenario.tradeRange': 'Trade range extremes only, wait for breakout with volume',
+  'scenario.takeProfitLong': 'Take partial profit, trail stop below the broken level',
+  'scenario.takeProfitShort': 'Take partial profit, trail stop above the broken level',
+  'scenario.flatSqueeze': 'Stay flat — squeeze risk, no fresh shorts until momentum fades',
+  'scenario.flatNoBase': 'Stay flat — no fresh longs until a base forms',
+  'scenario.followBreakout': 'Follow the breakout with a stop back inside the range',
+  'scenario.followBreakdown': 'Follow the breakdown with a stop back inside the range',
+  'scenario.high24h': '24h high',
+  'scenario.low24h': '24h low',
+  'scenario.upside': 'UPSIDE SCENARIO: If price reclaims {price} with volume',
+  'scenario.bearsTrapped': 'Bears trapped, momentum shift likely',
+  'scenario.considerLong': 'Consider flipping long or exiting shorts',
+  'scenario.downside': 'DOWNSIDE SCENARIO: If price loses {price} with volume',
+  'scenario.bullsTrapped': 'Bulls trapped, breakdown in play',
+  'scenario.considerShort': 'Consider flipping short or exiting longs',
+  'scenario.breakout': 'BREAKOUT SCENARIO: Watch {high} (up) / {low} (down)',
+  'scenario.firstToBreak': 'First to break with volume defines direction',
+  'scenario.reactToBreakout': 'React to the breakout, don\'t predict',
+  'probability.sigma': 'σ1h {sigma}% ({source})',
+  'probability.realised': 'realised',
+  'probability.fromRange': 'from 24h range',
+  'probability.atrToEdge': '{distance} ATR to nearest edge',
+  'probability.atrAway': '{distance} ATR away',
+  'probability.modelHistory': 'model {model}% + history {history}% over {windows} windows',
+  'probability.volatilityModel': 'volatility model',
+};
@@ -0,0 +1,453 @@
+// Spanish report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const es: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': 'ANÁLISIS DE {symbol}',
+  'report.tldr': 'Resumen',
+  'report.range24h': '24h',
+  'report.volumeSpike': 'PICO DE VOLUMEN: +{percent}% sobre {baseline} ({magnitude}) [Spot vía agregador]',
+  'report.volume': 'Volumen',
+  'report.volumeAbove': '+{percent}% sobre {baseline}',
+  'report.volumeBelow': '{percent}% bajo {baseline}',
+  'report.volumeNear': 'cerca de {baseline}',
+  'report.avg24h': 'prom. 24h',
+  'report.avgSameHour': 'prom. misma hora',
+  'report.avgWindow': 'prom. {window}',
+  'report.futuresOI': 'OI de futuros',
+  'report.oiRising': 'subiendo (se acumulan largos)',
+  'report.oiDeclining': 'bajando (cierre de cortos)',
+  'report.oiStable': 'estable',
+  'report.volumeProfile': 'Perfil de volumen ({hours}h): POC {poc} • Valor {low}–{high} • Precio {position}',
+  'report.aboveValue': 'sobre el valor',
+  'report.belowValue': 'bajo el valor',
+  'report.inValue': 'dentro del valor',
+  'report.verdict': 'VEREDICTO',
+  'report.confidence': 'Confianza',
+  'report.calibratedFrom': 'calibrado desde {percent}%',
+  'report.marketPulse': 'PULSO DEL MERCADO',
+  'report.fearGreed': 'Miedo y Codicia',
+  'report.whaleActivity': 'Actividad de ballenas',
+  'report.buy': 'Compra',
+  'report.sell': 'Venta',
+  'report.net': 'Neto',
+  'report.exchangeFlow': 'Flujo de exchanges',
+  'report.institutional': 'Institucional',
+  'report.noEtf': 'N/D (sin ETF para este activo)',
+  'report.etfOnly': 'ETF solo disponibles para BTC/ETH',
+  'report.crossAsset': 'Entre activos',
+  'report.regimeUnavailable': 'régimen n/d',
+  'report.versus': 'vs {benchmark}',
+  'report.notScored': 'Sin puntuar (estimado): {factors}',
+  'report.macroCatalyst': 'CATALIZADOR MACRO',
+  'report.multiTimeframe': 'MULTI-TEMPORALIDAD',
+  'report.priceEstimates': 'Usando estimaciones basadas en precio (API de gráficos no disponible)',
+  'report.alignedBullish': '{count}/5 ALCISTAS',
+  'report.alignedBearish': '{count}/5 BAJISTAS',
+  'report.alignmentMixed': 'Mixto ({bullish}A/{bearish}B)',
+  'report.confluence': 'Confluencia',
+  'report.confluenceStrong': 'FUERTE',
+  'report.confluenceModerate': 'MODERADA',
+  'report.confluenceWeak': 'DÉBIL',
+  'report.estimated': 'estimado',
+  'report.precisionEntry': 'ENTRADA DE PRECISIÓN 15 MIN',
+  'report.executeNow': 'EJECUTAR AHORA',
+  'report.waitPullback': 'ESPERAR RETROCESO',
+  'report.waitBreakout': 'ESPERAR RUPTURA',
+  'report.noTrade': 'SIN OPERACIÓN',
+  'report.entryZone': 'Zona de entrada',
+  'report.trigger': 'Disparador',
+  'report.confirm': 'Confirmar',
+  'report.invalid': 'Inválido',
+  'report.liquidity': 'Liquidez',
+  'report.derivatives': 'Derivados',
+  'report.flipLong': 'Si se invalida: girar a largo sobre {price}',
+  'report.flipShort': 'Si se invalida: girar a corto bajo {price}',
+  'report.success': 'Éxito',
+  'report.successFavorable': 'FAVORABLE — Buena confluencia, gestiona el riesgo',
+  'report.successModerate': 'MODERADO — Algunas confirmaciones, mantente ágil',
+  'report.successUncertain': 'INCIERTO — Señales mixtas, reduce el tamaño',
+  'report.successWeak': 'DÉBIL — Baja convicción, considera no operar',
+  'report.keyInsights': 'CLAVES',
+  'report.scenarios': 'ESCENARIOS (Ambas direcciones)',
+  'report.livePrice': 'PRECIO EN VIVO',
+  'report.cachedPrice': 'PRECIO EN CACHÉ',
+  'report.realCharts': 'Gráficos reales',
+  'report.derivedCharts': 'Derivado',
+  'report.liveOnChain': 'On-chain en vivo',
+  'report.estimatedInput': '{count} dato estimado',
+  'report.estimatedInputs': '{count} datos estimados',
+  'report.excluded': 'excluidos',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'Favorece alcista',
+  'bias.leaningBullish': 'Inclinación alcista',
+  'bias.slightBullish': 'Ligera inclinación alcista',
+  'bias.favoringBearish': 'Favorece bajista',
+  'bias.leaningBearish': 'Inclinación bajista',
+  'bias.slightBearish': 'Ligera inclinación bajista',
+  'bias.neutral': 'Neutral',
+  'tldr.confluenceDecent': 'confluencia aceptable',
+  'tldr.confluenceMixed': 'confluencia mixta',
+  'tldr.confluenceWeak': 'confluencia débil',
+  'tldr.zoneExtended': 'Zona extendida',
+  'tldr.zoneDiscount': 'Zona de descuento',
+  'tldr.zoneMidRange': 'Zona media',
+  'tldr.buyZone': 'Posible zona de compra',
+  'tldr.sellZone': 'Posible zona de venta',
+  'tldr.rangeBound': 'En rango',
+  'tldr.awaitPullback': 'Esperar retroceso',
+  'tldr.awaitBreakout': 'Esperar ruptura',
+  'tldr.noEntry': 'Sin entrada clara',
+
+  // ── Range position ──
+  'context.nearHigh': 'Cerca del MÁXIMO 24h ({percent}% bajo el pico)',
+  'context.upperRange': 'Rango superior (30% alto de 24h)',
+  'context.nearLow': 'Cerca del MÍNIMO 24h ({percent}% sobre el fondo)',
+  'context.lowerRange': 'Rango inferior (30% bajo de 24h)',
+  'context.midRange': 'Consolidación en rango medio',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'MIEDO EXTREMO',
+  'fearGreed.fear': 'MIEDO',
+  'fearGreed.neutral': 'NEUTRAL',
+  'fearGreed.greed': 'CODICIA',
+  'fearGreed.highGreed': 'CODICIA ALTA',
+  'fearGreed.extremeGreed': 'CODICIA EXTREMA',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'ALCISTA',
+  'value.BEARISH': 'BAJISTA',
+  'value.NEUTRAL': 'NEUTRAL',
+  'value.STRONGLY_BULLISH': 'MUY ALCISTA',
+  'value.CAUTIOUSLY_BULLISH': 'ALCISTA CON CAUTELA',
+  'value.CAUTIOUS': 'CAUTELOSO',
+  'value.INFLOW': 'ENTRADA',
+  'value.OUTFLOW': 'SALIDA',
+  'value.NET_BUYING': 'COMPRA NETA',
+  'value.NET_SELLING': 'VENTA NETA',
+  'value.ACCUMULATING': 'ACUMULANDO',
+  'value.DISTRIBUTING': 'DISTRIBUYENDO',
+  'value.BALANCED': 'EQUILIBRADO',
+  'value.EXTREME': 'EXTREMO',
+  'value.HIGH': 'ALTO',
+  'value.MEDIUM': 'MEDIO',
+  'value.MODERATE': 'MODERADO',
+  'value.LOW': 'BAJO',
+  'value.NORMAL': 'NORMAL',
+  'direction.bullish': 'alcista',
+  'direction.bearish': 'bajista',
+  'direction.neutral': 'neutral',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'Tendencia alcista',
+  'regime.TRENDING_DOWN': 'Tendencia bajista',
+  'regime.RANGING': 'Lateral',
+  'regime.HIGH_VOL_CRASH': 'Desplome de alta volatilidad',
+  'regime.ALT_SEASON': 'Temporada de altcoins',
+  'regime.detailCrash': 'BTC {change} en 24h',
+  'regime.detailCrashVolatility': 'BTC {change} en 24h, volatilidad {ratio}× la norma de 30d',
+  'regime.detailAltSeason': '{percent}% de {count} altcoins superan a BTC en 7d',
+  'regime.detailTrend': 'BTC {change} en 72h, eficiencia {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'Funding {rate}/{hours}h ({apr} anual)',
+  'derivatives.crowdedLong': 'largos saturados',
+  'derivatives.crowdedShort': 'cortos saturados',
+  'derivatives.openInterest': 'OI {value} ({change} 24h)',
+  'derivatives.openInterestNoChange': 'OI {value}',
+  'derivatives.liquidations': 'Liquidaciones 1h: {longs} largos / {shorts} cortos',
+  'oiRegime.NEW_LONGS': 'nuevos largos',
+  'oiRegime.SHORT_COVERING': 'cierre de cortos',
+  'oiRegime.NEW_SHORTS': 'nuevos cortos',
+  'oiRegime.LONG_UNWIND': 'cierre de largos',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'Dirección del precio',
+  'factor.price-position': 'Posición en el rango',
+  'factor.fear-greed': 'Miedo y Codicia',
+  'factor.institutional': 'Flujo institucional',
+  'factor.on-chain': 'Flujo neto de exchanges',
+  'factor.volume': 'Volumen',
+  'factor.indicators': 'Indicadores',
+  'factor.patterns': 'Patrones',
+  'factor.cross-asset': 'Entre activos',
+  'factor.derivatives': 'Derivados',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'Confluencia top-down × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% alineado, {branch} — {trends}',
+  'confidence.branchNoDirection': 'sin dirección de operación',
+  'confidence.branchAgree': 'los fundamentales coinciden',
+  'confidence.branchConflict': 'los fundamentales discrepan',
+  'confidence.branchNeutral': 'fundamentales neutrales',
+  'confidence.fundamentals': 'Puntuación fundamental × 0,25',
+  'confidence.fundamentalsDetail': '{bias} al {confidence}% ({bull} puntos alcistas vs {bear} bajistas)',
+  'confidence.heldTo': 'Limitado a {low}–{high}%',
+  'confidence.bandDetail': 'Banda de confianza: {branch}',
+  'confidence.macro': 'Penalización por evento macro',
+  'confidence.macroDetail': '{event} en menos de 2 días',
+  'confidence.clampDetail': 'Límites de confianza técnica',
+  'confidence.neuralBlend': 'Mezcla neuronal (25%)',
+  'confidence.neuralBlendDetail': 'El modelo dice {bias} al {confidence}%',
+  'confidence.neuralAgrees': 'La red neuronal coincide',
+  'confidence.neuralDisagrees': 'La red neuronal discrepa',
+  'confidence.neuralAgreementDetail': '{percent}% de acuerdo entre modelos',
+  'confidence.finalClamp': 'Redondeado y limitado a {low}–{high}%',
+  'confidence.finalClampDetail': 'Límites finales de confianza',
+  'confidence.calibrated': 'Calibrado ({method})',
+  'confidence.calibratedDetail': '{scope}: {count} señales evaluadas — las señales al {raw}% acertaron el {calibrated}% de las veces',
+  'confidence.allSymbols': 'Todos los símbolos',
+
+  // ── Key insights ──
+  'insight.aligned': 'Técnico + fundamental alineados',
+  'insight.technicalLeads': 'Manda el técnico (el fundamental {direction} diverge)',
+  'insight.technicalFundamentalNeutral': 'Señal técnica (fundamental neutral)',
+  'insight.technicalSignal': 'Señal técnica',
+  'insight.verdictBullish': 'ALCISTA — {note}',
+  'insight.verdictBearish': 'BAJISTA — {note}',
+  'insight.verdictNeutral': 'NEUTRAL — Sin dirección técnica clara',
+  'insight.exchangeInflowPressure': 'ENTRADA a exchanges ({magnitude}) → Presión de distribución',
+  'insight.exchangeOutflowSignal': 'SALIDA de exchanges ({magnitude}) → Señal de acumulación',
+  'insight.whales': 'Ballenas: {flow}',
+  'insight.whalesBalanced': 'Ballenas: actividad equilibrada',
+  'insight.longTermHolders': 'Holders de largo plazo +{percent}% (7d)',
+  'insight.etfFlow': 'Flujo de ETF: {flow} ({sentiment})',
+  'insight.strongUptrend': 'Fuerte tendencia alcista ({change})',
+  'insight.bullishMomentum': 'Impulso alcista ({change})',
+  'insight.mildBullish': 'Ligeramente alcista ({change})',
+  'insight.strongDowntrend': 'Fuerte tendencia bajista ({change})',
+  'insight.bearishMomentum': 'Impulso bajista ({change})',
+  'insight.mildBearish': 'Ligeramente bajista ({change})',
+  'insight.sideways': 'Lateral ({change})',
+  'insight.deepDiscount': 'Descuento profundo — Zona de compra óptima',
+  'insight.premiumZone': 'Zona premium — Precaución',
+  'insight.extremeFear': 'Miedo extremo — COMPRA contraria',
+  'insight.extremeGreed': 'Codicia extrema — VENTA contraria',
+  'insight.institutionsBuying': 'Instituciones comprando',
+  'insight.institutionsSelling': 'Instituciones vendiendo',
+  'insight.exchangeOutflows': 'Salidas de exchanges — Acumulación',
+  'insight.exchangeInflows': 'Entradas a exchanges — Distribución',
+  'insight.volumeConfirmsBulls': 'Volumen alto confirma a los alcistas',
+  'insight.volumeConfirmsBears': 'Volumen alto confirma a los bajistas',
+  'insight.indicatorsBullish': 'Indicadores alcistas ({signals})',
+  'insight.indicatorsBearish': 'Indicadores bajistas ({signals})',
+  'insight.bollingerSqueeze': 'Compresión de Bollinger — Expansión probable',
+  'insight.factorsBullish': 'ALCISTA — {bullish} factores alcistas vs {bearish} bajistas',
+  'insight.factorsBearish': 'BAJISTA — {bearish} factores bajistas vs {bullish} alcistas',
+  'insight.leanBullish': 'Inclinación ALCISTA — Señal moderada',
+  'insight.leanBearish': 'Inclinación BAJISTA — Señal moderada',
+  'insight.noEdge': 'NEUTRAL — Sin ventaja clara',
+  'insight.crashRegime': 'Régimen de desplome de alta volatilidad — {detail}, aversión al riesgo',
+  'insight.btcHeadwind': 'Estructura de BTC bajista — {symbol} lo sigue (ρ {correlation}, β {beta}), los largos van contra la corriente',
+  'insight.btcTailwind': 'Estructura de BTC alcista — viento a favor para {symbol} (ρ {correlation}, β {beta})',
+  'insight.altSeason': 'Temporada de altcoins — {detail}',
+  'insight.fundingCrowdedLong': 'Funding {rate} cada {hours}h en extremo — largos saturados, riesgo de barrida a la baja',
+  'insight.fundingCrowdedShort': 'Funding {rate} cada {hours}h en extremo — cortos saturados, riesgo de squeeze al alza',
+  'insight.oiNewLongs': 'Interés abierto {oi} con el precio {price} en {hours}h — nuevos largos respaldan el movimiento',
+  'insight.oiShortCovering': 'Precio {price} con interés abierto {oi} en {hours}h — cierre de cortos, no compradores nuevos',
+  'insight.oiNewShorts': 'Interés abierto {oi} con el precio {price} en {hours}h — nuevos cortos presionan',
+  'insight.oiLongUnwind': 'Precio {price} con interés abierto {oi} en {hours}h — largos cerrando, no vendedores nuevos',
+  'insight.longsFlushed': '{amount} en largos liquidados cerca de {price} — apalancamiento purgado',
+  'insight.shortsSqueezed': '{amount} en cortos liquidados cerca de {price} — short squeeze',
+  'insight.smartMoneyAccumulating': 'El dinero inteligente acumula mientras el minorista entra en pánico — históricamente alcista',
+  'insight.institutionsDistributing': 'Las instituciones distribuyen al FOMO minorista — se aconseja precaución',
+  'insight.alignedBullish': 'Sentimiento alcista alineado en todos los participantes — fuerte convicción',
+  'insight.alignedBearish': 'Sentimiento bajista alineado en todos los participantes — fuerte convicción',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'Envolvente alcista',
+  'pattern.BEARISH_ENGULFING': 'Envolvente bajista',
+  'pattern.BULLISH_PIN_BAR': 'Pin bar alcista',
+  'pattern.BEARISH_PIN_BAR': 'Pin bar bajista',
+  'pattern.INSIDE_BAR': 'Inside bar',
+  'pattern.MORNING_STAR': 'Estrella de la mañana',
+  'pattern.EVENING_STAR': 'Estrella del atardecer',
+  'pattern.DOUBLE_TOP': 'Doble techo',
+  'pattern.DOUBLE_BOTTOM': 'Doble suelo',
+  'pattern.HEAD_AND_SHOULDERS': 'Hombro-cabeza-hombro',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'Hombro-cabeza-hombro invertido',
+  'pattern.ASCENDING_TRIANGLE': 'Triángulo ascendente',
+  'pattern.DESCENDING_TRIANGLE': 'Triángulo descendente',
+  'pattern.SYMMETRICAL_TRIANGLE': 'Triángulo simétrico',
+  'pattern.BULL_FLAG': 'Bandera alcista',
+  'pattern.BEAR_FLAG': 'Bandera bajista',
+  'pattern.breakoutPending': 'ruptura pendiente',
+  'pattern.bullishContinuation': 'continuación alcista',
+  'pattern.bearishContinuation': 'continuación bajista',
+  'pattern.bullishReversal': 'reversión alcista',
+  'pattern.bearishReversal': 'reversión bajista',
+  'pattern.confirmed': 'confirmado',
+
+  // ── Data provenance ──
+  'provenance.live': 'En vivo · {source}',
+  'provenance.cached': 'En caché · {source}',
+  'provenance.cachedAge': 'En caché {age} · {source}',
+  'provenance.estimated': 'Estimado a partir de {basis}',
+  'basis.priceRange': 'máx./mín./cambio 24h',
+  'basis.priceChange': 'cambio de precio 24h',
+  'basis.neutralFearGreed': 'sin índice — se asume 50 neutral',
+  'basis.volumeEstimate': 'volumen 24h × 0,85',
+  'basis.chainParameters': 'parámetros típicos de la cadena',
+  'basis.chainThroughput': 'capacidad de la cadena',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} en {countdown}',
+  'macro.countdownToday': 'HOY',
+  'macro.countdownTomorrow': 'MAÑANA',
+  'macro.countdownDays': '{days}d',
+  'macro.confidenceReduced': 'Confianza reducida por la cercanía del evento',
+  'macro.today': 'HOY',
+  'macro.tomorrow': 'Mañana',
+  'macro.inDays': 'En {days} días',
+  'macro.joblessClaims': 'Solicitudes semanales de desempleo',
+  'macro.watchReaction': 'Atento a la reacción del mercado',
+  'macro.quarterlyExpiry': 'Vencimiento trimestral de opciones (Mayor)',
+  'macro.monthlyExpiry': 'Vencimiento mensual de opciones',
+  'macro.quarterlyExpiryNote': 'Vencen miles de millones en opciones — espera volatilidad de max pain',
+  'macro.monthlyExpiryNote': 'Renovación de grandes posiciones',
+  'macro.tradePolicy': 'Aranceles/Política comercial + Geopolítica',
+  'macro.tradePolicyNote': 'Tensiones comerciales y noticias regulatorias pueden provocar movimientos bruscos',
+  'macro.fomc': 'Decisión de tipos del FOMC',
+  'macro.fomcNote': 'CME FedWatch: ~90% espera mantener. Recorte sorpresa = muy alcista, subida = riesgo de desplome',
+  'macro.cpi': 'Dato de inflación IPC de EE. UU.',
+  'macro.cpiNote': 'Consenso: ~2,8% interanual. Por debajo = sorpresa alcista (esperanza de recortes), por encima = reacción restrictiva',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'Rango: {low} – {high}',
+  'entry.zoneWait': 'Esperar: {low} – {high}',
+  'entry.zonePullback': 'Esperar retroceso a {low} – {high}',
+  'entry.zoneReliefRally': 'Esperar rebote a {low} – {high}',
+  'entry.zoneDiscount': 'Descuento: entrada en {price}',
+  'entry.zonePremium': 'Premium: entrada en {price}',
+  'entry.zoneBreakdown': 'Ruptura bajista: entrada en {price}',
+  'entry.zoneEntry': 'Entrada: {price}',
+  'entry.triggerNoTrade': 'SIN OPERACIÓN — {confluence}% de confluencia (se necesita 45%+)',
+  'entry.triggerNeutral': 'SIN OPERACIÓN — Sesgo neutral, espera dirección',
+  'entry.triggerStrongUptrend': 'ESPERAR — Fuerte tendencia alcista (+{change}%), espera retroceso a soporte clave',
+  'entry.triggerBuyDiscount': 'COMPRAR — Precio en descuento con confluencia alcista',
+  'entry.triggerExtended': 'ESPERAR — Extendido, no lo persigas. Espera retroceso a soporte',
+  'entry.triggerBuyMomentum': 'COMPRAR — Impulso activo con la tendencia',
+  'entry.triggerRiskRewardLong': 'ESPERAR — R:R desfavorable, espera mejor entrada',
+  'entry.triggerSupport': 'ESPERAR — Mejor entrada en zona de soporte',
+  'entry.triggerStrongDowntrend': 'ESPERAR — Fuerte tendencia bajista ({change}%), espera rebote a resistencia clave',
+  'entry.triggerSellPremium': 'VENDER — Precio en premium con confluencia bajista',
+  'entry.triggerSellBreakdown': 'VENDER — Ruptura confirmada, corto por impulso',
+  'entry.triggerRiskRewardBreakdown': 'ESPERAR — R:R desfavorable tras la ruptura',
+  'entry.triggerOversold': 'ESPERAR — Sobreventa, espera rebote para vender en corto',
+  'entry.triggerSellMomentum': 'VENDER — Impulso activo con la tendencia',
+  'entry.triggerRiskRewardShort': 'ESPERAR — R:R desfavorable, espera rebote',
+  'entry.triggerResistance': 'ESPERAR — Mejor entrada en zona de resistencia',
+  'entry.triggerDefault': 'Esperar configuración',
+  'entry.confirmMixed': 'Temporalidades {bullish}A/{bearish}B — espera alineación',
+  'entry.confirmBuyFib50': 'Comprar con acción de precio alcista en {price} (Fib 50%)',
+  'entry.confirmSellFib50': 'Vender con acción de precio bajista en {price} (Fib 50%)',
+  'entry.confirmConfluenceTarget': '{confluence}% de confluencia • Objetivo: {price}',
+  'entry.confirmTarget': 'Objetivo: {price}',
+  'entry.confirmRetraceLong': 'Retroceso a la zona Fib 38-62% con vela alcista de confirmación',
+  'entry.confirmPullbackRiskReward': 'Espera un retroceso que mejore el riesgo/beneficio',
+  'entry.confirmBuyFib': 'Comprar con acción de precio alcista en niveles Fib',
+  'entry.confirmBelowSupport': 'Precio bajo soporte, {percent}% de presión vendedora',
+  'entry.confirmBounceShort': 'Espera un rebote para vender en corto con mejor R:R',
+  'entry.confirmBounceFib': 'Rebote a la zona Fib 38-62% para corto con vela bajista',
+  'entry.confirmReliefRiskReward': 'Espera un rebote que mejore el riesgo/beneficio',
+  'entry.confirmSellFib': 'Vender con acción de precio bajista en niveles Fib',
+  'entry.confirmNeutral': 'Espera ruptura al alza o a la baja con confirmación de volumen',
+  'entry.confirmPending': 'Pendiente',
+  'entry.invalidBelowRiskReward': 'Bajo {price} — R:R {ratio}:1',
+  'entry.invalidAboveRiskReward': 'Sobre {price} — R:R {ratio}:1',
+  'entry.invalidBelow': 'Bajo {price}',
+  'entry.invalidAbove': 'Sobre {price}',
+  'entry.invalidTrendBreak': 'Bajo {price} (ruptura de tendencia)',
+  'entry.invalidTrendReversal': 'Sobre {price} (reversión de tendencia)',
+  'entry.invalidNone': 'N/D',
+  'entry.structureInsufficient': 'Confluencia insuficiente',
+  'entry.structureStrongBullish': 'Muy alcista ({confluence}% conf.)',
+  'entry.structureBullish': 'Alcista ({confluence}% conf.)',
+  'entry.structureStrongBearish': 'Muy bajista ({confluence}% conf.)',
+  'entry.structureBearish': 'Bajista ({confluence}% conf.)',
+  'entry.structureExtended': 'Extendido',
+  'entry.structureTrending': 'En tendencia',
+  'entry.structureBreakdown': 'Ruptura activa',
+  'entry.structureOversold': 'Sobreventa',
+  'entry.structureNeutral': 'Neutral',
+  'entry.structureUndefined': 'Indefinido',
+  'entry.phaseWaitSetup': 'Esperar configuración',
+  'entry.phaseWaitingPullback': 'Esperando retroceso',
+  'entry.phaseAccumulation': 'Acumulación',
+  'entry.phaseDistribution': 'Distribución',
+  'entry.phaseWaitRetracement': 'Esperar retroceso',
+  'entry.phaseImpulse': 'Impulso',
+  'entry.phaseImpulseDown': 'Impulso bajista',
+  'entry.phaseConsolidation': 'Consolidación',
+  'entry.phaseUnknown': 'Desconocido',
+  'entry.liquidityBidHeavy': 'Libro {percent}% cargado a compras en ±2%, spread {spread}%',
+  'entry.liquidityAskHeavy': 'Libro {percent}% cargado a ventas en ±2%, spread {spread}%',
+  'entry.liquidityBalanced': 'Libro equilibrado en ±2%, spread {spread}%',
+  'entry.liquidityBidWall': 'muro de compra {size} en {price} (−{distance}%)',
+  'entry.liquidityAskWall': 'muro de venta {size} en {price} (+{distance}%)',
+  'entry.triggerAskWallAhead': 'ESPERAR — Muro de venta de {size} en {price} justo encima. Entra cuando sea absorbido y el precio se mantenga arriba',
+  'entry.triggerBidWallAhead': 'ESPERAR — Muro de compra de {size} en {price} justo debajo. Entra cuando sea absorbido y el precio se mantenga abajo',
+
+  // ── Trade plan ──
+  'plan.stop': 'Stop',
+  'plan.close': 'cerrar {percent}%',
+  'plan.blended': 'combinado',
+  'plan.estimated': 'est.',
+  'plan.size': 'Tamaño: {units} {symbol} (~{notional}) arriesgando {risk} ({percent}% de {account})',
+  'plan.stopSwingLow': 'Mínimo de swing − {buffer}× ATR',
+  'plan.stopSwingHigh': 'Máximo de swing + {buffer}× ATR',
+  'plan.stopBeyondEntry': '1,5× ATR más allá de la entrada',
+  'plan.stopMinimum': '{multiple}× ATR mínimo',
+  'plan.stopCap': 'tope de {multiple}× ATR',
+  'plan.swingHigh': 'Máximo de swing',
+  'plan.swingLow': 'Mínimo de swing',
+  'plan.runner': 'Runner',
+  'plan.rMultiple': 'Múltiplo de R',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'SI el precio cierra bajo {price} en {hours}h',
+  'scenario.closeAbove': 'SI el precio cierra sobre {price} en {hours}h',
+  'scenario.sustainAbove': 'SI el precio se mantiene sobre {price} a las {hours}h',
+  'scenario.holdBelow': 'SI el precio rompe bajo {price} y sigue ahí a las {hours}h',
+  'scenario.range': 'SI el precio se mantiene entre {low} - {high} durante las próximas {hours}h',
+  'scenario.closeAboveLevel': 'SI el precio cierra sobre {price} ({level}) en {hours}h',
+  'scenario.closeBelowLevel': 'SI el precio cierra bajo {price} ({level}) en {hours}h',
+  'scenario.bullInvalidated': 'Escenario alcista INVALIDADO — estructura rota',
+  'scenario.bullBreakout': 'Ruptura alcista CONFIRMADA — nuevo soporte establecido',
+  'scenario.bearInvalidated': 'Escenario bajista INVALIDADO — estructura recuperada',
+  'scenario.bearBreakdown': 'Ruptura bajista CONFIRMADA — se espera venta acelerada',
+  'scenario.consolidation': 'La CONSOLIDACIÓN continúa — espera resolución',
+  'scenario.upsideExtension': 'EXTENSIÓN alcista — siguiente resistencia superada',
+  'scenario.downsideExtension': 'EXTENSIÓN bajista — siguiente soporte perdido',
+  'scenario.exitLongs': 'SALIR de largos, evaluar corto en el retest',
+  'scenario.addLongs': 'AÑADIR a largos en retest exitoso de la resistencia rota',
+  'scenario.exitShorts': 'SALIR de cortos, evaluar largo con confirmación',
+  'scenario.addShorts': 'AÑADIR a cortos en intento fallido de rebote',
+  'scenario.tradeRange': 'Opera solo extremos del rango, espera ruptura con volumen',
+  'scenario.takeProfitLong': 'Toma beneficio parcial, sube el stop bajo el nivel roto',
+  'scenario.takeProfitShort': 'Toma beneficio parcial, baja el stop sobre el nivel roto',
+  'scenario.flatSqueeze': 'Quédate fuera — riesgo de squeeze, sin cortos nuevos hasta que se agote el impulso',
+  'scenario.flatNoBase': 'Quédate fuera — sin largos nuevos hasta que se forme una base',
+  'scenario.followBreakout': 'Sigue la ruptura con stop de vuelta dentro del rango',
+  'scenario.followBreakdown': 'Sigue la caída con stop de vuelta dentro del rango',
+  'scenario.high24h': 'máximo 24h',
+  'scenario.low24h': 'mínimo 24h',
+  'scenario.upside': 'ESCENARIO ALCISTA: si el precio recupera {price} con volumen',
+  'scenario.bearsTrapped': 'Bajistas atrapados, probable cambio de impulso',
+  'scenario.considerLong': 'Considera girar a largo o salir de cortos',
+  'scenario.downside': 'ESCENARIO BAJISTA: si el precio pierde {price} con volumen',
+  'scenario.bullsTrapped': 'Alcistas atrapados, ruptura bajista en juego',
+  'scenario.considerShort': 'Considera girar a corto o salir de largos',
+  'scenario.breakout': 'ESCENARIO DE RUPTURA: vigila {high} (arriba) / {low} (abajo)',
+  'scenario.firstToBreak': 'La primera ruptura con volumen define la dirección',
+  'scenario.reactToBreakout': 'Reacciona a la ruptura, no la predigas',
+  'probability.sigma': 'σ1h {sigma}% ({source})',
+  'probability.realised': 'realizada',
+  'probability.fromRange': 'del rango 24h',
+  'probability.atrToEdge': '{distance} ATR al borde más cercano',
+  'probability.atrAway': 'a {distance} ATR',
+  'probability.modelHistory': 'modelo {model}% + historial {history}% en {windows} ventanas',
+  'probability.volatilityModel': 'modelo de volatilidad',
+};
@@ -0,0 +1,453 @@
+// French report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const fr: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': 'ANALYSE {symbol}',
+  'report.tldr': 'En bref',
+  'report.range24h': '24h',
+  'report.volumeSpike': 'PIC DE VOLUME : +{percent}% au-dessus de {baseline} ({magnitude}) [Spot via agrégateur]',
+  'report.volume': 'Volume',
+  'report.volumeAbove': '+{percent}% au-dessus de {baseline}',
+  'report.volumeBelow': '{percent}% sous {baseline}',
+  'report.volumeNear': 'proche de {baseline}',
+  'report.avg24h': 'moy. 24h',
+  'report.avgSameHour': 'moy. même heure',
+  'report.avgWindow': 'moy. {window}',
+  'report.futuresOI': 'OI des futures',
+  'report.oiRising': 'en hausse (longs en construction)',
+  'report.oiDeclining': 'en baisse (shorts qui se ferment)',
+  'report.oiStable': 'stable',
+  'report.volumeProfile': 'Profil de volume ({hours}h) : POC {poc} • Valeur {low}–{high} • Prix {position}',
+  'report.aboveValue': 'au-dessus de la valeur',
+  'report.belowValue': 'sous la valeur',
+  'report.inValue': 'dans la valeur',
+  'report.verdict': 'VERDICT',
+  'report.confidence': 'Confiance',
+  'report.calibratedFrom': 'calibrée depuis {percent}%',
+  'report.marketPulse': 'POULS DU MARCHÉ',
+  'report.fearGreed': 'Peur & Avidité',
+  'report.whaleActivity': 'Activité des baleines',
+  'report.buy': 'Achat',
+  'report.sell': 'Vente',
+  'report.net': 'Net',
+  'report.exchangeFlow': 'Flux des exchanges',
+  'report.institutional': 'Institutionnel',
+  'report.noEtf': 'N/D (pas d\'ETF pour cet actif)',
+  'report.etfOnly': 'ETF disponibles uniquement pour BTC/ETH',
+  'report.crossAsset': 'Multi-actifs',
+  'report.regimeUnavailable': 'régime n/d',
+  'report.versus': 'vs {benchmark}',
+  'report.notScored': 'Non noté (estimé) : {factors}',
+  'report.macroCatalyst': 'CATALYSEUR MACRO',
+  'report.multiTimeframe': 'MULTI-UNITÉS DE TEMPS',
+  'report.priceEstimates': 'Estimations basées sur le prix (API graphique indisponible)',
+  'report.alignedBullish': '{count}/5 HAUSSIERS',
+  'report.alignedBearish': '{count}/5 BAISSIERS',
+  'report.alignmentMixed': 'Mitigé ({bullish}H/{bearish}B)',
+  'report.confluence': 'Confluence',
+  'report.confluenceStrong': 'FORTE',
+  'report.confluenceModerate': 'MODÉRÉE',
+  'report.confluenceWeak': 'FAIBLE',
+  'report.estimated': 'estimé',
+  'report.precisionEntry': 'ENTRÉE DE PRÉCISION 15 MIN',
+  'report.executeNow': 'EXÉCUTER MAINTENANT',
+  'report.waitPullback': 'ATTENDRE UN REPLI',
+  'report.waitBreakout': 'ATTENDRE UNE CASSURE',
+  'report.noTrade': 'PAS DE TRADE',
+  'report.entryZone': 'Zone d\'entrée',
+  'report.trigger': 'Déclencheur',
+  'report.confirm': 'Confirmation',
+  'report.invalid': 'Invalidation',
+  'report.liquidity': 'Liquidité',
+  'report.derivatives': 'Dérivés',
+  'report.flipLong': 'Si invalidé : passer long au-dessus de {price}',
+  'report.flipShort': 'Si invalidé : passer short sous {price}',
+  'report.success': 'Réussite',
+  'report.successFavorable': 'FAVORABLE — Bonne confluence, gérez le risque',
+  'report.successModerate': 'MODÉRÉ — Quelques confirmations, restez agile',
+  'report.successUncertain': 'INCERTAIN — Signaux mitigés, réduisez la taille',
+  'report.successWeak': 'FAIBLE — Conviction faible, envisagez de rester à l\'écart',
+  'report.keyInsights': 'POINTS CLÉS',
+  'report.scenarios': 'SCÉNARIOS (Deux directions)',
+  'report.livePrice': 'PRIX EN DIRECT',
+  'report.cachedPrice': 'PRIX EN CACHE',
+  'report.realCharts': 'Graphiques réels',
+  'report.derivedCharts': 'Dérivé',
+  'report.liveOnChain': 'On-chain en direct',
+  'report.estimatedInput': '{count} donnée estimée',
+  'report.estimatedInputs': '{count} données estimées',
+  'report.excluded': 'exclues',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'Penche nettement haussier',
+  'bias.leaningBullish': 'Tendance haussière',
+  'bias.slightBullish': 'Légère inclinaison haussière',
+  'bias.favoringBearish': 'Penche nettement baissier',
+  'bias.leaningBearish': 'Tendance baissière',
+  'bias.slightBearish': 'Légère inclinaison baissière',
+  'bias.neutral': 'Neutre',
+  'tldr.confluenceDecent': 'confluence correcte',
+  'tldr.confluenceMixed': 'confluence mitigée',
+  'tldr.confluenceWeak': 'confluence faible',
+  'tldr.zoneExtended': 'Zone étendue',
+  'tldr.zoneDiscount': 'Zone de décote',
+  'tldr.zoneMidRange': 'Milieu de range',
+  'tldr.buyZone': 'Zone d\'achat potentielle',
+  'tldr.sellZone': 'Zone de vente potentielle',
+  'tldr.rangeBound': 'En range',
+  'tldr.awaitPullback': 'Attendre un repli',
+  'tldr.awaitBreakout': 'Attendre une cassure',
+  'tldr.noEntry': 'Pas d\'entrée claire',
+
+  // ── Range position ──
+  'context.nearHigh': 'Proche du PLUS HAUT 24h ({percent}% sous le sommet)',
+  'context.upperRange': 'Haut du range (30% supérieurs sur 24h)',
+  'context.nearLow': 'Proche du PLUS BAS 24h ({percent}% au-dessus du creux)',
+  'context.lowerRange': 'Bas du range (30% inférieurs sur 24h)',
+  'context.midRange': 'Consolidation en milieu de range',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'PEUR EXTRÊME',
+  'fearGreed.fear': 'PEUR',
+  'fearGreed.neutral': 'NEUTRE',
+  'fearGreed.greed': 'AVIDITÉ',
+  'fearGreed.highGreed': 'FORTE AVIDITÉ',
+  'fearGreed.extremeGreed': 'AVIDITÉ EXTRÊME',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'HAUSSIER',
+  'value.BEARISH': 'BAISSIER',
+  'value.NEUTRAL': 'NEUTRE',
+  'value.STRONGLY_BULLISH': 'TRÈS HAUSSIER',
+  'value.CAUTIOUSLY_BULLISH': 'PRUDEMMENT HAUSSIER',
+  'value.CAUTIOUS': 'PRUDENT',
+  'value.INFLOW': 'ENTRÉE',
+  'value.OUTFLOW': 'SORTIE',
+  'value.NET_BUYING': 'ACHAT NET',
+  'value.NET_SELLING': 'VENTE NETTE',
+  'value.ACCUMULATING': 'ACCUMULATION',
+  'value.DISTRIBUTING': 'DISTRIBUTION',
+  'value.BALANCED': 'ÉQUILIBRÉ',
+  'value.EXTREME': 'EXTRÊME',
+  'value.HIGH': 'ÉLEVÉ',
+  'value.MEDIUM': 'MOYEN',
+  'value.MODERATE': 'MODÉRÉ',
+  'value.LOW': 'FAIBLE',
+  'value.NORMAL': 'NORMAL',
+  'direction.bullish': 'haussier',
+  'direction.bearish': 'baissier',
+  'direction.neutral': 'neutre',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'Tendance haussière',
+  'regime.TRENDING_DOWN': 'Tendance baissière',
+  'regime.RANGING': 'Range',
+  'regime.HIGH_VOL_CRASH': 'Krach à forte volatilité',
+  'regime.ALT_SEASON': 'Saison des altcoins',
+  'regime.detailCrash': 'BTC {change} sur 24h',
+  'regime.detailCrashVolatility': 'BTC {change} sur 24h, volatilité {ratio}× la norme 30j',
+  'regime.detailAltSeason': '{percent}% de {count} altcoins battent BTC sur 7j',
+  'regime.detailTrend': 'BTC {change} sur 72h, efficience {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'Funding {rate}/{hours}h ({apr} annualisé)',
+  'derivatives.crowdedLong': 'longs surchargés',
+  'derivatives.crowdedShort': 'shorts surchargés',
+  'derivatives.openInterest': 'OI {value} ({change} 24h)',
+  'derivatives.openInterestNoChange': 'OI {value}',
+  'derivatives.liquidations': 'Liquidations 1h : {longs} longs / {shorts} shorts',
+  'oiRegime.NEW_LONGS': 'nouveaux longs',
+  'oiRegime.SHORT_COVERING': 'rachat de shorts',
+  'oiRegime.NEW_SHORTS': 'nouveaux shorts',
+  'oiRegime.LONG_UNWIND': 'débouclage de longs',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'Direction du prix',
+  'factor.price-position': 'Position dans le range',
+  'factor.fear-greed': 'Peur & Avidité',
+  'factor.institutional': 'Flux institutionnel',
+  'factor.on-chain': 'Flux net des exchanges',
+  'factor.volume': 'Volume',
+  'factor.indicators': 'Indicateurs',
+  'factor.patterns': 'Figures',
+  'factor.cross-asset': 'Multi-actifs',
+  'factor.derivatives': 'Dérivés',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'Confluence top-down × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% aligné, {branch} — {trends}',
+  'confidence.branchNoDirection': 'aucune direction de trade',
+  'confidence.branchAgree': 'fondamentaux concordants',
+  'confidence.branchConflict': 'fondamentaux en conflit',
+  'confidence.branchNeutral': 'fondamentaux neutres',
+  'confidence.fundamentals': 'Score fondamental × 0,25',
+  'confidence.fundamentalsDetail': '{bias} à {confidence}% ({bull} points haussiers contre {bear} baissiers)',
+  'confidence.heldTo': 'Borné à {low}–{high}%',
+  'confidence.bandDetail': 'Bande de confiance : {branch}',
+  'confidence.macro': 'Pénalité événement macro',
+  'confidence.macroDetail': '{event} dans moins de 2 jours',
+  'confidence.clampDetail': 'Limites de confiance technique',
+  'confidence.neuralBlend': 'Mélange neuronal (25%)',
+  'confidence.neuralBlendDetail': 'Le modèle indique {bias} à {confidence}%',
+  'confidence.neuralAgrees': 'Le réseau neuronal concorde',
+  'confidence.neuralDisagrees': 'Le réseau neuronal diverge',
+  'confidence.neuralAgreementDetail': '{percent}% d\'accord entre modèles',
+  'confidence.finalClamp': 'Arrondi et borné à {low}–{high}%',
+  'confidence.finalClampDetail': 'Limites finales de confiance',
+  'confidence.calibrated': 'Calibré ({method})',
+  'confidence.calibratedDetail': '{scope} : {count} signaux évalués — les signaux à {raw}% ont eu raison {calibrated}% du temps',
+  'confidence.allSymbols': 'Tous les symboles',
+
+  // ── Key insights ──
+  'insight.aligned': 'Technique + fondamental alignés',
+  'insight.technicalLeads': 'La technique prime (le fondamental {direction} diverge)',
+  'insight.technicalFundamentalNeutral': 'Signal technique (fondamental neutre)',
+  'insight.technicalSignal': 'Signal technique',
+  'insight.verdictBullish': 'HAUSSIER — {note}',
+  'insight.verdictBearish': 'BAISSIER — {note}',
+  'insight.verdictNeutral': 'NEUTRE — Pas de direction technique claire',
+  'insight.exchangeInflowPressure': 'ENTRÉES sur les exchanges ({magnitude}) → Pression de distribution',
+  'insight.exchangeOutflowSignal': 'SORTIES des exchanges ({magnitude}) → Signal d\'accumulation',
+  'insight.whales': 'Baleines : {flow}',
+  'insight.whalesBalanced': 'Baleines : activité équilibrée',
+  'insight.longTermHolders': 'Détenteurs long terme +{percent}% (7j)',
+  'insight.etfFlow': 'Flux ETF : {flow} ({sentiment})',
+  'insight.strongUptrend': 'Forte tendance haussière ({change})',
+  'insight.bullishMomentum': 'Momentum haussier ({change})',
+  'insight.mildBullish': 'Légèrement haussier ({change})',
+  'insight.strongDowntrend': 'Forte tendance baissière ({change})',
+  'insight.bearishMomentum': 'Momentum baissier ({change})',
+  'insight.mildBearish': 'Légèrement baissier ({change})',
+  'insight.sideways': 'Latéral ({change})',
+  'insight.deepDiscount': 'Forte décote — Zone d\'achat optimale',
+  'insight.premiumZone': 'Zone premium — Prudence',
+  'insight.extremeFear': 'Peur extrême — ACHAT à contre-courant',
+  'insight.extremeGreed': 'Avidité extrême — VENTE à contre-courant',
+  'insight.institutionsBuying': 'Les institutions achètent',
+  'insight.institutionsSelling': 'Les institutions vendent',
+  'insight.exchangeOutflows': 'Sorties des exchanges — Accumulation',
+  'insight.exchangeInflows': 'Entrées sur les exchanges — Distribution',
+  'insight.volumeConfirmsBulls': 'Volume élevé confirme les acheteurs',
+  'insight.volumeConfirmsBears': 'Volume élevé confirme les vendeurs',
+  'insight.indicatorsBullish': 'Indicateurs haussiers ({signals})',
+  'insight.indicatorsBearish': 'Indicateurs baissiers ({signals})',
+  'insight.bollingerSqueeze': 'Compression de Bollinger — Expansion probable',
+  'insight.factorsBullish': 'HAUSSIER — {bullish} facteurs haussiers contre {bearish} baissiers',
+  'insight.factorsBearish': 'BAISSIER — {bearish} facteurs baissiers contre {bullish} haussiers',
+  'insight.leanBullish': 'Penchant HAUSSIER — Signal modéré',
+  'insight.leanBearish': 'Penchant BAISSIER — Signal modéré',
+  'insight.noEdge': 'NEUTRE — Pas d\'avantage clair',
+  'insight.crashRegime': 'Régime de krach à forte volatilité — {detail}, aversion au risque',
+  'insight.btcHeadwind': 'Structure BTC baissière — {symbol} la suit (ρ {correlation}, β {beta}), les longs vont à contre-courant',
+  'insight.btcTailwind': 'Structure BTC haussière — vent porteur pour {symbol} (ρ {correlation}, β {beta})',
+  'insight.altSeason': 'Saison des altcoins — {detail}',
+  'insight.fundingCrowdedLong': 'Funding {rate} par {hours}h à un extrême — longs surchargés, risque de purge à la baisse',
+  'insight.fundingCrowdedShort': 'Funding {rate} par {hours}h à un extrême — shorts surchargés, risque de squeeze à la hausse',
+  'insight.oiNewLongs': 'Open interest {oi} avec le prix {price} sur {hours}h — de nouveaux longs portent le mouvement',
+  'insight.oiShortCovering': 'Prix {price} avec un open interest {oi} sur {hours}h — rachat de shorts, pas de nouveaux acheteurs',
+  'insight.oiNewShorts': 'Open interest {oi} avec le prix {price} sur {hours}h — de nouveaux shorts pèsent',
+  'insight.oiLongUnwind': 'Prix {price} avec un open interest {oi} sur {hours}h — débouclage de longs, pas de nouveaux vendeurs',
+  'insight.longsFlushed': '{amount} de longs liquidés vers {price} — levier purgé',
+  'insight.shortsSqueezed': '{amount} de shorts liquidés vers {price} — short squeeze',
+  'insight.smartMoneyAccumulating': 'L\'argent intelligent accumule pendant que les particuliers paniquent — historiquement haussier',
+  'insight.institutionsDistributing': 'Les institutions distribuent au FOMO des particuliers — prudence conseillée',
+  'insight.alignedBullish': 'Sentiment haussier partagé par tous les participants — forte conviction',
+  'insight.alignedBearish': 'Sentiment baissier partagé par tous les participants — forte conviction',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'Avalement haussier',
+  'pattern.BEARISH_ENGULFING': 'Avalement baissier',
+  'pattern.BULLISH_PIN_BAR': 'Pin bar haussière',
+  'pattern.BEARISH_PIN_BAR': 'Pin bar baissière',
+  'pattern.INSIDE_BAR': 'Inside bar',
+  'pattern.MORNING_STAR': 'Étoile du matin',
+  'pattern.EVENING_STAR': 'Étoile du soir',
+  'pattern.DOUBLE_TOP': 'Double sommet',
+  'pattern.DOUBLE_BOTTOM': 'Double creux',
+  'pattern.HEAD_AND_SHOULDERS': 'Tête-épaules',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'Tête-épaules inversée',
+  'pattern.ASCENDING_TRIANGLE': 'Triangle ascendant',
+  'pattern.DESCENDING_TRIANGLE': 'Triangle descendant',
+  'pattern.SYMMETRICAL_TRIANGLE': 'Triangle symétrique',
+  'pattern.BULL_FLAG': 'Drapeau haussier',
+  'pattern.BEAR_FLAG': 'Drapeau baissier',
+  'pattern.breakoutPending': 'cassure en attente',
+  'pattern.bullishContinuation': 'continuation haussière',
+  'pattern.bearishContinuation': 'continuation baissière',
+  'pattern.bullishReversal': 'retournement haussier',
+  'pattern.bearishReversal': 'retournement baissier',
+  'pattern.confirmed': 'confirmé',
+
+  // ── Data provenance ──
+  'provenance.live': 'En direct · {source}',
+  'provenance.cached': 'En cache · {source}',
+  'provenance.cachedAge': 'En cache {age} · {source}',
+  'provenance.estimated': 'Estimé à partir de {basis}',
+  'basis.priceRange': 'haut/bas/variation 24h',
+  'basis.priceChange': 'variation du prix 24h',
+  'basis.neutralFearGreed': 'aucun indice fourni — 50 neutre supposé',
+  'basis.volumeEstimate': 'volume 24h × 0,85',
+  'basis.chainParameters': 'paramètres de chaîne typiques',
+  'basis.chainThroughput': 'débit de la chaîne',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} dans {countdown}',
+  'macro.countdownToday': 'AUJOURD\'HUI',
+  'macro.countdownTomorrow': 'DEMAIN',
+  'macro.countdownDays': '{days}j',
+  'macro.confidenceReduced': 'Confiance réduite en raison de la proximité de l\'événement',
+  'macro.today': 'AUJOURD\'HUI',
+  'macro.tomorrow': 'Demain',
+  'macro.inDays': 'Dans {days} jours',
+  'macro.joblessClaims': 'Inscriptions hebdomadaires au chômage',
+  'macro.watchReaction': 'Surveillez la réaction du marché',
+  'macro.quarterlyExpiry': 'Échéance trimestrielle des options (Majeure)',
+  'macro.monthlyExpiry': 'Échéance mensuelle des options',
+  'macro.quarterlyExpiryNote': 'Des milliards en options expirent — volatilité « max pain » attendue',
+  'macro.monthlyExpiryNote': 'Roulement de grosses positions',
+  'macro.tradePolicy': 'Droits de douane/Politique commerciale + Géopolitique',
+  'macro.tradePolicyNote': 'Les tensions commerciales et l\'actualité réglementaire peuvent provoquer des mouvements brusques',
+  'macro.fomc': 'Décision de taux du FOMC',
+  'macro.fomcNote': 'CME FedWatch : ~90% de statu quo attendu. Baisse surprise = très haussier, hausse = risque de krach',
+  'macro.cpi': 'Inflation IPC américaine',
+  'macro.cpiNote': 'Consensus : ~2,8% sur un an. En dessous = surprise haussière (espoir de baisse des taux), au-dessus = réaction restrictive',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'Range : {low} – {high}',
+  'entry.zoneWait': 'Attendre : {low} – {high}',
+  'entry.zonePullback': 'Attendre un repli vers {low} – {high}',
+  'entry.zoneReliefRally': 'Attendre un rebond vers {low} – {high}',
+  'entry.zoneDiscount': 'Décote : entrée à {price}',
+  'entry.zonePremium': 'Premium : entrée à {price}',
+  'entry.zoneBreakdown': 'Cassure baissière : entrée à {price}',
+  'entry.zoneEntry': 'Entrée : {price}',
+  'entry.triggerNoTrade': 'PAS DE TRADE — {confluence}% de confluence (45%+ requis)',
+  'entry.triggerNeutral': 'PAS DE TRADE — Biais neutre, attendez une direction',
+  'entry.triggerStrongUptrend': 'ATTENDRE — Forte tendance haussière (+{change}%), attendez un repli vers un support clé',
+  'entry.triggerBuyDiscount': 'ACHETER — Prix en décote avec confluence haussière',
+  'entry.triggerExtended': 'ATTENDRE — Étendu, ne courez pas après. Attendez un repli vers le support',
+  'entry.triggerBuyMomentum': 'ACHETER — Momentum actif dans le sens de la tendance',
+  'entry.triggerRiskRewardLong': 'ATTENDRE — R:R défavorable, attendez une meilleure entrée',
+  'entry.triggerSupport': 'ATTENDRE — Meilleure entrée en zone de support',
+  'entry.triggerStrongDowntrend': 'ATTENDRE — Forte tendance baissière ({change}%), attendez un rebond vers une résistance clé',
+  'entry.triggerSellPremium': 'VENDRE — Prix en premium avec confluence baissière',
+  'entry.triggerSellBreakdown': 'VENDRE — Cassure confirmée, short de momentum',
+  'entry.triggerRiskRewardBreakdown': 'ATTENDRE — R:R défavorable après la cassure',
+  'entry.triggerOversold': 'ATTENDRE — Survendu, attendez un rebond pour shorter',
+  'entry.triggerSellMomentum': 'VENDRE — Momentum actif dans le sens de la tendance',
+  'entry.triggerRiskRewardShort': 'ATTENDRE — R:R défavorable, attendez un rebond',
+  'entry.triggerResistance': 'ATTENDRE — Meilleure entrée en zone de résistance',
+  'entry.triggerDefault': 'Attendre une configuration',
+  'entry.confirmMixed': 'Unités de temps {bullish}H/{bearish}B — attendez l\'alignement',
+  'entry.confirmBuyFib50': 'Acheter sur action de prix haussière à {price} (Fib 50%)',
+  'entry.confirmSellFib50': 'Vendre sur action de prix baissière à {price} (Fib 50%)',
+  'entry.confirmConfluenceTarget': '{confluence}% de confluence • Objectif : {price}',
+  'entry.confirmTarget': 'Objectif : {price}',
+  'entry.confirmRetraceLong': 'Retracement vers la zone Fib 38-62% avec bougie haussière de confirmation',
+  'entry.confirmPullbackRiskReward': 'Attendez un repli pour améliorer le rapport risque/rendement',
+  'entry.confirmBuyFib': 'Acheter sur action de prix haussière aux niveaux Fib',
+  'entry.confirmBelowSupport': 'Prix sous le support, {percent}% de pression vendeuse',
+  'entry.confirmBounceShort': 'Attendez un rebond pour shorter avec un meilleur R:R',
+  'entry.confirmBounceFib': 'Rebond vers la zone Fib 38-62% pour un short avec bougie baissière',
+  'entry.confirmReliefRiskReward': 'Attendez un rebond pour améliorer le rapport risque/rendement',
+  'entry.confirmSellFib': 'Vendre sur action de prix baissière aux niveaux Fib',
+  'entry.confirmNeutral': 'Attendez une cassure haussière ou baissière confirmée par le volume',
+  'entry.confirmPending': 'En attente',
+  'entry.invalidBelowRiskReward': 'Sous {price} — R:R {ratio}:1',
+  'entry.invalidAboveRiskReward': 'Au-dessus de {price} — R:R {ratio}:1',
+  'entry.invalidBelow': 'Sous {price}',
+  'entry.invalidAbove': 'Au-dessus de {price}',
+  'entry.invalidTrendBreak': 'Sous {price} (rupture de tendance)',
+  'entry.invalidTrendReversal': 'Au-dessus de {price} (retournement de tendance)',
+  'entry.invalidNone': 'N/D',
+  'entry.structureInsufficient': 'Confluence insuffisante',
+  'entry.structureStrongBullish': 'Très haussier ({confluence}% conf.)',
+  'entry.structureBullish': 'Haussier ({confluence}% conf.)',
+  'entry.structureStrongBearish': 'Très baissier ({confluence}% conf.)',
+  'entry.structureBearish': 'Baissier ({confluence}% conf.)',
+  'entry.structureExtended': 'Étendu',
+  'entry.structureTrending': 'En tendance',
+  'entry.structureBreakdown': 'Cassure en cours',
+  'entry.structureOversold': 'Survendu',
+  'entry.structureNeutral': 'Neutre',
+  'entry.structureUndefined': 'Indéfini',
+  'entry.phaseWaitSetup': 'Attendre une configuration',
+  'entry.phaseWaitingPullback': 'En attente d\'un repli',
+  'entry.phaseAccumulation': 'Accumulation',
+  'entry.phaseDistribution': 'Distribution',
+  'entry.phaseWaitRetracement': 'Attendre un retracement',
+  'entry.phaseImpulse': 'Impulsion',
+  'entry.phaseImpulseDown': 'Impulsion baissière',
+  'entry.phaseConsolidation': 'Consolidation',
+  'entry.phaseUnknown': 'Inconnu',
+  'entry.liquidityBidHeavy': 'Carnet à {percent}% côté acheteurs sur ±2%, spread {spread}%',
+  'entry.liquidityAskHeavy': 'Carnet à {percent}% côté vendeurs sur ±2%, spread {spread}%',
+  'entry.liquidityBalanced': 'Carnet équilibré sur ±2%, spread {spread}%',
+  'entry.liquidityBidWall': 'mur acheteur {size} à {price} (−{distance}%)',
+  'entry.liquidityAskWall': 'mur vendeur {size} à {price} (+{distance}%)',
+  'entry.triggerAskWallAhead': 'ATTENDRE — Mur vendeur de {size} à {price} juste au-dessus. Entrer une fois absorbé et le prix tenu au-dessus',
+  'entry.triggerBidWallAhead': 'ATTENDRE — Mur acheteur de {size} à {price} juste en dessous. Entrer une fois absorbé et le prix tenu en dessous',
+
+  // ── Trade plan ──
+  'plan.stop': 'Stop',
+  'plan.close': 'clôturer {percent}%',
+  'plan.blended': 'combiné',
+  'plan.estimated': 'est.',
+  'plan.size': 'Taille : {units} {symbol} (~{notional}) en risquant {risk} ({percent}% de {account})',
+  'plan.stopSwingLow': 'Plus bas de swing − {buffer}× ATR',
+  'plan.stopSwingHigh': 'Plus haut de swing + {buffer}× ATR',
+  'plan.stopBeyondEntry': '1,5× ATR au-delà de l\'entrée',
+  'plan.stopMinimum': '{multiple}× ATR minimum',
+  'plan.stopCap': 'plafond de {multiple}× ATR',
+  'plan.swingHigh': 'Plus haut de swing',
+  'plan.swingLow': 'Plus bas de swing',
+  'plan.runner': 'Runner',
+  'plan.rMultiple': 'Multiple de R',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'SI le prix clôture sous {price} d\'ici {hours}h',
+  'scenario.closeAbove': 'SI le prix clôture au-dessus de {price} d\'ici {hours}h',
+  'scenario.sustainAbove': 'SI le prix tient au-dessus de {price} à {hours}h',
+  'scenario.holdBelow': 'SI le prix casse sous {price} et y reste à {hours}h',
+  'scenario.range': 'SI le prix reste entre {low} - {high} pendant les {hours} prochaines heures',
+  'scenario.closeAboveLevel': 'SI le prix clôture au-dessus de {price} ({level}) d\'ici {hours}h',
+  'scenario.closeBelowLevel': 'SI le prix clôture sous {price} ({level}) d\'ici {hours}h',
+  'scenario.bullInvalidated': 'Scénario haussier INVALIDÉ — structure cassée',
+  'scenario.bullBreakout': 'Cassure haussière CONFIRMÉE — nouveau support établi',
+  'scenario.bearInvalidated': 'Scénario baissier INVALIDÉ — structure reprise',
+  'scenario.bearBreakdown': 'Cassure baissière CONFIRMÉE — ventes accélérées attendues',
+  'scenario.consolidation': 'La CONSOLIDATION se poursuit — attendez la résolution',
+  'scenario.upsideExtension': 'EXTENSION haussière — résistance suivante franchie',
+  'scenario.downsideExtension': 'EXTENSION baissière — support suivant perdu',
+  'scenario.exitLongs': 'SORTIR des longs, envisager un short sur le retest',
+  'scenario.addLongs': 'RENFORCER les longs sur un retest réussi de la résistance cassée',
+  'scenario.exitShorts': 'SORTIR des shorts, envisager un long après confirmation',
+  'scenario.addShorts': 'RENFORCER les shorts sur un rebond avorté',
+  'scenario.tradeRange': 'Tradez seulement les extrêmes du range, attendez une cassure avec volume',
+  'scenario.takeProfitLong': 'Prenez des profits partiels, remontez le stop sous le niveau cassé',
+  'scenario.takeProfitShort': 'Prenez des profits partiels, abaissez le stop au-dessus du niveau cassé',
+  'scenario.flatSqueeze': 'Restez à l\'écart — risque de squeeze, pas de nouveaux shorts tant que le momentum dure',
+  'scenario.flatNoBase': 'Restez à l\'écart — pas de nouveaux longs avant la formation d\'une base',
+  'scenario.followBreakout': 'Suivez la cassure haussière avec un stop de retour dans le range',
+  'scenario.followBreakdown': 'Suivez la cassure baissière avec un stop de retour dans le range',
+  'scenario.high24h': 'plus haut 24h',
+  'scenario.low24h': 'plus bas 24h',
+  'scenario.upside': 'SCÉNARIO HAUSSIER : si le prix reprend {price} avec du volume',
+  'scenario.bearsTrapped': 'Vendeurs piégés, changement de momentum probable',
+  'scenario.considerLong': 'Envisagez de passer long ou de sortir des shorts',
+  'scenario.downside': 'SCÉNARIO BAISSIER : si le prix perd {price} avec du volume',
+  'scenario.bullsTrapped': 'Acheteurs piégés, cassure baissière en jeu',
+  'scenario.considerShort': 'Envisagez de passer short ou de sortir des longs',
+  'scenario.breakout': 'SCÉNARIO DE CASSURE : surveillez {high} (haut) / {low} (bas)',
+  'scenario.firstToBreak': 'La première cassure avec volume donne la direction',
+  'scenario.reactToBreakout': 'Réagissez à la cassure, ne la prédisez pas',
+  'probability.sigma': 'σ1h {sigma}% ({source})',
+  'probability.realised': 'réalisée',
+  'probability.fromRange': 'd\'après le range 24h',
+  'probability.atrToEdge': '{distance} ATR jusqu\'au bord le plus proche',
+  'probability.atrAway': 'à {distance} ATR',
+  'probability.modelHistory': 'modèle {model}% + historique {history}% sur {windows} fenêtres',
+  'probability.volatilityModel': 'modèle de volatilité',
+};
@@ -0,0 +1,453 @@
+// Hindi report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const hi: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': '{symbol} विश्लेषण',
+  'report.tldr': 'सारांश',
+  'report.range24h': '24घं',
+  'report.volumeSpike': 'वॉल्यूम में उछाल: {baseline} से +{percent}% ({magnitude}) [स्पॉट, एग्रीगेटर से]',
+  'report.volume': 'वॉल्यूम',
+  'report.volumeAbove': '{baseline} से +{percent}% ऊपर',
+  'report.volumeBelow': '{baseline} से {percent}% नीचे',
+  'report.volumeNear': '{baseline} के आसपास',
+  'report.avg24h': '24घं औसत',
+  'report.avgSameHour': 'उसी घंटे का औसत',
+  'report.avgWindow': '{window} औसत',
+  'report.futuresOI': 'फ्यूचर्स OI',
+  'report.oiRising': 'बढ़ रहा (लॉन्ग जुड़ रहे)',
+  'report.oiDeclining': 'घट रहा (शॉर्ट कवरिंग)',
+  'report.oiStable': 'स्थिर',
+  'report.volumeProfile': 'वॉल्यूम प्रोफ़ाइल ({hours}घं): POC {poc} • वैल्यू {low}–{high} • कीमत {position}',
+  'report.aboveValue': 'वैल्यू से ऊपर',
+  'report.belowValue': 'वैल्यू से नीचे',
+  'report.inValue': 'वैल्यू के भीतर',
+  'report.verdict': 'निष्कर्ष',
+  'report.confidence': 'विश्वास',
+  'report.calibratedFrom': '{percent}% से कैलिब्रेटेड',
+  'report.marketPulse': 'बाज़ार की नब्ज़',
+  'report.fearGreed': 'डर और लालच',
+  'report.whaleActivity': 'व्हेल गतिविधि',
+  'report.buy': 'खरीद',
+  'report.sell': 'बिक्री',
+  'report.net': 'नेट',
+  'report.exchangeFlow': 'एक्सचेंज फ्लो',
+  'report.institutional': 'संस्थागत',
+  'report.noEtf': 'लागू नहीं (इस एसेट का कोई ETF नहीं)',
+  'report.etfOnly': 'ETF केवल BTC/ETH के लिए',
+  'report.crossAsset': 'क्रॉस-एसेट',
+  'report.regimeUnavailable': 'बाज़ार रेजीम उपलब्ध नहीं',
+  'report.versus': '{benchmark} के मुकाबले',
+  'report.notScored': 'स्कोर नहीं किया (अनुमानित): {factors}',
+  'report.macroCatalyst': 'मैक्रो उत्प्रेरक',
+  'report.multiTimeframe': 'मल्टी-टाइमफ्रेम',
+  'report.priceEstimates': 'कीमत-आधारित अनुमान उपयोग में (चार्ट API उपलब्ध नहीं)',
+  'report.alignedBullish': '{count}/5 तेज़ी',
+  'report.alignedBearish': '{count}/5 मंदी',
+  'report.alignmentMixed': 'मिश्रित ({bullish} तेज़ी/{bearish} मंदी)',
+  'report.confluence': 'संगम',
+  'report.confluenceStrong': 'मज़बूत',
+  'report.confluenceModerate': 'मध्यम',
+  'report.confluenceWeak': 'कमज़ोर',
+  'report.estimated': 'अनुमानित',
+  'report.precisionEntry': '15मि सटीक एंट्री',
+  'report.executeNow': 'अभी करें',
+  'report.waitPullback': 'पुलबैक का इंतज़ार',
+  'report.waitBreakout': 'ब्रेकआउट का इंतज़ार',
+  'report.noTrade': 'कोई ट्रेड नहीं',
+  'report.entryZone': 'एंट्री ज़ोन',
+  'report.trigger': 'ट्रिगर',
+  'report.confirm': 'पुष्टि',
+  'report.invalid': 'अमान्य',
+  'report.liquidity': 'तरलता',
+  'report.derivatives': 'डेरिवेटिव्स',
+  'report.flipLong': 'अमान्य होने पर: {price} के ऊपर LONG में बदलें',
+  'report.flipShort': 'अमान्य होने पर: {price} के नीचे SHORT में बदलें',
+  'report.success': 'सफलता',
+  'report.successFavorable': 'अनुकूल — अच्छा संगम, जोखिम संभालें',
+  'report.successModerate': 'मध्यम — आंशिक पुष्टि, सतर्क रहें',
+  'report.successUncertain': 'अनिश्चित — मिश्रित संकेत, साइज़ घटाएँ',
+  'report.successWeak': 'कमज़ोर — कम विश्वास, रुकने पर विचार करें',
+  'report.keyInsights': 'मुख्य बातें',
+  'report.scenarios': 'परिदृश्य (दोनों दिशाएँ)',
+  'report.livePrice': 'लाइव कीमत',
+  'report.cachedPrice': 'कैश्ड कीमत',
+  'report.realCharts': 'असली चार्ट',
+  'report.derivedCharts': 'व्युत्पन्न',
+  'report.liveOnChain': 'लाइव ऑन-चेन',
+  'report.estimatedInput': '{count} अनुमानित इनपुट',
+  'report.estimatedInputs': '{count} अनुमानित इनपुट',
+  'report.excluded': 'बाहर रखा',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'तेज़ी की ओर',
+  'bias.leaningBullish': 'तेज़ी की ओर झुकाव',
+  'bias.slightBullish': 'हल्का तेज़ी झुकाव',
+  'bias.favoringBearish': 'मंदी की ओर',
+  'bias.leaningBearish': 'मंदी की ओर झुकाव',
+  'bias.slightBearish': 'हल्का मंदी झुकाव',
+  'bias.neutral': 'तटस्थ',
+  'tldr.confluenceDecent': 'संगम ठीक-ठाक',
+  'tldr.confluenceMixed': 'संगम मिश्रित',
+  'tldr.confluenceWeak': 'संगम कमज़ोर',
+  'tldr.zoneExtended': 'विस्तारित ज़ोन',
+  'tldr.zoneDiscount': 'डिस्काउंट ज़ोन',
+  'tldr.zoneMidRange': 'रेंज का मध्य',
+  'tldr.buyZone': 'संभावित खरीद ज़ोन',
+  'tldr.sellZone': 'संभावित बिक्री ज़ोन',
+  'tldr.rangeBound': 'रेंज में',
+  'tldr.awaitPullback': 'पुलबैक का इंतज़ार',
+  'tldr.awaitBreakout': 'ब्रेकआउट का इंतज़ार',
+  'tldr.noEntry': 'कोई स्पष्ट एंट्री नहीं',
+
+  // ── Range position ──
+  'context.nearHigh': '24घं हाई के पास (शिखर से {percent}%)',
+  'context.upperRange': 'ऊपरी रेंज (24घं का शीर्ष 30%)',
+  'context.nearLow': '24घं लो के पास (तल से {percent}% ऊपर)',
+  'context.lowerRange': 'निचली रेंज (24घं का निचला 30%)',
+  'context.midRange': 'मध्य रेंज में समेकन',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'अत्यधिक डर',
+  'fearGreed.fear': 'डर',
+  'fearGreed.neutral': 'तटस्थ',
+  'fearGreed.greed': 'लालच',
+  'fearGreed.highGreed': 'अधिक लालच',
+  'fearGreed.extremeGreed': 'अत्यधिक लालच',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'तेज़ी',
+  'value.BEARISH': 'मंदी',
+  'value.NEUTRAL': 'तटस्थ',
+  'value.STRONGLY_BULLISH': 'प्रबल तेज़ी',
+  'value.CAUTIOUSLY_BULLISH': 'सतर्क तेज़ी',
+  'value.CAUTIOUS': 'सतर्क',
+  'value.INFLOW': 'इनफ्लो',
+  'value.OUTFLOW': 'आउटफ्लो',
+  'value.NET_BUYING': 'शुद्ध खरीद',
+  'value.NET_SELLING': 'शुद्ध बिक्री',
+  'value.ACCUMULATING': 'संचय',
+  'value.DISTRIBUTING': 'वितरण',
+  'value.BALANCED': 'संतुलित',
+  'value.EXTREME': 'अत्यधिक',
+  'value.HIGH': 'उच्च',
+  'value.MEDIUM': 'मध्यम',
+  'value.MODERATE': 'मध्यम',
+  'value.LOW': 'निम्न',
+  'value.NORMAL': 'सामान्य',
+  'direction.bullish': 'तेज़ी',
+  'direction.bearish': 'मंदी',
+  'direction.neutral': 'तटस्थ',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'ऊपर की ओर ट्रेंड',
+  'regime.TRENDING_DOWN': 'नीचे की ओर ट्रेंड',
+  'regime.RANGING': 'रेंज में',
+  'regime.HIGH_VOL_CRASH': 'उच्च-अस्थिरता क्रैश',
+  'regime.ALT_SEASON': 'ऑल्ट सीज़न',
+  'regime.detailCrash': 'BTC 24घं में {change}',
+  'regime.detailCrashVolatility': 'BTC 24घं में {change}, अस्थिरता 30दिन सामान्य का {ratio}×',
+  'regime.detailAltSeason': '{count} ऑल्ट में से {percent}% ने 7दिन में BTC को पीछे छोड़ा',
+  'regime.detailTrend': 'BTC 72घं में {change}, दक्षता {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'फंडिंग {rate}/{hours}घं ({apr} वार्षिक)',
+  'derivatives.crowdedLong': 'लॉन्ग भीड़भाड़',
+  'derivatives.crowdedShort': 'शॉर्ट भीड़भाड़',
+  'derivatives.openInterest': 'OI {value} (24घं में {change})',
+  'derivatives.openInterestNoChange': 'OI {value}',
+  'derivatives.liquidations': '1घं लिक्विडेशन: लॉन्ग {longs} / शॉर्ट {shorts}',
+  'oiRegime.NEW_LONGS': 'नए लॉन्ग',
+  'oiRegime.SHORT_COVERING': 'शॉर्ट कवरिंग',
+  'oiRegime.NEW_SHORTS': 'नए शॉर्ट',
+  'oiRegime.LONG_UNWIND': 'लॉन्ग अनवाइंड',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'कीमत की दिशा',
+  'factor.price-position': 'रेंज में स्थिति',
+  'factor.fear-greed': 'डर और लालच',
+  'factor.institutional': 'संस्थागत फ्लो',
+  'factor.on-chain': 'एक्सचेंज नेटफ्लो',
+  'factor.volume': 'वॉल्यूम',
+  'factor.indicators': 'इंडिकेटर',
+  'factor.patterns': 'पैटर्न',
+  'factor.cross-asset': 'क्रॉस-एसेट',
+  'factor.derivatives': 'डेरिवेटिव्स',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'टॉप-डाउन कॉन्फ्लुएंस × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% संरेखित, {branch} — {trends}',
+  'confidence.branchNoDirection': 'कोई ट्रेड दिशा नहीं',
+  'confidence.branchAgree': 'फंडामेंटल सहमत',
+  'confidence.branchConflict': 'फंडामेंटल विरोध में',
+  'confidence.branchNeutral': 'फंडामेंटल तटस्थ',
+  'confidence.fundamentals': 'फंडामेंटल स्कोर × 0.25',
+  'confidence.fundamentalsDetail': '{bias} {confidence}% पर ({bull} तेज़ी बनाम {bear} मंदी अंक)',
+  'confidence.heldTo': '{low}–{high}% तक सीमित',
+  'confidence.bandDetail': 'कॉन्फिडेंस बैंड: {branch}',
+  'confidence.macro': 'मैक्रो इवेंट कटौती',
+  'confidence.macroDetail': '{event} 2 दिनों के भीतर',
+  'confidence.clampDetail': 'टेक्निकल कॉन्फिडेंस सीमाएँ',
+  'confidence.neuralBlend': 'न्यूरल मिश्रण (25%)',
+  'confidence.neuralBlendDetail': 'मॉडल के अनुसार {bias} {confidence}% पर',
+  'confidence.neuralAgrees': 'न्यूरल सहमत',
+  'confidence.neuralDisagrees': 'न्यूरल असहमत',
+  'confidence.neuralAgreementDetail': '{percent}% लर्नर सहमति',
+  'confidence.finalClamp': 'राउंड करके {low}–{high}% तक सीमित',
+  'confidence.finalClampDetail': 'अंतिम कॉन्फिडेंस सीमाएँ',
+  'confidence.calibrated': 'कैलिब्रेटेड ({method})',
+  'confidence.calibratedDetail': '{scope}: {count} ग्रेड किए गए कॉल — {raw}% वाले कॉल {calibrated}% बार सही रहे',
+  'confidence.allSymbols': 'सभी सिंबल',
+
+  // ── Key insights ──
+  'insight.aligned': 'तकनीकी और मौलिक संकेत एकमत',
+  'insight.technicalLeads': 'तकनीकी आगे (मौलिक {direction}, विचलन)',
+  'insight.technicalFundamentalNeutral': 'तकनीकी संकेत (मौलिक तटस्थ)',
+  'insight.technicalSignal': 'तकनीकी संकेत',
+  'insight.verdictBullish': 'तेज़ी — {note}',
+  'insight.verdictBearish': 'मंदी — {note}',
+  'insight.verdictNeutral': 'तटस्थ — कोई स्पष्ट तकनीकी दिशा नहीं',
+  'insight.exchangeInflowPressure': 'एक्सचेंज इनफ्लो ({magnitude}) → वितरण दबाव',
+  'insight.exchangeOutflowSignal': 'एक्सचेंज आउटफ्लो ({magnitude}) → संचय संकेत',
+  'insight.whales': 'व्हेल: {flow}',
+  'insight.whalesBalanced': 'व्हेल: संतुलित गतिविधि',
+  'insight.longTermHolders': 'दीर्घकालिक धारक +{percent}% (7दिन)',
+  'insight.etfFlow': 'ETF फ्लो: {flow} ({sentiment})',
+  'insight.strongUptrend': 'मज़बूत अपट्रेंड ({change})',
+  'insight.bullishMomentum': 'तेज़ी का मोमेंटम ({change})',
+  'insight.mildBullish': 'हल्की तेज़ी ({change})',
+  'insight.strongDowntrend': 'मज़बूत डाउनट्रेंड ({change})',
+  'insight.bearishMomentum': 'मंदी का मोमेंटम ({change})',
+  'insight.mildBearish': 'हल्की मंदी ({change})',
+  'insight.sideways': 'साइडवेज़ ({change})',
+  'insight.deepDiscount': 'गहरा डिस्काउंट — सर्वोत्तम खरीद ज़ोन',
+  'insight.premiumZone': 'प्रीमियम ज़ोन — सावधानी',
+  'insight.extremeFear': 'अत्यधिक डर — विपरीत खरीद',
+  'insight.extremeGreed': 'अत्यधिक लालच — विपरीत बिक्री',
+  'insight.institutionsBuying': 'संस्थान खरीद रहे हैं',
+  'insight.institutionsSelling': 'संस्थान बेच रहे हैं',
+  'insight.exchangeOutflows': 'एक्सचेंज आउटफ्लो — संचय',
+  'insight.exchangeInflows': 'एक्सचेंज इनफ्लो — वितरण',
+  'insight.volumeConfirmsBulls': 'उच्च वॉल्यूम खरीदारों की पुष्टि करता है',
+  'insight.volumeConfirmsBears': 'उच्च वॉल्यूम विक्रेताओं की पुष्टि करता है',
+  'insight.indicatorsBullish': 'इंडिकेटर तेज़ी में ({signals})',
+  'insight.indicatorsBearish': 'इंडिकेटर मंदी में ({signals})',
+  'insight.bollingerSqueeze': 'बोलिंजर स्क्वीज़ — विस्तार संभावित',
+  'insight.factorsBullish': 'तेज़ी — {bullish} तेज़ी कारक बनाम {bearish} मंदी',
+  'insight.factorsBearish': 'मंदी — {bearish} मंदी कारक बनाम {bullish} तेज़ी',
+  'insight.leanBullish': 'तेज़ी की ओर झुकाव — मध्यम संकेत',
+  'insight.leanBearish': 'मंदी की ओर झुकाव — मध्यम संकेत',
+  'insight.noEdge': 'तटस्थ — कोई स्पष्ट बढ़त नहीं',
+  'insight.crashRegime': 'उच्च-अस्थिरता क्रैश रेजीम — {detail}, जोखिम से बचें',
+  'insight.btcHeadwind': 'BTC संरचना मंदी में — {symbol} उसका अनुसरण करता है (ρ {correlation}, β {beta}), लॉन्ग धारा के विरुद्ध',
+  'insight.btcTailwind': 'BTC संरचना तेज़ी में — {symbol} के लिए अनुकूल हवा (ρ {correlation}, β {beta})',
+  'insight.altSeason': 'ऑल्ट सीज़न — {detail}',
+  'insight.fundingCrowdedLong': 'फंडिंग {rate} प्रति {hours}घं चरम पर — लॉन्ग भीड़भाड़, नीचे की ओर स्क्वीज़ का जोखिम',
+  'insight.fundingCrowdedShort': 'फंडिंग {rate} प्रति {hours}घं चरम पर — शॉर्ट भीड़भाड़, ऊपर की ओर स्क्वीज़ का जोखिम',
+  'insight.oiNewLongs': '{hours}घं में ओपन इंटरेस्ट {oi}, कीमत {price} — नए लॉन्ग चाल को सहारा दे रहे हैं',
+  'insight.oiShortCovering': '{hours}घं में कीमत {price}, ओपन इंटरेस्ट {oi} — शॉर्ट कवरिंग, नए खरीदार नहीं',
+  'insight.oiNewShorts': '{hours}घं में ओपन इंटरेस्ट {oi}, कीमत {price} — नए शॉर्ट दबाव बना रहे हैं',
+  'insight.oiLongUnwind': '{hours}घं में कीमत {price}, ओपन इंटरेस्ट {oi} — लॉन्ग बंद हो रहे हैं, नए विक्रेता नहीं',
+  'insight.longsFlushed': '{price} के पास {amount} के लॉन्ग लिक्विडेट — लीवरेज साफ़',
+  'insight.shortsSqueezed': '{price} के पास {amount} के शॉर्ट लिक्विडेट — शॉर्ट स्क्वीज़',
+  'insight.smartMoneyAccumulating': 'रिटेल के घबराने पर स्मार्ट मनी संचय कर रहा है — ऐतिहासिक रूप से तेज़ी',
+  'insight.institutionsDistributing': 'संस्थान FOMO रिटेल को बेच रहे हैं — सावधानी बरतें',
+  'insight.alignedBullish': 'सभी प्रतिभागी तेज़ी पर एकमत — उच्च विश्वास',
+  'insight.alignedBearish': 'सभी प्रतिभागी मंदी पर एकमत — उच्च विश्वास',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'बुलिश एनगल्फिंग',
+  'pattern.BEARISH_ENGULFING': 'बेयरिश एनगल्फिंग',
+  'pattern.BULLISH_PIN_BAR': 'बुलिश पिन बार',
+  'pattern.BEARISH_PIN_BAR': 'बेयरिश पिन बार',
+  'pattern.INSIDE_BAR': 'इनसाइड बार',
+  'pattern.MORNING_STAR': 'मॉर्निंग स्टार',
+  'pattern.EVENING_STAR': 'ईवनिंग स्टार',
+  'pattern.DOUBLE_TOP': 'डबल टॉप',
+  'pattern.DOUBLE_BOTTOM': 'डबल बॉटम',
+  'pattern.HEAD_AND_SHOULDERS': 'हेड एंड शोल्डर्स',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'इनवर्स हेड एंड शोल्डर्स',
+  'pattern.ASCENDING_TRIANGLE': 'आरोही त्रिभुज',
+  'pattern.DESCENDING_TRIANGLE': 'अवरोही त्रिभुज',
+  'pattern.SYMMETRICAL_TRIANGLE': 'सममित त्रिभुज',
+  'pattern.BULL_FLAG': 'बुल फ्लैग',
+  'pattern.BEAR_FLAG': 'बेयर फ्लैग',
+  'pattern.breakoutPending': 'ब्रेकआउट लंबित',
+  'pattern.bullishContinuation': 'तेज़ी जारी',
+  'pattern.bearishContinuation': 'मंदी जारी',
+  'pattern.bullishReversal': 'तेज़ी उलटाव',
+  'pattern.bearishReversal': 'मंदी उलटाव',
+  'pattern.confirmed': 'पुष्ट',
+
+  // ── Data provenance ──
+  'provenance.live': 'लाइव · {source}',
+  'provenance.cached': 'कैश्ड · {source}',
+  'provenance.cachedAge': 'कैश्ड {age} · {source}',
+  'provenance.estimated': '{basis} से अनुमानित',
+  'basis.priceRange': '24घं हाई/लो/बदलाव',
+  'basis.priceChange': '24घं कीमत बदलाव',
+  'basis.neutralFearGreed': 'कोई इंडेक्स नहीं — तटस्थ 50 माना गया',
+  'basis.volumeEstimate': '24घं वॉल्यूम × 0.85',
+  'basis.chainParameters': 'सामान्य चेन पैरामीटर',
+  'basis.chainThroughput': 'चेन थ्रूपुट',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} ({countdown})',
+  'macro.countdownToday': 'आज',
+  'macro.countdownTomorrow': 'कल',
+  'macro.countdownDays': '{days}दिन',
+  'macro.confidenceReduced': 'घटना नज़दीक होने से विश्वास घटाया गया',
+  'macro.today': 'आज',
+  'macro.tomorrow': 'कल',
+  'macro.inDays': '{days} दिन में',
+  'macro.joblessClaims': 'साप्ताहिक बेरोज़गारी दावे',
+  'macro.watchReaction': 'बाज़ार की प्रतिक्रिया पर नज़र रखें',
+  'macro.quarterlyExpiry': 'तिमाही ऑप्शंस एक्सपायरी (बड़ी)',
+  'macro.monthlyExpiry': 'मासिक ऑप्शंस एक्सपायरी',
+  'macro.quarterlyExpiryNote': 'अरबों डॉलर के ऑप्शंस एक्सपायर — मैक्स पेन उतार-चढ़ाव की उम्मीद',
+  'macro.monthlyExpiryNote': 'बड़ी पोज़िशन रोल हो रही हैं',
+  'macro.tradePolicy': 'टैरिफ/व्यापार नीति + भू-राजनीति',
+  'macro.tradePolicyNote': 'व्यापार तनाव और नियामक ख़बरें तेज़ हलचल ला सकती हैं',
+  'macro.fomc': 'FOMC ब्याज दर निर्णय',
+  'macro.fomcNote': 'CME FedWatch: ~90% दर यथावत की उम्मीद। अचानक कटौती = बहुत तेज़ी, बढ़ोतरी = क्रैश जोखिम',
+  'macro.cpi': 'अमेरिकी CPI महंगाई आँकड़े',
+  'macro.cpiNote': 'अनुमान: ~2.8% सालाना। कम = तेज़ी वाला आश्चर्य (दर कटौती की उम्मीद), अधिक = सख़्त प्रतिक्रिया',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'रेंज: {low} – {high}',
+  'entry.zoneWait': 'इंतज़ार: {low} – {high}',
+  'entry.zonePullback': '{low} – {high} तक पुलबैक का इंतज़ार',
+  'entry.zoneReliefRally': '{low} – {high} तक रिलीफ़ रैली का इंतज़ार',
+  'entry.zoneDiscount': 'डिस्काउंट: {price} पर एंट्री',
+  'entry.zonePremium': 'प्रीमियम: {price} पर एंट्री',
+  'entry.zoneBreakdown': 'ब्रेकडाउन: {price} पर एंट्री',
+  'entry.zoneEntry': 'एंट्री: {price}',
+  'entry.triggerNoTrade': 'कोई ट्रेड नहीं — {confluence}% संगम (45%+ चाहिए)',
+  'entry.triggerNeutral': 'कोई ट्रेड नहीं — तटस्थ झुकाव, दिशा का इंतज़ार',
+  'entry.triggerStrongUptrend': 'रुकें — मज़बूत अपट्रेंड (+{change}%), मुख्य सपोर्ट तक पुलबैक का इंतज़ार',
+  'entry.triggerBuyDiscount': 'खरीदें — कीमत डिस्काउंट में, तेज़ी संगम के साथ',
+  'entry.triggerExtended': 'रुकें — बहुत खिंच चुका, पीछा न करें। सपोर्ट तक पुलबैक का इंतज़ार',
+  'entry.triggerBuyMomentum': 'खरीदें — ट्रेंड के साथ मोमेंटम',
+  'entry.triggerRiskRewardLong': 'रुकें — R:R प्रतिकूल, बेहतर एंट्री का इंतज़ार',
+  'entry.triggerSupport': 'रुकें — सपोर्ट ज़ोन पर बेहतर एंट्री',
+  'entry.triggerStrongDowntrend': 'रुकें — मज़बूत डाउनट्रेंड ({change}%), मुख्य रेज़िस्टेंस तक रिलीफ़ रैली का इंतज़ार',
+  'entry.triggerSellPremium': 'बेचें — कीमत प्रीमियम में, मंदी संगम के साथ',
+  'entry.triggerSellBreakdown': 'बेचें — ब्रेकडाउन पुष्ट, मोमेंटम शॉर्ट',
+  'entry.triggerRiskRewardBreakdown': 'रुकें — ब्रेकडाउन के बाद R:R प्रतिकूल',
+  'entry.triggerOversold': 'रुकें — ओवरसोल्ड, शॉर्ट से पहले उछाल का इंतज़ार',
+  'entry.triggerSellMomentum': 'बेचें — ट्रेंड के साथ मोमेंटम',
+  'entry.triggerRiskRewardShort': 'रुकें — R:R प्रतिकूल, रिलीफ़ रैली का इंतज़ार',
+  'entry.triggerResistance': 'रुकें — रेज़िस्टेंस ज़ोन पर बेहतर एंट्री',
+  'entry.triggerDefault': 'सेटअप का इंतज़ार',
+  'entry.confirmMixed': 'टाइमफ्रेम {bullish} तेज़ी/{bearish} मंदी — सहमति का इंतज़ार',
+  'entry.confirmBuyFib50': '{price} (50% फ़िब) पर तेज़ी प्राइस एक्शन दिखे तो खरीदें',
+  'entry.confirmSellFib50': '{price} (50% फ़िब) पर मंदी प्राइस एक्शन दिखे तो बेचें',
+  'entry.confirmConfluenceTarget': 'संगम {confluence}% • लक्ष्य: {price}',
+  'entry.confirmTarget': 'लक्ष्य: {price}',
+  'entry.confirmRetraceLong': 'फ़िब 38-62% ज़ोन तक रिट्रेस और तेज़ी पुष्टि कैंडल',
+  'entry.confirmPullbackRiskReward': 'बेहतर रिस्क/रिवॉर्ड के लिए पुलबैक का इंतज़ार',
+  'entry.confirmBuyFib': 'फ़िब स्तर पर तेज़ी प्राइस एक्शन दिखे तो खरीदें',
+  'entry.confirmBelowSupport': 'कीमत सपोर्ट से नीचे, {percent}% बिक्री दबाव',
+  'entry.confirmBounceShort': 'बेहतर R:R पर शॉर्ट के लिए उछाल का इंतज़ार',
+  'entry.confirmBounceFib': 'फ़िब 38-62% ज़ोन तक उछाल पर मंदी कैंडल के साथ शॉर्ट',
+  'entry.confirmReliefRiskReward': 'बेहतर रिस्क/रिवॉर्ड के लिए रिलीफ़ रैली का इंतज़ार',
+  'entry.confirmSellFib': 'फ़िब स्तर पर मंदी प्राइस एक्शन दिखे तो बेचें',
+  'entry.confirmNeutral': 'वॉल्यूम-पुष्ट ब्रेकआउट या ब्रेकडाउन का इंतज़ार',
+  'entry.confirmPending': 'लंबित',
+  'entry.invalidBelowRiskReward': '{price} से नीचे — R:R {ratio}:1',
+  'entry.invalidAboveRiskReward': '{price} से ऊपर — R:R {ratio}:1',
+  'entry.invalidBelow': '{price} से नीचे',
+  'entry.invalidAbove': '{price} से ऊपर',
+  'entry.invalidTrendBreak': '{price} से नीचे (ट्रेंड टूटा)',
+  'entry.invalidTrendReversal': '{price} से ऊपर (ट्रेंड उलटा)',
+  'entry.invalidNone': 'लागू नहीं',
+  'entry.structureInsufficient': 'अपर्याप्त संगम',
+  'entry.structureStrongBullish': 'प्रबल तेज़ी ({confluence}% संगम)',
+  'entry.structureBullish': 'तेज़ी ({confluence}% संगम)',
+  'entry.structureStrongBearish': 'प्रबल मंदी ({confluence}% संगम)',
+  'entry.structureBearish': 'मंदी ({confluence}% संगम)',
+  'entry.structureExtended': 'विस्तारित',
+  'entry.structureTrending': 'ट्रेंड में',
+  'entry.structureBreakdown': 'ब्रेकडाउन जारी',
+  'entry.structureOversold': 'ओवरसोल्ड',
+  'entry.structureNeutral': 'तटस्थ',
+  'entry.structureUndefined': 'अपरिभाषित',
+  'entry.phaseWaitSetup': 'सेटअप का इंतज़ार',
+  'entry.phaseWaitingPullback': 'पुलबैक की प्रतीक्षा',
+  'entry.phaseAccumulation': 'संचय',
+  'entry.phaseDistribution': 'वितरण',
+  'entry.phaseWaitRetracement': 'रिट्रेसमेंट का इंतज़ार',
+  'entry.phaseImpulse': 'इम्पल्स',
+  'entry.phaseImpulseDown': 'नीचे की ओर इम्पल्स',
+  'entry.phaseConsolidation': 'समेकन',
+  'entry.phaseUnknown': 'अज्ञात',
+  'entry.liquidityBidHeavy': '±2% के भीतर बुक {percent}% बिड-भारी, स्प्रेड {spread}%',
+  'entry.liquidityAskHeavy': '±2% के भीतर बुक {percent}% आस्क-भारी, स्प्रेड {spread}%',
+  'entry.liquidityBalanced': '±2% के भीतर बुक संतुलित, स्प्रेड {spread}%',
+  'entry.liquidityBidWall': 'बिड वॉल {size} {price} पर (−{distance}%)',
+  'entry.liquidityAskWall': 'आस्क वॉल {size} {price} पर (+{distance}%)',
+  'entry.triggerAskWallAhead': 'प्रतीक्षा — ठीक ऊपर {price} पर {size} की आस्क वॉल। इसके खप जाने और कीमत ऊपर टिकने पर एंट्री लें',
+  'entry.triggerBidWallAhead': 'प्रतीक्षा — ठीक नीचे {price} पर {size} की बिड वॉल। इसके खप जाने और कीमत नीचे टिकने पर एंट्री लें',
+
+  // ── Trade plan ──
+  'plan.stop': 'स्टॉप',
+  'plan.close': '{percent}% बंद करें',
+  'plan.blended': 'संयुक्त',
+  'plan.estimated': 'अनु.',
+  'plan.size': 'साइज़: {units} {symbol} (~{notional}) जोखिम {risk} ({account} का {percent}%)',
+  'plan.stopSwingLow': 'स्विंग लो − {buffer}× ATR',
+  'plan.stopSwingHigh': 'स्विंग हाई + {buffer}× ATR',
+  'plan.stopBeyondEntry': 'एंट्री से 1.5× ATR आगे',
+  'plan.stopMinimum': 'न्यूनतम {multiple}× ATR',
+  'plan.stopCap': 'अधिकतम {multiple}× ATR',
+  'plan.swingHigh': 'स्विंग हाई',
+  'plan.swingLow': 'स्विंग लो',
+  'plan.runner': 'रनर',
+  'plan.rMultiple': 'R गुणक',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'अगर {hours}घं में कीमत {price} के नीचे बंद हो',
+  'scenario.closeAbove': 'अगर {hours}घं में कीमत {price} के ऊपर बंद हो',
+  'scenario.sustainAbove': 'अगर {hours}वें घंटे तक कीमत {price} के ऊपर टिकी रहे',
+  'scenario.holdBelow': 'अगर कीमत {price} के नीचे टूटे और {hours}वें घंटे तक नीचे रहे',
+  'scenario.range': 'अगर अगले {hours}घं कीमत {low} - {high} के बीच रहे',
+  'scenario.closeAboveLevel': 'अगर {hours}घं में कीमत {price} ({level}) के ऊपर बंद हो',
+  'scenario.closeBelowLevel': 'अगर {hours}घं में कीमत {price} ({level}) के नीचे बंद हो',
+  'scenario.bullInvalidated': 'तेज़ी परिदृश्य अमान्य — संरचना टूटी',
+  'scenario.bullBreakout': 'तेज़ी ब्रेकआउट पुष्ट — नया सपोर्ट बना',
+  'scenario.bearInvalidated': 'मंदी परिदृश्य अमान्य — संरचना वापस हासिल',
+  'scenario.bearBreakdown': 'मंदी ब्रेकडाउन पुष्ट — बिकवाली तेज़ होने की उम्मीद',
+  'scenario.consolidation': 'समेकन जारी — समाधान का इंतज़ार',
+  'scenario.upsideExtension': 'ऊपर विस्तार — अगला रेज़िस्टेंस टूटा',
+  'scenario.downsideExtension': 'नीचे विस्तार — अगला सपोर्ट गया',
+  'scenario.exitLongs': 'लॉन्ग से निकलें, रीटेस्ट पर शॉर्ट पर विचार करें',
+  'scenario.addLongs': 'टूटे रेज़िस्टेंस का सफल रीटेस्ट होने पर लॉन्ग बढ़ाएँ',
+  'scenario.exitShorts': 'शॉर्ट से निकलें, पुष्टि के बाद लॉन्ग पर विचार करें',
+  'scenario.addShorts': 'रिलीफ़ रैली विफल होने पर शॉर्ट बढ़ाएँ',
+  'scenario.tradeRange': 'केवल रेंज के किनारों पर ट्रेड करें, वॉल्यूम वाले ब्रेकआउट का इंतज़ार',
+  'scenario.takeProfitLong': 'आंशिक मुनाफ़ा लें, स्टॉप को ब्रेकआउट स्तर के नीचे ले जाएँ',
+  'scenario.takeProfitShort': 'आंशिक मुनाफ़ा लें, स्टॉप को ब्रेकडाउन स्तर के ऊपर ले जाएँ',
+  'scenario.flatSqueeze': 'बाहर रहें — स्क्वीज़ जोखिम, मोमेंटम ठंडा होने तक नया शॉर्ट नहीं',
+  'scenario.flatNoBase': 'बाहर रहें — बेस बनने तक नया लॉन्ग नहीं',
+  'scenario.followBreakout': 'ब्रेकआउट का अनुसरण करें, स्टॉप रेंज के भीतर',
+  'scenario.followBreakdown': 'ब्रेकडाउन का अनुसरण करें, स्टॉप रेंज के भीतर',
+  'scenario.high24h': '24घं हाई',
+  'scenario.low24h': '24घं लो',
+  'scenario.upside': 'ऊपर: अगर कीमत वॉल्यूम के साथ {price} वापस पाए',
+  'scenario.bearsTrapped': 'विक्रेता फँसे, मोमेंटम पलट सकता है',
+  'scenario.considerLong': 'लॉन्ग में बदलने या शॉर्ट बंद करने पर विचार करें',
+  'scenario.downside': 'नीचे: अगर कीमत वॉल्यूम के साथ {price} खो दे',
+  'scenario.bullsTrapped': 'खरीदार फँसे, ब्रेकडाउन जारी',
+  'scenario.considerShort': 'शॉर्ट में बदलने या लॉन्ग बंद करने पर विचार करें',
+  'scenario.breakout': 'ब्रेकआउट: {high} (ऊपर) / {low} (नीचे) पर नज़र रखें',
+  'scenario.firstToBreak': 'जो पक्ष पहले वॉल्यूम के साथ टूटे, वही दिशा तय करेगा',
+  'scenario.reactToBreakout': 'ब्रेकआउट पर प्रतिक्रिया दें, अनुमान न लगाएँ',
+  'probability.sigma': 'σ1h {sigma}% ({source})',
+  'probability.realised': 'वास्तविक',
+  'probability.fromRange': '24घं रेंज से',
+  'probability.atrToEdge': 'निकटतम किनारे तक {distance} ATR',
+  'probability.atrAway': '{distance} ATR दूर',
+  'probability.modelHistory': 'मॉडल {model}% + इतिहास {history}% ({windows} विंडो)',
+  'probability.volatilityModel': 'अस्थिरता मॉडल',
+};
@@ -0,0 +1,453 @@
+// Japanese report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const ja: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': '{symbol} 分析',
+  'report.tldr': '要約',
+  'report.range24h': '24時間',
+  'report.volumeSpike': '出来高急増：{baseline}比 +{percent}%（{magnitude}）[現物・アグリゲーター経由]',
+  'report.volume': '出来高',
+  'report.volumeAbove': '{baseline}比 +{percent}%',
+  'report.volumeBelow': '{baseline}比 -{percent}%',
+  'report.volumeNear': '{baseline}並み',
+  'report.avg24h': '24時間平均',
+  'report.avgSameHour': '同時間帯平均',
+  'report.avgWindow': '{window}平均',
+  'report.futuresOI': '先物建玉',
+  'report.oiRising': '増加（ロング積み上がり）',
+  'report.oiDeclining': '減少（ショート決済）',
+  'report.oiStable': '横ばい',
+  'report.volumeProfile': '出来高プロファイル（{hours}時間）：POC {poc} • バリュー {low}–{high} • 価格は{position}',
+  'report.aboveValue': 'バリュー上',
+  'report.belowValue': 'バリュー下',
+  'report.inValue': 'バリュー内',
+  'report.verdict': '判定',
+  'report.confidence': '信頼度',
+  'report.calibratedFrom': '{percent}% から補正',
+  'report.marketPulse': 'マーケットパルス',
+  'report.fearGreed': '恐怖と強欲',
+  'report.whaleActivity': 'クジラの動き',
+  'report.buy': '買い',
+  'report.sell': '売り',
+  'report.net': 'ネット',
+  'report.exchangeFlow': '取引所フロー',
+  'report.institutional': '機関投資家',
+  'report.noEtf': '該当なし（この資産のETFなし）',
+  'report.etfOnly': 'ETFはBTC/ETHのみ',
+  'report.crossAsset': 'クロスアセット',
+  'report.regimeUnavailable': '相場環境 不明',
+  'report.versus': '対 {benchmark}',
+  'report.notScored': '未採点（推定）：{factors}',
+  'report.macroCatalyst': 'マクロ材料',
+  'report.multiTimeframe': 'マルチタイムフレーム',
+  'report.priceEstimates': '価格ベースの推定値を使用（チャートAPI利用不可）',
+  'report.alignedBullish': '{count}/5 強気',
+  'report.alignedBearish': '{count}/5 弱気',
+  'report.alignmentMixed': '混在（強気{bullish}/弱気{bearish}）',
+  'report.confluence': 'コンフルエンス',
+  'report.confluenceStrong': '強',
+  'report.confluenceModerate': '中',
+  'report.confluenceWeak': '弱',
+  'report.estimated': '推定',
+  'report.precisionEntry': '15分足 精密エントリー',
+  'report.executeNow': '今すぐ実行',
+  'report.waitPullback': '押し目待ち',
+  'report.waitBreakout': 'ブレイク待ち',
+  'report.noTrade': '見送り',
+  'report.entryZone': 'エントリーゾーン',
+  'report.trigger': 'トリガー',
+  'report.confirm': '確認',
+  'report.invalid': '無効化',
+  'report.liquidity': '流動性',
+  'report.derivatives': 'デリバティブ',
+  'report.flipLong': '無効化された場合：{price} 上でロングに転換',
+  'report.flipShort': '無効化された場合：{price} 下でショートに転換',
+  'report.success': '成功率',
+  'report.successFavorable': '良好 — コンフルエンス良好、リスク管理を',
+  'report.successModerate': '中程度 — 一部確認済み、機敏に',
+  'report.successUncertain': '不透明 — シグナル混在、サイズを縮小',
+  'report.successWeak': '弱い — 確信度が低い、見送りも検討',
+  'report.keyInsights': '重要ポイント',
+  'report.scenarios': 'シナリオ（両方向）',
+  'report.livePrice': 'リアルタイム価格',
+  'report.cachedPrice': 'キャッシュ価格',
+  'report.realCharts': '実チャート',
+  'report.derivedCharts': '推定',
+  'report.liveOnChain': 'ライブ オンチェーン',
+  'report.estimatedInput': '推定入力 {count} 件',
+  'report.estimatedInputs': '推定入力 {count} 件',
+  'report.excluded': '除外',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': '強気優勢',
+  'bias.leaningBullish': 'やや強気',
+  'bias.slightBullish': 'わずかに強気',
+  'bias.favoringBearish': '弱気優勢',
+  'bias.leaningBearish': 'やや弱気',
+  'bias.slightBearish': 'わずかに弱気',
+  'bias.neutral': '中立',
+  'tldr.confluenceDecent': 'コンフルエンス良好',
+  'tldr.confluenceMixed': 'コンフルエンス混在',
+  'tldr.confluenceWeak': 'コンフルエンス弱',
+  'tldr.zoneExtended': '伸び切りゾーン',
+  'tldr.zoneDiscount': '割安ゾーン',
+  'tldr.zoneMidRange': 'レンジ中央',
+  'tldr.buyZone': '買い候補ゾーン',
+  'tldr.sellZone': '売り候補ゾーン',
+  'tldr.rangeBound': 'レンジ相場',
+  'tldr.awaitPullback': '押し目待ち',
+  'tldr.awaitBreakout': 'ブレイク待ち',
+  'tldr.noEntry': '明確なエントリーなし',
+
+  // ── Range position ──
+  'context.nearHigh': '24時間高値付近（高値から {percent}% 下）',
+  'context.upperRange': 'レンジ上部（24時間の上位30%）',
+  'context.nearLow': '24時間安値付近（安値から {percent}% 上）',
+  'context.lowerRange': 'レンジ下部（24時間の下位30%）',
+  'context.midRange': 'レンジ中央で保ち合い',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': '極度の恐怖',
+  'fearGreed.fear': '恐怖',
+  'fearGreed.neutral': '中立',
+  'fearGreed.greed': '強欲',
+  'fearGreed.highGreed': '強い強欲',
+  'fearGreed.extremeGreed': '極度の強欲',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': '強気',
+  'value.BEARISH': '弱気',
+  'value.NEUTRAL': '中立',
+  'value.STRONGLY_BULLISH': '非常に強気',
+  'value.CAUTIOUSLY_BULLISH': '慎重に強気',
+  'value.CAUTIOUS': '慎重',
+  'value.INFLOW': '流入',
+  'value.OUTFLOW': '流出',
+  'value.NET_BUYING': '買い越し',
+  'value.NET_SELLING': '売り越し',
+  'value.ACCUMULATING': '蓄積中',
+  'value.DISTRIBUTING': '分配中',
+  'value.BALANCED': '均衡',
+  'value.EXTREME': '極大',
+  'value.HIGH': '高',
+  'value.MEDIUM': '中',
+  'value.MODERATE': '中程度',
+  'value.LOW': '低',
+  'value.NORMAL': '通常',
+  'direction.bullish': '強気',
+  'direction.bearish': '弱気',
+  'direction.neutral': '中立',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': '上昇トレンド',
+  'regime.TRENDING_DOWN': '下降トレンド',
+  'regime.RANGING': 'レンジ',
+  'regime.HIGH_VOL_CRASH': '高ボラティリティの急落',
+  'regime.ALT_SEASON': 'アルトシーズン',
+  'regime.detailCrash': 'BTC 24時間で {change}',
+  'regime.detailCrashVolatility': 'BTC 24時間で {change}、ボラティリティは30日平均の {ratio}×',
+  'regime.detailAltSeason': '{count} 銘柄のアルトのうち {percent}% が7日間でBTCを上回る',
+  'regime.detailTrend': 'BTC 72時間で {change}、効率 {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': '資金調達率 {rate}/{hours}時間（年率 {apr}）',
+  'derivatives.crowdedLong': 'ロング過密',
+  'derivatives.crowdedShort': 'ショート過密',
+  'derivatives.openInterest': '建玉 {value}（24時間 {change}）',
+  'derivatives.openInterestNoChange': '建玉 {value}',
+  'derivatives.liquidations': '1時間の清算: ロング {longs} / ショート {shorts}',
+  'oiRegime.NEW_LONGS': '新規ロング',
+  'oiRegime.SHORT_COVERING': 'ショートカバー',
+  'oiRegime.NEW_SHORTS': '新規ショート',
+  'oiRegime.LONG_UNWIND': 'ロング解消',
+
+  // ── Scored factors ──
+  'factor.price-direction': '価格の方向',
+  'factor.price-position': 'レンジ内の位置',
+  'factor.fear-greed': '恐怖と強欲',
+  'factor.institutional': '機関フロー',
+  'factor.on-chain': '取引所ネットフロー',
+  'factor.volume': '出来高',
+  'factor.indicators': 'インジケーター',
+  'factor.patterns': 'パターン',
+  'factor.cross-asset': 'クロスアセット',
+  'factor.derivatives': 'デリバティブ',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'トップダウン・コンフルエンス × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% 一致、{branch} — {trends}',
+  'confidence.branchNoDirection': '売買方向なし',
+  'confidence.branchAgree': 'ファンダメンタルズが一致',
+  'confidence.branchConflict': 'ファンダメンタルズが相反',
+  'confidence.branchNeutral': 'ファンダメンタルズは中立',
+  'confidence.fundamentals': 'ファンダメンタルスコア × 0.25',
+  'confidence.fundamentalsDetail': '{bias}、{confidence}%（強気 {bull} 点 対 弱気 {bear} 点）',
+  'confidence.heldTo': '{low}–{high}% に制限',
+  'confidence.bandDetail': '信頼度バンド：{branch}',
+  'confidence.macro': 'マクロイベントによる減点',
+  'confidence.macroDetail': '{event} まで2日以内',
+  'confidence.clampDetail': 'テクニカル信頼度の上下限',
+  'confidence.neuralBlend': 'ニューラル合成（25%）',
+  'confidence.neuralBlendDetail': 'モデルの判断は {bias}、{confidence}%',
+  'confidence.neuralAgrees': 'ニューラルが一致',
+  'confidence.neuralDisagrees': 'ニューラルが不一致',
+  'confidence.neuralAgreementDetail': '学習器の一致率 {percent}%',
+  'confidence.finalClamp': '丸めて {low}–{high}% に制限',
+  'confidence.finalClampDetail': '最終的な信頼度の上下限',
+  'confidence.calibrated': 'キャリブレーション済み（{method}）',
+  'confidence.calibratedDetail': '{scope}：採点済み {count} 件 — {raw}% のシグナルの的中率は {calibrated}%',
+  'confidence.allSymbols': '全銘柄',
+
+  // ── Key insights ──
+  'insight.aligned': 'テクニカルとファンダメンタルが一致',
+  'insight.technicalLeads': 'テクニカル優先（ファンダメンタルは{direction}で乖離）',
+  'insight.technicalFundamentalNeutral': 'テクニカルシグナル（ファンダメンタルは中立）',
+  'insight.technicalSignal': 'テクニカルシグナル',
+  'insight.verdictBullish': '強気 — {note}',
+  'insight.verdictBearish': '弱気 — {note}',
+  'insight.verdictNeutral': '中立 — 明確なテクニカルの方向なし',
+  'insight.exchangeInflowPressure': '取引所への流入（{magnitude}）→ 売り圧力',
+  'insight.exchangeOutflowSignal': '取引所からの流出（{magnitude}）→ 蓄積シグナル',
+  'insight.whales': 'クジラ：{flow}',
+  'insight.whalesBalanced': 'クジラ：均衡した動き',
+  'insight.longTermHolders': '長期保有者 +{percent}%（7日）',
+  'insight.etfFlow': 'ETFフロー：{flow}（{sentiment}）',
+  'insight.strongUptrend': '強い上昇トレンド（{change}）',
+  'insight.bullishMomentum': '強気のモメンタム（{change}）',
+  'insight.mildBullish': 'やや強気（{change}）',
+  'insight.strongDowntrend': '強い下降トレンド（{change}）',
+  'insight.bearishMomentum': '弱気のモメンタム（{change}）',
+  'insight.mildBearish': 'やや弱気（{change}）',
+  'insight.sideways': '横ばい（{change}）',
+  'insight.deepDiscount': '大幅な割安 — 最適な買いゾーン',
+  'insight.premiumZone': '割高ゾーン — 注意',
+  'insight.extremeFear': '極度の恐怖 — 逆張りの買い',
+  'insight.extremeGreed': '極度の強欲 — 逆張りの売り',
+  'insight.institutionsBuying': '機関投資家が買い',
+  'insight.institutionsSelling': '機関投資家が売り',
+  'insight.exchangeOutflows': '取引所からの流出 — 蓄積',
+  'insight.exchangeInflows': '取引所への流入 — 分配',
+  'insight.volumeConfirmsBulls': '高出来高が買い方を裏付け',
+  'insight.volumeConfirmsBears': '高出来高が売り方を裏付け',
+  'insight.indicatorsBullish': 'インジケーター強気（{signals}）',
+  'insight.indicatorsBearish': 'インジケーター弱気（{signals}）',
+  'insight.bollingerSqueeze': 'ボリンジャースクイーズ — 拡大の可能性',
+  'insight.factorsBullish': '強気 — 強気要因 {bullish} 対 弱気要因 {bearish}',
+  'insight.factorsBearish': '弱気 — 弱気要因 {bearish} 対 強気要因 {bullish}',
+  'insight.leanBullish': 'やや強気 — 中程度のシグナル',
+  'insight.leanBearish': 'やや弱気 — 中程度のシグナル',
+  'insight.noEdge': '中立 — 明確な優位性なし',
+  'insight.crashRegime': '高ボラティリティ急落局面 — {detail}、リスクオフ',
+  'insight.btcHeadwind': 'BTCの構造は弱気 — {symbol} は連動（ρ {correlation}、β {beta}）、ロングは逆風',
+  'insight.btcTailwind': 'BTCの構造は強気 — {symbol} に追い風（ρ {correlation}、β {beta}）',
+  'insight.altSeason': 'アルトシーズン — {detail}',
+  'insight.fundingCrowdedLong': '資金調達率が{hours}時間あたり{rate}と極端 — ロング過密、下方向のスクイーズに注意',
+  'insight.fundingCrowdedShort': '資金調達率が{hours}時間あたり{rate}と極端 — ショート過密、上方向のスクイーズに注意',
+  'insight.oiNewLongs': '{hours}時間で建玉{oi}、価格{price} — 新規ロングが動きを支えている',
+  'insight.oiShortCovering': '{hours}時間で価格{price}、建玉{oi} — 新規の買いではなくショートカバー',
+  'insight.oiNewShorts': '{hours}時間で建玉{oi}、価格{price} — 新規ショートが売り込んでいる',
+  'insight.oiLongUnwind': '{hours}時間で価格{price}、建玉{oi} — 新規の売りではなくロング解消',
+  'insight.longsFlushed': '{price}付近で{amount}のロングが清算 — レバレッジ一掃',
+  'insight.shortsSqueezed': '{price}付近で{amount}のショートが清算 — ショートスクイーズ',
+  'insight.smartMoneyAccumulating': '個人がパニックの中、スマートマネーが蓄積 — 歴史的に強気',
+  'insight.institutionsDistributing': '機関投資家がFOMOの個人に分配 — 注意',
+  'insight.alignedBullish': '全参加者で強気が一致 — 高い確信',
+  'insight.alignedBearish': '全参加者で弱気が一致 — 高い確信',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': '強気の包み足',
+  'pattern.BEARISH_ENGULFING': '弱気の包み足',
+  'pattern.BULLISH_PIN_BAR': '強気のピンバー',
+  'pattern.BEARISH_PIN_BAR': '弱気のピンバー',
+  'pattern.INSIDE_BAR': 'インサイドバー',
+  'pattern.MORNING_STAR': '明けの明星',
+  'pattern.EVENING_STAR': '宵の明星',
+  'pattern.DOUBLE_TOP': 'ダブルトップ',
+  'pattern.DOUBLE_BOTTOM': 'ダブルボトム',
+  'pattern.HEAD_AND_SHOULDERS': 'ヘッドアンドショルダー',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': '逆ヘッドアンドショルダー',
+  'pattern.ASCENDING_TRIANGLE': '上昇三角形',
+  'pattern.DESCENDING_TRIANGLE': '下降三角形',
+  'pattern.SYMMETRICAL_TRIANGLE': '対称三角形',
+  'pattern.BULL_FLAG': 'ブルフラッグ',
+  'pattern.BEAR_FLAG': 'ベアフラッグ',
+  'pattern.breakoutPending': 'ブレイク待ち',
+  'pattern.bullishContinuation': '強気継続',
+  'pattern.bearishContinuation': '弱気継続',
+  'pattern.bullishReversal': '強気反転',
+  'pattern.bearishReversal': '弱気反転',
+  'pattern.confirmed': '確定',
+
+  // ── Data provenance ──
+  'provenance.live': 'ライブ · {source}',
+  'provenance.cached': 'キャッシュ · {source}',
+  'provenance.cachedAge': 'キャッシュ {age} · {source}',
+  'provenance.estimated': '{basis}から推定',
+  'basis.priceRange': '24時間の高値/安値/変化',
+  'basis.priceChange': '24時間の価格変化',
+  'basis.neutralFearGreed': '指数なし — 中立の50と仮定',
+  'basis.volumeEstimate': '24時間出来高 × 0.85',
+  'basis.chainParameters': '一般的なチェーンパラメータ',
+  'basis.chainThroughput': 'チェーンのスループット',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event}（{countdown}）',
+  'macro.countdownToday': '本日',
+  'macro.countdownTomorrow': '明日',
+  'macro.countdownDays': '{days}日後',
+  'macro.confidenceReduced': 'イベント接近のため信頼度を引き下げ',
+  'macro.today': '本日',
+  'macro.tomorrow': '明日',
+  'macro.inDays': '{days}日後',
+  'macro.joblessClaims': '週間新規失業保険申請件数',
+  'macro.watchReaction': '市場の反応に注目',
+  'macro.quarterlyExpiry': '四半期オプション満期（重要）',
+  'macro.monthlyExpiry': '月次オプション満期',
+  'macro.quarterlyExpiryNote': '数十億ドル規模のオプションが満期 — マックスペイン周辺の変動に注意',
+  'macro.monthlyExpiryNote': '大口ポジションのロールオーバー',
+  'macro.tradePolicy': '関税・通商政策 + 地政学',
+  'macro.tradePolicyNote': '貿易摩擦や規制ニュースが急変動を引き起こす可能性',
+  'macro.fomc': 'FOMC 政策金利発表',
+  'macro.fomcNote': 'CME FedWatch：約90%が据え置き予想。サプライズ利下げ = 非常に強気、利上げ = 急落リスク',
+  'macro.cpi': '米国 CPI インフレ指標',
+  'macro.cpiNote': '予想：前年比 約2.8%。下回れば強気サプライズ（利下げ期待）、上回ればタカ派的反応',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'レンジ：{low} – {high}',
+  'entry.zoneWait': '待機：{low} – {high}',
+  'entry.zonePullback': '{low} – {high} への押し目を待つ',
+  'entry.zoneReliefRally': '{low} – {high} への戻りを待つ',
+  'entry.zoneDiscount': '割安：{price} でエントリー',
+  'entry.zonePremium': '割高：{price} でエントリー',
+  'entry.zoneBreakdown': '下抜け：{price} でエントリー',
+  'entry.zoneEntry': 'エントリー：{price}',
+  'entry.triggerNoTrade': '見送り — コンフルエンス {confluence}%（45%以上が必要）',
+  'entry.triggerNeutral': '見送り — 中立、方向感を待つ',
+  'entry.triggerStrongUptrend': '待機 — 強い上昇トレンド（+{change}%）、主要サポートへの押し目を待つ',
+  'entry.triggerBuyDiscount': '買い — 割安圏で強気のコンフルエンス',
+  'entry.triggerExtended': '待機 — 伸び切り、追いかけない。サポートへの押し目を待つ',
+  'entry.triggerBuyMomentum': '買い — トレンド方向にモメンタム',
+  'entry.triggerRiskRewardLong': '待機 — リスクリワードが不利、より良いエントリーを待つ',
+  'entry.triggerSupport': '待機 — サポートゾーンでより良いエントリー',
+  'entry.triggerStrongDowntrend': '待機 — 強い下降トレンド（{change}%）、主要レジスタンスへの戻りを待つ',
+  'entry.triggerSellPremium': '売り — 割高圏で弱気のコンフルエンス',
+  'entry.triggerSellBreakdown': '売り — 下抜け確定、モメンタムのショート',
+  'entry.triggerRiskRewardBreakdown': '待機 — 下抜け後のリスクリワードが不利',
+  'entry.triggerOversold': '待機 — 売られすぎ、戻りを待ってショート',
+  'entry.triggerSellMomentum': '売り — トレンド方向にモメンタム',
+  'entry.triggerRiskRewardShort': '待機 — リスクリワードが不利、戻りを待つ',
+  'entry.triggerResistance': '待機 — レジスタンスゾーンでより良いエントリー',
+  'entry.triggerDefault': 'セットアップ待ち',
+  'entry.confirmMixed': '時間足 強気{bullish}/弱気{bearish} — 一致を待つ',
+  'entry.confirmBuyFib50': '{price}（フィボ50%）で強気のプライスアクションが出たら買い',
+  'entry.confirmSellFib50': '{price}（フィボ50%）で弱気のプライスアクションが出たら売り',
+  'entry.confirmConfluenceTarget': 'コンフルエンス {confluence}% • 目標：{price}',
+  'entry.confirmTarget': '目標：{price}',
+  'entry.confirmRetraceLong': 'フィボ38-62%ゾーンまで戻し、強気の確認足',
+  'entry.confirmPullbackRiskReward': 'リスクリワード改善のため押し目を待つ',
+  'entry.confirmBuyFib': 'フィボ水準で強気のプライスアクションが出たら買い',
+  'entry.confirmBelowSupport': 'サポート割れ、売り圧力 {percent}%',
+  'entry.confirmBounceShort': 'より良いリスクリワードでショートするため戻りを待つ',
+  'entry.confirmBounceFib': 'フィボ38-62%ゾーンへの戻りで弱気足を確認しショート',
+  'entry.confirmReliefRiskReward': 'リスクリワード改善のため戻りを待つ',
+  'entry.confirmSellFib': 'フィボ水準で弱気のプライスアクションが出たら売り',
+  'entry.confirmNeutral': '出来高を伴う上抜けまたは下抜けを待つ',
+  'entry.confirmPending': '保留',
+  'entry.invalidBelowRiskReward': '{price} 割れ — RR {ratio}:1',
+  'entry.invalidAboveRiskReward': '{price} 超え — RR {ratio}:1',
+  'entry.invalidBelow': '{price} 割れ',
+  'entry.invalidAbove': '{price} 超え',
+  'entry.invalidTrendBreak': '{price} 割れ（トレンド崩れ）',
+  'entry.invalidTrendReversal': '{price} 超え（トレンド転換）',
+  'entry.invalidNone': '該当なし',
+  'entry.structureInsufficient': 'コンフルエンス不足',
+  'entry.structureStrongBullish': '非常に強気（コンフルエンス {confluence}%）',
+  'entry.structureBullish': '強気（コンフルエンス {confluence}%）',
+  'entry.structureStrongBearish': '非常に弱気（コンフルエンス {confluence}%）',
+  'entry.structureBearish': '弱気（コンフルエンス {confluence}%）',
+  'entry.structureExtended': '伸び切り',
+  'entry.structureTrending': 'トレンド中',
+  'entry.structureBreakdown': '下抜け進行中',
+  'entry.structureOversold': '売られすぎ',
+  'entry.structureNeutral': '中立',
+  'entry.structureUndefined': '未定義',
+  'entry.phaseWaitSetup': 'セットアップ待ち',
+  'entry.phaseWaitingPullback': '押し目待ち',
+  'entry.phaseAccumulation': '蓄積',
+  'entry.phaseDistribution': '分配',
+  'entry.phaseWaitRetracement': '戻し待ち',
+  'entry.phaseImpulse': 'インパルス',
+  'entry.phaseImpulseDown': '下落インパルス',
+  'entry.phaseConsolidation': '保ち合い',
+  'entry.phaseUnknown': '不明',
+  'entry.liquidityBidHeavy': '±2%以内で買い板が{percent}%優勢、スプレッド{spread}%',
+  'entry.liquidityAskHeavy': '±2%以内で売り板が{percent}%優勢、スプレッド{spread}%',
+  'entry.liquidityBalanced': '±2%以内で板は均衡、スプレッド{spread}%',
+  'entry.liquidityBidWall': '買い壁 {size}（{price}、−{distance}%）',
+  'entry.liquidityAskWall': '売り壁 {size}（{price}、+{distance}%）',
+  'entry.triggerAskWallAhead': '待機 — すぐ上の{price}に{size}の売り壁。吸収され価格が上で維持されたらエントリー',
+  'entry.triggerBidWallAhead': '待機 — すぐ下の{price}に{size}の買い壁。吸収され価格が下で維持されたらエントリー',
+
+  // ── Trade plan ──
+  'plan.stop': 'ストップ',
+  'plan.close': '{percent}% 決済',
+  'plan.blended': '合算',
+  'plan.estimated': '推定',
+  'plan.size': 'サイズ：{units} {symbol}（約 {notional}）、リスク {risk}（{account} の {percent}%）',
+  'plan.stopSwingLow': 'スイング安値 − {buffer}× ATR',
+  'plan.stopSwingHigh': 'スイング高値 + {buffer}× ATR',
+  'plan.stopBeyondEntry': 'エントリーから 1.5× ATR',
+  'plan.stopMinimum': '最小 {multiple}× ATR',
+  'plan.stopCap': '上限 {multiple}× ATR',
+  'plan.swingHigh': 'スイング高値',
+  'plan.swingLow': 'スイング安値',
+  'plan.runner': 'ランナー',
+  'plan.rMultiple': 'R倍数',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': '{hours}時間以内に価格が {price} を下回って引けた場合',
+  'scenario.closeAbove': '{hours}時間以内に価格が {price} を上回って引けた場合',
+  'scenario.sustainAbove': '{hours}時間経過時点で価格が {price} を上回っている場合',
+  'scenario.holdBelow': '価格が {price} を割り込み、{hours}時間経過時点でも下にある場合',
+  'scenario.range': '今後{hours}時間、価格が {low} - {high} の間にとどまる場合',
+  'scenario.closeAboveLevel': '{hours}時間以内に価格が {price}（{level}）を上回って引けた場合',
+  'scenario.closeBelowLevel': '{hours}時間以内に価格が {price}（{level}）を下回って引けた場合',
+  'scenario.bullInvalidated': '強気シナリオ無効 — 構造が崩れた',
+  'scenario.bullBreakout': '強気ブレイク確定 — 新たなサポート形成',
+  'scenario.bearInvalidated': '弱気シナリオ無効 — 構造を回復',
+  'scenario.bearBreakdown': '弱気の下抜け確定 — 売り加速を予想',
+  'scenario.consolidation': '保ち合い継続 — 決着を待つ',
+  'scenario.upsideExtension': '上方拡張 — 次のレジスタンスを突破',
+  'scenario.downsideExtension': '下方拡張 — 次のサポートを喪失',
+  'scenario.exitLongs': 'ロングを手仕舞い、リテストでショートを検討',
+  'scenario.addLongs': '上抜けたレジスタンスのリテスト成功でロング追加',
+  'scenario.exitShorts': 'ショートを手仕舞い、確認後にロングを検討',
+  'scenario.addShorts': '戻り失敗でショート追加',
+  'scenario.tradeRange': 'レンジの両端のみで取引、出来高を伴うブレイクを待つ',
+  'scenario.takeProfitLong': '一部利確、ストップを抜けた水準の下へ引き上げ',
+  'scenario.takeProfitShort': '一部利確、ストップを割れた水準の上へ引き下げ',
+  'scenario.flatSqueeze': 'ノーポジ — 踏み上げリスク、勢いが衰えるまで新規ショートなし',
+  'scenario.flatNoBase': 'ノーポジ — 底固めまで新規ロングなし',
+  'scenario.followBreakout': '上抜けに追随、ストップはレンジ内へ',
+  'scenario.followBreakdown': '下抜けに追随、ストップはレンジ内へ',
+  'scenario.high24h': '24時間高値',
+  'scenario.low24h': '24時間安値',
+  'scenario.upside': '上昇シナリオ：出来高を伴って {price} を回復した場合',
+  'scenario.bearsTrapped': '売り方が捕まり、モメンタム転換の可能性',
+  'scenario.considerLong': 'ロング転換またはショート手仕舞いを検討',
+  'scenario.downside': '下落シナリオ：出来高を伴って {price} を割り込んだ場合',
+  'scenario.bullsTrapped': '買い方が捕まり、下抜けが進行',
+  'scenario.considerShort': 'ショート転換またはロング手仕舞いを検討',
+  'scenario.breakout': 'ブレイクシナリオ：{high}（上）/ {low}（下）に注目',
+  'scenario.firstToBreak': '先に出来高を伴って抜けた方向が本命',
+  'scenario.reactToBreakout': '予測せず、ブレイクに反応する',
+  'probability.sigma': 'σ1h {sigma}%（{source}）',
+  'probability.realised': '実現値',
+  'probability.fromRange': '24時間レンジから',
+  'probability.atrToEdge': '最も近い端まで {distance} ATR',
+  'probability.atrAway': '{distance} ATR 先',
+  'probability.modelHistory': 'モデル {model}% + 過去 {history}%（{windows} 区間）',
+  'probability.volatilityModel': 'ボラティリティモデル',
+};
@@ -0,0 +1,456 @@
+// Nigerian Pidgin report messages — same keys and placeholders as en.ts
+// Lines marked `// = en` stay in English on purpose: the trading term is what
+// Pidgin readers use (volume, OI, R multiple, BULLISH…), it names an official
+// release (US CPI), or the line is only numbers and placeholders.
+import type { ReportCatalog } from '../report-i18n';
+
+export const pcm: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': '{symbol} ANALYSIS', // = en
+  'report.tldr': 'SHORT TORI',
+  'report.range24h': '24h', // = en
+  'report.volumeSpike': 'VOLUME DON JUMP: +{percent}% pass {baseline} ({magnitude}) [spot, from aggregator]',
+  'report.volume': 'Volume', // = en
+  'report.volumeAbove': '+{percent}% pass {baseline}',
+  'report.volumeBelow': '{percent}% under {baseline}',
+  'report.volumeNear': 'e near {baseline}',
+  'report.avg24h': '24h avg', // = en
+  'report.avgSameHour': 'avg for dis same hour',
+  'report.avgWindow': '{window} avg', // = en
+  'report.futuresOI': 'Futures OI', // = en
+  'report.oiRising': 'Dey rise (longs dey pile)',
+  'report.oiDeclining': 'Dey fall (shorts dey close)',
+  'report.oiStable': 'E steady',
+  'report.volumeProfile': 'Volume profile ({hours}h): POC {poc} • Value {low}–{high} • Price dey {position}',
+  'report.aboveValue': 'on top value',
+  'report.belowValue': 'under value',
+  'report.inValue': 'inside value',
+  'report.verdict': 'FINAL TALK',
+  'report.confidence': 'Confidence', // = en
+  'report.calibratedFrom': 'dem adjust am from {percent}%',
+  'report.marketPulse': 'HOW MARKET DEY',
+  'report.fearGreed': 'Fear & Greed', // = en
+  'report.whaleActivity': 'Whale Moves',
+  'report.buy': 'Buy', // = en
+  'report.sell': 'Sell', // = en
+  'report.net': 'Net', // = en
+  'report.exchangeFlow': 'Exchange Flow', // = en
+  'report.institutional': 'Big Money',
+  'report.noEtf': 'N/A (no ETF for dis asset)',
+  'report.etfOnly': 'ETF na only BTC/ETH',
+  'report.crossAsset': 'Cross-Asset', // = en
+  'report.regimeUnavailable': 'Market regime no dey available',
+  'report.versus': 'vs {benchmark}', // = en
+  'report.notScored': 'We no score am (estimate): {factors}',
+  'report.macroCatalyst': 'BIG ECONOMY EVENT',
+  'report.multiTimeframe': 'MULTI-TIMEFRAME', // = en
+  'report.priceEstimates': 'We dey use price estimate (chart API no dey work)',
+  'report.alignedBullish': '{count}/5 Bullish',
+  'report.alignedBearish': '{count}/5 Bearish',
+  'report.alignmentMixed': 'E scatter ({bullish}B/{bearish}S)',
+  'report.confluence': 'Confluence', // = en
+  'report.confluenceStrong': 'STRONG', // = en
+  'report.confluenceModerate': 'MEDIUM',
+  'report.confluenceWeak': 'WEAK', // = en
+  'report.estimated': 'estimate',
+  'report.precisionEntry': '15M SHARP ENTRY',
+  'report.executeNow': 'ENTER NOW',
+  'report.waitPullback': 'WAIT MAKE E PULL BACK',
+  'report.waitBreakout': 'WAIT MAKE E BREAK OUT',
+  'report.noTrade': 'NO TRADE', // = en
+  'report.entryZone': 'Entry Zone', // = en
+  'report.trigger': 'Trigger', // = en
+  'report.confirm': 'Confirm', // = en
+  'report.invalid': 'E spoil if',
+  'report.liquidity': 'Liquidity', // = en
+  'report.derivatives': 'Derivatives', // = en
+  'report.flipLong': 'If e spoil: turn LONG above {price}',
+  'report.flipShort': 'If e spoil: turn SHORT below {price}',
+  'report.success': 'Success', // = en
+  'report.successFavorable': 'E fine — confluence good, manage your risk',
+  'report.successModerate': 'Medium — small confirmation, stay sharp',
+  'report.successUncertain': 'No too sure — signal scatter, reduce size',
+  'report.successWeak': 'E weak — confidence low, maybe siddon look',
+  'report.keyInsights': 'KEY POINTS',
+  'report.scenarios': 'SCENARIOS (BOTH SIDES)',
+  'report.livePrice': 'Live price',
+  'report.cachedPrice': 'Cached price',
+  'report.realCharts': 'Real charts',
+  'report.derivedCharts': 'We calculate am',
+  'report.liveOnChain': 'Live on-chain',
+  'report.estimatedInput': '{count} input wey we estimate',
+  'report.estimatedInputs': '{count} inputs wey we estimate',
+  'report.excluded': 'comot',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'dey favour bullish',
+  'bias.leaningBullish': 'dey lean bullish',
+  'bias.slightBullish': 'small bullish tilt',
+  'bias.favoringBearish': 'dey favour bearish',
+  'bias.leaningBearish': 'dey lean bearish',
+  'bias.slightBearish': 'small bearish tilt',
+  'bias.neutral': 'neutral',
+  'tldr.confluenceDecent': 'confluence dey okay',
+  'tldr.confluenceMixed': 'confluence scatter',
+  'tldr.confluenceWeak': 'confluence weak',
+  'tldr.zoneExtended': 'Price don run far',
+  'tldr.zoneDiscount': 'Cheap zone',
+  'tldr.zoneMidRange': 'Middle of range',
+  'tldr.buyZone': 'possible buy zone',
+  'tldr.sellZone': 'possible sell zone',
+  'tldr.rangeBound': 'E dey inside range',
+  'tldr.awaitPullback': 'wait for pullback',
+  'tldr.awaitBreakout': 'wait for breakout',
+  'tldr.noEntry': 'no clear entry',
+
+  // ── Range position ──
+  'context.nearHigh': 'Near 24h HIGH ({percent}% from top)',
+  'context.upperRange': 'Top side of range (top 30% of 24h)',
+  'context.nearLow': 'Close to 24h LOW ({percent}% pass bottom)',
+  'context.lowerRange': 'Down side of range (bottom 30% of 24h)',
+  'context.midRange': 'Middle range dey consolidate',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'Fear wey pass',
+  'fearGreed.fear': 'Fear',
+  'fearGreed.neutral': 'Neutral',
+  'fearGreed.greed': 'Greed',
+  'fearGreed.highGreed': 'Plenty Greed',
+  'fearGreed.extremeGreed': 'Greed wey pass',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'BULLISH', // = en
+  'value.BEARISH': 'BEARISH', // = en
+  'value.NEUTRAL': 'NEUTRAL', // = en
+  'value.STRONGLY_BULLISH': 'BULLISH WELL WELL',
+  'value.CAUTIOUSLY_BULLISH': 'BULLISH WITH CARE',
+  'value.CAUTIOUS': 'CAREFUL',
+  'value.INFLOW': 'MONEY DEY ENTER',
+  'value.OUTFLOW': 'MONEY DEY COMOT',
+  'value.NET_BUYING': 'BUYING PASS',
+  'value.NET_SELLING': 'SELLING PASS',
+  'value.ACCUMULATING': 'DEY GATHER',
+  'value.DISTRIBUTING': 'DEY SHARE COMOT',
+  'value.BALANCED': 'BALANCE',
+  'value.EXTREME': 'E PASS',
+  'value.HIGH': 'HIGH', // = en
+  'value.MEDIUM': 'MEDIUM', // = en
+  'value.MODERATE': 'MEDIUM',
+  'value.LOW': 'LOW', // = en
+  'value.NORMAL': 'NORMAL', // = en
+  'direction.bullish': 'bullish', // = en
+  'direction.bearish': 'bearish', // = en
+  'direction.neutral': 'neutral', // = en
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'Trend dey go up',
+  'regime.TRENDING_DOWN': 'Trend dey go down',
+  'regime.RANGING': 'E dey range',
+  'regime.HIGH_VOL_CRASH': 'High-volatility crash',
+  'regime.ALT_SEASON': 'Alt season', // = en
+  'regime.detailCrash': 'BTC {change} for 24h',
+  'regime.detailCrashVolatility': 'BTC {change} for 24h, volatility {ratio}× di 30d normal',
+  'regime.detailAltSeason': '{percent}% of {count} alts beat BTC for 7d',
+  'regime.detailTrend': 'BTC {change} for 72h, efficiency {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'Funding {rate}/{hours}h ({apr} APR)', // = en
+  'derivatives.crowdedLong': 'longs don pack full',
+  'derivatives.crowdedShort': 'shorts don pack full',
+  'derivatives.openInterest': 'OI {value} ({change} 24h)', // = en
+  'derivatives.openInterestNoChange': 'OI {value}', // = en
+  'derivatives.liquidations': 'Liquidation 1h: {longs} longs / {shorts} shorts',
+  'oiRegime.NEW_LONGS': 'fresh longs dey enter',
+  'oiRegime.SHORT_COVERING': 'shorts dey close',
+  'oiRegime.NEW_SHORTS': 'fresh shorts dey enter',
+  'oiRegime.LONG_UNWIND': 'longs dey close',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'Where price dey go',
+  'factor.price-position': 'Where price dey for range',
+  'factor.fear-greed': 'Fear & Greed', // = en
+  'factor.institutional': 'Big money flow',
+  'factor.on-chain': 'Exchange netflow',
+  'factor.volume': 'Volume', // = en
+  'factor.indicators': 'Indicators', // = en
+  'factor.patterns': 'Patterns', // = en
+  'factor.cross-asset': 'Cross-asset', // = en
+  'factor.derivatives': 'Derivatives', // = en
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'How timeframes take gree × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% dey gree, {branch} — {trends}',
+  'confidence.branchNoDirection': 'no trade direction dey',
+  'confidence.branchAgree': 'fundamentals dey gree',
+  'confidence.branchConflict': 'fundamentals no gree',
+  'confidence.branchNeutral': 'fundamentals no take side',
+  'confidence.fundamentals': 'Fundamental score × 0.25', // = en
+  'confidence.fundamentalsDetail': '{bias} for {confidence}% ({bull} bull points vs {bear} bear points)',
+  'confidence.heldTo': 'E hold am for {low}–{high}%',
+  'confidence.bandDetail': 'Confidence band wen {branch}',
+  'confidence.macro': 'Macro event don reduce am',
+  'confidence.macroDetail': '{event} go happen inside 2 days',
+  'confidence.clampDetail': 'Technical confidence limit dem',
+  'confidence.neuralBlend': 'Neural mix (25%)',
+  'confidence.neuralBlendDetail': 'Model talk say {bias} for {confidence}%',
+  'confidence.neuralAgrees': 'Neural gree',
+  'confidence.neuralDisagrees': 'Neural no gree',
+  'confidence.neuralAgreementDetail': '{percent}% of the learners dey gree',
+  'confidence.finalClamp': 'E round am, hold am for {low}–{high}%',
+  'confidence.finalClampDetail': 'Final confidence limit dem',
+  'confidence.calibrated': 'E don calibrate ({method})',
+  'confidence.calibratedDetail': '{scope}: {count} calls wey dem don grade — {raw}% calls correct {calibrated}% of the time',
+  'confidence.allSymbols': 'All coins',
+
+  // ── Key insights ──
+  'insight.aligned': 'Technicals and fundamentals gree',
+  'insight.technicalLeads': 'Technicals dey lead (fundamentals {direction}, dem no gree)',
+  'insight.technicalFundamentalNeutral': 'Technical signal (fundamentals neutral)',
+  'insight.technicalSignal': 'Technical signal', // = en
+  'insight.verdictBullish': 'BULLISH — {note}', // = en
+  'insight.verdictBearish': 'BEARISH — {note}', // = en
+  'insight.verdictNeutral': 'NEUTRAL — no clear technical direction',
+  'insight.exchangeInflowPressure': 'Money dey enter exchange ({magnitude}) → selling pressure',
+  'insight.exchangeOutflowSignal': 'Money dey comot exchange ({magnitude}) → accumulation signal',
+  'insight.whales': 'Whales: {flow}', // = en
+  'insight.whalesBalanced': 'Whales: dem balance',
+  'insight.longTermHolders': 'People wey dey hold long time +{percent}% (7d)',
+  'insight.etfFlow': 'ETF flow: {flow} ({sentiment})',
+  'insight.strongUptrend': 'Price dey climb well well ({change})',
+  'insight.bullishMomentum': 'Bullish force dey ({change})',
+  'insight.mildBullish': 'Small bullish ({change})',
+  'insight.strongDowntrend': 'Price dey fall well well ({change})',
+  'insight.bearishMomentum': 'Bearish force dey ({change})',
+  'insight.mildBearish': 'Small bearish ({change})',
+  'insight.sideways': 'E dey waka sideways ({change})',
+  'insight.deepDiscount': 'Deep discount — best place to buy',
+  'insight.premiumZone': 'Premium zone — shine your eye',
+  'insight.extremeFear': 'Fear wey pass — contrarian buy',
+  'insight.extremeGreed': 'Greed wey pass — contrarian sell',
+  'insight.institutionsBuying': 'Big money dey buy',
+  'insight.institutionsSelling': 'Big money dey sell',
+  'insight.exchangeOutflows': 'Money dey comot exchange — accumulation',
+  'insight.exchangeInflows': 'Money dey enter exchange — distribution',
+  'insight.volumeConfirmsBulls': 'High volume back the bulls',
+  'insight.volumeConfirmsBears': 'High volume back the bears',
+  'insight.indicatorsBullish': 'Indicators dey show bullish ({signals})',
+  'insight.indicatorsBearish': 'Indicators dey show bearish ({signals})',
+  'insight.bollingerSqueeze': 'Bollinger squeeze — e fit expand soon',
+  'insight.factorsBullish': 'BULLISH — {bullish} bullish factors vs {bearish} bearish',
+  'insight.factorsBearish': 'BEARISH — {bearish} bearish factors vs {bullish} bullish',
+  'insight.leanBullish': 'Lean BULLISH — medium signals',
+  'insight.leanBearish': 'Lean BEARISH — medium signals',
+  'insight.noEdge': 'NEUTRAL — no clear edge',
+  'insight.crashRegime': 'High-volatility crash — {detail}, risk-off',
+  'insight.btcHeadwind': 'BTC structure bearish — {symbol} dey follow am (ρ {correlation}, β {beta}), longs dey swim against current',
+  'insight.btcTailwind': 'BTC structure bullish — wind dey push {symbol} (ρ {correlation}, β {beta})',
+  'insight.altSeason': 'Alt season — {detail}', // = en
+  'insight.fundingCrowdedLong': 'Funding {rate} every {hours}h don reach extreme — longs don pack full, squeeze fit carry am down',
+  'insight.fundingCrowdedShort': 'Funding {rate} every {hours}h don reach extreme — shorts don pack full, squeeze fit push am up',
+  'insight.oiNewLongs': 'Open interest {oi} with price {price} for {hours}h — new longs dey back the move',
+  'insight.oiShortCovering': 'Price {price} but open interest {oi} for {hours}h — na shorts dey close, no be new buyers',
+  'insight.oiNewShorts': 'Open interest {oi} as price {price} for {hours}h — new shorts dey press am',
+  'insight.oiLongUnwind': 'Price {price} but open interest {oi} for {hours}h — na longs dey close, no be new sellers',
+  'insight.longsFlushed': '{amount} of longs don liquidate near {price} — leverage don flush',
+  'insight.shortsSqueezed': '{amount} of shorts don liquidate near {price} — short squeeze',
+  'insight.smartMoneyAccumulating': 'Smart money dey gather while retail dey panic — e don be bullish before',
+  'insight.institutionsDistributing': 'Big money dey sell give FOMO retail — take care',
+  'insight.alignedBullish': 'Everybody gree say e bullish — high confidence',
+  'insight.alignedBearish': 'Everybody gree say e bearish — high confidence',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'Bullish Engulfing',
+  'pattern.BEARISH_ENGULFING': 'Bearish Engulfing',
+  'pattern.BULLISH_PIN_BAR': 'Bullish Pin Bar',
+  'pattern.BEARISH_PIN_BAR': 'Bearish Pin Bar',
+  'pattern.INSIDE_BAR': 'Inside Bar',
+  'pattern.MORNING_STAR': 'Morning Star',
+  'pattern.EVENING_STAR': 'Evening Star',
+  'pattern.DOUBLE_TOP': 'Double Top',
+  'pattern.DOUBLE_BOTTOM': 'Double Bottom',
+  'pattern.HEAD_AND_SHOULDERS': 'Head and Shoulders',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'Inverse Head and Shoulders',
+  'pattern.ASCENDING_TRIANGLE': 'Ascending Triangle',
+  'pattern.DESCENDING_TRIANGLE': 'Descending Triangle',
+  'pattern.SYMMETRICAL_TRIANGLE': 'Symmetrical Triangle',
+  'pattern.BULL_FLAG': 'Bull Flag',
+  'pattern.BEAR_FLAG': 'Bear Flag',
+  'pattern.breakoutPending': 'breakout never happen',
+  'pattern.bullishContinuation': 'bullish go continue',
+  'pattern.bearishContinuation': 'bearish go continue',
+  'pattern.bullishReversal': 'bullish turnaround',
+  'pattern.bearishReversal': 'bearish turnaround',
+  'pattern.confirmed': 'e don confirm',
+
+  // ── Data provenance ──
+  'provenance.live': 'Live · {source}', // = en
+  'provenance.cached': 'Cached · {source}', // = en
+  'provenance.cachedAge': 'Cached {age} · {source}', // = en
+  'provenance.estimated': 'Estimate from {basis}',
+  'basis.priceRange': '24h high/low/change', // = en
+  'basis.priceChange': 'how price change for 24h',
+  'basis.neutralFearGreed': 'No index — we take am as neutral 50',
+  'basis.volumeEstimate': '24h volume × 0.85', // = en
+  'basis.chainParameters': 'normal chain parameters',
+  'basis.chainThroughput': 'how much the chain dey carry',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} ({countdown})',
+  'macro.countdownToday': 'TODAY', // = en
+  'macro.countdownTomorrow': 'TUMORO',
+  'macro.countdownDays': '{days}d', // = en
+  'macro.confidenceReduced': 'Confidence don reduce because event dey near',
+  'macro.today': 'TODAY', // = en
+  'macro.tomorrow': 'TOMORROW',
+  'macro.inDays': 'for {days} days',
+  'macro.joblessClaims': 'Weekly Jobless Claims', // = en
+  'macro.watchReaction': 'Watch how market go react',
+  'macro.quarterlyExpiry': 'Quarterly Options Expiry (BIG ONE)',
+  'macro.monthlyExpiry': 'Monthly Options Expiry', // = en
+  'macro.quarterlyExpiryNote': 'Billions of dollars options go expire — expect max pain wahala',
+  'macro.monthlyExpiryNote': 'Big positions dey roll over',
+  'macro.tradePolicy': 'Tariff/Trade Policy + Geopolitics', // = en
+  'macro.tradePolicyNote': 'Trade wahala and regulation news fit cause sharp moves',
+  'macro.fomc': 'FOMC Rate Decision',
+  'macro.fomcNote': 'CME FedWatch: ~90% talk say rate go stay. Surprise cut = VERY BULLISH, hike = crash risk',
+  'macro.cpi': 'US CPI Inflation Data', // = en
+  'macro.cpiNote': 'Expectation: ~2.8% YoY. Below = bullish surprise (hope of rate cut), above = hawkish reaction',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}', // = en
+  'entry.zoneRangeLabel': 'Range: {low} – {high}', // = en
+  'entry.zoneWait': 'WAIT: {low} – {high}',
+  'entry.zonePullback': 'WAIT for pullback to {low} – {high}',
+  'entry.zoneReliefRally': 'WAIT for relief rally to {low} – {high}',
+  'entry.zoneDiscount': 'DISCOUNT: {price} entry',
+  'entry.zonePremium': 'PREMIUM: {price} entry',
+  'entry.zoneBreakdown': 'BREAKDOWN: {price} entry',
+  'entry.zoneEntry': 'Entry: {price}', // = en
+  'entry.triggerNoTrade': 'NO TRADE — {confluence}% confluence (e need 45%+)',
+  'entry.triggerNeutral': 'NO TRADE — bias neutral, wait make direction show',
+  'entry.triggerStrongUptrend': 'WAIT — Price dey climb well well (+{change}%), wait make e pull back reach key support',
+  'entry.triggerBuyDiscount': 'BUY — Price dey discount with bullish confluence',
+  'entry.triggerExtended': 'WAIT — E don run too far, no chase am. Wait for pullback to support',
+  'entry.triggerBuyMomentum': 'BUY — Momentum dey follow trend',
+  'entry.triggerRiskRewardLong': 'WAIT — R:R no good, wait for better entry',
+  'entry.triggerSupport': 'WAIT — Better entry dey support zone',
+  'entry.triggerStrongDowntrend': 'WAIT — Strong downtrend ({change}%), wait for relief rally to key resistance',
+  'entry.triggerSellPremium': 'SELL — Price dey premium with bearish confluence',
+  'entry.triggerSellBreakdown': 'SELL — Breakdown don confirm, momentum short',
+  'entry.triggerRiskRewardBreakdown': 'WAIT — R:R no good after breakdown',
+  'entry.triggerOversold': 'WAIT — Oversold, wait for bounce before you short',
+  'entry.triggerSellMomentum': 'SELL — Momentum dey follow trend',
+  'entry.triggerRiskRewardShort': 'WAIT — R:R no good, wait for relief rally',
+  'entry.triggerResistance': 'WAIT — Better entry dey resistance zone',
+  'entry.triggerDefault': 'Wait make setup show',
+  'entry.confirmMixed': 'Timeframes {bullish}B/{bearish}S — wait make dem gree',
+  'entry.confirmBuyFib50': 'Buy when bullish price action show for {price} (50% Fib)',
+  'entry.confirmSellFib50': 'Sell when bearish price action show for {price} (50% Fib)',
+  'entry.confirmConfluenceTarget': 'Confluence {confluence}% • Target: {price}',
+  'entry.confirmTarget': 'Target: {price}', // = en
+  'entry.confirmRetraceLong': 'Retrace go Fib 38-62% zone with bullish confirmation candle',
+  'entry.confirmPullbackRiskReward': 'Wait for pullback make risk/reward better',
+  'entry.confirmBuyFib': 'Buy when bullish price action show for Fib level',
+  'entry.confirmBelowSupport': 'Price don break support, {percent}% selling pressure',
+  'entry.confirmBounceShort': 'Wait make e bounce before you short, R:R go better',
+  'entry.confirmBounceFib': 'Short when e bounce reach Fib 38-62% zone with bearish candle',
+  'entry.confirmReliefRiskReward': 'Wait for relief rally make risk/reward better',
+  'entry.confirmSellFib': 'Sell when bearish price action show for Fib level',
+  'entry.confirmNeutral': 'Wait for breakout or breakdown wey volume back',
+  'entry.confirmPending': 'E never ready',
+  'entry.invalidBelowRiskReward': 'Under {price} — R:R {ratio}:1',
+  'entry.invalidAboveRiskReward': 'On top {price} — R:R {ratio}:1',
+  'entry.invalidBelow': 'Under {price}',
+  'entry.invalidAbove': 'On top {price}',
+  'entry.invalidTrendBreak': 'Below {price} (trend don break)',
+  'entry.invalidTrendReversal': 'Above {price} (trend don turn)',
+  'entry.invalidNone': 'N/A', // = en
+  'entry.structureInsufficient': 'Confluence no reach',
+  'entry.structureStrongBullish': 'STRONG BULLISH ({confluence}% confluence)',
+  'entry.structureBullish': 'BULLISH ({confluence}% confluence)',
+  'entry.structureStrongBearish': 'STRONG BEARISH ({confluence}% confluence)',
+  'entry.structureBearish': 'BEARISH ({confluence}% confluence)',
+  'entry.structureExtended': 'EXTENDED',
+  'entry.structureTrending': 'TRENDING',
+  'entry.structureBreakdown': 'BREAKDOWN DEY HAPPEN',
+  'entry.structureOversold': 'OVERSOLD',
+  'entry.structureNeutral': 'NEUTRAL',
+  'entry.structureUndefined': 'No clear',
+  'entry.phaseWaitSetup': 'Wait make setup show',
+  'entry.phaseWaitingPullback': 'Dey wait for pullback',
+  'entry.phaseAccumulation': 'Accumulation', // = en
+  'entry.phaseDistribution': 'Distribution', // = en
+  'entry.phaseWaitRetracement': 'Wait make e pull back',
+  'entry.phaseImpulse': 'Impulse', // = en
+  'entry.phaseImpulseDown': 'Impulse down',
+  'entry.phaseConsolidation': 'Consolidation', // = en
+  'entry.phaseUnknown': 'We no know',
+  'entry.liquidityBidHeavy': 'Book dey {percent}% bid-heavy inside ±2%, spread {spread}%',
+  'entry.liquidityAskHeavy': 'Book dey {percent}% ask-heavy inside ±2%, spread {spread}%',
+  'entry.liquidityBalanced': 'Book balance inside ±2%, spread {spread}%',
+  'entry.liquidityBidWall': 'bid wall {size} for {price} (−{distance}%)',
+  'entry.liquidityAskWall': 'ask wall {size} for {price} (+{distance}%)',
+  'entry.triggerAskWallAhead': 'WAIT — {size} ask wall for {price} dey just on top. Enter when dem don chop am and price hold above',
+  'entry.triggerBidWallAhead': 'WAIT — {size} bid wall for {price} dey just under. Enter when dem don chop am and price hold below',
+
+  // ── Trade plan ──
+  'plan.stop': 'Stop', // = en
+  'plan.close': 'close {percent}%', // = en
+  'plan.blended': 'Blended',
+  'plan.estimated': 'est.', // = en
+  'plan.size': 'Size: {units} {symbol} (~{notional}) to risk {risk} ({percent}% of {account})',
+  'plan.stopSwingLow': 'swing low − {buffer}× ATR',
+  'plan.stopSwingHigh': 'swing high + {buffer}× ATR',
+  'plan.stopBeyondEntry': '1.5× ATR pass entry',
+  'plan.stopMinimum': 'min {multiple}× ATR',
+  'plan.stopCap': 'max {multiple}× ATR',
+  'plan.swingHigh': 'swing high',
+  'plan.swingLow': 'swing low',
+  'plan.runner': 'Runner', // = en
+  'plan.rMultiple': 'R multiple', // = en
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'If price close below {price} inside {hours}h',
+  'scenario.closeAbove': 'If price close above {price} inside {hours}h',
+  'scenario.sustainAbove': 'If price still dey above {price} by hour {hours}',
+  'scenario.holdBelow': 'If price break below {price} and still dey there by hour {hours}',
+  'scenario.range': 'If price stay between {low} - {high} for next {hours}h',
+  'scenario.closeAboveLevel': 'If price close above {price} ({level}) inside {hours}h',
+  'scenario.closeBelowLevel': 'If price close below {price} ({level}) inside {hours}h',
+  'scenario.bullInvalidated': 'Bullish scenario don spoil — structure don break',
+  'scenario.bullBreakout': 'Bullish breakout don confirm — new support don form',
+  'scenario.bearInvalidated': 'Bearish scenario don spoil — structure don come back',
+  'scenario.bearBreakdown': 'Bearish breakdown don confirm — selling fit speed up',
+  'scenario.consolidation': 'Consolidation dey continue — wait make e resolve',
+  'scenario.upsideExtension': 'Upside extension — e don break next resistance',
+  'scenario.downsideExtension': 'Downside extension — e don lose next support',
+  'scenario.exitLongs': 'Close longs, think of short on retest',
+  'scenario.addLongs': 'Add longs when retest of broken resistance hold',
+  'scenario.exitShorts': 'Close shorts, think of long after confirmation',
+  'scenario.addShorts': 'Add shorts when relief rally fail',
+  'scenario.tradeRange': 'Trade only di range edges, wait for breakout wey volume back',
+  'scenario.takeProfitLong': 'Take small profit, move stop go under di breakout level',
+  'scenario.takeProfitShort': 'Take small profit, move stop go above di breakdown level',
+  'scenario.flatSqueeze': 'Stay flat — squeeze risk dey, no new short until momentum cool',
+  'scenario.flatNoBase': 'Stay flat — no new long until base form',
+  'scenario.followBreakout': 'Follow di breakout, put stop inside di range',
+  'scenario.followBreakdown': 'Follow di breakdown, put stop inside di range',
+  'scenario.high24h': '24h high', // = en
+  'scenario.low24h': '24h low', // = en
+  'scenario.upside': 'UPSIDE: If price collect back {price} with volume',
+  'scenario.bearsTrapped': 'Bears don trap, momentum fit turn',
+  'scenario.considerLong': 'Think of turning long or closing shorts',
+  'scenario.downside': 'DOWNSIDE: If price lose {price} with volume',
+  'scenario.bullsTrapped': 'Bulls don trap, breakdown dey go on',
+  'scenario.considerShort': 'Think of turning short or closing longs',
+  'scenario.breakout': 'BREAKOUT: Watch {high} (up) / {low} (down)',
+  'scenario.firstToBreak': 'Di side wey break first with volume go set direction',
+  'scenario.reactToBreakout': 'React to di breakout, no try predict am',
+  'probability.sigma': 'σ1h {sigma}% ({source})', // = en
+  'probability.realised': 'wey don happen',
+  'probability.fromRange': 'from 24h range', // = en
+  'probability.atrToEdge': '{distance} ATR to di nearest edge',
+  'probability.atrAway': '{distance} ATR far',
+  'probability.modelHistory': 'model {model}% + history {history}% ({windows} windows)',
+  'probability.volatilityModel': 'volatility model', // = en
+};
@@ -0,0 +1,453 @@
+// Russian report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const ru: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': 'АНАЛИЗ {symbol}',
+  'report.tldr': 'КРАТКО',
+  'report.range24h': '24ч',
+  'report.volumeSpike': 'ВСПЛЕСК ОБЪЁМА: +{percent}% выше {baseline} ({magnitude}) [спот, по агрегатору]',
+  'report.volume': 'Объём',
+  'report.volumeAbove': '+{percent}% выше {baseline}',
+  'report.volumeBelow': '{percent}% ниже {baseline}',
+  'report.volumeNear': 'около {baseline}',
+  'report.avg24h': 'ср. за 24ч',
+  'report.avgSameHour': 'ср. за тот же час',
+  'report.avgWindow': 'ср. за {window}',
+  'report.futuresOI': 'ОИ фьючерсов',
+  'report.oiRising': 'Растёт (набор лонгов)',
+  'report.oiDeclining': 'Снижается (закрытие шортов)',
+  'report.oiStable': 'Стабилен',
+  'report.volumeProfile': 'Профиль объёма ({hours}ч): POC {poc} • Стоимость {low}–{high} • Цена {position}',
+  'report.aboveValue': 'выше зоны стоимости',
+  'report.belowValue': 'ниже зоны стоимости',
+  'report.inValue': 'в зоне стоимости',
+  'report.verdict': 'ВЕРДИКТ',
+  'report.confidence': 'Уверенность',
+  'report.calibratedFrom': 'калибровано из {percent}%',
+  'report.marketPulse': 'ПУЛЬС РЫНКА',
+  'report.fearGreed': 'Страх и жадность',
+  'report.whaleActivity': 'Активность китов',
+  'report.buy': 'Покупка',
+  'report.sell': 'Продажа',
+  'report.net': 'Нетто',
+  'report.exchangeFlow': 'Потоки бирж',
+  'report.institutional': 'Институционалы',
+  'report.noEtf': 'Н/Д (нет ETF на этот актив)',
+  'report.etfOnly': 'ETF только для BTC/ETH',
+  'report.crossAsset': 'Межрыночный',
+  'report.regimeUnavailable': 'Режим рынка недоступен',
+  'report.versus': 'против {benchmark}',
+  'report.notScored': 'Не учтено (оценка): {factors}',
+  'report.macroCatalyst': 'МАКРО-КАТАЛИЗАТОР',
+  'report.multiTimeframe': 'МУЛЬТИТАЙМФРЕЙМ',
+  'report.priceEstimates': 'Используются оценки по цене (API графиков недоступен)',
+  'report.alignedBullish': '{count}/5 бычьих',
+  'report.alignedBearish': '{count}/5 медвежьих',
+  'report.alignmentMixed': 'Смешанно ({bullish}Б/{bearish}М)',
+  'report.confluence': 'Конфлюэнс',
+  'report.confluenceStrong': 'СИЛЬНЫЙ',
+  'report.confluenceModerate': 'УМЕРЕННЫЙ',
+  'report.confluenceWeak': 'СЛАБЫЙ',
+  'report.estimated': 'оценка',
+  'report.precisionEntry': 'ТОЧНЫЙ ВХОД 15М',
+  'report.executeNow': 'ВХОДИТЬ СЕЙЧАС',
+  'report.waitPullback': 'ЖДАТЬ ОТКАТА',
+  'report.waitBreakout': 'ЖДАТЬ ПРОБОЯ',
+  'report.noTrade': 'БЕЗ СДЕЛКИ',
+  'report.entryZone': 'Зона входа',
+  'report.trigger': 'Триггер',
+  'report.confirm': 'Подтверждение',
+  'report.invalid': 'Отмена',
+  'report.liquidity': 'Ликвидность',
+  'report.derivatives': 'Деривативы',
+  'report.flipLong': 'При отмене: переворот в LONG выше {price}',
+  'report.flipShort': 'При отмене: переворот в SHORT ниже {price}',
+  'report.success': 'Успех',
+  'report.successFavorable': 'Благоприятно — хороший конфлюэнс, управляйте риском',
+  'report.successModerate': 'Умеренно — частичное подтверждение, будьте гибки',
+  'report.successUncertain': 'Неопределённо — смешанные сигналы, уменьшите объём',
+  'report.successWeak': 'Слабо — низкая уверенность, лучше подождать',
+  'report.keyInsights': 'КЛЮЧЕВЫЕ ВЫВОДЫ',
+  'report.scenarios': 'СЦЕНАРИИ (ОБЕ СТОРОНЫ)',
+  'report.livePrice': 'Текущая цена',
+  'report.cachedPrice': 'Кэшированная цена',
+  'report.realCharts': 'Реальные графики',
+  'report.derivedCharts': 'Расчётные',
+  'report.liveOnChain': 'Ончейн в реальном времени',
+  'report.estimatedInput': '{count} оценочный вход',
+  'report.estimatedInputs': '{count} оценочных входов',
+  'report.excluded': 'исключено',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': 'перевес быков',
+  'bias.leaningBullish': 'склонность к росту',
+  'bias.slightBullish': 'лёгкий бычий уклон',
+  'bias.favoringBearish': 'перевес медведей',
+  'bias.leaningBearish': 'склонность к падению',
+  'bias.slightBearish': 'лёгкий медвежий уклон',
+  'bias.neutral': 'нейтрально',
+  'tldr.confluenceDecent': 'конфлюэнс приемлемый',
+  'tldr.confluenceMixed': 'конфлюэнс смешанный',
+  'tldr.confluenceWeak': 'конфлюэнс слабый',
+  'tldr.zoneExtended': 'Зона перерастяжения',
+  'tldr.zoneDiscount': 'Зона дисконта',
+  'tldr.zoneMidRange': 'Середина диапазона',
+  'tldr.buyZone': 'возможная зона покупки',
+  'tldr.sellZone': 'возможная зона продажи',
+  'tldr.rangeBound': 'В диапазоне',
+  'tldr.awaitPullback': 'ждать откат',
+  'tldr.awaitBreakout': 'ждать пробой',
+  'tldr.noEntry': 'нет чёткого входа',
+
+  // ── Range position ──
+  'context.nearHigh': 'У 24ч МАКСИМУМА ({percent}% от вершины)',
+  'context.upperRange': 'Верх диапазона (верхние 30% за 24ч)',
+  'context.nearLow': 'У 24ч МИНИМУМА ({percent}% над дном)',
+  'context.lowerRange': 'Низ диапазона (нижние 30% за 24ч)',
+  'context.midRange': 'Консолидация в середине диапазона',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': 'Крайний страх',
+  'fearGreed.fear': 'Страх',
+  'fearGreed.neutral': 'Нейтрально',
+  'fearGreed.greed': 'Жадность',
+  'fearGreed.highGreed': 'Сильная жадность',
+  'fearGreed.extremeGreed': 'Крайняя жадность',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': 'БЫЧИЙ',
+  'value.BEARISH': 'МЕДВЕЖИЙ',
+  'value.NEUTRAL': 'НЕЙТРАЛЬНЫЙ',
+  'value.STRONGLY_BULLISH': 'СИЛЬНО БЫЧИЙ',
+  'value.CAUTIOUSLY_BULLISH': 'ОСТОРОЖНО БЫЧИЙ',
+  'value.CAUTIOUS': 'ОСТОРОЖНЫЙ',
+  'value.INFLOW': 'ПРИТОК',
+  'value.OUTFLOW': 'ОТТОК',
+  'value.NET_BUYING': 'ЧИСТЫЕ ПОКУПКИ',
+  'value.NET_SELLING': 'ЧИСТЫЕ ПРОДАЖИ',
+  'value.ACCUMULATING': 'НАКОПЛЕНИЕ',
+  'value.DISTRIBUTING': 'РАСПРЕДЕЛЕНИЕ',
+  'value.BALANCED': 'БАЛАНС',
+  'value.EXTREME': 'ЭКСТРЕМАЛЬНЫЙ',
+  'value.HIGH': 'ВЫСОКИЙ',
+  'value.MEDIUM': 'СРЕДНИЙ',
+  'value.MODERATE': 'УМЕРЕННЫЙ',
+  'value.LOW': 'НИЗКИЙ',
+  'value.NORMAL': 'ОБЫЧНЫЙ',
+  'direction.bullish': 'бычий',
+  'direction.bearish': 'медвежий',
+  'direction.neutral': 'нейтральный',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': 'Восходящий тренд',
+  'regime.TRENDING_DOWN': 'Нисходящий тренд',
+  'regime.RANGING': 'Боковик',
+  'regime.HIGH_VOL_CRASH': 'Обвал на высокой волатильности',
+  'regime.ALT_SEASON': 'Альтсезон',
+  'regime.detailCrash': 'BTC {change} за 24ч',
+  'regime.detailCrashVolatility': 'BTC {change} за 24ч, волатильность {ratio}× от нормы за 30д',
+  'regime.detailAltSeason': '{percent}% из {count} альтов обогнали BTC за 7д',
+  'regime.detailTrend': 'BTC {change} за 72ч, эффективность {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': 'Фандинг {rate}/{hours}ч ({apr} годовых)',
+  'derivatives.crowdedLong': 'лонги перегружены',
+  'derivatives.crowdedShort': 'шорты перегружены',
+  'derivatives.openInterest': 'ОИ {value} ({change} за 24ч)',
+  'derivatives.openInterestNoChange': 'ОИ {value}',
+  'derivatives.liquidations': 'Ликвидации за 1ч: лонги {longs} / шорты {shorts}',
+  'oiRegime.NEW_LONGS': 'новые лонги',
+  'oiRegime.SHORT_COVERING': 'закрытие шортов',
+  'oiRegime.NEW_SHORTS': 'новые шорты',
+  'oiRegime.LONG_UNWIND': 'закрытие лонгов',
+
+  // ── Scored factors ──
+  'factor.price-direction': 'Направление цены',
+  'factor.price-position': 'Позиция в диапазоне',
+  'factor.fear-greed': 'Страх и жадность',
+  'factor.institutional': 'Институциональный поток',
+  'factor.on-chain': 'Нетто-поток бирж',
+  'factor.volume': 'Объём',
+  'factor.indicators': 'Индикаторы',
+  'factor.patterns': 'Паттерны',
+  'factor.cross-asset': 'Межрыночный',
+  'factor.derivatives': 'Деривативы',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': 'Нисходящая конфлюэнция × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% совпадение, {branch} — {trends}',
+  'confidence.branchNoDirection': 'нет торгового направления',
+  'confidence.branchAgree': 'фундаментал совпадает',
+  'confidence.branchConflict': 'фундаментал противоречит',
+  'confidence.branchNeutral': 'фундаментал нейтрален',
+  'confidence.fundamentals': 'Фундаментальная оценка × 0,25',
+  'confidence.fundamentalsDetail': '{bias} при {confidence}% ({bull} бычьих против {bear} медвежьих очков)',
+  'confidence.heldTo': 'Ограничено {low}–{high}%',
+  'confidence.bandDetail': 'Диапазон уверенности: {branch}',
+  'confidence.macro': 'Штраф за макрособытие',
+  'confidence.macroDetail': '{event} в течение 2 дней',
+  'confidence.clampDetail': 'Пределы технической уверенности',
+  'confidence.neuralBlend': 'Нейросетевое смешивание (25%)',
+  'confidence.neuralBlendDetail': 'Модель даёт {bias} при {confidence}%',
+  'confidence.neuralAgrees': 'Нейросеть согласна',
+  'confidence.neuralDisagrees': 'Нейросеть не согласна',
+  'confidence.neuralAgreementDetail': 'согласие моделей {percent}%',
+  'confidence.finalClamp': 'Округлено и ограничено {low}–{high}%',
+  'confidence.finalClampDetail': 'Итоговые пределы уверенности',
+  'confidence.calibrated': 'Откалибровано ({method})',
+  'confidence.calibratedDetail': '{scope}: {count} оценённых сигналов — сигналы на {raw}% оказывались верны в {calibrated}% случаев',
+  'confidence.allSymbols': 'Все символы',
+
+  // ── Key insights ──
+  'insight.aligned': 'Теханализ и фундаментал совпадают',
+  'insight.technicalLeads': 'Теханализ ведёт (фундаментал {direction}, расхождение)',
+  'insight.technicalFundamentalNeutral': 'Технический сигнал (фундаментал нейтрален)',
+  'insight.technicalSignal': 'Технический сигнал',
+  'insight.verdictBullish': 'БЫЧИЙ — {note}',
+  'insight.verdictBearish': 'МЕДВЕЖИЙ — {note}',
+  'insight.verdictNeutral': 'НЕЙТРАЛЬНО — нет чёткого технического направления',
+  'insight.exchangeInflowPressure': 'Приток на биржи ({magnitude}) → давление распределения',
+  'insight.exchangeOutflowSignal': 'Отток с бирж ({magnitude}) → сигнал накопления',
+  'insight.whales': 'Киты: {flow}',
+  'insight.whalesBalanced': 'Киты: сбалансированная активность',
+  'insight.longTermHolders': 'Долгосрочные держатели +{percent}% (7д)',
+  'insight.etfFlow': 'Поток ETF: {flow} ({sentiment})',
+  'insight.strongUptrend': 'Сильный восходящий тренд ({change})',
+  'insight.bullishMomentum': 'Бычий импульс ({change})',
+  'insight.mildBullish': 'Умеренно бычий ({change})',
+  'insight.strongDowntrend': 'Сильный нисходящий тренд ({change})',
+  'insight.bearishMomentum': 'Медвежий импульс ({change})',
+  'insight.mildBearish': 'Умеренно медвежий ({change})',
+  'insight.sideways': 'Боковик ({change})',
+  'insight.deepDiscount': 'Глубокий дисконт — лучшая зона покупки',
+  'insight.premiumZone': 'Премиальная зона — осторожно',
+  'insight.extremeFear': 'Крайний страх — контртрендовая покупка',
+  'insight.extremeGreed': 'Крайняя жадность — контртрендовая продажа',
+  'insight.institutionsBuying': 'Институционалы покупают',
+  'insight.institutionsSelling': 'Институционалы продают',
+  'insight.exchangeOutflows': 'Отток с бирж — накопление',
+  'insight.exchangeInflows': 'Приток на биржи — распределение',
+  'insight.volumeConfirmsBulls': 'Высокий объём подтверждает быков',
+  'insight.volumeConfirmsBears': 'Высокий объём подтверждает медведей',
+  'insight.indicatorsBullish': 'Индикаторы бычьи ({signals})',
+  'insight.indicatorsBearish': 'Индикаторы медвежьи ({signals})',
+  'insight.bollingerSqueeze': 'Сжатие Боллинджера — вероятно расширение',
+  'insight.factorsBullish': 'БЫЧИЙ — {bullish} бычьих факторов против {bearish} медвежьих',
+  'insight.factorsBearish': 'МЕДВЕЖИЙ — {bearish} медвежьих факторов против {bullish} бычьих',
+  'insight.leanBullish': 'Уклон к БЫЧЬЕМУ — умеренные сигналы',
+  'insight.leanBearish': 'Уклон к МЕДВЕЖЬЕМУ — умеренные сигналы',
+  'insight.noEdge': 'НЕЙТРАЛЬНО — нет явного преимущества',
+  'insight.crashRegime': 'Режим обвала на высокой волатильности — {detail}, уход от риска',
+  'insight.btcHeadwind': 'Структура BTC медвежья — {symbol} следует за ним (ρ {correlation}, β {beta}), лонги против течения',
+  'insight.btcTailwind': 'Структура BTC бычья — попутный ветер для {symbol} (ρ {correlation}, β {beta})',
+  'insight.altSeason': 'Альтсезон — {detail}',
+  'insight.fundingCrowdedLong': 'Фандинг {rate} за {hours}ч на экстремуме — лонги перегружены, риск сквиза вниз',
+  'insight.fundingCrowdedShort': 'Фандинг {rate} за {hours}ч на экстремуме — шорты перегружены, риск сквиза вверх',
+  'insight.oiNewLongs': 'Открытый интерес {oi} при цене {price} за {hours}ч — новые лонги поддерживают движение',
+  'insight.oiShortCovering': 'Цена {price} при открытом интересе {oi} за {hours}ч — закрытие шортов, а не новые покупатели',
+  'insight.oiNewShorts': 'Открытый интерес {oi} при цене {price} за {hours}ч — новые шорты давят',
+  'insight.oiLongUnwind': 'Цена {price} при открытом интересе {oi} за {hours}ч — закрытие лонгов, а не новые продавцы',
+  'insight.longsFlushed': 'Ликвидировано лонгов на {amount} около {price} — плечо вычищено',
+  'insight.shortsSqueezed': 'Ликвидировано шортов на {amount} около {price} — шорт-сквиз',
+  'insight.smartMoneyAccumulating': 'Умные деньги накапливают, пока розница паникует — исторически бычий сигнал',
+  'insight.institutionsDistributing': 'Институционалы распределяют на FOMO-розницу — осторожно',
+  'insight.alignedBullish': 'Все участники единодушно бычьи — высокая уверенность',
+  'insight.alignedBearish': 'Все участники единодушно медвежьи — высокая уверенность',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': 'Бычье поглощение',
+  'pattern.BEARISH_ENGULFING': 'Медвежье поглощение',
+  'pattern.BULLISH_PIN_BAR': 'Бычий пин-бар',
+  'pattern.BEARISH_PIN_BAR': 'Медвежий пин-бар',
+  'pattern.INSIDE_BAR': 'Внутренний бар',
+  'pattern.MORNING_STAR': 'Утренняя звезда',
+  'pattern.EVENING_STAR': 'Вечерняя звезда',
+  'pattern.DOUBLE_TOP': 'Двойная вершина',
+  'pattern.DOUBLE_BOTTOM': 'Двойное дно',
+  'pattern.HEAD_AND_SHOULDERS': 'Голова и плечи',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': 'Перевёрнутая голова и плечи',
+  'pattern.ASCENDING_TRIANGLE': 'Восходящий треугольник',
+  'pattern.DESCENDING_TRIANGLE': 'Нисходящий треугольник',
+  'pattern.SYMMETRICAL_TRIANGLE': 'Симметричный треугольник',
+  'pattern.BULL_FLAG': 'Бычий флаг',
+  'pattern.BEAR_FLAG': 'Медвежий флаг',
+  'pattern.breakoutPending': 'пробой ожидается',
+  'pattern.bullishContinuation': 'бычье продолжение',
+  'pattern.bearishContinuation': 'медвежье продолжение',
+  'pattern.bullishReversal': 'бычий разворот',
+  'pattern.bearishReversal': 'медвежий разворот',
+  'pattern.confirmed': 'подтверждён',
+
+  // ── Data provenance ──
+  'provenance.live': 'Онлайн · {source}',
+  'provenance.cached': 'Кэш · {source}',
+  'provenance.cachedAge': 'Кэш {age} · {source}',
+  'provenance.estimated': 'Оценка по: {basis}',
+  'basis.priceRange': 'макс/мин/изменение за 24ч',
+  'basis.priceChange': 'изменение цены за 24ч',
+  'basis.neutralFearGreed': 'индекс не получен — принято нейтральное 50',
+  'basis.volumeEstimate': 'объём за 24ч × 0.85',
+  'basis.chainParameters': 'типичные параметры сети',
+  'basis.chainThroughput': 'пропускная способность сети',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event} ({countdown})',
+  'macro.countdownToday': 'СЕГОДНЯ',
+  'macro.countdownTomorrow': 'ЗАВТРА',
+  'macro.countdownDays': '{days}д',
+  'macro.confidenceReduced': 'Уверенность снижена из-за близости события',
+  'macro.today': 'СЕГОДНЯ',
+  'macro.tomorrow': 'ЗАВТРА',
+  'macro.inDays': 'через {days} дн.',
+  'macro.joblessClaims': 'Еженедельные заявки на пособие по безработице',
+  'macro.watchReaction': 'Следите за реакцией рынка',
+  'macro.quarterlyExpiry': 'Квартальная экспирация опционов (КРУПНАЯ)',
+  'macro.monthlyExpiry': 'Месячная экспирация опционов',
+  'macro.quarterlyExpiryNote': 'Экспирация опционов на миллиарды долларов — ждите волатильности у max pain',
+  'macro.monthlyExpiryNote': 'Перекат крупных позиций',
+  'macro.tradePolicy': 'Тарифы/торговая политика + геополитика',
+  'macro.tradePolicyNote': 'Торговые споры и регуляторные новости могут вызвать резкие движения',
+  'macro.fomc': 'Решение FOMC по ставке',
+  'macro.fomcNote': 'CME FedWatch: ~90% ждут сохранения. Неожиданное снижение = ОЧЕНЬ БЫЧЬЕ, повышение = риск обвала',
+  'macro.cpi': 'Данные по инфляции CPI США',
+  'macro.cpiNote': 'Ожидания: ~2.8% г/г. Ниже = бычий сюрприз (надежда на снижение ставки), выше = ястребиная реакция',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': 'Диапазон: {low} – {high}',
+  'entry.zoneWait': 'ЖДАТЬ: {low} – {high}',
+  'entry.zonePullback': 'ЖДАТЬ отката к {low} – {high}',
+  'entry.zoneReliefRally': 'ЖДАТЬ отскока к {low} – {high}',
+  'entry.zoneDiscount': 'ДИСКОНТ: вход {price}',
+  'entry.zonePremium': 'ПРЕМИЯ: вход {price}',
+  'entry.zoneBreakdown': 'ПРОБОЙ ВНИЗ: вход {price}',
+  'entry.zoneEntry': 'Вход: {price}',
+  'entry.triggerNoTrade': 'БЕЗ СДЕЛКИ — конфлюэнс {confluence}% (нужно 45%+)',
+  'entry.triggerNeutral': 'БЕЗ СДЕЛКИ — нейтральный уклон, ждите направления',
+  'entry.triggerStrongUptrend': 'ЖДАТЬ — Сильный восходящий тренд (+{change}%), ждите отката к ключевой поддержке',
+  'entry.triggerBuyDiscount': 'ПОКУПКА — Цена в дисконте при бычьем конфлюэнсе',
+  'entry.triggerExtended': 'ЖДАТЬ — Перерастяжение, не догоняйте. Ждите отката к поддержке',
+  'entry.triggerBuyMomentum': 'ПОКУПКА — Импульс по тренду',
+  'entry.triggerRiskRewardLong': 'ЖДАТЬ — Неблагоприятный R:R, ждите лучшего входа',
+  'entry.triggerSupport': 'ЖДАТЬ — Лучший вход в зоне поддержки',
+  'entry.triggerStrongDowntrend': 'ЖДАТЬ — Сильный нисходящий тренд ({change}%), ждите отскока к ключевому сопротивлению',
+  'entry.triggerSellPremium': 'ПРОДАЖА — Цена в премии при медвежьем конфлюэнсе',
+  'entry.triggerSellBreakdown': 'ПРОДАЖА — Пробой вниз подтверждён, шорт по импульсу',
+  'entry.triggerRiskRewardBreakdown': 'ЖДАТЬ — Неблагоприятный R:R после пробоя',
+  'entry.triggerOversold': 'ЖДАТЬ — Перепроданность, ждите отскока для шорта',
+  'entry.triggerSellMomentum': 'ПРОДАЖА — Импульс по тренду',
+  'entry.triggerRiskRewardShort': 'ЖДАТЬ — Неблагоприятный R:R, ждите отскока',
+  'entry.triggerResistance': 'ЖДАТЬ — Лучший вход в зоне сопротивления',
+  'entry.triggerDefault': 'Ждать сетап',
+  'entry.confirmMixed': 'Таймфреймы {bullish}Б/{bearish}М — ждите согласования',
+  'entry.confirmBuyFib50': 'Покупка при бычьем прайс-экшене на {price} (50% Фибо)',
+  'entry.confirmSellFib50': 'Продажа при медвежьем прайс-экшене на {price} (50% Фибо)',
+  'entry.confirmConfluenceTarget': 'Конфлюэнс {confluence}% • Цель: {price}',
+  'entry.confirmTarget': 'Цель: {price}',
+  'entry.confirmRetraceLong': 'Откат в зону Фибо 38-62% с бычьей подтверждающей свечой',
+  'entry.confirmPullbackRiskReward': 'Ждите отката для лучшего соотношения риск/прибыль',
+  'entry.confirmBuyFib': 'Покупка при бычьем прайс-экшене на уровне Фибо',
+  'entry.confirmBelowSupport': 'Цена ниже поддержки, давление продаж {percent}%',
+  'entry.confirmBounceShort': 'Ждите отскока для шорта с лучшим R:R',
+  'entry.confirmBounceFib': 'Шорт на отскоке в зону Фибо 38-62% с медвежьей свечой',
+  'entry.confirmReliefRiskReward': 'Ждите отскока для лучшего соотношения риск/прибыль',
+  'entry.confirmSellFib': 'Продажа при медвежьем прайс-экшене на уровне Фибо',
+  'entry.confirmNeutral': 'Ждите пробоя вверх или вниз, подтверждённого объёмом',
+  'entry.confirmPending': 'Ожидание',
+  'entry.invalidBelowRiskReward': 'Ниже {price} — R:R {ratio}:1',
+  'entry.invalidAboveRiskReward': 'Выше {price} — R:R {ratio}:1',
+  'entry.invalidBelow': 'Ниже {price}',
+  'entry.invalidAbove': 'Выше {price}',
+  'entry.invalidTrendBreak': 'Ниже {price} (слом тренда)',
+  'entry.invalidTrendReversal': 'Выше {price} (разворот тренда)',
+  'entry.invalidNone': 'Н/Д',
+  'entry.structureInsufficient': 'Недостаточный конфлюэнс',
+  'entry.structureStrongBullish': 'СИЛЬНО БЫЧИЙ (конфлюэнс {confluence}%)',
+  'entry.structureBullish': 'БЫЧИЙ (конфлюэнс {confluence}%)',
+  'entry.structureStrongBearish': 'СИЛЬНО МЕДВЕЖИЙ (конфлюэнс {confluence}%)',
+  'entry.structureBearish': 'МЕДВЕЖИЙ (конфлюэнс {confluence}%)',
+  'entry.structureExtended': 'ПЕРЕРАСТЯНУТ',
+  'entry.structureTrending': 'ТРЕНД',
+  'entry.structureBreakdown': 'ИДЁТ ПРОБОЙ ВНИЗ',
+  'entry.structureOversold': 'ПЕРЕПРОДАН',
+  'entry.structureNeutral': 'НЕЙТРАЛЬНО',
+  'entry.structureUndefined': 'Не определено',
+  'entry.phaseWaitSetup': 'Ждать сетап',
+  'entry.phaseWaitingPullback': 'Ожидание отката',
+  'entry.phaseAccumulation': 'Накопление',
+  'entry.phaseDistribution': 'Распределение',
+  'entry.phaseWaitRetracement': 'Ждать коррекцию',
+  'entry.phaseImpulse': 'Импульс',
+  'entry.phaseImpulseDown': 'Импульс вниз',
+  'entry.phaseConsolidation': 'Консолидация',
+  'entry.phaseUnknown': 'Неизвестно',
+  'entry.liquidityBidHeavy': 'Стакан на {percent}% перевешен покупками в пределах ±2%, спред {spread}%',
+  'entry.liquidityAskHeavy': 'Стакан на {percent}% перевешен продажами в пределах ±2%, спред {spread}%',
+  'entry.liquidityBalanced': 'Стакан сбалансирован в пределах ±2%, спред {spread}%',
+  'entry.liquidityBidWall': 'стена на покупку {size} на {price} (−{distance}%)',
+  'entry.liquidityAskWall': 'стена на продажу {size} на {price} (+{distance}%)',
+  'entry.triggerAskWallAhead': 'ЖДАТЬ — Стена на продажу {size} на {price} прямо выше. Вход после её поглощения и удержания цены выше',
+  'entry.triggerBidWallAhead': 'ЖДАТЬ — Стена на покупку {size} на {price} прямо ниже. Вход после её поглощения и удержания цены ниже',
+
+  // ── Trade plan ──
+  'plan.stop': 'Стоп',
+  'plan.close': 'закрыть {percent}%',
+  'plan.blended': 'Итого',
+  'plan.estimated': 'оц.',
+  'plan.size': 'Размер: {units} {symbol} (~{notional}) при риске {risk} ({percent}% от {account})',
+  'plan.stopSwingLow': 'свинг-минимум − {buffer}× ATR',
+  'plan.stopSwingHigh': 'свинг-максимум + {buffer}× ATR',
+  'plan.stopBeyondEntry': '1.5× ATR за входом',
+  'plan.stopMinimum': 'мин. {multiple}× ATR',
+  'plan.stopCap': 'макс. {multiple}× ATR',
+  'plan.swingHigh': 'свинг-максимум',
+  'plan.swingLow': 'свинг-минимум',
+  'plan.runner': 'Остаток',
+  'plan.rMultiple': 'R-множитель',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': 'Если цена закроется ниже {price} в течение {hours}ч',
+  'scenario.closeAbove': 'Если цена закроется выше {price} в течение {hours}ч',
+  'scenario.sustainAbove': 'Если цена удержится выше {price} к {hours}-му часу',
+  'scenario.holdBelow': 'Если цена пробьёт {price} вниз и останется ниже к {hours}-му часу',
+  'scenario.range': 'Если цена останется в диапазоне {low} - {high} следующие {hours}ч',
+  'scenario.closeAboveLevel': 'Если цена закроется выше {price} ({level}) в течение {hours}ч',
+  'scenario.closeBelowLevel': 'Если цена закроется ниже {price} ({level}) в течение {hours}ч',
+  'scenario.bullInvalidated': 'Бычий сценарий отменён — структура сломана',
+  'scenario.bullBreakout': 'Бычий пробой подтверждён — сформирована новая поддержка',
+  'scenario.bearInvalidated': 'Медвежий сценарий отменён — структура восстановлена',
+  'scenario.bearBreakdown': 'Медвежий пробой подтверждён — ожидается ускорение продаж',
+  'scenario.consolidation': 'Консолидация продолжается — ждите разрешения',
+  'scenario.upsideExtension': 'Расширение вверх — пробито следующее сопротивление',
+  'scenario.downsideExtension': 'Расширение вниз — потеряна следующая поддержка',
+  'scenario.exitLongs': 'Закрыть лонги, рассмотреть шорт на ретесте',
+  'scenario.addLongs': 'Добавить лонги при успешном ретесте пробитого сопротивления',
+  'scenario.exitShorts': 'Закрыть шорты, рассмотреть лонг после подтверждения',
+  'scenario.addShorts': 'Добавить шорты при провале отскока',
+  'scenario.tradeRange': 'Торговать только от границ диапазона, ждать пробоя на объёме',
+  'scenario.takeProfitLong': 'Зафиксировать часть прибыли, подтянуть стоп под уровень пробоя',
+  'scenario.takeProfitShort': 'Зафиксировать часть прибыли, опустить стоп над уровнем пробоя',
+  'scenario.flatSqueeze': 'Вне рынка — риск шорт-сквиза, новых шортов до остывания импульса нет',
+  'scenario.flatNoBase': 'Вне рынка — новых лонгов до формирования базы нет',
+  'scenario.followBreakout': 'Следовать за пробоем вверх, стоп внутри диапазона',
+  'scenario.followBreakdown': 'Следовать за пробоем вниз, стоп внутри диапазона',
+  'scenario.high24h': 'макс. 24ч',
+  'scenario.low24h': 'мин. 24ч',
+  'scenario.upside': 'ВВЕРХ: Если цена вернёт {price} на объёме',
+  'scenario.bearsTrapped': 'Медведи в ловушке, импульс может смениться',
+  'scenario.considerLong': 'Рассмотрите переворот в лонг или закрытие шортов',
+  'scenario.downside': 'ВНИЗ: Если цена потеряет {price} на объёме',
+  'scenario.bullsTrapped': 'Быки в ловушке, идёт пробой вниз',
+  'scenario.considerShort': 'Рассмотрите переворот в шорт или закрытие лонгов',
+  'scenario.breakout': 'ПРОБОЙ: Следите за {high} (вверх) / {low} (вниз)',
+  'scenario.firstToBreak': 'Сторона, пробитая первой на объёме, задаёт направление',
+  'scenario.reactToBreakout': 'Реагируйте на пробой, не предугадывайте',
+  'probability.sigma': 'σ1h {sigma}% ({source})',
+  'probability.realised': 'реализованная',
+  'probability.fromRange': 'по диапазону 24ч',
+  'probability.atrToEdge': '{distance} ATR до ближайшей границы',
+  'probability.atrAway': 'в {distance} ATR',
+  'probability.modelHistory': 'модель {model}% + история {history}% ({windows} окон)',
+  'probability.volatilityModel': 'модель волатильности',
+};
@@ -0,0 +1,453 @@
+// Chinese (Simplified) report messages — same keys and placeholders as en.ts
+import type { ReportCatalog } from '../report-i18n';
+
+export const zh: ReportCatalog = {
+  // ── Report frame ──
+  'report.title': '{symbol} 分析',
+  'report.tldr': '摘要',
+  'report.range24h': '24小时',
+  'report.volumeSpike': '成交量激增：高于{baseline} +{percent}%（{magnitude}）[现货，来自聚合器]',
+  'report.volume': '成交量',
+  'report.volumeAbove': '高于{baseline} +{percent}%',
+  'report.volumeBelow': '低于{baseline} {percent}%',
+  'report.volumeNear': '接近{baseline}',
+  'report.avg24h': '24小时均值',
+  'report.avgSameHour': '同时段均值',
+  'report.avgWindow': '{window}均值',
+  'report.futuresOI': '期货持仓量',
+  'report.oiRising': '上升（多头建仓）',
+  'report.oiDeclining': '下降（空头平仓）',
+  'report.oiStable': '稳定',
+  'report.volumeProfile': '成交量分布（{hours}小时）：POC {poc} • 价值区 {low}–{high} • 价格{position}',
+  'report.aboveValue': '高于价值区',
+  'report.belowValue': '低于价值区',
+  'report.inValue': '位于价值区内',
+  'report.verdict': '结论',
+  'report.confidence': '置信度',
+  'report.calibratedFrom': '由 {percent}% 校准',
+  'report.marketPulse': '市场脉搏',
+  'report.fearGreed': '恐惧与贪婪',
+  'report.whaleActivity': '巨鲸活动',
+  'report.buy': '买',
+  'report.sell': '卖',
+  'report.net': '净额',
+  'report.exchangeFlow': '交易所资金流',
+  'report.institutional': '机构',
+  'report.noEtf': '不适用（该资产无 ETF）',
+  'report.etfOnly': 'ETF 仅适用于 BTC/ETH',
+  'report.crossAsset': '跨资产',
+  'report.regimeUnavailable': '市场状态不可用',
+  'report.versus': '对比 {benchmark}',
+  'report.notScored': '未计分（估算）：{factors}',
+  'report.macroCatalyst': '宏观催化剂',
+  'report.multiTimeframe': '多周期',
+  'report.priceEstimates': '使用基于价格的估算（图表 API 不可用）',
+  'report.alignedBullish': '{count}/5 看涨',
+  'report.alignedBearish': '{count}/5 看跌',
+  'report.alignmentMixed': '分歧（{bullish}涨/{bearish}跌）',
+  'report.confluence': '共振',
+  'report.confluenceStrong': '强',
+  'report.confluenceModerate': '中等',
+  'report.confluenceWeak': '弱',
+  'report.estimated': '估算',
+  'report.precisionEntry': '15分钟精准入场',
+  'report.executeNow': '立即执行',
+  'report.waitPullback': '等待回调',
+  'report.waitBreakout': '等待突破',
+  'report.noTrade': '不交易',
+  'report.entryZone': '入场区间',
+  'report.trigger': '触发条件',
+  'report.confirm': '确认',
+  'report.invalid': '失效',
+  'report.liquidity': '流动性',
+  'report.derivatives': '衍生品',
+  'report.flipLong': '若失效：在 {price} 上方转为做多',
+  'report.flipShort': '若失效：在 {price} 下方转为做空',
+  'report.success': '成功率',
+  'report.successFavorable': '有利 — 共振良好，注意风控',
+  'report.successModerate': '中等 — 部分确认，保持灵活',
+  'report.successUncertain': '不确定 — 信号混杂，降低仓位',
+  'report.successWeak': '偏弱 — 信心不足，考虑观望',
+  'report.keyInsights': '关键洞察',
+  'report.scenarios': '情景（双向）',
+  'report.livePrice': '实时价格',
+  'report.cachedPrice': '缓存价格',
+  'report.realCharts': '真实图表',
+  'report.derivedCharts': '推算',
+  'report.liveOnChain': '实时链上',
+  'report.estimatedInput': '{count} 项估算输入',
+  'report.estimatedInputs': '{count} 项估算输入',
+  'report.excluded': '已排除',
+
+  // ── TL;DR and verdict ──
+  'bias.favoringBullish': '偏向看涨',
+  'bias.leaningBullish': '略偏看涨',
+  'bias.slightBullish': '轻微看涨倾向',
+  'bias.favoringBearish': '偏向看跌',
+  'bias.leaningBearish': '略偏看跌',
+  'bias.slightBearish': '轻微看跌倾向',
+  'bias.neutral': '中性',
+  'tldr.confluenceDecent': '共振尚可',
+  'tldr.confluenceMixed': '共振分歧',
+  'tldr.confluenceWeak': '共振较弱',
+  'tldr.zoneExtended': '延伸区',
+  'tldr.zoneDiscount': '折价区',
+  'tldr.zoneMidRange': '区间中部',
+  'tldr.buyZone': '潜在买入区',
+  'tldr.sellZone': '潜在卖出区',
+  'tldr.rangeBound': '区间震荡',
+  'tldr.awaitPullback': '等待回调',
+  'tldr.awaitBreakout': '等待突破',
+  'tldr.noEntry': '无明确入场点',
+
+  // ── Range position ──
+  'context.nearHigh': '接近24小时高点（距峰值 {percent}%）',
+  'context.upperRange': '区间上部（24小时前30%）',
+  'context.nearLow': '接近24小时低点（高于底部 {percent}%）',
+  'context.lowerRange': '区间下部（24小时后30%）',
+  'context.midRange': '区间中部整理',
+
+  // ── Fear & Greed ──
+  'fearGreed.extremeFear': '极度恐惧',
+  'fearGreed.fear': '恐惧',
+  'fearGreed.neutral': '中性',
+  'fearGreed.greed': '贪婪',
+  'fearGreed.highGreed': '高度贪婪',
+  'fearGreed.extremeGreed': '极度贪婪',
+
+  // ── Enum values printed in the report ──
+  'value.BULLISH': '看涨',
+  'value.BEARISH': '看跌',
+  'value.NEUTRAL': '中性',
+  'value.STRONGLY_BULLISH': '强烈看涨',
+  'value.CAUTIOUSLY_BULLISH': '谨慎看涨',
+  'value.CAUTIOUS': '谨慎',
+  'value.INFLOW': '流入',
+  'value.OUTFLOW': '流出',
+  'value.NET_BUYING': '净买入',
+  'value.NET_SELLING': '净卖出',
+  'value.ACCUMULATING': '吸筹',
+  'value.DISTRIBUTING': '派发',
+  'value.BALANCED': '均衡',
+  'value.EXTREME': '极高',
+  'value.HIGH': '高',
+  'value.MEDIUM': '中',
+  'value.MODERATE': '中等',
+  'value.LOW': '低',
+  'value.NORMAL': '正常',
+  'direction.bullish': '看涨',
+  'direction.bearish': '看跌',
+  'direction.neutral': '中性',
+
+  // ── Market regime ──
+  'regime.TRENDING_UP': '上升趋势',
+  'regime.TRENDING_DOWN': '下降趋势',
+  'regime.RANGING': '区间震荡',
+  'regime.HIGH_VOL_CRASH': '高波动暴跌',
+  'regime.ALT_SEASON': '山寨季',
+  'regime.detailCrash': 'BTC 24小时 {change}',
+  'regime.detailCrashVolatility': 'BTC 24小时 {change}，波动率为30日常态的 {ratio}×',
+  'regime.detailAltSeason': '{count} 个山寨币中 {percent}% 在7日内跑赢 BTC',
+  'regime.detailTrend': 'BTC 72小时 {change}，效率 {efficiency}',
+
+  // ── Derivatives ──
+  'derivatives.funding': '资金费率 {rate}/{hours}小时（年化 {apr}）',
+  'derivatives.crowdedLong': '多头拥挤',
+  'derivatives.crowdedShort': '空头拥挤',
+  'derivatives.openInterest': '持仓量 {value}（24小时 {change}）',
+  'derivatives.openInterestNoChange': '持仓量 {value}',
+  'derivatives.liquidations': '1小时爆仓：多头 {longs} / 空头 {shorts}',
+  'oiRegime.NEW_LONGS': '新开多',
+  'oiRegime.SHORT_COVERING': '空头回补',
+  'oiRegime.NEW_SHORTS': '新开空',
+  'oiRegime.LONG_UNWIND': '多头平仓',
+
+  // ── Scored factors ──
+  'factor.price-direction': '价格方向',
+  'factor.price-position': '区间位置',
+  'factor.fear-greed': '恐惧与贪婪',
+  'factor.institutional': '机构资金流',
+  'factor.on-chain': '交易所净流量',
+  'factor.volume': '成交量',
+  'factor.indicators': '指标',
+  'factor.patterns': '形态',
+  'factor.cross-asset': '跨资产',
+  'factor.derivatives': '衍生品',
+
+  // ── Confidence waterfall ──
+  'confidence.confluence': '自上而下共振 × {multiplier}',
+  'confidence.confluenceDetail': '{percent}% 一致，{branch} — {trends}',
+  'confidence.branchNoDirection': '无交易方向',
+  'confidence.branchAgree': '基本面一致',
+  'confidence.branchConflict': '基本面冲突',
+  'confidence.branchNeutral': '基本面中性',
+  'confidence.fundamentals': '基本面得分 × 0.25',
+  'confidence.fundamentalsDetail': '{bias}，{confidence}%（看涨 {bull} 分 vs 看跌 {bear} 分）',
+  'confidence.heldTo': '限制在 {low}–{high}%',
+  'confidence.bandDetail': '置信区间：{branch}',
+  'confidence.macro': '宏观事件扣减',
+  'confidence.macroDetail': '{event} 将在 2 天内发生',
+  'confidence.clampDetail': '技术置信度限制',
+  'confidence.neuralBlend': '神经网络融合（25%）',
+  'confidence.neuralBlendDetail': '模型判断 {bias}，{confidence}%',
+  'confidence.neuralAgrees': '神经网络一致',
+  'confidence.neuralDisagrees': '神经网络不一致',
+  'confidence.neuralAgreementDetail': '学习器一致度 {percent}%',
+  'confidence.finalClamp': '取整并限制在 {low}–{high}%',
+  'confidence.finalClampDetail': '最终置信度限制',
+  'confidence.calibrated': '已校准（{method}）',
+  'confidence.calibratedDetail': '{scope}：{count} 个已评分信号 — {raw}% 的信号实际正确率为 {calibrated}%',
+  'confidence.allSymbols': '所有币种',
+
+  // ── Key insights ──
+  'insight.aligned': '技术面与基本面一致',
+  'insight.technicalLeads': '技术面主导（基本面{direction}，存在分歧）',
+  'insight.technicalFundamentalNeutral': '技术信号（基本面中性）',
+  'insight.technicalSignal': '技术信号',
+  'insight.verdictBullish': '看涨 — {note}',
+  'insight.verdictBearish': '看跌 — {note}',
+  'insight.verdictNeutral': '中性 — 无明确技术方向',
+  'insight.exchangeInflowPressure': '交易所流入（{magnitude}）→ 派发压力',
+  'insight.exchangeOutflowSignal': '交易所流出（{magnitude}）→ 吸筹信号',
+  'insight.whales': '巨鲸：{flow}',
+  'insight.whalesBalanced': '巨鲸：活动均衡',
+  'insight.longTermHolders': '长期持有者 +{percent}%（7日）',
+  'insight.etfFlow': 'ETF 资金流：{flow}（{sentiment}）',
+  'insight.strongUptrend': '强劲上涨趋势（{change}）',
+  'insight.bullishMomentum': '看涨动能（{change}）',
+  'insight.mildBullish': '温和看涨（{change}）',
+  'insight.strongDowntrend': '强劲下跌趋势（{change}）',
+  'insight.bearishMomentum': '看跌动能（{change}）',
+  'insight.mildBearish': '温和看跌（{change}）',
+  'insight.sideways': '横盘（{change}）',
+  'insight.deepDiscount': '深度折价 — 最佳买入区',
+  'insight.premiumZone': '溢价区 — 注意风险',
+  'insight.extremeFear': '极度恐惧 — 逆向买入',
+  'insight.extremeGreed': '极度贪婪 — 逆向卖出',
+  'insight.institutionsBuying': '机构在买入',
+  'insight.institutionsSelling': '机构在卖出',
+  'insight.exchangeOutflows': '交易所流出 — 吸筹',
+  'insight.exchangeInflows': '交易所流入 — 派发',
+  'insight.volumeConfirmsBulls': '放量确认多头',
+  'insight.volumeConfirmsBears': '放量确认空头',
+  'insight.indicatorsBullish': '指标看涨（{signals}）',
+  'insight.indicatorsBearish': '指标看跌（{signals}）',
+  'insight.bollingerSqueeze': '布林带收窄 — 可能扩张',
+  'insight.factorsBullish': '看涨 — {bullish} 个看涨因素对 {bearish} 个看跌因素',
+  'insight.factorsBearish': '看跌 — {bearish} 个看跌因素对 {bullish} 个看涨因素',
+  'insight.leanBullish': '偏向看涨 — 中等信号',
+  'insight.leanBearish': '偏向看跌 — 中等信号',
+  'insight.noEdge': '中性 — 无明显优势',
+  'insight.crashRegime': '高波动暴跌状态 — {detail}，避险',
+  'insight.btcHeadwind': 'BTC 结构看跌 — {symbol} 紧随其后（ρ {correlation}，β {beta}），做多逆势',
+  'insight.btcTailwind': 'BTC 结构看涨 — {symbol} 顺风（ρ {correlation}，β {beta}）',
+  'insight.altSeason': '山寨季 — {detail}',
+  'insight.fundingCrowdedLong': '资金费率每{hours}小时 {rate}，处于极端 — 多头拥挤，存在向下挤压风险',
+  'insight.fundingCrowdedShort': '资金费率每{hours}小时 {rate}，处于极端 — 空头拥挤，存在向上轧空风险',
+  'insight.oiNewLongs': '{hours}小时内持仓量 {oi}，价格 {price} — 新多头推动行情',
+  'insight.oiShortCovering': '{hours}小时内价格 {price}，持仓量 {oi} — 空头回补，而非新买盘',
+  'insight.oiNewShorts': '{hours}小时内持仓量 {oi}，价格 {price} — 新空头施压',
+  'insight.oiLongUnwind': '{hours}小时内价格 {price}，持仓量 {oi} — 多头平仓，而非新卖盘',
+  'insight.longsFlushed': '{price} 附近 {amount} 多头被爆仓 — 杠杆出清',
+  'insight.shortsSqueezed': '{price} 附近 {amount} 空头被爆仓 — 轧空',
+  'insight.smartMoneyAccumulating': '散户恐慌时聪明钱在吸筹 — 历史上偏多',
+  'insight.institutionsDistributing': '机构向追涨散户派发 — 建议谨慎',
+  'insight.alignedBullish': '所有参与者一致看涨 — 信心强',
+  'insight.alignedBearish': '所有参与者一致看跌 — 信心强',
+
+  // ── Patterns ──
+  'pattern.BULLISH_ENGULFING': '看涨吞没',
+  'pattern.BEARISH_ENGULFING': '看跌吞没',
+  'pattern.BULLISH_PIN_BAR': '看涨Pin Bar',
+  'pattern.BEARISH_PIN_BAR': '看跌Pin Bar',
+  'pattern.INSIDE_BAR': '内包线',
+  'pattern.MORNING_STAR': '早晨之星',
+  'pattern.EVENING_STAR': '黄昏之星',
+  'pattern.DOUBLE_TOP': '双顶',
+  'pattern.DOUBLE_BOTTOM': '双底',
+  'pattern.HEAD_AND_SHOULDERS': '头肩顶',
+  'pattern.INVERSE_HEAD_AND_SHOULDERS': '头肩底',
+  'pattern.ASCENDING_TRIANGLE': '上升三角形',
+  'pattern.DESCENDING_TRIANGLE': '下降三角形',
+  'pattern.SYMMETRICAL_TRIANGLE': '对称三角形',
+  'pattern.BULL_FLAG': '牛旗',
+  'pattern.BEAR_FLAG': '熊旗',
+  'pattern.breakoutPending': '待突破',
+  'pattern.bullishContinuation': '看涨延续',
+  'pattern.bearishContinuation': '看跌延续',
+  'pattern.bullishReversal': '看涨反转',
+  'pattern.bearishReversal': '看跌反转',
+  'pattern.confirmed': '已确认',
+
+  // ── Data provenance ──
+  'provenance.live': '实时 · {source}',
+  'provenance.cached': '缓存 · {source}',
+  'provenance.cachedAge': '缓存 {age} · {source}',
+  'provenance.estimated': '根据{basis}估算',
+  'basis.priceRange': '24小时高/低/涨跌',
+  'basis.priceChange': '24小时价格变化',
+  'basis.neutralFearGreed': '未提供指数 — 假定中性 50',
+  'basis.volumeEstimate': '24小时成交量 × 0.85',
+  'basis.chainParameters': '典型链参数',
+  'basis.chainThroughput': '链吞吐量',
+
+  // ── Macro catalysts ──
+  'macro.eventIn': '{event}（{countdown}）',
+  'macro.countdownToday': '今天',
+  'macro.countdownTomorrow': '明天',
+  'macro.countdownDays': '{days}天后',
+  'macro.confidenceReduced': '因事件临近，置信度已下调',
+  'macro.today': '今天',
+  'macro.tomorrow': '明天',
+  'macro.inDays': '{days} 天后',
+  'macro.joblessClaims': '每周初请失业金人数',
+  'macro.watchReaction': '关注市场反应',
+  'macro.quarterlyExpiry': '季度期权到期（重要）',
+  'macro.monthlyExpiry': '月度期权到期',
+  'macro.quarterlyExpiryNote': '数十亿美元期权到期 — 预计出现最大痛点波动',
+  'macro.monthlyExpiryNote': '大额仓位展期',
+  'macro.tradePolicy': '关税/贸易政策 + 地缘政治',
+  'macro.tradePolicyNote': '贸易摩擦、监管消息可能引发剧烈波动',
+  'macro.fomc': 'FOMC 利率决议',
+  'macro.fomcNote': 'CME FedWatch：约90%预期维持不变。意外降息 = 极度利好，加息 = 暴跌风险',
+  'macro.cpi': '美国 CPI 通胀数据',
+  'macro.cpiNote': '市场预期：同比约2.8%。低于预期 = 利好意外（降息希望），高于预期 = 鹰派反应',
+
+  // ── Precision entry ──
+  'entry.zoneRange': '{low} – {high}',
+  'entry.zoneRangeLabel': '区间：{low} – {high}',
+  'entry.zoneWait': '等待：{low} – {high}',
+  'entry.zonePullback': '等待回调至 {low} – {high}',
+  'entry.zoneReliefRally': '等待反弹至 {low} – {high}',
+  'entry.zoneDiscount': '折价：{price} 入场',
+  'entry.zonePremium': '溢价：{price} 入场',
+  'entry.zoneBreakdown': '跌破：{price} 入场',
+  'entry.zoneEntry': '入场：{price}',
+  'entry.triggerNoTrade': '不交易 — 共振 {confluence}%（需 45% 以上）',
+  'entry.triggerNeutral': '不交易 — 中性偏向，等待方向',
+  'entry.triggerStrongUptrend': '等待 — 强劲上涨（+{change}%），等待回调至关键支撑',
+  'entry.triggerBuyDiscount': '买入 — 价格处于折价区且看涨共振',
+  'entry.triggerExtended': '等待 — 已延伸，不要追高。等待回调至支撑',
+  'entry.triggerBuyMomentum': '买入 — 动能顺势',
+  'entry.triggerRiskRewardLong': '等待 — 盈亏比不佳，等待更好入场点',
+  'entry.triggerSupport': '等待 — 支撑区有更好入场点',
+  'entry.triggerStrongDowntrend': '等待 — 强劲下跌（{change}%），等待反弹至关键阻力',
+  'entry.triggerSellPremium': '卖出 — 价格处于溢价区且看跌共振',
+  'entry.triggerSellBreakdown': '卖出 — 跌破确认，顺势做空',
+  'entry.triggerRiskRewardBreakdown': '等待 — 跌破后盈亏比不佳',
+  'entry.triggerOversold': '等待 — 超卖，等待反弹后做空',
+  'entry.triggerSellMomentum': '卖出 — 动能顺势',
+  'entry.triggerRiskRewardShort': '等待 — 盈亏比不佳，等待反弹',
+  'entry.triggerResistance': '等待 — 阻力区有更好入场点',
+  'entry.triggerDefault': '等待形态',
+  'entry.confirmMixed': '周期 {bullish}涨/{bearish}跌 — 等待一致',
+  'entry.confirmBuyFib50': '在 {price}（50% 斐波那契）出现看涨价格行为时买入',
+  'entry.confirmSellFib50': '在 {price}（50% 斐波那契）出现看跌价格行为时卖出',
+  'entry.confirmConfluenceTarget': '共振 {confluence}% • 目标：{price}',
+  'entry.confirmTarget': '目标：{price}',
+  'entry.confirmRetraceLong': '回撤至斐波那契 38-62% 区域并出现看涨确认K线',
+  'entry.confirmPullbackRiskReward': '等待回调以改善风险回报',
+  'entry.confirmBuyFib': '在斐波那契位出现看涨价格行为时买入',
+  'entry.confirmBelowSupport': '价格跌破支撑，{percent}% 抛压',
+  'entry.confirmBounceShort': '等待反弹，以更好的盈亏比做空',
+  'entry.confirmBounceFib': '反弹至斐波那契 38-62% 区域并出现看跌K线时做空',
+  'entry.confirmReliefRiskReward': '等待反弹以改善风险回报',
+  'entry.confirmSellFib': '在斐波那契位出现看跌价格行为时卖出',
+  'entry.confirmNeutral': '等待放量确认的向上或向下突破',
+  'entry.confirmPending': '待定',
+  'entry.invalidBelowRiskReward': '跌破 {price} — 盈亏比 {ratio}:1',
+  'entry.invalidAboveRiskReward': '升破 {price} — 盈亏比 {ratio}:1',
+  'entry.invalidBelow': '跌破 {price}',
+  'entry.invalidAbove': '升破 {price}',
+  'entry.invalidTrendBreak': '跌破 {price}（趋势破坏）',
+  'entry.invalidTrendReversal': '升破 {price}（趋势反转）',
+  'entry.invalidNone': '不适用',
+  'entry.structureInsufficient': '共振不足',
+  'entry.structureStrongBullish': '强烈看涨（共振 {confluence}%）',
+  'entry.structureBullish': '看涨（共振 {confluence}%）',
+  'entry.structureStrongBearish': '强烈看跌（共振 {confluence}%）',
+  'entry.structureBearish': '看跌（共振 {confluence}%）',
+  'entry.structureExtended': '已延伸',
+  'entry.structureTrending': '趋势中',
+  'entry.structureBreakdown': '跌破进行中',
+  'entry.structureOversold': '超卖',
+  'entry.structureNeutral': '中性',
+  'entry.structureUndefined': '未定义',
+  'entry.phaseWaitSetup': '等待形态',
+  'entry.phaseWaitingPullback': '等待回调',
+  'entry.phaseAccumulation': '吸筹',
+  'entry.phaseDistribution': '派发',
+  'entry.phaseWaitRetracement': '等待回撤',
+  'entry.phaseImpulse': '推动',
+  'entry.phaseImpulseDown': '下跌推动',
+  'entry.phaseConsolidation': '整理',
+  'entry.phaseUnknown': '未知',
+  'entry.liquidityBidHeavy': '±2% 内买盘占优 {percent}%，价差 {spread}%',
+  'entry.liquidityAskHeavy': '±2% 内卖盘占优 {percent}%，价差 {spread}%',
+  'entry.liquidityBalanced': '±2% 内买卖均衡，价差 {spread}%',
+  'entry.liquidityBidWall': '买墙 {size} 位于 {price}（−{distance}%）',
+  'entry.liquidityAskWall': '卖墙 {size} 位于 {price}（+{distance}%）',
+  'entry.triggerAskWallAhead': '等待 — {price} 上方紧邻 {size} 卖墙。待其被吃掉且价格站稳上方后入场',
+  'entry.triggerBidWallAhead': '等待 — {price} 下方紧邻 {size} 买墙。待其被吃掉且价格守在下方后入场',
+
+  // ── Trade plan ──
+  'plan.stop': '止损',
+  'plan.close': '平仓 {percent}%',
+  'plan.blended': '综合',
+  'plan.estimated': '估',
+  'plan.size': '仓位：{units} {symbol}（约 {notional}），风险 {risk}（{account} 的 {percent}%）',
+  'plan.stopSwingLow': '波段低点 − {buffer}× ATR',
+  'plan.stopSwingHigh': '波段高点 + {buffer}× ATR',
+  'plan.stopBeyondEntry': '入场外 1.5× ATR',
+  'plan.stopMinimum': '最少 {multiple}× ATR',
+  'plan.stopCap': '上限 {multiple}× ATR',
+  'plan.swingHigh': '波段高点',
+  'plan.swingLow': '波段低点',
+  'plan.runner': '留仓',
+  'plan.rMultiple': 'R 倍数',
+
+  // ── Scenarios ──
+  'scenario.closeBelow': '若价格在 {hours} 小时内收于 {price} 下方',
+  'scenario.closeAbove': '若价格在 {hours} 小时内收于 {price} 上方',
+  'scenario.sustainAbove': '若价格在第 {hours} 小时仍维持在 {price} 上方',
+  'scenario.holdBelow': '若价格跌破 {price} 并在第 {hours} 小时仍位于其下',
+  'scenario.range': '若价格在未来 {hours} 小时保持在 {low} - {high} 之间',
+  'scenario.closeAboveLevel': '若价格在 {hours} 小时内收于 {price}（{level}）上方',
+  'scenario.closeBelowLevel': '若价格在 {hours} 小时内收于 {price}（{level}）下方',
+  'scenario.bullInvalidated': '看涨情景失效 — 结构被破坏',
+  'scenario.bullBreakout': '看涨突破确认 — 形成新支撑',
+  'scenario.bearInvalidated': '看跌情景失效 — 结构收复',
+  'scenario.bearBreakdown': '看跌跌破确认 — 预计加速抛售',
+  'scenario.consolidation': '整理持续 — 等待方向选择',
+  'scenario.upsideExtension': '上行延伸 — 突破下一阻力',
+  'scenario.downsideExtension': '下行延伸 — 失守下一支撑',
+  'scenario.exitLongs': '平掉多单，回踩时考虑做空',
+  'scenario.addLongs': '突破阻力回踩成功时加仓多单',
+  'scenario.exitShorts': '平掉空单，确认后考虑做多',
+  'scenario.addShorts': '反弹失败时加仓空单',
+  'scenario.tradeRange': '只在区间两端交易，等待放量突破',
+  'scenario.takeProfitLong': '部分止盈，将止损上移至突破位下方',
+  'scenario.takeProfitShort': '部分止盈，将止损下移至跌破位上方',
+  'scenario.flatSqueeze': '保持空仓 — 有轧空风险，动能减弱前不开新空单',
+  'scenario.flatNoBase': '保持空仓 — 底部形成前不开新多单',
+  'scenario.followBreakout': '顺势跟随突破，止损设在区间内',
+  'scenario.followBreakdown': '顺势跟随跌破，止损设在区间内',
+  'scenario.high24h': '24小时高点',
+  'scenario.low24h': '24小时低点',
+  'scenario.upside': '上行情景：若价格放量收复 {price}',
+  'scenario.bearsTrapped': '空头被套，动能可能转向',
+  'scenario.considerLong': '考虑转为做多或平掉空单',
+  'scenario.downside': '下行情景：若价格放量失守 {price}',
+  'scenario.bullsTrapped': '多头被套，跌破正在进行',
+  'scenario.considerShort': '考虑转为做空或平掉多单',
+  'scenario.breakout': '突破情景：关注 {high}（上）/ {low}（下）',
+  'scenario.firstToBreak': '率先放量突破的一侧决定方向',
+  'scenario.reactToBreakout': '对突破作出反应，而非预测',
+  'probability.sigma': 'σ1h {sigma}%（{source}）',
+  'probability.realised': '已实现',
+  'probability.fromRange': '来自24小时区间',
+  'probability.atrToEdge': '距最近边界 {distance} ATR',
+  'probability.atrAway': '相距 {distance} ATR',
+  'probability.modelHistory': '模型 {model}% + 历史 {history}%（{windows} 个窗口）',
+  'probability.volatilityModel': '波动率模型',
+};
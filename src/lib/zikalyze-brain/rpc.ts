@@ -0,0 +1,140 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛰️ BRAIN RPC — Typed calls into a brain running on another thread
+// ═══════════════════════════════════════════════════════════════════════════════
+// The brain worker and the main-thread fallback both run a BrainHost. Each call
+// carries a BrainStoreSync — the slice of the app's stores the call reads — and
+// the host rebuilds an isolated context from it, so the live stores are only
+// ever written on the main thread (the client writes returned neural state
+// back). Price history is large and shared by every call, so the host keeps a
+// mirror and the client only sends records that changed since the last call.
+// Pure TypeScript — no DOM, no IndexedDB.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { runClientSideAnalysis } from './index';
+import {
+  createAnalysisContext,
+  createMemoryNeuralStateStore,
+  createMemoryVolumeHistoryStore,
+  eventCatalystCalendar,
+  fixedClock,
+  silentLogger,
+  AnalysisContext,
+  PriceHistoryStore,
+} from './context';
+import {
+  runScreenerBatch,
+  ScreenerCandidate,
+  ScreenerFailure,
+  ScreenerOptions,
+  ScreenerRow,
+} from './screener';
+import {
+  AnalysisInput,
+  AnalysisProgress,
+  AnalysisResult,
+  CatalystEvent,
+  PriceHistoryRecord,
+  VolumeHistoryRecord,
+} from './types';
+import type { NeuralEnsembleState } from './neural-ensemble';
+import { loadReportLocale } from './report-i18n';
+
+// Plain-data copy of what a call reads — structured-cloneable for postMessage
+export interface BrainStoreSync {
+  now: number;
+  catalystEvents: CatalystEvent[];
+  neuralStates: Record<string, NeuralEnsembleState>; // Keyed as the brain keys them (input.crypto)
+  volumeHistory: VolumeHistoryRecord[];
+  priceHistory: PriceHistoryRecord[];                // Changed records only — merged into the host's mirror
+}
+
+export type ScreenerProgressEvent =
+  | { row: ScreenerRow; done: number; total: number }
+  | { failure: ScreenerFailure; done: number; total: number };
+
+// method → params, result and progress payload
+export interface BrainMethods {
+  analyze: {
+    params: { input: AnalysisInput; sync: BrainStoreSync };
+    result: { result: AnalysisResult; neuralState: NeuralEnsembleState | null };
+    progress: AnalysisProgress;
+  };
+  screen: {
+    params: { candidates: ScreenerCandidate[]; options: ScreenerOptions; sync: BrainStoreSync };
+    result: { rows: ScreenerRow[]; failures: ScreenerFailure[] };
+    progress: ScreenerProgressEvent;
+  };
+}
+
+export type BrainMethod = keyof BrainMethods;
+export type BrainParams<M extends BrainMethod> = BrainMethods[M]['params'];
+export type BrainResult<M extends BrainMethod> = BrainMethods[M]['result'];
+export type BrainProgress<M extends BrainMethod> = BrainMethods[M]['progress'];
+
+export type BrainRequest =
+  | { [M in BrainMethod]: { type: 'call'; id: number; method: M; params: BrainParams<M> } }[BrainMethod]
+  | { type: 'cancel'; id: number };
+
+export type BrainResponse =
+  | { type: 'progress'; id: number; progress: BrainProgress<BrainMethod> }
+  | { type: 'result'; id: number; result: BrainResult<BrainMethod> }
+  | { type: 'error'; id: number; error: string; aborted: boolean };
+
+export interface BrainCallHandlers<M extends BrainMethod> {
+  signal?: AbortSignal;
+  onProgress?: (progress: BrainProgress<M>) => void;
+}
+
+export interface BrainHost {
+  call<M extends BrainMethod>(method: M, params: BrainParams<M>, handlers?: BrainCallHandlers<M>): Promise<BrainResult<M>>;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export function createBrainHost(): BrainHost {
+  const priceHistory = new Map<string, PriceHistoryRecord>();
+  const priceStore: PriceHistoryStore = {
+    get: (symbol: string) => priceHistory.get(symbol.toUpperCase()) || null,
+    symbols: () => [...priceHistory.keys()],
+  };
+
+  const contextFor = (sync: BrainStoreSync): AnalysisContext => {
+    sync.priceHistory.forEach(record => priceHistory.set(record.symbol.toUpperCase(), record));
+    const neuralState = createMemoryNeuralStateStore();
+    // Copies — on the main thread these are the live objects
+    Object.entries(sync.neuralStates).forEach(([symbol, state]) => neuralState.set(symbol, structuredClone(state)));
+    return createAnalysisContext({
+      clock: fixedClock(sync.now),
+      catalysts: eventCatalystCalendar(() => sync.catalystEvents),
+      neuralState,
+      volumeHistory: createMemoryVolumeHistoryStore(sync.volumeHistory),
+      priceHistory: priceStore,
+      logger: silentLogger,
+    });
+  };
+
+  const methods: { [M in BrainMethod]: (params: BrainParams<M>, handlers: BrainCallHandlers<M>) => Promise<BrainResult<M>> } = {
+    analyze: async ({ input, sync }, { onProgress }) => {
+      await loadReportLocale(input.language);
+      const ctx = contextFor(sync);
+      const result = runClientSideAnalysis(input, ctx, onProgress);
+      return { result, neuralState: ctx.neuralState.get(input.crypto) };
+    },
+    screen: async ({ candidates, options, sync }, { signal, onProgress }) => {
+      await loadReportLocale(options.language);
+      return runScreenerBatch(candidates, contextFor(sync), options, {
+        signal,
+        onRow: (row, done, total) => onProgress?.({ row, done, total }),
+        onFailure: (failure, done, total) => onProgress?.({ failure, done, total }),
+      });
+    },
+  };
+
+  return {
+    call: async (method, params, handlers = {}) => {
+      if (handlers.signal?.aborted) throw new DOMException('Brain call aborted', 'AbortError');
+      return methods[method](params, handlers);
+    },
+  };
+}
@@ -0,0 +1,215 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎲 SCENARIO PROBABILITY — How likely each if-then condition is, from data
+// ═══════════════════════════════════════════════════════════════════════════════
+// A driftless random walk scaled by the asset's own 1h volatility gives the
+// model probability of reaching, holding beyond, or staying between levels
+// within a horizon. When archived candles cover enough history, the same moves
+// are counted over every past window and blended in. Conditions are judged on
+// hourly closes, so the continuous-walk barriers get the Broadie–Glasserman
+// shift for discrete monitoring.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { ScenarioCandle, ScenarioKind, ScenarioProbabilityBasis } from './types';
+import { englishReport, ReportTranslator } from './report-i18n';
+
+export const DEFAULT_SCENARIO_HORIZON_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+// Broadie–Glasserman constant: ζ(1/2)/√(2π)
+const DISCRETE_MONITORING_SHIFT = 0.5826;
+// Returns used for realised volatility (7 days of 1h bars)
+const VOLATILITY_LOOKBACK = 168;
+const MIN_VOLATILITY_RETURNS = 24;
+// History needs this many non-overlapping horizons before it is blended in,
+// and counts as much as the model once it has HISTORY_PRIOR of them
+const MIN_EFFECTIVE_WINDOWS = 5;
+const HISTORY_PRIOR = 10;
+
+export interface ScenarioVolatility {
+  sigmaHourly: number; // Log-return standard deviation per hour
+  source: ScenarioProbabilityBasis['volatilitySource'];
+  barHours: number;    // Spacing of the candles it was measured on
+}
+
+export interface ScenarioSpec {
+  kind: ScenarioKind;
+  price: number;
+  level: number;          // CLOSE_BEYOND / HOLD_BEYOND
+  direction?: 'ABOVE' | 'BELOW';
+  rangeLow?: number;      // RANGE
+  rangeHigh?: number;
+  horizonHours: number;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function barSpacingHours(candles: ScenarioCandle[]): number {
+  const gaps = candles.slice(1).map((c, i) => c.time - candles[i].time).filter(g => g > 0).sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] / HOUR_MS : 1;
+}
+
+/**
+ * 1h volatility — realised from candle closes when there are enough, otherwise
+ * the Parkinson estimate from the 24h high/low.
+ */
+export function estimateScenarioVolatility(
+  candles: ScenarioCandle[] | undefined,
+  high24h: number,
+  low24h: number
+): ScenarioVolatility {
+  const sorted = (candles ?? []).filter(c => c.close > 0).sort((a, b) => a.time - b.time);
+  if (sorted.length > MIN_VOLATILITY_RETURNS) {
+    const barHours = barSpacingHours(sorted);
+    const recent = sorted.slice(-Math.ceil(VOLATILITY_LOOKBACK / barHours) - 1);
+    const returns = recent.slice(1).map((c, i) => Math.log(c.close / recent[i].close));
+    if (returns.length >= MIN_VOLATILITY_RETURNS) {
+      const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+      const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1);
+      const sigma = Math.sqrt(variance / barHours);
+      if (sigma > 0) return { sigmaHourly: sigma, source: 'realised', barHours };
+    }
+  }
+
+  // Parkinson: σ_day = ln(H/L) / (2·√ln2)
+  const ratio = high24h > 0 && low24h > 0 && high24h > low24h ? high24h / low24h : 1.02;
+  const daily = Math.log(ratio) / (2 * Math.sqrt(Math.LN2));
+  return { sigmaHourly: daily / Math.sqrt(24), source: 'range-estimate', barHours: 1 };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 MODEL — driftless log-price random walk
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function modelProbability(spec: ScenarioSpec, sigma: number): number {
+  const spread = sigma * Math.sqrt(spec.horizonHours);
+  if (!(spread > 0)) return 0.5;
+  const shift = DISCRETE_MONITORING_SHIFT * sigma;
+
+  if (spec.kind === 'RANGE') {
+    const low = Math.log(spec.rangeLow / spec.price) - shift;
+    const high = Math.log(spec.rangeHigh / spec.price) + shift;
+    if (low >= 0 || high <= 0) return 0;
+    // Survival between two absorbing barriers — eigenfunction series
+    const width = high - low;
+    const x = -low;
+    let survival = 0;
+    for (let k = 1; k < 400; k += 2) {
+      const term = (4 / (k * Math.PI)) * Math.sin((k * Math.PI * x) / width) *
+        Math.exp(-((k * Math.PI * spread) ** 2) / (2 * width * width));
+      survival += term;
+      if (Math.abs(term) < 1e-9 && k > 5) break;
+    }
+    return Math.max(0, Math.min(1, survival));
+  }
+
+  // Log distance the price still has to travel in the condition's direction
+  const needed = spec.direction === 'ABOVE'
+    ? Math.log(spec.level / spec.price)
+    : Math.log(spec.price / spec.level);
+
+  if (spec.kind === 'HOLD_BEYOND') return 1 - normalCdf(needed / spread);
+  // CLOSE_BEYOND — already past the level counts as certain
+  if (needed <= 0) return 1;
+  return Math.min(1, 2 * (1 - normalCdf((needed + shift) / spread)));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📜 HISTORY — the same relative move, counted over every past window
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function historicalRate(spec: ScenarioSpec, candles: ScenarioCandle[], barHours: number): { rate: number; windows: number } | null {
+  const bars = Math.max(1, Math.round(spec.horizonHours / barHours));
+  const maxGap = barHours * HOUR_MS * 1.5;
+  const ratio = (level: number) => level / spec.price;
+  let windows = 0;
+  let hits = 0;
+
+  for (let i = 0; i + bars < candles.length; i++) {
+    // Skip windows the archive has holes in
+    if (candles[i + bars].time - candles[i].time > bars * maxGap) continue;
+    const ref = candles[i].close;
+    const path = candles.slice(i + 1, i + bars + 1).map(c => c.close);
+    let hit: boolean;
+
+    if (spec.kind === 'RANGE') {
+      const low = ref * ratio(spec.rangeLow);
+      const high = ref * ratio(spec.rangeHigh);
+      hit = path.every(c => c > low && c < high);
+    } else {
+      const level = ref * ratio(spec.level);
+      const beyond = (c: number) => (spec.direction === 'ABOVE' ? c > level : c < level);
+      hit = spec.kind === 'HOLD_BEYOND' ? beyond(path[path.length - 1]) : path.some(beyond);
+    }
+    windows++;
+    if (hit) hits++;
+  }
+
+  if (windows / bars < MIN_EFFECTIVE_WINDOWS) return null;
+  return { rate: hits / windows, windows };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 ESTIMATE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function estimateScenarioProbability(
+  spec: ScenarioSpec,
+  volatility: ScenarioVolatility,
+  atr: number,
+  candles?: ScenarioCandle[],
+  tr: ReportTranslator = englishReport
+): { probability: number; basis: ScenarioProbabilityBasis } {
+  const model = modelProbability(spec, volatility.sigmaHourly);
+  const sorted = (candles ?? []).filter(c => c.close > 0).sort((a, b) => a.time - b.time);
+  const barHours = barSpacingHours(sorted);
+  const history = sorted.length > 1 ? historicalRate(spec, sorted, barHours) : null;
+
+  // Overlapping windows share most of their path — weigh them as independent horizons
+  const effective = history ? history.windows / Math.max(1, Math.round(spec.horizonHours / barHours)) : 0;
+  const weight = history ? effective / (effective + HISTORY_PRIOR) : 0;
+  const blended = history ? weight * history.rate + (1 - weight) * model : model;
+  const probability = Math.max(1, Math.min(99, Math.round(blended * 100)));
+
+  const nearest = spec.kind === 'RANGE'
+    ? Math.min(Math.abs(spec.price - spec.rangeLow), Math.abs(spec.rangeHigh - spec.price))
+    : Math.abs(spec.level - spec.price);
+  const distanceAtr = atr > 0 ? nearest / atr : null;
+  const sigmaHourlyPercent = volatility.sigmaHourly * 100;
+
+  const summary = [
+    tr.t('probability.sigma', {
+      sigma: sigmaHourlyPercent.toFixed(2),
+      source: tr.t(volatility.source === 'realised' ? 'probability.realised' : 'probability.fromRange'),
+    }),
+    distanceAtr !== null
+      ? tr.t(spec.kind === 'RANGE' ? 'probability.atrToEdge' : 'probability.atrAway', { distance: distanceAtr.toFixed(1) })
+      : null,
+    history
+      ? tr.t('probability.modelHistory', { model: Math.round(model * 100), history: Math.round(history.rate * 100), windows: history.windows })
+      : tr.t('probability.volatilityModel'),
+  ].filter(Boolean).join(' • ');
+
+  return {
+    probability,
+    basis: {
+      method: history ? 'model+history' : 'volatility-model',
+      modelProbability: Math.round(model * 100),
+      ...(history ? {
+        historicalProbability: Math.round(history.rate * 100),
+        historicalWindows: history.windows,
+        historyWeight: Math.round(weight * 100) / 100,
+      } : {}),
+      sigmaHourlyPercent,
+      volatilitySource: volatility.source,
+      distanceAtr,
+      atr,
+      summary,
+    },
+  };
+}
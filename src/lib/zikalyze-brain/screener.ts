@@ -0,0 +1,312 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔎 ZIKALYZE SCREENER — Run the brain across a whole symbol list and rank it
+// ═══════════════════════════════════════════════════════════════════════════════
+// Each candidate brings its live quote and archived candles; the screener turns
+// those into the same chart/multi-timeframe inputs the Analyzer builds, runs
+// runClientSideAnalysis per symbol, and reduces each result to a sortable row.
+// The batch runs on whatever context it is given — the brain worker passes one
+// rebuilt from a copy of the app's stores (see rpc.ts), so a run never touches
+// the live session. Pure TypeScript — no DOM, no IndexedDB.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { runClientSideAnalysis } from './index';
+import { AnalysisContext } from './context';
+import { buildChartTrendInput, BacktestCandle } from './backtest';
+import { computeIndicatorSnapshot } from './indicators';
+import {
+  AnalysisInput,
+  AnalysisResult,
+  CalibrationModel,
+  MultiTimeframeInput,
+  RiskSettings,
+  TimeframeAnalysisInput,
+  VolumeSpikeAlert,
+} from './types';
+
+export type ScreenerTimeframe = '15m' | '1h' | '4h' | '1d';
+
+// Archived candle as stored in IndexedDB (open time in ms)
+export interface ScreenerCandle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface ScreenerCandidate {
+  symbol: string;
+  price: number;
+  change: number;
+  high24h?: number;
+  low24h?: number;
+  volume?: number;
+  marketCap?: number;
+  priceTimestamp?: number;
+  candles?: Partial<Record<ScreenerTimeframe, ScreenerCandle[]>>; // Oldest first
+  calibration?: CalibrationModel;
+}
+
+export interface ScreenerOptions {
+  language?: string;
+  riskSettings?: RiskSettings;
+  excludeDerivedInputs?: boolean;
+}
+
+export interface ScreenerRow {
+  symbol: string;
+  price: number;
+  change: number;
+  bias: AnalysisResult['bias'];
+  confidence: number;
+  timing: AnalysisResult['precisionEntry']['timing'];
+  volumeSpike: Pick<VolumeSpikeAlert, 'isSpike' | 'magnitude' | 'percentageAboveAvg' | 'zScore'>;
+  alignedTimeframes: number; // Timeframes trending the way of the call (of 5)
+  confluence: number;        // Top-down confluence, 0-100
+  hasCandles: boolean;       // False when only the quote was available
+  result: AnalysisResult;
+}
+
+export interface ScreenerFailure {
+  symbol: string;
+  error: string;
+}
+
+export interface ScreenerFilter {
+  bias: 'ANY' | AnalysisResult['bias'];
+  minConfidence: number;
+  minAlignedTimeframes: number;
+  timing: 'ANY' | 'NOW' | 'WAIT';
+  spikesOnly: boolean;
+}
+
+export type ScreenerSortKey = 'symbol' | 'confidence' | 'timing' | 'volume' | 'confluence' | 'change';
+
+export const DEFAULT_SCREENER_FILTER: ScreenerFilter = {
+  bias: 'ANY',
+  minConfidence: 0,
+  minAlignedTimeframes: 0,
+  timing: 'ANY',
+  spikesOnly: false,
+};
+
+const INTERVAL_MS: Record<ScreenerTimeframe, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// Same windows and minimums as the live multi-timeframe hook
+const WINDOW_BARS: Record<ScreenerTimeframe, number> = { '15m': 96, '1h': 72, '4h': 42, '1d': 30 };
+const MIN_BARS: Record<ScreenerTimeframe, number> = { '15m': 3, '1h': 3, '4h': 2, '1d': 2 };
+const CHART_BARS = 24; // 24h of 1h candles stand in for the live 24h chart
+
+const TIMING_RANK: Record<ScreenerRow['timing'], number> = { NOW: 0, WAIT_PULLBACK: 1, WAIT_BREAKOUT: 2, AVOID: 3 };
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📈 INPUTS — Archived candles → chart and multi-timeframe inputs
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const toBacktestCandles = (candles: ScreenerCandle[]): BacktestCandle[] =>
+  candles.map(c => ({ timestamp: c.time, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume }));
+
+// Candles count as live while the last one closed within two intervals
+const isRecent = (candles: BacktestCandle[], timeframe: ScreenerTimeframe, now: number) =>
+  candles.length > 0 && now - (candles[candles.length - 1].timestamp + INTERVAL_MS[timeframe]) < 2 * INTERVAL_MS[timeframe];
+
+function buildTimeframeInput(timeframe: ScreenerTimeframe, archived: ScreenerCandle[] | undefined, now: number): TimeframeAnalysisInput | null {
+  if (!archived || archived.length < MIN_BARS[timeframe]) return null;
+  const all = toBacktestCandles(archived);
+  const candles = all.slice(-WINDOW_BARS[timeframe]);
+  const chart = buildChartTrendInput(candles, computeIndicatorSnapshot(all));
+  return {
+    timeframe,
+    trend: chart.trend24h,
+    trendStrength: chart.trendStrength,
+    ema9: chart.ema9,
+    ema21: chart.ema21,
+    rsi: chart.rsi,
+    support: Math.min(...candles.map(c => c.low)),
+    resistance: Math.max(...candles.map(c => c.high)),
+    volumeTrend: chart.volumeTrend,
+    higherHighs: chart.higherHighs,
+    higherLows: chart.higherLows,
+    lowerHighs: chart.lowerHighs,
+    lowerLows: chart.lowerLows,
+    isLive: isRecent(candles, timeframe, now),
+    indicators: chart.indicators,
+    candles: chart.candles,
+  };
+}
+
+function buildConfluence(analyses: (TimeframeAnalysisInput | null)[]): MultiTimeframeInput['confluence'] {
+  const valid = analyses.filter(Boolean);
+  if (valid.length === 0) {
+    return { overallBias: 'NEUTRAL', strength: 0, alignedTimeframes: 0, conflictingTimeframes: 0, recommendation: 'No archived candles' };
+  }
+  const bullish = valid.filter(a => a.trend === 'BULLISH').length;
+  const bearish = valid.filter(a => a.trend === 'BEARISH').length;
+  const neutral = valid.length - bullish - bearish;
+  const total = valid.length;
+
+  let overallBias: MultiTimeframeInput['confluence']['overallBias'] = 'NEUTRAL';
+  let recommendation = '⚖️ Mixed signals - exercise caution';
+  if (bullish > bearish && bullish > neutral) {
+    overallBias = 'BULLISH';
+    recommendation = bullish === total ? '🚀 Strong bullish confluence - all timeframes aligned' : `📈 Bullish bias (${bullish}/${total} timeframes)`;
+  } else if (bearish > bullish && bearish > neutral) {
+    overallBias = 'BEARISH';
+    recommendation = bearish === total ? '🔻 Strong bearish confluence - all timeframes aligned' : `📉 Bearish bias (${bearish}/${total} timeframes)`;
+  }
+
+  const alignedTimeframes = Math.max(bullish, bearish, neutral);
+  return {
+    overallBias,
+    strength: Math.round((alignedTimeframes / total) * 100),
+    alignedTimeframes,
+    conflictingTimeframes: total - alignedTimeframes,
+    recommendation,
+  };
+}
+
+export function buildScreenerInput(candidate: ScreenerCandidate, options: ScreenerOptions, now: number): AnalysisInput {
+  const candles = candidate.candles ?? {};
+  const frames = {
+    '15m': buildTimeframeInput('15m', candles['15m'], now),
+    '1h': buildTimeframeInput('1h', candles['1h'], now),
+    '4h': buildTimeframeInput('4h', candles['4h'], now),
+    '1d': buildTimeframeInput('1d', candles['1d'], now),
+  };
+  const hourly = candles['1h'] ?? [];
+
+  let chartTrendData: AnalysisInput['chartTrendData'];
+  if (hourly.length >= MIN_BARS['1h']) {
+    const all = toBacktestCandles(hourly);
+    const chart = buildChartTrendInput(all.slice(-CHART_BARS), computeIndicatorSnapshot(all));
+    chartTrendData = { ...chart, isLive: isRecent(all, '1h', now), source: 'Archived 1h candles' };
+  }
+
+  return {
+    crypto: candidate.symbol,
+    price: candidate.price,
+    change: candidate.change,
+    high24h: candidate.high24h,
+    low24h: candidate.low24h,
+    volume: candidate.volume,
+    marketCap: candidate.marketCap,
+    language: options.language,
+    isLiveData: false,
+    dataSource: chartTrendData ? 'screener:price+archive' : 'screener:price',
+    chartTrendData,
+    // The top-down read needs the 1h frame; without it the brain falls back to the quote
+    multiTimeframeData: frames['1h'] ? { ...frames, confluence: buildConfluence(Object.values(frames)) } : undefined,
+    riskSettings: options.riskSettings,
+    priceTimestamp: candidate.priceTimestamp,
+    excludeDerivedInputs: options.excludeDerivedInputs,
+    calibration: candidate.calibration,
+    hourlyCandles: hourly.length > 0 ? hourly : undefined,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 ROWS — Result → ranked row
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function toScreenerRow(candidate: ScreenerCandidate, result: AnalysisResult): ScreenerRow {
+  const direction = result.bias === 'LONG' ? 'BULLISH' : result.bias === 'SHORT' ? 'BEARISH' : result.timeframes?.overallBias;
+  const trends = result.timeframes ? Object.values(result.timeframes.trends) : [];
+  return {
+    symbol: candidate.symbol.toUpperCase(),
+    price: candidate.price,
+    change: candidate.change,
+    bias: result.bias,
+    confidence: result.confidence,
+    timing: result.precisionEntry.timing,
+    volumeSpike: {
+      isSpike: result.volumeSpike.isSpike,
+      magnitude: result.volumeSpike.magnitude,
+      percentageAboveAvg: result.volumeSpike.percentageAboveAvg,
+      zScore: result.volumeSpike.zScore,
+    },
+    alignedTimeframes: direction && direction !== 'NEUTRAL' ? trends.filter(t => t === direction).length : 0,
+    confluence: result.timeframes?.confluence ?? 0,
+    hasCandles: Boolean(candidate.candles?.['1h']?.length),
+    result,
+  };
+}
+
+export function filterScreenerRows(rows: ScreenerRow[], filter: ScreenerFilter): ScreenerRow[] {
+  return rows.filter(row =>
+    (filter.bias === 'ANY' || row.bias === filter.bias) &&
+    row.confidence >= filter.minConfidence &&
+    row.alignedTimeframes >= filter.minAlignedTimeframes &&
+    (filter.timing === 'ANY' ||
+      (filter.timing === 'NOW' ? row.timing === 'NOW' : row.timing === 'WAIT_PULLBACK' || row.timing === 'WAIT_BREAKOUT')) &&
+    (!filter.spikesOnly || row.volumeSpike.isSpike)
+  );
+}
+
+// Descending puts the best first: highest confidence/volume/confluence, NOW before WAIT
+export function sortScreenerRows(rows: ScreenerRow[], key: ScreenerSortKey, descending = true): ScreenerRow[] {
+  const value = (row: ScreenerRow): number | string => {
+    switch (key) {
+      case 'symbol': return row.symbol;
+      case 'timing': return -TIMING_RANK[row.timing];
+      case 'volume': return row.volumeSpike.percentageAboveAvg;
+      case 'confluence': return row.alignedTimeframes * 100 + row.confluence;
+      case 'change': return row.change;
+      default: return row.confidence;
+    }
+  };
+  const sign = descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    const order = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+    // Ties fall back to confidence, then symbol
+    return sign * order || b.confidence - a.confidence || a.symbol.localeCompare(b.symbol);
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏃 BATCH — One symbol at a time, yielding so cancellation is seen
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ScreenerBatchHandlers {
+  onRow?: (row: ScreenerRow, done: number, total: number) => void;
+  onFailure?: (failure: ScreenerFailure, done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export async function runScreenerBatch(
+  candidates: ScreenerCandidate[],
+  ctx: AnalysisContext,
+  options: ScreenerOptions,
+  handlers: ScreenerBatchHandlers = {}
+): Promise<{ rows: ScreenerRow[]; failures: ScreenerFailure[] }> {
+  const rows: ScreenerRow[] = [];
+  const failures: ScreenerFailure[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    if (handlers.signal?.aborted) {
+      throw new DOMException('Screener aborted', 'AbortError');
+    }
+    const candidate = candidates[i];
+    try {
+      const result = runClientSideAnalysis(buildScreenerInput(candidate, options, ctx.clock.now()), ctx);
+      const row = toScreenerRow(candidate, result);
+      rows.push(row);
+      handlers.onRow?.(row, i + 1, candidates.length);
+    } catch (error) {
+      const failure = { symbol: candidate.symbol.toUpperCase(), error: error instanceof Error ? error.message : String(error) };
+      failures.push(failure);
+      handlers.onFailure?.(failure, i + 1, candidates.length);
+    }
+    // Let queued messages (cancel) and UI work through between symbols
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return { rows, failures };
+}
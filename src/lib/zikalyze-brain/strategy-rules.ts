@@ -0,0 +1,535 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 STRATEGY RULES — A small rule language over the live indicator data
+// ═══════════════════════════════════════════════════════════════════════════════
+// Users write their own setups as one boolean expression, e.g.
+//   RSI(1h) < 30 AND price above EMA21(4h) AND Fear&Greed < 25
+// Metrics take an optional timeframe (15m, 1h, 4h, 1d — default 24h, the live
+// chart series). Comparisons: < <= > >= == != (or ABOVE / BELOW), arithmetic: + - * /, logic:
+// AND OR NOT (or && || !), parentheses, and bare words for string values
+// (trend(4h) == BULLISH). Perpetual positioning reads the same way, e.g.
+//   fundingExtreme == CROWDED_LONG OR liqLongs1h > 5000000
+// Rules compile once and are re-evaluated against a StrategyRuleContext on
+// every data refresh. A value that is not loaded yet makes its comparison
+// unknown rather than false, and a rule only matches when it holds with every
+// value it needs.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  ChartTrendInput,
+  StrategyRuleCondition,
+  StrategyRuleContext,
+  StrategyRuleEvaluation,
+  StrategyRuleMetric,
+  StrategyRuleTimeframe,
+  StrategyRuleValue,
+  TimeframeAnalysisInput,
+} from './types';
+import type { IndicatorSnapshot } from './indicators';
+
+export const STRATEGY_RULE_TIMEFRAMES: StrategyRuleTimeframe[] = ['15m', '1h', '4h', '1d', '24h'];
+
+// The chart series and the multi-timeframe entries, read the same way
+interface SeriesView {
+  trend: TimeframeAnalysisInput['trend'];
+  trendStrength: number;
+  ema9: number;
+  ema21: number;
+  rsi: number;
+  support: number | null;
+  resistance: number | null;
+  volumeTrend: TimeframeAnalysisInput['volumeTrend'];
+  higherHighs: boolean;
+  higherLows: boolean;
+  lowerHighs: boolean;
+  lowerLows: boolean;
+  indicators: IndicatorSnapshot | null;
+}
+
+interface MetricSpec extends StrategyRuleMetric {
+  read: (ctx: StrategyRuleContext, series: SeriesView | null) => StrategyRuleValue | null;
+}
+
+const TREND_VALUES = ['BULLISH', 'BEARISH', 'NEUTRAL'];
+
+const num = (value: number | null | undefined): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const marketMetric = (name: string, description: string, read: (ctx: StrategyRuleContext) => StrategyRuleValue | null, type: StrategyRuleMetric['type'] = 'number', values?: string[]): MetricSpec =>
+  ({ name, description, type, timeframed: false, values, read: ctx => read(ctx) });
+
+const seriesMetric = (name: string, description: string, read: (s: SeriesView) => StrategyRuleValue | null, type: StrategyRuleMetric['type'] = 'number', values?: string[]): MetricSpec =>
+  ({ name, description, type, timeframed: true, values, read: (_ctx, s) => (s ? read(s) : null) });
+
+const METRICS: MetricSpec[] = [
+  marketMetric('price', 'Live price', ctx => num(ctx.price)),
+  marketMetric('change24h', '24h change, %', ctx => num(ctx.change24h)),
+  marketMetric('volume', '24h volume', ctx => num(ctx.volume)),
+  marketMetric('fearGreed', 'Fear & Greed, 0-100', ctx => num(ctx.fearGreed)),
+  marketMetric('bias', 'Brain verdict', ctx => ctx.verdict?.bias ?? null, 'string', ['LONG', 'SHORT', 'NEUTRAL']),
+  marketMetric('confidence', 'Brain confidence, %', ctx => num(ctx.verdict?.confidence)),
+  marketMetric('confluence', 'Multi-timeframe bias', ctx => ctx.multiTimeframe?.confluence.overallBias ?? null, 'string', TREND_VALUES),
+  marketMetric('confluenceStrength', 'Multi-timeframe agreement, %', ctx => num(ctx.multiTimeframe?.confluence.strength)),
+  marketMetric('funding', 'Perp funding rate per interval, %', ctx => num(ctx.derivatives ? ctx.derivatives.funding.rate * 100 : null)),
+  marketMetric('fundingAnnual', 'Perp funding annualized, %', ctx => num(ctx.derivatives?.funding.annualizedPercent)),
+  marketMetric('fundingZ', 'Funding z-score vs settled history', ctx => num(ctx.derivatives?.funding.zScore)),
+  marketMetric('fundingExtreme', 'Funding extreme', ctx => ctx.derivatives?.funding.extreme ?? null, 'string', ['CROWDED_LONG', 'CROWDED_SHORT', 'NONE']),
+  marketMetric('openInterest', 'Open interest, USD', ctx => num(ctx.derivatives?.openInterest?.notional)),
+  marketMetric('oiChange1h', 'Open interest change over 1h, %', ctx => num(ctx.derivatives?.openInterest?.change1h)),
+  marketMetric('oiChange24h', 'Open interest change over 24h, %', ctx => num(ctx.derivatives?.openInterest?.change24h)),
+  marketMetric('oiRegime', 'Open interest vs price', ctx => ctx.derivatives?.openInterest?.regime ?? null, 'string', ['NEW_LONGS', 'SHORT_COVERING', 'NEW_SHORTS', 'LONG_UNWIND', 'NONE']),
+  marketMetric('oiDivergence', 'Price and open interest moving apart', ctx => ctx.derivatives?.openInterest?.divergence ?? null, 'boolean'),
+  marketMetric('liqLongs1h', 'Longs liquidated in the last hour, USD', ctx => num(ctx.derivatives?.liquidations.longs1h)),
+  marketMetric('liqShorts1h', 'Shorts liquidated in the last hour, USD', ctx => num(ctx.derivatives?.liquidations.shorts1h)),
+  marketMetric('liqCluster', 'Side of the largest liquidation cluster in the last hour', ctx => {
+    const d = ctx.derivatives;
+    if (!d) return null;
+    return d.liquidations.clusters.find(c => c.end >= d.timestamp - 60 * 60 * 1000)?.side ?? 'NONE';
+  }, 'string', ['LONG', 'SHORT', 'NONE']),
+
+  seriesMetric('rsi', 'RSI(14)', s => num(s.rsi)),
+  seriesMetric('ema9', 'EMA 9', s => num(s.ema9)),
+  seriesMetric('ema21', 'EMA 21', s => num(s.ema21)),
+  seriesMetric('trend', 'Trend', s => s.trend, 'string', TREND_VALUES),
+  seriesMetric('trendStrength', 'Trend strength, 0-100', s => num(s.trendStrength)),
+  seriesMetric('support', 'Nearest support', s => num(s.support)),
+  seriesMetric('resistance', 'Nearest resistance', s => num(s.resistance)),
+  seriesMetric('volumeTrend', 'Volume trend', s => s.volumeTrend, 'string', ['INCREASING', 'DECREASING', 'STABLE']),
+  seriesMetric('higherHighs', 'Making higher highs', s => s.higherHighs, 'boolean'),
+  seriesMetric('higherLows', 'Making higher lows', s => s.higherLows, 'boolean'),
+  seriesMetric('lowerHighs', 'Making lower highs', s => s.lowerHighs, 'boolean'),
+  seriesMetric('lowerLows', 'Making lower lows', s => s.lowerLows, 'boolean'),
+  seriesMetric('macd', 'MACD line', s => num(s.indicators?.macd?.macd)),
+  seriesMetric('macdSignal', 'MACD signal line', s => num(s.indicators?.macd?.signal)),
+  seriesMetric('macdHist', 'MACD histogram', s => num(s.indicators?.macd?.histogram)),
+  seriesMetric('bbUpper', 'Upper Bollinger band', s => num(s.indicators?.bollinger?.upper)),
+  seriesMetric('bbMiddle', 'Middle Bollinger band', s => num(s.indicators?.bollinger?.middle)),
+  seriesMetric('bbLower', 'Lower Bollinger band', s => num(s.indicators?.bollinger?.lower)),
+  seriesMetric('bbWidth', 'Bollinger bandwidth, %', s => num(s.indicators?.bollinger?.bandwidth)),
+  seriesMetric('percentB', 'Bollinger %B (0 = lower band, 1 = upper)', s => num(s.indicators?.bollinger?.percentB)),
+  seriesMetric('atr', 'ATR(14)', s => num(s.indicators?.atr)),
+  seriesMetric('stochK', 'Stochastic RSI %K', s => num(s.indicators?.stochRsi?.k)),
+  seriesMetric('stochD', 'Stochastic RSI %D', s => num(s.indicators?.stochRsi?.d)),
+  seriesMetric('adx', 'ADX', s => num(s.indicators?.adx?.adx)),
+  seriesMetric('plusDI', '+DI', s => num(s.indicators?.adx?.plusDI)),
+  seriesMetric('minusDI', '-DI', s => num(s.indicators?.adx?.minusDI)),
+  seriesMetric('supertrend', 'Supertrend line', s => num(s.indicators?.supertrend?.value)),
+  seriesMetric('supertrendDir', 'Supertrend direction', s => s.indicators?.supertrend?.direction ?? null, 'string', ['UP', 'DOWN']),
+  seriesMetric('obv', 'On-balance volume', s => num(s.indicators?.obv?.obv)),
+  seriesMetric('obvSignal', 'OBV signal (EMA of OBV)', s => num(s.indicators?.obv?.signal)),
+];
+
+// Case-insensitive lookup, plus a few spellings people reach for
+const METRIC_INDEX = new Map<string, MetricSpec>(METRICS.map(m => [m.name.toLowerCase(), m]));
+const ALIASES: Record<string, string> = { change: 'change24h', fg: 'fearGreed', 'fear&greed': 'fearGreed', macdhistogram: 'macdHist', stochrsi: 'stochK', oi: 'openInterest', fundingrate: 'funding' };
+Object.entries(ALIASES).forEach(([alias, name]) => METRIC_INDEX.set(alias, METRIC_INDEX.get(name.toLowerCase())!));
+
+export const STRATEGY_RULE_METRICS: StrategyRuleMetric[] = METRICS.map(({ read: _read, ...metric }) => metric);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔤 LEXER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type TokenType = 'number' | 'word' | 'string' | 'op' | '(' | ')' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '<', '>', '=', '!', '+', '-', '*', '/'];
+
+function fail(message: string, at: number): never {
+  throw new Error(`${message} (at column ${at + 1})`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    const start = i;
+    if (/[0-9.]/.test(ch)) {
+      // 30, 0.5, and timeframes like 4h/15m, which start with a digit
+      while (i < source.length && /[0-9.]/.test(source[i])) i++;
+      const unit = /^[a-zA-Z]+/.exec(source.slice(i));
+      if (unit) {
+        i += unit[0].length;
+        tokens.push({ type: 'word', text: source.slice(start, i), start, end: i });
+      } else {
+        const text = source.slice(start, i);
+        if (!Number.isFinite(Number(text))) fail(`Bad number "${text}"`, start);
+        tokens.push({ type: 'number', text, start, end: i });
+      }
+      continue;
+    }
+    if (/[a-zA-Z_]/.test(ch)) {
+      // A single '&' between letters stays in the word (Fear&Greed); '&&' is AND
+      while (i < source.length && (/[a-zA-Z0-9_]/.test(source[i]) || (source[i] === '&' && /[a-zA-Z]/.test(source[i + 1] ?? '')))) i++;
+      tokens.push({ type: 'word', text: source.slice(start, i), start, end: i });
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const close = source.indexOf(ch, i + 1);
+      if (close < 0) fail('Unclosed quote', start);
+      i = close + 1;
+      tokens.push({ type: 'string', text: source.slice(start + 1, close), start, end: i });
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      i++;
+      tokens.push({ type: ch, text: ch, start, end: i });
+      continue;
+    }
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+    if (!op) fail(`Unexpected "${ch}"`, start);
+    i += op.length;
+    tokens.push({ type: 'op', text: op, start, end: i });
+  }
+  tokens.push({ type: 'end', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌳 PARSER — precedence: OR < AND < NOT < comparison < + - < * / < unary minus
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type CompareOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
+type ArithOp = '+' | '-' | '*' | '/';
+
+type RuleNode = { start: number; end: number } & (
+  | { kind: 'literal'; value: StrategyRuleValue; bare: string | null } // bare: an unquoted word, read as a string value
+  | { kind: 'metric'; metric: MetricSpec; timeframe: StrategyRuleTimeframe | null; label: string }
+  | { kind: 'negate'; operand: RuleNode }
+  | { kind: 'arith'; op: ArithOp; left: RuleNode; right: RuleNode }
+  | { kind: 'compare'; op: CompareOp; left: RuleNode; right: RuleNode }
+  | { kind: 'not'; operand: RuleNode }
+  | { kind: 'logic'; op: 'and' | 'or'; left: RuleNode; right: RuleNode }
+);
+
+const COMPARE_OPS: Record<string, CompareOp> = { '<': '<', '<=': '<=', '>': '>', '>=': '>=', '==': '==', '=': '==', '!=': '!=' };
+const COMPARE_WORDS: Record<string, CompareOp> = { above: '>', below: '<' };
+
+function parse(source: string): RuleNode {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isWord = (token: Token, word: string) => token.type === 'word' && token.text.toLowerCase() === word;
+  const isOp = (token: Token, ...ops: string[]) => token.type === 'op' && ops.includes(token.text);
+
+  const parseOr = (): RuleNode => {
+    let left = parseAnd();
+    while (isWord(peek(), 'or') || isOp(peek(), '||')) {
+      next();
+      const right = parseAnd();
+      left = { kind: 'logic', op: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseAnd = (): RuleNode => {
+    let left = parseNot();
+    while (isWord(peek(), 'and') || isOp(peek(), '&&')) {
+      next();
+      const right = parseNot();
+      left = { kind: 'logic', op: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseNot = (): RuleNode => {
+    if (isWord(peek(), 'not') || isOp(peek(), '!')) {
+      const start = next().start;
+      const operand = parseNot();
+      return { kind: 'not', operand, start, end: operand.end };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): RuleNode => {
+    const left = parseAdditive();
+    const token = peek();
+    const op = token.type === 'op' ? COMPARE_OPS[token.text]
+      : token.type === 'word' ? COMPARE_WORDS[token.text.toLowerCase()] : undefined;
+    if (op) {
+      next();
+      const right = parseAdditive();
+      return { kind: 'compare', op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): RuleNode => {
+    let left = parseMultiplicative();
+    while (isOp(peek(), '+', '-')) {
+      const op = next().text as ArithOp;
+      const right = parseMultiplicative();
+      left = { kind: 'arith', op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): RuleNode => {
+    let left = parseUnary();
+    while (isOp(peek(), '*', '/')) {
+      const op = next().text as ArithOp;
+      const right = parseUnary();
+      left = { kind: 'arith', op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseUnary = (): RuleNode => {
+    if (isOp(peek(), '-')) {
+      const start = next().start;
+      const operand = parseUnary();
+      return { kind: 'negate', operand, start, end: operand.end };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): RuleNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.text), bare: null, start: token.start, end: token.end };
+      case 'string':
+        return { kind: 'literal', value: token.text.toUpperCase(), bare: null, start: token.start, end: token.end };
+      case '(': {
+        const inner = parseOr();
+        const close = next();
+        if (close.type !== ')') fail('Expected ")"', close.start);
+        return { ...inner, start: token.start, end: close.end };
+      }
+      case 'word':
+        return parseWord(token);
+      case 'end':
+        return fail('Rule ends too early', token.start);
+      default:
+        return fail(`Unexpected "${token.text}"`, token.start);
+    }
+  };
+
+  const parseWord = (token: Token): RuleNode => {
+    const lower = token.text.toLowerCase();
+    if (['and', 'or', 'not'].includes(lower)) fail(`"${token.text.toUpperCase()}" needs a condition before it`, token.start);
+    if (COMPARE_WORDS[lower]) fail(`"${token.text.toUpperCase()}" needs a value before it`, token.start);
+    if (lower === 'true' || lower === 'false') {
+      return { kind: 'literal', value: lower === 'true', bare: null, start: token.start, end: token.end };
+    }
+
+    const metric = METRIC_INDEX.get(lower);
+    if (!metric) {
+      if (peek().type === '(') fail(`Unknown metric "${token.text}"`, token.start);
+      // Maybe a string value (BULLISH); checkTypes rejects it anywhere else
+      return { kind: 'literal', value: token.text.toUpperCase(), bare: token.text, start: token.start, end: token.end };
+    }
+
+    if (peek().type !== '(') {
+      return { kind: 'metric', metric, timeframe: null, label: token.text, start: token.start, end: token.end };
+    }
+    next();
+    const arg = next();
+    const timeframe = STRATEGY_RULE_TIMEFRAMES.find(tf => tf === arg.text.toLowerCase());
+    if (!timeframe) fail(`Timeframe must be one of ${STRATEGY_RULE_TIMEFRAMES.join(', ')}`, arg.start);
+    if (!metric.timeframed) fail(`${metric.name} does not take a timeframe`, token.start);
+    const close = next();
+    if (close.type !== ')') fail('Expected ")"', close.start);
+    return { kind: 'metric', metric, timeframe, label: `${token.text}(${timeframe})`, start: token.start, end: close.end };
+  };
+
+  const root = parseOr();
+  const trailing = peek();
+  if (trailing.type !== 'end') fail(`Unexpected "${trailing.text}" — join conditions with AND/OR`, trailing.start);
+  return root;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔎 TYPE CHECK — catch "price > BULLISH" at save time, not on every refresh
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type ValueType = StrategyRuleMetric['type'];
+
+function checkTypes(node: RuleNode): ValueType {
+  switch (node.kind) {
+    case 'literal':
+      if (node.bare) fail(`Unknown metric "${node.bare}"`, node.start);
+      return typeof node.value as ValueType;
+    case 'metric':
+      return node.metric.type;
+    case 'negate':
+      if (checkTypes(node.operand) !== 'number') fail('"-" needs a number', node.start);
+      return 'number';
+    case 'arith':
+      if (checkTypes(node.left) !== 'number' || checkTypes(node.right) !== 'number') fail(`"${node.op}" needs numbers on both sides`, node.start);
+      return 'number';
+    case 'not':
+      if (checkTypes(node.operand) !== 'boolean') fail('NOT needs a condition', node.start);
+      return 'boolean';
+    case 'logic':
+      if (checkTypes(node.left) !== 'boolean') fail(`${node.op.toUpperCase()} needs a condition on its left`, node.left.start);
+      if (checkTypes(node.right) !== 'boolean') fail(`${node.op.toUpperCase()} needs a condition on its right`, node.right.start);
+      return 'boolean';
+    case 'compare': {
+      const metric = [node.left, node.right].find((side): side is Extract<RuleNode, { kind: 'metric' }> => side.kind === 'metric');
+      // A bare word is fine opposite a string metric that allows it
+      for (const side of [node.left, node.right]) {
+        if (side.kind !== 'literal' || typeof side.value !== 'string') continue;
+        const values = metric?.metric.values;
+        if (!values) fail(side.bare ? `Unknown metric "${side.bare}"` : `"${side.value}" is not comparable here`, side.start);
+        if (!values.includes(side.value)) fail(`${metric!.metric.name} is one of ${values.join(', ')}`, side.start);
+      }
+      const left = node.left.kind === 'literal' && typeof node.left.value === 'string' ? 'string' : checkTypes(node.left);
+      const right = node.right.kind === 'literal' && typeof node.right.value === 'string' ? 'string' : checkTypes(node.right);
+      if (left !== right) fail(`Cannot compare ${left} with ${right}`, node.start);
+      if (left !== 'number' && node.op !== '==' && node.op !== '!=') fail(`"${node.op}" needs numbers — use == or !=`, node.start);
+      return 'boolean';
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⚙️ COMPILE & EVALUATE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface CompiledStrategyRule {
+  expression: string;
+  error: string | null;
+  root: RuleNode | null;
+}
+
+export function compileStrategyRule(expression: string): CompiledStrategyRule {
+  if (!expression.trim()) return { expression, error: 'Rule is empty', root: null };
+  try {
+    const root = parse(expression);
+    if (checkTypes(root) !== 'boolean') fail('Rule must be a condition, e.g. RSI(1h) < 30', root.start);
+    return { expression, error: null, root };
+  } catch (error) {
+    return { expression, error: error instanceof Error ? error.message : String(error), root: null };
+  }
+}
+
+// Returns the error message, or null when the rule is valid
+export function validateStrategyRule(expression: string): string | null {
+  return compileStrategyRule(expression).error;
+}
+
+function chartView(chart: ChartTrendInput): SeriesView {
+  const lows = chart.candles.map(c => c.low);
+  const highs = chart.candles.map(c => c.high);
+  return {
+    trend: chart.trend24h,
+    trendStrength: chart.trendStrength,
+    ema9: chart.ema9,
+    ema21: chart.ema21,
+    rsi: chart.rsi,
+    // The chart series carries no levels — use its 24h range
+    support: lows.length > 0 ? Math.min(...lows) : null,
+    resistance: highs.length > 0 ? Math.max(...highs) : null,
+    volumeTrend: chart.volumeTrend,
+    higherHighs: chart.higherHighs,
+    higherLows: chart.higherLows,
+    lowerHighs: chart.lowerHighs,
+    lowerLows: chart.lowerLows,
+    indicators: chart.indicators ?? null,
+  };
+}
+
+function timeframeView(tf: TimeframeAnalysisInput): SeriesView {
+  return { ...tf, support: tf.support || null, resistance: tf.resistance || null, indicators: tf.indicators ?? null };
+}
+
+function seriesFor(ctx: StrategyRuleContext, timeframe: StrategyRuleTimeframe | null): SeriesView | null {
+  if (!timeframe || timeframe === '24h') return ctx.chart ? chartView(ctx.chart) : null;
+  const tf = ctx.multiTimeframe?.[timeframe];
+  return tf ? timeframeView(tf) : null;
+}
+
+const compareValues = (op: CompareOp, a: StrategyRuleValue, b: StrategyRuleValue): boolean => {
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '==': return a === b;
+    case '!=': return a !== b;
+  }
+};
+
+export function evaluateStrategyRule(rule: CompiledStrategyRule | string, ctx: StrategyRuleContext): StrategyRuleEvaluation {
+  const compiled = typeof rule === 'string' ? compileStrategyRule(rule) : rule;
+  if (!compiled.root) return { matched: false, conditions: [], missing: [], error: compiled.error };
+
+  const conditions: StrategyRuleCondition[] = [];
+  const missing = new Set<string>();
+  const seriesCache = new Map<StrategyRuleTimeframe | null, SeriesView | null>();
+  let values: StrategyRuleCondition['values'] = [];
+
+  const readMetric = (node: Extract<RuleNode, { kind: 'metric' }>): StrategyRuleValue | null => {
+    if (!seriesCache.has(node.timeframe)) seriesCache.set(node.timeframe, seriesFor(ctx, node.timeframe));
+    const value = node.metric.read(ctx, seriesCache.get(node.timeframe) ?? null);
+    values.push({ label: node.label, value });
+    if (value === null) missing.add(node.label);
+    return value;
+  };
+
+  // Operands: null propagates through arithmetic
+  const value = (node: RuleNode): StrategyRuleValue | null => {
+    switch (node.kind) {
+      case 'literal': return node.value;
+      case 'metric': return readMetric(node);
+      case 'negate': {
+        const v = value(node.operand);
+        return v === null ? null : -(v as number);
+      }
+      case 'arith': {
+        const a = value(node.left) as number | null;
+        const b = value(node.right) as number | null;
+        if (a === null || b === null) return null;
+        if (node.op === '/') return b === 0 ? null : a / b;
+        return node.op === '+' ? a + b : node.op === '-' ? a - b : a * b;
+      }
+      default: return truth(node);
+    }
+  };
+
+  // Three-valued logic: null = not enough data to tell
+  const truth = (node: RuleNode): boolean | null => {
+    switch (node.kind) {
+      case 'logic': {
+        const a = truth(node.left);
+        const b = truth(node.right);
+        if (node.op === 'and') return a === false || b === false ? false : a === null || b === null ? null : true;
+        return a === true || b === true ? true : a === null || b === null ? null : false;
+      }
+      case 'not': {
+        const a = truth(node.operand);
+        return a === null ? null : !a;
+      }
+      case 'compare':
+      case 'metric': {
+        values = [];
+        let passed: boolean | null;
+        if (node.kind === 'metric') {
+          passed = readMetric(node) as boolean | null;
+        } else {
+          const a = value(node.left);
+          const b = value(node.right);
+          passed = a === null || b === null ? null : compareValues(node.op, a, b);
+        }
+        conditions.push({ text: compiled.expression.slice(node.start, node.end), passed, values });
+        return passed;
+      }
+      default:
+        return value(node) as boolean | null;
+    }
+  };
+
+  const result = truth(compiled.root);
+  return { matched: result === true, conditions, missing: [...missing], error: null };
+}
@@ -6,7 +6,13 @@
 // ⚡ No random values — 100% deterministic and reproducible
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { MarketStructure, PrecisionEntry, ChartTrendInput, MultiTimeframeInput } from './types';
+import { MarketStructure, PrecisionEntry, ChartTrendInput, MultiTimeframeInput, TimeframeAnalysisInput, DetectedPattern, BiasFactor, BiasFactorId, BiasInsight, CrossAssetAnalysis, DerivativesInput, OrderBookInput, OrderBookWall } from './types';
+import { BrainLogger, consoleLogger } from './context';
+import { IndicatorSnapshot, interpretIndicators } from './indicators';
+import { scorePatterns, describePattern } from './patterns';
+import { scoreCrossAsset } from './cross-asset';
+import { scoreDerivatives } from './derivatives';
+import { englishReport, ReportTranslator } from './report-i18n';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔍 TYPES FOR TOP-DOWN ANALYSIS
@@ -130,6 +136,37 @@ function determineTrendFromRealData(
   };
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 INDICATOR CONFIRMATION — ADX gates strength, the rest vote on direction
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function indicatorStrengthAdjustment(
+  trend: 'BULLISH' | 'BEARISH' | 'NEUTRAL',
+  indicators: IndicatorSnapshot | undefined,
+  price: number
+): number {
+  if (!indicators || trend === 'NEUTRAL') return 0;
+  
+  const signals = interpretIndicators(indicators, price);
+  const agreeing = trend === 'BULLISH' ? signals.bullish.length : signals.bearish.length;
+  const opposing = trend === 'BULLISH' ? signals.bearish.length : signals.bullish.length;
+  
+  let delta = (agreeing - opposing) * 2;
+  if (signals.trendStrength === 'STRONG') delta += 4;
+  else if (signals.trendStrength === 'WEAK') delta -= 4;
+  
+  return Math.max(-12, Math.min(12, delta));
+}
+
+function describeIndicators(label: string, indicators: IndicatorSnapshot | undefined, price: number): string | null {
+  if (!indicators) return null;
+  const signals = interpretIndicators(indicators, price);
+  if (signals.bullish.length === 0 && signals.bearish.length === 0) return null;
+  
+  const adx = indicators.adx ? ` | ADX ${indicators.adx.adx.toFixed(0)} (${signals.trendStrength})` : '';
+  return `📐 ${label} indicators: ${signals.bullish.length} bull / ${signals.bearish.length} bear${adx}`;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🎯 TOP-DOWN ANALYSIS — Uses Real Chart Data When Available
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -140,7 +177,8 @@ export function performTopDownAnalysis(
   low24h: number,
   change: number,
   chartData?: ChartTrendInput, // Real 24h chart data when available
-  multiTfData?: MultiTimeframeInput // Multi-timeframe analysis (15m, 1h, 4h, 1d)
+  multiTfData?: MultiTimeframeInput, // Multi-timeframe analysis (15m, 1h, 4h, 1d)
+  logger: BrainLogger = consoleLogger
 ): TopDownAnalysis {
   const range = high24h - low24h;
   const pricePosition = range > 0 ? ((price - low24h) / range) * 100 : 50;
@@ -150,13 +188,17 @@ export function performTopDownAnalysis(
   // ═══════════════════════════════════════════════════════════════════════════
   
   if (multiTfData && multiTfData['1h']) {
-    console.log(`[TopDown] Using REAL multi-timeframe data: 15m=${multiTfData['15m']?.trend || 'N/A'}, 1h=${multiTfData['1h']?.trend || 'N/A'}, 4h=${multiTfData['4h']?.trend || 'N/A'}, 1d=${multiTfData['1d']?.trend || 'N/A'}`);
+    logger.log(`[TopDown] Using REAL multi-timeframe data: 15m=${multiTfData['15m']?.trend || 'N/A'}, 1h=${multiTfData['1h']?.trend || 'N/A'}, 4h=${multiTfData['4h']?.trend || 'N/A'}, 1d=${multiTfData['1d']?.trend || 'N/A'}`);
+    
+    // Trend strength confirmed (or weakened) by that timeframe's indicators
+    const tfStrength = (tf: TimeframeAnalysisInput) =>
+      Math.max(0, Math.min(100, tf.trendStrength + indicatorStrengthAdjustment(tf.trend, tf.indicators, price)));
     
     // Build timeframes from REAL data
     const weekly: TimeframeBias = multiTfData['1d'] ? {
       timeframe: 'WEEKLY',
       trend: multiTfData['1d'].trend,
-      strength: multiTfData['1d'].trendStrength * 0.9,
+      strength: tfStrength(multiTfData['1d']) * 0.9,
       keyLevel: multiTfData['1d'].support,
       structure: multiTfData['1d'].higherHighs && multiTfData['1d'].higherLows ? 'UPTREND' :
                  multiTfData['1d'].lowerHighs && multiTfData['1d'].lowerLows ? 'DOWNTREND' : 'RANGE',
@@ -173,7 +215,7 @@ export function performTopDownAnalysis(
     const daily: TimeframeBias = multiTfData['1d'] ? {
       timeframe: 'DAILY',
       trend: multiTfData['1d'].trend,
-      strength: multiTfData['1d'].trendStrength,
+      strength: tfStrength(multiTfData['1d']),
       keyLevel: multiTfData['1d'].trend === 'BULLISH' ? multiTfData['1d'].support : multiTfData['1d'].resistance,
       structure: multiTfData['1d'].higherHighs && multiTfData['1d'].higherLows ? 'UPTREND' :
                  multiTfData['1d'].lowerHighs && multiTfData['1d'].lowerLows ? 'DOWNTREND' : 'RANGE',
@@ -190,7 +232,7 @@ export function performTopDownAnalysis(
     const h4: TimeframeBias = multiTfData['4h'] ? {
       timeframe: '4H',
       trend: multiTfData['4h'].trend,
-      strength: multiTfData['4h'].trendStrength,
+      strength: tfStrength(multiTfData['4h']),
       keyLevel: multiTfData['4h'].trend === 'BULLISH' ? multiTfData['4h'].support : multiTfData['4h'].resistance,
       structure: multiTfData['4h'].higherHighs && multiTfData['4h'].higherLows ? 'UPTREND' :
                  multiTfData['4h'].lowerHighs && multiTfData['4h'].lowerLows ? 'DOWNTREND' : 'RANGE',
@@ -207,7 +249,7 @@ export function performTopDownAnalysis(
     const h1: TimeframeBias = multiTfData['1h'] ? {
       timeframe: '1H',
       trend: multiTfData['1h'].trend,
-      strength: multiTfData['1h'].trendStrength,
+      strength: tfStrength(multiTfData['1h']),
       keyLevel: multiTfData['1h'].trend === 'BULLISH' ? multiTfData['1h'].support : multiTfData['1h'].resistance,
       structure: multiTfData['1h'].higherHighs && multiTfData['1h'].higherLows ? 'UPTREND' :
                  multiTfData['1h'].lowerHighs && multiTfData['1h'].lowerLows ? 'DOWNTREND' : 'RANGE',
@@ -224,7 +266,7 @@ export function performTopDownAnalysis(
     const m15: TimeframeBias = multiTfData['15m'] ? {
       timeframe: '15M',
       trend: multiTfData['15m'].trend,
-      strength: multiTfData['15m'].trendStrength,
+      strength: tfStrength(multiTfData['15m']),
       keyLevel: multiTfData['15m'].trend === 'BULLISH' ? multiTfData['15m'].support : multiTfData['15m'].resistance,
       structure: multiTfData['15m'].higherHighs && multiTfData['15m'].higherLows ? 'UPTREND' :
                  multiTfData['15m'].lowerHighs && multiTfData['15m'].lowerLows ? 'DOWNTREND' : 'RANGE',
@@ -294,6 +336,9 @@ export function performTopDownAnalysis(
     
     reasoning.push(`📊 Multi-TF Confluence: ${confluenceScore}%`);
     
+    const indicatorNote = describeIndicators('1H', multiTfData['1h'].indicators, price);
+    if (indicatorNote) reasoning.push(indicatorNote);
+    
     return {
       weekly, daily, h4, h1, m15,
       overallBias,
@@ -311,7 +356,7 @@ export function performTopDownAnalysis(
   
   if (chartData && chartData.isLive && chartData.candles.length >= 10) {
     // USE REAL CHART DATA — Most accurate trend detection
-    console.log(`[TopDown] Using REAL chart data: ${chartData.candles.length} candles, trend: ${chartData.trend24h}`);
+    logger.log(`[TopDown] Using REAL chart data: ${chartData.candles.length} candles, trend: ${chartData.trend24h}`);
     
     // EMA crossover for trend direction
     const emaCross = chartData.ema9 > chartData.ema21 ? 'BULLISH' : 
@@ -344,6 +389,9 @@ export function performTopDownAnalysis(
       chartStrength = Math.min(95, chartStrength + 3);
     }
     
+    // MACD / Supertrend / Ichimoku / ADX confirmation
+    chartStrength += indicatorStrengthAdjustment(chartTrend, chartData.indicators, price);
+    
     // Determine structure from real data
     const structure: 'UPTREND' | 'DOWNTREND' | 'RANGE' = 
       chartData.higherHighs && chartData.higherLows ? 'UPTREND' :
@@ -536,6 +584,9 @@ export function performTopDownAnalysis(
     reasoning.push(`⚠️ LOW confluence (${confluenceScore}%) — Wait for alignment`);
   }
   
+  const indicatorNote = chartData?.isLive ? describeIndicators('Chart', chartData.indicators, price) : null;
+  if (indicatorNote) reasoning.push(indicatorNote);
+  
   return {
     weekly,
     daily,
@@ -612,15 +663,50 @@ export function analyzeMarketStructure(
 // RULES:
 // 1. Risk/Reward: (Entry - Stop) < (Entry - Target) — ALWAYS
 // 2. No counter-trend trades in strong trends — Wait for pullback
+// 3. No market entry straight into a wall — Wait for it to be absorbed
 // ═══════════════════════════════════════════════════════════════════════════════
 
+// A wall within this distance of mid blocks an immediate entry into it
+const WALL_BLOCKING_PERCENT = 0.5;
+const LIQUIDITY_IMBALANCE = 0.2;
+
+const compactUsd = (value: number): string =>
+  value >= 1e9 ? `$${(value / 1e9).toFixed(2)}B`
+    : value >= 1e6 ? `$${(value / 1e6).toFixed(1)}M`
+      : `$${(value / 1e3).toFixed(0)}K`;
+
+// One line on where resting size sits: imbalance, spread and the nearest wall per side
+function describeLiquidity(orderBook: OrderBookInput, usd: (p: number) => string, tr: ReportTranslator): string {
+  const spread = orderBook.spreadPercent.toFixed(3);
+  const percent = Math.round(Math.abs(orderBook.imbalance) * 100);
+  const parts = [
+    orderBook.imbalance >= LIQUIDITY_IMBALANCE ? tr.t('entry.liquidityBidHeavy', { percent, spread })
+      : orderBook.imbalance <= -LIQUIDITY_IMBALANCE ? tr.t('entry.liquidityAskHeavy', { percent, spread })
+        : tr.t('entry.liquidityBalanced', { spread }),
+  ];
+  (['BID', 'ASK'] as const).forEach(side => {
+    const nearest = orderBook.walls
+      .filter(w => w.side === side)
+      .sort((a, b) => a.distancePercent - b.distancePercent)[0];
+    if (!nearest) return;
+    parts.push(tr.t(side === 'BID' ? 'entry.liquidityBidWall' : 'entry.liquidityAskWall', {
+      size: compactUsd(nearest.notional),
+      price: usd(nearest.price),
+      distance: nearest.distancePercent.toFixed(2),
+    }));
+  });
+  return parts.join(' · ');
+}
+
 export function generatePrecisionEntry(
   price: number,
   high24h: number,
   low24h: number,
   change: number,
   bias: 'LONG' | 'SHORT' | 'NEUTRAL',
-  volumeStrength: string
+  volumeStrength: string,
+  tr: ReportTranslator = englishReport,
+  orderBook?: OrderBookInput
 ): PrecisionEntry {
   const range = high24h - low24h;
   const pricePosition = range > 0 ? ((price - low24h) / range) * 100 : 50;
@@ -636,6 +722,7 @@ export function generatePrecisionEntry(
     return 0;
   };
   const dec = getDecimals(price);
+  const usd = (p: number) => `$${p.toFixed(dec)}`;
   
   const topDown = performTopDownAnalysis(price, high24h, low24h, change);
   
@@ -663,15 +750,20 @@ export function generatePrecisionEntry(
 
   // NO TRADE if confluence is low
   if (topDown.tradeableDirection === 'NO_TRADE' || topDown.confluenceScore < 45) {
+    const frames = [topDown.weekly, topDown.daily, topDown.h4, topDown.h1, topDown.m15];
     return {
       timing: 'AVOID',
-      zone: `$${support.toFixed(dec)} – $${resistance.toFixed(dec)}`,
-      trigger: `⚠️ NO TRADE — ${topDown.confluenceScore}% confluence (need 45%+)`,
-      confirmation: topDown.reasoning[0] || 'Wait for alignment',
-      invalidation: 'N/A',
+      zone: tr.t('entry.zoneRange', { low: usd(support), high: usd(resistance) }),
+      trigger: `⚠️ ${tr.t('entry.triggerNoTrade', { confluence: topDown.confluenceScore })}`,
+      confirmation: `⏸️ ${tr.t('entry.confirmMixed', {
+        bullish: frames.filter(tf => tf.trend === 'BULLISH').length,
+        bearish: frames.filter(tf => tf.trend === 'BEARISH').length,
+      })}`,
+      invalidation: tr.t('entry.invalidNone'),
       volumeCondition: volumeStrength,
-      structureStatus: 'Insufficient Confluence',
-      movementPhase: 'Wait for setup'
+      structureStatus: tr.t('entry.structureInsufficient'),
+      movementPhase: tr.t('entry.phaseWaitSetup'),
+      ...(orderBook ? { liquidity: describeLiquidity(orderBook, usd, tr) } : {})
     };
   }
 
@@ -691,12 +783,12 @@ export function generatePrecisionEntry(
       const risk = pullbackEntry - stopLoss;
       const reward = target - pullbackEntry;
       
-      zone = `Wait for pullback to $${fib382.toFixed(dec)} – $${fib618.toFixed(dec)}`;
-      trigger = `🟡 WAIT — Strong uptrend (+${change.toFixed(1)}%), wait for pullback to key support`;
-      confirmation = `Buy on bullish price action at $${fib500.toFixed(dec)} (50% Fib)`;
-      invalidation = `Below $${stopLoss.toFixed(dec)} — R:R ${(reward/risk).toFixed(1)}:1`;
-      structureStatus = `Strong Bullish (${trendStrength}% conf)`;
-      movementPhase = 'Waiting for Pullback';
+      zone = tr.t('entry.zonePullback', { low: usd(fib382), high: usd(fib618) });
+      trigger = `🟡 ${tr.t('entry.triggerStrongUptrend', { change: change.toFixed(1) })}`;
+      confirmation = tr.t('entry.confirmBuyFib50', { price: usd(fib500) });
+      invalidation = tr.t('entry.invalidBelowRiskReward', { price: usd(stopLoss), ratio: (reward/risk).toFixed(1) });
+      structureStatus = tr.t('entry.structureStrongBullish', { confluence: trendStrength });
+      movementPhase = tr.t('entry.phaseWaitingPullback');
       
     } else if (pricePosition < 35) {
       // Price in discount zone - optimal long entry
@@ -714,28 +806,28 @@ export function generatePrecisionEntry(
       if (risk >= reward) {
         // Adjust stop to ensure minimum 1.5:1 R:R
         const adjustedStop = entryPrice - (reward / 1.5);
-        zone = `Discount: $${entryPrice.toFixed(dec)} entry`;
-        trigger = '🟢 BUY — Price in discount with bullish confluence';
-        confirmation = `${topDown.confluenceScore}% confluence • Target: $${target1.toFixed(dec)}`;
-        invalidation = `Below $${adjustedStop.toFixed(dec)} — R:R 1.5:1`;
+        zone = tr.t('entry.zoneDiscount', { price: usd(entryPrice) });
+        trigger = `🟢 ${tr.t('entry.triggerBuyDiscount')}`;
+        confirmation = tr.t('entry.confirmConfluenceTarget', { confluence: topDown.confluenceScore, price: usd(target1) });
+        invalidation = tr.t('entry.invalidBelowRiskReward', { price: usd(adjustedStop), ratio: '1.5' });
       } else {
-        zone = `Discount: $${entryPrice.toFixed(dec)} entry`;
-        trigger = '🟢 BUY — Price in discount with bullish confluence';
-        confirmation = `${topDown.confluenceScore}% confluence • Target: $${target1.toFixed(dec)}`;
-        invalidation = `Below $${stopLoss.toFixed(dec)} — R:R ${(reward/risk).toFixed(1)}:1`;
+        zone = tr.t('entry.zoneDiscount', { price: usd(entryPrice) });
+        trigger = `🟢 ${tr.t('entry.triggerBuyDiscount')}`;
+        confirmation = tr.t('entry.confirmConfluenceTarget', { confluence: topDown.confluenceScore, price: usd(target1) });
+        invalidation = tr.t('entry.invalidBelowRiskReward', { price: usd(stopLoss), ratio: (reward/risk).toFixed(1) });
       }
-      structureStatus = `Bullish (${topDown.confluenceScore}% conf)`;
-      movementPhase = 'Accumulation';
+      structureStatus = tr.t('entry.structureBullish', { confluence: topDown.confluenceScore });
+      movementPhase = tr.t('entry.phaseAccumulation');
       
     } else if (pricePosition > 70) {
       // Extended - DO NOT chase, wait for pullback
       timing = 'WAIT_PULLBACK';
-      zone = `Wait: $${fib382.toFixed(dec)} – $${fib618.toFixed(dec)}`;
-      trigger = '🟡 WAIT — Extended, do not chase. Wait for pullback to support';
-      confirmation = `Retrace to Fib 38-62% zone with bullish confirmation candle`;
-      invalidation = `Below $${fib236.toFixed(dec)} (trend break)`;
-      structureStatus = 'Extended';
-      movementPhase = 'Wait for retracement';
+      zone = tr.t('entry.zoneWait', { low: usd(fib382), high: usd(fib618) });
+      trigger = `🟡 ${tr.t('entry.triggerExtended')}`;
+      confirmation = tr.t('entry.confirmRetraceLong');
+      invalidation = tr.t('entry.invalidTrendBreak', { price: usd(fib236) });
+      structureStatus = tr.t('entry.structureExtended');
+      movementPhase = tr.t('entry.phaseWaitRetracement');
       
     } else {
       // Mid-range - evaluate momentum
@@ -750,26 +842,26 @@ export function generatePrecisionEntry(
         
         // Ensure R:R compliance
         if (risk < reward) {
-          zone = `Entry: $${entryPrice.toFixed(dec)}`;
-          trigger = '🟢 BUY — Momentum active with trend';
-          confirmation = `Target: $${target.toFixed(dec)}`;
-          invalidation = `Below $${stopLoss.toFixed(dec)} — R:R ${(reward/risk).toFixed(1)}:1`;
+          zone = tr.t('entry.zoneEntry', { price: usd(entryPrice) });
+          trigger = `🟢 ${tr.t('entry.triggerBuyMomentum')}`;
+          confirmation = tr.t('entry.confirmTarget', { price: usd(target) });
+          invalidation = tr.t('entry.invalidBelowRiskReward', { price: usd(stopLoss), ratio: (reward/risk).toFixed(1) });
         } else {
           timing = 'WAIT_PULLBACK';
-          zone = `Wait: $${fib382.toFixed(dec)} – $${fib500.toFixed(dec)}`;
-          trigger = '🟡 WAIT — R:R not favorable, wait for better entry';
-          confirmation = 'Wait for pullback to improve risk/reward';
-          invalidation = `Below $${fib236.toFixed(dec)}`;
+          zone = tr.t('entry.zoneWait', { low: usd(fib382), high: usd(fib500) });
+          trigger = `🟡 ${tr.t('entry.triggerRiskRewardLong')}`;
+          confirmation = tr.t('entry.confirmPullbackRiskReward');
+          invalidation = tr.t('entry.invalidBelow', { price: usd(fib236) });
         }
       } else {
         timing = 'WAIT_PULLBACK';
-        zone = `Wait: $${fib382.toFixed(dec)} – $${fib500.toFixed(dec)}`;
-        trigger = '🟡 WAIT — Better entry at support zone';
-        confirmation = `Buy on bullish price action at Fib levels`;
-        invalidation = `Below $${support.toFixed(dec)}`;
+        zone = tr.t('entry.zoneWait', { low: usd(fib382), high: usd(fib500) });
+        trigger = `🟡 ${tr.t('entry.triggerSupport')}`;
+        confirmation = tr.t('entry.confirmBuyFib');
+        invalidation = tr.t('entry.invalidBelow', { price: usd(support) });
       }
-      structureStatus = 'Trending';
-      movementPhase = change > 1 ? 'Impulse' : 'Wait for retracement';
+      structureStatus = tr.t('entry.structureTrending');
+      movementPhase = tr.t(change > 1 ? 'entry.phaseImpulse' : 'entry.phaseWaitRetracement');
     }
     
   // ═══════════════════════════════════════════════════════════════════════════
@@ -788,12 +880,12 @@ export function generatePrecisionEntry(
       const risk = stopLoss - pullbackEntry;
       const reward = pullbackEntry - target;
       
-      zone = `Wait for relief rally to $${fib382.toFixed(dec)} – $${fib618.toFixed(dec)}`;
-      trigger = `🟡 WAIT — Strong downtrend (${change.toFixed(1)}%), wait for bounce to key resistance`;
-      confirmation = `Sell on bearish price action at $${fib500.toFixed(dec)} (50% Fib)`;
-      invalidation = `Above $${stopLoss.toFixed(dec)} — R:R ${(reward/risk).toFixed(1)}:1`;
-      structureStatus = `Strong Bearish (${trendStrength}% conf)`;
-      movementPhase = 'Waiting for Pullback';
+      zone = tr.t('entry.zoneReliefRally', { low: usd(fib382), high: usd(fib618) });
+      trigger = `🟡 ${tr.t('entry.triggerStrongDowntrend', { change: change.toFixed(1) })}`;
+      confirmation = tr.t('entry.confirmSellFib50', { price: usd(fib500) });
+      invalidation = tr.t('entry.invalidAboveRiskReward', { price: usd(stopLoss), ratio: (reward/risk).toFixed(1) });
+      structureStatus = tr.t('entry.structureStrongBearish', { confluence: trendStrength });
+      movementPhase = tr.t('entry.phaseWaitingPullback');
       
     } else if (pricePosition > 65) {
       // Price in premium zone - optimal short entry
@@ -811,18 +903,18 @@ export function generatePrecisionEntry(
       if (risk >= reward) {
         // Adjust stop to ensure minimum 1.5:1 R:R
         const adjustedStop = entryPrice + (reward / 1.5);
-        zone = `Premium: $${entryPrice.toFixed(dec)} entry`;
-        trigger = '🔴 SELL — Price in premium with bearish confluence';
-        confirmation = `${topDown.confluenceScore}% confluence • Target: $${target1.toFixed(dec)}`;
-        invalidation = `Above $${adjustedStop.toFixed(dec)} — R:R 1.5:1`;
+        zone = tr.t('entry.zonePremium', { price: usd(entryPrice) });
+        trigger = `🔴 ${tr.t('entry.triggerSellPremium')}`;
+        confirmation = tr.t('entry.confirmConfluenceTarget', { confluence: topDown.confluenceScore, price: usd(target1) });
+        invalidation = tr.t('entry.invalidAboveRiskReward', { price: usd(adjustedStop), ratio: '1.5' });
       } else {
-        zone = `Premium: $${entryPrice.toFixed(dec)} entry`;
-        trigger = '🔴 SELL — Price in premium with bearish confluence';
-        confirmation = `${topDown.confluenceScore}% confluence • Target: $${target1.toFixed(dec)}`;
-        invalidation = `Above $${stopLoss.toFixed(dec)} — R:R ${(reward/risk).toFixed(1)}:1`;
+        zone = tr.t('entry.zonePremium', { price: usd(entryPrice) });
+        trigger = `🔴 ${tr.t('entry.triggerSellPremium')}`;
+        confirmation = tr.t('entry.confirmConfluenceTarget', { confluence: topDown.confluenceScore, price: usd(target1) });
+        invalidation = tr.t('entry.invalidAboveRiskReward', { price: usd(stopLoss), ratio: (reward/risk).toFixed(1) });
       }
-      structureStatus = `Bearish (${topDown.confluenceScore}% conf)`;
-      movementPhase = 'Distribution';
+      structureStatus = tr.t('entry.structureBearish', { confluence: topDown.confluenceScore });
+      movementPhase = tr.t('entry.phaseDistribution');
       
     } else if (pricePosition < 30) {
       // Check if breakdown confirmed
@@ -839,28 +931,28 @@ export function generatePrecisionEntry(
         const reward = entryPrice - target;
         
         if (risk < reward) {
-          zone = `Breakdown: $${entryPrice.toFixed(dec)} entry`;
-          trigger = '🔴 SELL — Breakdown confirmed, momentum short';
-          confirmation = `Price below support, ${Math.abs(change).toFixed(1)}% sell pressure`;
-          invalidation = `Above $${stopLoss.toFixed(dec)} — R:R ${(reward/risk).toFixed(1)}:1`;
+          zone = tr.t('entry.zoneBreakdown', { price: usd(entryPrice) });
+          trigger = `🔴 ${tr.t('entry.triggerSellBreakdown')}`;
+          confirmation = tr.t('entry.confirmBelowSupport', { percent: Math.abs(change).toFixed(1) });
+          invalidation = tr.t('entry.invalidAboveRiskReward', { price: usd(stopLoss), ratio: (reward/risk).toFixed(1) });
         } else {
           timing = 'WAIT_PULLBACK';
-          zone = `Wait: $${fib382.toFixed(dec)} – $${fib500.toFixed(dec)}`;
-          trigger = '🟡 WAIT — R:R not favorable after breakdown';
-          confirmation = 'Wait for bounce to short with better R:R';
-          invalidation = `Above $${fib618.toFixed(dec)}`;
+          zone = tr.t('entry.zoneWait', { low: usd(fib382), high: usd(fib500) });
+          trigger = `🟡 ${tr.t('entry.triggerRiskRewardBreakdown')}`;
+          confirmation = tr.t('entry.confirmBounceShort');
+          invalidation = tr.t('entry.invalidAbove', { price: usd(fib618) });
         }
-        structureStatus = 'Breakdown Active';
-        movementPhase = 'Impulse Down';
+        structureStatus = tr.t('entry.structureBreakdown');
+        movementPhase = tr.t('entry.phaseImpulseDown');
       } else {
         // Oversold - wait for relief rally
         timing = 'WAIT_PULLBACK';
-        zone = `Wait: $${fib382.toFixed(dec)} – $${fib618.toFixed(dec)}`;
-        trigger = '🟡 WAIT — Oversold, wait for relief rally to short';
-        confirmation = 'Bounce to Fib 38-62% zone for short entry with bearish candle';
-        invalidation = `Above $${resistance.toFixed(dec)} (trend reversal)`;
-        structureStatus = 'Oversold';
-        movementPhase = 'Wait for retracement';
+        zone = tr.t('entry.zoneWait', { low: usd(fib382), high: usd(fib618) });
+        trigger = `🟡 ${tr.t('entry.triggerOversold')}`;
+        confirmation = tr.t('entry.confirmBounceFib');
+        invalidation = tr.t('entry.invalidTrendReversal', { price: usd(resistance) });
+        structureStatus = tr.t('entry.structureOversold');
+        movementPhase = tr.t('entry.phaseWaitRetracement');
       }
       
     } else {
@@ -875,48 +967,64 @@ export function generatePrecisionEntry(
         const reward = entryPrice - target;
         
         if (risk < reward) {
-          zone = `Entry: $${entryPrice.toFixed(dec)}`;
-          trigger = '🔴 SELL — Momentum active with trend';
-          confirmation = `Target: $${target.toFixed(dec)}`;
-          invalidation = `Above $${stopLoss.toFixed(dec)} — R:R ${(reward/risk).toFixed(1)}:1`;
+          zone = tr.t('entry.zoneEntry', { price: usd(entryPrice) });
+          trigger = `🔴 ${tr.t('entry.triggerSellMomentum')}`;
+          confirmation = tr.t('entry.confirmTarget', { price: usd(target) });
+          invalidation = tr.t('entry.invalidAboveRiskReward', { price: usd(stopLoss), ratio: (reward/risk).toFixed(1) });
         } else {
           timing = 'WAIT_PULLBACK';
-          zone = `Wait: $${fib500.toFixed(dec)} – $${fib618.toFixed(dec)}`;
-          trigger = '🟡 WAIT — R:R not favorable, wait for bounce';
-          confirmation = 'Wait for relief rally to improve risk/reward';
-          invalidation = `Above $${fib786.toFixed(dec)}`;
+          zone = tr.t('entry.zoneWait', { low: usd(fib500), high: usd(fib618) });
+          trigger = `🟡 ${tr.t('entry.triggerRiskRewardShort')}`;
+          confirmation = tr.t('entry.confirmReliefRiskReward');
+          invalidation = tr.t('entry.invalidAbove', { price: usd(fib786) });
         }
       } else {
         timing = 'WAIT_PULLBACK';
-        zone = `Wait: $${fib500.toFixed(dec)} – $${fib618.toFixed(dec)}`;
-        trigger = '🟡 WAIT — Better entry at resistance zone';
-        confirmation = `Sell on bearish price action at Fib levels`;
-        invalidation = `Above $${resistance.toFixed(dec)}`;
+        zone = tr.t('entry.zoneWait', { low: usd(fib500), high: usd(fib618) });
+        trigger = `🟡 ${tr.t('entry.triggerResistance')}`;
+        confirmation = tr.t('entry.confirmSellFib');
+        invalidation = tr.t('entry.invalidAbove', { price: usd(resistance) });
       }
-      structureStatus = 'Trending';
-      movementPhase = change < -1 ? 'Impulse' : 'Wait for retracement';
+      structureStatus = tr.t('entry.structureTrending');
+      movementPhase = tr.t(change < -1 ? 'entry.phaseImpulse' : 'entry.phaseWaitRetracement');
     }
     
   } else {
     // NEUTRAL bias — no clear direction
     timing = 'AVOID';
-    zone = `Range: $${fib382.toFixed(dec)} – $${fib618.toFixed(dec)}`;
-    trigger = '⏸️ NO TRADE — Neutral bias, wait for direction';
-    confirmation = 'Wait for breakout or breakdown with volume confirmation';
-    invalidation = 'N/A';
-    structureStatus = 'Neutral';
-    movementPhase = 'Consolidation';
+    zone = tr.t('entry.zoneRangeLabel', { low: usd(fib382), high: usd(fib618) });
+    trigger = `⏸️ ${tr.t('entry.triggerNeutral')}`;
+    confirmation = tr.t('entry.confirmNeutral');
+    invalidation = tr.t('entry.invalidNone');
+    structureStatus = tr.t('entry.structureNeutral');
+    movementPhase = tr.t('entry.phaseConsolidation');
+  }
+
+  // RULE 3: a wall right in the trade's path turns a market entry into a breakout wait
+  if (orderBook && timing === 'NOW') {
+    const direction = bias === 'LONG' || topDown.tradeableDirection === 'LONG' ? 'LONG' : 'SHORT';
+    const blocking: OrderBookWall | undefined = orderBook.walls.find(w =>
+      w.side === (direction === 'LONG' ? 'ASK' : 'BID') && w.distancePercent <= WALL_BLOCKING_PERCENT
+    );
+    if (blocking) {
+      timing = 'WAIT_BREAKOUT';
+      trigger = `🟡 ${tr.t(direction === 'LONG' ? 'entry.triggerAskWallAhead' : 'entry.triggerBidWallAhead', {
+        size: compactUsd(blocking.notional),
+        price: usd(blocking.price),
+      })}`;
+    }
   }
 
   return {
     timing,
-    zone: zone || `$${support.toFixed(dec)} – $${resistance.toFixed(dec)}`,
-    trigger: trigger || 'Wait for setup',
-    confirmation: confirmation || 'Pending',
-    invalidation: invalidation || 'N/A',
+    zone: zone || tr.t('entry.zoneRange', { low: usd(support), high: usd(resistance) }),
+    trigger: trigger || tr.t('entry.triggerDefault'),
+    confirmation: confirmation || tr.t('entry.confirmPending'),
+    invalidation: invalidation || tr.t('entry.invalidNone'),
     volumeCondition: volumeStrength,
-    structureStatus: structureStatus || 'Undefined',
-    movementPhase: movementPhase || 'Unknown'
+    structureStatus: structureStatus || tr.t('entry.structureUndefined'),
+    movementPhase: movementPhase || tr.t('entry.phaseUnknown'),
+    ...(orderBook ? { liquidity: describeLiquidity(orderBook, usd, tr) } : {})
   };
 }
 
@@ -931,86 +1039,151 @@ export function calculateFinalBias(data: {
   fearGreed: number;
   institutionalBias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
   onChainTrend: 'OUTFLOW' | 'INFLOW' | 'NEUTRAL';
-}): { bias: 'LONG' | 'SHORT' | 'NEUTRAL'; confidence: number; insights: string[] } {
-  const { priceChange, pricePosition, fearGreed, institutionalBias, onChainTrend, volumeStrength } = data;
-  const insights: string[] = [];
+  indicators?: IndicatorSnapshot; // Optional — scored only when chart candles are available
+  price?: number;
+  patterns?: DetectedPattern[]; // Optional — from analyzePatterns over chart + multi-TF candles
+  crossAsset?: CrossAssetAnalysis | null; // Optional — correlation to BTC/ETH and the market regime
+  derivatives?: DerivativesInput | null; // Optional — perpetual funding, open interest and liquidations
+  derived?: BiasFactorId[]; // Factors whose input was estimated rather than measured
+  excludeDerived?: boolean; // Score derived factors as 0 and drop their insights
+}, tr: ReportTranslator = englishReport): { bias: 'LONG' | 'SHORT' | 'NEUTRAL'; confidence: number; insights: BiasInsight[]; factors: BiasFactor[]; bullishPoints: number; bearishPoints: number } {
+  const { priceChange, pricePosition, fearGreed, institutionalBias, onChainTrend, volumeStrength, indicators, price, patterns, crossAsset, derivatives, derived = [], excludeDerived = false } = data;
+  const insights: BiasInsight[] = [];
+  const bullish = (text: string): BiasInsight => ({ text, tone: 'BULLISH', kind: 'factor' });
+  const bearish = (text: string): BiasInsight => ({ text, tone: 'BEARISH', kind: 'factor' });
+  const factors: BiasFactor[] = [];
 
-  // Weighted scoring (max 17 points)
+  // Weighted scoring (max 28 points with indicators + patterns + cross-asset + derivatives, 17 without)
   let bullishPoints = 0;
   let bearishPoints = 0;
 
+  // Every scored factor is recorded, including neutral ones, so the verdict can be audited
+  const score = (id: BiasFactorId, label: string, weight: number, points: number, detail: string, insight?: BiasInsight) => {
+    const source = derived.includes(id) ? 'DERIVED' : 'REAL';
+    if (source === 'DERIVED' && excludeDerived) {
+      factors.push({ id, label, points: 0, weight, source, detail, excluded: true });
+      return;
+    }
+    if (points > 0) bullishPoints += points;
+    else bearishPoints -= points;
+    if (insight) insights.push(insight);
+    factors.push({ id, label, points, weight, source, detail });
+  };
+
   // 1. PRICE DIRECTION (weight: 4) — PRIMARY SIGNAL
-  if (priceChange >= 4) { 
-    bullishPoints += 4; 
-    insights.push(`🚀 Strong uptrend (+${priceChange.toFixed(1)}%)`); 
-  } else if (priceChange >= 2) { 
-    bullishPoints += 3;
-    insights.push(`📈 Bullish momentum (+${priceChange.toFixed(1)}%)`);
-  } else if (priceChange >= 0.5) { 
-    bullishPoints += 2;
-    insights.push(`↗️ Mild bullish (+${priceChange.toFixed(1)}%)`);
-  } else if (priceChange <= -4) { 
-    bearishPoints += 4; 
-    insights.push(`📉 Strong downtrend (${priceChange.toFixed(1)}%)`); 
-  } else if (priceChange <= -2) { 
-    bearishPoints += 3;
-    insights.push(`📉 Bearish momentum (${priceChange.toFixed(1)}%)`);
-  } else if (priceChange <= -0.5) { 
-    bearishPoints += 2;
-    insights.push(`↘️ Mild bearish (${priceChange.toFixed(1)}%)`);
+  const changeText = `${priceChange >= 0 ? '+' : ''}${priceChange.toFixed(1)}%`;
+  if (priceChange >= 4) {
+    score('price-direction', 'Price direction', 4, 4, `${changeText} in 24h`, bullish(`🚀 ${tr.t('insight.strongUptrend', { change: changeText })}`));
+  } else if (priceChange >= 2) {
+    score('price-direction', 'Price direction', 4, 3, `${changeText} in 24h`, bullish(`📈 ${tr.t('insight.bullishMomentum', { change: changeText })}`));
+  } else if (priceChange >= 0.5) {
+    score('price-direction', 'Price direction', 4, 2, `${changeText} in 24h`, bullish(`↗️ ${tr.t('insight.mildBullish', { change: changeText })}`));
+  } else if (priceChange <= -4) {
+    score('price-direction', 'Price direction', 4, -4, `${changeText} in 24h`, bearish(`📉 ${tr.t('insight.strongDowntrend', { change: changeText })}`));
+  } else if (priceChange <= -2) {
+    score('price-direction', 'Price direction', 4, -3, `${changeText} in 24h`, bearish(`📉 ${tr.t('insight.bearishMomentum', { change: changeText })}`));
+  } else if (priceChange <= -0.5) {
+    score('price-direction', 'Price direction', 4, -2, `${changeText} in 24h`, bearish(`↘️ ${tr.t('insight.mildBearish', { change: changeText })}`));
   } else {
-    insights.push(`➡️ Sideways (${priceChange.toFixed(1)}%)`);
+    score('price-direction', 'Price direction', 4, 0, `${changeText} in 24h`, { text: `➡️ ${tr.t('insight.sideways', { change: `${priceChange.toFixed(1)}%` })}`, tone: 'NEUTRAL', kind: 'factor' });
   }
 
   // 2. PRICE POSITION (weight: 3)
-  if (pricePosition < 25) { 
-    bullishPoints += 3; 
-    insights.push('💎 Deep discount — Optimal buy zone'); 
-  } else if (pricePosition < 40) { 
-    bullishPoints += 2; 
-  } else if (pricePosition > 75) { 
-    bearishPoints += 3; 
-    insights.push('⚠️ Premium zone — Caution'); 
-  } else if (pricePosition > 60) { 
-    bearishPoints += 2; 
+  const positionText = `${pricePosition.toFixed(0)}% of the 24h range`;
+  if (pricePosition < 25) {
+    score('price-position', 'Range position', 3, 3, positionText, bullish(`💎 ${tr.t('insight.deepDiscount')}`));
+  } else if (pricePosition < 40) {
+    score('price-position', 'Range position', 3, 2, positionText);
+  } else if (pricePosition > 75) {
+    score('price-position', 'Range position', 3, -3, positionText, bearish(`⚠️ ${tr.t('insight.premiumZone')}`));
+  } else if (pricePosition > 60) {
+    score('price-position', 'Range position', 3, -2, positionText);
+  } else {
+    score('price-position', 'Range position', 3, 0, positionText);
   }
 
   // 3. FEAR & GREED (weight: 2) — Contrarian
-  if (fearGreed < 25) { 
-    bullishPoints += 2; 
-    insights.push('😱 Extreme Fear — Contrarian BUY'); 
-  } else if (fearGreed > 75) { 
-    bearishPoints += 2; 
-    insights.push('🤑 Extreme Greed — Contrarian SELL'); 
+  const fearGreedText = `Index ${fearGreed} (contrarian)`;
+  if (fearGreed < 25) {
+    score('fear-greed', 'Fear & Greed', 2, 2, fearGreedText, bullish(`😱 ${tr.t('insight.extremeFear')}`));
+  } else if (fearGreed > 75) {
+    score('fear-greed', 'Fear & Greed', 2, -2, fearGreedText, bearish(`🤑 ${tr.t('insight.extremeGreed')}`));
+  } else {
+    score('fear-greed', 'Fear & Greed', 2, 0, fearGreedText);
   }
 
   // 4. INSTITUTIONAL BIAS (weight: 3)
-  if (institutionalBias === 'BULLISH') { 
-    bullishPoints += 3; 
-    insights.push('🏦 Institutions buying'); 
-  } else if (institutionalBias === 'BEARISH') { 
-    bearishPoints += 3; 
-    insights.push('🏦 Institutions selling'); 
+  const institutionalText = `Institutions ${institutionalBias.toLowerCase()}`;
+  if (institutionalBias === 'BULLISH') {
+    score('institutional', 'Institutional flow', 3, 3, institutionalText, bullish(`🏦 ${tr.t('insight.institutionsBuying')}`));
+  } else if (institutionalBias === 'BEARISH') {
+    score('institutional', 'Institutional flow', 3, -3, institutionalText, bearish(`🏦 ${tr.t('insight.institutionsSelling')}`));
+  } else {
+    score('institutional', 'Institutional flow', 3, 0, institutionalText);
   }
 
   // 5. ON-CHAIN (weight: 3)
-  if (onChainTrend === 'OUTFLOW') { 
-    bullishPoints += 3; 
-    insights.push('🔗 Exchange outflows — Accumulation'); 
-  } else if (onChainTrend === 'INFLOW') { 
-    bearishPoints += 3; 
-    insights.push('🔗 Exchange inflows — Distribution'); 
+  if (onChainTrend === 'OUTFLOW') {
+    score('on-chain', 'Exchange net flow', 3, 3, 'Net outflow', bullish(`🔗 ${tr.t('insight.exchangeOutflows')}`));
+  } else if (onChainTrend === 'INFLOW') {
+    score('on-chain', 'Exchange net flow', 3, -3, 'Net inflow', bearish(`🔗 ${tr.t('insight.exchangeInflows')}`));
+  } else {
+    score('on-chain', 'Exchange net flow', 3, 0, 'Balanced flows');
   }
 
   // 6. VOLUME (weight: 2)
-  if (volumeStrength === 'HIGH') {
-    if (priceChange > 0) {
-      bullishPoints += 2;
-      insights.push('📊 High volume confirms bulls');
-    } else if (priceChange < 0) {
-      bearishPoints += 2;
-      insights.push('📊 High volume confirms bears');
+  const volumeText = `${volumeStrength.charAt(0)}${volumeStrength.slice(1).toLowerCase()} volume`;
+  if (volumeStrength === 'HIGH' && priceChange > 0) {
+    score('volume', 'Volume', 2, 2, volumeText, bullish(`📊 ${tr.t('insight.volumeConfirmsBulls')}`));
+  } else if (volumeStrength === 'HIGH' && priceChange < 0) {
+    score('volume', 'Volume', 2, -2, volumeText, bearish(`📊 ${tr.t('insight.volumeConfirmsBears')}`));
+  } else {
+    score('volume', 'Volume', 2, 0, volumeText);
+  }
+
+  // 7. INDICATORS (weight: 3) — MACD, Supertrend, Ichimoku, StochRSI, OBV, ADX
+  if (indicators && price) {
+    const signals = interpretIndicators(indicators, price);
+    const net = signals.bullish.length - signals.bearish.length;
+    const indicatorText = `${signals.bullish.length} bullish / ${signals.bearish.length} bearish signals`;
+    if (net >= 3) {
+      score('indicators', 'Indicators', 3, 3, indicatorText, bullish(`📐 ${tr.t('insight.indicatorsBullish', { signals: signals.bullish.join(', ') })}`));
+    } else if (net >= 1) {
+      score('indicators', 'Indicators', 3, 1, indicatorText);
+    } else if (net <= -3) {
+      score('indicators', 'Indicators', 3, -3, indicatorText, bearish(`📐 ${tr.t('insight.indicatorsBearish', { signals: signals.bearish.join(', ') })}`));
+    } else if (net <= -1) {
+      score('indicators', 'Indicators', 3, -1, indicatorText);
+    } else {
+      score('indicators', 'Indicators', 3, 0, indicatorText);
     }
+    if (signals.squeeze) {
+      insights.push({ text: `🗜️ ${tr.t('insight.bollingerSqueeze')}`, tone: 'INFO', kind: 'factor' });
+    }
+  }
+
+  // 8. PATTERNS (weight: 2) — Candlestick + chart patterns, weighted by timeframe and recency
+  if (patterns && patterns.length > 0) {
+    const patternScore = scorePatterns(patterns);
+    const net = patternScore.bullish - patternScore.bearish;
+    const patternPoints = net >= 1 ? 2 : net >= 0.4 ? 1 : net <= -1 ? -2 : net <= -0.4 ? -1 : 0;
+    const lead = net >= 0.4 ? patternScore.strongestBullish : net <= -0.4 ? patternScore.strongestBearish : null;
+    const patternText = lead
+      ? `${lead.timeframe === 'chart' ? '1H' : lead.timeframe.toUpperCase()} ${lead.name}`
+      : `${patterns.length} mixed pattern(s)`;
+    score('patterns', 'Patterns', 2, patternPoints, patternText, lead ? { text: describePattern(lead, tr), tone: lead.direction, kind: 'pattern' } : undefined);
+  }
+
+  // 9. CROSS-ASSET (weight: 3) — BTC structure for correlated alts, market regime for all
+  if (crossAsset) {
+    const signal = scoreCrossAsset(crossAsset, tr);
+    score('cross-asset', 'Cross-asset', 3, signal.points, signal.detail, signal.insight ? { text: signal.insight, tone: 'INFO', kind: 'cross-asset' } : undefined);
+  }
+
+  // 10. DERIVATIVES (weight: 3) — Funding extremes (contrarian), OI vs price, liquidation cascades
+  if (derivatives) {
+    const signal = scoreDerivatives(derivatives, tr);
+    score('derivatives', 'Derivatives', 3, signal.points, signal.detail, signal.insight ? { ...signal.insight, kind: 'factor' } : undefined);
   }
 
   // Calculate final bias
@@ -1024,26 +1197,26 @@ export function calculateFinalBias(data: {
   if (netBias >= 4 && bullishPoints >= 6) {
     bias = 'LONG';
     confidence = Math.min(85, 60 + netBias * 2.5);
-    insights.unshift(`🎯 BULLISH — ${bullishPoints} bull vs ${bearishPoints} bear factors`);
+    insights.unshift({ text: `🎯 ${tr.t('insight.factorsBullish', { bullish: bullishPoints, bearish: bearishPoints })}`, tone: 'BULLISH', kind: 'summary' });
   } else if (netBias <= -4 && bearishPoints >= 6) {
     bias = 'SHORT';
     confidence = Math.min(85, 60 + Math.abs(netBias) * 2.5);
-    insights.unshift(`🎯 BEARISH — ${bearishPoints} bear vs ${bullishPoints} bull factors`);
+    insights.unshift({ text: `🎯 ${tr.t('insight.factorsBearish', { bullish: bullishPoints, bearish: bearishPoints })}`, tone: 'BEARISH', kind: 'summary' });
   } else if (netBias >= 2) {
     bias = 'LONG';
     confidence = 52 + netBias * 2;
-    insights.unshift(`📊 Lean BULLISH — Moderate signal`);
+    insights.unshift({ text: `📊 ${tr.t('insight.leanBullish')}`, tone: 'BULLISH', kind: 'summary' });
   } else if (netBias <= -2) {
     bias = 'SHORT';
     confidence = 52 + Math.abs(netBias) * 2;
-    insights.unshift(`📊 Lean BEARISH — Moderate signal`);
+    insights.unshift({ text: `📊 ${tr.t('insight.leanBearish')}`, tone: 'BEARISH', kind: 'summary' });
   } else {
     bias = 'NEUTRAL';
     confidence = 48;
-    insights.unshift(`⏸️ NEUTRAL — No clear edge`);
+    insights.unshift({ text: `⏸️ ${tr.t('insight.noEdge')}`, tone: 'NEUTRAL', kind: 'summary' });
   }
 
-  return { bias, confidence, insights };
+  return { bias, confidence, insights, factors, bullishPoints, bearishPoints };
 }
 
 // Export types
@@ -5,6 +5,7 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { runClientSideAnalysis } from './index';
+import { createAnalysisContext } from './context';
 
 // Verification function
 function verifyResult(result: ReturnType<typeof runClientSideAnalysis>, testName: string) {
@@ -55,12 +56,14 @@ export function testClientSideAnalysis() {
     }
   ];
 
+  // Isolated context — the self-test must not train the live neural state
+  const ctx = createAnalysisContext();
   let allPassed = true;
   const results: Array<{name: string; bias: string; confidence: number; timing: string; ms: number}> = [];
 
   for (const test of tests) {
     const start = performance.now();
-    const result = runClientSideAnalysis({ ...test.input, language: 'en' });
+    const result = runClientSideAnalysis({ ...test.input, language: 'en' }, ctx);
     const ms = performance.now() - start;
     
     const passed = verifyResult(result, test.name);
@@ -89,7 +92,7 @@ export function testClientSideAnalysis() {
   console.log('═══════════════════════════════════════════════════════════════\n');
 
   // Return the full BTC result for inspection
-  const btcResult = runClientSideAnalysis(tests[0].input);
+  const btcResult = runClientSideAnalysis(tests[0].input, ctx);
   console.log('📝 SAMPLE BTC ANALYSIS OUTPUT:\n');
   console.log(btcResult.analysis);
 
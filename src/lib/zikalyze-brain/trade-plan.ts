@@ -0,0 +1,206 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 TRADE PLAN — Entry range, stop, TP1-3 and position size from ATR + swings
+// ═══════════════════════════════════════════════════════════════════════════════
+// Stops sit beyond the nearest swing (plus an ATR buffer) and are clamped to
+// 1–3× ATR so one wick can't take them out and one stop can't sink the account.
+// Targets prefer real swing levels and fall back to R multiples.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  ChartTrendInput,
+  MultiTimeframeInput,
+  PositionSize,
+  PrecisionEntry,
+  RiskSettings,
+  TakeProfitLevel,
+  TradePlan,
+} from './types';
+import { englishReport, ReportTranslator } from './report-i18n';
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  accountSize: 10000,
+  riskPercent: 1,
+};
+
+const MIN_STOP_ATR = 1;
+const MAX_STOP_ATR = 3;
+const SWING_BUFFER_ATR = 0.25;
+const SCALE_OUT = [50, 30, 20]; // % closed at TP1 / TP2 / TP3
+
+interface SwingLevels {
+  supports: number[];    // Below price, nearest first
+  resistances: number[]; // Above price, nearest first
+}
+
+// Pivot highs/lows (2 bars each side) + multi-TF S/R + the 24h extremes
+function collectSwingLevels(
+  price: number,
+  high24h: number,
+  low24h: number,
+  chartData?: ChartTrendInput,
+  multiTfData?: MultiTimeframeInput
+): SwingLevels {
+  const levels: number[] = [high24h, low24h];
+
+  const candles = chartData?.candles || [];
+  for (let i = 2; i < candles.length - 2; i++) {
+    const c = candles[i];
+    const neighbours = [candles[i - 2], candles[i - 1], candles[i + 1], candles[i + 2]];
+    if (neighbours.every(n => c.high >= n.high)) levels.push(c.high);
+    if (neighbours.every(n => c.low <= n.low)) levels.push(c.low);
+  }
+
+  if (multiTfData) {
+    (['15m', '1h', '4h', '1d'] as const).forEach(tf => {
+      const data = multiTfData[tf];
+      if (data) levels.push(data.support, data.resistance);
+    });
+  }
+
+  const valid = levels.filter(l => Number.isFinite(l) && l > 0);
+  return {
+    supports: [...new Set(valid.filter(l => l < price))].sort((a, b) => b - a),
+    resistances: [...new Set(valid.filter(l => l > price))].sort((a, b) => a - b),
+  };
+}
+
+// 1h ATR from the indicator library, else estimated from the 24h range (√24 hourly bars)
+export function resolveATR(
+  high24h: number,
+  low24h: number,
+  chartData?: ChartTrendInput,
+  multiTfData?: MultiTimeframeInput
+): { atr: number; source: TradePlan['atrSource'] } {
+  const atr = (chartData?.isLive ? chartData.indicators?.atr : null) ?? multiTfData?.['1h']?.indicators?.atr;
+  if (atr && atr > 0) return { atr, source: 'indicator' };
+  return { atr: Math.max(high24h - low24h, 0) / Math.sqrt(24), source: 'estimated' };
+}
+
+export function sizePosition(entryPrice: number, stopLoss: number, settings?: RiskSettings | null): PositionSize | null {
+  if (!settings || !(settings.accountSize > 0) || !(settings.riskPercent > 0)) return null;
+  const riskPerUnit = Math.abs(entryPrice - stopLoss);
+  if (!(riskPerUnit > 0)) return null;
+
+  const riskAmount = settings.accountSize * (settings.riskPercent / 100);
+  const units = riskAmount / riskPerUnit;
+  const notional = units * entryPrice;
+  return {
+    accountSize: settings.accountSize,
+    riskPercent: settings.riskPercent,
+    riskAmount,
+    units,
+    notional,
+    leverage: notional / settings.accountSize,
+  };
+}
+
+export function buildTradePlan(params: {
+  bias: 'LONG' | 'SHORT' | 'NEUTRAL';
+  timing: PrecisionEntry['timing'];
+  price: number;
+  high24h: number;
+  low24h: number;
+  decimals: number;
+  chartData?: ChartTrendInput;
+  multiTfData?: MultiTimeframeInput;
+  riskSettings?: RiskSettings;
+  tr?: ReportTranslator; // Language of stop/target bases
+}): TradePlan | null {
+  const { bias, timing, price, high24h, low24h, decimals, chartData, multiTfData, riskSettings, tr = englishReport } = params;
+  if (bias === 'NEUTRAL' || !(price > 0)) return null;
+
+  const { atr: rawAtr, source: atrSource } = resolveATR(high24h, low24h, chartData, multiTfData);
+  const atr = rawAtr > 0 ? rawAtr : price * 0.01;
+  const { supports, resistances } = collectSwingLevels(price, high24h, low24h, chartData, multiTfData);
+
+  // Work in "LONG space": dir flips every distance for shorts
+  const dir = bias === 'LONG' ? 1 : -1;
+  const behind = bias === 'LONG' ? supports : resistances; // Where the stop goes
+  const ahead = bias === 'LONG' ? resistances : supports;   // Where the targets are
+
+  // ── Entry range ──
+  let near: number;
+  if (timing === 'WAIT_PULLBACK') {
+    const pullback = behind.find(l => Math.abs(price - l) >= atr * 0.5 && Math.abs(price - l) <= atr * 4);
+    near = pullback ?? price - dir * atr * 1.5;
+  } else if (timing === 'WAIT_BREAKOUT') {
+    near = ahead[0] ?? price + dir * atr;
+  } else {
+    near = price;
+  }
+  const far = timing === 'NOW' || timing === 'AVOID' ? near - dir * atr * 0.5 : near + dir * atr * 0.5;
+  const entry = { low: Math.min(near, far), high: Math.max(near, far), mid: (near + far) / 2 };
+  const entryEdge = bias === 'LONG' ? entry.low : entry.high;
+
+  // ── Stop ──
+  const swing = behind.find(l => dir * (entryEdge - l) > atr * SWING_BUFFER_ATR);
+  let stopLoss = swing !== undefined ? swing - dir * atr * SWING_BUFFER_ATR : entryEdge - dir * atr * 1.5;
+  let stopBasis = swing !== undefined
+    ? tr.t(bias === 'LONG' ? 'plan.stopSwingLow' : 'plan.stopSwingHigh', { buffer: SWING_BUFFER_ATR })
+    : tr.t('plan.stopBeyondEntry');
+
+  const stopDistance = dir * (entry.mid - stopLoss);
+  if (stopDistance < atr * MIN_STOP_ATR) {
+    stopLoss = entry.mid - dir * atr * MIN_STOP_ATR;
+    stopBasis = tr.t('plan.stopMinimum', { multiple: MIN_STOP_ATR });
+  } else if (stopDistance > atr * MAX_STOP_ATR) {
+    stopLoss = entry.mid - dir * atr * MAX_STOP_ATR;
+    stopBasis = tr.t('plan.stopCap', { multiple: MAX_STOP_ATR });
+  }
+  // No level may reach zero: a wide ATR puts a short's far targets below it
+  const minPrice = price * 0.0001;
+  stopLoss = Math.max(stopLoss, minPrice);
+
+  const risk = Math.abs(entry.mid - stopLoss);
+  const at = (r: number) => entry.mid + dir * risk * r;
+  const rMultiple = (level: number) => (dir * (level - entry.mid)) / risk;
+
+  // ── Targets ──
+  const swingLabel = tr.t(bias === 'LONG' ? 'plan.swingHigh' : 'plan.swingLow');
+  const beyond = (level: number, min: number) => dir * (level - min) >= 0;
+
+  const tp1Swing = ahead.find(l => beyond(l, at(1)));
+  const tp1 = tp1Swing ?? at(1.5);
+
+  const tp2Floor = Math.max(2, rMultiple(tp1) + 0.5);
+  const tp2Swing = ahead.find(l => beyond(l, at(tp2Floor)));
+  const tp2 = tp2Swing ?? at(Math.max(2.5, tp2Floor));
+
+  const tp3 = at(Math.max(4, rMultiple(tp2) + 1));
+
+  const takeProfits: TakeProfitLevel[] = [
+    { label: 'TP1', price: tp1, basis: tp1Swing !== undefined ? swingLabel : null },
+    { label: 'TP2', price: tp2, basis: tp2Swing !== undefined ? swingLabel : null },
+    { label: 'TP3', price: tp3, basis: tr.t('plan.runner') },
+  ].map((tp, i) => {
+    const tpPrice = Math.max(tp.price, minPrice);
+    const rewardRisk = rMultiple(tpPrice);
+    return {
+      label: tp.label as TakeProfitLevel['label'],
+      price: tpPrice,
+      rewardRisk,
+      closePercent: SCALE_OUT[i],
+      basis: tp.basis ?? tr.t('plan.rMultiple'),
+    };
+  });
+
+  return {
+    direction: bias,
+    timing,
+    entry,
+    stopLoss,
+    stopBasis,
+    takeProfits,
+    riskPerUnit: risk,
+    riskPercent: (risk / entry.mid) * 100,
+    atr,
+    atrSource,
+    position: sizePosition(entry.mid, stopLoss, riskSettings),
+    decimals,
+  };
+}
+
+// Blended R:R if the scale-out plan is followed to the last target
+export function blendedRewardRisk(plan: TradePlan): number {
+  return plan.takeProfits.reduce((sum, tp) => sum + tp.rewardRisk * (tp.closePercent / 100), 0);
+}
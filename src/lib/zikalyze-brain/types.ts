@@ -4,6 +4,31 @@
 // Fully decentralized — runs 100% in the browser with zero server dependency
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import type { IndicatorSnapshot } from './indicators';
+import type { ReportLocale, TextDirection } from './report-i18n';
+
+// Where a number came from and how fresh it was when the analysis ran
+export type ProvenanceKind = 'LIVE' | 'CACHED' | 'DERIVED';
+
+export interface DataProvenance {
+  kind: ProvenanceKind;
+  source: string;  // API / feed name, or the estimator for DERIVED
+  asOf?: string;   // When the value was observed (LIVE / CACHED)
+  ageMs?: number;  // CACHED — age at analysis time
+  basis?: string;  // DERIVED — what it was estimated from
+}
+
+export type OnChainProvenanceField =
+  | 'exchangeNetFlow'
+  | 'whaleActivity'
+  | 'longTermHolders'
+  | 'shortTermHolders'
+  | 'activeAddresses'
+  | 'transactionVolume'
+  | 'mempoolData';
+
+export type OnChainProvenance = Partial<Record<OnChainProvenanceField, DataProvenance>>;
+
 export interface OnChainMetrics {
   exchangeNetFlow: { value: number; trend: 'OUTFLOW' | 'INFLOW' | 'NEUTRAL'; magnitude: string };
   whaleActivity: { buying: number; selling: number; netFlow: string };
@@ -13,6 +38,7 @@ export interface OnChainMetrics {
   transactionVolume: { value: number; change24h: number };
   mempoolData?: { unconfirmedTxs: number; mempoolSize: number; avgFeeRate: number };
   source: string;
+  provenance?: OnChainProvenance; // Per field; fields left out are treated as coming from `source`
 }
 
 export interface ETFFlowData {
@@ -25,6 +51,7 @@ export interface ETFFlowData {
   topSellers: string[];
   institutionalSentiment: string;
   source: string;
+  provenance?: DataProvenance;
 }
 
 export interface MacroCatalyst {
@@ -33,6 +60,37 @@ export interface MacroCatalyst {
   impact: 'HIGH' | 'MEDIUM' | 'LOW';
   expectedEffect: 'BULLISH' | 'BEARISH' | 'VOLATILE' | 'UNCERTAIN';
   description: string;
+  id?: string;                  // Calendar event it came from; absent for computed rules
+  category?: CatalystCategory;
+  symbols?: string[];           // Empty/absent = affects the whole market
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Catalyst calendar — stored events, see catalyst-calendar.ts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type CatalystCategory = 'MACRO' | 'TOKEN_UNLOCK' | 'ETF' | 'UPGRADE' | 'EXCHANGE' | 'REGULATORY' | 'HOLIDAY' | 'OTHER';
+
+export interface CatalystEvent {
+  id: string;
+  title: string;
+  date: string;                 // YYYY-MM-DD (local calendar day)
+  time?: string;                // HH:MM UTC, when known
+  impact: MacroCatalyst['impact'];
+  expectedEffect: MacroCatalyst['expectedEffect'];
+  description: string;
+  category: CatalystCategory;
+  symbols: string[];            // Tickers or @GROUP tags (e.g. @L2); empty = whole market
+  leadDays?: number;            // How far ahead it starts to matter (default by impact)
+  source: 'built-in' | 'user' | 'import';
+  feed?: string;                // File/feed name it was imported from
+  updated_at: string;
+}
+
+export interface CatalystImportResult {
+  events: CatalystEvent[];
+  skipped: number;
+  errors: string[];
 }
 
 export interface VolumeSpikeAlert {
@@ -41,6 +99,121 @@ export interface VolumeSpikeAlert {
   percentageAboveAvg: number;
   signal: 'BULLISH_BREAKOUT' | 'BEARISH_BREAKDOWN' | 'ACCUMULATION' | 'DISTRIBUTION' | 'NEUTRAL';
   description: string;
+  zScore?: number;                         // Set when measured against recorded history
+  baselineBasis?: VolumeBaseline['basis'];
+  profile?: VolumeProfile;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Volume history — recorded per symbol, see volume-history.ts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// One reading of a symbol's rolling 24h volume
+export interface VolumeSample {
+  time: number;   // ms
+  volume: number; // 24h volume at that moment
+}
+
+// One completed hourly candle with real traded volume
+export interface VolumeCandleSample {
+  time: number; // Open time (ms)
+  volume: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface VolumeHistoryRecord {
+  symbol: string;
+  snapshots: VolumeSample[];      // Oldest first, ~one per 15 minutes, 30 days kept
+  hourly: VolumeCandleSample[];   // Oldest first, 30 days kept
+  updated_at: string;
+}
+
+// Rolling mean/stddev of a window, and where the current reading sits in it
+export interface VolumeStat {
+  mean: number;
+  stdDev: number;
+  samples: number;
+  current: number;
+  ratio: number;  // current / mean
+  zScore: number; // (current − mean) / stdDev; 0 when the window is flat
+}
+
+export interface VolumeProfileBin {
+  priceLow: number;
+  priceHigh: number;
+  volume: number;
+}
+
+export interface VolumeProfile {
+  bins: VolumeProfileBin[];
+  poc: number;            // Point of control — price level with the most volume
+  valueAreaLow: number;   // 70% of volume traded between these
+  valueAreaHigh: number;
+  position: 'ABOVE_VALUE' | 'IN_VALUE' | 'BELOW_VALUE';
+  hours: number;          // Hourly candles the profile was built from
+}
+
+export interface VolumeBaseline {
+  basis: '7d' | '30d' | 'same-hour'; // Which window `average` comes from
+  average: number;                   // Baseline in the same units as `current`
+  current: number;                   // 24h volume, or the last hour's candle volume for a same-hour candle baseline
+  relativeVolume: number;            // current / average
+  zScore: number;
+  sameHour: VolumeStat | null;       // Last complete hour vs the same hour on previous days
+  d7: VolumeStat | null;             // 24h volume vs its 7-day history
+  d30: VolumeStat | null;            // 24h volume vs its 30-day history
+  profile: VolumeProfile | null;
+  asOf: number;                      // Newest recorded sample (ms)
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Price history + cross-asset view — recorded per symbol, see price-history.ts and cross-asset.ts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Last price seen in an hour
+export interface HourlyClose {
+  time: number;  // Hour start (ms)
+  close: number;
+}
+
+export interface PriceHistoryRecord {
+  symbol: string;
+  hourly: HourlyClose[]; // Oldest first, 30 days kept
+  updated_at: string;
+}
+
+// Rolling co-movement of one symbol against a benchmark, on hourly log returns
+export interface CorrelationStat {
+  benchmark: 'BTC' | 'ETH';
+  correlation: number; // Pearson, -1..1
+  beta: number;        // cov(symbol, benchmark) / var(benchmark)
+  samples: number;     // Paired hourly returns
+  windowHours: number;
+}
+
+export type MarketRegime = 'TRENDING_UP' | 'TRENDING_DOWN' | 'RANGING' | 'HIGH_VOL_CRASH' | 'ALT_SEASON';
+
+export interface MarketRegimeReading {
+  regime: MarketRegime;
+  btcStructure: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  btcChange24h: number;       // %
+  btcChange7d: number | null; // %
+  btcChange72h: number;       // % — the move the trend regimes are judged on
+  efficiency: number;         // 0-1 — net 72h move / path travelled
+  volatilityRatio: number | null; // 24h realised vol / 30d realised vol
+  altsOutperforming: number | null; // Share of tracked alts beating BTC over the window, 0-1
+  altsTracked: number;
+  detail: string;
+}
+
+export interface CrossAssetAnalysis {
+  symbol: string;
+  vsBTC: CorrelationStat | null; // null for BTC itself or too little overlap
+  vsETH: CorrelationStat | null;
+  regime: MarketRegimeReading | null; // null until BTC has ~3 days of history
+  asOf: number; // When the staler of the symbol/BTC series was last sampled (ms)
 }
 
 export interface MarketStructure {
@@ -54,6 +227,59 @@ export interface MarketStructure {
   lastCHoCH: 'BULLISH' | 'BEARISH' | null;
 }
 
+// Classical candlestick + chart patterns found on the chart / multi-TF candles
+export type CandlestickPatternType =
+  | 'BULLISH_ENGULFING'
+  | 'BEARISH_ENGULFING'
+  | 'BULLISH_PIN_BAR'
+  | 'BEARISH_PIN_BAR'
+  | 'INSIDE_BAR'
+  | 'MORNING_STAR'
+  | 'EVENING_STAR';
+
+export type ChartPatternType =
+  | 'DOUBLE_TOP'
+  | 'DOUBLE_BOTTOM'
+  | 'HEAD_AND_SHOULDERS'
+  | 'INVERSE_HEAD_AND_SHOULDERS'
+  | 'ASCENDING_TRIANGLE'
+  | 'DESCENDING_TRIANGLE'
+  | 'SYMMETRICAL_TRIANGLE'
+  | 'BULL_FLAG'
+  | 'BEAR_FLAG';
+
+export interface PatternPoint {
+  timestamp: number;
+  price: number;
+}
+
+export interface PatternLevel {
+  label: 'Neckline' | 'Breakout' | 'Target' | 'Invalidation';
+  price: number;
+}
+
+export interface PatternLine {
+  label: string;       // e.g. 'Neckline', 'Resistance', 'Support'
+  from: PatternPoint;
+  to: PatternPoint;    // Extended to the latest candle for live lines
+}
+
+export interface DetectedPattern {
+  type: CandlestickPatternType | ChartPatternType;
+  name: string;
+  category: 'CANDLESTICK' | 'CHART';
+  direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  confidence: number;  // 0-100
+  timeframe: string;   // '15m' | '1h' | '4h' | '1d' | 'chart'
+  startTime: number;
+  endTime: number;     // Timestamp of the candle that completed the pattern
+  barsAgo: number;     // Candles since endTime (0 = latest candle)
+  confirmed: boolean;  // Chart patterns: neckline/breakout already broken
+  levels: PatternLevel[];
+  lines: PatternLine[];
+  description: string;
+}
+
 export interface InstitutionalVsRetail {
   institutionalBias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
   institutionalConfidence: number;
@@ -69,6 +295,31 @@ export interface IfThenScenario {
   outcome: string;
   probability: number;
   action: string;
+  // Set by the data-driven generator (scenario-probability.ts); absent on older results
+  kind?: ScenarioKind;
+  direction?: 'ABOVE' | 'BELOW';    // Side of priceLevel the condition is about (none for RANGE)
+  levels?: number[];                 // Every level in the condition — [low, high] for RANGE
+  horizonHours?: number;             // "within N h"
+  probabilityBasis?: ScenarioProbabilityBasis;
+}
+
+// CLOSE_BEYOND: any hourly close past the level within the horizon
+// HOLD_BEYOND: still closed past the level when the horizon ends
+// RANGE: every hourly close stays between the two levels
+export type ScenarioKind = 'CLOSE_BEYOND' | 'HOLD_BEYOND' | 'RANGE';
+
+// How a scenario's probability was estimated — shown next to the number
+export interface ScenarioProbabilityBasis {
+  method: 'volatility-model' | 'model+history';
+  modelProbability: number;         // % from the volatility model alone
+  historicalProbability?: number;   // % of past windows where the same move happened
+  historicalWindows?: number;       // Hourly start points the history was measured over
+  historyWeight?: number;           // 0-1 share of the history in the blend
+  sigmaHourlyPercent: number;       // 1h volatility used
+  volatilitySource: 'realised' | 'range-estimate';
+  distanceAtr: number | null;       // Distance to the level in ATRs (nearest level for RANGE)
+  atr: number;
+  summary: string;
 }
 
 export interface PrecisionEntry {
@@ -80,6 +331,7 @@ export interface PrecisionEntry {
   volumeCondition: string;
   structureStatus: string;
   movementPhase: string;
+  liquidity?: string; // Order book read — only with live depth
 }
 
 // Real-time chart data for trend analysis
@@ -105,6 +357,7 @@ export interface ChartTrendInput {
   priceVelocity: number;
   isLive: boolean;
   source: string;
+  indicators?: IndicatorSnapshot; // MACD/BB/ATR/StochRSI/Ichimoku/OBV/ADX/Supertrend on the same candles
 }
 
 // Multi-timeframe analysis data
@@ -123,6 +376,8 @@ export interface TimeframeAnalysisInput {
   lowerHighs: boolean;
   lowerLows: boolean;
   isLive: boolean;
+  indicators?: IndicatorSnapshot;
+  candles?: ChartTrendInput['candles']; // Raw candles for pattern recognition
 }
 
 export interface MultiTimeframeInput {
@@ -139,6 +394,89 @@ export interface MultiTimeframeInput {
   };
 }
 
+// Liquidity resting around the price — computed from a live L2 book, see src/lib/order-book
+export interface OrderBookInput {
+  source: string;
+  timestamp: number;
+  mid: number;
+  spreadPercent: number;
+  imbalance: number;          // -1 (all asks) … +1 (all bids), within ±2% of mid
+  bidDepth1: number;          // USD resting within 1% below mid
+  askDepth1: number;          // USD resting within 1% above mid
+  bidDepth2: number;
+  askDepth2: number;
+  walls: OrderBookWall[];     // Largest first
+}
+
+// A price band holding far more size than the bands around it
+export interface OrderBookWall {
+  side: 'BID' | 'ASK';
+  price: number;              // Largest level inside the band
+  notional: number;           // USD in the band
+  distancePercent: number;    // From mid, always positive
+  multiple: number;           // Times the median band within ±2%
+}
+
+// Perpetual futures positioning — funding, open interest and liquidations, see src/lib/derivatives
+export interface DerivativesInput {
+  source: string;
+  timestamp: number;
+  funding: FundingInput;
+  openInterest: OpenInterestInput | null;    // null until the venue has returned open interest
+  liquidations: LiquidationInput;
+}
+
+export type FundingExtreme = 'CROWDED_LONG' | 'CROWDED_SHORT' | 'NONE';
+
+export interface FundingInput {
+  rate: number;                     // Current predicted rate per interval, e.g. 0.0001 = 0.01%
+  intervalHours: number;
+  annualizedPercent: number;
+  mean: number | null;              // Mean settled rate over the history window
+  zScore: number | null;            // Current rate against settled history; null with too few settlements
+  extreme: FundingExtreme;
+  nextFundingTime: number | null;
+}
+
+// What the open interest move says about who is moving price
+export type OpenInterestRegime =
+  | 'NEW_LONGS'        // Price up, OI up — rally on fresh positions
+  | 'SHORT_COVERING'   // Price up, OI down — rally on closing shorts
+  | 'NEW_SHORTS'       // Price down, OI up — selloff on fresh positions
+  | 'LONG_UNWIND'      // Price down, OI down — selloff on closing longs
+  | 'NONE';
+
+export interface OpenInterestInput {
+  notional: number;                 // USD
+  change1h: number | null;          // %
+  change24h: number | null;         // %
+  priceChange: number | null;       // % over the regime window
+  oiChange: number | null;          // % over the regime window
+  windowHours: number;
+  regime: OpenInterestRegime;
+  divergence: boolean;              // Price and OI moved in opposite directions
+}
+
+export interface LiquidationInput {
+  longs1h: number;                  // USD of long positions force-closed
+  shorts1h: number;
+  longs24h: number;
+  shorts24h: number;
+  clusters: LiquidationCluster[];   // Largest first
+}
+
+// Liquidations of one side packed into a short time and narrow price range — a cascade
+export interface LiquidationCluster {
+  side: 'LONG' | 'SHORT';           // Positions that were liquidated
+  price: number;                    // Notional-weighted
+  low: number;
+  high: number;
+  notional: number;
+  count: number;
+  start: number;
+  end: number;
+}
+
 export interface AnalysisInput {
   crypto: string;
   price: number;
@@ -157,6 +495,270 @@ export interface AnalysisInput {
   };
   chartTrendData?: ChartTrendInput; // Real-time 24h chart data for accurate trend analysis
   multiTimeframeData?: MultiTimeframeInput; // Multi-timeframe analysis (15m, 1h, 4h, 1d)
+  riskSettings?: RiskSettings; // Account size + risk % for position sizing
+  priceTimestamp?: number;      // When `price` was observed (ms) — older than a couple of minutes reads as cached
+  excludeDerivedInputs?: boolean; // Score only measured inputs in calculateFinalBias
+  calibration?: CalibrationModel; // Maps raw confidence to observed hit rate — see calibration.ts
+  hourlyCandles?: ScenarioCandle[]; // Archived 1h candles, oldest first — touch/break statistics for scenarios
+  orderBook?: OrderBookInput;       // Live depth around the price — ignored once older than a minute
+  derivatives?: DerivativesInput;   // Perpetual funding, OI and liquidations — ignored once older than five minutes
+}
+
+export interface ScenarioCandle {
+  time: number; // Open time (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Processing step runClientSideAnalysis is on — see ANALYSIS_STEPS
+export type AnalysisStep = 'inputs' | 'structure' | 'bias' | 'plan' | 'report';
+
+export interface AnalysisProgress {
+  step: AnalysisStep;
+  index: number; // 0-based position in ANALYSIS_STEPS
+  total: number;
+}
+
+// Position sizing inputs — configured by the user in Settings
+export interface RiskSettings {
+  accountSize: number; // Account currency
+  riskPercent: number; // % of account lost if the stop is hit
+}
+
+export interface TakeProfitLevel {
+  label: 'TP1' | 'TP2' | 'TP3';
+  price: number;
+  rewardRisk: number;   // R multiple measured from the entry midpoint
+  closePercent: number; // Share of the position to take off here
+  basis: string;        // 'Swing high/low', 'R multiple' or 'Runner'
+}
+
+export interface PositionSize {
+  accountSize: number;
+  riskPercent: number;
+  riskAmount: number; // Lost if the stop is hit
+  units: number;      // Coins to buy/sell
+  notional: number;   // units × entry
+  leverage: number;   // notional / accountSize
+}
+
+// Structured trade plan — the numbers behind the PrecisionEntry text
+export interface TradePlan {
+  direction: 'LONG' | 'SHORT';
+  timing: PrecisionEntry['timing'];
+  entry: { low: number; high: number; mid: number };
+  stopLoss: number;
+  stopBasis: string;
+  takeProfits: TakeProfitLevel[];
+  riskPerUnit: number;  // |entry mid − stop|
+  riskPercent: number;  // Stop distance as % of the entry midpoint
+  atr: number;
+  atrSource: 'indicator' | 'estimated';
+  position: PositionSize | null; // null when no risk settings were supplied
+  decimals: number;     // Display precision for this price magnitude
+}
+
+// Where a factor's input came from: measured (live/API) or estimated from price action
+export type AttributionSource = 'REAL' | 'DERIVED';
+
+export type BiasFactorId =
+  | 'price-direction'
+  | 'price-position'
+  | 'fear-greed'
+  | 'institutional'
+  | 'on-chain'
+  | 'volume'
+  | 'indicators'
+  | 'patterns'
+  | 'cross-asset'
+  | 'derivatives';
+
+// An insight from calculateFinalBias — tone says which verdict it supports, so the
+// report can keep only the ones agreeing with the final bias in any language
+export interface BiasInsight {
+  text: string;
+  tone: 'BULLISH' | 'BEARISH' | 'NEUTRAL' | 'INFO'; // INFO is shown whatever the bias
+  kind: 'summary' | 'factor' | 'pattern' | 'cross-asset';
+}
+
+// One scored input of calculateFinalBias
+export interface BiasFactor {
+  id: BiasFactorId;
+  label: string;
+  points: number; // Signed: + bullish, − bearish, 0 = scored but neutral
+  weight: number; // Most points this factor can add either way
+  source: AttributionSource;
+  detail: string;
+  excluded?: boolean; // Derived input left out by the user's setting — scored 0
+}
+
+// One step from zero to the final confidence — the deltas sum to AnalysisResult.confidence
+export interface ConfidenceStep {
+  id: 'confluence' | 'fundamentals' | 'band' | 'macro' | 'clamp' | 'neural-blend' | 'neural-agreement' | 'final-clamp' | 'calibration';
+  label: string;
+  delta: number;
+  source: AttributionSource | 'RULE'; // RULE = fixed band or clamp, no data behind it
+  detail: string;
+}
+
+// Why the verdict came out the way it did
+export interface VerdictAttribution {
+  factors: BiasFactor[];
+  bullishPoints: number;
+  bearishPoints: number;
+  fundamentalBias: 'LONG' | 'SHORT' | 'NEUTRAL'; // calculateFinalBias — adjusts confidence only
+  fundamentalConfidence: number;
+  technicalBias: 'LONG' | 'SHORT' | 'NEUTRAL';   // Top-down direction before the neural layer
+  confidenceSteps: ConfidenceStep[];
+  neural: {
+    bias: 'LONG' | 'SHORT' | 'NEUTRAL';
+    confidence: number;
+    agreement: number;      // 0-1 ensemble agreement
+    changedBias: boolean;   // Neural blend moved the direction away from technicalBias
+  };
+}
+
+// Provenance of every input the verdict rests on
+export type ProvenanceMetric =
+  | 'price'
+  | 'chart'
+  | 'multiTimeframe'
+  | 'exchangeNetFlow'
+  | 'whaleActivity'
+  | 'holders'
+  | 'etfFlow'
+  | 'fearGreed'
+  | 'volumeBaseline'
+  | 'crossAsset'
+  | 'orderBook'
+  | 'derivatives';
+
+export type AnalysisProvenance = Partial<Record<ProvenanceMetric, DataProvenance>>; // etfFlow only for BTC/ETH
+
+// Confidence calibration — fitted on graded calls (was_correct feedback)
+export interface CalibrationSample {
+  symbol: string;
+  confidence: number; // Raw 0-100 confidence the call was made with
+  correct: boolean;
+}
+
+export interface CalibrationPoint {
+  confidence: number;  // Raw 0-100
+  probability: number; // Observed hit rate 0-1
+}
+
+export interface CalibrationModel {
+  method: 'platt' | 'isotonic';
+  scope: 'symbol' | 'global';
+  symbol?: string;       // Set when scope is 'symbol'
+  sampleCount: number;
+  points: CalibrationPoint[]; // Sorted by confidence; interpolated linearly between
+  platt?: { a: number; b: number }; // p = 1 / (1 + e^(a·x + b)), x = confidence / 100
+  fittedAt: string;
+}
+
+// One bucket of the reliability diagram
+export interface ReliabilityBin {
+  from: number;            // Confidence range [from, to)
+  to: number;
+  count: number;
+  meanConfidence: number;  // Average raw confidence in the bucket, 0-100
+  observedAccuracy: number; // Hit rate in the bucket, 0-100
+  calibratedConfidence: number | null; // What the model maps meanConfidence to, 0-100
+}
+
+// Outcome grading — how a saved call actually played out
+export type OutcomeHorizon = '1h' | '4h' | '24h';
+
+// What the grader checks the price path against — a snapshot of the TradePlan at save time
+export interface GradingPlan {
+  bias: 'LONG' | 'SHORT' | 'NEUTRAL';
+  price: number;                            // Price when the call was made
+  entry: { low: number; high: number } | null;
+  stopLoss: number | null;
+  targets: number[];                        // TP prices, nearest first
+}
+
+export type OutcomeStatus =
+  | 'TARGET'        // TP1 touched before the stop
+  | 'STOPPED'       // Stop touched first
+  | 'EXPIRED'       // Filled, neither level touched by the horizon
+  | 'NOT_FILLED'    // Price never came back to the entry zone
+  | 'RANGE_HELD'    // NEUTRAL call, price stayed inside the band
+  | 'RANGE_BROKEN'; // NEUTRAL call, price broke out
+
+export interface AnalysisOutcome {
+  horizon: OutcomeHorizon;
+  status: OutcomeStatus;
+  correct: boolean;
+  entryPrice: number | null;   // Fill inside the entry zone; null if never filled or NEUTRAL
+  exitPrice: number;           // Target, stop, or last close at the horizon
+  returnPercent: number;       // In the call's direction, from the fill (or the call price)
+  targetsHit: number;          // How many TPs were touched before the stop or horizon
+  maxFavorablePercent: number; // MFE — best excursion in the call's direction (up, for NEUTRAL)
+  maxAdversePercent: number;   // MAE — worst excursion against it (down, for NEUTRAL), as a positive %
+  interval: string;            // Candle interval the path was read from
+  candles: number;
+  gradedAt: string;
+}
+
+export type AnalysisOutcomes = Partial<Record<OutcomeHorizon, AnalysisOutcome>>;
+
+// Trend per timeframe from the top-down analysis
+export type AlignmentTimeframe = 'weekly' | 'daily' | 'h4' | 'h1' | 'm15';
+
+export interface TimeframeAlignment {
+  trends: Record<AlignmentTimeframe, 'BULLISH' | 'BEARISH' | 'NEUTRAL'>;
+  overallBias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  confluence: number; // 0-100
+}
+
+// Comparing saved analyses — see analysis-diff.ts
+export interface SnapshotLevel {
+  key: string;   // Stable id: 'support', 'stop', 'tp-TP1', ...
+  label: string;
+  price: number;
+}
+
+// Structured copy of an AnalysisResult kept with each saved analysis
+export interface AnalysisSnapshot {
+  version: 1;
+  timestamp: string;
+  bias: 'LONG' | 'SHORT' | 'NEUTRAL';
+  confidence: number;
+  price: number;
+  levels: SnapshotLevel[];
+  insights: string[];
+  timeframes: TimeframeAlignment | null;
+  regime: MarketRegime | null;
+  inputs?: AnalysisExportInputs;     // What the brain was fed — absent on older records
+  provenance?: AnalysisProvenance;   // Absent on older records
+  legacy?: boolean; // Rebuilt from a record saved before snapshots — bias/confidence/price only
+}
+
+export interface LevelChange {
+  key: string;
+  label: string;
+  before: number | null; // null = new level
+  after: number | null;  // null = level dropped
+  changePercent: number | null;
+}
+
+export interface AnalysisDiff {
+  elapsedMs: number;
+  biasFlip: { from: AnalysisSnapshot['bias']; to: AnalysisSnapshot['bias'] } | null;
+  confidenceDelta: number;
+  priceChangePercent: number;
+  comparable: boolean;           // false when either side is legacy — the lists below are empty
+  levels: LevelChange[];         // Moved, new or dropped levels only
+  insightsAdded: string[];
+  insightsRemoved: string[];
+  timeframes: { timeframe: AlignmentTimeframe; before: string; after: string }[]; // Changed only
+  confluenceDelta: number | null;
+  regime: { before: MarketRegime | null; after: MarketRegime | null } | null;
+  summary: string;
 }
 
 export interface AnalysisResult {
@@ -169,6 +771,115 @@ export interface AnalysisResult {
   precisionEntry: PrecisionEntry;
   institutionalVsRetail: InstitutionalVsRetail;
   scenarios: IfThenScenario[];
+  tradePlan?: TradePlan | null; // null for NEUTRAL bias; absent on results from older versions
+  patterns?: DetectedPattern[];  // Strongest first; absent on results from older versions
+  attribution?: VerdictAttribution; // Absent on results from older versions
+  provenance?: AnalysisProvenance;  // Absent on results from older versions
+  crossAsset?: CrossAssetAnalysis | null; // null without BTC/ETH price history
+  keyLevels?: { support: number; resistance: number }; // Absent on results from older versions
+  timeframes?: TimeframeAlignment;                      // Absent on results from older versions
+  derivedInputsExcluded?: boolean;
+  calibration?: {               // Present when a calibration model was applied
+    method: CalibrationModel['method'];
+    scope: CalibrationModel['scope'];
+    sampleCount: number;
+    rawConfidence: number;
+  };
+  locale?: ReportLocale;        // Language the report text was written in (absent on older saved results)
+  direction?: TextDirection;    // 'rtl' for Arabic
   timestamp: string;
   source: 'client-side-wasm';
 }
+
+// Machine-readable export — see analysis-export.ts
+export type AnalysisExportFormat = 'json' | 'csv' | 'markdown';
+
+// AnalysisInput without the bulky series: candle arrays become counts, the calibration model its summary
+export interface AnalysisExportInputs {
+  crypto: string;
+  price: number;
+  change: number;
+  high24h: number | null;
+  low24h: number | null;
+  volume: number | null;
+  marketCap: number | null;
+  language: string | null;
+  isLiveData: boolean;
+  dataSource: string | null;
+  priceTimestamp: string | null;
+  fearGreed: number | null;
+  onChainData: OnChainMetrics | null;
+  riskSettings: RiskSettings | null;
+  excludeDerivedInputs: boolean;
+  chartCandles: number;
+  hourlyCandles: number;
+  multiTimeframe: boolean;
+  calibration: { method: CalibrationModel['method']; scope: CalibrationModel['scope']; sampleCount: number } | null;
+  orderBook?: OrderBookInput | null; // Absent on exports from before order book input
+  derivatives?: DerivativesInput | null; // Absent on exports from before derivatives input
+}
+
+export interface AnalysisExportRecord {
+  id: string | null;          // History record id; null for an unsaved analysis
+  symbol: string;
+  timestamp: string;
+  price: number;
+  change24h: number | null;
+  bias: AnalysisResult['bias'];
+  confidence: number;
+  rawConfidence: number | null;
+  locale: ReportLocale | null;
+  snapshot: AnalysisSnapshot;
+  inputs: AnalysisExportInputs | null;
+  provenance: AnalysisProvenance | null;
+  result: Omit<AnalysisResult, 'analysis'> | null; // Full result — only while it is still in memory
+  report: string;             // The text report as shown
+  outcomes: AnalysisOutcomes | null;
+  feedback: { wasCorrect: boolean | null; source: 'user' | 'auto' | null };
+}
+
+export interface AnalysisExportDocument {
+  schema: 'zikalyze.analysis-export';
+  schemaVersion: number;
+  brainVersion: string;
+  exportedAt: string;
+  records: AnalysisExportRecord[]; // Newest first
+}
+
+// User-written strategy rules — see strategy-rules.ts
+export type StrategyRuleTimeframe = TimeframeAnalysisInput['timeframe'] | '24h'; // 24h = the live chart series
+export type StrategyRuleValue = number | string | boolean;
+
+// Everything a rule can read, rebuilt whenever the dashboard's data refreshes
+export interface StrategyRuleContext {
+  symbol: string;
+  price: number;
+  change24h: number;
+  volume: number | null;
+  fearGreed: number | null;
+  chart: ChartTrendInput | null;               // Default series when a metric has no timeframe
+  multiTimeframe: MultiTimeframeInput | null;
+  verdict: { bias: AnalysisResult['bias']; confidence: number } | null; // Latest brain call, if any
+  derivatives: DerivativesInput | null;        // Perpetual positioning while the symbol's perp streams
+}
+
+export interface StrategyRuleMetric {
+  name: string;          // As written in rules, e.g. 'rsi', 'ema21'
+  description: string;
+  type: 'number' | 'string' | 'boolean';
+  timeframed: boolean;   // Takes a (15m|1h|4h|1d|24h) argument
+  values?: string[];     // Allowed words for string metrics
+}
+
+export interface StrategyRuleCondition {
+  text: string;          // The comparison as written
+  passed: boolean | null; // null while an operand has no data
+  values: Array<{ label: string; value: StrategyRuleValue | null }>;
+}
+
+export interface StrategyRuleEvaluation {
+  matched: boolean;      // True only when the rule holds with every needed value present
+  conditions: StrategyRuleCondition[];
+  missing: string[];     // Operands without data, e.g. 'RSI(4h)'
+  error: string | null;  // Parse/type error — the rule never matches
+}
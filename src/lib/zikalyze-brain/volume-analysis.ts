@@ -2,7 +2,12 @@
 // 📊 VOLUME SPIKE DETECTION ENGINE
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { VolumeSpikeAlert } from './types';
+import { VolumeBaseline, VolumeProfile, VolumeSpikeAlert } from './types';
+
+// With recorded history a ratio alone isn't enough — the reading must also be
+// this many standard deviations above the window's mean to count as a spike
+const SPIKE_MIN_Z = 1.5;
+const EXTREME_Z = 4;
 
 export function detectVolumeSpike(volumeData: {
   currentVolume: number;
@@ -11,8 +16,13 @@ export function detectVolumeSpike(volumeData: {
   price: number;
   high24h: number;
   low24h: number;
+  // From computeVolumeBaseline — absent until enough volume history is recorded
+  zScore?: number;
+  baselineBasis?: VolumeBaseline['basis'];
+  profile?: VolumeProfile | null;
 }): VolumeSpikeAlert {
-  const { currentVolume, avgVolume24h, priceChange, price, high24h, low24h } = volumeData;
+  const { currentVolume, avgVolume24h, priceChange, price, high24h, low24h, zScore, baselineBasis, profile } = volumeData;
+  const hasHistory = zScore !== undefined;
 
   // Calculate volume ratio
   const volumeRatio = avgVolume24h > 0 ? (currentVolume / avgVolume24h) * 100 : 100;
@@ -33,28 +43,45 @@ export function detectVolumeSpike(volumeData: {
     isSpike = true;
   }
 
+  if (hasHistory) {
+    // A big ratio inside a volatile window is routine; a huge z-score is not
+    if (zScore < SPIKE_MIN_Z) {
+      magnitude = 'NORMAL';
+      isSpike = false;
+    } else if (zScore >= EXTREME_Z) {
+      magnitude = 'EXTREME';
+      isSpike = true;
+    }
+  }
+
   // Determine signal context based on price action + volume
   let signal: VolumeSpikeAlert['signal'] = 'NEUTRAL';
   let description = '';
 
   const range = high24h - low24h;
   const pricePosition = range > 0 ? ((price - low24h) / range) * 100 : 50;
+  // The volume profile, when there is one, says where "high" and "low" really are
+  const nearHighs = profile ? profile.position === 'ABOVE_VALUE' : pricePosition > 70;
+  const nearLows = profile ? profile.position === 'BELOW_VALUE' : pricePosition < 30;
+  const upperHalf = profile ? price > profile.poc : pricePosition > 50;
+  const lowerHalf = profile ? price < profile.poc : pricePosition < 50;
+  const zNote = hasHistory ? ` (z ${zScore.toFixed(1)} vs ${baselineBasis ?? 'history'})` : '';
 
   if (isSpike) {
-    if (priceChange > 3 && pricePosition > 70) {
+    if (priceChange > 3 && nearHighs) {
       signal = 'BULLISH_BREAKOUT';
-      description = `🚀 VOLUME SURGE +${percentageAboveAvg.toFixed(0)}% — Bullish breakout momentum with price near highs`;
-    } else if (priceChange < -3 && pricePosition < 30) {
+      description = `🚀 VOLUME SURGE +${percentageAboveAvg.toFixed(0)}%${zNote} — Bullish breakout momentum with price near highs`;
+    } else if (priceChange < -3 && nearLows) {
       signal = 'BEARISH_BREAKDOWN';
-      description = `📉 VOLUME SURGE +${percentageAboveAvg.toFixed(0)}% — Bearish breakdown with price near lows`;
-    } else if (priceChange > 0 && pricePosition < 50) {
+      description = `📉 VOLUME SURGE +${percentageAboveAvg.toFixed(0)}%${zNote} — Bearish breakdown with price near lows`;
+    } else if (priceChange > 0 && lowerHalf) {
       signal = 'ACCUMULATION';
-      description = `💎 VOLUME SPIKE +${percentageAboveAvg.toFixed(0)}% — Accumulation detected at lower levels`;
-    } else if (priceChange < 0 && pricePosition > 50) {
+      description = `💎 VOLUME SPIKE +${percentageAboveAvg.toFixed(0)}%${zNote} — Accumulation detected at lower levels`;
+    } else if (priceChange < 0 && upperHalf) {
       signal = 'DISTRIBUTION';
-      description = `⚠️ VOLUME SPIKE +${percentageAboveAvg.toFixed(0)}% — Distribution detected at higher levels`;
+      description = `⚠️ VOLUME SPIKE +${percentageAboveAvg.toFixed(0)}%${zNote} — Distribution detected at higher levels`;
     } else {
-      description = `📊 VOLUME SPIKE +${percentageAboveAvg.toFixed(0)}% — Unusual activity, watch for directional move`;
+      description = `📊 VOLUME SPIKE +${percentageAboveAvg.toFixed(0)}%${zNote} — Unusual activity, watch for directional move`;
     }
   } else {
     description = 'Normal volume conditions';
@@ -65,7 +92,9 @@ export function detectVolumeSpike(volumeData: {
     magnitude,
     percentageAboveAvg: Math.max(0, percentageAboveAvg),
     signal,
-    description
+    description,
+    ...(hasHistory ? { zScore, baselineBasis } : {}),
+    ...(profile ? { profile } : {}),
   };
 }
 
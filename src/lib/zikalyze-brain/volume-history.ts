@@ -0,0 +1,248 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 VOLUME HISTORY — Rolling baselines, z-scores and a volume profile
+// ═══════════════════════════════════════════════════════════════════════════════
+// The app records each symbol's 24h volume every ~15 minutes, plus hourly candle
+// volumes when the feed has them, into a VolumeHistoryRecord (IndexedDB). These
+// pure helpers maintain that record and turn it into the baseline
+// detectVolumeSpike compares against: 7-day and 30-day windows of the 24h
+// volume, the same hour on previous days, and where price sits in the profile.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+  VolumeBaseline,
+  VolumeCandleSample,
+  VolumeHistoryRecord,
+  VolumeProfile,
+  VolumeProfileBin,
+  VolumeStat,
+} from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const VOLUME_SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000;
+export const VOLUME_HISTORY_RETENTION_MS = 30 * DAY_MS;
+
+// A window needs this many readings before its mean is trusted
+const MIN_WINDOW_SAMPLES = 12;
+// Same-hour comparisons need this many previous days
+const MIN_SAME_HOUR_DAYS = 3;
+// Readings this recent are "now", not history
+const EXCLUDE_RECENT_MS = HOUR_MS;
+
+const PROFILE_BINS = 24;
+const PROFILE_WINDOW_MS = 7 * DAY_MS;
+const PROFILE_MIN_HOURS = 12;
+const VALUE_AREA_SHARE = 0.7;
+
+function emptyRecord(symbol: string): VolumeHistoryRecord {
+  return { symbol: symbol.toUpperCase(), snapshots: [], hourly: [], updated_at: new Date(0).toISOString() };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ✍️ RECORDING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Add a 24h-volume reading. Readings closer than VOLUME_SNAPSHOT_INTERVAL_MS to
+ * the previous one are dropped; returns null when nothing changed.
+ */
+export function appendVolumeSnapshot(
+  record: VolumeHistoryRecord | null,
+  symbol: string,
+  volume: number,
+  nowMs: number
+): VolumeHistoryRecord | null {
+  if (!(volume > 0)) return null;
+  const base = record ?? emptyRecord(symbol);
+  const last = base.snapshots[base.snapshots.length - 1];
+  if (last && nowMs - last.time < VOLUME_SNAPSHOT_INTERVAL_MS) return null;
+
+  return {
+    ...base,
+    snapshots: [...base.snapshots, { time: nowMs, volume }].filter(s => nowMs - s.time <= VOLUME_HISTORY_RETENTION_MS),
+    updated_at: new Date(nowMs).toISOString(),
+  };
+}
+
+/**
+ * Merge completed hourly candles. Candles without traded volume (oracle-built
+ * candles carry 0) are ignored; returns null when nothing changed.
+ */
+export function mergeVolumeCandles(
+  record: VolumeHistoryRecord | null,
+  symbol: string,
+  candles: VolumeCandleSample[],
+  nowMs: number
+): VolumeHistoryRecord | null {
+  const usable = candles.filter(c => c.volume > 0 && nowMs - c.time <= VOLUME_HISTORY_RETENTION_MS);
+  if (usable.length === 0) return null;
+
+  const base = record ?? emptyRecord(symbol);
+  const byTime = new Map(base.hourly.map(c => [c.time, c]));
+  let changed = false;
+  for (const candle of usable) {
+    const existing = byTime.get(candle.time);
+    if (!existing || existing.volume !== candle.volume) {
+      byTime.set(candle.time, { time: candle.time, volume: candle.volume, high: candle.high, low: candle.low, close: candle.close });
+      changed = true;
+    }
+  }
+  if (!changed) return null;
+
+  return {
+    ...base,
+    hourly: [...byTime.values()]
+      .filter(c => nowMs - c.time <= VOLUME_HISTORY_RETENTION_MS)
+      .sort((a, b) => a.time - b.time),
+    updated_at: new Date(nowMs).toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📏 BASELINES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function windowStat(values: number[], current: number, minSamples: number): VolumeStat | null {
+  if (values.length < minSamples) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean <= 0) return null;
+  const stdDev = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  return {
+    mean,
+    stdDev,
+    samples: values.length,
+    current,
+    ratio: current / mean,
+    zScore: stdDev > 0 ? (current - mean) / stdDev : 0,
+  };
+}
+
+// 24h volume over a trailing window; only when the history actually spans it
+function rollingStat(record: VolumeHistoryRecord, current: number, nowMs: number, windowMs: number, minSpanMs: number): VolumeStat | null {
+  const history = record.snapshots.filter(s => s.time <= nowMs - EXCLUDE_RECENT_MS && nowMs - s.time <= windowMs);
+  if (history.length === 0 || nowMs - history[0].time < minSpanMs) return null;
+  return windowStat(history.map(s => s.volume), current, MIN_WINDOW_SAMPLES);
+}
+
+// Last complete hour against the same UTC hour on previous days. Prefers real
+// hourly candle volume; otherwise compares 24h readings taken at that hour.
+function sameHourStat(record: VolumeHistoryRecord, current: number, nowMs: number): VolumeStat | null {
+  const lastHour = [...record.hourly].reverse().find(c => c.time + HOUR_MS <= nowMs && nowMs - c.time <= 2 * HOUR_MS);
+  if (lastHour) {
+    const hour = new Date(lastHour.time).getUTCHours();
+    const previous = record.hourly.filter(c => c.time < lastHour.time && new Date(c.time).getUTCHours() === hour);
+    const stat = windowStat(previous.map(c => c.volume), lastHour.volume, MIN_SAME_HOUR_DAYS);
+    if (stat) return stat;
+  }
+
+  // One 24h reading per previous day, the one closest to this time of day
+  const byDay = new Map<number, { offset: number; volume: number }>();
+  for (const s of record.snapshots) {
+    const daysAgo = Math.round((nowMs - s.time) / DAY_MS);
+    if (daysAgo < 1) continue;
+    const offset = Math.abs(nowMs - daysAgo * DAY_MS - s.time);
+    if (offset > HOUR_MS / 2) continue;
+    const best = byDay.get(daysAgo);
+    if (!best || offset < best.offset) byDay.set(daysAgo, { offset, volume: s.volume });
+  }
+  return windowStat([...byDay.values()].map(d => d.volume), current, MIN_SAME_HOUR_DAYS);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏔️ VOLUME PROFILE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildVolumeProfile(candles: VolumeCandleSample[], price: number, bins = PROFILE_BINS): VolumeProfile | null {
+  const usable = candles.filter(c => c.volume > 0 && c.high >= c.low && c.low > 0);
+  if (usable.length < PROFILE_MIN_HOURS) return null;
+
+  const low = Math.min(...usable.map(c => c.low));
+  const high = Math.max(...usable.map(c => c.high));
+  if (high <= low) return null;
+  const step = (high - low) / bins;
+
+  const profile: VolumeProfileBin[] = Array.from({ length: bins }, (_, i) => ({
+    priceLow: low + i * step,
+    priceHigh: low + (i + 1) * step,
+    volume: 0,
+  }));
+
+  // Spread each candle's volume evenly over the price bins its range covers
+  for (const c of usable) {
+    const from = Math.min(bins - 1, Math.floor((c.low - low) / step));
+    const to = Math.min(bins - 1, Math.floor((c.high - low) / step));
+    const share = c.volume / (to - from + 1);
+    for (let i = from; i <= to; i++) profile[i].volume += share;
+  }
+
+  const pocIndex = profile.reduce((best, bin, i) => (bin.volume > profile[best].volume ? i : best), 0);
+  const total = profile.reduce((sum, bin) => sum + bin.volume, 0);
+
+  // Value area — grow from the POC toward whichever neighbour traded more
+  let lo = pocIndex;
+  let hi = pocIndex;
+  let covered = profile[pocIndex].volume;
+  while (covered < total * VALUE_AREA_SHARE && (lo > 0 || hi < bins - 1)) {
+    const below = lo > 0 ? profile[lo - 1].volume : -1;
+    const above = hi < bins - 1 ? profile[hi + 1].volume : -1;
+    if (above >= below) covered += profile[++hi].volume;
+    else covered += profile[--lo].volume;
+  }
+
+  const valueAreaLow = profile[lo].priceLow;
+  const valueAreaHigh = profile[hi].priceHigh;
+  return {
+    bins: profile,
+    poc: (profile[pocIndex].priceLow + profile[pocIndex].priceHigh) / 2,
+    valueAreaLow,
+    valueAreaHigh,
+    position: price > valueAreaHigh ? 'ABOVE_VALUE' : price < valueAreaLow ? 'BELOW_VALUE' : 'IN_VALUE',
+    hours: usable.length,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 BASELINE FOR THE SPIKE DETECTOR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Baseline for the current 24h volume, or null while the history is too short
+ * to say anything (the caller then falls back to its estimate).
+ */
+export function computeVolumeBaseline(
+  record: VolumeHistoryRecord | null,
+  currentVolume: number,
+  price: number,
+  nowMs: number
+): VolumeBaseline | null {
+  if (!record || !(currentVolume > 0)) return null;
+
+  const d7 = rollingStat(record, currentVolume, nowMs, 7 * DAY_MS, DAY_MS);
+  // Only distinct from the 7-day window once the history runs past a week
+  const d30 = rollingStat(record, currentVolume, nowMs, 30 * DAY_MS, 8 * DAY_MS);
+  const sameHour = sameHourStat(record, currentVolume, nowMs);
+  const profile = buildVolumeProfile(record.hourly.filter(c => nowMs - c.time <= PROFILE_WINDOW_MS), price);
+
+  const primary = d7 ? { basis: '7d' as const, stat: d7 } : d30 ? { basis: '30d' as const, stat: d30 } : sameHour ? { basis: 'same-hour' as const, stat: sameHour } : null;
+  if (!primary) return null;
+
+  const newest = Math.max(
+    record.snapshots[record.snapshots.length - 1]?.time ?? 0,
+    // Hourly candles are keyed by open time; their data is as of the close
+    (record.hourly[record.hourly.length - 1]?.time ?? -HOUR_MS) + HOUR_MS
+  );
+
+  return {
+    basis: primary.basis,
+    average: primary.stat.mean,
+    current: primary.stat.current,
+    relativeVolume: primary.stat.ratio,
+    zScore: primary.stat.zScore,
+    sameHour,
+    d7,
+    d30,
+    profile,
+    asOf: newest,
+  };
+}
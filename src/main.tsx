@@ -3,6 +3,10 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 import "./i18n/config";
+import { installNeuralStatePersistence } from "./lib/neuralStatePersistence";
+import { installVolumeHistoryPersistence } from "./lib/volumeHistoryPersistence";
+import { installCatalystCalendar } from "./lib/catalystCalendarPersistence";
+import { installPriceHistoryPersistence } from "./lib/priceHistoryPersistence";
 
 // Register service worker for offline caching (must respect Vite base "./" for preview/IPFS)
 if ("serviceWorker" in navigator) {
@@ -32,6 +36,15 @@ if ("serviceWorker" in navigator) {
   });
 }
 
+// Restore the neural ensemble's learned state before the first analysis
+installNeuralStatePersistence();
+// Recorded volume baselines for the volume-spike detector
+installVolumeHistoryPersistence();
+// User-editable catalyst calendar (seeded with the built-in FOMC/CPI schedule)
+installCatalystCalendar();
+// Hourly closes of every tracked coin for correlation and regime detection
+installPriceHistoryPersistence();
+
 const container = document.getElementById("root")!;
 const root = createRoot(container);
 
@@ -9,6 +9,8 @@ import AIAnalyzer from "@/components/dashboard/AIAnalyzer";
 import CryptoTicker from "@/components/dashboard/CryptoTicker";
 import SentimentAnalysis from "@/components/dashboard/SentimentAnalysis";
 import OnChainMetrics from "@/components/dashboard/OnChainMetrics";
+import BacktestPanel from "@/components/dashboard/BacktestPanel";
+import AnalysisComparison from "@/components/dashboard/AnalysisComparison";
 const Analyzer = () => {
   const [selectedCrypto, setSelectedCrypto] = useState("BTC");
   const { getPriceBySymbol, loading } = useCryptoPrices();
@@ -125,6 +127,12 @@ const Analyzer = () => {
             />
           </div>
 
+          {/* Analysis Diff & Timeline */}
+          <AnalysisComparison crypto={selectedCrypto} />
+
+          {/* Historical Backtest */}
+          <BacktestPanel crypto={selectedCrypto} />
+
           {/* Additional Analysis Tips */}
           <div className="rounded-2xl border border-border bg-card p-6">
             <h3 className="text-lg font-semibold text-foreground mb-4">{t("analyzer.analysisGuide")}</h3>
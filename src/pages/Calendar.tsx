@@ -0,0 +1,276 @@
+import { useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { CalendarDays, Download, Pencil, Plus, RotateCcw, Trash2, Upload } from "lucide-react";
+import Sidebar from "@/components/dashboard/Sidebar";
+import CatalystEventDialog from "@/components/dashboard/CatalystEventDialog";
+import { Calendar as DayCalendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCatalystCalendar } from "@/hooks/useCatalystCalendar";
+import { catalystDate, isCatalystRelevant, leadDaysFor } from "@/lib/zikalyze-brain";
+import { CatalystEvent } from "@/lib/zikalyze-brain/types";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+const IMPACT_STYLE: Record<CatalystEvent["impact"], string> = {
+  HIGH: "bg-destructive/15 text-destructive",
+  MEDIUM: "bg-warning/15 text-warning",
+  LOW: "bg-secondary text-muted-foreground",
+};
+
+const EFFECT_STYLE: Record<CatalystEvent["expectedEffect"], string> = {
+  BULLISH: "text-success",
+  BEARISH: "text-destructive",
+  VOLATILE: "text-warning",
+  UNCERTAIN: "text-muted-foreground",
+};
+
+const SOURCE_LABEL: Record<CatalystEvent["source"], string> = {
+  "built-in": "Built-in",
+  user: "Added by you",
+  import: "Imported",
+};
+
+const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+const downloadText = (text: string, filename: string, type: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const EventRow = ({ event, onEdit, onDelete }: { event: CatalystEvent; onEdit: () => void; onDelete: () => void }) => (
+  <div className="flex items-start justify-between gap-3 p-3 rounded-xl bg-secondary/50">
+    <div className="min-w-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-foreground">{event.title}</span>
+        <span className={cn("rounded px-1.5 py-0.5 text-[10px] font-medium", IMPACT_STYLE[event.impact])}>{event.impact}</span>
+        <span className={cn("text-[10px] font-medium", EFFECT_STYLE[event.expectedEffect])}>{event.expectedEffect}</span>
+      </div>
+      <div className="mt-0.5 text-xs text-muted-foreground">
+        {format(catalystDate(event.date), "EEE d MMM yyyy")}
+        {event.time ? ` • ${event.time} UTC` : ""} • {event.category.replace("_", " ").toLowerCase()} •{" "}
+        {event.symbols.length > 0 ? event.symbols.join(", ") : "whole market"} • shows {leadDaysFor(event)}d ahead •{" "}
+        {SOURCE_LABEL[event.source]}{event.feed ? ` (${event.feed})` : ""}
+      </div>
+      {event.description && <p className="mt-1 text-xs text-muted-foreground">{event.description}</p>}
+    </div>
+    <div className="flex shrink-0 gap-1">
+      <Button variant="ghost" size="icon" onClick={onEdit} title="Edit">
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onDelete} title="Delete">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+const Calendar = () => {
+  const { events, saveEvent, deleteEvent, importFile, exportJSON, restoreBuiltIns } = useCatalystCalendar();
+  const [selectedDay, setSelectedDay] = useState<Date>(() => new Date());
+  const [symbolFilter, setSymbolFilter] = useState("");
+  const [editing, setEditing] = useState<CatalystEvent | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(
+    () => events.filter((e) => isCatalystRelevant(e, symbolFilter.trim() || undefined)),
+    [events, symbolFilter]
+  );
+
+  const todayKey = toDateKey(new Date());
+  const upcoming = visible.filter((e) => e.date >= todayKey).slice(0, 12);
+  const selectedKey = toDateKey(selectedDay);
+  const onSelectedDay = visible.filter((e) => e.date === selectedKey);
+
+  // A calendar with no high-impact macro date ahead is almost certainly stale
+  const staleAfter = useMemo(() => {
+    const macro = events.filter((e) => e.category === "MACRO" && e.impact === "HIGH").map((e) => e.date).sort();
+    const last = macro[macro.length - 1];
+    if (!last) return "now";
+    const horizon = toDateKey(new Date(Date.now() + 60 * 24 * 60 * 60 * 1000));
+    return last < horizon ? last : null;
+  }, [events]);
+
+  const daysByImpact = useMemo(() => {
+    const byImpact: Record<CatalystEvent["impact"], Date[]> = { HIGH: [], MEDIUM: [], LOW: [] };
+    visible.forEach((e) => byImpact[e.impact].push(catalystDate(e.date)));
+    return byImpact;
+  }, [visible]);
+
+  const openEditor = (event: CatalystEvent | null) => {
+    setEditing(event);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (event: CatalystEvent) => {
+    try {
+      await deleteEvent(event.id);
+      toast.success(`Removed ${event.title}`);
+    } catch {
+      toast.error("Could not delete the event");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const result = await importFile(file);
+      if (result.events.length === 0) {
+        toast.error("Nothing imported", { description: result.errors[0] ?? "No events found in the file" });
+        return;
+      }
+      toast.success(`Imported ${result.added} new, updated ${result.updated}`, {
+        description: result.errors.length > 0
+          ? `${result.errors.length} note(s): ${result.errors.slice(0, 2).join("; ")}`
+          : undefined,
+      });
+    } catch (err) {
+      toast.error("Import failed", { description: err instanceof Error ? err.message : "Could not read the file" });
+    }
+  };
+
+  const handleRestore = async () => {
+    const restored = await restoreBuiltIns();
+    toast.success(restored > 0 ? `Restored ${restored} built-in dates` : "All built-in dates are present");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <main className="ml-16 lg:ml-64">
+        {/* Header */}
+        <header className="flex flex-wrap items-center justify-between gap-3 border-b border-border px-6 py-4">
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <CalendarDays className="h-6 w-6" />
+            Catalyst Calendar
+          </h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={symbolFilter}
+              onChange={(e) => setSymbolFilter(e.target.value)}
+              placeholder="Relevant to (e.g. ETH)"
+              className="w-44 bg-secondary border-border"
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar,.json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4" />
+              Import ICS/JSON
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={events.length === 0}
+              onClick={() => downloadText(exportJSON(), `zikalyze-catalysts-${todayKey}.json`, "application/json")}
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleRestore}>
+              <RotateCcw className="h-4 w-4" />
+              Restore built-ins
+            </Button>
+            <Button size="sm" className="gap-2" onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4" />
+              Add event
+            </Button>
+          </div>
+        </header>
+
+        <div className="p-6 space-y-6">
+          {staleAfter && (
+            <div className="rounded-xl border border-warning/30 bg-warning/10 p-3 text-sm text-warning">
+              {staleAfter === "now"
+                ? "No high-impact macro dates in the calendar."
+                : `The last high-impact macro date is ${format(catalystDate(staleAfter), "d MMM yyyy")}.`}{" "}
+              Import a current FOMC/CPI calendar (.ics) so analyses keep warning about them.
+            </div>
+          )}
+
+          <div className="grid gap-6 lg:grid-cols-[auto,1fr]">
+            <div className="rounded-xl border border-border bg-card p-2 self-start">
+              <DayCalendar
+                mode="single"
+                selected={selectedDay}
+                onSelect={(day) => day && setSelectedDay(day)}
+                modifiers={{ high: daysByImpact.HIGH, medium: daysByImpact.MEDIUM, low: daysByImpact.LOW }}
+                modifiersClassNames={{
+                  high: "ring-1 ring-inset ring-destructive/60",
+                  medium: "ring-1 ring-inset ring-warning/60",
+                  low: "underline decoration-muted-foreground",
+                }}
+              />
+              <div className="flex gap-3 px-3 pb-2 text-[11px] text-muted-foreground">
+                <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-destructive" /> High</span>
+                <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-warning" /> Medium</span>
+                <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-muted-foreground" /> Low</span>
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              <div className="rounded-xl border border-border bg-card p-4">
+                <div className="mb-3 flex items-center justify-between">
+                  <h3 className="font-semibold text-foreground">{format(selectedDay, "EEEE d MMMM yyyy")}</h3>
+                  <Button variant="ghost" size="sm" className="gap-1" onClick={() => openEditor(null)}>
+                    <Plus className="h-4 w-4" /> Add
+                  </Button>
+                </div>
+                {onSelectedDay.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No catalysts on this day.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {onSelectedDay.map((event) => (
+                      <EventRow key={event.id} event={event} onEdit={() => openEditor(event)} onDelete={() => handleDelete(event)} />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="rounded-xl border border-border bg-card p-4">
+                <h3 className="mb-1 font-semibold text-foreground">Upcoming</h3>
+                <p className="mb-3 text-xs text-muted-foreground">
+                  Each event appears in AI analyses once it is within its lead window
+                  {symbolFilter.trim() ? `; showing events relevant to ${symbolFilter.trim().toUpperCase()}` : ""}.
+                </p>
+                {upcoming.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing scheduled.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {upcoming.map((event) => (
+                      <EventRow key={event.id} event={event} onEdit={() => openEditor(event)} onDelete={() => handleDelete(event)} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <CatalystEventDialog
+        open={dialogOpen}
+        event={editing}
+        defaultDate={selectedKey}
+        onOpenChange={setDialogOpen}
+        onSave={saveEvent}
+      />
+    </div>
+  );
+};
+
+export default Calendar;
@@ -15,6 +15,8 @@ import ErrorBoundary, { ChartErrorFallback, MinimalErrorFallback } from "@/compo
 // Lazy load heavy components to reduce initial bundle
 // Using GPU-accelerated rendering + decentralized oracle data
 const DecentralizedVolumeChart = lazy(() => import("@/components/dashboard/DecentralizedVolumeChart"));
+const DepthChart = lazy(() => import("@/components/dashboard/DepthChart"));
+const DerivativesCard = lazy(() => import("@/components/dashboard/DerivativesCard"));
 const GPUPriceChart = lazy(() => import("@/components/dashboard/GPUPriceChart"));
 const GPUHeatmap = lazy(() => import("@/components/dashboard/GPUHeatmap"));
 const AIMetrics = lazy(() => import("@/components/dashboard/AIMetrics"));
@@ -186,6 +188,16 @@ const Dashboard = () => {
                   <DecentralizedVolumeChart crypto={selectedCrypto} />
                 </Suspense>
               </ErrorBoundary>
+              <ErrorBoundary componentName="Depth Chart" fallback={<ChartErrorFallback />}>
+                <Suspense fallback={<ChartSkeleton />}>
+                  <DepthChart crypto={selectedCrypto} />
+                </Suspense>
+              </ErrorBoundary>
+              <ErrorBoundary componentName="Derivatives" fallback={<ChartErrorFallback />}>
+                <Suspense fallback={<ChartSkeleton />}>
+                  <DerivativesCard crypto={selectedCrypto} />
+                </Suspense>
+              </ErrorBoundary>
             </div>
             <div className="space-y-4 md:space-y-6">
               <ErrorBoundary componentName="AI Metrics" fallback={<MinimalErrorFallback />}>
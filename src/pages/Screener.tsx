@@ -0,0 +1,310 @@
+import { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowDown, ArrowUp, Loader2, Play, ScanSearch, Square } from "lucide-react";
+import Sidebar from "@/components/dashboard/Sidebar";
+import TradePlanCard from "@/components/dashboard/TradePlanCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useCryptoPrices } from "@/hooks/useCryptoPrices";
+import { useSettings } from "@/hooks/useSettings";
+import { useScreener, ScreenerUniverse, SCREENER_WATCHLIST } from "@/hooks/useScreener";
+import {
+  DEFAULT_SCREENER_FILTER,
+  filterScreenerRows,
+  sortScreenerRows,
+  ScreenerFilter,
+  ScreenerRow,
+  ScreenerSortKey,
+} from "@/lib/zikalyze-brain/screener";
+import { cn } from "@/lib/utils";
+
+const BIAS_STYLE: Record<ScreenerRow["bias"], string> = {
+  LONG: "bg-success/15 text-success",
+  SHORT: "bg-destructive/15 text-destructive",
+  NEUTRAL: "bg-secondary text-muted-foreground",
+};
+
+const TIMING_LABEL: Record<ScreenerRow["timing"], string> = {
+  NOW: "Now",
+  WAIT_PULLBACK: "Wait pullback",
+  WAIT_BREAKOUT: "Wait breakout",
+  AVOID: "Avoid",
+};
+
+const TIMING_STYLE: Record<ScreenerRow["timing"], string> = {
+  NOW: "text-success",
+  WAIT_PULLBACK: "text-warning",
+  WAIT_BREAKOUT: "text-warning",
+  AVOID: "text-muted-foreground",
+};
+
+const COLUMNS: { key: ScreenerSortKey; label: string; className?: string }[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "change", label: "24h", className: "text-right" },
+  { key: "confidence", label: "Bias / Confidence" },
+  { key: "timing", label: "Timing" },
+  { key: "volume", label: "Volume vs avg", className: "text-right" },
+  { key: "confluence", label: "Timeframes" },
+];
+
+const formatPrice = (value: number) =>
+  `$${value.toLocaleString("en-US", { maximumFractionDigits: value >= 100 ? 2 : value >= 1 ? 4 : 6 })}`;
+
+const Screener = () => {
+  const { prices, getPriceBySymbol, loading } = useCryptoPrices();
+  const { settings } = useSettings();
+  const { rows, failures, progress, isRunning, lastRunAt, error, run, cancel } = useScreener();
+  const [universe, setUniverse] = useState<ScreenerUniverse>("watchlist");
+  const [filter, setFilter] = useState<ScreenerFilter>(DEFAULT_SCREENER_FILTER);
+  const [sort, setSort] = useState<{ key: ScreenerSortKey; descending: boolean }>({ key: "confidence", descending: true });
+  const [opened, setOpened] = useState<ScreenerRow | null>(null);
+
+  const universePrices = useMemo(
+    () =>
+      universe === "watchlist"
+        ? SCREENER_WATCHLIST.map((symbol) => getPriceBySymbol(symbol)).filter(Boolean)
+        : [...prices].sort((a, b) => (a.market_cap_rank || 999) - (b.market_cap_rank || 999)).slice(0, 100),
+    [universe, prices, getPriceBySymbol]
+  );
+
+  const visible = useMemo(
+    () => sortScreenerRows(filterScreenerRows(rows, filter), sort.key, sort.descending),
+    [rows, filter, sort]
+  );
+
+  const updateFilter = (patch: Partial<ScreenerFilter>) => setFilter((prev) => ({ ...prev, ...patch }));
+
+  const toggleSort = (key: ScreenerSortKey) =>
+    setSort((prev) => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== "symbol" }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <main className="ml-16 lg:ml-64">
+        {/* Header */}
+        <header className="flex flex-wrap items-center justify-between gap-3 border-b border-border px-6 py-4">
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <ScanSearch className="h-6 w-6" />
+            Screener
+          </h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={universe} onValueChange={(v) => setUniverse(v as ScreenerUniverse)} disabled={isRunning}>
+              <SelectTrigger className="w-44 bg-secondary border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="watchlist">Watchlist ({SCREENER_WATCHLIST.length})</SelectItem>
+                <SelectItem value="top100">Top 100</SelectItem>
+              </SelectContent>
+            </Select>
+            {isRunning ? (
+              <Button variant="outline" size="sm" className="gap-2" onClick={cancel}>
+                <Square className="h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" className="gap-2" disabled={loading || universePrices.length === 0} onClick={() => run(universePrices)}>
+                <Play className="h-4 w-4" />
+                Run {universePrices.length} analyses
+              </Button>
+            )}
+          </div>
+        </header>
+
+        <div className="p-6 space-y-6">
+          {/* Progress */}
+          {(isRunning || lastRunAt) && (
+            <div className="rounded-2xl border border-border bg-card p-4 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-foreground">
+                  {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {isRunning
+                    ? `Analyzing ${progress.done} / ${progress.total}`
+                    : `Analyzed ${progress.done} of ${progress.total} ${formatDistanceToNow(lastRunAt, { addSuffix: true })}`}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {rows.filter((r) => !r.hasCandles).length > 0 &&
+                    `${rows.filter((r) => !r.hasCandles).length} without archived candles (quote only)`}
+                </span>
+              </div>
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-1.5" />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+              {failures.length > 0 && (
+                <p className="text-xs text-warning">
+                  Failed: {failures.map((f) => `${f.symbol} (${f.error})`).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="rounded-2xl border border-border bg-card p-4">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Bias</Label>
+                <Select value={filter.bias} onValueChange={(v) => updateFilter({ bias: v as ScreenerFilter["bias"] })}>
+                  <SelectTrigger className="bg-secondary border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ANY">Any</SelectItem>
+                    <SelectItem value="LONG">Long</SelectItem>
+                    <SelectItem value="SHORT">Short</SelectItem>
+                    <SelectItem value="NEUTRAL">Neutral</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Confidence above</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={filter.minConfidence}
+                  onChange={(e) => updateFilter({ minConfidence: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+                  className="bg-secondary border-border"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Aligned timeframes ≥</Label>
+                <Select
+                  value={String(filter.minAlignedTimeframes)}
+                  onValueChange={(v) => updateFilter({ minAlignedTimeframes: Number(v) })}
+                >
+                  <SelectTrigger className="bg-secondary border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[0, 1, 2, 3, 4, 5].map((n) => (
+                      <SelectItem key={n} value={String(n)}>{n === 0 ? "Any" : `${n} of 5`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Timing</Label>
+                <Select value={filter.timing} onValueChange={(v) => updateFilter({ timing: v as ScreenerFilter["timing"] })}>
+                  <SelectTrigger className="bg-secondary border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ANY">Any</SelectItem>
+                    <SelectItem value="NOW">Now</SelectItem>
+                    <SelectItem value="WAIT">Wait (pullback / breakout)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end justify-between gap-2 pb-2">
+                <Label htmlFor="spikes-only" className="text-sm text-foreground">Volume spikes only</Label>
+                <Switch id="spikes-only" checked={filter.spikesOnly} onCheckedChange={(v) => updateFilter({ spikesOnly: v })} />
+              </div>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="rounded-2xl border border-border bg-card">
+            {rows.length === 0 ? (
+              <p className="p-6 text-sm text-muted-foreground">
+                {isRunning
+                  ? "Results appear here as each symbol finishes."
+                  : "Run the screener to analyze every symbol in the list and rank the setups."}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {COLUMNS.map((column) => (
+                      <TableHead key={column.key} className={column.className}>
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-1 hover:text-foreground"
+                          onClick={() => toggleSort(column.key)}
+                        >
+                          {column.label}
+                          {sort.key === column.key &&
+                            (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                        </button>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((row) => (
+                    <TableRow key={row.symbol} className="cursor-pointer" onClick={() => setOpened(row)}>
+                      <TableCell>
+                        <div className="font-medium text-foreground">{row.symbol}</div>
+                        <div className="text-xs text-muted-foreground">{formatPrice(row.price)}</div>
+                      </TableCell>
+                      <TableCell className={cn("text-right", row.change >= 0 ? "text-success" : "text-destructive")}>
+                        {row.change >= 0 ? "+" : ""}{row.change.toFixed(2)}%
+                      </TableCell>
+                      <TableCell>
+                        <span className={cn("rounded px-1.5 py-0.5 text-xs font-medium", BIAS_STYLE[row.bias])}>{row.bias}</span>
+                        <span className="ml-2 font-semibold text-foreground">{row.confidence.toFixed(0)}%</span>
+                      </TableCell>
+                      <TableCell className={TIMING_STYLE[row.timing]}>{TIMING_LABEL[row.timing]}</TableCell>
+                      <TableCell className={cn("text-right", row.volumeSpike.isSpike ? "text-warning font-medium" : "text-muted-foreground")}>
+                        {row.volumeSpike.percentageAboveAvg >= 0 ? "+" : ""}{row.volumeSpike.percentageAboveAvg.toFixed(0)}%
+                        {row.volumeSpike.isSpike && <span className="ml-1 text-[10px]">{row.volumeSpike.magnitude}</span>}
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-foreground">{row.alignedTimeframes}/5</span>
+                        <span className="ml-2 text-xs text-muted-foreground">{row.confluence}% confluence</span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {visible.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={COLUMNS.length} className="text-center text-sm text-muted-foreground">
+                        No symbols match these filters.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Full analysis */}
+      <Dialog open={opened !== null} onOpenChange={(open) => !open && setOpened(null)}>
+        <DialogContent className="max-w-3xl">
+          {opened && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {opened.symbol} — {opened.bias} {opened.confidence.toFixed(0)}%
+                </DialogTitle>
+                <DialogDescription>
+                  {TIMING_LABEL[opened.timing]} • {opened.alignedTimeframes}/5 timeframes aligned •{" "}
+                  {opened.hasCandles ? "quote + archived candles" : "quote only"}
+                </DialogDescription>
+              </DialogHeader>
+              <ScrollArea className="max-h-[70vh] pr-3">
+                <div className="space-y-4">
+                  {opened.result.tradePlan && (
+                    <TradePlanCard plan={opened.result.tradePlan} crypto={opened.symbol} riskSettings={settings.risk} />
+                  )}
+                  <div className="whitespace-pre-line text-sm text-foreground leading-relaxed font-mono">
+                    {opened.result.analysis}
+                  </div>
+                </div>
+              </ScrollArea>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Screener;
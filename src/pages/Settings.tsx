@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import Sidebar from "@/components/dashboard/Sidebar";
-import { Search, User, Bell, Shield, Palette, Globe, Moon, Sun, Save, Volume2, VolumeX, Mail, Lock, Loader2, AlertTriangle } from "lucide-react";
+import { Search, User, Bell, Shield, Palette, Globe, Moon, Sun, Save, Volume2, VolumeX, Mail, Lock, Loader2, AlertTriangle, Brain } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -19,7 +19,10 @@ import TwoFactorAuth from "@/components/settings/TwoFactorAuth";
 import { SessionManagement } from "@/components/settings/SessionManagement";
 import NotificationSettings from "@/components/settings/NotificationSettings";
 import EmailDigestSettings from "@/components/settings/EmailDigestSettings";
+import RiskSettings from "@/components/settings/RiskSettings";
+import NeuralModelSettings from "@/components/settings/NeuralModelSettings";
 import { languageCodes } from "@/i18n/config";
+import { OUTCOME_HORIZONS } from "@/lib/zikalyze-brain";
 
 const emailSchema = z.string().email("Please enter a valid email address");
 const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
@@ -79,6 +82,7 @@ const Settings = () => {
     { id: "profile", label: "Profile", icon: User },
     { id: "general", label: "General", icon: Globe },
     { id: "notifications", label: "Notifications", icon: Bell },
+    { id: "trading", label: "AI & Trading", icon: Brain },
     { id: "appearance", label: "Appearance", icon: Palette },
     { id: "security", label: "Security", icon: Shield },
   ];
@@ -486,6 +490,51 @@ const Settings = () => {
                 </div>
               )}
 
+              {activeTab === "trading" && (
+                <div className="space-y-6">
+                  <h3 className="text-lg font-semibold text-foreground mb-4">AI & Trading</h3>
+                  <RiskSettings />
+                  <div className="flex items-center justify-between p-4 rounded-xl bg-secondary/50">
+                    <div>
+                      <div className="font-medium text-foreground">Measured Data Only</div>
+                      <div className="text-sm text-muted-foreground">Leave estimated inputs (whale, exchange and ETF flows modelled from price) out of the AI verdict</div>
+                    </div>
+                    <Switch
+                      checked={settings.excludeDerivedInputs}
+                      onCheckedChange={(checked) => saveSettings({ excludeDerivedInputs: checked })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between p-4 rounded-xl bg-secondary/50">
+                    <div>
+                      <div className="font-medium text-foreground">Automatic Outcome Grading</div>
+                      <div className="text-sm text-muted-foreground">Check past analyses against the price path at these horizons and mark them correct or incorrect</div>
+                    </div>
+                    <div className="flex gap-1">
+                      {OUTCOME_HORIZONS.map((horizon) => {
+                        const enabled = settings.outcomeHorizons.includes(horizon);
+                        return (
+                          <Button
+                            key={horizon}
+                            size="sm"
+                            variant={enabled ? "default" : "outline"}
+                            onClick={() => saveSettings({
+                              outcomeHorizons: enabled
+                                ? settings.outcomeHorizons.filter((h) => h !== horizon)
+                                : OUTCOME_HORIZONS.filter((h) => h === horizon || settings.outcomeHorizons.includes(h)),
+                            })}
+                          >
+                            {horizon}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  <div className="border-t border-border pt-6">
+                    <NeuralModelSettings />
+                  </div>
+                </div>
+              )}
+
               {activeTab === "appearance" && (
                 <div className="space-y-6">
                   <h3 className="text-lg font-semibold text-foreground mb-4">Appearance</h3>
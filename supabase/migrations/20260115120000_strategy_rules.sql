@@ -0,0 +1,37 @@
+-- User-written strategy rules (see src/lib/zikalyze-brain/strategy-rules.ts)
+CREATE TABLE public.strategy_rules (
+  id TEXT NOT NULL PRIMARY KEY, -- Client-generated (clientStorage.generateId)
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  expression TEXT NOT NULL,
+  symbol TEXT,                 -- NULL = every symbol
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  alert BOOLEAN NOT NULL DEFAULT false,
+  last_triggered_at TIMESTAMP WITH TIME ZONE,
+  -- Written by the client so offline edits keep their order
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.strategy_rules ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own rules
+CREATE POLICY "Users can view their own strategy rules"
+ON public.strategy_rules FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own strategy rules"
+ON public.strategy_rules FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own strategy rules"
+ON public.strategy_rules FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own strategy rules"
+ON public.strategy_rules FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create index for faster lookups
+CREATE INDEX idx_strategy_rules_user ON public.strategy_rules(user_id);
@@ -32,6 +32,10 @@ export default defineConfig(({ mode }) => ({
       },
     },
   },
+  // The brain worker is started as a module worker and loads report locales on demand
+  worker: {
+    format: "es",
+  },
   server: {
     host: "::",
     port: 8080,